@@ -2,4 +2,5 @@ import { config } from 'dotenv';
 config();
 
 import '@/ai/flows/summarize-product-information.ts';
-import '@/ai/flows/generate-product-descriptions.ts';
\ No newline at end of file
+import '@/ai/flows/generate-product-descriptions.ts';
+import '@/ai/flows/translate-product-text.ts';
\ No newline at end of file
@@ -0,0 +1,132 @@
+'use server';
+
+/**
+ * @fileOverview Translates product texts from a source locale into one or more target locales.
+ *
+ * - translateProductText - A function that translates a set of texts, keeping markup and glossary terms intact.
+ * - TranslateProductTextInput - The input type for the translateProductText function.
+ * - TranslateProductTextOutput - The return type for the translateProductText function.
+ */
+
+import { ai } from '@/ai/genkit';
+import { z } from 'genkit';
+import { protectText, restoreText } from '@/lib/machine-translation';
+
+const LocaleSchema = z.object({
+  code: z.string().describe('Locale code, e.g. "sv".'),
+  name: z.string().describe('Language name, e.g. "Swedish".'),
+});
+
+const TranslateProductTextInputSchema = z.object({
+  sourceLocale: LocaleSchema.describe('The language the texts are written in.'),
+  targetLocales: z.array(LocaleSchema).min(1).describe('The languages to translate into.'),
+  texts: z.record(z.string()).describe('Texts to translate, keyed by field.'),
+  glossary: z.array(z.string()).optional().describe('Terms that must not be translated, such as brand names and SKUs.'),
+  context: z.string().optional().describe('What the texts describe, e.g. the product name and brand.'),
+});
+
+export type TranslateProductTextInput = z.infer<typeof TranslateProductTextInputSchema>;
+
+const TranslateProductTextOutputSchema = z.object({
+  translations: z.record(z.record(z.string())).describe('Translated texts by field, then by locale code.'),
+  errors: z.array(z.string()).describe('Texts that could not be translated safely.'),
+});
+
+export type TranslateProductTextOutput = z.infer<typeof TranslateProductTextOutputSchema>;
+
+export async function translateProductText(
+  input: TranslateProductTextInput
+): Promise<TranslateProductTextOutput> {
+  return translateProductTextFlow(input);
+}
+
+const TranslateSegmentsPromptInputSchema = z.object({
+  sourceLanguage: z.string(),
+  targetLanguages: z.array(LocaleSchema),
+  segments: z.array(z.object({ id: z.string(), text: z.string() })),
+  context: z.string().optional(),
+});
+
+const TranslateSegmentsPromptOutputSchema = z.object({
+  translations: z.array(z.object({
+    locale: z.string().describe('Target locale code.'),
+    segments: z.array(z.object({
+      id: z.string().describe('The id of the source segment.'),
+      text: z.string().describe('The translated text.'),
+    })),
+  })),
+});
+
+const translateSegmentsPrompt = ai.definePrompt({
+  name: 'translateSegmentsPrompt',
+  input: { schema: TranslateSegmentsPromptInputSchema },
+  output: { schema: TranslateSegmentsPromptOutputSchema },
+  prompt: `You are a professional e-commerce translator. Translate each segment below from {{{sourceLanguage}}} into each of these languages:
+{{#each targetLanguages}}
+- {{{name}}} (locale code "{{{code}}}")
+{{/each}}
+
+{{#if context}}
+The texts belong to this product: {{{context}}}
+{{/if}}
+
+Rules:
+- Placeholders like [[0]] stand for markup, links and names. Copy every placeholder into the translation exactly once, unchanged.
+- Keep markdown formatting (headings, lists, bold, italics) and line breaks as in the source.
+- Do not add, remove or explain anything. Keep the tone of the source.
+- Return every segment id for every locale code.
+
+Segments:
+{{#each segments}}
+[{{{id}}}]
+{{{text}}}
+
+{{/each}}`,
+});
+
+const translateProductTextFlow = ai.defineFlow(
+  {
+    name: 'translateProductTextFlow',
+    inputSchema: TranslateProductTextInputSchema,
+    outputSchema: TranslateProductTextOutputSchema,
+  },
+  async input => {
+    const entries = Object.entries(input.texts).filter(([, text]) => text.trim() !== '');
+    const translations: Record<string, Record<string, string>> = {};
+    const errors: string[] = [];
+    if (entries.length === 0) {
+      return { translations, errors };
+    }
+
+    const protectedTexts = Object.fromEntries(
+      entries.map(([key, text]) => [key, protectText(text, input.glossary)])
+    );
+
+    const { output } = await translateSegmentsPrompt({
+      sourceLanguage: input.sourceLocale.name,
+      targetLanguages: input.targetLocales,
+      segments: entries.map(([key]) => ({ id: key, text: protectedTexts[key].text })),
+      context: input.context,
+    });
+
+    for (const locale of input.targetLocales) {
+      const segments = output?.translations.find(t => t.locale === locale.code)?.segments || [];
+      for (const [key] of entries) {
+        const segment = segments.find(s => s.id === key);
+        if (!segment || segment.text.trim() === '') {
+          errors.push(`${key} (${locale.code}): no translation returned`);
+          continue;
+        }
+
+        const restored = restoreText(segment.text, protectedTexts[key].tokens);
+        if (restored.missing.length > 0) {
+          errors.push(`${key} (${locale.code}): translation dropped ${restored.missing.join(', ')}`);
+          continue;
+        }
+        translations[key] = { ...translations[key], [locale.code]: restored.text };
+      }
+    }
+
+    return { translations, errors };
+  }
+);
@@ -0,0 +1,351 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { AttributeDefinition, AttributeFamily, AttributeType } from '@/types/attribute';
+import { ATTRIBUTE_TYPES } from '@/types/attribute';
+import { DIMENSIONS, type Dimension } from '@/types/units';
+import type { MultilingualString } from '@/types/product';
+import { useAttributeFamilyStore } from '@/lib/attribute-family-store';
+import { getAttributeLabel, validateAttributeFamily } from '@/lib/attribute-validation';
+import { DEFAULT_UNIT_PREFERENCES, getUnitsForDimension } from '@/lib/units-of-measure';
+import { MultilingualInput } from '@/components/shared/multilingual-input';
+import { Badge } from '@/components/ui/badge';
+import { Breadcrumb } from '@/components/ui/breadcrumb';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { Edit, Layers, PlusCircle, Trash2 } from 'lucide-react';
+
+const TYPE_LABELS: Record<AttributeType, string> = {
+  text: 'Text',
+  number: 'Number',
+  boolean: 'Yes / No',
+  enum: 'Option list',
+  date: 'Date',
+  multilingual: 'Translated text',
+};
+
+const NO_DIMENSION = '__none__';
+
+const DIMENSION_LABELS: Record<Dimension, string> = {
+  length: 'Length',
+  mass: 'Mass',
+  volume: 'Volume',
+  power: 'Power',
+};
+
+interface FamilyDraft {
+  code: string;
+  name: MultilingualString;
+  description: string;
+  attributes: AttributeDefinition[];
+}
+
+const emptyDraft = (): FamilyDraft => ({ code: '', name: { en: '', no: '' }, description: '', attributes: [] });
+
+const emptyAttribute = (): AttributeDefinition => ({ code: '', label: { en: '', no: '' }, type: 'text', required: false });
+
+// Enum options are edited as "value=Label" lines
+function optionsToText(definition: AttributeDefinition): string {
+  return (definition.options || []).map(o => `${o.value}=${o.label.en || ''}`).join('\n');
+}
+
+function textToOptions(text: string): AttributeDefinition['options'] {
+  return text
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map(line => {
+      const [value, ...label] = line.split('=');
+      return { value: value.trim(), label: { en: (label.join('=') || value).trim(), no: '' } };
+    });
+}
+
+function parseOptionalNumber(value: string): number | undefined {
+  return value.trim() === '' ? undefined : Number(value);
+}
+
+export default function AttributeFamiliesPage() {
+  const { families, isLoading, fetchFamilies, createFamily, updateFamily, deleteFamily } = useAttributeFamilyStore();
+  const { toast } = useToast();
+
+  const [editing, setEditing] = useState<AttributeFamily | 'new' | null>(null);
+  const [draft, setDraft] = useState<FamilyDraft>(emptyDraft());
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetchFamilies();
+  }, [fetchFamilies]);
+
+  const openEditor = (family: AttributeFamily | 'new') => {
+    setEditing(family);
+    setDraft(family === 'new'
+      ? emptyDraft()
+      : { code: family.code, name: family.name, description: family.description || '', attributes: family.attributes });
+  };
+
+  const updateAttribute = (index: number, changes: Partial<AttributeDefinition>) => {
+    setDraft(d => ({ ...d, attributes: d.attributes.map((a, i) => (i === index ? { ...a, ...changes } : a)) }));
+  };
+
+  const updateConstraints = (index: number, changes: NonNullable<AttributeDefinition['constraints']>) => {
+    setDraft(d => ({
+      ...d,
+      attributes: d.attributes.map((a, i) => (i === index ? { ...a, constraints: { ...a.constraints, ...changes } } : a)),
+    }));
+  };
+
+  const draftErrors = validateAttributeFamily(draft);
+
+  const handleSave = async () => {
+    if (!editing) return;
+    setIsSaving(true);
+    try {
+      const input = { ...draft, description: draft.description || undefined };
+      if (editing === 'new') {
+        await createFamily(input);
+        toast({ title: 'Attribute family created' });
+      } else {
+        await updateFamily(editing.id, input);
+        toast({ title: 'Attribute family updated' });
+      }
+      setEditing(null);
+    } catch (error) {
+      toast({ title: 'Saving attribute family failed', description: (error as Error).message, variant: 'destructive' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (family: AttributeFamily) => {
+    if (!window.confirm(`Delete attribute family "${family.name.en || family.code}"?`)) return;
+    try {
+      await deleteFamily(family.id);
+      toast({ title: 'Attribute family deleted' });
+    } catch (error) {
+      toast({ title: 'Deleting attribute family failed', description: (error as Error).message, variant: 'destructive' });
+    }
+  };
+
+  return (
+    <div className="container mx-auto py-8 space-y-6">
+      <div className="space-y-1">
+        <Breadcrumb items={[
+          { label: 'Products', href: '/products' },
+          { label: 'Attribute Families' }
+        ]} />
+        <div className="flex items-center justify-between">
+          <h1 className="text-3xl font-bold text-primary flex items-center gap-2">
+            <Layers className="h-7 w-7" /> Attribute Families
+          </h1>
+          <Button onClick={() => openEditor('new')}>
+            <PlusCircle className="mr-2 h-5 w-5" /> Add Family
+          </Button>
+        </div>
+      </div>
+
+      {isLoading && families.length === 0 && <p className="text-sm text-muted-foreground">Loading attribute families...</p>}
+      {!isLoading && families.length === 0 && (
+        <Card>
+          <CardContent className="py-10 text-center text-muted-foreground">
+            No attribute families yet. Create one to give products typed, validated attributes.
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="grid gap-4 md:grid-cols-2">
+        {families.map(family => (
+          <Card key={family.id}>
+            <CardHeader className="flex flex-row items-start justify-between space-y-0">
+              <div>
+                <CardTitle>{family.name.en || family.name.no || family.code}</CardTitle>
+                <CardDescription>{family.code}{family.description ? ` — ${family.description}` : ''}</CardDescription>
+              </div>
+              <div className="flex gap-1">
+                <Button variant="ghost" size="icon" onClick={() => openEditor(family)} aria-label="Edit family"><Edit className="h-4 w-4" /></Button>
+                <Button variant="ghost" size="icon" onClick={() => handleDelete(family)} aria-label="Delete family"><Trash2 className="h-4 w-4" /></Button>
+              </div>
+            </CardHeader>
+            <CardContent className="flex flex-wrap gap-2">
+              {family.attributes.length === 0 && <span className="text-sm text-muted-foreground">No attributes</span>}
+              {family.attributes.map(attribute => (
+                <Badge key={attribute.code} variant={attribute.required ? 'default' : 'secondary'}>
+                  {getAttributeLabel(attribute)} · {TYPE_LABELS[attribute.type]}{attribute.unit ? ` (${attribute.unit})` : ''}
+                </Badge>
+              ))}
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>{editing === 'new' ? 'New attribute family' : 'Edit attribute family'}</DialogTitle>
+          </DialogHeader>
+
+          <ScrollArea className="max-h-[65vh] pr-4">
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="family-code">Code</Label>
+                  <Input id="family-code" value={draft.code} onChange={(e) => setDraft(d => ({ ...d, code: e.target.value }))} placeholder="e.g. headphones" />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="family-description">Description</Label>
+                  <Input id="family-description" value={draft.description} onChange={(e) => setDraft(d => ({ ...d, description: e.target.value }))} />
+                </div>
+              </div>
+              <MultilingualInput id="family-name" label="Name" value={draft.name} onChange={(name) => setDraft(d => ({ ...d, name }))} required />
+
+              <div className="flex items-center justify-between pt-2">
+                <h3 className="font-semibold">Attributes</h3>
+                <Button variant="outline" size="sm" onClick={() => setDraft(d => ({ ...d, attributes: [...d.attributes, emptyAttribute()] }))}>
+                  <PlusCircle className="mr-2 h-4 w-4" /> Add Attribute
+                </Button>
+              </div>
+
+              {draft.attributes.map((attribute, index) => (
+                <div key={index} className="border rounded-lg p-4 space-y-3">
+                  <div className="grid grid-cols-3 gap-3">
+                    <div className="space-y-1">
+                      <Label>Code</Label>
+                      <Input value={attribute.code} onChange={(e) => updateAttribute(index, { code: e.target.value })} placeholder="e.g. battery_life" />
+                    </div>
+                    <div className="space-y-1">
+                      <Label>Type</Label>
+                      <Select value={attribute.type} onValueChange={(type) => updateAttribute(index, { type: type as AttributeType, dimension: type === 'number' ? attribute.dimension : undefined })}>
+                        <SelectTrigger><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          {ATTRIBUTE_TYPES.map(type => <SelectItem key={type} value={type}>{TYPE_LABELS[type]}</SelectItem>)}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="flex items-end gap-2 pb-2">
+                      <Checkbox id={`required-${index}`} checked={attribute.required} onCheckedChange={(checked) => updateAttribute(index, { required: checked === true })} />
+                      <Label htmlFor={`required-${index}`} className="font-normal">Required</Label>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="ml-auto"
+                        aria-label="Remove attribute"
+                        onClick={() => setDraft(d => ({ ...d, attributes: d.attributes.filter((_, i) => i !== index) }))}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+
+                  <MultilingualInput id={`attribute-label-${index}`} label="Label" value={attribute.label} onChange={(label) => updateAttribute(index, { label })} />
+
+                  {attribute.type === 'number' && (
+                    <div className="grid grid-cols-4 gap-3">
+                      <div className="space-y-1">
+                        <Label>Dimension</Label>
+                        <Select
+                          value={attribute.dimension || NO_DIMENSION}
+                          onValueChange={(value) => {
+                            const dimension = value === NO_DIMENSION ? undefined : value as Dimension;
+                            updateAttribute(index, { dimension, unit: dimension ? DEFAULT_UNIT_PREFERENCES[dimension] : attribute.unit });
+                          }}
+                        >
+                          <SelectTrigger><SelectValue /></SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={NO_DIMENSION}>(None)</SelectItem>
+                            {DIMENSIONS.map(dimension => <SelectItem key={dimension} value={dimension}>{DIMENSION_LABELS[dimension]}</SelectItem>)}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-1">
+                        <Label>Unit</Label>
+                        {attribute.dimension ? (
+                          <Select value={attribute.unit} onValueChange={(unit) => updateAttribute(index, { unit })}>
+                            <SelectTrigger><SelectValue /></SelectTrigger>
+                            <SelectContent>
+                              {getUnitsForDimension(attribute.dimension).map(unit => <SelectItem key={unit.code} value={unit.code}>{unit.name} ({unit.code})</SelectItem>)}
+                            </SelectContent>
+                          </Select>
+                        ) : (
+                          <Input value={attribute.unit || ''} onChange={(e) => updateAttribute(index, { unit: e.target.value || undefined })} placeholder="e.g. h" />
+                        )}
+                      </div>
+                      <div className="space-y-1">
+                        <Label>Min</Label>
+                        <Input type="number" value={attribute.constraints?.min ?? ''} onChange={(e) => updateConstraints(index, { min: parseOptionalNumber(e.target.value) })} />
+                      </div>
+                      <div className="space-y-1">
+                        <Label>Max</Label>
+                        <Input type="number" value={attribute.constraints?.max ?? ''} onChange={(e) => updateConstraints(index, { max: parseOptionalNumber(e.target.value) })} />
+                      </div>
+                    </div>
+                  )}
+
+                  {(attribute.type === 'text' || attribute.type === 'multilingual') && (
+                    <div className="grid grid-cols-3 gap-3">
+                      <div className="space-y-1">
+                        <Label>Min length</Label>
+                        <Input type="number" value={attribute.constraints?.minLength ?? ''} onChange={(e) => updateConstraints(index, { minLength: parseOptionalNumber(e.target.value) })} />
+                      </div>
+                      <div className="space-y-1">
+                        <Label>Max length</Label>
+                        <Input type="number" value={attribute.constraints?.maxLength ?? ''} onChange={(e) => updateConstraints(index, { maxLength: parseOptionalNumber(e.target.value) })} />
+                      </div>
+                      <div className="space-y-1">
+                        <Label>Pattern</Label>
+                        <Input value={attribute.constraints?.pattern || ''} onChange={(e) => updateConstraints(index, { pattern: e.target.value || undefined })} placeholder="Regular expression" />
+                      </div>
+                    </div>
+                  )}
+
+                  {attribute.type === 'enum' && (
+                    <div className="grid grid-cols-3 gap-3">
+                      <div className="space-y-1 col-span-2">
+                        <Label>Options (one per line, value=Label)</Label>
+                        <Textarea
+                          className="min-h-[80px]"
+                          defaultValue={optionsToText(attribute)}
+                          onBlur={(e) => updateAttribute(index, { options: textToOptions(e.target.value) })}
+                        />
+                      </div>
+                      <div className="flex items-start gap-2 pt-7">
+                        <Checkbox id={`multiple-${index}`} checked={!!attribute.constraints?.multiple} onCheckedChange={(checked) => updateConstraints(index, { multiple: checked === true })} />
+                        <Label htmlFor={`multiple-${index}`} className="font-normal">Allow multiple</Label>
+                      </div>
+                    </div>
+                  )}
+
+                  {attribute.required && (
+                    <div className="space-y-1 w-1/3">
+                      <Label>Completeness weight</Label>
+                      <Input type="number" min={0} value={attribute.weight ?? ''} onChange={(e) => updateAttribute(index, { weight: parseOptionalNumber(e.target.value) })} placeholder="10" />
+                    </div>
+                  )}
+                </div>
+              ))}
+
+              {draftErrors.length > 0 && (
+                <ul className="text-sm text-destructive list-disc pl-5">
+                  {draftErrors.map(error => <li key={error}>{error}</li>)}
+                </ul>
+              )}
+            </div>
+          </ScrollArea>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)} disabled={isSaving}>Cancel</Button>
+            <Button onClick={handleSave} disabled={isSaving || draftErrors.length > 0}>
+              {isSaving ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
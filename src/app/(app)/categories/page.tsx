@@ -0,0 +1,214 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import type { CategoryTreeNode } from '@/types/category';
+import type { MultilingualString } from '@/types/product';
+import { useCategoryStore } from '@/lib/category-store';
+import { buildCategoryTree, flattenCategoryTree, getCategoryDisplayName, getDescendantIds } from '@/lib/category-tree';
+import { CategoryTreeEditor } from '@/components/categories/category-tree-editor';
+import { MultilingualInput } from '@/components/shared/multilingual-input';
+import { Breadcrumb } from '@/components/ui/breadcrumb';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { FolderTree, PlusCircle } from 'lucide-react';
+
+const ROOT_VALUE = '__root__';
+
+type DialogState =
+  | { mode: 'create'; parent: CategoryTreeNode | null }
+  | { mode: 'edit'; node: CategoryTreeNode }
+  | { mode: 'move'; node: CategoryTreeNode }
+  | { mode: 'merge'; node: CategoryTreeNode }
+  | null;
+
+export default function CategoriesPage() {
+  const { categories, isLoading, fetchCategories, createCategory, updateCategory, moveCategory, mergeCategories, deleteCategory } = useCategoryStore();
+  const { toast } = useToast();
+
+  const [dialog, setDialog] = useState<DialogState>(null);
+  const [name, setName] = useState<MultilingualString>({ en: '', no: '' });
+  const [slug, setSlug] = useState('');
+  const [targetId, setTargetId] = useState<string>(ROOT_VALUE);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetchCategories();
+  }, [fetchCategories]);
+
+  const tree = useMemo(() => buildCategoryTree(categories), [categories]);
+  const flatTree = useMemo(() => flattenCategoryTree(tree), [tree]);
+
+  const openDialog = (state: DialogState) => {
+    setDialog(state);
+    if (state?.mode === 'edit') {
+      setName(state.node.name);
+      setSlug(state.node.slug);
+    } else {
+      setName({ en: '', no: '' });
+      setSlug('');
+    }
+    if (state?.mode === 'move') {
+      setTargetId(state.node.parentId || ROOT_VALUE);
+    } else {
+      setTargetId('');
+    }
+  };
+
+  const runAction = async (action: () => Promise<unknown>, successMessage: string) => {
+    setIsSaving(true);
+    try {
+      await action();
+      toast({ title: successMessage });
+      setDialog(null);
+    } catch (error) {
+      toast({ title: 'Category update failed', description: (error as Error).message, variant: 'destructive' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSubmit = () => {
+    if (!dialog) return;
+    switch (dialog.mode) {
+      case 'create':
+        return runAction(
+          () => createCategory({ name, parentId: dialog.parent?.id || null, slug: slug || undefined }),
+          'Category created'
+        );
+      case 'edit':
+        return runAction(() => updateCategory(dialog.node.id, { name, slug }), 'Category updated');
+      case 'move':
+        return runAction(
+          () => moveCategory(dialog.node.id, { parentId: targetId === ROOT_VALUE ? null : targetId }),
+          'Category moved'
+        );
+      case 'merge':
+        return runAction(() => mergeCategories(dialog.node.id, targetId), 'Categories merged');
+    }
+  };
+
+  const handleDelete = (node: CategoryTreeNode) => {
+    if (!window.confirm(`Delete "${getCategoryDisplayName(node)}"? Products referencing it will lose this category.`)) return;
+    runAction(() => deleteCategory(node.id), 'Category deleted');
+  };
+
+  const handleReorder = (node: CategoryTreeNode, order: number) => {
+    runAction(() => moveCategory(node.id, { parentId: node.parentId, order }), 'Category order updated');
+  };
+
+  // Targets for move/merge: never the node itself or one of its descendants
+  const targetOptions = useMemo(() => {
+    if (!dialog || (dialog.mode !== 'move' && dialog.mode !== 'merge')) return [];
+    const excluded = new Set([dialog.node.id, ...getDescendantIds(categories, dialog.node.id)]);
+    return flatTree.filter(node => !excluded.has(node.id));
+  }, [dialog, categories, flatTree]);
+
+  const dialogTitle = dialog
+    ? {
+      create: dialog.mode === 'create' && dialog.parent ? `New subcategory of "${getCategoryDisplayName(dialog.parent)}"` : 'New root category',
+      edit: 'Rename category',
+      move: 'Move category',
+      merge: 'Merge category',
+    }[dialog.mode]
+    : '';
+
+  const canSubmit = dialog?.mode === 'move' || dialog?.mode === 'merge'
+    ? !!targetId
+    : Object.values(name).some(v => v && v.trim() !== '');
+
+  return (
+    <div className="container mx-auto py-8 space-y-6">
+      <div className="space-y-1">
+        <Breadcrumb items={[
+          { label: 'Products', href: '/products' },
+          { label: 'Categories' }
+        ]} />
+        <div className="flex items-center justify-between">
+          <h1 className="text-3xl font-bold text-primary flex items-center gap-2">
+            <FolderTree className="h-7 w-7" /> Categories
+          </h1>
+          <Button onClick={() => openDialog({ mode: 'create', parent: null })}>
+            <PlusCircle className="mr-2 h-5 w-5" /> Add Root Category
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Category Tree</CardTitle>
+          <CardDescription>
+            Products reference categories by ID, so renaming or moving a category here updates every product and export automatically.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading && categories.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Loading categories...</p>
+          ) : (
+            <CategoryTreeEditor
+              nodes={tree}
+              disabled={isSaving}
+              onAddChild={(parent) => openDialog({ mode: 'create', parent })}
+              onEdit={(node) => openDialog({ mode: 'edit', node })}
+              onMove={(node) => openDialog({ mode: 'move', node })}
+              onMerge={(node) => openDialog({ mode: 'merge', node })}
+              onDelete={handleDelete}
+              onReorder={handleReorder}
+            />
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={dialog !== null} onOpenChange={(open) => !open && setDialog(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{dialogTitle}</DialogTitle>
+            {dialog?.mode === 'merge' && (
+              <DialogDescription>
+                Subcategories and products of "{getCategoryDisplayName(dialog.node)}" will be moved to the selected category, and "{getCategoryDisplayName(dialog.node)}" will be deleted.
+              </DialogDescription>
+            )}
+          </DialogHeader>
+
+          {(dialog?.mode === 'create' || dialog?.mode === 'edit') && (
+            <div className="space-y-4">
+              <MultilingualInput id="category-name" label="Name" value={name} onChange={setName} required />
+              <div className="space-y-2">
+                <Label htmlFor="category-slug">Slug</Label>
+                <Input id="category-slug" value={slug} onChange={(e) => setSlug(e.target.value)} placeholder="Generated from the name if empty" />
+              </div>
+            </div>
+          )}
+
+          {(dialog?.mode === 'move' || dialog?.mode === 'merge') && (
+            <div className="space-y-2">
+              <Label>{dialog.mode === 'move' ? 'New parent' : 'Merge into'}</Label>
+              <Select value={targetId} onValueChange={setTargetId}>
+                <SelectTrigger><SelectValue placeholder="Select a category" /></SelectTrigger>
+                <SelectContent>
+                  {dialog.mode === 'move' && <SelectItem value={ROOT_VALUE}>(Top level)</SelectItem>}
+                  {targetOptions.map(node => (
+                    <SelectItem key={node.id} value={node.id}>
+                      {' '.repeat(node.depth * 3)}{getCategoryDisplayName(node)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialog(null)} disabled={isSaving}>Cancel</Button>
+            <Button onClick={handleSubmit} disabled={isSaving || !canSubmit}>
+              {isSaving ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
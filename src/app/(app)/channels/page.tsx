@@ -0,0 +1,219 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { Channel, ChannelType } from '@/types/channel';
+import { CHANNEL_TYPES, CHANNEL_TYPE_LABELS } from '@/types/channel';
+import { useChannelStore } from '@/lib/channel-store';
+import { validateChannel } from '@/lib/channel-overrides';
+import { useLocaleStore } from '@/lib/locale-store';
+import { Badge } from '@/components/ui/badge';
+import { Breadcrumb } from '@/components/ui/breadcrumb';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { Edit, PlusCircle, Radio, Trash2 } from 'lucide-react';
+
+interface ChannelDraft {
+  code: string;
+  name: string;
+  type: ChannelType;
+  description: string;
+  currency: string;
+  locale: string;
+  active: boolean;
+}
+
+const TENANT_DEFAULT_LOCALE = '__default__';
+
+const emptyDraft = (): ChannelDraft => ({ code: '', name: '', type: 'shopify', description: '', currency: '', locale: '', active: true });
+
+export default function ChannelsPage() {
+  const { channels, isLoading, fetchChannels, createChannel, updateChannel, deleteChannel } = useChannelStore();
+  const { settings: localeSettings, ensureLoaded: ensureLocalesLoaded } = useLocaleStore();
+  const { toast } = useToast();
+
+  const [editing, setEditing] = useState<Channel | 'new' | null>(null);
+  const [draft, setDraft] = useState<ChannelDraft>(emptyDraft());
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetchChannels();
+    ensureLocalesLoaded();
+  }, [fetchChannels, ensureLocalesLoaded]);
+
+  const openEditor = (channel: Channel | 'new') => {
+    setEditing(channel);
+    setDraft(channel === 'new'
+      ? emptyDraft()
+      : {
+        code: channel.code,
+        name: channel.name,
+        type: channel.type,
+        description: channel.description || '',
+        currency: channel.currency || '',
+        locale: channel.locale || '',
+        active: channel.active,
+      });
+  };
+
+  const draftErrors = validateChannel({ ...draft, currency: draft.currency || undefined });
+
+  const handleSave = async () => {
+    if (!editing) return;
+    setIsSaving(true);
+    try {
+      const input = {
+        ...draft,
+        description: draft.description || undefined,
+        currency: draft.currency || undefined,
+        locale: draft.locale || undefined,
+      };
+      if (editing === 'new') {
+        await createChannel(input);
+        toast({ title: 'Channel created' });
+      } else {
+        await updateChannel(editing.id, input);
+        toast({ title: 'Channel updated' });
+      }
+      setEditing(null);
+    } catch (error) {
+      toast({ title: 'Saving channel failed', description: (error as Error).message, variant: 'destructive' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (channel: Channel) => {
+    if (!window.confirm(`Delete channel "${channel.name}"?`)) return;
+    try {
+      await deleteChannel(channel.id);
+      toast({ title: 'Channel deleted' });
+    } catch (error) {
+      toast({ title: 'Deleting channel failed', description: (error as Error).message, variant: 'destructive' });
+    }
+  };
+
+  return (
+    <div className="container mx-auto py-8 space-y-6">
+      <div className="space-y-1">
+        <Breadcrumb items={[
+          { label: 'Products', href: '/products' },
+          { label: 'Channels' }
+        ]} />
+        <div className="flex items-center justify-between">
+          <h1 className="text-3xl font-bold text-primary flex items-center gap-2">
+            <Radio className="h-7 w-7" /> Channels
+          </h1>
+          <Button onClick={() => openEditor('new')}>
+            <PlusCircle className="mr-2 h-5 w-5" /> Add Channel
+          </Button>
+        </div>
+      </div>
+
+      {isLoading && channels.length === 0 && <p className="text-sm text-muted-foreground">Loading channels...</p>}
+      {!isLoading && channels.length === 0 && (
+        <Card>
+          <CardContent className="py-10 text-center text-muted-foreground">
+            No channels yet. Create one to give products channel-specific titles, descriptions, images and prices.
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="grid gap-4 md:grid-cols-2">
+        {channels.map(channel => (
+          <Card key={channel.id}>
+            <CardHeader className="flex flex-row items-start justify-between space-y-0">
+              <div>
+                <CardTitle>{channel.name}</CardTitle>
+                <CardDescription>{channel.code}{channel.description ? ` — ${channel.description}` : ''}</CardDescription>
+              </div>
+              <div className="flex gap-1">
+                <Button variant="ghost" size="icon" onClick={() => openEditor(channel)} aria-label="Edit channel"><Edit className="h-4 w-4" /></Button>
+                <Button variant="ghost" size="icon" onClick={() => handleDelete(channel)} aria-label="Delete channel"><Trash2 className="h-4 w-4" /></Button>
+              </div>
+            </CardHeader>
+            <CardContent className="flex flex-wrap gap-2">
+              <Badge variant="secondary">{CHANNEL_TYPE_LABELS[channel.type]}</Badge>
+              {channel.currency && <Badge variant="outline">{channel.currency}</Badge>}
+              {channel.locale && <Badge variant="outline">{channel.locale}</Badge>}
+              {!channel.active && <Badge variant="destructive">Inactive</Badge>}
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-xl">
+          <DialogHeader>
+            <DialogTitle>{editing === 'new' ? 'New channel' : 'Edit channel'}</DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="channel-code">Code</Label>
+                <Input id="channel-code" value={draft.code} onChange={(e) => setDraft(d => ({ ...d, code: e.target.value }))} placeholder="e.g. b2b_webshop" />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="channel-name">Name</Label>
+                <Input id="channel-name" value={draft.name} onChange={(e) => setDraft(d => ({ ...d, name: e.target.value }))} placeholder="e.g. B2B Webshop" />
+              </div>
+              <div className="space-y-2">
+                <Label>Type</Label>
+                <Select value={draft.type} onValueChange={(type) => setDraft(d => ({ ...d, type: type as ChannelType }))}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {CHANNEL_TYPES.map(type => <SelectItem key={type} value={type}>{CHANNEL_TYPE_LABELS[type]}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="channel-currency">Price list currency</Label>
+                <Input id="channel-currency" value={draft.currency} maxLength={3} onChange={(e) => setDraft(d => ({ ...d, currency: e.target.value.toUpperCase() }))} placeholder="e.g. NOK" />
+              </div>
+              <div className="space-y-2">
+                <Label>Content locale</Label>
+                <Select
+                  value={draft.locale || TENANT_DEFAULT_LOCALE}
+                  onValueChange={(locale) => setDraft(d => ({ ...d, locale: locale === TENANT_DEFAULT_LOCALE ? '' : locale }))}
+                >
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={TENANT_DEFAULT_LOCALE}>Default locale ({localeSettings.defaultLocale})</SelectItem>
+                    {localeSettings.locales.map(locale => <SelectItem key={locale.code} value={locale.code}>{locale.name}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="channel-description">Description</Label>
+              <Input id="channel-description" value={draft.description} onChange={(e) => setDraft(d => ({ ...d, description: e.target.value }))} />
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch id="channel-active" checked={draft.active} onCheckedChange={(active) => setDraft(d => ({ ...d, active }))} />
+              <Label htmlFor="channel-active" className="font-normal">Active (available for export)</Label>
+            </div>
+
+            {draftErrors.length > 0 && (
+              <ul className="text-sm text-destructive list-disc pl-5">
+                {draftErrors.map(error => <li key={error}>{error}</li>)}
+              </ul>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)} disabled={isSaving}>Cancel</Button>
+            <Button onClick={handleSave} disabled={isSaving || draftErrors.length > 0}>
+              {isSaving ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
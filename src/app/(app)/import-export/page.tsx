@@ -2,23 +2,52 @@
 'use client';
 
 import { useState, useRef, ChangeEvent, useEffect } from 'react';
+import Link from 'next/link';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
-import { Label } from '@/components/ui/label';
 import { useProductStore } from '@/lib/product-store';
 import type { Product } from '@/types/product';
+import type { ProductImportOptions, ProductImportResult } from '@/types/product-import';
+import type { IntegrationJob, IntegrationJobKind } from '@/types/integration-job';
+import { INTEGRATION_JOB_KIND_LABELS } from '@/types/integration-job';
 import { useToast } from '@/hooks/use-toast';
-import { UploadCloud, DownloadCloud, FileJson, AlertTriangle, ShoppingCart, Save, Settings, RefreshCw, FileText, Download } from 'lucide-react';
+import { UploadCloud, DownloadCloud, FileJson, AlertTriangle, ShoppingCart, Settings, RefreshCw, FileText, Download, FileSpreadsheet } from 'lucide-react';
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
-import { useShopifyConfigStore } from '@/lib/shopify-config-store';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useShopifySyncStore } from '@/lib/shopify-sync-store';
+import { useIntegrationJobStore } from '@/lib/integration-job-store';
+import { describeIntegrationJobProgress, isIntegrationJobActive } from '@/lib/integration-jobs';
+import { useIntegrationJobPolling } from '@/hooks/use-integration-job-polling';
+import { IntegrationJobProgress } from '@/components/integrations/integration-job-status';
+import { describeShopifySync } from '@/lib/shopify-sync';
+import { SHOPIFY_SYNC_DIRECTION_LABELS, type ShopifySyncDirection } from '@/types/shopify-sync';
 import { productsToCSV, parseCSV, csvRowToProduct, validateCSVData } from '@/lib/csv-utils';
+import { CHANNEL_UNIT_PREFERENCES } from '@/lib/units-of-measure';
 import { downloadCSVTemplate } from '@/lib/csv-template';
 
-import { useBusinessCentralConfigStore } from '@/lib/business-central-config-store';
+import { removeLegacyBrowserCredentials, useIntegrationCredentialStore } from '@/lib/integration-credential-store';
+import type { IntegrationType } from '@/types/integration-credential';
+import { IntegrationSelect } from '@/components/integrations/integration-select';
+import { BusinessCentralSyncSettings } from '@/components/integrations/business-central-sync-settings';
+import { useBusinessCentralSyncStore } from '@/lib/business-central-sync-store';
+import { useChannelStore } from '@/lib/channel-store';
+import { useLocaleStore } from '@/lib/locale-store';
+import { getLocaleCodes } from '@/lib/locales';
+import { ChannelSelect } from '@/components/channels/channel-select';
+import { ProductImportWizard } from '@/components/products/product-import-wizard';
+import { ImportReportButton, ProductImportOptionsFields } from '@/components/products/product-import-controls';
+
+function describeImportResult({ summary }: ProductImportResult): string {
+  return `Created ${summary.create} and updated ${summary.update} products`
+    + (summary.unchanged > 0 ? `; ${summary.unchanged} unchanged` : '')
+    + (summary.skipped > 0 ? `; skipped ${summary.skipped} existing products` : '')
+    + (summary.error > 0 ? `; ${summary.error} had errors` : '')
+    + '.';
+}
 
 export default function ImportExportPage() {
-  const { products, importProducts: storeImportProducts } = useProductStore();
+  const { products, importProducts: storeImportProducts, fetchProducts } = useProductStore();
   const { toast } = useToast();
   const fileInputRef = useRef<HTMLInputElement>(null);
   const csvFileInputRef = useRef<HTMLInputElement>(null);
@@ -28,67 +57,99 @@ export default function ImportExportPage() {
   const [csvFileName, setCsvFileName] = useState<string | null>(null);
   const [importError, setImportError] = useState<string | null>(null);
   const [csvImportError, setCsvImportError] = useState<string | null>(null);
-
-  const {
-    storeUrl,
-    apiKey,
-    setStoreUrl: setShopifyStoreUrl,
-    setApiKey: setShopifyApiKey,
-    isConfigured
-  } = useShopifyConfigStore();
-
-  const [localStoreUrl, setLocalStoreUrl] = useState('');
-  const [localApiKey, setLocalApiKey] = useState('');
-  const [clientShopifyReady, setClientShopifyReady] = useState(false);
-
-  const [isImportingFromShopify, setIsImportingFromShopify] = useState(false);
-  const [isExportingToShopify, setIsExportingToShopify] = useState(false);
-  const [nextPageCursor, setNextPageCursor] = useState<string | null>(null);
-
-  // Business Central State
-  const {
-    tenantId,
-    environment,
-    clientId,
-    clientSecret,
-    companyId,
-    setTenantId,
-    setEnvironment,
-    setClientId,
-    setClientSecret,
-    setCompanyId,
-    isConfigured: isBcConfigured
-  } = useBusinessCentralConfigStore();
-
-  const [localTenantId, setLocalTenantId] = useState('');
-  const [localEnvironment, setLocalEnvironment] = useState('');
-  const [localClientId, setLocalClientId] = useState('');
-  const [localClientSecret, setLocalClientSecret] = useState('');
-  const [localCompanyId, setLocalCompanyId] = useState('');
-  const [clientBcReady, setClientBcReady] = useState(false);
-  const [isImportingFromBc, setIsImportingFromBc] = useState(false);
-  const [isExportingToBc, setIsExportingToBc] = useState(false);
+  // Shared by the JSON and CSV imports
+  const [importOptions, setImportOptions] = useState<ProductImportOptions>({ matchBy: 'sku', mergeStrategy: 'overwrite' });
+  const [jsonImportResult, setJsonImportResult] = useState<ProductImportResult | null>(null);
+  const [csvImportResult, setCsvImportResult] = useState<ProductImportResult | null>(null);
+
+  // Channel whose overrides each export applies (undefined = base values)
+  const { channels, fetchChannels } = useChannelStore();
+  const { settings: localeSettings, ensureLoaded: ensureLocalesLoaded } = useLocaleStore();
+  const [csvChannelId, setCsvChannelId] = useState<string | undefined>();
+  const [shopifyChannelId, setShopifyChannelId] = useState<string | undefined>();
+  const [bcChannelId, setBcChannelId] = useState<string | undefined>();
 
   useEffect(() => {
-    setLocalStoreUrl(storeUrl);
-    setLocalApiKey(apiKey);
-  }, [storeUrl, apiKey]);
+    fetchChannels();
+    ensureLocalesLoaded();
+  }, [fetchChannels, ensureLocalesLoaded]);
+
+  // Credentials stay on the server; the page only picks them by ID
+  const { credentials, fetchCredentials } = useIntegrationCredentialStore();
+  const [shopifyIntegrationId, setShopifyIntegrationId] = useState<string | undefined>();
+  const [bcIntegrationId, setBcIntegrationId] = useState<string | undefined>();
+  const [bcFullSync, setBcFullSync] = useState(false);
+  const fetchBcSyncState = useBusinessCentralSyncStore(state => state.fetchState);
 
   useEffect(() => {
-    setClientShopifyReady(isConfigured());
-  }, [isConfigured, storeUrl, apiKey]);
+    removeLegacyBrowserCredentials();
+    fetchCredentials();
+  }, [fetchCredentials]);
 
+  // Pick the only integration of a type without asking
   useEffect(() => {
-    setLocalTenantId(tenantId);
-    setLocalEnvironment(environment);
-    setLocalClientId(clientId);
-    setLocalClientSecret(clientSecret);
-    setLocalCompanyId(companyId);
-  }, [tenantId, environment, clientId, clientSecret, companyId]);
+    const only = (type: IntegrationType) => {
+      const options = credentials.filter(credential => credential.type === type);
+      return options.length === 1 ? options[0].id : undefined;
+    };
+    setShopifyIntegrationId(current => current || only('shopify'));
+    setBcIntegrationId(current => current || only('business_central'));
+  }, [credentials]);
+
+  const { runs: shopifyRuns, fetchRuns: fetchShopifyRuns } = useShopifySyncStore();
+
+  // Syncs, imports and exports run as background jobs; the page polls them
+  const { jobs, fetchJobs, startJob, cancelJob } = useIntegrationJobStore();
+  const [startingJob, setStartingJob] = useState<string | null>(null);
 
   useEffect(() => {
-    setClientBcReady(isBcConfigured());
-  }, [isBcConfigured, tenantId, environment, clientId, clientSecret, companyId]);
+    fetchShopifyRuns();
+    fetchJobs();
+  }, [fetchShopifyRuns, fetchJobs]);
+
+  useIntegrationJobPolling((job) => {
+    const title = INTEGRATION_JOB_KIND_LABELS[job.kind];
+    if (job.status === 'succeeded' && job.progress.failed === 0) {
+      toast({ title: `${title} Finished`, description: job.message });
+    } else if (job.status === 'succeeded') {
+      toast({ title: `${title} Finished With Errors`, description: `${job.message} ${describeIntegrationJobProgress(job.progress)}.`, variant: 'destructive' });
+    } else if (job.status === 'failed') {
+      toast({ title: `${title} Failed`, description: job.error, variant: 'destructive' });
+    } else {
+      toast({ title: `${title} Cancelled`, description: describeIntegrationJobProgress(job.progress) });
+    }
+    // Imports write to the catalog on the server
+    if (job.kind === 'business_central_import' || (job.kind === 'shopify_sync' && job.params.direction !== 'export')) fetchProducts();
+    if (job.kind === 'shopify_sync') fetchShopifyRuns();
+    // Business Central syncs move the company's watermarks
+    if (job.kind !== 'shopify_sync' && job.params.integrationId === bcIntegrationId) fetchBcSyncState(job.params.integrationId);
+  });
+
+  const findActiveJob = (kinds: IntegrationJobKind[], integrationId: string | undefined) =>
+    jobs.find(job => isIntegrationJobActive(job) && kinds.includes(job.kind) && job.params.integrationId === integrationId);
+  const shopifyJob = findActiveJob(['shopify_sync'], shopifyIntegrationId);
+  const bcJob = findActiveJob(['business_central_import', 'business_central_export'], bcIntegrationId);
+
+  const handleStartJob = async (key: string, url: string, body: Record<string, unknown>, title: string) => {
+    setStartingJob(key);
+    try {
+      await startJob(url, body);
+      toast({ title: `${title} Started`, description: 'It runs in the background; follow it here or on the Sync Jobs page.' });
+    } catch (error: any) {
+      console.error(`${title} Error:`, error);
+      toast({ title: `${title} Failed`, description: error.message || 'An error occurred.', variant: 'destructive' });
+    } finally {
+      setStartingJob(null);
+    }
+  };
+
+  const handleCancelJob = async (job: IntegrationJob) => {
+    try {
+      await cancelJob(job.id);
+    } catch (error: any) {
+      toast({ title: 'Cancelling Failed', description: error.message || 'An error occurred.', variant: 'destructive' });
+    }
+  };
 
 
   const handleExportJson = () => {
@@ -107,7 +168,11 @@ export default function ImportExportPage() {
 
   const handleExportCsv = () => {
     try {
-      const csvContent = productsToCSV(products);
+      const csvContent = productsToCSV(products, {
+        unitPreferences: CHANNEL_UNIT_PREFERENCES.csv,
+        channel: channels.find(c => c.id === csvChannelId),
+        locales: getLocaleCodes(localeSettings),
+      });
       const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
       const url = URL.createObjectURL(blob);
       const link = document.createElement('a');
@@ -126,6 +191,7 @@ export default function ImportExportPage() {
   const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
     setImportError(null);
     setFileName(null);
+    setJsonImportResult(null);
     const file = event.target.files?.[0];
     if (!file) return;
 
@@ -140,8 +206,13 @@ export default function ImportExportPage() {
         throw new Error("Invalid JSON format. Expected an array of products.");
       }
 
-      storeImportProducts(importedData as Product[]);
-      toast({ title: 'JSON Import Successful', description: `${importedData.length} products imported.` });
+      const result = await storeImportProducts(importedData as Product[], importOptions);
+      setJsonImportResult(result);
+      toast({
+        title: result.summary.error > 0 ? 'JSON Import Finished With Errors' : 'JSON Import Successful',
+        description: describeImportResult(result),
+        variant: result.summary.error > 0 ? 'destructive' : 'default',
+      });
 
     } catch (err: any) {
       console.error('JSON Import error:', err);
@@ -158,6 +229,7 @@ export default function ImportExportPage() {
   const handleCSVFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
     setCsvImportError(null);
     setCsvFileName(null);
+    setCsvImportResult(null);
     const file = event.target.files?.[0];
     if (!file) return;
 
@@ -173,20 +245,25 @@ export default function ImportExportPage() {
       }
 
       // Validate CSV data
-      const validation = validateCSVData(csvRows);
+      const validation = validateCSVData(csvRows, localeSettings);
       if (!validation.valid) {
         throw new Error(`Validation errors found:\n${validation.errors.join('\n')}`);
       }
 
       // Convert CSV rows to products
-      const products = csvRows.map(row => csvRowToProduct(row)).filter(Boolean) as Product[];
+      const products = csvRows.map(row => csvRowToProduct(row, { unitPreferences: CHANNEL_UNIT_PREFERENCES.csv })).filter(Boolean) as Product[];
 
       if (products.length === 0) {
         throw new Error("No valid products could be created from the CSV data.");
       }
 
-      storeImportProducts(products);
-      toast({ title: 'CSV Import Successful', description: `${products.length} products imported from CSV.` });
+      const result = await storeImportProducts(products, importOptions);
+      setCsvImportResult(result);
+      toast({
+        title: result.summary.error > 0 ? 'CSV Import Finished With Errors' : 'CSV Import Successful',
+        description: describeImportResult(result),
+        variant: result.summary.error > 0 ? 'destructive' : 'default',
+      });
 
     } catch (err: any) {
       console.error('CSV Import error:', err);
@@ -200,195 +277,42 @@ export default function ImportExportPage() {
     }
   };
 
-  const handleSaveShopifyConfig = () => {
-    setShopifyStoreUrl(localStoreUrl);
-    setShopifyApiKey(localApiKey);
-    setNextPageCursor(null); // Reset pagination on config change
-    toast({ title: 'Shopify Configuration Saved', description: 'Your Shopify Store URL and API Key have been saved locally.' });
-  };
-
-
-  const handleImportFromShopify = async () => {
-    if (!clientShopifyReady) {
-      toast({ title: 'Configuration Incomplete', description: 'Please configure Shopify Store URL and API Key.', variant: 'destructive' });
+  const handleShopifySync = (direction: ShopifySyncDirection) => {
+    if (!shopifyIntegrationId) {
+      toast({ title: 'No Integration Selected', description: 'Choose the Shopify integration to sync with.', variant: 'destructive' });
       return;
     }
-    setIsImportingFromShopify(true);
-    try {
-      const response = await fetch('/api/shopify/import', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ storeUrl, apiKey, pageInfo: nextPageCursor }),
-      });
-
-      if (!response.ok) {
-        let errorBody = `API request failed: ${response.status} ${response.statusText}`;
-        try {
-          const text = await response.text();
-          try {
-            const errorData = JSON.parse(text);
-            errorBody = errorData.error || JSON.stringify(errorData);
-          } catch {
-            errorBody = text || errorBody;
-          }
-        } catch (e) {
-          // Fallback if text() fails
-        }
-        throw new Error(errorBody);
-      }
-
-      const data = await response.json(); // Safe to parse as JSON if response.ok
-
-      storeImportProducts(data.products as Product[]);
-      setNextPageCursor(data.nextPageCursor || null);
-      toast({ title: 'Shopify Import Successful', description: data.message });
-    } catch (error: any) {
-      console.error('Shopify Import Error:', error);
-      setNextPageCursor(null); // Reset cursor on error
-      toast({ title: 'Shopify Import Failed', description: error.message || 'An error occurred.', variant: 'destructive' });
-    } finally {
-      setIsImportingFromShopify(false);
-    }
-  };
-
-  const handleExportToShopify = async () => {
-    if (!clientShopifyReady) {
-      toast({ title: 'Configuration Incomplete', description: 'Please configure Shopify Store URL and API Key.', variant: 'destructive' });
-      return;
-    }
-    if (products.length === 0) {
-      toast({ title: 'No Products to Export', description: 'Add some products before exporting.' });
-      return;
-    }
-
-    setIsExportingToShopify(true);
-    try {
-      const response = await fetch('/api/shopify/export', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ storeUrl, apiKey, productsToExport: products }),
-      });
-
-      if (!response.ok) {
-        let errorBody = `API request failed: ${response.status} ${response.statusText}`;
-        try {
-          const text = await response.text();
-          try {
-            const errorData = JSON.parse(text);
-            errorBody = errorData.error || JSON.stringify(errorData);
-          } catch {
-            errorBody = text || errorBody;
-          }
-        } catch (e) {
-          // Fallback if text() fails
-        }
-        throw new Error(errorBody);
-      }
-
-      const data = await response.json(); // Safe to parse as JSON if response.ok
-
-      toast({ title: 'Shopify Export Successful', description: data.message });
-    } catch (error: any) {
-      console.error('Shopify Export Error:', error);
-      toast({ title: 'Shopify Export Failed', description: error.message || 'An error occurred.', variant: 'destructive' });
-    } finally {
-      setIsExportingToShopify(false);
-    }
-  };
-
-  const handleSaveBcConfig = () => {
-    setTenantId(localTenantId);
-    setEnvironment(localEnvironment);
-    setClientId(localClientId);
-    setClientSecret(localClientSecret);
-    setCompanyId(localCompanyId);
-    toast({ title: 'Business Central Configuration Saved', description: 'Your Business Central credentials have been saved locally.' });
+    handleStartJob(
+      `shopify-${direction}`,
+      '/api/shopify/sync',
+      { integrationId: shopifyIntegrationId, direction, channelId: shopifyChannelId },
+      'Shopify Sync'
+    );
   };
 
-  const handleImportFromBc = async () => {
-    if (!clientBcReady) {
-      toast({ title: 'Configuration Incomplete', description: 'Please configure Business Central credentials.', variant: 'destructive' });
+  const handleImportFromBc = () => {
+    if (!bcIntegrationId) {
+      toast({ title: 'No Integration Selected', description: 'Choose the Business Central integration to use.', variant: 'destructive' });
       return;
     }
-    setIsImportingFromBc(true);
-    try {
-      const response = await fetch('/api/business-central/import', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ tenantId, environment, clientId, clientSecret, companyId }),
-      });
-
-      if (!response.ok) {
-        let errorBody = `API request failed: ${response.status} ${response.statusText}`;
-        try {
-          const text = await response.text();
-          try {
-            const errorData = JSON.parse(text);
-            errorBody = errorData.error || JSON.stringify(errorData);
-          } catch {
-            errorBody = text || errorBody;
-          }
-        } catch (e) {
-          // Fallback if text() fails
-        }
-        throw new Error(errorBody);
-      }
-
-      const data = await response.json();
-
-      storeImportProducts(data.products as Product[]);
-      toast({ title: 'Business Central Import Successful', description: data.message });
-    } catch (error: any) {
-      console.error('Business Central Import Error:', error);
-      toast({ title: 'Business Central Import Failed', description: error.message || 'An error occurred.', variant: 'destructive' });
-    } finally {
-      setIsImportingFromBc(false);
-    }
+    handleStartJob('bc-import', '/api/business-central/import', { integrationId: bcIntegrationId, full: bcFullSync }, 'Business Central Import');
   };
 
-  const handleExportToBc = async () => {
-    if (!clientBcReady) {
-      toast({ title: 'Configuration Incomplete', description: 'Please configure Business Central credentials.', variant: 'destructive' });
+  const handleExportToBc = () => {
+    if (!bcIntegrationId) {
+      toast({ title: 'No Integration Selected', description: 'Choose the Business Central integration to use.', variant: 'destructive' });
       return;
     }
     if (products.length === 0) {
       toast({ title: 'No Products to Export', description: 'Add some products before exporting.' });
       return;
     }
-
-    setIsExportingToBc(true);
-    try {
-      const response = await fetch('/api/business-central/export', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ tenantId, environment, clientId, clientSecret, companyId, productsToExport: products }),
-      });
-
-      if (!response.ok) {
-        let errorBody = `API request failed: ${response.status} ${response.statusText}`;
-        try {
-          const text = await response.text();
-          try {
-            const errorData = JSON.parse(text);
-            errorBody = errorData.error || JSON.stringify(errorData);
-          } catch {
-            errorBody = text || errorBody;
-          }
-        } catch (e) {
-          // Fallback if text() fails
-        }
-        throw new Error(errorBody);
-      }
-
-      const data = await response.json();
-
-      toast({ title: 'Business Central Export Successful', description: data.message });
-    } catch (error: any) {
-      console.error('Business Central Export Error:', error);
-      toast({ title: 'Business Central Export Failed', description: error.message || 'An error occurred.', variant: 'destructive' });
-    } finally {
-      setIsExportingToBc(false);
-    }
+    handleStartJob(
+      'bc-export',
+      '/api/business-central/export',
+      { integrationId: bcIntegrationId, channelId: bcChannelId, full: bcFullSync },
+      'Business Central Export'
+    );
   };
 
 
@@ -396,6 +320,21 @@ export default function ImportExportPage() {
     <div className="container mx-auto py-8">
       <h1 className="text-3xl font-bold text-primary mb-8">Import / Export Products</h1>
 
+      <Card className="shadow-lg mb-8">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-xl">
+            <FileSpreadsheet className="h-6 w-6 text-primary" /> Import Products (CSV / Excel)
+          </CardTitle>
+          <CardDescription>
+            Map the columns of any CSV or Excel file to product fields, review a dry run of what each row creates or
+            changes, then import. Save a mapping as a profile to reuse it for files in the same layout.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ProductImportWizard />
+        </CardContent>
+      </Card>
+
       <div className="grid grid-cols-1 md:grid-cols-2 gap-8 mb-8">
         <Card className="shadow-lg">
           <CardHeader>
@@ -403,10 +342,11 @@ export default function ImportExportPage() {
               <UploadCloud className="h-6 w-6 text-primary" /> Import Products (JSON)
             </CardTitle>
             <CardDescription>
-              Import products from a JSON file. This will merge with existing product data.
+              Import products from a JSON file. Products that already exist are merged or skipped as chosen below.
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
+            <ProductImportOptionsFields id="json-import" value={importOptions} onChange={setImportOptions} disabled={isImportingJson} />
             <Input
               type="file"
               accept=".json"
@@ -419,6 +359,12 @@ export default function ImportExportPage() {
               <FileJson className="mr-2 h-5 w-5" /> {isImportingJson ? 'Importing...' : 'Choose JSON File'}
             </Button>
             {fileName && <p className="text-sm text-muted-foreground">Selected file: {fileName}</p>}
+            {jsonImportResult && (
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-sm text-muted-foreground">{describeImportResult(jsonImportResult)}</p>
+                <ImportReportButton result={jsonImportResult} fileName="json_import_report.csv" />
+              </div>
+            )}
             {importError && (
               <Alert variant="destructive">
                 <AlertTriangle className="h-4 w-4" />
@@ -465,6 +411,7 @@ export default function ImportExportPage() {
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
+            <ProductImportOptionsFields id="csv-import" value={importOptions} onChange={setImportOptions} disabled={isImportingCsv} />
             <Input
               type="file"
               accept=".csv"
@@ -477,11 +424,17 @@ export default function ImportExportPage() {
               <Button onClick={() => csvFileInputRef.current?.click()} disabled={isImportingCsv} className="w-full">
                 <FileText className="mr-2 h-5 w-5" /> {isImportingCsv ? 'Importing...' : 'Choose CSV File'}
               </Button>
-              <Button onClick={downloadCSVTemplate} variant="outline" className="w-full">
+              <Button onClick={() => downloadCSVTemplate(getLocaleCodes(localeSettings))} variant="outline" className="w-full">
                 <Download className="mr-2 h-4 w-4" /> Download Template
               </Button>
             </div>
             {csvFileName && <p className="text-sm text-muted-foreground">Selected file: {csvFileName}</p>}
+            {csvImportResult && (
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-sm text-muted-foreground">{describeImportResult(csvImportResult)}</p>
+                <ImportReportButton result={csvImportResult} fileName="csv_import_report.csv" />
+              </div>
+            )}
             {csvImportError && (
               <Alert variant="destructive">
                 <AlertTriangle className="h-4 w-4" />
@@ -504,7 +457,8 @@ export default function ImportExportPage() {
               Export all current product data to a CSV file for spreadsheet editing.
             </CardDescription>
           </CardHeader>
-          <CardContent>
+          <CardContent className="space-y-4">
+            <ChannelSelect id="csv-export-channel" channels={channels} value={csvChannelId} onChange={setCsvChannelId} />
             <Button onClick={handleExportCsv} disabled={products.length === 0} className="w-full">
               <FileText className="mr-2 h-5 w-5" /> Export All Products
             </Button>
@@ -517,87 +471,84 @@ export default function ImportExportPage() {
         </Card>
       </div>
 
-      <h2 className="text-2xl font-semibold text-primary mb-6 pt-4 border-t">Shopify Integration</h2>
+      <div className="flex items-center justify-between mb-6 pt-4 border-t">
+        <h2 className="text-2xl font-semibold text-primary">Shopify Integration</h2>
+        <Link href="/jobs" className="text-sm underline text-muted-foreground">View all sync jobs</Link>
+      </div>
       <Card className="shadow-lg col-span-1 md:col-span-2">
         <CardHeader>
           <CardTitle className="flex items-center gap-2 text-xl">
             <ShoppingCart className="h-6 w-6 text-primary" /> Shopify Sync
           </CardTitle>
           <CardDescription>
-            Connect to your Shopify store to import or export products. Your Store URL and Admin API Access Token are required.
-            <br />
-            <span className="text-xs font-semibold text-destructive">
-              Security Note: Your API Access Token will be stored in your browser's local storage.
-              Ensure you are on a secure computer and network.
-            </span>
+            Import, export or sync products both ways with a Shopify store. Products are linked on their first sync, so later runs update them instead of creating duplicates.
+            {' '}Fields sent as metafields, tags and product type are set under{' '}
+            <Link href="/settings/shopify-mapping" className="underline">Settings → Shopify Mapping</Link>.
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-6">
-          <div className="space-y-4 p-4 border rounded-md bg-muted/20">
-            <h3 className="font-medium text-foreground flex items-center gap-2">
-              <Settings className="h-5 w-5" /> Store Configuration
-            </h3>
-            <div className="space-y-3">
-              <div>
-                <Label htmlFor="shopify-store-url" className="text-sm font-medium">Shopify Store URL</Label>
-                <Input
-                  id="shopify-store-url"
-                  type="text"
-                  placeholder="e.g., your-store-name.myshopify.com"
-                  value={localStoreUrl}
-                  onChange={(e) => setLocalStoreUrl(e.target.value)}
-                  className="mt-1"
-                />
-                <p className="text-xs text-muted-foreground mt-1">
-                  Enter the full URL of your Shopify store.
-                </p>
-              </div>
-              <div>
-                <Label htmlFor="shopify-api-key" className="text-sm font-medium">Shopify Admin API Access Token</Label>
-                <Input
-                  id="shopify-api-key"
-                  type="password"
-                  placeholder="Enter your Shopify Admin API Access Token (e.g., shpat_...)"
-                  value={localApiKey}
-                  onChange={(e) => setLocalApiKey(e.target.value)}
-                  className="mt-1"
-                />
-                <p className="text-xs text-muted-foreground mt-1">
-                  Your Admin API Access Token is used to authenticate with Shopify.
-                </p>
-              </div>
-              <Button onClick={handleSaveShopifyConfig}>
-                <Save className="mr-2 h-4 w-4" /> Save Configuration
-              </Button>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <IntegrationSelect id="shopify-integration" credentials={credentials} type="shopify" value={shopifyIntegrationId} onChange={setShopifyIntegrationId} />
+            <div>
+              <ChannelSelect id="shopify-export-channel" channels={channels} types={['shopify']} value={shopifyChannelId} onChange={setShopifyChannelId} />
             </div>
-          </div>
-
-          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 pt-4 border-t mt-6">
             <Button
               variant="outline"
-              onClick={handleImportFromShopify}
-              disabled={!clientShopifyReady || isImportingFromShopify || isExportingToShopify}
+              onClick={() => handleShopifySync('import')}
+              disabled={!shopifyIntegrationId || !!shopifyJob || !!startingJob}
             >
-              {isImportingFromShopify ? <RefreshCw className="mr-2 h-5 w-5 animate-spin" /> : <DownloadCloud className="mr-2 h-5 w-5" />}
-              {isImportingFromShopify
-                ? 'Importing...'
-                : (nextPageCursor ? 'Import Next 50 Products' : 'Import from Shopify')}
+              <DownloadCloud className="mr-2 h-5 w-5" /> Import from Shopify
             </Button>
             <Button
               variant="outline"
-              onClick={handleExportToShopify}
-              disabled={!clientShopifyReady || isImportingFromShopify || isExportingToShopify || products.length === 0}
+              onClick={() => handleShopifySync('export')}
+              disabled={!shopifyIntegrationId || !!shopifyJob || !!startingJob || products.length === 0}
+            >
+              <UploadCloud className="mr-2 h-5 w-5" /> Export to Shopify
+            </Button>
+            <Button
+              className="sm:col-span-2"
+              onClick={() => handleShopifySync('both')}
+              disabled={!shopifyIntegrationId || !!shopifyJob || !!startingJob}
             >
-              {isExportingToShopify ? <RefreshCw className="mr-2 h-5 w-5 animate-spin" /> : <UploadCloud className="mr-2 h-5 w-5" />}
-              {isExportingToShopify ? 'Exporting...' : 'Export to Shopify'}
+              <RefreshCw className={`mr-2 h-5 w-5 ${startingJob?.startsWith('shopify-') ? 'animate-spin' : ''}`} /> Sync Both Ways
             </Button>
           </div>
-          {!clientShopifyReady && (
+          {shopifyJob && <IntegrationJobProgress job={shopifyJob} onCancel={handleCancelJob} />}
+          {shopifyRuns.length > 0 && (
+            <div className="space-y-2">
+              <h3 className="font-medium text-foreground">Recent Syncs</h3>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Started</TableHead>
+                    <TableHead>Direction</TableHead>
+                    <TableHead>Shop</TableHead>
+                    <TableHead>Result</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {shopifyRuns.slice(0, 5).map(run => (
+                    <TableRow key={run.id}>
+                      <TableCell className="whitespace-nowrap">{new Date(run.startedAt).toLocaleString()}</TableCell>
+                      <TableCell>{SHOPIFY_SYNC_DIRECTION_LABELS[run.direction]}</TableCell>
+                      <TableCell>{run.shop}</TableCell>
+                      <TableCell className={run.status === 'failed' || run.summary.failed > 0 ? 'text-destructive' : undefined}>
+                        {run.error || describeShopifySync(run.summary)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+          {!shopifyIntegrationId && (
             <Alert variant="default" className="bg-accent/10 border-accent/30 text-accent-foreground">
               <Settings className="h-4 w-4 text-accent" />
-              <AlertTitle>Configuration Required</AlertTitle>
+              <AlertTitle>Integration Required</AlertTitle>
               <AlertDescription>
-                Please enter and save your Shopify Store URL and Admin API Access Token to enable Shopify integration.
+                Choose a Shopify integration. Admins add store credentials under{' '}
+                <Link href="/settings/integrations" className="underline">Settings → Integrations</Link>.
               </AlertDescription>
             </Alert>
           )}
@@ -611,103 +562,44 @@ export default function ImportExportPage() {
             <RefreshCw className="h-6 w-6 text-primary" /> Business Central Sync
           </CardTitle>
           <CardDescription>
-            Connect to Microsoft Dynamics 365 Business Central.
+            Import items from and export products to Microsoft Dynamics 365 Business Central. Syncs only send what
+            changed since the last sync.
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-6">
-          <div className="space-y-4 p-4 border rounded-md bg-muted/20">
-            <h3 className="font-medium text-foreground flex items-center gap-2">
-              <Settings className="h-5 w-5" /> Connection Configuration
-            </h3>
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <div>
-                <Label htmlFor="bc-tenant-id" className="text-sm font-medium">Tenant ID</Label>
-                <Input
-                  id="bc-tenant-id"
-                  type="text"
-                  placeholder="e.g., 00000000-0000-0000-0000-000000000000"
-                  value={localTenantId}
-                  onChange={(e) => setLocalTenantId(e.target.value)}
-                  className="mt-1"
-                />
-              </div>
-              <div>
-                <Label htmlFor="bc-environment" className="text-sm font-medium">Environment</Label>
-                <Input
-                  id="bc-environment"
-                  type="text"
-                  placeholder="e.g., Production"
-                  value={localEnvironment}
-                  onChange={(e) => setLocalEnvironment(e.target.value)}
-                  className="mt-1"
-                />
-              </div>
-              <div>
-                <Label htmlFor="bc-client-id" className="text-sm font-medium">Client ID</Label>
-                <Input
-                  id="bc-client-id"
-                  type="text"
-                  placeholder="Azure AD App Client ID"
-                  value={localClientId}
-                  onChange={(e) => setLocalClientId(e.target.value)}
-                  className="mt-1"
-                />
-              </div>
-              <div>
-                <Label htmlFor="bc-client-secret" className="text-sm font-medium">Client Secret</Label>
-                <Input
-                  id="bc-client-secret"
-                  type="password"
-                  placeholder="Azure AD App Client Secret"
-                  value={localClientSecret}
-                  onChange={(e) => setLocalClientSecret(e.target.value)}
-                  className="mt-1"
-                />
-              </div>
-              <div className="md:col-span-2">
-                <Label htmlFor="bc-company-id" className="text-sm font-medium">Company ID</Label>
-                <Input
-                  id="bc-company-id"
-                  type="text"
-                  placeholder="e.g., My Company Ltd."
-                  value={localCompanyId}
-                  onChange={(e) => setLocalCompanyId(e.target.value)}
-                  className="mt-1"
-                />
-                <p className="text-xs text-muted-foreground mt-1">
-                  The ID or Name of the company in Business Central to sync with.
-                </p>
-              </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <IntegrationSelect id="bc-integration" credentials={credentials} type="business_central" value={bcIntegrationId} onChange={setBcIntegrationId} />
+            <div>
+              <ChannelSelect id="bc-export-channel" channels={channels} types={['business_central']} value={bcChannelId} onChange={setBcChannelId} />
             </div>
-            <Button onClick={handleSaveBcConfig}>
-              <Save className="mr-2 h-4 w-4" /> Save Configuration
-            </Button>
-          </div>
-
-          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 pt-4 border-t mt-6">
             <Button
               variant="outline"
               onClick={handleImportFromBc}
-              disabled={!clientBcReady || isImportingFromBc || isExportingToBc}
+              disabled={!bcIntegrationId || !!bcJob || !!startingJob}
             >
-              {isImportingFromBc ? <RefreshCw className="mr-2 h-5 w-5 animate-spin" /> : <DownloadCloud className="mr-2 h-5 w-5" />}
-              {isImportingFromBc ? 'Importing...' : 'Import from Business Central'}
+              {startingJob === 'bc-import' ? <RefreshCw className="mr-2 h-5 w-5 animate-spin" /> : <DownloadCloud className="mr-2 h-5 w-5" />}
+              Import from Business Central
             </Button>
             <Button
               variant="outline"
               onClick={handleExportToBc}
-              disabled={!clientBcReady || isImportingFromBc || isExportingToBc || products.length === 0}
+              disabled={!bcIntegrationId || !!bcJob || !!startingJob || products.length === 0}
             >
-              {isExportingToBc ? <RefreshCw className="mr-2 h-5 w-5 animate-spin" /> : <UploadCloud className="mr-2 h-5 w-5" />}
-              {isExportingToBc ? 'Exporting...' : 'Export to Business Central'}
+              {startingJob === 'bc-export' ? <RefreshCw className="mr-2 h-5 w-5 animate-spin" /> : <UploadCloud className="mr-2 h-5 w-5" />}
+              Export to Business Central
             </Button>
           </div>
-          {!clientBcReady && (
+          {bcIntegrationId && (
+            <BusinessCentralSyncSettings integrationId={bcIntegrationId} full={bcFullSync} onFullChange={setBcFullSync} disabled={!!bcJob} />
+          )}
+          {bcJob && <IntegrationJobProgress job={bcJob} onCancel={handleCancelJob} />}
+          {!bcIntegrationId && (
             <Alert variant="default" className="bg-accent/10 border-accent/30 text-accent-foreground">
               <Settings className="h-4 w-4 text-accent" />
-              <AlertTitle>Configuration Required</AlertTitle>
+              <AlertTitle>Integration Required</AlertTitle>
               <AlertDescription>
-                Please enter and save your Business Central credentials to enable integration.
+                Choose a Business Central integration. Admins add credentials under{' '}
+                <Link href="/settings/integrations" className="underline">Settings → Integrations</Link>.
               </AlertDescription>
             </Alert>
           )}
@@ -0,0 +1,205 @@
+'use client';
+
+import { Fragment, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { format } from 'date-fns';
+import type { IntegrationJob } from '@/types/integration-job';
+import { INTEGRATION_JOB_KIND_LABELS } from '@/types/integration-job';
+import { SHOPIFY_SYNC_DIRECTION_LABELS } from '@/types/shopify-sync';
+import { useIntegrationJobStore } from '@/lib/integration-job-store';
+import { useIntegrationCredentialStore } from '@/lib/integration-credential-store';
+import { canRetryIntegrationJob, describeIntegrationJobProgress, isIntegrationJobActive } from '@/lib/integration-jobs';
+import { useIntegrationJobPolling } from '@/hooks/use-integration-job-polling';
+import { IntegrationJobProgress, IntegrationJobStatusBadge } from '@/components/integrations/integration-job-status';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { Activity, ChevronDown, ChevronRight, RefreshCw, RotateCcw, XCircle } from 'lucide-react';
+
+const formatDate = (value: string | undefined) => (value ? format(new Date(value), 'yyyy-MM-dd HH:mm:ss') : '—');
+
+function formatDuration(job: IntegrationJob): string {
+  const start = job.attempts[job.attempts.length - 1]?.startedAt;
+  if (!start || !job.finishedAt) return '—';
+  const seconds = Math.round((new Date(job.finishedAt).getTime() - new Date(start).getTime()) / 1000);
+  return seconds < 60 ? `${seconds} s` : `${Math.floor(seconds / 60)} min ${seconds % 60} s`;
+}
+
+export default function JobsPage() {
+  const { jobs, isLoading, error, fetchJobs, cancelJob, retryJob } = useIntegrationJobStore();
+  const { credentials, fetchCredentials } = useIntegrationCredentialStore();
+  const { toast } = useToast();
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchJobs();
+    fetchCredentials();
+  }, [fetchJobs, fetchCredentials]);
+
+  useIntegrationJobPolling();
+
+  const integrationName = (job: IntegrationJob) =>
+    credentials.find(credential => credential.id === job.params.integrationId)?.name || 'Deleted integration';
+
+  const handleCancel = async (job: IntegrationJob) => {
+    try {
+      await cancelJob(job.id);
+      toast({ title: 'Cancelling job', description: 'Items already synced stay synced.' });
+    } catch (error) {
+      toast({ title: 'Cancelling the job failed', description: (error as Error).message, variant: 'destructive' });
+    }
+  };
+
+  const handleRetry = async (job: IntegrationJob) => {
+    try {
+      await retryJob(job.id);
+      toast({ title: 'Job queued again', description: `${INTEGRATION_JOB_KIND_LABELS[job.kind]} with ${integrationName(job)}.` });
+    } catch (error) {
+      toast({ title: 'Retrying the job failed', description: (error as Error).message, variant: 'destructive' });
+    }
+  };
+
+  const active = jobs.filter(isIntegrationJobActive);
+  const history = jobs.filter(job => !isIntegrationJobActive(job));
+
+  return (
+    <div className="container mx-auto py-8 space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <h1 className="text-3xl font-bold text-primary flex items-center gap-2">
+          <Activity className="h-7 w-7" /> Sync Jobs
+        </h1>
+        <Button variant="outline" onClick={() => fetchJobs()} disabled={isLoading}>
+          <RefreshCw className={`mr-2 h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} /> Refresh
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Running</CardTitle>
+          <CardDescription>
+            Shopify syncs and Business Central imports and exports run in the background. Start them
+            on the <Link href="/import-export" className="underline">Import/Export</Link> page.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {active.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No jobs are running.</p>
+          ) : (
+            active.map(job => (
+              <div key={job.id} className="space-y-1">
+                <p className="text-xs text-muted-foreground">
+                  {integrationName(job)} · started by {job.startedBy.userName || job.startedBy.userId} at {formatDate(job.createdAt)}
+                </p>
+                <IntegrationJobProgress job={job} onCancel={handleCancel} />
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>History</CardTitle>
+          <CardDescription>Failed attempts are retried with increasing delays before a job fails. Open a job to see the items that failed.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+          {history.length === 0 ? (
+            <p className="text-sm text-muted-foreground">{isLoading ? 'Loading jobs...' : 'No finished jobs yet.'}</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-8" />
+                  <TableHead>Job</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Items</TableHead>
+                  <TableHead>Started</TableHead>
+                  <TableHead>Duration</TableHead>
+                  <TableHead>Result</TableHead>
+                  <TableHead className="w-24" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {history.map(job => (
+                  <Fragment key={job.id}>
+                    <TableRow>
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-6 w-6"
+                          onClick={() => setExpanded(expanded === job.id ? null : job.id)}
+                          aria-label={expanded === job.id ? 'Hide details' : 'Show details'}
+                        >
+                          {expanded === job.id ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                        </Button>
+                      </TableCell>
+                      <TableCell>
+                        <div className="font-medium">
+                          {INTEGRATION_JOB_KIND_LABELS[job.kind]}
+                          {job.params.direction ? ` (${SHOPIFY_SYNC_DIRECTION_LABELS[job.params.direction]})` : ''}
+                          {job.params.full ? ' (full)' : ''}
+                        </div>
+                        <div className="text-xs text-muted-foreground">{integrationName(job)}</div>
+                      </TableCell>
+                      <TableCell><IntegrationJobStatusBadge job={job} /></TableCell>
+                      <TableCell className="whitespace-nowrap text-sm">{describeIntegrationJobProgress(job.progress)}</TableCell>
+                      <TableCell className="whitespace-nowrap text-sm">
+                        {formatDate(job.createdAt)}
+                        <div className="text-xs text-muted-foreground">{job.startedBy.userName || job.startedBy.userId}</div>
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap text-sm">{formatDuration(job)}</TableCell>
+                      <TableCell className={`text-sm ${job.status === 'failed' ? 'text-destructive' : ''}`}>
+                        {job.error || job.message || '—'}
+                      </TableCell>
+                      <TableCell>
+                        {canRetryIntegrationJob(job.status) && (
+                          <Button variant="ghost" size="sm" onClick={() => handleRetry(job)}>
+                            <RotateCcw className="mr-1 h-4 w-4" /> Retry
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                    {expanded === job.id && (
+                      <TableRow>
+                        <TableCell />
+                        <TableCell colSpan={7} className="space-y-3 bg-muted/30">
+                          <div className="text-sm">
+                            <div className="font-medium">Attempts</div>
+                            {job.attempts.map((attempt, index) => (
+                              <div key={attempt.startedAt} className="text-xs text-muted-foreground">
+                                {index + 1}. {formatDate(attempt.startedAt)} – {formatDate(attempt.finishedAt)}
+                                {attempt.error ? `: ${attempt.error}` : ''}
+                              </div>
+                            ))}
+                          </div>
+                          {job.itemErrors.length > 0 ? (
+                            <div className="text-sm">
+                              <div className="font-medium flex items-center gap-1">
+                                <XCircle className="h-4 w-4 text-destructive" /> Failed items
+                                {job.progress.failed > job.itemErrors.length ? ` (first ${job.itemErrors.length} of ${job.progress.failed})` : ''}
+                              </div>
+                              {job.itemErrors.map((item, index) => (
+                                <div key={`${item.key}-${index}`} className="text-xs">
+                                  <span className="font-mono">{item.key}</span>: {item.message}
+                                </div>
+                              ))}
+                            </div>
+                          ) : (
+                            <p className="text-xs text-muted-foreground">No items failed.</p>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </Fragment>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -27,6 +27,7 @@ import { ReviewerAssignment } from '@/components/workflow/reviewer-assignment';
 import { WorkflowState, UserRole } from '@/types/workflow';
 import type { ProductWorkflow } from '@/types/workflow';
 import { Checkbox } from '@/components/ui/checkbox';
+import { ProductVersionHistory } from '@/components/products/product-version-history';
 
 // ─── Color mapping utilities ───────────────────────────────────────────────────
 const COLOR_MAP: Record<string, string> = {
@@ -60,12 +61,14 @@ function InventoryStatus({ count }: { count: number }) {
 
 // ─── Multilingual text display ─────────────────────────────────────────────────
 const MultilingualTextDisplay: React.FC<{ label: string; data?: Product['basicInfo']['name'] }> = ({ label, data }) => {
-  if (!data || (!data.en && !data.no)) return null;
+  const entries = Object.entries(data || {}).filter(([, text]) => text && text.trim() !== '');
+  if (entries.length === 0) return null;
   return (
     <div>
       <p className="font-medium text-foreground/90">{label}:</p>
-      {data.en && <p className="text-sm text-muted-foreground pl-2">EN: {data.en}</p>}
-      {data.no && <p className="text-sm text-muted-foreground pl-2">NO: {data.no}</p>}
+      {entries.map(([locale, text]) => (
+        <p key={locale} className="text-sm text-muted-foreground pl-2">{locale.toUpperCase()}: {text}</p>
+      ))}
     </div>
   );
 };
@@ -355,7 +358,7 @@ export default function ProductDetailsPage() {
           {/* TABS SECTION */}
           <Tabs defaultValue="variants" className="flex flex-col gap-6 w-full font-sans">
             <TabsList className="bg-transparent p-0 flex border-b border-[#eaf0f0] gap-8 rounded-none h-auto w-full justify-start overflow-x-auto">
-              {['basic-info', 'media', 'variants', 'seo'].map((tab) => (
+              {['basic-info', 'media', 'variants', 'seo', 'history'].map((tab) => (
                 <TabsTrigger
                   key={tab}
                   value={tab}
@@ -651,6 +654,11 @@ export default function ProductDetailsPage() {
               </div>
             </TabsContent>
 
+            {/* VERSION HISTORY */}
+            <TabsContent value="history" className="mt-2">
+              <ProductVersionHistory productId={product.id} onRestored={setProduct} />
+            </TabsContent>
+
           </Tabs>
         </div>
       </div>
@@ -1,13 +1,36 @@
 'use client';
 
-import { useEffect, useState, useMemo } from 'react';
-import { useSearchParams } from 'next/navigation';
+import { useEffect, useState, useMemo, useRef } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
 import { ProductCard } from '@/components/products/product-card';
+import { ProductFacetsPanel } from '@/components/products/product-facets-panel';
+import { ProductGridEditor } from '@/components/products/product-grid-editor';
+import { ProductTable } from '@/components/products/product-table';
+import { ProductViewsBar } from '@/components/products/product-views-bar';
 import { useProductStore } from '@/lib/product-store';
+import { useAttributeFamilyStore } from '@/lib/attribute-family-store';
+import { useLocaleStore } from '@/lib/locale-store';
+import { useProductFacetStore } from '@/lib/product-facet-store';
+import { useProductViewStore } from '@/lib/product-view-store';
+import { useCategoryStore } from '@/lib/category-store';
+import { hasFacetSelection, toFacetSearchParams } from '@/lib/product-facets';
+import {
+  getProductViewState,
+  isDefaultProductSort,
+  keepCurrentUser,
+  toProductViewSearchParams,
+  withCurrentUser,
+} from '@/lib/product-views';
+import type { ProductFacetSelection } from '@/types/facet';
+import type { ProductViewState, ProductViewSummary } from '@/types/product-view';
+import { useAuth } from '@/context/auth-context';
+import { useToast } from '@/hooks/use-toast';
+import { findFamilyForProduct } from '@/lib/attribute-validation';
+import { createProductLookup } from '@/lib/bundles';
 import type { Product, ProductStatus } from '@/types/product';
 import { Button } from '@/components/ui/button';
 import Link from 'next/link';
-import { PlusCircle, Search, Package, Filter, X, ListChecks } from 'lucide-react';
+import { PlusCircle, Search, Package, Filter, X, ListChecks, Loader2, Sheet } from 'lucide-react';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -21,17 +44,37 @@ import { BulkOperationsPanel } from '@/components/workflow/bulk-operations-panel
 import { WorkflowState, UserRole } from '@/types/workflow';
 import type { ProductWorkflow } from '@/types/workflow';
 
+const SEARCH_DEBOUNCE_MS = 250;
+
 export default function ProductsPage() {
-  const { products: allProducts, fetchProducts, isLoading } = useProductStore();
+  const {
+    products: allProducts, pagination, fetchProducts, fetchMoreProducts, isLoading, isLoadingMore,
+    searchResults, searchPagination, isSearching, searchProducts, fetchMoreSearchResults,
+  } = useProductStore();
+  const { families, fetchFamilies } = useAttributeFamilyStore();
+  const { settings: localeSettings, ensureLoaded: ensureLocalesLoaded } = useLocaleStore();
+  const {
+    facets, products: facetProducts, total: facetTotal, hasNext: facetsHasNext, isLoading: facetsLoading,
+    isLoadingMore: facetsLoadingMore, fetchFacets, fetchMoreFacetProducts,
+  } = useProductFacetStore();
+  const { views, isLoaded: viewsLoaded, fetchViews } = useProductViewStore();
+  const { categories, fetchCategories, getNameResolver } = useCategoryStore();
+  const { user } = useAuth();
+  const { toast } = useToast();
 
   useEffect(() => {
     fetchProducts();
-  }, [fetchProducts]);
+    fetchFamilies();
+    ensureLocalesLoaded();
+    fetchViews();
+  }, [fetchProducts, fetchFamilies, ensureLocalesLoaded, fetchViews]);
+  const router = useRouter();
   const searchParams = useSearchParams();
-  const [searchTerm, setSearchTerm] = useState('');
+  const [searchTerm, setSearchTerm] = useState(() => searchParams.get('q') || '');
   const [mounted, setMounted] = useState(false);
   const [showBulkOps, setShowBulkOps] = useState(false);
   const [showWorkflowFilters, setShowWorkflowFilters] = useState(false);
+  const [showGrid, setShowGrid] = useState(false);
 
   // Mock current user role - in a real app, this would come from auth context
   const currentUserRole = UserRole.ADMIN;
@@ -41,6 +84,107 @@ export default function ProductsPage() {
     setMounted(true);
   }, []);
 
+  // Filters, sort and columns live in the URL, so lists can be shared and saved as views
+  const paramsKey = searchParams.toString();
+  const viewState = useMemo(() => getProductViewState(new URLSearchParams(paramsKey)), [paramsKey]);
+  const viewId = searchParams.get('view');
+  const activeView = views.find(view => view.id === viewId) || null;
+
+  // Saved views may select "current user" as reviewer; facets count the real user
+  const facetSelection = useMemo<ProductFacetSelection>(
+    () => withCurrentUser(viewState.filters.facets, user?.id || ''),
+    [viewState, user?.id]
+  );
+  const facetKey = toFacetSearchParams(facetSelection).toString();
+  const facetsActive = hasFacetSelection(facetSelection);
+  const sortActive = !isDefaultProductSort(viewState.sort);
+  // Facet selections and sorts other than last updated are served by the facet API
+  const browseActive = facetsActive || sortActive;
+
+  const navigate = (params: URLSearchParams, mode: 'push' | 'replace' = 'replace') => {
+    const queryString = params.toString();
+    router[mode](queryString ? `/products?${queryString}` : '/products');
+  };
+
+  // Search and count facets on the server once the user stops typing
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      searchProducts(searchTerm);
+      fetchFacets(facetSelection, searchTerm, sortActive ? viewState.sort : undefined);
+
+      const params = new URLSearchParams(window.location.search);
+      if ((params.get('q') || '') !== searchTerm.trim()) {
+        if (searchTerm.trim()) params.set('q', searchTerm.trim());
+        else params.delete('q');
+        navigate(params);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+    // facetKey stands in for facetSelection, which changes identity with every URL change
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [searchTerm, facetKey, sortActive, viewState.sort.field, viewState.sort.direction, searchProducts, fetchFacets]);
+
+  const applyView = (view: ProductViewSummary | null, mode: 'push' | 'replace' = 'push') => {
+    if (!view) {
+      setSearchTerm('');
+      navigate(new URLSearchParams(), mode);
+      return;
+    }
+    const params = new URLSearchParams({ view: view.id });
+    toProductViewSearchParams(view, params);
+    setSearchTerm(view.filters.search || '');
+    navigate(params, mode);
+  };
+
+  // Open views linked as /products?view=<id>, e.g. from the sidebar
+  useEffect(() => {
+    if (!viewId || !viewsLoaded) return;
+    const view = views.find(v => v.id === viewId);
+    if (!view) {
+      toast({ title: 'View not found', description: 'It was deleted or is not shared with you.', variant: 'destructive' });
+      applyView(null, 'replace');
+    } else if (paramsKey === new URLSearchParams({ view: viewId }).toString()) {
+      applyView(view, 'replace');
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [viewId, viewsLoaded, paramsKey]);
+
+  const handleViewStateChange = (state: ProductViewState) => {
+    navigate(toProductViewSearchParams(state, new URLSearchParams(paramsKey)));
+  };
+
+  const handleFacetChange = (selection: ProductFacetSelection) => {
+    const facets = keepCurrentUser(selection, viewState.filters.facets, user?.id || '');
+    navigate(toFacetSearchParams(facets, new URLSearchParams(paramsKey)));
+  };
+
+  // Category names for the table, loaded once the column is shown
+  const showCategories = viewState.columns.includes('categories');
+  useEffect(() => {
+    if (showCategories && categories.length === 0) fetchCategories();
+  }, [showCategories, categories.length, fetchCategories]);
+
+  // The list shows facet matches, search results or all products, each loaded a page at a time
+  const searchActive = !!searchTerm.trim() && !!searchResults;
+  const activePagination = searchActive ? searchPagination : pagination;
+  const hasMore = browseActive ? facetsHasNext : !!activePagination?.hasNext;
+  const loadingMore = browseActive ? facetsLoadingMore : isLoadingMore;
+  const loadMore = browseActive ? fetchMoreFacetProducts : searchActive ? fetchMoreSearchResults : fetchMoreProducts;
+  const formatTotal = (page: { total: number; totalEstimated: boolean } | null | undefined, loaded: number) =>
+    page ? `${page.totalEstimated ? 'about ' : ''}${page.total}` : String(loaded);
+
+  // Load the next page when the end of the list scrolls into view
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasMore || loadingMore) return;
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) loadMore();
+    }, { rootMargin: '400px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [mounted, isLoading, hasMore, loadingMore, loadMore]);
+
   // Extract URL parameters
   const qualityFilter = searchParams.get('quality');
   const statusFilter = searchParams.get('status');
@@ -48,18 +192,11 @@ export default function ProductsPage() {
 
   // Apply filters
   const filteredProducts = useMemo(() => {
-    let filtered = allProducts;
-
-    // Apply search term filter
-    if (searchTerm) {
-      filtered = filtered.filter(product => {
-        const nameMatch = product.basicInfo.name.en?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-          product.basicInfo.name.no?.toLowerCase().includes(searchTerm.toLowerCase());
-        const skuMatch = product.basicInfo.sku.toLowerCase().includes(searchTerm.toLowerCase());
-        const brandMatch = product.basicInfo.brand?.toLowerCase().includes(searchTerm.toLowerCase());
-        return nameMatch || skuMatch || brandMatch;
-      });
-    }
+    // Search results come ranked from the server, best match first. With
+    // facets selected, the server also filters the full catalog.
+    let filtered = browseActive
+      ? facetProducts
+      : searchActive ? searchResults! : allProducts;
 
     // Apply status filter
     if (selectedStatuses.length > 0) {
@@ -68,18 +205,19 @@ export default function ProductsPage() {
 
     // Apply quality filter
     if (qualityFilter) {
+      const lookup = createProductLookup(allProducts);
       filtered = filtered.filter(product => {
         switch (qualityFilter) {
           case 'incomplete':
-            const metrics = product.qualityMetrics || calculateQualityMetrics(product);
+            const metrics = product.qualityMetrics || calculateQualityMetrics(product, findFamilyForProduct(families, product), localeSettings, lookup);
             return metrics.completenessScore < 70;
           case 'missing-images':
             return checkMissingImages(product);
           case 'validation-errors':
-            const errors = validateProduct(product);
+            const errors = validateProduct(product, findFamilyForProduct(families, product), localeSettings, lookup);
             return errors.length > 0;
           case 'missing-fields':
-            const qualityMetrics = product.qualityMetrics || calculateQualityMetrics(product);
+            const qualityMetrics = product.qualityMetrics || calculateQualityMetrics(product, findFamilyForProduct(families, product), localeSettings, lookup);
             return qualityMetrics.missingFields.length > 0;
           default:
             return true;
@@ -88,13 +226,15 @@ export default function ProductsPage() {
     }
 
     return filtered;
-  }, [allProducts, searchTerm, selectedStatuses, qualityFilter]);
+  }, [allProducts, searchResults, searchActive, browseActive, facetProducts, families, localeSettings, selectedStatuses, qualityFilter]);
 
   // Helper function to build URL with updated parameters
   const buildFilterUrl = (newQuality?: string | null, newStatus?: string | null) => {
-    const params = new URLSearchParams();
+    const params = new URLSearchParams(searchParams.toString());
     if (newQuality) params.set('quality', newQuality);
+    else params.delete('quality');
     if (newStatus) params.set('status', newStatus);
+    else params.delete('status');
     const queryString = params.toString();
     return queryString ? `?${queryString}` : '';
   };
@@ -123,6 +263,11 @@ export default function ProductsPage() {
               onChange={(e) => setSearchTerm(e.target.value)}
             />
             <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-muted-foreground" />
+            {searchTerm.trim() && (
+              <p className="absolute -bottom-5 left-0 text-xs text-muted-foreground">
+                {isSearching ? 'Searching...' : `${formatTotal(searchPagination, searchResults?.length ?? 0)} matches`}
+              </p>
+            )}
           </div>
           <Button
             variant="outline"
@@ -131,6 +276,14 @@ export default function ProductsPage() {
             <Filter className="mr-2 h-5 w-5" />
             Workflow Filters
           </Button>
+          <Button
+            variant={showGrid ? 'secondary' : 'outline'}
+            onClick={() => setShowGrid(true)}
+            disabled={showGrid}
+          >
+            <Sheet className="mr-2 h-5 w-5" />
+            Edit in Grid
+          </Button>
           <Button
             variant="outline"
             onClick={() => setShowBulkOps(!showBulkOps)}
@@ -195,6 +348,14 @@ export default function ProductsPage() {
         </div>
       )}
 
+      <ProductViewsBar
+        state={{ ...viewState, filters: { ...viewState.filters, search: searchTerm.trim() || undefined } }}
+        activeView={activeView}
+        currentUserId={user?.id || ''}
+        onSelectView={view => applyView(view)}
+        onStateChange={handleViewStateChange}
+      />
+
       {/* Active Filters Display */}
       {(qualityFilter || selectedStatuses.length > 0) && (
         <div className="mb-6 p-4 bg-muted/50 rounded-lg">
@@ -229,29 +390,72 @@ export default function ProductsPage() {
             </Button>
           </div>
           <div className="mt-2 text-sm text-muted-foreground">
-            Showing {filteredProducts.length} of {allProducts.length} products
+            Showing {filteredProducts.length} of {browseActive ? facetTotal : formatTotal(activePagination, allProducts.length)} products
           </div>
         </div>
       )}
 
-      {filteredProducts.length === 0 ? (
-        <div className="text-center py-12">
-          <Package className="mx-auto h-24 w-24 text-muted-foreground mb-4" />
-          <h2 className="text-2xl font-semibold mb-2">No Products Found</h2>
-          <p className="text-muted-foreground mb-6">
-            {searchTerm ? "Try adjusting your search term or " : "It looks like there are no products yet. "}
-            <Link href="/products/new" className="text-primary hover:underline">
-              add a new product
-            </Link> to get started.
-          </p>
-        </div>
-      ) : (
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-          {filteredProducts.map((product) => (
-            <ProductCard key={product.id} product={product} />
-          ))}
+      <div className="flex flex-col lg:flex-row gap-6">
+        <aside className="lg:w-64 shrink-0">
+          <ProductFacetsPanel
+            facets={facets}
+            selection={facetSelection}
+            onChange={handleFacetChange}
+            isLoading={facetsLoading}
+          />
+        </aside>
+
+        <div className="flex-1 min-w-0">
+          {browseActive && (
+            <p className="mb-4 text-sm text-muted-foreground">
+              {facetsLoading ? 'Updating...' : `Showing ${filteredProducts.length} of ${facetTotal} matching products`}
+            </p>
+          )}
+
+          {filteredProducts.length === 0 ? (
+            <div className="text-center py-12">
+              <Package className="mx-auto h-24 w-24 text-muted-foreground mb-4" />
+              <h2 className="text-2xl font-semibold mb-2">No Products Found</h2>
+              <p className="text-muted-foreground mb-6">
+                {searchTerm || facetsActive ? "Try adjusting your search or filters, or " : "It looks like there are no products yet. "}
+                <Link href="/products/new" className="text-primary hover:underline">
+                  add a new product
+                </Link> to get started.
+              </p>
+            </div>
+          ) : showGrid ? (
+            <ProductGridEditor products={filteredProducts} onClose={() => setShowGrid(false)} />
+          ) : viewState.columns.length > 0 ? (
+            <ProductTable
+              products={filteredProducts}
+              columns={viewState.columns}
+              sort={viewState.sort}
+              onSortChange={sort => handleViewStateChange({ ...viewState, sort })}
+              getCategoryNames={showCategories ? getNameResolver() : undefined}
+            />
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+              {filteredProducts.map((product) => (
+                <ProductCard key={product.id} product={product} />
+              ))}
+            </div>
+          )}
+
+          {hasMore && (
+            <div ref={loadMoreRef} className="flex justify-center py-8">
+              <Button variant="outline" onClick={() => loadMore()} disabled={loadingMore}>
+                {loadingMore && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {loadingMore ? 'Loading...' : 'Load more'}
+              </Button>
+            </div>
+          )}
+          {!browseActive && !hasMore && !qualityFilter && selectedStatuses.length === 0 && activePagination && filteredProducts.length > 0 && (
+            <p className="py-6 text-center text-sm text-muted-foreground">
+              Showing all {formatTotal(activePagination, filteredProducts.length)} products
+            </p>
+          )}
         </div>
-      )}
+      </div>
     </div>
   );
 }
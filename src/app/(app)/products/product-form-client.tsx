@@ -30,15 +30,40 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { ProductFormSection } from "@/components/products/product-form-section";
 import { KeyValueEditor } from "@/components/products/key-value-editor";
 import { MediaEditor } from "@/components/products/media-editor";
-import { MultilingualInput } from "@/components/shared/multilingual-input";
-import type { Product, MultilingualString, KeyValueEntry, MediaEntry, ProductStatus, PriceEntry, ProductOption, ProductVariant } from "@/types/product";
+import { MultilingualInput, type TranslateMode } from "@/components/shared/multilingual-input";
+import type { Product, MultilingualString, KeyValueEntry, MediaEntry, ProductStatus, ProductOption } from "@/types/product";
 import { initialProductData, defaultMultilingualString } from "@/types/product";
 import { useProductStore } from "@/lib/product-store";
+import { useCategoryStore } from "@/lib/category-store";
+import { findCategoryByName, resolveCategoryNames } from "@/lib/category-tree";
+import { CategoryPicker } from "@/components/categories/category-picker";
+import { useAttributeFamilyStore } from "@/lib/attribute-family-store";
+import { AttributeValuesEditor } from "@/components/attributes/attribute-values-editor";
+import { useChannelStore } from "@/lib/channel-store";
+import { pruneChannelOverrides } from "@/lib/channel-overrides";
+import {
+  describePriceValidity,
+  fromVariantFormValues,
+  keyValueEntrySchema,
+  productVariantSchema,
+  toFormPriceEntries,
+  toSpecEntries,
+  toVariantFormValues,
+} from "@/lib/product-form";
+import { getLocaleName, hasLocalizedText, resolveLocalizedText, toMultilingualString } from "@/lib/locales";
+import { getProtectedTerms } from "@/lib/machine-translation";
+import { useLocaleStore } from "@/lib/locale-store";
+import { ChannelOverridesEditor } from "@/components/channels/channel-overrides-editor";
+import { BundleEditor, emptyBundleDefinition } from "@/components/products/bundle-editor";
+import { bundleDefinitionSchema } from "@/lib/bundles";
+import type { BundleDefinition } from "@/types/bundle";
+import type { ChannelOverrides } from "@/types/channel";
 import { useRouter } from "next/navigation";
 import { useToast } from "@/hooks/use-toast";
 import { summarizeProductInformation } from "@/ai/flows/summarize-product-information";
 import { generateProductDescriptions } from "@/ai/flows/generate-product-descriptions";
-import { Info, Package, Tag, Image as ImageIconLucide, BarChart3, Brain, CalendarDays, CheckCircle, Save, Trash2, Sparkles, Languages, Edit, DollarSign, ListPlus, Cog, Settings2 } from "lucide-react";
+import { translateProductText } from "@/ai/flows/translate-product-text";
+import { Info, Package, Tag, Image as ImageIconLucide, BarChart3, Brain, CalendarDays, CheckCircle, Save, Trash2, Sparkles, Languages, Edit, DollarSign, ListPlus, Cog, Settings2, Radio, Boxes } from "lucide-react";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Calendar } from "@/components/ui/calendar";
 import { Label } from "@/components/ui/label";
@@ -54,28 +79,30 @@ const requiredMultilingualStringSchema = z.object({
   no: z.string().optional(),
 }).catchall(z.string().optional())
   .superRefine((data, ctx) => {
-    const enEmpty = !data.en || data.en.trim() === "";
-    const noEmpty = !data.no || data.no.trim() === "";
-    if (enEmpty && noEmpty) {
+    if (!hasLocalizedText(toMultilingualString(data))) {
       ctx.addIssue({
         code: z.ZodIssueCode.custom,
-        message: "At least one language (English or Norwegian) is required.",
+        message: "At least one language is required.",
         path: ['en'],
       });
     }
   });
 
+const NO_FAMILY = "__none__";
+
 const baseMultilingualStringSchema = z.object({
   en: z.string().optional(),
   no: z.string().optional(),
 }).catchall(z.string().optional());
 
 
-const keyValueEntrySchema = z.object({
-  id: z.string(),
-  key: z.string().min(1, "Key cannot be empty"),
-  value: z.string().min(1, "Value cannot be empty"),
-});
+// Multilingual fields with a per-field Translate menu
+type TranslatableFormField =
+  | 'basicInfo.name'
+  | 'basicInfo.descriptionShort'
+  | 'basicInfo.descriptionLong'
+  | 'marketingSEO.seoTitle'
+  | 'marketingSEO.seoDescription';
 
 const mediaEntrySchema = z.object({
   id: z.string(),
@@ -105,24 +132,6 @@ const productOptionSchema = z.object({
     .refine(val => val.split(',').map(v => v.trim()).filter(v => v).length > 0, { message: "Please provide at least one valid, non-empty option value (e.g., 'Red' or 'Red,Blue'). Values like ' , ' are not valid." })
 });
 
-const productVariantSchema = z.object({
-  id: z.string(),
-  sku: z.string().min(1, "Variant SKU is required."),
-  gtin: z.string().optional(),
-  optionValues: z.record(z.string()),
-  standardPriceAmount: z.preprocess(
-    (val) => (String(val).trim() === "" || val === null || val === undefined ? undefined : val),
-    z.coerce.number({ invalid_type_error: "Price must be a number" }).min(0, "Price cannot be negative").optional().nullable()
-  ),
-  standardPriceCurrency: z.string().length(3, "Currency code must be 3 letters").optional().default("NOK"),
-  salePriceAmount: z.preprocess(
-    (val) => (String(val).trim() === "" || val === null || val === undefined ? undefined : val),
-    z.coerce.number({ invalid_type_error: "Sale price must be a number" }).min(0, "Sale price cannot be negative").optional().nullable()
-  ),
-  salePriceCurrency: z.string().length(3, "Currency code must be 3 letters").optional().default("NOK"),
-});
-
-
 const productFormSchema = z.object({
   basicInfo: z.object({
     name: requiredMultilingualStringSchema,
@@ -140,6 +149,8 @@ const productFormSchema = z.object({
     properties: z.array(keyValueEntrySchema).optional(),
     technicalSpecs: z.array(keyValueEntrySchema).optional(),
     countryOfOrigin: z.string().optional(),
+    familyId: z.string().optional(),
+    attributeValues: z.record(z.any()).optional(),
   }),
   media: z.object({
     images: z.array(mediaEntrySchema).optional(),
@@ -152,7 +163,7 @@ const productFormSchema = z.object({
   pricingAndStock: z.object({
     standardPriceAmount: z.preprocess(
       (val) => (String(val).trim() === "" || val === null || val === undefined ? undefined : val),
-      z.coerce.number({ required_error: "Original price amount is required.", invalid_type_error: "Original price must be a number" }).min(0, "Original price cannot be negative")
+      z.coerce.number({ invalid_type_error: "Original price must be a number" }).min(0, "Original price cannot be negative").optional()
     ),
     standardPriceCurrency: z.string().length(3, "Currency code must be 3 letters").default("NOK"),
     salePriceAmount: z.preprocess(
@@ -169,6 +180,19 @@ const productFormSchema = z.object({
   options: z.array(productOptionSchema).max(3, "Maximum of 3 options allowed.").optional(),
   variants: z.array(productVariantSchema).optional(),
   aiSummary: baseMultilingualStringSchema.optional(),
+  channelOverrides: z.record(z.any()).optional(),
+  productType: z.enum(['simple', 'bundle']).default('simple'),
+  bundle: bundleDefinitionSchema.optional(),
+}).superRefine((data, ctx) => {
+  // Computed bundles take their price from the components
+  const isComputedBundle = data.productType === 'bundle' && data.bundle?.pricing.mode === 'computed';
+  if (!isComputedBundle && data.pricingAndStock?.standardPriceAmount === undefined) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "Original price amount is required.",
+      path: ['pricingAndStock', 'standardPriceAmount'],
+    });
+  }
 });
 
 type ProductFormData = z.infer<typeof productFormSchema>;
@@ -180,10 +204,17 @@ interface ProductFormClientProps {
 export function ProductFormClient({ product: existingProduct }: ProductFormClientProps) {
   const router = useRouter();
   const { toast } = useToast();
-  const { addProduct, updateProduct: storeUpdateProduct } = useProductStore();
+  const { products: allProducts, fetchProducts, addProduct, updateProduct: storeUpdateProduct } = useProductStore();
+  const { categories: categoryTaxonomy, fetchCategories } = useCategoryStore();
+  const { families: attributeFamilies, fetchFamilies } = useAttributeFamilyStore();
+  const { channels, fetchChannels } = useChannelStore();
+  const localeSettings = useLocaleStore(state => state.settings);
+  const displayText = (value: Record<string, string | undefined> | undefined) =>
+    resolveLocalizedText(toMultilingualString(value), localeSettings.defaultLocale, localeSettings);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isGeneratingSummary, setIsGeneratingSummary] = useState(false);
   const [isGeneratingDescriptions, setIsGeneratingDescriptions] = useState(false);
+  const [translatingField, setTranslatingField] = useState<TranslatableFormField | null>(null);
 
   const defaultValues = existingProduct ? {
     basicInfo: {
@@ -201,6 +232,8 @@ export function ProductFormClient({ product: existingProduct }: ProductFormClien
       categories: existingProduct.attributesAndSpecs.categories || [],
       properties: existingProduct.attributesAndSpecs.properties || [],
       technicalSpecs: existingProduct.attributesAndSpecs.technicalSpecs || [],
+      familyId: existingProduct.attributesAndSpecs.familyId || '',
+      attributeValues: existingProduct.attributesAndSpecs.attributeValues || {},
     },
     media: {
       images: (existingProduct.media.images || []).map(img => ({
@@ -228,19 +261,11 @@ export function ProductFormClient({ product: existingProduct }: ProductFormClien
       name: opt.name,
       values: Array.isArray(opt.values) ? opt.values.join(',') : opt.values,
     })),
-    variants: (existingProduct.variants || []).map(v => {
-      return {
-        id: v.id,
-        sku: v.sku,
-        gtin: v.gtin || '',
-        optionValues: v.optionValues,
-        standardPriceAmount: v.standardPrice?.[0]?.amount,
-        standardPriceCurrency: v.standardPrice?.[0]?.currency || "NOK",
-        salePriceAmount: v.salePrice?.[0]?.amount,
-        salePriceCurrency: v.salePrice?.[0]?.currency || "NOK",
-      };
-    }),
+    variants: (existingProduct.variants || []).map(toVariantFormValues),
     aiSummary: existingProduct.aiSummary || { ...defaultMultilingualString },
+    channelOverrides: existingProduct.channelOverrides || {},
+    productType: existingProduct.productType || 'simple',
+    bundle: existingProduct.bundle || emptyBundleDefinition(),
   } : {
     basicInfo: {
       name: { ...defaultMultilingualString },
@@ -256,6 +281,8 @@ export function ProductFormClient({ product: existingProduct }: ProductFormClien
       properties: [],
       technicalSpecs: [],
       countryOfOrigin: '',
+      familyId: '',
+      attributeValues: {},
     },
     media: {
       images: [],
@@ -276,6 +303,9 @@ export function ProductFormClient({ product: existingProduct }: ProductFormClien
     options: [],
     variants: [],
     aiSummary: { ...defaultMultilingualString },
+    channelOverrides: {},
+    productType: 'simple',
+    bundle: emptyBundleDefinition(),
   };
 
 
@@ -285,6 +315,25 @@ export function ProductFormClient({ product: existingProduct }: ProductFormClien
     mode: "onChange",
   });
 
+  useEffect(() => {
+    fetchCategories();
+    fetchFamilies();
+    fetchChannels();
+  }, [fetchCategories, fetchFamilies, fetchChannels]);
+
+  const productType = form.watch("productType");
+  const isComputedBundle = productType === 'bundle' && form.watch("bundle.pricing.mode") === 'computed';
+  const standardPriceValidity = describePriceValidity(existingProduct?.pricingAndStock?.standardPrice?.[0]);
+  const salePriceValidity = describePriceValidity(existingProduct?.pricingAndStock?.salePrice?.[0]);
+
+  // Bundle components are picked from the product list
+  useEffect(() => {
+    if (productType === 'bundle' && allProducts.length === 0) fetchProducts();
+  }, [productType, allProducts.length, fetchProducts]);
+
+  const selectedFamilyId = form.watch("attributesAndSpecs.familyId");
+  const selectedFamily = attributeFamilies.find(f => f.id === selectedFamilyId);
+
   const { fields: optionsFields, append: appendOption, remove: removeOption } = useFieldArray({
     control: form.control,
     name: "options",
@@ -307,26 +356,19 @@ export function ProductFormClient({ product: existingProduct }: ProductFormClien
         updatedAt: new Date().toISOString(),
         basicInfo: {
           ...data.basicInfo,
-          name: {
-            en: data.basicInfo.name.en || '',
-            no: data.basicInfo.name.no || ''
-          },
-          descriptionShort: {
-            en: data.basicInfo.descriptionShort.en || '',
-            no: data.basicInfo.descriptionShort.no || ''
-          },
-          descriptionLong: {
-            en: data.basicInfo.descriptionLong.en || '',
-            no: data.basicInfo.descriptionLong.no || ''
-          },
+          name: toMultilingualString(data.basicInfo.name),
+          descriptionShort: toMultilingualString(data.basicInfo.descriptionShort),
+          descriptionLong: toMultilingualString(data.basicInfo.descriptionLong),
           launchDate: data.basicInfo.launchDate ? data.basicInfo.launchDate.toISOString() : undefined,
           endDate: data.basicInfo.endDate ? data.basicInfo.endDate.toISOString() : undefined,
         },
         attributesAndSpecs: {
           categories: data.attributesAndSpecs.categories || [],
           properties: data.attributesAndSpecs.properties || [],
-          technicalSpecs: data.attributesAndSpecs.technicalSpecs || [],
+          technicalSpecs: toSpecEntries(data.attributesAndSpecs.technicalSpecs || [], existingProduct?.attributesAndSpecs.technicalSpecs),
           countryOfOrigin: data.attributesAndSpecs.countryOfOrigin,
+          familyId: data.attributesAndSpecs.familyId || undefined,
+          attributeValues: data.attributesAndSpecs.familyId ? data.attributesAndSpecs.attributeValues || {} : undefined,
         },
         media: {
           images: (data.media.images || [])
@@ -342,27 +384,18 @@ export function ProductFormClient({ product: existingProduct }: ProductFormClien
             .map(img => ({
               ...img,
               url: img.url!,
-              altText: img.altText ? {
-                en: img.altText.en || '',
-                no: img.altText.no || ''
-              } : undefined
+              altText: img.altText ? toMultilingualString(img.altText) : undefined
             }))
         },
         marketingSEO: {
-          seoTitle: {
-            en: data.marketingSEO.seoTitle.en || '',
-            no: data.marketingSEO.seoTitle.no || ''
-          },
-          seoDescription: {
-            en: data.marketingSEO.seoDescription.en || '',
-            no: data.marketingSEO.seoDescription.no || ''
-          },
+          seoTitle: toMultilingualString(data.marketingSEO.seoTitle),
+          seoDescription: toMultilingualString(data.marketingSEO.seoDescription),
           keywords: data.marketingSEO.keywords || [],
         },
-        aiSummary: {
-          en: data.aiSummary?.en || '',
-          no: data.aiSummary?.no || ''
-        },
+        aiSummary: toMultilingualString(data.aiSummary),
+        channelOverrides: pruneChannelOverrides(data.channelOverrides as ChannelOverrides),
+        productType: data.productType,
+        bundle: data.productType === 'bundle' ? data.bundle as BundleDefinition : undefined,
         pricingAndStock: {
           standardPrice: [],
           salePrice: [],
@@ -373,61 +406,32 @@ export function ProductFormClient({ product: existingProduct }: ProductFormClien
           name: opt.name,
           values: opt.values.split(',').map(v => v.trim()).filter(v => v),
         })),
-        variants: (data.variants || []).map(vFormData => {
-          const stdPriceEntries: PriceEntry[] = (vFormData.standardPriceAmount !== undefined && vFormData.standardPriceAmount !== null)
-            ? [{ id: uuidv4(), amount: Number(vFormData.standardPriceAmount), currency: vFormData.standardPriceCurrency || "NOK" }]
-            : [];
-          const slPriceEntries: PriceEntry[] = (vFormData.salePriceAmount !== undefined && vFormData.salePriceAmount !== null)
-            ? [{ id: uuidv4(), amount: Number(vFormData.salePriceAmount), currency: vFormData.salePriceCurrency || "NOK" }]
-            : [];
-
-          const variantForPayload: ProductVariant = {
-            id: vFormData.id,
-            sku: vFormData.sku,
-            optionValues: vFormData.optionValues,
-            standardPrice: stdPriceEntries,
-            salePrice: slPriceEntries,
-          };
-          if (vFormData.gtin) variantForPayload.gtin = vFormData.gtin;
-          return variantForPayload;
-        }),
+        variants: (data.variants || []).map(vFormData =>
+          fromVariantFormValues(vFormData, existingProduct?.variants?.find(v => v.id === vFormData.id))
+        ),
       };
 
       if (data.pricingAndStock) {
-        if (data.pricingAndStock.standardPriceAmount !== undefined && data.pricingAndStock.standardPriceAmount !== null) {
-          productPayloadForSave.pricingAndStock!.standardPrice = [{
-            id: uuidv4(),
-            amount: Number(data.pricingAndStock.standardPriceAmount),
-            currency: data.pricingAndStock.standardPriceCurrency || "NOK",
-          }];
-        }
-        if (data.pricingAndStock.salePriceAmount !== undefined && data.pricingAndStock.salePriceAmount !== null) {
-          productPayloadForSave.pricingAndStock!.salePrice = [{
-            id: uuidv4(),
-            amount: Number(data.pricingAndStock.salePriceAmount),
-            currency: data.pricingAndStock.salePriceCurrency || "NOK",
-          }];
-        }
-        if (data.pricingAndStock.costPriceAmount !== undefined && data.pricingAndStock.costPriceAmount !== null) {
-          productPayloadForSave.pricingAndStock!.costPrice = [{
-            id: uuidv4(),
-            amount: Number(data.pricingAndStock.costPriceAmount),
-            currency: data.pricingAndStock.costPriceCurrency || "NOK",
-          }];
-        }
+        // Unchanged prices keep their validity window and scheduler state
+        const existingPrices = existingProduct?.pricingAndStock;
+        productPayloadForSave.pricingAndStock = {
+          standardPrice: toFormPriceEntries(existingPrices?.standardPrice, data.pricingAndStock.standardPriceAmount, data.pricingAndStock.standardPriceCurrency),
+          salePrice: toFormPriceEntries(existingPrices?.salePrice, data.pricingAndStock.salePriceAmount, data.pricingAndStock.salePriceCurrency),
+          costPrice: toFormPriceEntries(existingPrices?.costPrice, data.pricingAndStock.costPriceAmount, data.pricingAndStock.costPriceCurrency),
+        };
       }
 
 
       if (existingProduct) {
         const { id, createdAt, updatedAt, ...updatePayload } = productPayloadForSave;
         await storeUpdateProduct(existingProduct.id, updatePayload);
-        toast({ title: "Product Updated", description: `"${data.basicInfo.name.en || data.basicInfo.name.no || data.basicInfo.sku}" has been successfully updated.` });
+        toast({ title: "Product Updated", description: `"${displayText(data.basicInfo.name) || data.basicInfo.sku}" has been successfully updated.` });
       } else {
         const { id, createdAt, updatedAt, aiSummary: _aiSummaryFromPayload, ...productDataForStore } = productPayloadForSave;
         const newProd = await addProduct(productDataForStore, productPayloadForSave.aiSummary);
 
         if (newProd) {
-          toast({ title: "Product Created", description: `"${newProd.basicInfo.name.en || newProd.basicInfo.name.no || newProd.basicInfo.sku}" has been successfully created.` });
+          toast({ title: "Product Created", description: `"${displayText(newProd.basicInfo.name) || newProd.basicInfo.sku}" has been successfully created.` });
         } else {
           throw new Error("Failed to create product (API returned no data)");
         }
@@ -455,8 +459,8 @@ export function ProductFormClient({ product: existingProduct }: ProductFormClien
   const handleGenerateDescriptions = async () => {
     setIsGeneratingDescriptions(true);
     const currentData = form.getValues();
-    const name = currentData.basicInfo.name.en || currentData.basicInfo.name.no;
-    const category = currentData.attributesAndSpecs.categories?.[0] || '';
+    const name = displayText(currentData.basicInfo.name);
+    const category = resolveCategoryNames(currentData.attributesAndSpecs.categories?.slice(0, 1), categoryTaxonomy)[0] || '';
 
     // Get image URLs that are valid http/https
     const imageUrls = (currentData.media.images || [])
@@ -486,7 +490,14 @@ export function ProductFormClient({ product: existingProduct }: ProductFormClien
           if (result.longDescription.no) form.setValue("basicInfo.descriptionLong.no", result.longDescription.no, { shouldValidate: true, shouldDirty: true });
         }
         if (result.categories && result.categories.length > 0) {
-          form.setValue("attributesAndSpecs.categories", result.categories, { shouldValidate: true, shouldDirty: true });
+          // Only keep suggestions that match a managed category
+          const suggestedIds = result.categories
+            .map(name => findCategoryByName(categoryTaxonomy, name)?.id)
+            .filter((id): id is string => !!id);
+          if (suggestedIds.length > 0) {
+            const currentIds = currentData.attributesAndSpecs.categories || [];
+            form.setValue("attributesAndSpecs.categories", Array.from(new Set([...currentIds, ...suggestedIds])), { shouldValidate: true, shouldDirty: true });
+          }
         }
         if (result.properties && result.properties.length > 0) {
           form.setValue("attributesAndSpecs.properties", result.properties.map(p => ({ ...p, id: uuidv4() })), { shouldValidate: true, shouldDirty: true });
@@ -504,11 +515,58 @@ export function ProductFormClient({ product: existingProduct }: ProductFormClien
     }
   };
 
+  // Translate a text from the default locale, keeping the glossary, SKU and brand as written
+  const translateFromDefaultLocale = async (text: string, targetCodes: string[]) => {
+    const currentData = form.getValues();
+    const sourceLocale = localeSettings.locales.find(l => l.code === localeSettings.defaultLocale)
+      || { code: localeSettings.defaultLocale, name: getLocaleName(localeSettings.defaultLocale, localeSettings) };
+    return translateProductText({
+      sourceLocale,
+      targetLocales: localeSettings.locales.filter(l => targetCodes.includes(l.code)),
+      texts: { text },
+      glossary: getProtectedTerms(localeSettings.glossary, currentData.basicInfo),
+      context: [displayText(currentData.basicInfo.name), currentData.basicInfo.brand].filter(Boolean).join(', '),
+    });
+  };
+
+  const handleTranslateField = async (path: TranslatableFormField, mode: TranslateMode) => {
+    const value = toMultilingualString(form.getValues(path));
+    const source = value[localeSettings.defaultLocale] || '';
+    if (!source.trim()) {
+      toast({ title: "Nothing to Translate", description: `Enter the ${getLocaleName(localeSettings.defaultLocale, localeSettings)} text first.`, variant: "destructive" });
+      return;
+    }
+
+    const targets = localeSettings.locales
+      .map(l => l.code)
+      .filter(code => code !== localeSettings.defaultLocale && (mode === 'all' || !(value[code] || '').trim()));
+    if (targets.length === 0) {
+      toast({ title: "Already Translated", description: "Every language has text. Use Retranslate to replace it." });
+      return;
+    }
+
+    setTranslatingField(path);
+    try {
+      const result = await translateFromDefaultLocale(source, targets);
+      form.setValue(path, { ...value, ...result.translations.text }, { shouldValidate: true, shouldDirty: true });
+      if (result.errors.length > 0) {
+        toast({ title: "Translation Incomplete", description: result.errors.join('; '), variant: "destructive" });
+      } else {
+        toast({ title: "Translated", description: `Translated into ${targets.map(code => getLocaleName(code, localeSettings)).join(', ')}. Review before saving.` });
+      }
+    } catch (error) {
+      console.error("Translation error:", error);
+      toast({ title: "AI Error", description: "Failed to translate.", variant: "destructive" });
+    } finally {
+      setTranslatingField(null);
+    }
+  };
+
   const handleGenerateSummary = async () => {
     setIsGeneratingSummary(true);
     const currentData = form.getValues();
-    const primaryName = currentData.basicInfo.name.en || currentData.basicInfo.name.no;
-    const primaryDescription = currentData.basicInfo.descriptionLong.en || currentData.basicInfo.descriptionLong.no;
+    const primaryName = displayText(currentData.basicInfo.name);
+    const primaryDescription = displayText(currentData.basicInfo.descriptionLong);
 
     if (!primaryName || !primaryDescription) {
       toast({ title: "Missing Information", description: "Please fill in product name and long description in at least one language to generate summary.", variant: "destructive" });
@@ -529,8 +587,18 @@ export function ProductFormClient({ product: existingProduct }: ProductFormClien
       });
 
       if (result.summary) {
-        form.setValue("aiSummary.en", result.summary, { shouldValidate: true, shouldDirty: true });
-        form.setValue("aiSummary.no", result.summary + " (automatisk oppsummert)", { shouldValidate: true, shouldDirty: true });
+        const summary: Record<string, string> = { [localeSettings.defaultLocale]: result.summary };
+        const targets = localeSettings.locales.map(l => l.code).filter(code => code !== localeSettings.defaultLocale);
+        if (targets.length > 0) {
+          try {
+            const translated = await translateFromDefaultLocale(result.summary, targets);
+            Object.assign(summary, translated.translations.text);
+          } catch (error) {
+            // The summary is still useful untranslated
+            console.error("AI Summary translation error:", error);
+          }
+        }
+        form.setValue("aiSummary", toMultilingualString(summary), { shouldValidate: true, shouldDirty: true });
         toast({ title: "AI Summary Generated", description: "Summary has been populated." });
       } else {
         toast({ title: "AI Summary Failed", description: "Could not generate summary.", variant: "destructive" });
@@ -549,12 +617,6 @@ export function ProductFormClient({ product: existingProduct }: ProductFormClien
     form.setValue("marketingSEO.keywords", newKeywords, { shouldValidate: true, shouldDirty: true });
   };
 
-  const categories = form.watch("attributesAndSpecs.categories") || [];
-  const handleCategoriesChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const newCategories = e.target.value.split(',').map(c => c.trim()).filter(c => c !== "");
-    form.setValue("attributesAndSpecs.categories", newCategories, { shouldValidate: true, shouldDirty: true });
-  };
-
   const generateVariants = () => {
     const options = form.getValues("options");
     if (!options || options.length === 0) {
@@ -631,7 +693,7 @@ export function ProductFormClient({ product: existingProduct }: ProductFormClien
               <div className="flex items-center gap-2 mb-1">
                 <button type="button" onClick={() => router.back()} className="text-[#5e8787] text-xs font-medium hover:text-[#2f7979] transition-colors">Products</button>
                 <span className="text-[#5e8787] text-xs">/</span>
-                <span className="text-[#111818] dark:text-white text-xs font-semibold">{existingProduct ? form.watch("basicInfo.name").en || "Edit Product" : "Create New Product"}</span>
+                <span className="text-[#111818] dark:text-white text-xs font-semibold">{existingProduct ? displayText(form.watch("basicInfo.name")) || "Edit Product" : "Create New Product"}</span>
               </div>
               <div className="flex items-center gap-3">
                 <h2 className="text-[#111818] dark:text-white text-xl font-bold tracking-tight">{existingProduct ? "Edit Product" : "Create New Product"}</h2>
@@ -653,7 +715,7 @@ export function ProductFormClient({ product: existingProduct }: ProductFormClien
               
               <Tabs defaultValue="basic-info" className="flex flex-col gap-6 w-full font-sans">
                 <TabsList className="bg-transparent p-0 flex border-b border-[#eaf0f0] gap-8 rounded-none h-auto w-full justify-start overflow-x-auto">
-                  {['basic-info', 'media', 'variants', 'seo'].map((tab) => (
+                  {['basic-info', 'media', 'variants', 'bundle', 'seo', 'channels'].map((tab) => (
                     <TabsTrigger
                       key={tab}
                       value={tab}
@@ -673,7 +735,7 @@ export function ProductFormClient({ product: existingProduct }: ProductFormClien
                           <FormItem className="lg:col-span-2">
                             <FormLabel className="text-[#111818] font-semibold">Product Name <span className="text-red-500">*</span></FormLabel>
                             <FormControl>
-                              <MultilingualInput id="name" label="" {...field} value={{ en: field.value?.en || '', no: field.value?.no || '' }} />
+                              <MultilingualInput id="name" label="" {...field} value={toMultilingualString(field.value)} onTranslate={(mode) => handleTranslateField("basicInfo.name", mode)} isTranslating={translatingField === "basicInfo.name"} />
                             </FormControl>
                             <FormMessage />
                           </FormItem>
@@ -732,7 +794,7 @@ export function ProductFormClient({ product: existingProduct }: ProductFormClien
                               </Button>
                             </FormLabel>
                             <FormControl>
-                              <MultilingualInput id="descriptionShort" label="" type="textarea" {...field} value={{ en: field.value?.en || '', no: field.value?.no || '' }} />
+                              <MultilingualInput id="descriptionShort" label="" type="textarea" {...field} value={toMultilingualString(field.value)} onTranslate={(mode) => handleTranslateField("basicInfo.descriptionShort", mode)} isTranslating={translatingField === "basicInfo.descriptionShort"} />
                             </FormControl>
                             <FormMessage />
                           </FormItem>
@@ -741,7 +803,7 @@ export function ProductFormClient({ product: existingProduct }: ProductFormClien
                           <FormItem>
                             <FormLabel className="text-[#111818] font-semibold">Long Description <span className="text-red-500">*</span></FormLabel>
                             <FormControl>
-                              <MultilingualInput id="descriptionLong" label="" type="textarea" {...field} value={{ en: field.value?.en || '', no: field.value?.no || '' }} />
+                              <MultilingualInput id="descriptionLong" label="" type="textarea" {...field} value={toMultilingualString(field.value)} onTranslate={(mode) => handleTranslateField("basicInfo.descriptionLong", mode)} isTranslating={translatingField === "basicInfo.descriptionLong"} />
                             </FormControl>
                             <FormMessage />
                           </FormItem>
@@ -754,8 +816,10 @@ export function ProductFormClient({ product: existingProduct }: ProductFormClien
                     <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
                       <FormField control={form.control} name="pricingAndStock.standardPriceAmount" render={({ field }) => (
                           <FormItem>
-                            <FormLabel className="text-[#111818] font-semibold">Standard Price <span className="text-red-500">*</span></FormLabel>
+                            <FormLabel className="text-[#111818] font-semibold">Standard Price {!isComputedBundle && <span className="text-red-500">*</span>}</FormLabel>
                             <FormControl><Input type="number" placeholder="0.00" className="border-[#eaf0f0] focus:ring-[#2f7979]/20" {...field} value={field.value ?? ''} onChange={e => field.onChange(e.target.value === '' ? undefined : parseFloat(e.target.value))} /></FormControl>
+                            {isComputedBundle && <FormDescription>Computed from the bundle components when exported.</FormDescription>}
+                            {standardPriceValidity && <FormDescription>{standardPriceValidity}</FormDescription>}
                             <FormMessage />
                           </FormItem>
                         )} />
@@ -770,6 +834,7 @@ export function ProductFormClient({ product: existingProduct }: ProductFormClien
                           <FormItem>
                             <FormLabel className="text-[#111818] font-semibold">Sale Price</FormLabel>
                             <FormControl><Input type="number" placeholder="0.00" className="border-[#eaf0f0] focus:ring-[#2f7979]/20" {...field} value={field.value ?? ''} onChange={e => field.onChange(e.target.value === '' ? undefined : parseFloat(e.target.value))} /></FormControl>
+                            {salePriceValidity && <FormDescription>{salePriceValidity}</FormDescription>}
                             <FormMessage />
                           </FormItem>
                         )} />
@@ -779,10 +844,33 @@ export function ProductFormClient({ product: existingProduct }: ProductFormClien
                   <div className="bg-white border border-[#eaf0f0] rounded-xl p-8 shadow-sm">
                     <h3 className="text-lg font-bold mb-6 text-[#111818]">Attributes & Specifications</h3>
                     <div className="space-y-6">
+                      <FormField control={form.control} name="attributesAndSpecs.familyId" render={({ field }) => (
+                          <FormItem>
+                            <FormLabel className="text-[#111818] font-semibold">Attribute Family</FormLabel>
+                            <Select value={field.value || NO_FAMILY} onValueChange={(value) => field.onChange(value === NO_FAMILY ? '' : value)}>
+                              <FormControl><SelectTrigger className="border-[#eaf0f0] focus:ring-[#2f7979]/20"><SelectValue /></SelectTrigger></FormControl>
+                              <SelectContent>
+                                <SelectItem value={NO_FAMILY}>(No family)</SelectItem>
+                                {attributeFamilies.map(family => (
+                                  <SelectItem key={family.id} value={family.id}>{family.name.en || family.name.no || family.code}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <FormDescription>The family defines which typed attributes this product needs and how its completeness is scored.</FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )} />
+                      {selectedFamily && (
+                        <Controller control={form.control} name="attributesAndSpecs.attributeValues" render={({ field }) => (
+                            <div className="border border-[#eaf0f0] rounded-xl p-4 bg-[#f9fbfb]">
+                              <AttributeValuesEditor family={selectedFamily} values={field.value || {}} onChange={field.onChange} />
+                            </div>
+                          )} />
+                      )}
                       <FormField control={form.control} name="attributesAndSpecs.categories" render={({ field }) => (
                           <FormItem>
                             <FormLabel className="text-[#111818] font-semibold">Categories</FormLabel>
-                            <FormControl><Input placeholder="e.g. Electronics, Audio (comma-separated)" className="border-[#eaf0f0] focus:ring-[#2f7979]/20" value={categories.join(', ')} onChange={handleCategoriesChange} /></FormControl>
+                            <FormControl><CategoryPicker categories={categoryTaxonomy} value={field.value || []} onChange={(ids) => form.setValue("attributesAndSpecs.categories", ids, { shouldValidate: true, shouldDirty: true })} /></FormControl>
                             <FormMessage />
                           </FormItem>
                         )} />
@@ -805,7 +893,7 @@ export function ProductFormClient({ product: existingProduct }: ProductFormClien
                   <div className="bg-white border border-[#eaf0f0] rounded-xl p-8 shadow-sm">
                     <h3 className="text-lg font-bold mb-6 text-[#111818] flex items-center gap-2"><ImageIconLucide className="text-[#2f7979] w-5 h-5"/> Manage Product Assets</h3>
                     <Controller control={form.control} name="media.images" render={({ field }) => (
-                          <MediaEditor label="Images" entries={(field.value || []).map(img => ({ ...img, url: img.url || '', altText: img.altText ? { en: img.altText.en || '', no: img.altText.no || '' } : undefined }))} onChange={field.onChange} allowedTypes={['image']} />
+                          <MediaEditor label="Images" entries={(field.value || []).map(img => ({ ...img, url: img.url || '', altText: img.altText ? toMultilingualString(img.altText) : undefined }))} onChange={field.onChange} allowedTypes={['image']} />
                       )} />
                       {form.formState.errors.media?.images && (<FormMessage className="mt-2 text-red-500">{typeof form.formState.errors.media.images === 'string' ? form.formState.errors.media.images : 'Error in media images.'}</FormMessage>)}
                   </div>
@@ -900,6 +988,40 @@ export function ProductFormClient({ product: existingProduct }: ProductFormClien
                   </div>
                 </TabsContent>
 
+                {/* BUNDLE TAB */}
+                <TabsContent value="bundle" className="focus-visible:outline-none focus-visible:ring-0 mt-2 space-y-6">
+                  <div className="bg-white border border-[#eaf0f0] rounded-xl p-8 shadow-sm">
+                    <h3 className="text-lg font-bold mb-6 text-[#111818]"><Boxes className="inline-block mr-2 w-5 h-5 text-[#2f7979]"/> Bundle / Kit</h3>
+                    <div className="space-y-6">
+                      <FormField control={form.control} name="productType" render={({ field }) => (
+                          <FormItem className="max-w-sm">
+                            <FormLabel className="text-[#111818] font-semibold">Product Type</FormLabel>
+                            <Select value={field.value} onValueChange={field.onChange}>
+                              <FormControl><SelectTrigger className="border-[#eaf0f0] focus:ring-[#2f7979]/20"><SelectValue /></SelectTrigger></FormControl>
+                              <SelectContent>
+                                <SelectItem value="simple">Single product</SelectItem>
+                                <SelectItem value="bundle">Bundle of other products</SelectItem>
+                              </SelectContent>
+                            </Select>
+                            <FormDescription>A bundle is sold as one product made up of other products or variants, e.g. a camera kit.</FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )} />
+                      {productType === 'bundle' && (
+                        <Controller control={form.control} name="bundle" render={({ field }) => (
+                          <BundleEditor
+                            productId={existingProduct?.id}
+                            value={(field.value || emptyBundleDefinition()) as BundleDefinition}
+                            onChange={field.onChange}
+                            products={allProducts}
+                            displayText={displayText}
+                          />
+                        )} />
+                      )}
+                    </div>
+                  </div>
+                </TabsContent>
+
                 {/* SEO TAB */}
                 <TabsContent value="seo" className="focus-visible:outline-none focus-visible:ring-0 mt-2 space-y-6">
                   <div className="bg-white border border-[#eaf0f0] rounded-xl p-8 shadow-sm">
@@ -908,14 +1030,14 @@ export function ProductFormClient({ product: existingProduct }: ProductFormClien
                       <FormField control={form.control} name="marketingSEO.seoTitle" render={({ field }) => (
                           <FormItem>
                             <FormLabel className="text-[#111818] font-semibold">SEO Title</FormLabel>
-                            <FormControl><MultilingualInput id="seoTitle" label="" {...field} value={{ en: field.value?.en || '', no: field.value?.no || '' }} /></FormControl>
+                            <FormControl><MultilingualInput id="seoTitle" label="" {...field} value={toMultilingualString(field.value)} onTranslate={(mode) => handleTranslateField("marketingSEO.seoTitle", mode)} isTranslating={translatingField === "marketingSEO.seoTitle"} /></FormControl>
                             <FormMessage />
                           </FormItem>
                         )} />
                       <FormField control={form.control} name="marketingSEO.seoDescription" render={({ field }) => (
                           <FormItem>
                             <FormLabel className="text-[#111818] font-semibold">SEO Description</FormLabel>
-                            <FormControl><MultilingualInput id="seoDescription" label="" type="textarea" {...field} value={{ en: field.value?.en || '', no: field.value?.no || '' }} /></FormControl>
+                            <FormControl><MultilingualInput id="seoDescription" label="" type="textarea" {...field} value={toMultilingualString(field.value)} onTranslate={(mode) => handleTranslateField("marketingSEO.seoDescription", mode)} isTranslating={translatingField === "marketingSEO.seoDescription"} /></FormControl>
                             <FormMessage />
                           </FormItem>
                         )} />
@@ -938,7 +1060,7 @@ export function ProductFormClient({ product: existingProduct }: ProductFormClien
                     <FormField control={form.control} name="aiSummary" render={({ field }) => (
                         <FormItem>
                           <FormControl>
-                            <MultilingualInput id="aiSummary" label="" type="textarea" disabled={true} value={{ en: field.value?.en || '', no: field.value?.no || '' }} onChange={field.onChange} />
+                            <MultilingualInput id="aiSummary" label="" type="textarea" disabled={true} value={toMultilingualString(field.value)} onChange={field.onChange} />
                           </FormControl>
                           <FormMessage />
                         </FormItem>
@@ -946,6 +1068,30 @@ export function ProductFormClient({ product: existingProduct }: ProductFormClien
                   </div>
                 </TabsContent>
 
+                {/* CHANNELS TAB */}
+                <TabsContent value="channels" className="focus-visible:outline-none focus-visible:ring-0 mt-2 space-y-6">
+                  <div className="bg-white border border-[#eaf0f0] rounded-xl p-8 shadow-sm">
+                    <h3 className="text-lg font-bold mb-6 text-[#111818]"><Radio className="inline-block mr-2 w-5 h-5 text-[#2f7979]"/> Channel Overrides</h3>
+                    <Controller control={form.control} name="channelOverrides" render={({ field }) => (
+                      <ChannelOverridesEditor
+                        channels={channels}
+                        overrides={(field.value || {}) as ChannelOverrides}
+                        onChange={field.onChange}
+                        base={{
+                          name: form.watch("basicInfo.name") as MultilingualString,
+                          descriptionShort: form.watch("basicInfo.descriptionShort") as MultilingualString,
+                          descriptionLong: form.watch("basicInfo.descriptionLong") as MultilingualString,
+                          seoTitle: form.watch("marketingSEO.seoTitle") as MultilingualString,
+                          seoDescription: form.watch("marketingSEO.seoDescription") as MultilingualString,
+                          keywords: form.watch("marketingSEO.keywords") || [],
+                          standardPrice: existingProduct?.pricingAndStock?.standardPrice?.[0],
+                          salePrice: existingProduct?.pricingAndStock?.salePrice?.[0],
+                        }}
+                      />
+                    )} />
+                  </div>
+                </TabsContent>
+
               </Tabs>
             </div>
           </div>
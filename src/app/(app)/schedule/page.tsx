@@ -0,0 +1,262 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import {
+  addDays,
+  addMonths,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameDay,
+  isSameMonth,
+  isToday,
+  startOfMonth,
+  startOfWeek,
+  subMonths,
+} from 'date-fns';
+import type { ScheduledAction, ScheduledActionStatus } from '@/types/schedule';
+import { SCHEDULED_ACTION_LABELS, SCHEDULED_ACTION_STATUS_LABELS } from '@/types/schedule';
+import { useScheduleStore } from '@/lib/schedule-store';
+import { useLocaleStore } from '@/lib/locale-store';
+import { resolveLocalizedText } from '@/lib/locales';
+import { useAuth } from '@/context/auth-context';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { CalendarClock, ChevronLeft, ChevronRight, Play, XCircle } from 'lucide-react';
+
+const WEEK_OPTIONS = { weekStartsOn: 1 as const };
+
+const STATUS_BADGE_CLASSES: Record<ScheduledActionStatus, string> = {
+  pending: 'bg-blue-100 text-blue-800 border-blue-200',
+  completed: 'bg-green-100 text-green-800 border-green-200',
+  skipped: 'bg-gray-100 text-gray-800 border-gray-200',
+  failed: 'bg-red-100 text-red-800 border-red-200',
+  cancelled: 'bg-yellow-100 text-yellow-800 border-yellow-200',
+};
+
+export default function SchedulePage() {
+  const { actions, isLoading, error, fetchSchedule, cancelAction, runDueActions } = useScheduleStore();
+  const { settings: localeSettings, ensureLoaded: ensureLocalesLoaded } = useLocaleStore();
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const [month, setMonth] = useState(() => startOfMonth(new Date()));
+  const [selectedDay, setSelectedDay] = useState(() => new Date());
+  const [cancelling, setCancelling] = useState<ScheduledAction | null>(null);
+  const [cancelReason, setCancelReason] = useState('');
+  const [isRunning, setIsRunning] = useState(false);
+
+  const isAdmin = user?.role?.toLowerCase() === 'admin';
+  const days = eachDayOfInterval({
+    start: startOfWeek(startOfMonth(month), WEEK_OPTIONS),
+    end: endOfWeek(endOfMonth(month), WEEK_OPTIONS),
+  });
+
+  useEffect(() => {
+    ensureLocalesLoaded();
+  }, [ensureLocalesLoaded]);
+
+  useEffect(() => {
+    // Load the whole visible grid, including the days of the neighbouring months
+    fetchSchedule(days[0].toISOString(), addDays(days[days.length - 1], 1).toISOString());
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [month]);
+
+  const actionsOn = (day: Date) => actions.filter(action => isSameDay(new Date(action.runAt), day));
+  const selectedActions = actionsOn(selectedDay);
+  const productName = (action: ScheduledAction) =>
+    resolveLocalizedText(action.productName, localeSettings.defaultLocale, localeSettings) || action.sku;
+
+  const handleCancel = async () => {
+    if (!cancelling) return;
+    try {
+      await cancelAction(cancelling.id, cancelReason.trim() || undefined);
+      toast({ title: 'Scheduled action cancelled' });
+    } catch (error) {
+      toast({ title: 'Cancelling failed', description: (error as Error).message, variant: 'destructive' });
+    } finally {
+      setCancelling(null);
+      setCancelReason('');
+    }
+  };
+
+  const handleRun = async () => {
+    setIsRunning(true);
+    try {
+      const summary = await runDueActions();
+      toast({
+        title: `${summary.completed} scheduled actions completed`,
+        description: [
+          summary.waiting > 0 && `${summary.waiting} waiting for approval`,
+          summary.skipped > 0 && `${summary.skipped} skipped`,
+          summary.failed > 0 && `${summary.failed} failed`,
+        ].filter(Boolean).join(', ') || undefined,
+        variant: summary.failed > 0 ? 'destructive' : undefined,
+      });
+    } catch (error) {
+      toast({ title: 'Running scheduled actions failed', description: (error as Error).message, variant: 'destructive' });
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <div className="container mx-auto py-8 space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold text-primary flex items-center gap-2">
+          <CalendarClock className="h-7 w-7" /> Schedule
+        </h1>
+        {isAdmin && (
+          <Button variant="outline" onClick={handleRun} disabled={isRunning}>
+            <Play className="mr-2 h-4 w-4" />
+            {isRunning ? 'Running...' : 'Run due actions now'}
+          </Button>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <div>
+            <CardTitle>{format(month, 'MMMM yyyy')}</CardTitle>
+            <CardDescription>
+              Launches, end dates, sale prices and campaigns. Launches run once the product is approved.
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="icon" aria-label="Previous month" onClick={() => setMonth(subMonths(month, 1))}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" onClick={() => { setMonth(startOfMonth(new Date())); setSelectedDay(new Date()); }}>
+              Today
+            </Button>
+            <Button variant="outline" size="icon" aria-label="Next month" onClick={() => setMonth(addMonths(month, 1))}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {error && <p className="text-sm text-destructive">{error}</p>}
+          <div className="grid grid-cols-7 gap-px rounded-md border bg-border overflow-hidden">
+            {days.slice(0, 7).map(day => (
+              <div key={day.toISOString()} className="bg-muted px-2 py-1 text-xs font-medium text-muted-foreground">
+                {format(day, 'EEE')}
+              </div>
+            ))}
+            {days.map(day => {
+              const dayActions = actionsOn(day);
+              return (
+                <button
+                  key={day.toISOString()}
+                  type="button"
+                  onClick={() => setSelectedDay(day)}
+                  className={`min-h-24 bg-background p-2 text-left align-top hover:bg-accent ${
+                    isSameMonth(day, month) ? '' : 'text-muted-foreground'
+                  } ${isSameDay(day, selectedDay) ? 'ring-2 ring-inset ring-primary' : ''}`}
+                >
+                  <span className={`text-sm ${isToday(day) ? 'font-bold text-primary' : ''}`}>{format(day, 'd')}</span>
+                  <div className="mt-1 space-y-1">
+                    {dayActions.slice(0, 3).map(action => (
+                      <div
+                        key={action.id}
+                        className={`truncate rounded border px-1 text-xs ${STATUS_BADGE_CLASSES[action.status]}`}
+                      >
+                        {SCHEDULED_ACTION_LABELS[action.type]} · {action.sku}
+                      </div>
+                    ))}
+                    {dayActions.length > 3 && (
+                      <div className="text-xs text-muted-foreground">+{dayActions.length - 3} more</div>
+                    )}
+                  </div>
+                </button>
+              );
+            })}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{format(selectedDay, 'EEEE d MMMM yyyy')}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading schedule...</p>
+          ) : selectedActions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nothing scheduled on this day.</p>
+          ) : (
+            <ul className="divide-y">
+              {selectedActions.map(action => (
+                <li key={action.id} className="flex items-start justify-between gap-4 py-3">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm text-muted-foreground">{format(new Date(action.runAt), 'HH:mm')}</span>
+                      <span className="font-medium">
+                        {SCHEDULED_ACTION_LABELS[action.type]}{action.targetLabel && ` ${action.targetLabel}`}
+                      </span>
+                      <Badge variant="outline" className={STATUS_BADGE_CLASSES[action.status]}>
+                        {SCHEDULED_ACTION_STATUS_LABELS[action.status]}
+                      </Badge>
+                    </div>
+                    <Link href={`/products/${action.productId}`} className="text-sm hover:underline">
+                      {productName(action)} <span className="font-mono text-xs text-muted-foreground">{action.sku}</span>
+                    </Link>
+                    {action.note && <p className="text-xs text-muted-foreground">{action.note}</p>}
+                    {action.recordedAt && (
+                      <p className="text-xs text-muted-foreground">
+                        {SCHEDULED_ACTION_STATUS_LABELS[action.status]} {format(new Date(action.recordedAt), 'd MMM yyyy HH:mm')}
+                        {action.recordedBy?.userName && ` by ${action.recordedBy.userName}`}
+                      </p>
+                    )}
+                  </div>
+                  {isAdmin && action.status === 'pending' && (
+                    <Button variant="outline" size="sm" onClick={() => setCancelling(action)}>
+                      <XCircle className="mr-1 h-4 w-4" /> Cancel
+                    </Button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={!!cancelling} onOpenChange={(open) => { if (!open) { setCancelling(null); setCancelReason(''); } }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Cancel scheduled action</AlertDialogTitle>
+            <AlertDialogDescription>
+              {cancelling && `${SCHEDULED_ACTION_LABELS[cancelling.type]} ${cancelling.targetLabel || ''} for ${cancelling.sku} on ${format(new Date(cancelling.runAt), 'd MMM yyyy HH:mm')} will not run. `}
+              Changing the date on the product schedules it again.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="cancel-reason">Reason (optional)</Label>
+            <Textarea id="cancel-reason" value={cancelReason} rows={2} onChange={(e) => setCancelReason(e.target.value)} />
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep</AlertDialogCancel>
+            <AlertDialogAction onClick={handleCancel} className="bg-destructive hover:bg-destructive/90">
+              Cancel action
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,261 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import type { ApiKeyScope, ApiKeySummary } from '@/types/api-key';
+import { API_KEY_SCOPES, API_KEY_SCOPE_LABELS, DEFAULT_API_KEY_RATE_LIMIT } from '@/types/api-key';
+import { useApiKeyStore } from '@/lib/api-key-store';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Badge } from '@/components/ui/badge';
+import { Breadcrumb } from '@/components/ui/breadcrumb';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { Copy, ExternalLink, KeyRound, PlusCircle, Trash2 } from 'lucide-react';
+
+const SCOPE_DESCRIPTIONS: Record<ApiKeyScope, string> = {
+  read: 'Read products, categories, media and workflow state',
+  write: 'Create, update and delete; submit products for review',
+  publish: 'Approve, reject, publish and unpublish products',
+  storefront: 'Query published products through the GraphQL API',
+};
+
+const formatDate = (value: string | undefined) => (value ? format(new Date(value), 'yyyy-MM-dd HH:mm') : '—');
+
+export default function ApiKeysPage() {
+  const { keys, isLoading, error, fetchKeys, createKey, revokeKey } = useApiKeyStore();
+  const { toast } = useToast();
+
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(['read']);
+  const [maxRequests, setMaxRequests] = useState(String(DEFAULT_API_KEY_RATE_LIMIT.maxRequests));
+  const [expiresOn, setExpiresOn] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+  const [secret, setSecret] = useState<string | null>(null);
+  const [revoking, setRevoking] = useState<ApiKeySummary | null>(null);
+
+  useEffect(() => {
+    fetchKeys();
+  }, [fetchKeys]);
+
+  const toggleScope = (scope: ApiKeyScope, checked: boolean) => {
+    setScopes(checked ? API_KEY_SCOPES.filter(s => s === scope || scopes.includes(s)) : scopes.filter(s => s !== scope));
+  };
+
+  const requestsPerMinute = parseInt(maxRequests, 10);
+  const canCreate = name.trim().length > 0 && scopes.length > 0 && requestsPerMinute > 0;
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    try {
+      const created = await createKey({
+        name: name.trim(),
+        scopes,
+        rateLimit: { maxRequests: requestsPerMinute, windowMs: DEFAULT_API_KEY_RATE_LIMIT.windowMs },
+        expiresAt: expiresOn ? new Date(`${expiresOn}T23:59:59`).toISOString() : undefined,
+      });
+      setSecret(created.secret);
+      setName('');
+      setScopes(['read']);
+      setExpiresOn('');
+    } catch (error) {
+      toast({ title: 'Creating the API key failed', description: (error as Error).message, variant: 'destructive' });
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!revoking) return;
+    try {
+      await revokeKey(revoking.id);
+      toast({ title: `API key "${revoking.name}" revoked` });
+    } catch (error) {
+      toast({ title: 'Revoking the API key failed', description: (error as Error).message, variant: 'destructive' });
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  const copySecret = async () => {
+    if (!secret) return;
+    await navigator.clipboard.writeText(secret);
+    toast({ title: 'API key copied' });
+  };
+
+  const getKeyStatus = (key: ApiKeySummary) => {
+    if (key.revokedAt) return <Badge variant="destructive">Revoked</Badge>;
+    if (key.expiresAt && new Date(key.expiresAt) <= new Date()) return <Badge variant="secondary">Expired</Badge>;
+    return <Badge variant="outline" className="border-[#2f7979] text-[#2f7979]">Active</Badge>;
+  };
+
+  return (
+    <div className="container mx-auto py-8 space-y-6">
+      <div className="space-y-1">
+        <Breadcrumb items={[
+          { label: 'Settings', href: '/settings' },
+          { label: 'API Keys' }
+        ]} />
+        <div className="flex items-center justify-between">
+          <h1 className="text-3xl font-bold text-primary flex items-center gap-2">
+            <KeyRound className="h-7 w-7" /> API Keys
+          </h1>
+          <Button variant="outline" asChild>
+            <a href="/api/v1/openapi.json" target="_blank" rel="noreferrer">
+              <ExternalLink className="mr-2 h-4 w-4" /> OpenAPI spec
+            </a>
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Create API key</CardTitle>
+          <CardDescription>
+            Integrations call the /api/v1 routes with a key sent as <code>Authorization: Bearer &lt;key&gt;</code> or
+            in the <code>X-API-Key</code> header. Changes made with a key show the key&apos;s name in product history
+            and the audit trail. Keys only work on this tenant&apos;s address, but products are shared by all tenants,
+            so a key can read and change every product its scopes allow.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-end gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="api-key-name">Name</Label>
+              <Input id="api-key-name" className="w-64" value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. Webshop sync" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="api-key-limit">Requests per minute</Label>
+              <Input id="api-key-limit" className="w-32" type="number" min={1} value={maxRequests} onChange={(e) => setMaxRequests(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="api-key-expiry">Expires on (optional)</Label>
+              <Input id="api-key-expiry" className="w-44" type="date" value={expiresOn} onChange={(e) => setExpiresOn(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Scopes</Label>
+            {API_KEY_SCOPES.map(scope => (
+              <div key={scope} className="flex items-center gap-2">
+                <Checkbox
+                  id={`scope-${scope}`}
+                  checked={scopes.includes(scope)}
+                  onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                />
+                <Label htmlFor={`scope-${scope}`} className="font-normal">
+                  <span className="font-medium">{API_KEY_SCOPE_LABELS[scope]}</span>
+                  <span className="text-muted-foreground"> — {SCOPE_DESCRIPTIONS[scope]}</span>
+                </Label>
+              </div>
+            ))}
+          </div>
+
+          <Button onClick={handleCreate} disabled={!canCreate || isCreating}>
+            <PlusCircle className="mr-2 h-4 w-4" /> {isCreating ? 'Creating...' : 'Create key'}
+          </Button>
+
+          {secret && (
+            <div className="rounded-md border border-[#2f7979] bg-[#2f7979]/5 p-4 space-y-2">
+              <p className="text-sm font-medium text-[#111818]">Copy the key now. It cannot be shown again.</p>
+              <div className="flex items-center gap-2">
+                <Input readOnly value={secret} className="font-mono text-xs" aria-label="New API key" />
+                <Button variant="outline" size="icon" onClick={copySecret} aria-label="Copy API key">
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+              <Button variant="ghost" size="sm" onClick={() => setSecret(null)}>Done</Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Keys</CardTitle>
+          <CardDescription>Revoked keys stop working immediately and stay listed for reference.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+          {isLoading && keys.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Loading API keys...</p>
+          ) : keys.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No API keys yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Key</TableHead>
+                  <TableHead>Scopes</TableHead>
+                  <TableHead>Limit</TableHead>
+                  <TableHead>Created</TableHead>
+                  <TableHead>Last used</TableHead>
+                  <TableHead>Expires</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="w-12" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {keys.map(key => (
+                  <TableRow key={key.id}>
+                    <TableCell className="font-medium">{key.name}</TableCell>
+                    <TableCell className="font-mono text-xs">{key.prefix}…</TableCell>
+                    <TableCell className="space-x-1">
+                      {key.scopes.map(scope => <Badge key={scope} variant="secondary">{API_KEY_SCOPE_LABELS[scope]}</Badge>)}
+                    </TableCell>
+                    <TableCell className="text-sm">{key.rateLimit.maxRequests} / {Math.round(key.rateLimit.windowMs / 1000)}s</TableCell>
+                    <TableCell className="text-sm">
+                      {formatDate(key.createdAt)}
+                      {key.createdByName && <div className="text-xs text-muted-foreground">{key.createdByName}</div>}
+                    </TableCell>
+                    <TableCell className="text-sm">{formatDate(key.lastUsedAt)}</TableCell>
+                    <TableCell className="text-sm">{formatDate(key.expiresAt)}</TableCell>
+                    <TableCell>{getKeyStatus(key)}</TableCell>
+                    <TableCell>
+                      {!key.revokedAt && (
+                        <Button variant="ghost" size="icon" onClick={() => setRevoking(key)} aria-label={`Revoke ${key.name}`}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={!!revoking} onOpenChange={(open) => { if (!open) setRevoking(null); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Revoke API key</AlertDialogTitle>
+            <AlertDialogDescription>
+              Integrations using &quot;{revoking?.name}&quot; will get 401 responses from now on. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRevoke} className="bg-destructive hover:bg-destructive/90">
+              Revoke
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,321 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import type { IntegrationCredentialSummary, IntegrationType } from '@/types/integration-credential';
+import { INTEGRATION_CREDENTIAL_FIELDS, INTEGRATION_TYPE_LABELS, INTEGRATION_TYPES } from '@/types/integration-credential';
+import { useIntegrationCredentialStore } from '@/lib/integration-credential-store';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Badge } from '@/components/ui/badge';
+import { Breadcrumb } from '@/components/ui/breadcrumb';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { KeyRound, Plug, PlugZap, PlusCircle, Trash2 } from 'lucide-react';
+
+const formatDate = (value: string | undefined) => (value ? format(new Date(value), 'yyyy-MM-dd HH:mm') : '—');
+
+const secretFields = (type: IntegrationType) => INTEGRATION_CREDENTIAL_FIELDS[type].filter(field => field.secret);
+
+function getTestStatus(credential: IntegrationCredentialSummary) {
+  if (!credential.lastTest) return <span className="text-sm text-muted-foreground">Not tested</span>;
+  return (
+    <div className="space-y-1">
+      {credential.lastTest.ok
+        ? <Badge variant="outline" className="border-[#2f7979] text-[#2f7979]">Connected</Badge>
+        : <Badge variant="destructive">Failed</Badge>}
+      <div className="text-xs text-muted-foreground break-words">{credential.lastTest.message}</div>
+      <div className="text-xs text-muted-foreground">{formatDate(credential.lastTest.testedAt)}</div>
+    </div>
+  );
+}
+
+export default function IntegrationsPage() {
+  const {
+    credentials,
+    isLoading,
+    error,
+    fetchCredentials,
+    createCredential,
+    rotateCredential,
+    deleteCredential,
+    testConnection,
+  } = useIntegrationCredentialStore();
+  const { toast } = useToast();
+
+  const [type, setType] = useState<IntegrationType>('shopify');
+  const [name, setName] = useState('');
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [isCreating, setIsCreating] = useState(false);
+  const [testingId, setTestingId] = useState<string | null>(null);
+  const [rotating, setRotating] = useState<IntegrationCredentialSummary | null>(null);
+  const [rotatedSecrets, setRotatedSecrets] = useState<Record<string, string>>({});
+  const [deleting, setDeleting] = useState<IntegrationCredentialSummary | null>(null);
+
+  useEffect(() => {
+    fetchCredentials();
+  }, [fetchCredentials]);
+
+  const fields = INTEGRATION_CREDENTIAL_FIELDS[type];
+  const canCreate = name.trim().length > 0 && fields.every(field => values[field.key]?.trim());
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    try {
+      const credentials = Object.fromEntries(fields.map(field => [field.key, values[field.key].trim()]));
+      const created = await createCredential({ type, name: name.trim(), credentials });
+      setName('');
+      setValues({});
+      toast({ title: 'Integration added', description: `Test the connection of "${created.name}" to check the credentials.` });
+    } catch (error) {
+      toast({ title: 'Adding the integration failed', description: (error as Error).message, variant: 'destructive' });
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleTest = async (credential: IntegrationCredentialSummary) => {
+    setTestingId(credential.id);
+    try {
+      const test = await testConnection(credential.id);
+      toast({
+        title: test.ok ? 'Connection works' : 'Connection failed',
+        description: test.message,
+        variant: test.ok ? undefined : 'destructive',
+      });
+    } catch (error) {
+      toast({ title: 'Testing the connection failed', description: (error as Error).message, variant: 'destructive' });
+    } finally {
+      setTestingId(null);
+    }
+  };
+
+  const handleRotate = async () => {
+    if (!rotating) return;
+    try {
+      await rotateCredential(rotating.id, rotatedSecrets);
+      toast({ title: 'Credentials rotated', description: `"${rotating.name}" uses the new secrets from now on.` });
+      setRotating(null);
+    } catch (error) {
+      toast({ title: 'Rotating the credentials failed', description: (error as Error).message, variant: 'destructive' });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+    try {
+      await deleteCredential(deleting.id);
+      toast({ title: 'Integration deleted' });
+    } catch (error) {
+      toast({ title: 'Deleting the integration failed', description: (error as Error).message, variant: 'destructive' });
+    } finally {
+      setDeleting(null);
+    }
+  };
+
+  const openRotate = (credential: IntegrationCredentialSummary) => {
+    setRotatedSecrets({});
+    setRotating(credential);
+  };
+
+  return (
+    <div className="container mx-auto py-8 space-y-6">
+      <div className="space-y-1">
+        <Breadcrumb items={[
+          { label: 'Settings', href: '/settings' },
+          { label: 'Integrations' }
+        ]} />
+        <h1 className="text-3xl font-bold text-primary flex items-center gap-2">
+          <Plug className="h-7 w-7" /> Integrations
+        </h1>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Add integration</CardTitle>
+          <CardDescription>
+            Credentials are stored on the server. Secret fields are encrypted and cannot be shown again; imports,
+            exports and syncs pick an integration by name.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-end gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="integration-type">Type</Label>
+              <Select value={type} onValueChange={(next) => { setType(next as IntegrationType); setValues({}); }}>
+                <SelectTrigger id="integration-type" className="w-56"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {INTEGRATION_TYPES.map(option => (
+                    <SelectItem key={option} value={option}>{INTEGRATION_TYPE_LABELS[option]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="integration-name">Name</Label>
+              <Input id="integration-name" className="w-64" value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. Main store" />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+            {fields.map(field => (
+              <div key={field.key} className="space-y-2">
+                <Label htmlFor={`integration-${field.key}`}>{field.label}</Label>
+                <Input
+                  id={`integration-${field.key}`}
+                  type={field.secret ? 'password' : 'text'}
+                  autoComplete="off"
+                  value={values[field.key] || ''}
+                  onChange={(e) => setValues({ ...values, [field.key]: e.target.value })}
+                  placeholder={field.placeholder}
+                />
+              </div>
+            ))}
+          </div>
+
+          <Button onClick={handleCreate} disabled={!canCreate || isCreating}>
+            <PlusCircle className="mr-2 h-4 w-4" /> {isCreating ? 'Adding...' : 'Add integration'}
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Integrations</CardTitle>
+          <CardDescription>Rotate an integration after its token or client secret was replaced at the other end.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+          {isLoading && credentials.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Loading integrations...</p>
+          ) : credentials.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No integrations yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Settings</TableHead>
+                  <TableHead>Secrets</TableHead>
+                  <TableHead>Connection</TableHead>
+                  <TableHead className="w-32" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {credentials.map(credential => (
+                  <TableRow key={credential.id}>
+                    <TableCell>
+                      <div className="font-medium">{credential.name}</div>
+                      <div className="text-xs text-muted-foreground">{INTEGRATION_TYPE_LABELS[credential.type]}</div>
+                    </TableCell>
+                    <TableCell className="text-xs">
+                      {INTEGRATION_CREDENTIAL_FIELDS[credential.type].filter(field => !field.secret).map(field => (
+                        <div key={field.key}>
+                          <span className="text-muted-foreground">{field.label}:</span>{' '}
+                          <span className="font-mono break-all">{credential.settings[field.key]}</span>
+                        </div>
+                      ))}
+                    </TableCell>
+                    <TableCell className="text-xs">
+                      {secretFields(credential.type).map(field => (
+                        <div key={field.key}>
+                          <span className="text-muted-foreground">{field.label}:</span>{' '}
+                          <span className="font-mono">{credential.secretHints[field.key]}</span>
+                        </div>
+                      ))}
+                      <div className="text-muted-foreground">Rotated {formatDate(credential.rotatedAt || credential.createdAt)}</div>
+                    </TableCell>
+                    <TableCell>{getTestStatus(credential)}</TableCell>
+                    <TableCell className="flex gap-1">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleTest(credential)}
+                        disabled={testingId === credential.id}
+                        aria-label={`Test connection of ${credential.name}`}
+                      >
+                        <PlugZap className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => openRotate(credential)} aria-label={`Rotate ${credential.name}`}>
+                        <KeyRound className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => setDeleting(credential)} aria-label={`Delete ${credential.name}`}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!rotating} onOpenChange={(open) => { if (!open) setRotating(null); }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Rotate {rotating?.name}</DialogTitle>
+            <DialogDescription>
+              Enter the new secrets. The old ones are replaced and cannot be restored.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            {rotating && secretFields(rotating.type).map(field => (
+              <div key={field.key} className="space-y-2">
+                <Label htmlFor={`rotate-${field.key}`}>{field.label}</Label>
+                <Input
+                  id={`rotate-${field.key}`}
+                  type="password"
+                  autoComplete="off"
+                  value={rotatedSecrets[field.key] || ''}
+                  onChange={(e) => setRotatedSecrets({ ...rotatedSecrets, [field.key]: e.target.value })}
+                  placeholder={field.placeholder}
+                />
+              </div>
+            ))}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRotating(null)}>Cancel</Button>
+            <Button
+              onClick={handleRotate}
+              disabled={!rotating || !secretFields(rotating.type).every(field => rotatedSecrets[field.key]?.trim())}
+            >
+              Rotate
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => { if (!open) setDeleting(null); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete integration</AlertDialogTitle>
+            <AlertDialogDescription>
+              Imports, exports and syncs can no longer use &quot;{deleting?.name}&quot;. Its credentials are deleted from the server.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-destructive hover:bg-destructive/90">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
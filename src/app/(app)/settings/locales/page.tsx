@@ -0,0 +1,250 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { LocaleDefinition } from '@/types/locale';
+import { KNOWN_LOCALES } from '@/types/locale';
+import { useLocaleStore } from '@/lib/locale-store';
+import { validateLocaleSettings } from '@/lib/locales';
+import { Badge } from '@/components/ui/badge';
+import { Breadcrumb } from '@/components/ui/breadcrumb';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { Languages, PlusCircle, Save, Star, Trash2 } from 'lucide-react';
+
+interface LocalesDraft {
+  locales: LocaleDefinition[];
+  defaultLocale: string;
+  fallbacks: Record<string, string>; // Comma-separated locale codes while editing
+  requiredForPublish: string[];
+  glossary: string; // One term per line while editing
+}
+
+const parseChain = (value: string | undefined) => (value || '').split(',').map(code => code.trim()).filter(Boolean);
+
+export default function LocaleSettingsPage() {
+  const { settings, isLoaded, fetchSettings, updateSettings } = useLocaleStore();
+  const { toast } = useToast();
+
+  const [draft, setDraft] = useState<LocalesDraft | null>(null);
+  const [newCode, setNewCode] = useState('');
+  const [newName, setNewName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetchSettings();
+  }, [fetchSettings]);
+
+  useEffect(() => {
+    if (!isLoaded) return;
+    setDraft({
+      locales: settings.locales,
+      defaultLocale: settings.defaultLocale,
+      fallbacks: Object.fromEntries(Object.entries(settings.fallbacks).map(([code, chain]) => [code, chain.join(', ')])),
+      requiredForPublish: settings.requiredForPublish || [],
+      glossary: (settings.glossary || []).join('\n'),
+    });
+  }, [isLoaded, settings]);
+
+  if (!draft) {
+    return <div className="container mx-auto py-8"><p className="text-sm text-muted-foreground">Loading locale settings...</p></div>;
+  }
+
+  const input = {
+    locales: draft.locales,
+    defaultLocale: draft.defaultLocale,
+    fallbacks: Object.fromEntries(draft.locales.map(l => [l.code, parseChain(draft.fallbacks[l.code])])),
+    // Removed locales and the new default stop being required
+    requiredForPublish: draft.requiredForPublish.filter(code => code !== draft.defaultLocale && draft.locales.some(l => l.code === code)),
+    glossary: draft.glossary.split('\n').map(term => term.trim()).filter(Boolean),
+  };
+  const draftErrors = validateLocaleSettings(input);
+  const suggestions = KNOWN_LOCALES.filter(known => !draft.locales.some(l => l.code === known.code));
+
+  const addLocale = () => {
+    const code = newCode.trim();
+    const name = newName.trim() || KNOWN_LOCALES.find(l => l.code === code)?.name || '';
+    if (!code || draft.locales.some(l => l.code === code)) return;
+    setDraft({ ...draft, locales: [...draft.locales, { code, name }] });
+    setNewCode('');
+    setNewName('');
+  };
+
+  const removeLocale = (code: string) => {
+    const { [code]: _removed, ...fallbacks } = draft.fallbacks;
+    setDraft({ ...draft, locales: draft.locales.filter(l => l.code !== code), fallbacks });
+  };
+
+  const setRequired = (code: string, required: boolean) => {
+    const others = draft.requiredForPublish.filter(c => c !== code);
+    setDraft({ ...draft, requiredForPublish: required ? [...others, code] : others });
+  };
+
+  const renameLocale = (code: string, name: string) => {
+    setDraft({ ...draft, locales: draft.locales.map(l => (l.code === code ? { ...l, name } : l)) });
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await updateSettings(input);
+      toast({ title: 'Locale settings saved' });
+    } catch (error) {
+      toast({ title: 'Saving locale settings failed', description: (error as Error).message, variant: 'destructive' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="container mx-auto py-8 space-y-6">
+      <div className="space-y-1">
+        <Breadcrumb items={[
+          { label: 'Settings', href: '/settings' },
+          { label: 'Locales' }
+        ]} />
+        <div className="flex items-center justify-between">
+          <h1 className="text-3xl font-bold text-primary flex items-center gap-2">
+            <Languages className="h-7 w-7" /> Locales
+          </h1>
+          <Button onClick={handleSave} disabled={isSaving || draftErrors.length > 0}>
+            <Save className="mr-2 h-5 w-5" /> {isSaving ? 'Saving...' : 'Save'}
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Enabled locales</CardTitle>
+          <CardDescription>
+            Products are edited, imported and exported in these locales. An empty text falls back to the locales
+            listed for it, then to the default locale. Disabling a locale keeps its existing texts. Products can only
+            be published once their translations into required locales are approved.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-24">Code</TableHead>
+                <TableHead>Name</TableHead>
+                <TableHead>Falls back to</TableHead>
+                <TableHead className="w-40">Required to publish</TableHead>
+                <TableHead className="w-48" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {draft.locales.map(locale => {
+                const isDefault = locale.code === draft.defaultLocale;
+                return (
+                  <TableRow key={locale.code}>
+                    <TableCell className="font-mono">{locale.code}</TableCell>
+                    <TableCell>
+                      <Input value={locale.name} aria-label={`${locale.code} name`} onChange={(e) => renameLocale(locale.code, e.target.value)} />
+                    </TableCell>
+                    <TableCell>
+                      {isDefault ? (
+                        <span className="text-sm text-muted-foreground">—</span>
+                      ) : (
+                        <Input
+                          value={draft.fallbacks[locale.code] || ''}
+                          aria-label={`${locale.code} fallbacks`}
+                          placeholder={draft.defaultLocale}
+                          onChange={(e) => setDraft({ ...draft, fallbacks: { ...draft.fallbacks, [locale.code]: e.target.value } })}
+                        />
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {isDefault ? (
+                        <span className="text-sm text-muted-foreground">Source</span>
+                      ) : (
+                        <Checkbox
+                          checked={input.requiredForPublish.includes(locale.code)}
+                          aria-label={`Require ${locale.name} translations to publish`}
+                          onCheckedChange={(checked) => setRequired(locale.code, checked === true)}
+                        />
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right space-x-1">
+                      {isDefault ? (
+                        <Badge variant="secondary">Default</Badge>
+                      ) : (
+                        <Button variant="ghost" size="sm" onClick={() => setDraft({ ...draft, defaultLocale: locale.code })}>
+                          <Star className="mr-1 h-4 w-4" /> Make default
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => removeLocale(locale.code)}
+                        disabled={isDefault}
+                        aria-label={`Remove ${locale.name}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+
+          <div className="flex flex-wrap items-end gap-3">
+            <div className="space-y-2">
+              <Label>Add locale</Label>
+              <Select value="" onValueChange={(code) => { setNewCode(code); setNewName(KNOWN_LOCALES.find(l => l.code === code)?.name || ''); }}>
+                <SelectTrigger className="w-48"><SelectValue placeholder="Choose a locale" /></SelectTrigger>
+                <SelectContent>
+                  {suggestions.map(locale => <SelectItem key={locale.code} value={locale.code}>{locale.name} ({locale.code})</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="new-locale-code">Code</Label>
+              <Input id="new-locale-code" className="w-28" value={newCode} onChange={(e) => setNewCode(e.target.value)} placeholder="e.g. sv" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="new-locale-name">Name</Label>
+              <Input id="new-locale-name" className="w-48" value={newName} onChange={(e) => setNewName(e.target.value)} placeholder="e.g. Swedish" />
+            </div>
+            <Button variant="outline" onClick={addLocale} disabled={!newCode.trim()}>
+              <PlusCircle className="mr-2 h-4 w-4" /> Add
+            </Button>
+          </div>
+
+          {draftErrors.length > 0 && (
+            <ul className="text-sm text-destructive list-disc pl-5">
+              {draftErrors.map(error => <li key={error}>{error}</li>)}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Translation glossary</CardTitle>
+          <CardDescription>
+            Terms machine translation keeps as written, such as brand and product line names. Product SKUs and brands
+            are always kept.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <Label htmlFor="glossary">Protected terms (one per line)</Label>
+          <Textarea
+            id="glossary"
+            rows={6}
+            value={draft.glossary}
+            placeholder={'Pimify\nGore-Tex'}
+            onChange={(e) => setDraft({ ...draft, glossary: e.target.value })}
+          />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
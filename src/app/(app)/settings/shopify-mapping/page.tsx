@@ -0,0 +1,300 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import type { ShopifyMetafieldMapping, ShopifyMetafieldType, UpdateShopifyFieldMappingInput } from '@/types/shopify-field-mapping';
+import { SHOPIFY_MAPPING_FIELD_LABELS, SHOPIFY_METAFIELD_TYPE_LABELS } from '@/types/shopify-field-mapping';
+import { useAttributeFamilyStore } from '@/lib/attribute-family-store';
+import { useShopifyFieldMappingStore } from '@/lib/shopify-field-mapping-store';
+import {
+  canMapToShopifyProductType,
+  canMapToShopifyTags,
+  collectShopifyMappingAttributes,
+  getCompatibleMetafieldTypes,
+  getShopifyMappingSourceLabel,
+  isWritableShopifyMappingSource,
+  validateShopifyFieldMapping,
+  type ShopifyMappingAttributes,
+} from '@/lib/shopify-field-mapping';
+import { Breadcrumb } from '@/components/ui/breadcrumb';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { PlusCircle, Save, Tags, Trash2 } from 'lucide-react';
+
+// Sources that name one entry; the entry's name is typed after the prefix
+const ENTRY_PREFIXES = [
+  { prefix: 'spec:', label: 'Technical spec...' },
+  { prefix: 'property:', label: 'Property...' },
+];
+
+const entryPrefixOf = (source: string) => ENTRY_PREFIXES.find(({ prefix }) => source.startsWith(prefix))?.prefix;
+
+interface SourceInputProps {
+  id: string;
+  source: string;
+  attributes: ShopifyMappingAttributes;
+  onChange: (source: string) => void;
+  accepts?: (source: string) => boolean; // Hides fixed fields and attributes that cannot be used here
+}
+
+function SourceInput({ id, source, attributes, onChange, accepts = () => true }: SourceInputProps) {
+  const prefix = entryPrefixOf(source);
+  const fields = Object.keys(SHOPIFY_MAPPING_FIELD_LABELS).filter(accepts);
+  const attributeSources = Object.keys(attributes).map(code => `attribute:${code}`).filter(accepts);
+
+  return (
+    <div className="flex gap-2">
+      <Select value={prefix || source} onValueChange={onChange}>
+        <SelectTrigger id={id} className="w-56"><SelectValue placeholder="Choose a field" /></SelectTrigger>
+        <SelectContent>
+          {fields.map(field => <SelectItem key={field} value={field}>{getShopifyMappingSourceLabel(field)}</SelectItem>)}
+          {ENTRY_PREFIXES.map(entry => <SelectItem key={entry.prefix} value={entry.prefix}>{entry.label}</SelectItem>)}
+          {attributeSources.map(value => <SelectItem key={value} value={value}>{getShopifyMappingSourceLabel(value, attributes)}</SelectItem>)}
+        </SelectContent>
+      </Select>
+      {prefix && (
+        <Input
+          className="w-40"
+          aria-label="Entry name"
+          placeholder="e.g. Material"
+          value={source.slice(prefix.length)}
+          onChange={(e) => onChange(prefix + e.target.value)}
+        />
+      )}
+    </div>
+  );
+}
+
+export default function ShopifyMappingSettingsPage() {
+  const { settings, isLoaded, fetchSettings, updateSettings } = useShopifyFieldMappingStore();
+  const { families, fetchFamilies } = useAttributeFamilyStore();
+  const { toast } = useToast();
+
+  const [draft, setDraft] = useState<UpdateShopifyFieldMappingInput | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetchSettings();
+    fetchFamilies();
+  }, [fetchSettings, fetchFamilies]);
+
+  useEffect(() => {
+    if (!isLoaded) return;
+    setDraft({ metafields: settings.metafields, tags: settings.tags, productTypeSource: settings.productTypeSource });
+  }, [isLoaded, settings]);
+
+  const attributes = useMemo(() => collectShopifyMappingAttributes(families), [families]);
+
+  if (!draft) {
+    return <div className="container mx-auto py-8"><p className="text-sm text-muted-foreground">Loading Shopify mapping...</p></div>;
+  }
+
+  const draftErrors = validateShopifyFieldMapping(draft, attributes);
+
+  const updateMetafield = (id: string, changes: Partial<ShopifyMetafieldMapping>) => {
+    setDraft({
+      ...draft,
+      metafields: draft.metafields.map(mapping => {
+        if (mapping.id !== id) return mapping;
+        const updated = { ...mapping, ...changes };
+        // Keep a type the new source can be written to
+        const types = getCompatibleMetafieldTypes(updated.source, attributes);
+        return types.length > 0 && !types.includes(updated.type) ? { ...updated, type: types[0] } : updated;
+      }),
+    });
+  };
+
+  const addMetafield = () => {
+    setDraft({
+      ...draft,
+      metafields: [...draft.metafields, { id: uuidv4(), source: '', namespace: 'custom', key: '', type: 'single_line_text_field' }],
+    });
+  };
+
+  const addTag = () => {
+    setDraft({ ...draft, tags: [...draft.tags, { id: uuidv4(), source: '', prefix: '' }] });
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await updateSettings(draft);
+      toast({ title: 'Shopify mapping saved' });
+    } catch (error) {
+      toast({ title: 'Saving Shopify mapping failed', description: (error as Error).message, variant: 'destructive' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="container mx-auto py-8 space-y-6">
+      <div className="space-y-1">
+        <Breadcrumb items={[
+          { label: 'Settings', href: '/settings' },
+          { label: 'Shopify Mapping' }
+        ]} />
+        <div className="flex items-center justify-between">
+          <h1 className="text-3xl font-bold text-primary flex items-center gap-2">
+            <Tags className="h-7 w-7" /> Shopify Mapping
+          </h1>
+          <Button onClick={handleSave} disabled={isSaving || draftErrors.length > 0}>
+            <Save className="mr-2 h-5 w-5" /> {isSaving ? 'Saving...' : 'Save'}
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Product type</CardTitle>
+          <CardDescription>
+            The field Shopify&apos;s product type is exported from. Imports write the product type back into it, except
+            for categories.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <Label htmlFor="product-type-source">Product type from</Label>
+          <SourceInput
+            id="product-type-source"
+            source={draft.productTypeSource}
+            attributes={attributes}
+            onChange={(productTypeSource) => setDraft({ ...draft, productTypeSource })}
+            accepts={(source) => canMapToShopifyProductType(source, attributes)}
+          />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Metafields</CardTitle>
+          <CardDescription>
+            Fields written to product metafields on export and read back from them on import. Values are converted to the
+            metafield&apos;s type; products whose values do not fit it fail to export with a message naming the metafield.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {draft.metafields.length > 0 && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Field</TableHead>
+                  <TableHead>Namespace</TableHead>
+                  <TableHead>Key</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead className="w-12" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {draft.metafields.map(mapping => {
+                  const types = getCompatibleMetafieldTypes(mapping.source, attributes);
+                  return (
+                    <TableRow key={mapping.id}>
+                      <TableCell>
+                        <SourceInput
+                          id={`metafield-${mapping.id}-source`}
+                          source={mapping.source}
+                          attributes={attributes}
+                          onChange={(source) => updateMetafield(mapping.id, { source })}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input value={mapping.namespace} aria-label="Namespace" onChange={(e) => updateMetafield(mapping.id, { namespace: e.target.value })} />
+                      </TableCell>
+                      <TableCell>
+                        <Input value={mapping.key} aria-label="Key" placeholder="e.g. material" onChange={(e) => updateMetafield(mapping.id, { key: e.target.value })} />
+                      </TableCell>
+                      <TableCell>
+                        <Select value={mapping.type} onValueChange={(type) => updateMetafield(mapping.id, { type: type as ShopifyMetafieldType })}>
+                          <SelectTrigger className="w-52" aria-label="Type"><SelectValue /></SelectTrigger>
+                          <SelectContent>
+                            {(types.length > 0 ? types : [mapping.type]).map(type => (
+                              <SelectItem key={type} value={type}>{SHOPIFY_METAFIELD_TYPE_LABELS[type]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          aria-label="Remove metafield"
+                          onClick={() => setDraft({ ...draft, metafields: draft.metafields.filter(m => m.id !== mapping.id) })}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+          <Button variant="outline" onClick={addMetafield}>
+            <PlusCircle className="mr-2 h-4 w-4" /> Add metafield
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Tags</CardTitle>
+          <CardDescription>
+            Fields exported as one tag per value. Tags with a prefix, e.g. &quot;Material:Oak&quot;, are read back into the
+            field on import; tags without one are only exported.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {draft.tags.map(mapping => (
+            <div key={mapping.id} className="flex flex-wrap items-end gap-3">
+              <div className="space-y-2">
+                <Label htmlFor={`tag-${mapping.id}-source`}>Field</Label>
+                <SourceInput
+                  id={`tag-${mapping.id}-source`}
+                  source={mapping.source}
+                  attributes={attributes}
+                  accepts={(source) => canMapToShopifyTags(source, attributes)}
+                  onChange={(source) => setDraft({ ...draft, tags: draft.tags.map(t => (t.id === mapping.id ? { ...t, source } : t)) })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor={`tag-${mapping.id}-prefix`}>Prefix</Label>
+                <Input
+                  id={`tag-${mapping.id}-prefix`}
+                  className="w-40"
+                  placeholder="e.g. Material"
+                  value={mapping.prefix || ''}
+                  onChange={(e) => setDraft({ ...draft, tags: draft.tags.map(t => (t.id === mapping.id ? { ...t, prefix: e.target.value } : t)) })}
+                />
+              </div>
+              {mapping.source && (!mapping.prefix || !isWritableShopifyMappingSource(mapping.source, attributes)) && (
+                <p className="text-xs text-muted-foreground pb-3">Export only</p>
+              )}
+              <Button
+                variant="ghost"
+                size="icon"
+                aria-label="Remove tag mapping"
+                onClick={() => setDraft({ ...draft, tags: draft.tags.filter(t => t.id !== mapping.id) })}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button variant="outline" onClick={addTag}>
+            <PlusCircle className="mr-2 h-4 w-4" /> Add tag mapping
+          </Button>
+        </CardContent>
+      </Card>
+
+      {draftErrors.length > 0 && (
+        <ul className="text-sm text-destructive list-disc pl-5">
+          {draftErrors.map(error => <li key={error}>{error}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+}
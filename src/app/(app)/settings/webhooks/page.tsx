@@ -0,0 +1,358 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import type { WebhookDelivery, WebhookEndpointSummary, WebhookEventType } from '@/types/webhook';
+import { WEBHOOK_EVENT_LABELS, WEBHOOK_EVENT_TYPES } from '@/types/webhook';
+import { useWebhookStore } from '@/lib/webhook-store';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Badge } from '@/components/ui/badge';
+import { Breadcrumb } from '@/components/ui/breadcrumb';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { Copy, PlusCircle, RefreshCw, RotateCcw, Trash2, Webhook } from 'lucide-react';
+
+const ALL_ENDPOINTS = 'all';
+
+const formatDate = (value: string | undefined) => (value ? format(new Date(value), 'yyyy-MM-dd HH:mm:ss') : '—');
+
+function getDeliveryStatus(delivery: WebhookDelivery) {
+  if (delivery.status === 'succeeded') {
+    return <Badge variant="outline" className="border-[#2f7979] text-[#2f7979]">Delivered</Badge>;
+  }
+  if (delivery.status === 'failed') return <Badge variant="destructive">Failed</Badge>;
+  return <Badge variant="secondary">{delivery.attempts.length > 0 ? 'Retrying' : 'Pending'}</Badge>;
+}
+
+function describeLastAttempt(delivery: WebhookDelivery): string {
+  const last = delivery.attempts[delivery.attempts.length - 1];
+  if (!last) return '—';
+  if (last.error) return last.error;
+  return `HTTP ${last.responseStatus} in ${last.durationMs} ms`;
+}
+
+export default function WebhooksPage() {
+  const {
+    endpoints,
+    deliveries,
+    isLoading,
+    error,
+    fetchEndpoints,
+    fetchDeliveries,
+    createEndpoint,
+    updateEndpoint,
+    deleteEndpoint,
+    rotateSecret,
+    replayDelivery,
+  } = useWebhookStore();
+  const { toast } = useToast();
+
+  const [url, setUrl] = useState('');
+  const [description, setDescription] = useState('');
+  const [eventTypes, setEventTypes] = useState<WebhookEventType[]>(['product.published', 'product.updated', 'product.deleted']);
+  const [isCreating, setIsCreating] = useState(false);
+  const [secret, setSecret] = useState<string | null>(null);
+  const [deleting, setDeleting] = useState<WebhookEndpointSummary | null>(null);
+  const [endpointFilter, setEndpointFilter] = useState(ALL_ENDPOINTS);
+
+  useEffect(() => {
+    fetchEndpoints();
+  }, [fetchEndpoints]);
+
+  useEffect(() => {
+    fetchDeliveries(endpointFilter === ALL_ENDPOINTS ? undefined : endpointFilter);
+  }, [fetchDeliveries, endpointFilter]);
+
+  const toggleEventType = (type: WebhookEventType, checked: boolean) => {
+    setEventTypes(checked ? WEBHOOK_EVENT_TYPES.filter(t => t === type || eventTypes.includes(t)) : eventTypes.filter(t => t !== type));
+  };
+
+  const canCreate = url.trim().length > 0 && eventTypes.length > 0;
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    try {
+      const created = await createEndpoint({ url: url.trim(), description: description.trim() || undefined, eventTypes });
+      setSecret(created.secret);
+      setUrl('');
+      setDescription('');
+    } catch (error) {
+      toast({ title: 'Creating the endpoint failed', description: (error as Error).message, variant: 'destructive' });
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleToggleActive = async (endpoint: WebhookEndpointSummary, active: boolean) => {
+    try {
+      await updateEndpoint(endpoint.id, { active });
+    } catch (error) {
+      toast({ title: 'Updating the endpoint failed', description: (error as Error).message, variant: 'destructive' });
+    }
+  };
+
+  const handleRotate = async (endpoint: WebhookEndpointSummary) => {
+    try {
+      const rotated = await rotateSecret(endpoint.id);
+      setSecret(rotated.secret);
+      toast({ title: 'Signing secret rotated', description: 'Update the secret at the receiving end.' });
+    } catch (error) {
+      toast({ title: 'Rotating the secret failed', description: (error as Error).message, variant: 'destructive' });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+    try {
+      await deleteEndpoint(deleting.id);
+      toast({ title: 'Webhook endpoint deleted' });
+    } catch (error) {
+      toast({ title: 'Deleting the endpoint failed', description: (error as Error).message, variant: 'destructive' });
+    } finally {
+      setDeleting(null);
+    }
+  };
+
+  const handleReplay = async (delivery: WebhookDelivery) => {
+    try {
+      const replay = await replayDelivery(delivery.id);
+      toast({
+        title: replay.status === 'succeeded' ? 'Event delivered again' : 'Replay failed',
+        description: describeLastAttempt(replay),
+        variant: replay.status === 'succeeded' ? undefined : 'destructive',
+      });
+    } catch (error) {
+      toast({ title: 'Replaying the delivery failed', description: (error as Error).message, variant: 'destructive' });
+    }
+  };
+
+  const copySecret = async () => {
+    if (!secret) return;
+    await navigator.clipboard.writeText(secret);
+    toast({ title: 'Signing secret copied' });
+  };
+
+  const endpointUrls = new Map(endpoints.map(endpoint => [endpoint.id, endpoint.url]));
+
+  return (
+    <div className="container mx-auto py-8 space-y-6">
+      <div className="space-y-1">
+        <Breadcrumb items={[
+          { label: 'Settings', href: '/settings' },
+          { label: 'Webhooks' }
+        ]} />
+        <h1 className="text-3xl font-bold text-primary flex items-center gap-2">
+          <Webhook className="h-7 w-7" /> Webhooks
+        </h1>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Add endpoint</CardTitle>
+          <CardDescription>
+            Events are POSTed as JSON and signed in the <code>X-Pimify-Signature</code> header
+            (<code>t=&lt;timestamp&gt;,v1=&lt;HMAC-SHA256 of &quot;timestamp.body&quot;&gt;</code>). Endpoints that do
+            not answer with a 2xx are retried with increasing delays for about two hours.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-end gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="webhook-url">URL</Label>
+              <Input id="webhook-url" className="w-96" value={url} onChange={(e) => setUrl(e.target.value)} placeholder="https://erp.example.com/pim-events" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="webhook-description">Description (optional)</Label>
+              <Input id="webhook-description" className="w-64" value={description} onChange={(e) => setDescription(e.target.value)} placeholder="e.g. ERP sync" />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Events</Label>
+            <div className="grid grid-cols-1 gap-2 sm:grid-cols-3">
+              {WEBHOOK_EVENT_TYPES.map(type => (
+                <div key={type} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`event-${type}`}
+                    checked={eventTypes.includes(type)}
+                    onCheckedChange={(checked) => toggleEventType(type, checked === true)}
+                  />
+                  <Label htmlFor={`event-${type}`} className="font-normal">
+                    {WEBHOOK_EVENT_LABELS[type]} <span className="text-xs text-muted-foreground">{type}</span>
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <Button onClick={handleCreate} disabled={!canCreate || isCreating}>
+            <PlusCircle className="mr-2 h-4 w-4" /> {isCreating ? 'Adding...' : 'Add endpoint'}
+          </Button>
+
+          {secret && (
+            <div className="rounded-md border border-[#2f7979] bg-[#2f7979]/5 p-4 space-y-2">
+              <p className="text-sm font-medium text-[#111818]">Copy the signing secret now. It cannot be shown again.</p>
+              <div className="flex items-center gap-2">
+                <Input readOnly value={secret} className="font-mono text-xs" aria-label="Signing secret" />
+                <Button variant="outline" size="icon" onClick={copySecret} aria-label="Copy signing secret">
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+              <Button variant="ghost" size="sm" onClick={() => setSecret(null)}>Done</Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Endpoints</CardTitle>
+          <CardDescription>Disabled endpoints receive no new events; their pending deliveries fail.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+          {isLoading && endpoints.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Loading endpoints...</p>
+          ) : endpoints.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No webhook endpoints yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>URL</TableHead>
+                  <TableHead>Events</TableHead>
+                  <TableHead>Secret</TableHead>
+                  <TableHead>Active</TableHead>
+                  <TableHead className="w-24" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {endpoints.map(endpoint => (
+                  <TableRow key={endpoint.id}>
+                    <TableCell>
+                      <div className="font-mono text-xs break-all">{endpoint.url}</div>
+                      {endpoint.description && <div className="text-xs text-muted-foreground">{endpoint.description}</div>}
+                    </TableCell>
+                    <TableCell className="space-x-1 space-y-1">
+                      {endpoint.eventTypes.map(type => <Badge key={type} variant="secondary">{WEBHOOK_EVENT_LABELS[type]}</Badge>)}
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">{endpoint.secretHint}</TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={endpoint.active}
+                        onCheckedChange={(checked) => handleToggleActive(endpoint, checked)}
+                        aria-label={`${endpoint.active ? 'Disable' : 'Enable'} ${endpoint.url}`}
+                      />
+                    </TableCell>
+                    <TableCell className="flex gap-1">
+                      <Button variant="ghost" size="icon" onClick={() => handleRotate(endpoint)} aria-label={`Rotate secret of ${endpoint.url}`}>
+                        <RefreshCw className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => setDeleting(endpoint)} aria-label={`Delete ${endpoint.url}`}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Delivery log</CardTitle>
+            <CardDescription>Replaying sends the same event again, signed with the endpoint&apos;s current secret.</CardDescription>
+          </div>
+          <Select value={endpointFilter} onValueChange={setEndpointFilter}>
+            <SelectTrigger className="w-64">
+              <SelectValue placeholder="All endpoints" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_ENDPOINTS}>All endpoints</SelectItem>
+              {endpoints.map(endpoint => (
+                <SelectItem key={endpoint.id} value={endpoint.id}>{endpoint.description || endpoint.url}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          {deliveries.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No deliveries yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Created</TableHead>
+                  <TableHead>Event</TableHead>
+                  <TableHead>Endpoint</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Attempts</TableHead>
+                  <TableHead>Last attempt</TableHead>
+                  <TableHead>Next attempt</TableHead>
+                  <TableHead className="w-12" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {deliveries.map(delivery => (
+                  <TableRow key={delivery.id}>
+                    <TableCell className="text-sm">
+                      {formatDate(delivery.createdAt)}
+                      {delivery.replayOf && <div className="text-xs text-muted-foreground">Replay</div>}
+                    </TableCell>
+                    <TableCell className="text-sm">{WEBHOOK_EVENT_LABELS[delivery.eventType]}</TableCell>
+                    <TableCell className="font-mono text-xs break-all">{endpointUrls.get(delivery.endpointId) || delivery.url}</TableCell>
+                    <TableCell>{getDeliveryStatus(delivery)}</TableCell>
+                    <TableCell className="text-sm">{delivery.attempts.length}</TableCell>
+                    <TableCell className="text-xs">{describeLastAttempt(delivery)}</TableCell>
+                    <TableCell className="text-sm">{delivery.status === 'pending' ? formatDate(delivery.nextAttemptAt) : '—'}</TableCell>
+                    <TableCell>
+                      <Button variant="ghost" size="icon" onClick={() => handleReplay(delivery)} aria-label="Replay delivery">
+                        <RotateCcw className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => { if (!open) setDeleting(null); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete webhook endpoint</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deleting?.url} will receive no more events, and its pending deliveries will fail. The delivery log is kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-destructive hover:bg-destructive/90">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
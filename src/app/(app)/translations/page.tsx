@@ -0,0 +1,270 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import type { TranslationEntry, TranslationStatus, TranslationTask } from '@/types/translation';
+import { TRANSLATABLE_FIELD_LABELS, TRANSLATION_STATUS_LABELS } from '@/types/translation';
+import { useTranslationStore } from '@/lib/translation-store';
+import { useLocaleStore } from '@/lib/locale-store';
+import { getLocaleName } from '@/lib/locales';
+import { useAuth } from '@/context/auth-context';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { CheckCircle2, Languages, Save, Sparkles } from 'lucide-react';
+
+const ALL_OPEN = '__open__';
+const APPROVER_ROLES = ['admin', 'editor', 'reviewer'];
+
+const STATUS_BADGE_CLASSES: Record<TranslationStatus, string> = {
+  missing: 'bg-red-100 text-red-800 border-red-200',
+  machine_translated: 'bg-blue-100 text-blue-800 border-blue-200',
+  needs_review: 'bg-yellow-100 text-yellow-800 border-yellow-200',
+  approved: 'bg-green-100 text-green-800 border-green-200',
+};
+
+const taskKey = (task: TranslationTask) => `${task.productId}:${task.field}`;
+
+export default function TranslationQueuePage() {
+  const { tasks, isLoading, error, fetchQueue, updateTranslation, machineTranslate } = useTranslationStore();
+  const { settings: localeSettings, isLoaded: localesLoaded, ensureLoaded: ensureLocalesLoaded } = useLocaleStore();
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const [locale, setLocale] = useState<string>('');
+  const [statusFilter, setStatusFilter] = useState<string>(ALL_OPEN);
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [savingKey, setSavingKey] = useState<string | null>(null);
+  const [selectedProducts, setSelectedProducts] = useState<string[]>([]);
+  const [overwrite, setOverwrite] = useState(false);
+  const [isTranslating, setIsTranslating] = useState(false);
+
+  const targetLocales = localeSettings.locales.filter(l => l.code !== localeSettings.defaultLocale);
+  const canApprove = APPROVER_ROLES.includes(user?.role?.toLowerCase() || '');
+
+  useEffect(() => {
+    ensureLocalesLoaded();
+  }, [ensureLocalesLoaded]);
+
+  useEffect(() => {
+    if (localesLoaded && !locale && targetLocales.length > 0) {
+      setLocale(targetLocales[0].code);
+    }
+  }, [localesLoaded, locale, targetLocales]);
+
+  const loadQueue = () => {
+    if (!locale) return;
+    fetchQueue(locale, statusFilter === ALL_OPEN ? [] : [statusFilter as TranslationStatus]);
+  };
+
+  useEffect(() => {
+    setDrafts({});
+    setSelectedProducts([]);
+    loadQueue();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [locale, statusFilter]);
+
+  const handleSave = async (task: TranslationTask, status: TranslationEntry['status']) => {
+    const key = taskKey(task);
+    setSavingKey(key);
+    try {
+      await updateTranslation(task.productId, {
+        field: task.field,
+        locale: task.locale,
+        text: drafts[key] ?? task.targetText,
+        status,
+      });
+      toast({ title: `Translation ${status === 'approved' ? 'approved' : 'saved for review'}` });
+      setDrafts(({ [key]: _saved, ...rest }) => rest);
+      loadQueue();
+    } catch (error) {
+      toast({ title: 'Saving translation failed', description: (error as Error).message, variant: 'destructive' });
+    } finally {
+      setSavingKey(null);
+    }
+  };
+
+  const productIds = [...new Set(tasks.map(task => task.productId))];
+  const allSelected = productIds.length > 0 && productIds.every(id => selectedProducts.includes(id));
+
+  const toggleProduct = (productId: string, checked: boolean) => {
+    setSelectedProducts(checked
+      ? [...selectedProducts.filter(id => id !== productId), productId]
+      : selectedProducts.filter(id => id !== productId));
+  };
+
+  const handleMachineTranslate = async () => {
+    setIsTranslating(true);
+    try {
+      const results = await machineTranslate({ productIds: selectedProducts, targetLocales: [locale], overwrite });
+      const translated = results.reduce((sum, r) => sum + r.translated.length, 0);
+      const failed = results.filter(r => r.errors.length > 0);
+      toast({
+        title: `${translated} texts machine-translated`,
+        description: failed.length > 0
+          ? `Problems with ${failed.map(r => r.sku || r.productId).join(', ')}: ${failed[0].errors[0]}`
+          : 'Review and approve them in the queue.',
+        variant: failed.length > 0 && translated === 0 ? 'destructive' : undefined,
+      });
+      setSelectedProducts([]);
+      loadQueue();
+    } catch (error) {
+      toast({ title: 'Machine translation failed', description: (error as Error).message, variant: 'destructive' });
+    } finally {
+      setIsTranslating(false);
+    }
+  };
+
+  return (
+    <div className="container mx-auto py-8 space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold text-primary flex items-center gap-2">
+          <Languages className="h-7 w-7" /> Translations
+        </h1>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Translation queue</CardTitle>
+          <CardDescription>
+            Texts in {getLocaleName(localeSettings.defaultLocale, localeSettings)} that still need translating, reviewing or
+            approving. Translations made before the source text changed are marked outdated.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {localesLoaded && targetLocales.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              Only the default locale is enabled. Add locales under Settings → Locales to start translating.
+            </p>
+          ) : (
+            <>
+              <div className="flex flex-wrap items-end gap-3">
+                <div className="space-y-2">
+                  <Label htmlFor="translation-locale">Target locale</Label>
+                  <Select value={locale} onValueChange={setLocale}>
+                    <SelectTrigger id="translation-locale" className="w-48"><SelectValue placeholder="Choose a locale" /></SelectTrigger>
+                    <SelectContent>
+                      {targetLocales.map(l => <SelectItem key={l.code} value={l.code}>{l.name} ({l.code})</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="translation-status">Status</Label>
+                  <Select value={statusFilter} onValueChange={setStatusFilter}>
+                    <SelectTrigger id="translation-status" className="w-48"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL_OPEN}>All open</SelectItem>
+                      {(['missing', 'machine_translated', 'needs_review', 'approved'] as TranslationStatus[]).map(status => (
+                        <SelectItem key={status} value={status}>{TRANSLATION_STATUS_LABELS[status]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="flex items-center gap-2 ml-auto">
+                  <Checkbox id="translation-overwrite" checked={overwrite} onCheckedChange={(checked) => setOverwrite(checked === true)} />
+                  <Label htmlFor="translation-overwrite" className="text-sm font-normal">Replace existing translations</Label>
+                </div>
+                <Button variant="outline" onClick={handleMachineTranslate} disabled={isTranslating || selectedProducts.length === 0}>
+                  <Sparkles className="mr-2 h-4 w-4" />
+                  {isTranslating ? 'Translating...' : `Machine-translate ${selectedProducts.length} products`}
+                </Button>
+                <p className="text-sm text-muted-foreground">{tasks.length} open</p>
+              </div>
+
+              {error && <p className="text-sm text-destructive">{error}</p>}
+
+              {isLoading ? (
+                <p className="text-sm text-muted-foreground">Loading translation queue...</p>
+              ) : tasks.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Nothing to translate for this locale.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-10">
+                        <Checkbox
+                          checked={allSelected}
+                          aria-label="Select all products"
+                          onCheckedChange={(checked) => setSelectedProducts(checked === true ? productIds : [])}
+                        />
+                      </TableHead>
+                      <TableHead className="w-48">Product</TableHead>
+                      <TableHead className="w-36">Field</TableHead>
+                      <TableHead>Source</TableHead>
+                      <TableHead>Translation</TableHead>
+                      <TableHead className="w-36">Status</TableHead>
+                      <TableHead className="w-40" />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {tasks.map(task => {
+                      const key = taskKey(task);
+                      const text = drafts[key] ?? task.targetText;
+                      const isSaving = savingKey === key;
+                      return (
+                        <TableRow key={key}>
+                          <TableCell>
+                            <Checkbox
+                              checked={selectedProducts.includes(task.productId)}
+                              aria-label={`Select ${task.sku}`}
+                              onCheckedChange={(checked) => toggleProduct(task.productId, checked === true)}
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Link href={`/products/${task.productId}`} className="font-medium hover:underline">{task.productName}</Link>
+                            <div className="text-xs text-muted-foreground font-mono">{task.sku}</div>
+                          </TableCell>
+                          <TableCell>{TRANSLATABLE_FIELD_LABELS[task.field]}</TableCell>
+                          <TableCell className="text-sm whitespace-pre-wrap align-top">{task.sourceText}</TableCell>
+                          <TableCell>
+                            <Textarea
+                              value={text}
+                              aria-label={`${TRANSLATABLE_FIELD_LABELS[task.field]} translation for ${task.sku}`}
+                              rows={task.field === 'descriptionLong' ? 5 : 2}
+                              onChange={(e) => setDrafts({ ...drafts, [key]: e.target.value })}
+                            />
+                          </TableCell>
+                          <TableCell className="space-y-1">
+                            <Badge variant="outline" className={STATUS_BADGE_CLASSES[task.status]}>{TRANSLATION_STATUS_LABELS[task.status]}</Badge>
+                            {task.outdated && <Badge variant="outline" className="bg-orange-100 text-orange-800 border-orange-200">Outdated</Badge>}
+                          </TableCell>
+                          <TableCell className="text-right space-y-1">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="w-full"
+                              disabled={isSaving || text.trim() === ''}
+                              onClick={() => handleSave(task, 'needs_review')}
+                            >
+                              <Save className="mr-1 h-4 w-4" /> Save for review
+                            </Button>
+                            {canApprove && (
+                              <Button
+                                size="sm"
+                                className="w-full"
+                                disabled={isSaving || text.trim() === ''}
+                                onClick={() => handleSave(task, 'approved')}
+                              >
+                                <CheckCircle2 className="mr-1 h-4 w-4" /> Approve
+                              </Button>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withRoleBasedAccess, withValidation } from '@/lib/api-middleware';
+import { WorkflowAction } from '@/types/workflow';
+import { attributeFamilyService } from '@/lib/attribute-family-service';
+import { attributeFamilyUpdateSchema } from '@/lib/attribute-validation';
+
+/**
+ * GET /api/attribute-families/[id]
+ */
+async function getAttributeFamily(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const result = await attributeFamilyService.getFamily(id);
+    return NextResponse.json(result, { status: result.success ? 200 : 404 });
+  } catch (error) {
+    console.error('Get attribute family error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/attribute-families/[id]
+ * Update a family's name, code or attribute definitions
+ */
+async function updateAttributeFamily(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const validatedData = (request as any).validatedData as z.infer<typeof attributeFamilyUpdateSchema>;
+    const result = await attributeFamilyService.updateFamily(id, validatedData);
+
+    if (!result.success) {
+      const status = result.code === 'NOT_FOUND' ? 404 : result.code === 'CODE_EXISTS' ? 409 : 400;
+      return NextResponse.json(result, { status });
+    }
+
+    return NextResponse.json({ success: true, message: 'Attribute family updated successfully', data: result.data });
+  } catch (error) {
+    console.error('Update attribute family error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/attribute-families/[id]
+ * Delete a family that no product is assigned to
+ */
+async function deleteAttributeFamily(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const result = await attributeFamilyService.deleteFamily(id);
+
+    if (!result.success) {
+      const status = result.code === 'NOT_FOUND' ? 404 : 409;
+      return NextResponse.json(result, { status });
+    }
+
+    return NextResponse.json({ success: true, message: 'Attribute family deleted successfully' });
+  } catch (error) {
+    console.error('Delete attribute family error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withRoleBasedAccess(getAttributeFamily, WorkflowAction.VIEW_ALL_PRODUCTS);
+export const PUT = withRoleBasedAccess(
+  withValidation(updateAttributeFamily, attributeFamilyUpdateSchema),
+  WorkflowAction.CONFIGURE_WORKFLOW
+);
+export const DELETE = withRoleBasedAccess(deleteAttributeFamily, WorkflowAction.CONFIGURE_WORKFLOW);
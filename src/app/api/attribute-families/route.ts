@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withRoleBasedAccess, withValidation } from '@/lib/api-middleware';
+import { WorkflowAction } from '@/types/workflow';
+import { attributeFamilyService } from '@/lib/attribute-family-service';
+import { attributeFamilyCreateSchema } from '@/lib/attribute-validation';
+
+/**
+ * GET /api/attribute-families
+ * List all attribute families
+ */
+async function getAttributeFamilies(_request: NextRequest) {
+  try {
+    const data = await attributeFamilyService.listFamilies();
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    console.error('Get attribute families error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/attribute-families
+ * Create an attribute family
+ */
+async function createAttributeFamily(request: NextRequest) {
+  try {
+    const validatedData = (request as any).validatedData as z.infer<typeof attributeFamilyCreateSchema>;
+    const result = await attributeFamilyService.createFamily(validatedData);
+
+    if (!result.success) {
+      const status = result.code === 'CODE_EXISTS' ? 409 : 400;
+      return NextResponse.json(result, { status });
+    }
+
+    return NextResponse.json(
+      { success: true, message: 'Attribute family created successfully', data: result.data },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Create attribute family error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withRoleBasedAccess(getAttributeFamilies, WorkflowAction.VIEW_ALL_PRODUCTS);
+export const POST = withRoleBasedAccess(
+  withValidation(createAttributeFamily, attributeFamilyCreateSchema),
+  WorkflowAction.CONFIGURE_WORKFLOW
+);
@@ -1,64 +1,50 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { Product } from '@/types/product';
-import { getAccessToken } from '@/lib/azure-ad-service';
-import { createProduct } from '@/lib/business-central-client';
-
-export async function POST(req: NextRequest) {
+import { z } from 'zod';
+import { WorkflowAction } from '@/types/workflow';
+import { withRoleBasedAccess, withValidation } from '@/lib/api-middleware';
+import { integrationJobService } from '@/lib/integration-job-service';
+import { businessCentralJobSchema } from '@/lib/integration-jobs';
+import { getRequestTenantId } from '@/lib/tenant';
+import { getErrorStatus } from '@/lib/api-status';
+
+/**
+ * POST /api/business-central/export
+ * Queue an export of products as Business Central items: the given ones,
+ * or those changed since the last export (all of them with `full`). The
+ * response is the queued job.
+ */
+async function exportToBusinessCentral(req: NextRequest) {
     try {
-        const body = await req.json();
-        const { tenantId, environment, clientId, clientSecret, productsToExport, companyId } = body;
-
-        if (!tenantId || !environment || !clientId || !clientSecret || !companyId) {
-            return NextResponse.json(
-                { error: 'Missing Business Central configuration' },
-                { status: 400 }
-            );
-        }
-
-        if (!productsToExport || !Array.isArray(productsToExport) || productsToExport.length === 0) {
-            return NextResponse.json(
-                { error: 'No products provided for export' },
-                { status: 400 }
-            );
-        }
-
-        // 1. Get Access Token
-        const accessToken = await getAccessToken(tenantId, clientId, clientSecret);
-
-        // 2. Export products to Business Central
-        let successCount = 0;
-        let failCount = 0;
-        const errors: string[] = [];
-
-        for (const product of productsToExport) {
-            try {
-                await createProduct(accessToken, environment, companyId, product);
-                successCount++;
-            } catch (err: any) {
-                console.error(`Failed to export product ${product.basicInfo.sku}:`, err);
-                failCount++;
-                errors.push(`SKU ${product.basicInfo.sku}: ${err.message}`);
-            }
-        }
+        // Credentials come from the integration vault, never from the request
+        const { integrationId, productIds, productsToExport, channelId, full } =
+            (req as any).validatedData as z.infer<typeof businessCentralJobSchema>;
+        const result = await integrationJobService.enqueue(
+            getRequestTenantId(req),
+            {
+                kind: 'business_central_export',
+                params: { integrationId, productIds: productIds || productsToExport?.map(product => product.id), channelId, full },
+            },
+            (req as any).user
+        );
 
-        if (failCount === productsToExport.length) {
+        if (!result.success) {
             return NextResponse.json(
-                { error: 'Failed to export any products', details: errors },
-                { status: 500 }
+                { success: false, error: result.error, code: result.code, data: result.data },
+                { status: getErrorStatus(result.code) }
             );
         }
 
-        return NextResponse.json({
-            message: `Successfully exported ${successCount} products. ${failCount} failed.`,
-            exportedCount: successCount,
-            errors: errors.length > 0 ? errors : undefined
-        });
-
-    } catch (error: any) {
+        return NextResponse.json({ success: true, message: 'Business Central export queued.', data: result.data }, { status: 202 });
+    } catch (error) {
         console.error('Business Central Export Error:', error);
         return NextResponse.json(
-            { error: error.message || 'Failed to export to Business Central' },
+            { success: false, error: 'Internal server error' },
             { status: 500 }
         );
     }
 }
+
+export const POST = withRoleBasedAccess(
+    withValidation(exportToBusinessCentral, businessCentralJobSchema),
+    WorkflowAction.EXPORT_PRODUCTS
+);
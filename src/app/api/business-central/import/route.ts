@@ -1,95 +1,46 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { Product, initialProductData, defaultMultilingualString, MediaEntry } from '@/types/product';
-import { v4 as uuidv4 } from 'uuid';
-import { getAccessToken } from '@/lib/azure-ad-service';
-import { fetchProducts, fetchItemPicture } from '@/lib/business-central-client';
-import { WorkflowState } from '@/types/workflow';
-
-export async function POST(req: NextRequest) {
+import { z } from 'zod';
+import { WorkflowAction } from '@/types/workflow';
+import { withRoleBasedAccess, withValidation } from '@/lib/api-middleware';
+import { integrationJobService } from '@/lib/integration-job-service';
+import { businessCentralJobSchema } from '@/lib/integration-jobs';
+import { getRequestTenantId } from '@/lib/tenant';
+import { getErrorStatus } from '@/lib/api-status';
+
+/**
+ * POST /api/business-central/import
+ * Queue an import of the Business Central items changed since the last
+ * import, or of every item with `full`. Products are matched by SKU; the
+ * response is the queued job.
+ */
+async function importFromBusinessCentral(req: NextRequest) {
     try {
-        const body = await req.json();
-        const { tenantId, environment, clientId, clientSecret, companyId } = body;
+        // Credentials come from the integration vault, never from the request
+        const { integrationId, full } = (req as any).validatedData as z.infer<typeof businessCentralJobSchema>;
+        const result = await integrationJobService.enqueue(
+            getRequestTenantId(req),
+            { kind: 'business_central_import', params: { integrationId, full } },
+            (req as any).user
+        );
 
-        if (!tenantId || !environment || !clientId || !clientSecret || !companyId) {
+        if (!result.success) {
             return NextResponse.json(
-                { error: 'Missing Business Central configuration' },
-                { status: 400 }
+                { success: false, error: result.error, code: result.code, data: result.data },
+                { status: getErrorStatus(result.code) }
             );
         }
 
-        // 1. Get Access Token
-        const accessToken = await getAccessToken(tenantId, clientId, clientSecret);
-
-        // 2. Fetch Products from Business Central
-        const bcItems = await fetchProducts(accessToken, environment, companyId);
-
-        // 3. Map BC items to Pimify Products
-        const products: Product[] = [];
-
-        for (const item of bcItems) {
-            // Fetch image if available
-            let media: { images: MediaEntry[] } = { images: [] };
-            try {
-                console.log(`[Import] Attempting to fetch image for item ${item.number} (${item.id})`);
-                const pictureData = await fetchItemPicture(accessToken, environment, companyId, item.id);
-                if (pictureData) {
-                    console.log(`[Import] Image found for item ${item.number}`);
-                    media.images.push({
-                        id: uuidv4(),
-                        url: `data:${pictureData.mimeType};base64,${pictureData.content}`,
-                        altText: { ...defaultMultilingualString, en: item.displayName },
-                        type: 'image',
-                        dataAiHint: 'product image'
-                    });
-                } else {
-                    console.log(`[Import] No image found for item ${item.number}`);
-                }
-            } catch (err) {
-                console.warn(`[Import] Failed to fetch image for item ${item.number}`, err);
-            }
-
-            products.push({
-                ...initialProductData,
-                id: uuidv4(), // In a real sync, we might want to use a deterministic ID based on BC ID
-                basicInfo: {
-                    ...initialProductData.basicInfo,
-                    name: { ...defaultMultilingualString, en: item.displayName, no: item.displayName },
-                    sku: item.number,
-                    gtin: item.gtin || '',
-                    descriptionShort: { ...defaultMultilingualString, en: `Imported from Business Central: ${item.displayName}` },
-                    status: 'active',
-                },
-                attributesAndSpecs: {
-                    ...initialProductData.attributesAndSpecs,
-                    categories: item.itemCategoryCode ? [item.itemCategoryCode] : [],
-                },
-                media: media,
-                pricingAndStock: {
-                    ...initialProductData.pricingAndStock,
-                    standardPrice: [
-                        {
-                            id: uuidv4(),
-                            currency: 'EUR', // Defaulting to EUR, ideally should come from BC or config
-                            amount: item.unitPrice
-                        }
-                    ]
-                },
-                workflowState: WorkflowState.DRAFT,
-                createdAt: new Date().toISOString(),
-                updatedAt: new Date().toISOString(),
-            });
-        }
-
-        return NextResponse.json({
-            message: `Successfully imported ${products.length} products from Business Central`,
-            products
-        });
-
-    } catch (error: any) {
+        return NextResponse.json({ success: true, message: 'Business Central import queued.', data: result.data }, { status: 202 });
+    } catch (error) {
         console.error('Business Central Import Error:', error);
         return NextResponse.json(
-            { error: error.message || 'Failed to import from Business Central' },
+            { success: false, error: 'Internal server error' },
             { status: 500 }
         );
     }
 }
+
+export const POST = withRoleBasedAccess(
+    withValidation(importFromBusinessCentral, businessCentralJobSchema),
+    WorkflowAction.CREATE
+);
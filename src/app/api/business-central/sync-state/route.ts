@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { WorkflowAction } from '@/types/workflow';
+import { withRoleBasedAccess, withValidation } from '@/lib/api-middleware';
+import { businessCentralSyncSchema } from '@/lib/business-central-sync';
+import { businessCentralSyncService } from '@/lib/business-central-sync-service';
+import { getRequestTenantId } from '@/lib/tenant';
+import { getErrorStatus } from '@/lib/api-status';
+
+/**
+ * GET /api/business-central/sync-state?integrationId=...
+ * When the integration's company last synced, and which system owns
+ * price, description and inventory
+ */
+async function getSyncState(req: NextRequest) {
+    try {
+        const { searchParams } = new URL(req.url);
+        const integrationId = searchParams.get('integrationId');
+        if (!integrationId) {
+            return NextResponse.json({ success: false, error: 'integrationId is required' }, { status: 400 });
+        }
+
+        const result = await businessCentralSyncService.getState(getRequestTenantId(req), integrationId);
+        if (!result.success) {
+            return NextResponse.json(result, { status: getErrorStatus(result.code) });
+        }
+
+        return NextResponse.json({ success: true, data: result.data });
+    } catch (error) {
+        console.error('Get Business Central sync state error:', error);
+        return NextResponse.json(
+            { success: false, error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * PUT /api/business-central/sync-state
+ * Change field ownership, or reset a direction so its next sync is a full one
+ */
+async function updateSyncState(req: NextRequest) {
+    try {
+        const validatedData = (req as any).validatedData as z.infer<typeof businessCentralSyncSchema>;
+        const user = (req as any).user;
+        const result = await businessCentralSyncService.updateState(getRequestTenantId(req), validatedData, user?.userId);
+
+        if (!result.success) {
+            return NextResponse.json(result, { status: getErrorStatus(result.code) });
+        }
+
+        return NextResponse.json({ success: true, message: 'Business Central sync settings updated successfully', data: result.data });
+    } catch (error) {
+        console.error('Update Business Central sync state error:', error);
+        return NextResponse.json(
+            { success: false, error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
+
+export const GET = withRoleBasedAccess(getSyncState, WorkflowAction.EXPORT_PRODUCTS);
+export const PUT = withRoleBasedAccess(
+    withValidation(updateSyncState, businessCentralSyncSchema),
+    WorkflowAction.CONFIGURE_WORKFLOW
+);
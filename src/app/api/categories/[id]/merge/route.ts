@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withRoleBasedAccess, withValidation } from '@/lib/api-middleware';
+import { WorkflowAction } from '@/types/workflow';
+import { categoryService } from '@/lib/category-service';
+
+const CategoryMergeSchema = z.object({
+  targetId: z.string().min(1),
+});
+
+/**
+ * POST /api/categories/[id]/merge
+ * Merge this category into `targetId`. Subcategories and product
+ * references move to the target and this category is removed.
+ */
+async function mergeCategory(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { targetId } = (request as any).validatedData as z.infer<typeof CategoryMergeSchema>;
+    const result = await categoryService.mergeCategories(id, targetId);
+
+    if (!result.success) {
+      const status = result.code === 'NOT_FOUND' ? 404 : result.code === 'CYCLE' ? 409 : 400;
+      return NextResponse.json(result, { status });
+    }
+
+    return NextResponse.json({ success: true, message: 'Categories merged successfully', data: result.data });
+  } catch (error) {
+    console.error('Merge category error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withRoleBasedAccess(
+  withValidation(mergeCategory, CategoryMergeSchema),
+  WorkflowAction.CONFIGURE_WORKFLOW
+);
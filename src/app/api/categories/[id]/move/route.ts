@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withRoleBasedAccess, withValidation } from '@/lib/api-middleware';
+import { WorkflowAction } from '@/types/workflow';
+import { categoryService } from '@/lib/category-service';
+
+const CategoryMoveSchema = z.object({
+  parentId: z.string().nullable(),
+  order: z.number().int().min(0).optional(),
+});
+
+/**
+ * POST /api/categories/[id]/move
+ * Move a category to a new parent and/or position
+ */
+async function moveCategory(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const validatedData = (request as any).validatedData as z.infer<typeof CategoryMoveSchema>;
+    const result = await categoryService.moveCategory(id, validatedData);
+
+    if (!result.success) {
+      const status = result.code === 'NOT_FOUND' || result.code === 'PARENT_NOT_FOUND' ? 404 : 409;
+      return NextResponse.json(result, { status });
+    }
+
+    return NextResponse.json({ success: true, message: 'Category moved successfully', data: result.data });
+  } catch (error) {
+    console.error('Move category error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withRoleBasedAccess(
+  withValidation(moveCategory, CategoryMoveSchema),
+  WorkflowAction.CONFIGURE_WORKFLOW
+);
@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withRoleBasedAccess, withValidation } from '@/lib/api-middleware';
+import { WorkflowAction } from '@/types/workflow';
+import { categoryService } from '@/lib/category-service';
+
+const CategoryUpdateSchema = z.object({
+  name: z.object({
+    en: z.string().default(''),
+    no: z.string().default(''),
+  }).catchall(z.string()).optional(),
+  slug: z.string().optional(),
+});
+
+/**
+ * GET /api/categories/[id]
+ */
+async function getCategory(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const result = await categoryService.getCategory(id);
+    return NextResponse.json(result, { status: result.success ? 200 : 404 });
+  } catch (error) {
+    console.error('Get category error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/categories/[id]
+ * Rename a category or change its slug
+ */
+async function updateCategory(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const validatedData = (request as any).validatedData as z.infer<typeof CategoryUpdateSchema>;
+    const result = await categoryService.updateCategory(id, validatedData);
+
+    if (!result.success) {
+      const status = result.code === 'NOT_FOUND' ? 404 : result.code === 'SLUG_EXISTS' ? 409 : 400;
+      return NextResponse.json(result, { status });
+    }
+
+    return NextResponse.json({ success: true, message: 'Category updated successfully', data: result.data });
+  } catch (error) {
+    console.error('Update category error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/categories/[id]
+ * Delete a leaf category and detach it from products
+ */
+async function deleteCategory(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const result = await categoryService.deleteCategory(id);
+
+    if (!result.success) {
+      const status = result.code === 'NOT_FOUND' ? 404 : 409;
+      return NextResponse.json(result, { status });
+    }
+
+    return NextResponse.json({ success: true, message: 'Category deleted successfully', data: result.data });
+  } catch (error) {
+    console.error('Delete category error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withRoleBasedAccess(getCategory, WorkflowAction.VIEW_ALL_PRODUCTS);
+export const PUT = withRoleBasedAccess(
+  withValidation(updateCategory, CategoryUpdateSchema),
+  WorkflowAction.CONFIGURE_WORKFLOW
+);
+export const DELETE = withRoleBasedAccess(deleteCategory, WorkflowAction.CONFIGURE_WORKFLOW);
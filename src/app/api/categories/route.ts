@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withRoleBasedAccess, withValidation } from '@/lib/api-middleware';
+import { WorkflowAction } from '@/types/workflow';
+import { categoryService } from '@/lib/category-service';
+
+const MultilingualNameSchema = z.object({
+  en: z.string().default(''),
+  no: z.string().default(''),
+}).catchall(z.string());
+
+const CategoryCreateSchema = z.object({
+  name: MultilingualNameSchema,
+  parentId: z.string().nullable().optional(),
+  slug: z.string().optional(),
+  order: z.number().int().min(0).optional(),
+});
+
+/**
+ * GET /api/categories
+ * List categories as a nested tree (default) or a flat list (?view=flat)
+ */
+async function getCategories(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const view = searchParams.get('view') || 'tree';
+
+    const data = view === 'flat'
+      ? await categoryService.listCategories()
+      : await categoryService.getTree();
+
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    console.error('Get categories error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/categories
+ * Create a category
+ */
+async function createCategory(request: NextRequest) {
+  try {
+    const validatedData = (request as any).validatedData as z.infer<typeof CategoryCreateSchema>;
+    const result = await categoryService.createCategory(validatedData);
+
+    if (!result.success) {
+      const status = result.code === 'PARENT_NOT_FOUND' ? 404 : result.code === 'SLUG_EXISTS' ? 409 : 400;
+      return NextResponse.json(result, { status });
+    }
+
+    return NextResponse.json(
+      { success: true, message: 'Category created successfully', data: result.data },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Create category error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withRoleBasedAccess(getCategories, WorkflowAction.VIEW_ALL_PRODUCTS);
+export const POST = withRoleBasedAccess(
+  withValidation(createCategory, CategoryCreateSchema),
+  WorkflowAction.CONFIGURE_WORKFLOW
+);
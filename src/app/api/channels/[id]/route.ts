@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withRoleBasedAccess, withValidation } from '@/lib/api-middleware';
+import { WorkflowAction } from '@/types/workflow';
+import { channelService } from '@/lib/channel-service';
+import { channelUpdateSchema } from '@/lib/channel-overrides';
+
+/**
+ * GET /api/channels/[id]
+ */
+async function getChannel(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const result = await channelService.getChannel(id);
+    return NextResponse.json(result, { status: result.success ? 200 : 404 });
+  } catch (error) {
+    console.error('Get channel error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/channels/[id]
+ * Update a channel's name, code, type or settings
+ */
+async function updateChannel(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const validatedData = (request as any).validatedData as z.infer<typeof channelUpdateSchema>;
+    const result = await channelService.updateChannel(id, validatedData);
+
+    if (!result.success) {
+      const status = result.code === 'NOT_FOUND' ? 404 : result.code === 'CODE_EXISTS' ? 409 : 400;
+      return NextResponse.json(result, { status });
+    }
+
+    return NextResponse.json({ success: true, message: 'Channel updated successfully', data: result.data });
+  } catch (error) {
+    console.error('Update channel error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/channels/[id]
+ * Delete a channel that no product has overrides for
+ */
+async function deleteChannel(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const result = await channelService.deleteChannel(id);
+
+    if (!result.success) {
+      const status = result.code === 'NOT_FOUND' ? 404 : 409;
+      return NextResponse.json(result, { status });
+    }
+
+    return NextResponse.json({ success: true, message: 'Channel deleted successfully' });
+  } catch (error) {
+    console.error('Delete channel error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withRoleBasedAccess(getChannel, WorkflowAction.VIEW_ALL_PRODUCTS);
+export const PUT = withRoleBasedAccess(
+  withValidation(updateChannel, channelUpdateSchema),
+  WorkflowAction.CONFIGURE_WORKFLOW
+);
+export const DELETE = withRoleBasedAccess(deleteChannel, WorkflowAction.CONFIGURE_WORKFLOW);
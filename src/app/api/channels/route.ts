@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withRoleBasedAccess, withValidation } from '@/lib/api-middleware';
+import { WorkflowAction } from '@/types/workflow';
+import { channelService } from '@/lib/channel-service';
+import { channelCreateSchema } from '@/lib/channel-overrides';
+
+/**
+ * GET /api/channels
+ * List all channels
+ */
+async function getChannels(_request: NextRequest) {
+  try {
+    const data = await channelService.listChannels();
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    console.error('Get channels error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/channels
+ * Create a channel
+ */
+async function createChannel(request: NextRequest) {
+  try {
+    const validatedData = (request as any).validatedData as z.infer<typeof channelCreateSchema>;
+    const result = await channelService.createChannel(validatedData);
+
+    if (!result.success) {
+      const status = result.code === 'CODE_EXISTS' ? 409 : 400;
+      return NextResponse.json(result, { status });
+    }
+
+    return NextResponse.json(
+      { success: true, message: 'Channel created successfully', data: result.data },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Create channel error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withRoleBasedAccess(getChannels, WorkflowAction.VIEW_ALL_PRODUCTS);
+export const POST = withRoleBasedAccess(
+  withValidation(createChannel, channelCreateSchema),
+  WorkflowAction.CONFIGURE_WORKFLOW
+);
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withRoleBasedAccess } from '@/lib/api-middleware';
+import { WorkflowAction } from '@/types/workflow';
+import { integrationJobService } from '@/lib/integration-job-service';
+import { getRequestTenantId } from '@/lib/tenant';
+import { getErrorStatus } from '@/lib/api-status';
+
+/**
+ * POST /api/jobs/[id]/cancel
+ * Cancel a queued job, or stop a running one after the item it is on. Items
+ * already synced stay synced.
+ */
+async function cancelIntegrationJob(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const result = await integrationJobService.cancelJob(getRequestTenantId(request), id);
+
+    if (!result.success) {
+      return NextResponse.json(result, { status: getErrorStatus(result.code) });
+    }
+
+    return NextResponse.json({ success: true, data: result.data });
+  } catch (error) {
+    console.error('Cancel integration job error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withRoleBasedAccess(cancelIntegrationJob, WorkflowAction.CREATE);
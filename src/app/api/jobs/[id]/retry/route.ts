@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withRoleBasedAccess } from '@/lib/api-middleware';
+import { WorkflowAction } from '@/types/workflow';
+import { integrationJobService } from '@/lib/integration-job-service';
+import { getRequestTenantId } from '@/lib/tenant';
+import { getErrorStatus } from '@/lib/api-status';
+
+/**
+ * POST /api/jobs/[id]/retry
+ * Queue a failed or cancelled job again as a new job with the same parameters
+ */
+async function retryIntegrationJob(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const result = await integrationJobService.retryJob(getRequestTenantId(request), id, (request as any).user);
+
+    if (!result.success) {
+      return NextResponse.json(result, { status: getErrorStatus(result.code) });
+    }
+
+    return NextResponse.json({ success: true, data: result.data }, { status: 202 });
+  } catch (error) {
+    console.error('Retry integration job error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withRoleBasedAccess(retryIntegrationJob, WorkflowAction.CREATE);
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withRoleBasedAccess } from '@/lib/api-middleware';
+import { WorkflowAction } from '@/types/workflow';
+import { integrationJobService } from '@/lib/integration-job-service';
+import { getRequestTenantId } from '@/lib/tenant';
+
+/**
+ * GET /api/jobs/[id]
+ * A job with its progress and failed items; polled while the job runs
+ */
+async function getIntegrationJob(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const result = await integrationJobService.getJob(getRequestTenantId(request), id);
+
+    if (!result.success) {
+      return NextResponse.json(result, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, data: result.data });
+  } catch (error) {
+    console.error('Get integration job error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withRoleBasedAccess(getIntegrationJob, WorkflowAction.EXPORT_PRODUCTS);
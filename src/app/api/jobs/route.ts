@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withRoleBasedAccess } from '@/lib/api-middleware';
+import { WorkflowAction } from '@/types/workflow';
+import { integrationJobService } from '@/lib/integration-job-service';
+import { getRequestTenantId } from '@/lib/tenant';
+import { INTEGRATION_JOB_STATUS_LABELS, type IntegrationJobStatus } from '@/types/integration-job';
+
+/**
+ * GET /api/jobs?status=running&limit=20
+ * The most recent integration jobs, newest first
+ */
+async function getIntegrationJobs(request: NextRequest) {
+  try {
+    const status = request.nextUrl.searchParams.get('status');
+    const limit = Number(request.nextUrl.searchParams.get('limit')) || undefined;
+    const data = await integrationJobService.listJobs(getRequestTenantId(request), {
+      status: status && status in INTEGRATION_JOB_STATUS_LABELS ? (status as IntegrationJobStatus) : undefined,
+      limit: limit && Math.min(limit, 100),
+    });
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    console.error('Get integration jobs error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withRoleBasedAccess(getIntegrationJobs, WorkflowAction.EXPORT_PRODUCTS);
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withRoleBasedAccess } from '@/lib/api-middleware';
+import { WorkflowAction } from '@/types/workflow';
+import { integrationJobService } from '@/lib/integration-job-service';
+import { getRequestTenantId } from '@/lib/tenant';
+
+/**
+ * POST /api/jobs/run
+ * Run the integration jobs that are due: retries whose backoff has passed
+ * and jobs whose worker stopped. Meant to be called by a cron job every
+ * minute.
+ */
+async function runIntegrationJobs(request: NextRequest) {
+  try {
+    const result = await integrationJobService.runDueJobs(getRequestTenantId(request));
+    return NextResponse.json({ success: true, data: result.data });
+  } catch (error) {
+    console.error('Run integration jobs error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withRoleBasedAccess(runIntegrationJobs, WorkflowAction.CONFIGURE_WORKFLOW);
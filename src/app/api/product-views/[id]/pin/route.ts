@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withRoleBasedAccess, withValidation } from '@/lib/api-middleware';
+import { WorkflowAction } from '@/types/workflow';
+import { productViewService } from '@/lib/product-view-service';
+import { productViewPinSchema } from '@/lib/product-views';
+
+/**
+ * PUT /api/product-views/[id]/pin
+ * Pin a view to the user's sidebar, or unpin it with { pinned: false }
+ */
+async function pinProductView(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { pinned } = (request as any).validatedData as z.infer<typeof productViewPinSchema>;
+    const result = await productViewService.setPinned(id, pinned, (request as any).user);
+    return NextResponse.json(result, { status: result.success ? 200 : 404 });
+  } catch (error) {
+    console.error('Pin product view error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const PUT = withRoleBasedAccess(
+  withValidation(pinProductView, productViewPinSchema),
+  WorkflowAction.VIEW_ALL_PRODUCTS
+);
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withRoleBasedAccess, withValidation } from '@/lib/api-middleware';
+import { WorkflowAction } from '@/types/workflow';
+import { productViewService } from '@/lib/product-view-service';
+import { productViewUpdateSchema } from '@/lib/product-views';
+import { getErrorStatus } from '@/lib/api-status';
+
+/**
+ * GET /api/product-views/[id]
+ */
+async function getProductView(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const result = await productViewService.getView(id, (request as any).user);
+    return NextResponse.json(result, { status: result.success ? 200 : 404 });
+  } catch (error) {
+    console.error('Get product view error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/product-views/[id]
+ * Rename, reshare or overwrite the filters, sort and columns of a view
+ */
+async function updateProductView(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const validatedData = (request as any).validatedData as z.infer<typeof productViewUpdateSchema>;
+    const result = await productViewService.updateView(id, validatedData, (request as any).user);
+
+    if (!result.success) {
+      return NextResponse.json(result, { status: getErrorStatus(result.code) });
+    }
+
+    return NextResponse.json({ success: true, message: 'View updated successfully', data: result.data });
+  } catch (error) {
+    console.error('Update product view error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/product-views/[id]
+ */
+async function deleteProductView(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const result = await productViewService.deleteView(id, (request as any).user);
+
+    if (!result.success) {
+      return NextResponse.json(result, { status: getErrorStatus(result.code) });
+    }
+
+    return NextResponse.json({ success: true, message: 'View deleted successfully' });
+  } catch (error) {
+    console.error('Delete product view error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withRoleBasedAccess(getProductView, WorkflowAction.VIEW_ALL_PRODUCTS);
+export const PUT = withRoleBasedAccess(
+  withValidation(updateProductView, productViewUpdateSchema),
+  WorkflowAction.VIEW_ALL_PRODUCTS
+);
+export const DELETE = withRoleBasedAccess(deleteProductView, WorkflowAction.VIEW_ALL_PRODUCTS);
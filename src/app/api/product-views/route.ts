@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withRoleBasedAccess, withValidation } from '@/lib/api-middleware';
+import { WorkflowAction } from '@/types/workflow';
+import { productViewService } from '@/lib/product-view-service';
+import { productViewCreateSchema } from '@/lib/product-views';
+import { getErrorStatus } from '@/lib/api-status';
+
+/**
+ * GET /api/product-views
+ * List the saved views the user can see: their own and those shared with
+ * their role or team
+ */
+async function getProductViews(request: NextRequest) {
+  try {
+    const data = await productViewService.listViews((request as any).user);
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    console.error('Get product views error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/product-views
+ * Save the current filters, sort and columns as a named view
+ */
+async function createProductView(request: NextRequest) {
+  try {
+    const validatedData = (request as any).validatedData as z.infer<typeof productViewCreateSchema>;
+    const result = await productViewService.createView(validatedData, (request as any).user);
+
+    if (!result.success) {
+      return NextResponse.json(result, { status: getErrorStatus(result.code) });
+    }
+
+    return NextResponse.json(
+      { success: true, message: 'View saved successfully', data: result.data },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Create product view error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withRoleBasedAccess(getProductViews, WorkflowAction.VIEW_ALL_PRODUCTS);
+export const POST = withRoleBasedAccess(
+  withValidation(createProductView, productViewCreateSchema),
+  WorkflowAction.VIEW_ALL_PRODUCTS
+);
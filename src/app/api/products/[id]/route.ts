@@ -7,6 +7,9 @@ import { withRoleBasedAccess } from '@/lib/api-middleware';
 import { WorkflowState, WorkflowAction, UserRole } from '@/types/workflow';
 import { Product } from '@/types/product';
 import { productService } from '@/lib/product-service';
+import { bundleDefinitionSchema } from '@/lib/bundles';
+import { localeService } from '@/lib/locale-service';
+import { getRequestTenantId } from '@/lib/tenant';
 
 // Validation schemas
 const ProductUpdateSchema = z.object({
@@ -21,6 +24,8 @@ const ProductUpdateSchema = z.object({
     categories: z.array(z.string()).optional(),
     properties: z.array(z.any()).optional(),
     technicalSpecs: z.array(z.any()).optional(),
+    familyId: z.string().optional(),
+    attributeValues: z.record(z.any()).optional(),
   }).optional(),
   media: z.object({
     images: z.array(z.any()).optional(),
@@ -37,6 +42,9 @@ const ProductUpdateSchema = z.object({
   }).optional(),
   options: z.array(z.any()).optional(),
   variants: z.array(z.any()).optional(),
+  productType: z.enum(['simple', 'bundle']).optional(),
+  bundle: bundleDefinitionSchema.optional(),
+  channelOverrides: z.record(z.any()).optional(),
   workflowState: z.nativeEnum(WorkflowState).optional(),
   assignedReviewer: z.object({
     userId: z.string(),
@@ -200,6 +208,8 @@ async function updateProduct(
       );
     }
 
+    const tenantId = getRequestTenantId(request);
+
     // Check if workflow state change is valid
     if (validatedData.workflowState && validatedData.workflowState !== existingProduct.workflowState) {
       const transitionRequest = {
@@ -210,6 +220,7 @@ async function updateProduct(
         userRole,
         reason: 'Product updated',
         assignedReviewer: validatedData.assignedReviewer?.userId,
+        translationRequirement: await localeService.getPublishRequirement(tenantId),
       };
 
       const transitionResult = await workflowStateManager.executeStateTransition(
@@ -255,6 +266,7 @@ async function updateProduct(
         standardPrice: (validatedData.pricingAndStock?.standardPrice as any) || existingProduct.pricingAndStock?.standardPrice || [],
         salePrice: (validatedData.pricingAndStock?.salePrice as any) || existingProduct.pricingAndStock?.salePrice || [],
         costPrice: (validatedData.pricingAndStock?.costPrice as any) || existingProduct.pricingAndStock?.costPrice || [],
+        stockQuantity: existingProduct.pricingAndStock?.stockQuantity, // Only Business Central imports set it
       },
       assignedReviewer: validatedData.assignedReviewer ? {
         userId: validatedData.assignedReviewer.userId,
@@ -287,7 +299,12 @@ async function updateProduct(
     // Note: We are passing the fully merged object as `updateProduct` currently overwrites/merges.
     // Ideally we'd use `updateProduct(id, validatedData)` but our service takes `Partial<Product>`.
     // Passing `updatedProduct` ensures all nested merges we did above are preserved.
-    await productService.updateProduct(id, updatedProduct);
+    await productService.updateProduct(id, updatedProduct, {
+      userId,
+      userName: user?.userName || request.headers.get('x-user-name') || undefined,
+      reason: 'Product updated',
+      tenantId,
+    });
 
     // Create audit trail entry
     await auditTrailIntegration.createProductUpdateAuditEntry(
@@ -396,7 +413,12 @@ async function deleteProduct(
     }
 
     // Remove from storage via service
-    await productService.deleteProduct(id);
+    await productService.deleteProduct(id, {
+      userId,
+      userName: user?.userName || request.headers.get('x-user-name') || undefined,
+      reason: 'Product deleted',
+      tenantId: getRequestTenantId(request),
+    });
 
     // Create audit trail entry
     await auditTrailIntegration.createProductDeleteAuditEntry(
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { RolePermissions } from '@/lib/role-permissions';
+import { WorkflowStateManager } from '@/lib/workflow-state-manager';
+import { AuditTrailIntegration } from '@/lib/audit-trail-integration';
+import { withRoleBasedAccess, withValidation } from '@/lib/api-middleware';
+import { WorkflowAction, UserRole } from '@/types/workflow';
+import { translationService } from '@/lib/translation-service';
+import { translationUpdateSchema } from '@/lib/translation-workflow';
+import { getRequestTenantId } from '@/lib/tenant';
+import { getErrorStatus } from '@/lib/api-status';
+
+// Initialize services
+const rolePermissions = new RolePermissions();
+const workflowStateManager = new WorkflowStateManager();
+const auditTrailIntegration = new AuditTrailIntegration(workflowStateManager, rolePermissions);
+
+/**
+ * PUT /api/products/[id]/translations
+ * Save one field's translation in a locale and set its status
+ */
+async function updateTranslation(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const user = (request as any).user;
+    const userId = user?.userId;
+    const userRole = user?.userRole as UserRole;
+    if (!userId || !userRole) {
+      return NextResponse.json(
+        { success: false, error: 'User authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const validatedData = (request as any).validatedData as z.infer<typeof translationUpdateSchema>;
+    const result = await translationService.updateTranslation(
+      getRequestTenantId(request),
+      id,
+      validatedData,
+      { userId, userRole, userName: user.userName }
+    );
+
+    if (!result.success) {
+      return NextResponse.json(result, { status: getErrorStatus(result.code) });
+    }
+
+    await auditTrailIntegration.createProductUpdateAuditEntry(
+      userId,
+      userRole,
+      user.email || '',
+      id,
+      result.data!.previous,
+      result.data!.product,
+      `Translation of ${validatedData.field} (${validatedData.locale}) marked ${validatedData.status.replace('_', ' ')}`,
+      {
+        userName: user.userName || 'Unknown User',
+        source: 'translation',
+      }
+    );
+
+    return NextResponse.json({
+      success: true,
+      message: 'Translation updated successfully',
+      data: result.data!.product,
+    });
+  } catch (error) {
+    console.error('Update translation error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const PUT = withRoleBasedAccess(
+  withValidation(updateTranslation, translationUpdateSchema),
+  WorkflowAction.TRANSLATE
+);
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { RolePermissions } from '@/lib/role-permissions';
+import { WorkflowStateManager } from '@/lib/workflow-state-manager';
+import { AuditTrailIntegration } from '@/lib/audit-trail-integration';
+import { withRoleBasedAccess, withValidation } from '@/lib/api-middleware';
+import { WorkflowAction, UserRole } from '@/types/workflow';
+import { productVersionService } from '@/lib/product-version-service';
+import { getRequestTenantId } from '@/lib/tenant';
+
+const RestoreVersionSchema = z.object({
+  reason: z.string().max(500).optional(),
+});
+
+// Initialize services
+const rolePermissions = new RolePermissions();
+const workflowStateManager = new WorkflowStateManager();
+const auditTrailIntegration = new AuditTrailIntegration(workflowStateManager, rolePermissions);
+
+/**
+ * POST /api/products/[id]/versions/[version]/restore
+ * Restore a product to an earlier version. The restore is saved as a new
+ * version and recorded in the audit trail.
+ */
+async function restoreVersion(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; version: string }> }
+) {
+  try {
+    const { id, version } = await params;
+    const versionNumber = parseInt(version, 10);
+    if (!Number.isInteger(versionNumber) || versionNumber < 1) {
+      return NextResponse.json(
+        { success: false, error: 'Version must be a positive integer' },
+        { status: 400 }
+      );
+    }
+
+    const user = (request as any).user;
+    const userId = user?.userId;
+    const userRole = user?.userRole as UserRole;
+    if (!userId || !userRole) {
+      return NextResponse.json(
+        { success: false, error: 'User authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { reason } = (request as any).validatedData as z.infer<typeof RestoreVersionSchema>;
+    const result = await productVersionService.restoreVersion(
+      id,
+      versionNumber,
+      { userId, userName: user.userName },
+      reason,
+      getRequestTenantId(request)
+    );
+
+    if (!result.success) {
+      return NextResponse.json(result, { status: 404 });
+    }
+
+    await auditTrailIntegration.createProductUpdateAuditEntry(
+      userId,
+      userRole,
+      user.email || '',
+      id,
+      result.data!.previous,
+      result.data!.product,
+      reason || `Restored to version ${versionNumber}`,
+      {
+        userName: user.userName || 'Unknown User',
+        source: 'version_restore',
+        restoredFromVersion: versionNumber,
+      }
+    );
+
+    return NextResponse.json({
+      success: true,
+      message: `Product restored to version ${versionNumber}`,
+      data: result.data!.product,
+    });
+  } catch (error) {
+    console.error('Restore product version error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withRoleBasedAccess(
+  withValidation(restoreVersion, RestoreVersionSchema),
+  WorkflowAction.EDIT
+);
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withRoleBasedAccess } from '@/lib/api-middleware';
+import { WorkflowAction } from '@/types/workflow';
+import { productVersionService } from '@/lib/product-version-service';
+
+/**
+ * GET /api/products/[id]/versions/[version]
+ * Get a single version including its full product snapshot
+ */
+async function getVersion(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string; version: string }> }
+) {
+  try {
+    const { id, version } = await params;
+    const versionNumber = parseInt(version, 10);
+    if (!Number.isInteger(versionNumber) || versionNumber < 1) {
+      return NextResponse.json(
+        { success: false, error: 'Version must be a positive integer' },
+        { status: 400 }
+      );
+    }
+
+    const result = await productVersionService.getVersion(id, versionNumber);
+    return NextResponse.json(result, { status: result.success ? 200 : 404 });
+  } catch (error) {
+    console.error('Get product version error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withRoleBasedAccess(getVersion, WorkflowAction.VIEW_ALL_PRODUCTS);
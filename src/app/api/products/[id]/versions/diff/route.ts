@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withRoleBasedAccess, withValidation } from '@/lib/api-middleware';
+import { WorkflowAction } from '@/types/workflow';
+import { productVersionService } from '@/lib/product-version-service';
+
+const VersionDiffQuerySchema = z.object({
+  from: z.coerce.number().int().min(1),
+  to: z.coerce.number().int().min(1).optional(),
+});
+
+/**
+ * GET /api/products/[id]/versions/diff?from=3&to=5
+ * Field-by-field diff between two versions (`to` defaults to the latest)
+ */
+async function getVersionDiff(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { from, to } = (request as any).validatedData as z.infer<typeof VersionDiffQuerySchema>;
+    const result = await productVersionService.diffVersions(id, from, to);
+    return NextResponse.json(result, { status: result.success ? 200 : 404 });
+  } catch (error) {
+    console.error('Get product version diff error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withRoleBasedAccess(
+  withValidation(getVersionDiff, VersionDiffQuerySchema, { validateQuery: true }),
+  WorkflowAction.VIEW_ALL_PRODUCTS
+);
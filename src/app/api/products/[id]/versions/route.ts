@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withRoleBasedAccess } from '@/lib/api-middleware';
+import { WorkflowAction } from '@/types/workflow';
+import { productVersionService } from '@/lib/product-version-service';
+
+/**
+ * GET /api/products/[id]/versions
+ * List the saved versions of a product, newest first (without snapshots)
+ */
+async function getVersions(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const data = await productVersionService.listVersions(id);
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    console.error('Get product versions error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withRoleBasedAccess(getVersions, WorkflowAction.VIEW_ALL_PRODUCTS);
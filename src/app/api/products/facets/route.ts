@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withRoleBasedAccess, withValidation } from '@/lib/api-middleware';
+import { WorkflowAction } from '@/types/workflow';
+import { getFacetSelection, productFacetQuerySchema } from '@/lib/product-facets';
+import { productFacetService } from '@/lib/product-facet-service';
+import { parseProductSort } from '@/lib/product-views';
+
+/**
+ * GET /api/products/facets?brand=Acme,Nordic&qualityBand=low&hasImages=no&search=jacket&sort=name:asc
+ * Count facet values over the full catalog and return one page of the
+ * products matching the selection. Values within a facet are alternatives;
+ * facets combine. Values are comma-separated and each URI-encoded. Products
+ * are sorted by the given sort, else by relevance or last update.
+ */
+async function getProductFacets(request: NextRequest) {
+  try {
+    const query = (request as any).validatedData as z.infer<typeof productFacetQuerySchema>;
+    const { facets, products, total } = await productFacetService.browse(getFacetSelection(query), {
+      search: query.search,
+      sort: query.sort ? parseProductSort(query.sort) : undefined,
+      page: query.page,
+      limit: query.limit,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        facets,
+        products,
+        pagination: {
+          page: query.page,
+          limit: query.limit,
+          total,
+          totalPages: Math.ceil(total / query.limit),
+          hasNext: query.page * query.limit < total,
+          hasPrevious: query.page > 1,
+        },
+      },
+    });
+  } catch (error) {
+    console.error('Get product facets error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withRoleBasedAccess(
+  withValidation(getProductFacets, productFacetQuerySchema, { validateQuery: true }),
+  WorkflowAction.VIEW_ALL_PRODUCTS
+);
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withRoleBasedAccess, withValidation } from '@/lib/api-middleware';
+import { WorkflowAction } from '@/types/workflow';
+import { productGridService } from '@/lib/product-grid-service';
+import { productGridSaveSchema } from '@/lib/product-grid';
+import { getRequestTenantId } from '@/lib/tenant';
+
+/**
+ * POST /api/products/grid
+ * Save the rows changed in the grid editor as one batch. Rows are saved
+ * independently: the response lists the saved rows and, for the others,
+ * the validation errors per cell.
+ */
+async function saveGridRows(request: NextRequest) {
+  try {
+    const validatedData = (request as any).validatedData as z.infer<typeof productGridSaveSchema>;
+    const data = await productGridService.saveRows(validatedData, (request as any).user, getRequestTenantId(request));
+
+    return NextResponse.json({
+      success: true,
+      message: data.failed.length > 0
+        ? `Saved ${data.saved.length} products; ${data.failed.length} had errors`
+        : `Saved ${data.saved.length} products`,
+      data,
+    });
+  } catch (error) {
+    console.error('Save product grid error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withRoleBasedAccess(
+  withValidation(saveGridRows, productGridSaveSchema),
+  WorkflowAction.EDIT
+);
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withRoleBasedAccess, withValidation } from '@/lib/api-middleware';
+import { WorkflowAction } from '@/types/workflow';
+import type { ProductImportInput } from '@/types/product-import';
+import { productImportService } from '@/lib/product-import-service';
+import { productImportSchema } from '@/lib/product-import';
+
+/**
+ * POST /api/products/import/preview
+ * Dry run of an import: what each row would create or change, and the
+ * errors of rows that would be skipped. Nothing is saved.
+ */
+async function previewImport(request: NextRequest) {
+  try {
+    // The schema allows records or products, never both
+    const validatedData = (request as any).validatedData as ProductImportInput;
+    const data = await productImportService.preview(validatedData);
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    console.error('Preview product import error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withRoleBasedAccess(
+  withValidation(previewImport, productImportSchema),
+  WorkflowAction.CREATE
+);
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withRoleBasedAccess, withValidation } from '@/lib/api-middleware';
+import { WorkflowAction } from '@/types/workflow';
+import { productImportService } from '@/lib/product-import-service';
+import { productImportProfileUpdateSchema } from '@/lib/product-import';
+import { getErrorStatus } from '@/lib/api-status';
+
+/**
+ * PUT /api/products/import/profiles/[id]
+ * Rename an import profile or overwrite its mapping
+ */
+async function updateImportProfile(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const validatedData = (request as any).validatedData as z.infer<typeof productImportProfileUpdateSchema>;
+    const result = await productImportService.updateProfile(id, validatedData, (request as any).user);
+
+    if (!result.success) {
+      return NextResponse.json(result, { status: getErrorStatus(result.code) });
+    }
+
+    return NextResponse.json({ success: true, message: 'Import profile updated successfully', data: result.data });
+  } catch (error) {
+    console.error('Update import profile error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/products/import/profiles/[id]
+ */
+async function deleteImportProfile(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const result = await productImportService.deleteProfile(id, (request as any).user);
+
+    if (!result.success) {
+      return NextResponse.json(result, { status: getErrorStatus(result.code) });
+    }
+
+    return NextResponse.json({ success: true, message: 'Import profile deleted successfully' });
+  } catch (error) {
+    console.error('Delete import profile error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const PUT = withRoleBasedAccess(
+  withValidation(updateImportProfile, productImportProfileUpdateSchema),
+  WorkflowAction.CREATE
+);
+export const DELETE = withRoleBasedAccess(deleteImportProfile, WorkflowAction.CREATE);
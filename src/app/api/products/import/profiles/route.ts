@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withRoleBasedAccess, withValidation } from '@/lib/api-middleware';
+import { WorkflowAction } from '@/types/workflow';
+import { productImportService } from '@/lib/product-import-service';
+import { productImportProfileSchema } from '@/lib/product-import';
+import { getErrorStatus } from '@/lib/api-status';
+
+/**
+ * GET /api/products/import/profiles
+ * List the saved column mappings
+ */
+async function getImportProfiles(_request: NextRequest) {
+  try {
+    const data = await productImportService.listProfiles();
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    console.error('Get import profiles error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/products/import/profiles
+ * Save a column mapping for files in the same layout
+ */
+async function createImportProfile(request: NextRequest) {
+  try {
+    const validatedData = (request as any).validatedData as z.infer<typeof productImportProfileSchema>;
+    const result = await productImportService.createProfile(validatedData, (request as any).user);
+
+    if (!result.success) {
+      return NextResponse.json(result, { status: getErrorStatus(result.code) });
+    }
+
+    return NextResponse.json(
+      { success: true, message: 'Import profile saved successfully', data: result.data },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Create import profile error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withRoleBasedAccess(getImportProfiles, WorkflowAction.CREATE);
+export const POST = withRoleBasedAccess(
+  withValidation(createImportProfile, productImportProfileSchema),
+  WorkflowAction.CREATE
+);
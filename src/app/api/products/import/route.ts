@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withRoleBasedAccess, withValidation } from '@/lib/api-middleware';
+import { WorkflowAction } from '@/types/workflow';
+import type { ProductImportInput } from '@/types/product-import';
+import { productImportService } from '@/lib/product-import-service';
+import { productImportSchema } from '@/lib/product-import';
+import { getRequestTenantId } from '@/lib/tenant';
+
+/**
+ * POST /api/products/import
+ * Import mapped file rows or product objects. Each is matched to a stored
+ * product by ID, SKU or GTIN; matches are merged with the chosen strategy
+ * and the rest are created. The rows are planned again against the stored
+ * products, so the result can differ from an earlier dry run.
+ */
+async function importProducts(request: NextRequest) {
+  try {
+    // The schema allows records or products, never both
+    const validatedData = (request as any).validatedData as ProductImportInput;
+    const data = await productImportService.importRows(validatedData, (request as any).user, getRequestTenantId(request));
+    const { create, update, skipped, error } = data.summary;
+
+    return NextResponse.json({
+      success: true,
+      message: `Created ${create} and updated ${update} products`
+        + (skipped > 0 ? `; skipped ${skipped} existing products` : '')
+        + (error > 0 ? `; ${error} rows had errors` : ''),
+      data,
+    });
+  } catch (error) {
+    console.error('Import products error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withRoleBasedAccess(
+  withValidation(importProducts, productImportSchema),
+  WorkflowAction.CREATE
+);
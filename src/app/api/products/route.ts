@@ -7,16 +7,17 @@ import { withRoleBasedAccess, withValidation } from '@/lib/api-middleware';
 import { WorkflowState, WorkflowAction, UserRole } from '@/types/workflow';
 import { Product } from '@/types/product';
 import { productService } from '@/lib/product-service';
+import { bundleDefinitionSchema } from '@/lib/bundles';
+import { InvalidCursorError } from '@/lib/product-cursor';
+import { getRequestTenantId } from '@/lib/tenant';
 
 // Validation schemas
 const ProductQuerySchema = z.object({
   workflowState: z.nativeEnum(WorkflowState).optional(),
   assignedReviewer: z.string().optional(),
   search: z.string().optional(),
-  pagination: z.object({
-    page: z.number().min(1).default(1),
-    limit: z.number().min(1).max(100).default(20),
-  }).optional(),
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(20),
 });
 
 const ProductUpdateSchema = z.object({
@@ -37,6 +38,8 @@ const ProductUpdateSchema = z.object({
     categories: z.array(z.string()).optional(),
     properties: z.array(z.any()).optional(),
     technicalSpecs: z.array(z.any()).optional(),
+    familyId: z.string().optional(),
+    attributeValues: z.record(z.any()).optional(),
   }).optional(),
   media: z.object({
     images: z.array(z.any()).optional(),
@@ -53,6 +56,9 @@ const ProductUpdateSchema = z.object({
   }).optional(),
   options: z.array(z.any()).optional(),
   variants: z.array(z.any()).optional(),
+  productType: z.enum(['simple', 'bundle']).optional(),
+  bundle: bundleDefinitionSchema.optional(),
+  channelOverrides: z.record(z.any()).optional(),
   workflowState: z.nativeEnum(WorkflowState).optional(),
   assignedReviewer: z.object({
     userId: z.string(),
@@ -68,7 +74,9 @@ const auditTrailIntegration = new AuditTrailIntegration(workflowStateManager, ro
 
 /**
  * GET /api/products
- * Get products with filtering and pagination
+ * Get products with filtering and cursor pagination. With `search`, products
+ * are full-text matched and ranked, best match first. Pass the returned
+ * `nextCursor` as `cursor` for the next page.
  */
 async function getProducts(request: NextRequest) {
   try {
@@ -79,41 +87,31 @@ async function getProducts(request: NextRequest) {
       workflowState: searchParams.get('workflowState') as WorkflowState || undefined,
       assignedReviewer: searchParams.get('assignedReviewer') || undefined,
       search: searchParams.get('search') || undefined,
-      pagination: {
-        page: parseInt(searchParams.get('page') || '1'),
-        limit: parseInt(searchParams.get('limit') || '20'),
-      },
+      cursor: searchParams.get('cursor') || undefined,
+      limit: parseInt(searchParams.get('limit') || '20'),
     };
 
     // Validate query parameters
     const validatedQuery = ProductQuerySchema.parse(queryParams);
 
-    // Fetch from service (with safe defaults)
-    const page = validatedQuery.pagination?.page || 1;
-    const limit = validatedQuery.pagination?.limit || 20;
-
-    const { products, total } = await productService.getProducts({
+    const { products, total, totalEstimated, hasNext, nextCursor } = await productService.getProducts({
       workflowState: validatedQuery.workflowState,
       assignedReviewerId: validatedQuery.assignedReviewer,
       search: validatedQuery.search,
-      page,
-      limit
+      cursor: validatedQuery.cursor,
+      limit: validatedQuery.limit,
     });
 
-    // Calculate pagination info (approximate for Firestore)
-    const totalPages = Math.ceil(total / limit);
-
     return NextResponse.json({
       success: true,
       data: {
         products: products,
         pagination: {
-          page,
-          limit,
+          limit: validatedQuery.limit,
           total,
-          totalPages,
-          hasNext: products.length === limit, // Basic check
-          hasPrevious: page > 1,
+          totalEstimated,
+          hasNext,
+          nextCursor,
         },
         filters: {
           workflowState: validatedQuery.workflowState,
@@ -126,6 +124,13 @@ async function getProducts(request: NextRequest) {
   } catch (error) {
     console.error('Get products error:', error);
 
+    if (error instanceof InvalidCursorError) {
+      return NextResponse.json(
+        { success: false, error: error.message, code: 'INVALID_CURSOR' },
+        { status: 400 }
+      );
+    }
+
     if (error instanceof z.ZodError) {
       return NextResponse.json(
         {
@@ -200,6 +205,9 @@ async function createProduct(request: NextRequest) {
       },
       options: validatedData.options || [],
       variants: validatedData.variants || [],
+      productType: validatedData.productType,
+      bundle: validatedData.bundle,
+      channelOverrides: validatedData.channelOverrides,
       workflowState: validatedData.workflowState || WorkflowState.DRAFT,
       assignedReviewer: validatedData.assignedReviewer,
       workflowHistory: [{
@@ -217,7 +225,7 @@ async function createProduct(request: NextRequest) {
     };
 
     // Save to Firestore via service
-    await productService.createProduct(newProduct);
+    await productService.createProduct(newProduct, { userId, userName, tenantId: getRequestTenantId(request) });
 
     // Create audit trail entry
     auditTrailIntegration.createProductAuditEntry(
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withRoleBasedAccess, withValidation } from '@/lib/api-middleware';
+import { WorkflowAction, UserRole } from '@/types/workflow';
+import { cancelScheduledActionSchema } from '@/lib/scheduled-actions';
+import { schedulerService } from '@/lib/scheduler-service';
+import { getErrorStatus } from '@/lib/api-status';
+
+/**
+ * POST /api/schedule/[id]/cancel
+ * Cancel a pending scheduled action
+ */
+async function cancelScheduledAction(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const user = (request as any).user;
+    const userId = user?.userId;
+    const userRole = user?.userRole as UserRole;
+    if (!userId || !userRole) {
+      return NextResponse.json(
+        { success: false, error: 'User authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { reason } = (request as any).validatedData as z.infer<typeof cancelScheduledActionSchema>;
+    const result = await schedulerService.cancelAction(
+      decodeURIComponent(id),
+      { userId, userRole, userName: user.userName, email: user.email },
+      reason
+    );
+    if (!result.success) {
+      return NextResponse.json(result, { status: getErrorStatus(result.code) });
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Scheduled action cancelled',
+      data: result.data,
+    });
+  } catch (error) {
+    console.error('Cancel scheduled action error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withRoleBasedAccess(
+  withValidation(cancelScheduledAction, cancelScheduledActionSchema),
+  WorkflowAction.PUBLISH
+);
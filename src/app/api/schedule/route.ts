@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withRoleBasedAccess, withValidation } from '@/lib/api-middleware';
+import { WorkflowAction } from '@/types/workflow';
+import { scheduleQuerySchema } from '@/lib/scheduled-actions';
+import { schedulerService } from '@/lib/scheduler-service';
+
+/**
+ * GET /api/schedule?from=2024-06-01T00:00:00Z&to=2024-07-01T00:00:00Z
+ * List scheduled publishing, discontinuation, sale price and campaign
+ * actions in a date range, with their outcomes
+ */
+async function getSchedule(request: NextRequest) {
+  try {
+    const filter = (request as any).validatedData as z.infer<typeof scheduleQuerySchema>;
+    const actions = await schedulerService.getSchedule(filter);
+
+    return NextResponse.json({ success: true, data: actions });
+  } catch (error) {
+    console.error('Get schedule error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withRoleBasedAccess(
+  withValidation(getSchedule, scheduleQuerySchema, { validateQuery: true }),
+  WorkflowAction.VIEW_ALL_PRODUCTS
+);
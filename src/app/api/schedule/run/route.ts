@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withRoleBasedAccess } from '@/lib/api-middleware';
+import { WorkflowAction } from '@/types/workflow';
+import { schedulerService } from '@/lib/scheduler-service';
+import { getRequestTenantId } from '@/lib/tenant';
+
+/**
+ * POST /api/schedule/run
+ * Run every scheduled action that is due. Meant to be called by a cron job
+ * every few minutes; admins can also trigger it from the schedule page.
+ */
+async function runScheduledActions(request: NextRequest) {
+  try {
+    const result = await schedulerService.runDueActions(getRequestTenantId(request));
+    if (!result.success) {
+      return NextResponse.json(result, { status: 400 });
+    }
+
+    return NextResponse.json({ success: true, data: result.data });
+  } catch (error) {
+    console.error('Run scheduled actions error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withRoleBasedAccess(runScheduledActions, WorkflowAction.PUBLISH);
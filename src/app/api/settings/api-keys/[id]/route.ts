@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withRoleBasedAccess } from '@/lib/api-middleware';
+import { WorkflowAction } from '@/types/workflow';
+import { apiKeyService } from '@/lib/api-key-service';
+import { getRequestTenantId } from '@/lib/tenant';
+
+/**
+ * DELETE /api/settings/api-keys/[id]
+ * Revoke an API key. It stays listed, marked as revoked.
+ */
+async function revokeApiKey(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const result = await apiKeyService.revokeKey(getRequestTenantId(request), id);
+
+    if (!result.success) {
+      return NextResponse.json(result, { status: result.code === 'NOT_FOUND' ? 404 : 400 });
+    }
+
+    return NextResponse.json({ success: true, message: 'API key revoked', data: result.data });
+  } catch (error) {
+    console.error('Revoke API key error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const DELETE = withRoleBasedAccess(revokeApiKey, WorkflowAction.CONFIGURE_WORKFLOW);
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withRoleBasedAccess, withValidation } from '@/lib/api-middleware';
+import { WorkflowAction } from '@/types/workflow';
+import { apiKeyService } from '@/lib/api-key-service';
+import { apiKeyCreateSchema } from '@/lib/api-keys';
+import { getRequestTenantId } from '@/lib/tenant';
+import { getErrorStatus } from '@/lib/api-status';
+
+/**
+ * GET /api/settings/api-keys
+ * List the tenant's API keys, revoked keys included
+ */
+async function getApiKeys(request: NextRequest) {
+  try {
+    const data = await apiKeyService.listKeys(getRequestTenantId(request));
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    console.error('Get API keys error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/settings/api-keys
+ * Create an API key. The key is in the response only; it cannot be shown again.
+ */
+async function createApiKey(request: NextRequest) {
+  try {
+    const validatedData = (request as any).validatedData as z.infer<typeof apiKeyCreateSchema>;
+    const result = await apiKeyService.createKey(getRequestTenantId(request), validatedData, (request as any).user);
+
+    if (!result.success) {
+      return NextResponse.json(result, { status: getErrorStatus(result.code) });
+    }
+
+    return NextResponse.json(
+      { success: true, message: 'API key created successfully', data: result.data },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Create API key error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withRoleBasedAccess(getApiKeys, WorkflowAction.CONFIGURE_WORKFLOW);
+export const POST = withRoleBasedAccess(
+  withValidation(createApiKey, apiKeyCreateSchema),
+  WorkflowAction.CONFIGURE_WORKFLOW
+);
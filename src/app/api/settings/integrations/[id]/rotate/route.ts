@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withRoleBasedAccess, withValidation } from '@/lib/api-middleware';
+import { WorkflowAction } from '@/types/workflow';
+import { integrationCredentialService } from '@/lib/integration-credential-service';
+import { integrationCredentialRotateSchema } from '@/lib/integration-credentials';
+import { getRequestTenantId } from '@/lib/tenant';
+import { getErrorStatus } from '@/lib/api-status';
+
+/**
+ * POST /api/settings/integrations/[id]/rotate
+ * Replace a credential's secret fields
+ */
+async function rotateIntegrationCredential(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { secrets } = (request as any).validatedData as z.infer<typeof integrationCredentialRotateSchema>;
+    const result = await integrationCredentialService.rotateCredential(getRequestTenantId(request), id, secrets);
+
+    if (!result.success) {
+      return NextResponse.json(result, { status: getErrorStatus(result.code) });
+    }
+
+    return NextResponse.json({ success: true, message: 'Integration credential rotated', data: result.data });
+  } catch (error) {
+    console.error('Rotate integration credential error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withRoleBasedAccess(
+  withValidation(rotateIntegrationCredential, integrationCredentialRotateSchema),
+  WorkflowAction.CONFIGURE_WORKFLOW
+);
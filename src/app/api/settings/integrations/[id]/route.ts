@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withRoleBasedAccess, withValidation } from '@/lib/api-middleware';
+import { WorkflowAction } from '@/types/workflow';
+import { integrationCredentialService } from '@/lib/integration-credential-service';
+import { integrationCredentialUpdateSchema } from '@/lib/integration-credentials';
+import { getRequestTenantId } from '@/lib/tenant';
+import { getErrorStatus } from '@/lib/api-status';
+
+/**
+ * PATCH /api/settings/integrations/[id]
+ * Rename a credential or change its plain settings; changing the store or
+ * Azure tenant needs the secrets again
+ */
+async function updateIntegrationCredential(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const validatedData = (request as any).validatedData as z.infer<typeof integrationCredentialUpdateSchema>;
+    const result = await integrationCredentialService.updateCredential(getRequestTenantId(request), id, validatedData);
+
+    if (!result.success) {
+      return NextResponse.json(result, { status: getErrorStatus(result.code) });
+    }
+
+    return NextResponse.json({ success: true, message: 'Integration credential updated', data: result.data });
+  } catch (error) {
+    console.error('Update integration credential error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/settings/integrations/[id]
+ */
+async function deleteIntegrationCredential(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const result = await integrationCredentialService.deleteCredential(getRequestTenantId(request), id);
+
+    if (!result.success) {
+      return NextResponse.json(result, { status: getErrorStatus(result.code) });
+    }
+
+    return NextResponse.json({ success: true, message: 'Integration credential deleted' });
+  } catch (error) {
+    console.error('Delete integration credential error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const PATCH = withRoleBasedAccess(
+  withValidation(updateIntegrationCredential, integrationCredentialUpdateSchema),
+  WorkflowAction.CONFIGURE_WORKFLOW
+);
+export const DELETE = withRoleBasedAccess(deleteIntegrationCredential, WorkflowAction.CONFIGURE_WORKFLOW);
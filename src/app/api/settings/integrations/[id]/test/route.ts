@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withRoleBasedAccess } from '@/lib/api-middleware';
+import { WorkflowAction } from '@/types/workflow';
+import { integrationCredentialService } from '@/lib/integration-credential-service';
+import { getRequestTenantId } from '@/lib/tenant';
+import { getErrorStatus } from '@/lib/api-status';
+
+/**
+ * POST /api/settings/integrations/[id]/test
+ * Connect with the stored credentials. A failed connection is reported in
+ * data.ok, not as an error.
+ */
+async function testIntegrationCredential(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const result = await integrationCredentialService.testConnection(getRequestTenantId(request), id);
+
+    if (!result.success) {
+      return NextResponse.json(result, { status: getErrorStatus(result.code) });
+    }
+
+    return NextResponse.json({ success: true, data: result.data });
+  } catch (error) {
+    console.error('Test integration credential error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withRoleBasedAccess(testIntegrationCredential, WorkflowAction.CONFIGURE_WORKFLOW);
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withRoleBasedAccess, withValidation } from '@/lib/api-middleware';
+import { WorkflowAction } from '@/types/workflow';
+import { integrationCredentialService } from '@/lib/integration-credential-service';
+import { integrationCredentialSchema } from '@/lib/integration-credentials';
+import { getRequestTenantId } from '@/lib/tenant';
+import { INTEGRATION_TYPES, type IntegrationType } from '@/types/integration-credential';
+import { getErrorStatus } from '@/lib/api-status';
+
+/**
+ * GET /api/settings/integrations?type=shopify
+ * List the tenant's integration credentials. Secrets are reduced to hints.
+ */
+async function getIntegrationCredentials(request: NextRequest) {
+  try {
+    const type = request.nextUrl.searchParams.get('type');
+    const data = await integrationCredentialService.listCredentials(
+      getRequestTenantId(request),
+      INTEGRATION_TYPES.includes(type as IntegrationType) ? (type as IntegrationType) : undefined
+    );
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    console.error('Get integration credentials error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/settings/integrations
+ * Add an integration credential. Secret fields are encrypted before they are stored.
+ */
+async function createIntegrationCredential(request: NextRequest) {
+  try {
+    const validatedData = (request as any).validatedData as z.infer<typeof integrationCredentialSchema>;
+    const result = await integrationCredentialService.createCredential(getRequestTenantId(request), validatedData, (request as any).user);
+
+    if (!result.success) {
+      return NextResponse.json(result, { status: getErrorStatus(result.code) });
+    }
+
+    return NextResponse.json(
+      { success: true, message: 'Integration credential added', data: result.data },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Create integration credential error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withRoleBasedAccess(getIntegrationCredentials, WorkflowAction.VIEW_ALL_PRODUCTS);
+export const POST = withRoleBasedAccess(
+  withValidation(createIntegrationCredential, integrationCredentialSchema),
+  WorkflowAction.CONFIGURE_WORKFLOW
+);
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withRoleBasedAccess, withValidation } from '@/lib/api-middleware';
+import { WorkflowAction } from '@/types/workflow';
+import { localeService } from '@/lib/locale-service';
+import { localeSettingsSchema } from '@/lib/locales';
+import { getRequestTenantId } from '@/lib/tenant';
+
+/**
+ * GET /api/settings/locales
+ * Get the tenant's enabled locales, default locale and fallback chains
+ */
+async function getLocaleSettings(request: NextRequest) {
+  try {
+    const data = await localeService.getSettings(getRequestTenantId(request));
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    console.error('Get locale settings error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/settings/locales
+ * Replace the tenant's locale settings
+ */
+async function updateLocaleSettings(request: NextRequest) {
+  try {
+    const validatedData = (request as any).validatedData as z.infer<typeof localeSettingsSchema>;
+    const user = (request as any).user;
+    const result = await localeService.updateSettings(getRequestTenantId(request), validatedData, user?.userId);
+
+    if (!result.success) {
+      return NextResponse.json(result, { status: 400 });
+    }
+
+    return NextResponse.json({ success: true, message: 'Locale settings updated successfully', data: result.data });
+  } catch (error) {
+    console.error('Update locale settings error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withRoleBasedAccess(getLocaleSettings, WorkflowAction.VIEW_ALL_PRODUCTS);
+export const PUT = withRoleBasedAccess(
+  withValidation(updateLocaleSettings, localeSettingsSchema),
+  WorkflowAction.CONFIGURE_WORKFLOW
+);
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withRoleBasedAccess, withValidation } from '@/lib/api-middleware';
+import { WorkflowAction } from '@/types/workflow';
+import { shopifyFieldMappingService } from '@/lib/shopify-field-mapping-service';
+import { shopifyFieldMappingSchema } from '@/lib/shopify-field-mapping';
+import { getRequestTenantId } from '@/lib/tenant';
+
+/**
+ * GET /api/settings/shopify-mapping
+ * Get the fields the tenant maps to Shopify metafields, tags and product type
+ */
+async function getShopifyFieldMapping(request: NextRequest) {
+  try {
+    const data = await shopifyFieldMappingService.getSettings(getRequestTenantId(request));
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    console.error('Get Shopify field mapping error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/settings/shopify-mapping
+ * Replace the tenant's Shopify field mapping
+ */
+async function updateShopifyFieldMapping(request: NextRequest) {
+  try {
+    const validatedData = (request as any).validatedData as z.infer<typeof shopifyFieldMappingSchema>;
+    const user = (request as any).user;
+    const result = await shopifyFieldMappingService.updateSettings(getRequestTenantId(request), validatedData, user?.userId);
+
+    if (!result.success) {
+      return NextResponse.json(result, { status: 400 });
+    }
+
+    return NextResponse.json({ success: true, message: 'Shopify field mapping updated successfully', data: result.data });
+  } catch (error) {
+    console.error('Update Shopify field mapping error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withRoleBasedAccess(getShopifyFieldMapping, WorkflowAction.VIEW_ALL_PRODUCTS);
+export const PUT = withRoleBasedAccess(
+  withValidation(updateShopifyFieldMapping, shopifyFieldMappingSchema),
+  WorkflowAction.CONFIGURE_WORKFLOW
+);
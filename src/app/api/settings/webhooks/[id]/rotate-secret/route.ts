@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withRoleBasedAccess } from '@/lib/api-middleware';
+import { WorkflowAction } from '@/types/workflow';
+import { webhookService } from '@/lib/webhook-service';
+import { getRequestTenantId } from '@/lib/tenant';
+
+/**
+ * POST /api/settings/webhooks/[id]/rotate-secret
+ * Replace an endpoint's signing secret. The new secret is in the response
+ * only; it cannot be shown again.
+ */
+async function rotateWebhookSecret(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const result = await webhookService.rotateSecret(getRequestTenantId(request), id);
+
+    if (!result.success) {
+      return NextResponse.json(result, { status: result.code === 'NOT_FOUND' ? 404 : 400 });
+    }
+
+    return NextResponse.json({ success: true, message: 'Webhook secret rotated', data: result.data });
+  } catch (error) {
+    console.error('Rotate webhook secret error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withRoleBasedAccess(rotateWebhookSecret, WorkflowAction.CONFIGURE_WORKFLOW);
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withRoleBasedAccess, withValidation } from '@/lib/api-middleware';
+import { WorkflowAction } from '@/types/workflow';
+import { webhookService } from '@/lib/webhook-service';
+import { webhookEndpointSchema } from '@/lib/webhooks';
+import { getRequestTenantId } from '@/lib/tenant';
+
+const WebhookEndpointUpdateSchema = webhookEndpointSchema.partial();
+
+/**
+ * PATCH /api/settings/webhooks/[id]
+ * Change an endpoint's URL, description, events or whether it is active
+ */
+async function updateWebhookEndpoint(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const validatedData = (request as any).validatedData as z.infer<typeof WebhookEndpointUpdateSchema>;
+    const result = await webhookService.updateEndpoint(getRequestTenantId(request), id, validatedData);
+
+    if (!result.success) {
+      return NextResponse.json(result, { status: result.code === 'NOT_FOUND' ? 404 : 400 });
+    }
+
+    return NextResponse.json({ success: true, message: 'Webhook endpoint updated', data: result.data });
+  } catch (error) {
+    console.error('Update webhook endpoint error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/settings/webhooks/[id]
+ * Delete an endpoint. Its deliveries stay in the log.
+ */
+async function deleteWebhookEndpoint(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const result = await webhookService.deleteEndpoint(getRequestTenantId(request), id);
+
+    if (!result.success) {
+      return NextResponse.json(result, { status: result.code === 'NOT_FOUND' ? 404 : 400 });
+    }
+
+    return NextResponse.json({ success: true, message: 'Webhook endpoint deleted' });
+  } catch (error) {
+    console.error('Delete webhook endpoint error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const PATCH = withRoleBasedAccess(
+  withValidation(updateWebhookEndpoint, WebhookEndpointUpdateSchema),
+  WorkflowAction.CONFIGURE_WORKFLOW
+);
+export const DELETE = withRoleBasedAccess(deleteWebhookEndpoint, WorkflowAction.CONFIGURE_WORKFLOW);
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withRoleBasedAccess } from '@/lib/api-middleware';
+import { WorkflowAction } from '@/types/workflow';
+import { webhookService } from '@/lib/webhook-service';
+import { getRequestTenantId } from '@/lib/tenant';
+import { getErrorStatus } from '@/lib/api-status';
+
+/**
+ * POST /api/settings/webhooks/deliveries/[id]/replay
+ * Send a delivery's event to its endpoint again, as a new delivery
+ */
+async function replayWebhookDelivery(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const result = await webhookService.replayDelivery(getRequestTenantId(request), id);
+
+    if (!result.success) {
+      return NextResponse.json(result, { status: getErrorStatus(result.code) });
+    }
+
+    return NextResponse.json({ success: true, message: 'Webhook delivery replayed', data: result.data });
+  } catch (error) {
+    console.error('Replay webhook delivery error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withRoleBasedAccess(replayWebhookDelivery, WorkflowAction.CONFIGURE_WORKFLOW);
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withRoleBasedAccess, withValidation } from '@/lib/api-middleware';
+import { WorkflowAction } from '@/types/workflow';
+import { webhookService } from '@/lib/webhook-service';
+import { getRequestTenantId } from '@/lib/tenant';
+
+const DeliveryQuerySchema = z.object({
+  endpointId: z.string().optional(),
+  status: z.enum(['pending', 'succeeded', 'failed']).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+/**
+ * GET /api/settings/webhooks/deliveries
+ * The delivery log, newest first
+ */
+async function getWebhookDeliveries(request: NextRequest) {
+  try {
+    const filter = (request as any).validatedData as z.infer<typeof DeliveryQuerySchema>;
+    const data = await webhookService.listDeliveries(getRequestTenantId(request), filter);
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    console.error('Get webhook deliveries error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withRoleBasedAccess(
+  withValidation(getWebhookDeliveries, DeliveryQuerySchema, { validateQuery: true }),
+  WorkflowAction.CONFIGURE_WORKFLOW
+);
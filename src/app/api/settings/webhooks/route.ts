@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withRoleBasedAccess, withValidation } from '@/lib/api-middleware';
+import { WorkflowAction } from '@/types/workflow';
+import { webhookService } from '@/lib/webhook-service';
+import { webhookEndpointSchema } from '@/lib/webhooks';
+import { getRequestTenantId } from '@/lib/tenant';
+
+/**
+ * GET /api/settings/webhooks
+ * List the tenant's webhook endpoints
+ */
+async function getWebhookEndpoints(request: NextRequest) {
+  try {
+    const data = await webhookService.listEndpoints(getRequestTenantId(request));
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    console.error('Get webhook endpoints error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/settings/webhooks
+ * Create a webhook endpoint. The signing secret is in the response only; it
+ * cannot be shown again.
+ */
+async function createWebhookEndpoint(request: NextRequest) {
+  try {
+    const validatedData = (request as any).validatedData as z.infer<typeof webhookEndpointSchema>;
+    const result = await webhookService.createEndpoint(getRequestTenantId(request), validatedData, (request as any).user);
+
+    if (!result.success) {
+      return NextResponse.json(result, { status: result.code === 'LIMIT_REACHED' ? 409 : 400 });
+    }
+
+    return NextResponse.json(
+      { success: true, message: 'Webhook endpoint created successfully', data: result.data },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Create webhook endpoint error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withRoleBasedAccess(getWebhookEndpoints, WorkflowAction.CONFIGURE_WORKFLOW);
+export const POST = withRoleBasedAccess(
+  withValidation(createWebhookEndpoint, webhookEndpointSchema),
+  WorkflowAction.CONFIGURE_WORKFLOW
+);
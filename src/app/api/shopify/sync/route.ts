@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withRoleBasedAccess, withValidation } from '@/lib/api-middleware';
+import { WorkflowAction } from '@/types/workflow';
+import { integrationJobService } from '@/lib/integration-job-service';
+import { shopifySyncSchema } from '@/lib/shopify-sync';
+import { getRequestTenantId } from '@/lib/tenant';
+import { getErrorStatus } from '@/lib/api-status';
+
+/**
+ * POST /api/shopify/sync
+ * Queue a sync with a Shopify shop in one or both directions. Linked
+ * products are updated in place; the response is the queued job, which
+ * GET /api/jobs/[id] reports on.
+ */
+async function syncShopify(request: NextRequest) {
+  try {
+    const input = (request as any).validatedData as z.infer<typeof shopifySyncSchema>;
+    const result = await integrationJobService.enqueue(
+      getRequestTenantId(request),
+      { kind: 'shopify_sync', params: input },
+      (request as any).user
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error, code: result.code, data: result.data },
+        { status: getErrorStatus(result.code) }
+      );
+    }
+
+    return NextResponse.json({ success: true, message: 'Shopify sync queued.', data: result.data }, { status: 202 });
+  } catch (error) {
+    console.error('Shopify sync error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withRoleBasedAccess(
+  withValidation(syncShopify, shopifySyncSchema),
+  WorkflowAction.CREATE
+);
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withRoleBasedAccess } from '@/lib/api-middleware';
+import { WorkflowAction } from '@/types/workflow';
+import { shopifySyncService } from '@/lib/shopify-sync-service';
+import { getRequestTenantId } from '@/lib/tenant';
+
+/**
+ * GET /api/shopify/sync/runs
+ * The most recent Shopify sync runs, newest first
+ */
+async function getShopifySyncRuns(request: NextRequest) {
+  try {
+    const data = await shopifySyncService.listRuns(getRequestTenantId(request));
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    console.error('Get Shopify sync runs error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withRoleBasedAccess(getShopifySyncRuns, WorkflowAction.EXPORT_PRODUCTS);
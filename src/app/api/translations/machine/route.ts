@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withRoleBasedAccess, withValidation } from '@/lib/api-middleware';
+import { WorkflowAction, UserRole } from '@/types/workflow';
+import { translationService } from '@/lib/translation-service';
+import { machineTranslationSchema, type MachineTranslationInput } from '@/lib/machine-translation';
+import { getRequestTenantId } from '@/lib/tenant';
+
+/**
+ * POST /api/translations/machine
+ * Machine-translate a selection of products into the given (or all) target
+ * locales. Responds with what was translated and any errors per product.
+ */
+async function machineTranslate(request: NextRequest) {
+  try {
+    const user = (request as any).user;
+    const userId = user?.userId;
+    const userRole = user?.userRole as UserRole;
+    if (!userId || !userRole) {
+      return NextResponse.json(
+        { success: false, error: 'User authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const validatedData = (request as any).validatedData as MachineTranslationInput;
+    const result = await translationService.machineTranslate(
+      getRequestTenantId(request),
+      validatedData,
+      { userId, userRole, userName: user.userName }
+    );
+
+    if (!result.success) {
+      return NextResponse.json(result, { status: 400 });
+    }
+
+    const translated = result.data!.reduce((sum, r) => sum + r.translated.length, 0);
+    return NextResponse.json({
+      success: true,
+      message: `${translated} translations written for ${result.data!.length} products`,
+      data: result.data,
+    });
+  } catch (error) {
+    console.error('Machine translation error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withRoleBasedAccess(
+  withValidation(machineTranslate, machineTranslationSchema),
+  WorkflowAction.TRANSLATE
+);
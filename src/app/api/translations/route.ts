@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withRoleBasedAccess } from '@/lib/api-middleware';
+import { WorkflowAction } from '@/types/workflow';
+import type { TranslationStatus } from '@/types/translation';
+import { TRANSLATION_STATUSES } from '@/types/translation';
+import { translationService } from '@/lib/translation-service';
+import { getRequestTenantId } from '@/lib/tenant';
+
+/**
+ * GET /api/translations?locale=sv&status=missing,needs_review
+ * Get the translator queue for a target locale. Approved, up-to-date
+ * translations are left out.
+ */
+async function getTranslationQueue(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const locale = searchParams.get('locale');
+    if (!locale) {
+      return NextResponse.json(
+        { success: false, error: 'A target locale is required' },
+        { status: 400 }
+      );
+    }
+
+    const statuses = (searchParams.get('status') || '')
+      .split(',')
+      .filter((status): status is TranslationStatus => TRANSLATION_STATUSES.includes(status as TranslationStatus));
+
+    const result = await translationService.getQueue(getRequestTenantId(request), locale, statuses);
+    if (!result.success) {
+      return NextResponse.json(result, { status: 400 });
+    }
+
+    return NextResponse.json({ success: true, data: result.data });
+  } catch (error) {
+    console.error('Get translation queue error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withRoleBasedAccess(getTranslationQueue, WorkflowAction.TRANSLATE);
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withApiKey, withValidation } from '@/lib/api-middleware';
+import { categoryService } from '@/lib/category-service';
+import { toMultilingualString } from '@/lib/locales';
+import { v1CategoryUpdateSchema, type V1CategoryUpdateInput } from '@/lib/api-v1-schemas';
+import type { MultilingualString } from '@/types/product';
+import { getErrorStatus } from '@/lib/api-status';
+
+/**
+ * GET /api/v1/categories/[id]
+ */
+async function getCategory(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const result = await categoryService.getCategory(id);
+    return NextResponse.json(result, { status: result.success ? 200 : 404 });
+  } catch (error) {
+    console.error('API v1 get category error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/v1/categories/[id]
+ * Rename a category or change its slug; name locales left out keep their text
+ */
+async function updateCategory(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const validatedData = (request as any).validatedData as V1CategoryUpdateInput;
+
+    let name: MultilingualString | undefined;
+    if (validatedData.name) {
+      const existing = await categoryService.getCategory(id);
+      if (!existing.success) {
+        return NextResponse.json(existing, { status: 404 });
+      }
+      name = toMultilingualString({ ...existing.data!.name, ...validatedData.name });
+    }
+
+    const result = await categoryService.updateCategory(id, { slug: validatedData.slug, name });
+    return NextResponse.json(result, { status: result.success ? 200 : getErrorStatus(result.code) });
+  } catch (error) {
+    console.error('API v1 update category error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withApiKey(getCategory, 'read');
+export const PATCH = withApiKey(withValidation(updateCategory, v1CategoryUpdateSchema), 'write');
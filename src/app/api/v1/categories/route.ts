@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withApiKey, withValidation } from '@/lib/api-middleware';
+import { categoryService } from '@/lib/category-service';
+import { toMultilingualString } from '@/lib/locales';
+import { v1CategoryCreateSchema, type V1CategoryCreateInput } from '@/lib/api-v1-schemas';
+import { getErrorStatus } from '@/lib/api-status';
+
+/**
+ * GET /api/v1/categories
+ * All categories as a flat list; the tree follows from parentId and order
+ */
+async function listCategories() {
+  try {
+    const data = await categoryService.listCategories();
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    console.error('API v1 list categories error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/v1/categories
+ */
+async function createCategory(request: NextRequest) {
+  try {
+    const validatedData = (request as any).validatedData as V1CategoryCreateInput;
+    const result = await categoryService.createCategory({
+      ...validatedData,
+      name: toMultilingualString(validatedData.name),
+    });
+
+    if (!result.success) {
+      return NextResponse.json(result, { status: getErrorStatus(result.code) });
+    }
+
+    return NextResponse.json({ success: true, data: result.data }, { status: 201 });
+  } catch (error) {
+    console.error('API v1 create category error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withApiKey(listCategories, 'read');
+export const POST = withApiKey(withValidation(createCategory, v1CategoryCreateSchema), 'write');
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withApiKey, withValidation } from '@/lib/api-middleware';
+import { v1GraphQLRequestSchema, type V1GraphQLRequest } from '@/lib/api-v1-schemas';
+import { graphqlService } from '@/lib/graphql-service';
+
+/**
+ * POST /api/v1/graphql
+ * Run a read-only GraphQL query. Storefront keys without the `read` scope
+ * only see published products.
+ */
+async function runQuery(request: NextRequest) {
+  try {
+    const input = (request as any).validatedData as V1GraphQLRequest;
+    const result = await graphqlService.execute(input, (request as any).user);
+    return NextResponse.json(result.body, { status: result.status });
+  } catch (error) {
+    console.error('API v1 GraphQL error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withApiKey(withValidation(runQuery, v1GraphQLRequestSchema), ['read', 'storefront']);
@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { getApiV1OpenApiDocument } from '@/lib/api-v1-openapi';
+
+/**
+ * GET /api/v1/openapi.json
+ * The OpenAPI 3.1 document for /api/v1, generated from the schemas the
+ * routes validate with. Public, so API clients can be generated from it.
+ */
+export async function GET() {
+  try {
+    return NextResponse.json(getApiV1OpenApiDocument());
+  } catch (error) {
+    console.error('API v1 OpenAPI document error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withApiKey } from '@/lib/api-middleware';
+import { apiV1Service } from '@/lib/api-v1-service';
+
+/**
+ * DELETE /api/v1/products/[id]/media/[mediaId]
+ * Remove media from a product and from the variants that show it
+ */
+async function deleteMedia(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; mediaId: string }> }
+) {
+  try {
+    const { id, mediaId } = await params;
+    const result = await apiV1Service.deleteMedia(id, mediaId, (request as any).user);
+
+    if (!result.success) {
+      return NextResponse.json(result, { status: result.code === 'NOT_FOUND' ? 404 : 400 });
+    }
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error('API v1 delete media error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const DELETE = withApiKey(deleteMedia, 'write');
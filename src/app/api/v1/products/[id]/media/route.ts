@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withApiKey, withValidation } from '@/lib/api-middleware';
+import { apiV1Service } from '@/lib/api-v1-service';
+import { v1MediaCreateSchema, type V1MediaCreateInput } from '@/lib/api-v1-schemas';
+import { getErrorStatus } from '@/lib/api-status';
+
+/**
+ * GET /api/v1/products/[id]/media
+ * All media of a product: images first, then videos, 3D models, manuals
+ * and certificates
+ */
+async function listMedia(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const result = await apiV1Service.listMedia(id);
+    return NextResponse.json(result, { status: result.success ? 200 : getErrorStatus(result.code) });
+  } catch (error) {
+    console.error('API v1 list media error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/v1/products/[id]/media
+ * Add an image, video, 3D model, manual or certificate by URL
+ */
+async function addMedia(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const validatedData = (request as any).validatedData as V1MediaCreateInput;
+    const result = await apiV1Service.addMedia(id, validatedData, (request as any).user);
+
+    if (!result.success) {
+      return NextResponse.json(result, { status: getErrorStatus(result.code) });
+    }
+
+    return NextResponse.json({ success: true, data: result.data }, { status: 201 });
+  } catch (error) {
+    console.error('API v1 add media error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withApiKey(listMedia, 'read');
+export const POST = withApiKey(withValidation(addMedia, v1MediaCreateSchema), 'write');
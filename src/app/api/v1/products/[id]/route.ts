@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withApiKey, withValidation } from '@/lib/api-middleware';
+import { apiV1Service } from '@/lib/api-v1-service';
+import { v1ProductUpdateSchema, type V1ProductUpdateInput } from '@/lib/api-v1-schemas';
+import { getErrorStatus } from '@/lib/api-status';
+
+/**
+ * GET /api/v1/products/[id]
+ */
+async function getProduct(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const result = await apiV1Service.getProduct(id);
+    return NextResponse.json(result, { status: result.success ? 200 : getErrorStatus(result.code) });
+  } catch (error) {
+    console.error('API v1 get product error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/v1/products/[id]
+ * Update a product. Sections and fields left out are kept, localized text
+ * merges per locale, and lists given replace the stored list.
+ */
+async function updateProduct(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const validatedData = (request as any).validatedData as V1ProductUpdateInput;
+    const result = await apiV1Service.updateProduct(id, validatedData, (request as any).user);
+    return NextResponse.json(result, { status: result.success ? 200 : getErrorStatus(result.code) });
+  } catch (error) {
+    console.error('API v1 update product error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/v1/products/[id]
+ */
+async function deleteProduct(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const result = await apiV1Service.deleteProduct(id, (request as any).user);
+
+    if (!result.success) {
+      return NextResponse.json(result, { status: getErrorStatus(result.code) });
+    }
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error('API v1 delete product error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withApiKey(getProduct, 'read');
+export const PATCH = withApiKey(withValidation(updateProduct, v1ProductUpdateSchema), 'write');
+export const DELETE = withApiKey(deleteProduct, 'write');
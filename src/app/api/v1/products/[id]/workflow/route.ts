@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withApiKey, withValidation } from '@/lib/api-middleware';
+import { apiV1Service } from '@/lib/api-v1-service';
+import { v1WorkflowTransitionSchema, type V1WorkflowTransitionInput } from '@/lib/api-v1-schemas';
+import { getErrorStatus } from '@/lib/api-status';
+
+/**
+ * GET /api/v1/products/[id]/workflow
+ * The product's workflow state, the transitions available from it with the
+ * scope each needs, and its history
+ */
+async function getWorkflow(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const result = await apiV1Service.getWorkflow(id);
+    return NextResponse.json(result, { status: result.success ? 200 : getErrorStatus(result.code) });
+  } catch (error) {
+    console.error('API v1 get workflow error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/v1/products/[id]/workflow
+ * Move the product to another workflow state. Every key needs `write`;
+ * approving, rejecting, publishing and unpublishing also need `publish`.
+ */
+async function transitionProduct(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const validatedData = (request as any).validatedData as V1WorkflowTransitionInput;
+    const result = await apiV1Service.transition(id, validatedData, (request as any).user);
+    return NextResponse.json(result, { status: result.success ? 200 : getErrorStatus(result.code) });
+  } catch (error) {
+    console.error('API v1 workflow transition error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withApiKey(getWorkflow, 'read');
+export const POST = withApiKey(withValidation(transitionProduct, v1WorkflowTransitionSchema), 'write');
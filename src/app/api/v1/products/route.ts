@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withApiKey, withValidation } from '@/lib/api-middleware';
+import { apiV1Service } from '@/lib/api-v1-service';
+import {
+  v1ProductCreateSchema,
+  v1ProductListQuerySchema,
+  type V1ProductCreateInput,
+  type V1ProductListQuery,
+} from '@/lib/api-v1-schemas';
+import { InvalidCursorError } from '@/lib/product-cursor';
+import { getErrorStatus } from '@/lib/api-status';
+
+/**
+ * GET /api/v1/products
+ * List products, last updated first or ranked by relevance with `search`.
+ * Pass the returned `nextCursor` as `cursor` for the next page.
+ */
+async function listProducts(request: NextRequest) {
+  try {
+    const query = (request as any).validatedData as V1ProductListQuery;
+    const data = await apiV1Service.listProducts(query);
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    if (error instanceof InvalidCursorError) {
+      return NextResponse.json(
+        { success: false, error: error.message, code: 'INVALID_CURSOR' },
+        { status: 400 }
+      );
+    }
+
+    console.error('API v1 list products error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/v1/products
+ * Create a product as a draft
+ */
+async function createProduct(request: NextRequest) {
+  try {
+    const validatedData = (request as any).validatedData as V1ProductCreateInput;
+    const result = await apiV1Service.createProduct(validatedData, (request as any).user);
+
+    if (!result.success) {
+      return NextResponse.json(result, { status: getErrorStatus(result.code) });
+    }
+
+    return NextResponse.json({ success: true, data: result.data }, { status: 201 });
+  } catch (error) {
+    console.error('API v1 create product error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withApiKey(
+  withValidation(listProducts, v1ProductListQuerySchema, { validateQuery: true }),
+  'read'
+);
+export const POST = withApiKey(withValidation(createProduct, v1ProductCreateSchema), 'write');
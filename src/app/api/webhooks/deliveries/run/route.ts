@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withRoleBasedAccess } from '@/lib/api-middleware';
+import { WorkflowAction } from '@/types/workflow';
+import { webhookService } from '@/lib/webhook-service';
+import { getRequestTenantId } from '@/lib/tenant';
+
+/**
+ * POST /api/webhooks/deliveries/run
+ * Retry every webhook delivery whose next attempt is due. Meant to be called
+ * by a cron job every minute.
+ */
+async function runWebhookDeliveries(request: NextRequest) {
+  try {
+    const result = await webhookService.runDueDeliveries(getRequestTenantId(request));
+    return NextResponse.json({ success: true, data: result.data });
+  } catch (error) {
+    console.error('Run webhook deliveries error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withRoleBasedAccess(runWebhookDeliveries, WorkflowAction.CONFIGURE_WORKFLOW);
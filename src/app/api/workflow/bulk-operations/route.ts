@@ -1,9 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { WorkflowStateManager } from '@/lib/workflow-state-manager';
-import { RolePermissions } from '@/lib/role-permissions';
+import { withRoleBasedAccess } from '@/lib/api-middleware';
 import { AuditTrailBulkOperationsService } from '@/lib/audit-trail-bulk-operations';
-import { WorkflowState, WorkflowAction, UserRole } from '@/types/workflow';
+import { productService } from '@/lib/product-service';
+import { localeService } from '@/lib/locale-service';
+import { getRequestTenantId } from '@/lib/tenant';
+import { WorkflowState, WorkflowAction, UserRole, ProductWorkflow } from '@/types/workflow';
+import { Product } from '@/types/product';
 
 // Validation schemas
 const BulkOperationRequestSchema = z.object({
@@ -56,7 +60,6 @@ const BulkOperationResponseSchema = z.object({
 
 // Initialize services
 const workflowStateManager = new WorkflowStateManager();
-const rolePermissions = new RolePermissions();
 const bulkOperationsService = new AuditTrailBulkOperationsService();
 
 // In-memory operation tracking (in production, use Redis or database)
@@ -64,45 +67,30 @@ const activeOperations = new Map<string, any>();
 
 /**
  * POST /api/workflow/bulk-operations
- * Execute bulk operations on multiple products
+ * Execute bulk operations on multiple products. The request must name
+ * products or filter them; an empty filter is refused rather than applied
+ * to the whole catalog.
  */
-export async function POST(request: NextRequest) {
+async function startBulkOperation(request: NextRequest) {
   try {
     // Parse and validate request body
     const body = await request.json();
     const validatedData = BulkOperationRequestSchema.parse(body);
     
     const { operation, filters, options = {} } = validatedData;
+    const { userId, userName, userRole } = (request as any).user as {
+      userId: string;
+      userName: string;
+      userRole: UserRole;
+    };
 
-    // Extract user context from headers
-    const userId = request.headers.get('x-user-id');
-    const userRole = request.headers.get('x-user-role') as UserRole;
-    const userName = request.headers.get('x-user-name') || 'Unknown User';
-
-    if (!userId || !userRole) {
+    if (!hasProductSelection(filters)) {
       return NextResponse.json(
         { 
           success: false, 
-          error: 'User authentication required' 
+          error: 'Specify productIds or at least one filter' 
         },
-        { status: 401 }
-      );
-    }
-
-    // Check if user has permission for bulk operations
-    const hasPermission = await rolePermissions.hasPermission(
-      userRole,
-      WorkflowAction.BULK_OPERATIONS,
-      { userId }
-    );
-
-    if (!hasPermission.isValid) {
-      return NextResponse.json(
-        { 
-          success: false, 
-          error: `Insufficient permissions: ${hasPermission.reason}` 
-        },
-        { status: 403 }
+        { status: 400 }
       );
     }
 
@@ -184,7 +172,7 @@ export async function POST(request: NextRequest) {
       userId,
       userName,
       userRole,
-    });
+    }, getRequestTenantId(request));
 
     // Return immediate response
     const response = BulkOperationResponseSchema.parse({
@@ -235,38 +223,10 @@ export async function POST(request: NextRequest) {
  * GET /api/workflow/bulk-operations
  * Get status of bulk operations
  */
-export async function GET(request: NextRequest) {
+async function getBulkOperations(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const operationId = searchParams.get('operationId');
-    const userRole = request.headers.get('x-user-role') as UserRole;
-
-    if (!userRole) {
-      return NextResponse.json(
-        { 
-          success: false, 
-          error: 'User authentication required' 
-        },
-        { status: 401 }
-      );
-    }
-
-    // Check if user has permission to view bulk operations
-    const hasPermission = await rolePermissions.hasPermission(
-      userRole,
-      WorkflowAction.VIEW_BULK_OPERATIONS,
-      {}
-    );
-
-    if (!hasPermission.isValid) {
-      return NextResponse.json(
-        { 
-          success: false, 
-          error: `Insufficient permissions: ${hasPermission.reason}` 
-        },
-        { status: 403 }
-      );
-    }
 
     if (operationId) {
       // Get specific operation status
@@ -313,11 +273,10 @@ export async function GET(request: NextRequest) {
  * DELETE /api/workflow/bulk-operations
  * Cancel a bulk operation
  */
-export async function DELETE(request: NextRequest) {
+async function cancelBulkOperation(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const operationId = searchParams.get('operationId');
-    const userRole = request.headers.get('x-user-role') as UserRole;
 
     if (!operationId) {
       return NextResponse.json(
@@ -329,33 +288,6 @@ export async function DELETE(request: NextRequest) {
       );
     }
 
-    if (!userRole) {
-      return NextResponse.json(
-        { 
-          success: false, 
-          error: 'User authentication required' 
-        },
-        { status: 401 }
-      );
-    }
-
-    // Check if user has permission to cancel bulk operations
-    const hasPermission = await rolePermissions.hasPermission(
-      userRole,
-      WorkflowAction.CANCEL_BULK_OPERATIONS,
-      {}
-    );
-
-    if (!hasPermission.isValid) {
-      return NextResponse.json(
-        { 
-          success: false, 
-          error: `Insufficient permissions: ${hasPermission.reason}` 
-        },
-        { status: 403 }
-      );
-    }
-
     const operation = activeOperations.get(operationId);
     if (!operation) {
       return NextResponse.json(
@@ -388,15 +320,34 @@ export async function DELETE(request: NextRequest) {
   }
 }
 
+export const POST = withRoleBasedAccess(startBulkOperation, WorkflowAction.BULK_OPERATIONS);
+export const GET = withRoleBasedAccess(getBulkOperations, WorkflowAction.VIEW_BULK_OPERATIONS);
+export const DELETE = withRoleBasedAccess(cancelBulkOperation, WorkflowAction.CANCEL_BULK_OPERATIONS);
+
 // Helper functions
-async function getProductsForBulkOperation(filters: any) {
-  // This is a placeholder - replace with your actual database query
-  // For now, return mock products
-  return [
-    { id: 'product-1', workflowState: WorkflowState.DRAFT },
-    { id: 'product-2', workflowState: WorkflowState.REVIEW },
-    { id: 'product-3', workflowState: WorkflowState.APPROVED },
-  ];
+type BulkOperationFilters = z.infer<typeof BulkOperationRequestSchema>['filters'];
+
+function hasProductSelection(filters: BulkOperationFilters): boolean {
+  return !!(
+    filters?.productIds?.length ||
+    filters?.states?.length ||
+    filters?.assignedReviewer ||
+    filters?.dateRange?.start ||
+    filters?.dateRange?.end
+  );
+}
+
+async function getProductsForBulkOperation(filters: BulkOperationFilters): Promise<Product[]> {
+  const products = filters?.productIds?.length
+    ? (await Promise.all(filters.productIds.map(id => productService.getProductById(id)))).filter((p): p is Product => !!p)
+    : await productService.getAllProducts();
+
+  return products.filter(product =>
+    (!filters?.states?.length || filters.states.includes(product.workflowState || WorkflowState.DRAFT)) &&
+    (!filters?.assignedReviewer || product.assignedReviewer?.userId === filters.assignedReviewer) &&
+    (!filters?.dateRange?.start || product.updatedAt >= filters.dateRange.start) &&
+    (!filters?.dateRange?.end || product.updatedAt <= filters.dateRange.end)
+  );
 }
 
 function getTargetState(action: WorkflowAction, currentState: WorkflowState): WorkflowState {
@@ -426,9 +377,10 @@ function getTargetState(action: WorkflowAction, currentState: WorkflowState): Wo
 async function executeBulkOperationAsync(
   operationId: string,
   bulkOperationId: string,
-  products: any[],
+  products: Product[],
   operation: any,
-  user: { userId: string; userName: string; userRole: UserRole }
+  user: { userId: string; userName: string; userRole: UserRole },
+  tenantId: string
 ) {
   const batchSize = 10;
   const totalBatches = Math.ceil(products.length / batchSize);
@@ -456,6 +408,9 @@ async function executeBulkOperationAsync(
   });
 
   try {
+    // Publishing requires the same translations as a single-product publish
+    const translationRequirement = await localeService.getPublishRequirement(tenantId);
+
     // Process products in batches
     for (let batchIndex = 0; batchIndex < totalBatches; batchIndex++) {
       const startIndex = batchIndex * batchSize;
@@ -465,21 +420,26 @@ async function executeBulkOperationAsync(
       // Process batch
       for (const product of batch) {
         try {
+          const fromState = product.workflowState || WorkflowState.DRAFT;
+
           // Execute state transition
           const transitionResult = await workflowStateManager.executeStateTransition(
-            product,
-            operation.action,
             {
+              productId: product.id,
+              fromState,
+              toState: getTargetState(operation.action, fromState),
               userId: user.userId,
-              userName: user.userName,
+              userRole: user.userRole,
               reason: operation.reason,
-              metadata: operation.metadata,
-            }
+              assignedReviewer: operation.metadata?.assignedReviewer,
+              translationRequirement,
+            },
+            { ...product, workflowHistory: product.workflowHistory || [] } as unknown as ProductWorkflow
           );
 
-          if (transitionResult.success) {
+          if (transitionResult.success && transitionResult.newState) {
             // Update product in database
-            await updateProductState(product.id, transitionResult.newState);
+            await updateProductState(product, transitionResult.newState, user, tenantId, operation.reason);
             
             // Create audit trail entry
             await bulkOperationsService.logBulkOperationItem(
@@ -523,17 +483,17 @@ async function executeBulkOperationAsync(
       }
 
       // Update operation progress
-      const operation = activeOperations.get(operationId);
-      if (operation) {
-        operation.processedItems = processedItems;
-        operation.successfulItems = successfulItems;
-        operation.failedItems = failedItems;
-        operation.progress = {
+      const tracked = activeOperations.get(operationId);
+      if (tracked) {
+        tracked.processedItems = processedItems;
+        tracked.successfulItems = successfulItems;
+        tracked.failedItems = failedItems;
+        tracked.progress = {
           percentage: Math.round((processedItems / products.length) * 100),
           currentBatch: batchIndex + 1,
           totalBatches,
         };
-        operation.results = results;
+        tracked.results = results;
       }
 
       // Small delay between batches to prevent overwhelming the system
@@ -541,10 +501,10 @@ async function executeBulkOperationAsync(
     }
 
     // Mark operation as completed
-    const operation = activeOperations.get(operationId);
-    if (operation) {
-      operation.status = 'completed';
-      operation.completedAt = new Date().toISOString();
+    const tracked = activeOperations.get(operationId);
+    if (tracked) {
+      tracked.status = 'completed';
+      tracked.completedAt = new Date().toISOString();
     }
 
   } catch (error) {
@@ -558,12 +518,35 @@ async function executeBulkOperationAsync(
   }
 }
 
-async function updateProductState(productId: string, newState: WorkflowState) {
-  // This is a placeholder - replace with your actual database update
-  console.log(`Updating product ${productId} to state ${newState}`);
-  return {
-    id: productId,
+async function updateProductState(
+  product: Product,
+  newState: WorkflowState,
+  user: { userId: string; userName: string },
+  tenantId: string,
+  reason?: string
+) {
+  const now = new Date().toISOString();
+  await productService.updateProduct(product.id, {
+    ...product,
     workflowState: newState,
-    updatedAt: new Date().toISOString(),
-  };
+    workflowHistory: [
+      ...(product.workflowHistory || []),
+      {
+        id: `history_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        action: 'STATE_CHANGE',
+        fromState: product.workflowState || WorkflowState.DRAFT,
+        toState: newState,
+        userId: user.userId,
+        userName: user.userName,
+        timestamp: now,
+        reason: reason || 'Bulk operation',
+      },
+    ],
+    updatedAt: now,
+  }, {
+    userId: user.userId,
+    userName: user.userName,
+    reason: reason || 'Bulk operation',
+    tenantId,
+  });
 }
@@ -17,6 +17,9 @@ jest.mock('@/lib/workflow-state-manager');
 jest.mock('@/lib/role-permissions');
 jest.mock('@/lib/audit-trail-integration');
 jest.mock('@/lib/concurrent-editing-manager');
+jest.mock('@/lib/locale-service', () => ({
+  localeService: { getPublishRequirement: jest.fn().mockResolvedValue(undefined) },
+}));
 
 // Import the route handlers after mocking
 const { POST, GET } = require('./route');
@@ -4,6 +4,8 @@ import { WorkflowStateManager } from '@/lib/workflow-state-manager';
 import { RolePermissions } from '@/lib/role-permissions';
 import { AuditTrailIntegration } from '@/lib/audit-trail-integration';
 import { ConcurrentEditingManager } from '@/lib/concurrent-editing-manager';
+import { localeService } from '@/lib/locale-service';
+import { getRequestTenantId } from '@/lib/tenant';
 import { WorkflowState, WorkflowAction, UserRole, PermissionCheckContext } from '@/types/workflow';
 
 // Validation schemas
@@ -120,6 +122,7 @@ export async function POST(request: NextRequest) {
         userRole,
         reason,
         assignedReviewer: metadata?.assignedReviewer,
+        translationRequirement: await localeService.getPublishRequirement(getRequestTenantId(request)),
       },
       currentProduct
     );
@@ -0,0 +1,189 @@
+'use client';
+
+import type { AttributeDefinition, AttributeFamily, AttributeValue, AttributeValues, QuantityValue } from '@/types/attribute';
+import type { MultilingualString } from '@/types/product';
+import { getAttributeLabel, validateAttributeValue, isAttributeValueEmpty } from '@/lib/attribute-validation';
+import { getUnitsForDimension, normalizeQuantity } from '@/lib/units-of-measure';
+import { MultilingualInput } from '@/components/shared/multilingual-input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+
+const EMPTY_VALUE = '__none__';
+
+interface AttributeValuesEditorProps {
+  family: AttributeFamily;
+  values: AttributeValues;
+  onChange: (values: AttributeValues) => void;
+  locale?: string;
+  disabled?: boolean;
+}
+
+interface AttributeInputProps {
+  definition: AttributeDefinition;
+  value: AttributeValue | undefined;
+  onChange: (value: AttributeValue) => void;
+  locale: string;
+  disabled: boolean;
+}
+
+function AttributeInput({ definition, value, onChange, locale, disabled }: AttributeInputProps) {
+  const id = `attribute-${definition.code}`;
+
+  switch (definition.type) {
+    case 'number': {
+      const quantity = typeof value === 'number' ? { value, unit: definition.unit } : (value as QuantityValue | undefined);
+      const unit = quantity?.unit || definition.unit;
+      const units = definition.dimension ? getUnitsForDimension(definition.dimension) : [];
+      return (
+        <div className="flex items-center gap-2">
+          <Input
+            id={id}
+            type="number"
+            step={definition.constraints?.integer ? 1 : 'any'}
+            value={quantity?.value ?? ''}
+            disabled={disabled}
+            onChange={(e) => onChange(e.target.value === '' ? null : normalizeQuantity(parseFloat(e.target.value), unit))}
+          />
+          {units.length > 0 ? (
+            <Select
+              value={unit}
+              onValueChange={(nextUnit) => quantity && onChange(normalizeQuantity(quantity.value, nextUnit))}
+              disabled={disabled || !quantity}
+            >
+              <SelectTrigger className="w-28"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {units.map(u => <SelectItem key={u.code} value={u.code}>{u.code}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          ) : (
+            unit && <span className="text-sm text-muted-foreground">{unit}</span>
+          )}
+        </div>
+      );
+    }
+    case 'boolean':
+      return (
+        <div className="flex items-center gap-2 h-10">
+          <Checkbox id={id} checked={value === true} disabled={disabled} onCheckedChange={(checked) => onChange(checked === true)} />
+          <Label htmlFor={id} className="font-normal">Yes</Label>
+        </div>
+      );
+    case 'enum': {
+      if (definition.constraints?.multiple) {
+        const selected = Array.isArray(value) ? value : [];
+        return (
+          <div className="flex flex-wrap gap-4">
+            {(definition.options || []).map(option => (
+              <div key={option.value} className="flex items-center gap-2">
+                <Checkbox
+                  id={`${id}-${option.value}`}
+                  checked={selected.includes(option.value)}
+                  disabled={disabled}
+                  onCheckedChange={(checked) => onChange(
+                    checked === true ? [...selected, option.value] : selected.filter(v => v !== option.value)
+                  )}
+                />
+                <Label htmlFor={`${id}-${option.value}`} className="font-normal">
+                  {option.label?.[locale] || option.label?.en || option.value}
+                </Label>
+              </div>
+            ))}
+          </div>
+        );
+      }
+      return (
+        <Select
+          value={typeof value === 'string' && value ? value : EMPTY_VALUE}
+          onValueChange={(v) => onChange(v === EMPTY_VALUE ? null : v)}
+          disabled={disabled}
+        >
+          <SelectTrigger id={id}><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value={EMPTY_VALUE}>(Not set)</SelectItem>
+            {(definition.options || []).map(option => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label?.[locale] || option.label?.en || option.value}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    }
+    case 'date':
+      return (
+        <Input
+          id={id}
+          type="date"
+          value={typeof value === 'string' ? value : ''}
+          min={definition.constraints?.minDate}
+          max={definition.constraints?.maxDate}
+          disabled={disabled}
+          onChange={(e) => onChange(e.target.value || null)}
+        />
+      );
+    case 'multilingual':
+      return (
+        <MultilingualInput
+          id={id}
+          label=""
+          value={(value as MultilingualString) || { en: '', no: '' }}
+          onChange={onChange}
+          disabled={disabled}
+        />
+      );
+    default:
+      return (
+        <Input
+          id={id}
+          value={typeof value === 'string' ? value : ''}
+          maxLength={definition.constraints?.maxLength}
+          disabled={disabled}
+          onChange={(e) => onChange(e.target.value)}
+        />
+      );
+  }
+}
+
+/**
+ * Renders one typed input per attribute of the family, with inline
+ * constraint errors and required markers.
+ */
+export function AttributeValuesEditor({ family, values, onChange, locale = 'en', disabled = false }: AttributeValuesEditorProps) {
+  if (family.attributes.length === 0) {
+    return <p className="text-sm text-muted-foreground">This family has no attributes.</p>;
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+      {family.attributes.map(definition => {
+        const value = values[definition.code];
+        const error = validateAttributeValue(definition, value);
+        const missing = definition.required && isAttributeValueEmpty(definition, value);
+
+        return (
+          <div key={definition.code} className={cn('space-y-2', definition.type === 'multilingual' && 'md:col-span-2')}>
+            <Label htmlFor={`attribute-${definition.code}`} className="text-[#111818] font-semibold">
+              {getAttributeLabel(definition, locale)}
+              {definition.required && <span className="text-destructive">*</span>}
+            </Label>
+            <AttributeInput
+              definition={definition}
+              value={value}
+              locale={locale}
+              disabled={disabled}
+              onChange={(next) => onChange({ ...values, [definition.code]: next })}
+            />
+            {definition.helpText && (
+              <p className="text-xs text-muted-foreground">{definition.helpText[locale] || definition.helpText.en}</p>
+            )}
+            {error && <p className="text-sm font-medium text-destructive">{getAttributeLabel(definition, locale)} {error}</p>}
+            {!error && missing && <p className="text-xs text-amber-600">Required for completeness</p>}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import type { Category } from '@/types/category';
+import { buildCategoryTree, flattenCategoryTree, getCategoryDisplayName, resolveCategoryNames } from '@/lib/category-tree';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { FolderTree, X } from 'lucide-react';
+
+interface CategoryPickerProps {
+  categories: Category[];
+  value: string[];
+  onChange: (value: string[]) => void;
+  locale?: string;
+  disabled?: boolean;
+}
+
+export function CategoryPicker({ categories, value, onChange, locale = 'en', disabled = false }: CategoryPickerProps) {
+  const [open, setOpen] = useState(false);
+  const [filter, setFilter] = useState('');
+
+  const flatTree = useMemo(() => flattenCategoryTree(buildCategoryTree(categories)), [categories]);
+  const knownIds = useMemo(() => new Set(categories.map(c => c.id)), [categories]);
+
+  const visibleNodes = useMemo(() => {
+    const term = filter.trim().toLowerCase();
+    if (!term) return flatTree;
+    return flatTree.filter(node =>
+      Object.values(node.name || {}).some(name => typeof name === 'string' && name.toLowerCase().includes(term))
+    );
+  }, [flatTree, filter]);
+
+  const toggle = (id: string) => {
+    onChange(value.includes(id) ? value.filter(v => v !== id) : [...value, id]);
+  };
+
+  const labels = resolveCategoryNames(value, categories, { locale, fullPath: true });
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-2">
+        {value.length === 0 && (
+          <span className="text-sm text-muted-foreground">No categories selected</span>
+        )}
+        {value.map((id, index) => (
+          <Badge
+            key={id}
+            variant={knownIds.has(id) ? 'secondary' : 'outline'}
+            className="flex items-center gap-1"
+            title={knownIds.has(id) ? undefined : 'Unmanaged category. Pick a category from the tree to replace it.'}
+          >
+            {labels[index]}
+            {!disabled && (
+              <button type="button" onClick={() => toggle(id)} aria-label={`Remove ${labels[index]}`}>
+                <X className="h-3 w-3 hover:text-destructive" />
+              </button>
+            )}
+          </Badge>
+        ))}
+      </div>
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button type="button" variant="outline" size="sm" disabled={disabled} className="border-[#eaf0f0]">
+            <FolderTree className="mr-2 h-4 w-4" /> Select categories
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-80 p-0" align="start">
+          <div className="p-2 border-b">
+            <Input
+              placeholder="Filter categories..."
+              value={filter}
+              onChange={(e) => setFilter(e.target.value)}
+              className="h-8"
+            />
+          </div>
+          <ScrollArea className="h-64">
+            <div className="p-2 space-y-1">
+              {visibleNodes.length === 0 && (
+                <p className="text-sm text-muted-foreground p-2">
+                  {categories.length === 0 ? 'No categories defined yet.' : 'No matching categories.'}
+                </p>
+              )}
+              {visibleNodes.map(node => (
+                <label
+                  key={node.id}
+                  className="flex items-center gap-2 rounded px-2 py-1 text-sm hover:bg-muted cursor-pointer"
+                  style={{ paddingLeft: filter ? undefined : `${node.depth * 16 + 8}px` }}
+                >
+                  <Checkbox checked={value.includes(node.id)} onCheckedChange={() => toggle(node.id)} />
+                  {getCategoryDisplayName(node, locale)}
+                </label>
+              ))}
+            </div>
+          </ScrollArea>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+'use client';
+
+import type { CategoryTreeNode } from '@/types/category';
+import { getCategoryDisplayName } from '@/lib/category-tree';
+import { Button } from '@/components/ui/button';
+import { ArrowDown, ArrowUp, ChevronRight, FolderInput, GitMerge, Pencil, PlusCircle, Trash2 } from 'lucide-react';
+
+interface CategoryTreeEditorProps {
+  nodes: CategoryTreeNode[];
+  onAddChild: (parent: CategoryTreeNode) => void;
+  onEdit: (node: CategoryTreeNode) => void;
+  onMove: (node: CategoryTreeNode) => void;
+  onMerge: (node: CategoryTreeNode) => void;
+  onDelete: (node: CategoryTreeNode) => void;
+  onReorder: (node: CategoryTreeNode, order: number) => void;
+  disabled?: boolean;
+}
+
+export function CategoryTreeEditor(props: CategoryTreeEditorProps) {
+  if (props.nodes.length === 0) {
+    return <p className="text-sm text-muted-foreground py-6 text-center">No categories yet. Create a root category to get started.</p>;
+  }
+
+  return (
+    <ul className="space-y-1">
+      {props.nodes.map((node, index) => (
+        <CategoryTreeRow key={node.id} node={node} index={index} siblingCount={props.nodes.length} {...props} />
+      ))}
+    </ul>
+  );
+}
+
+function CategoryTreeRow({
+  node,
+  index,
+  siblingCount,
+  ...props
+}: CategoryTreeEditorProps & { node: CategoryTreeNode; index: number; siblingCount: number }) {
+  const { onAddChild, onEdit, onMove, onMerge, onDelete, onReorder, disabled } = props;
+
+  return (
+    <li>
+      <div className="group flex items-center gap-2 rounded-md border border-[#eaf0f0] bg-white px-3 py-2">
+        <ChevronRight className="h-4 w-4 text-[#5e8787]" />
+        <div className="flex-1 min-w-0">
+          <p className="font-medium text-[#111818] truncate">{getCategoryDisplayName(node, 'en')}</p>
+          <p className="text-xs text-muted-foreground truncate">
+            {node.name.no && node.name.no !== node.name.en ? `${node.name.no} · ` : ''}/{node.slug}
+            {node.children.length > 0 && ` · ${node.children.length} subcategories`}
+          </p>
+        </div>
+        <div className="flex items-center gap-1">
+          <Button type="button" variant="ghost" size="icon" disabled={disabled || index === 0} onClick={() => onReorder(node, index - 1)} aria-label="Move up">
+            <ArrowUp className="h-4 w-4" />
+          </Button>
+          <Button type="button" variant="ghost" size="icon" disabled={disabled || index === siblingCount - 1} onClick={() => onReorder(node, index + 1)} aria-label="Move down">
+            <ArrowDown className="h-4 w-4" />
+          </Button>
+          <Button type="button" variant="ghost" size="icon" disabled={disabled} onClick={() => onAddChild(node)} aria-label="Add subcategory">
+            <PlusCircle className="h-4 w-4" />
+          </Button>
+          <Button type="button" variant="ghost" size="icon" disabled={disabled} onClick={() => onEdit(node)} aria-label="Rename">
+            <Pencil className="h-4 w-4" />
+          </Button>
+          <Button type="button" variant="ghost" size="icon" disabled={disabled} onClick={() => onMove(node)} aria-label="Move to another parent">
+            <FolderInput className="h-4 w-4" />
+          </Button>
+          <Button type="button" variant="ghost" size="icon" disabled={disabled} onClick={() => onMerge(node)} aria-label="Merge into another category">
+            <GitMerge className="h-4 w-4" />
+          </Button>
+          <Button type="button" variant="ghost" size="icon" disabled={disabled || node.children.length > 0} onClick={() => onDelete(node)} aria-label="Delete" className="text-destructive hover:text-destructive">
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+      {node.children.length > 0 && (
+        <div className="ml-6 mt-1 border-l border-[#eaf0f0] pl-3">
+          <CategoryTreeEditor {...props} nodes={node.children} />
+        </div>
+      )}
+    </li>
+  );
+}
@@ -0,0 +1,211 @@
+'use client';
+
+import { useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import type { Channel, ChannelOverride, ChannelOverrides } from '@/types/channel';
+import { CHANNEL_TYPE_LABELS } from '@/types/channel';
+import type { MediaEntry, MultilingualString, PriceEntry } from '@/types/product';
+import { getOverriddenFields } from '@/lib/channel-overrides';
+import { MultilingualInput } from '@/components/shared/multilingual-input';
+import { MediaEditor } from '@/components/products/media-editor';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { RotateCcw } from 'lucide-react';
+
+/**
+ * Base product values shown as placeholders, so editors can see what the
+ * channel falls back to.
+ */
+export interface ChannelOverrideBase {
+  name: MultilingualString;
+  descriptionShort: MultilingualString;
+  descriptionLong: MultilingualString;
+  seoTitle: MultilingualString;
+  seoDescription: MultilingualString;
+  keywords: string[];
+  standardPrice?: PriceEntry;
+  salePrice?: PriceEntry;
+}
+
+interface ChannelOverridesEditorProps {
+  channels: Channel[];
+  overrides: ChannelOverrides;
+  onChange: (overrides: ChannelOverrides) => void;
+  base: ChannelOverrideBase;
+}
+
+const emptyText = (): MultilingualString => ({ en: '', no: '' });
+
+interface PriceOverrideInputProps {
+  id: string;
+  label: string;
+  value: PriceEntry[] | undefined;
+  base?: PriceEntry;
+  defaultCurrency: string;
+  onChange: (value: PriceEntry[] | undefined) => void;
+}
+
+function PriceOverrideInput({ id, label, value, base, defaultCurrency, onChange }: PriceOverrideInputProps) {
+  const entry = value?.[0];
+  const currency = entry?.currency || defaultCurrency;
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id} className="text-[#111818] font-semibold">{label}</Label>
+      <div className="flex gap-2">
+        <Input
+          id={id}
+          type="number"
+          min={0}
+          step="any"
+          value={entry?.amount ?? ''}
+          placeholder={base ? String(base.amount) : ''}
+          onChange={(e) => onChange(e.target.value === ''
+            ? undefined
+            : [{ id: entry?.id || uuidv4(), amount: Number(e.target.value), currency }])}
+        />
+        <Input
+          className="w-24"
+          aria-label={`${label} currency`}
+          value={currency}
+          maxLength={3}
+          onChange={(e) => entry && onChange([{ ...entry, currency: e.target.value.toUpperCase() }])}
+        />
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Edits one product's overrides for each channel. Empty fields fall back to
+ * the product's base values.
+ */
+export function ChannelOverridesEditor({ channels, overrides, onChange, base }: ChannelOverridesEditorProps) {
+  const [channelId, setChannelId] = useState<string | undefined>(channels[0]?.id);
+  const channel = channels.find(c => c.id === channelId) || channels[0];
+
+  if (!channel) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No channels are configured. An administrator can add them under Settings → Channels.
+      </p>
+    );
+  }
+
+  const override: ChannelOverride = overrides[channel.id] || {};
+  const update = (changes: Partial<ChannelOverride>) => {
+    onChange({ ...overrides, [channel.id]: { ...override, ...changes } });
+  };
+  const reset = () => {
+    const { [channel.id]: _removed, ...rest } = overrides;
+    onChange(rest);
+  };
+  const defaultCurrency = channel.currency || base.standardPrice?.currency || 'NOK';
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-end justify-between gap-4 flex-wrap">
+        <div className="space-y-2 min-w-[240px]">
+          <Label className="text-[#111818] font-semibold">Channel</Label>
+          <Select value={channel.id} onValueChange={setChannelId}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {channels.map(c => {
+                const count = getOverriddenFields(overrides[c.id]).length;
+                return (
+                  <SelectItem key={c.id} value={c.id}>
+                    {c.name} · {CHANNEL_TYPE_LABELS[c.type]}{count > 0 ? ` (${count} overridden)` : ''}
+                  </SelectItem>
+                );
+              })}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button type="button" variant="outline" size="sm" onClick={reset} disabled={getOverriddenFields(override).length === 0}>
+          <RotateCcw className="mr-2 h-4 w-4" /> Reset to base values
+        </Button>
+      </div>
+
+      {!channel.active && <Badge variant="destructive">This channel is inactive and is not exported</Badge>}
+      <p className="text-sm text-[#5e8787]">Leave a field empty to use the product&apos;s base value, shown as the placeholder.</p>
+
+      <MultilingualInput
+        id={`channel-${channel.id}-name`}
+        label="Title"
+        value={override.name || emptyText()}
+        placeholder={base.name}
+        onChange={(name) => update({ name })}
+      />
+      <MultilingualInput
+        id={`channel-${channel.id}-description-short`}
+        label="Short description"
+        type="textarea"
+        value={override.descriptionShort || emptyText()}
+        placeholder={base.descriptionShort}
+        onChange={(descriptionShort) => update({ descriptionShort })}
+      />
+      <MultilingualInput
+        id={`channel-${channel.id}-description-long`}
+        label="Long description"
+        type="textarea"
+        value={override.descriptionLong || emptyText()}
+        placeholder={base.descriptionLong}
+        onChange={(descriptionLong) => update({ descriptionLong })}
+      />
+      <MultilingualInput
+        id={`channel-${channel.id}-seo-title`}
+        label="SEO title"
+        value={override.seoTitle || emptyText()}
+        placeholder={base.seoTitle}
+        onChange={(seoTitle) => update({ seoTitle })}
+      />
+      <MultilingualInput
+        id={`channel-${channel.id}-seo-description`}
+        label="SEO description"
+        type="textarea"
+        value={override.seoDescription || emptyText()}
+        placeholder={base.seoDescription}
+        onChange={(seoDescription) => update({ seoDescription })}
+      />
+
+      <div className="space-y-2">
+        <Label htmlFor={`channel-${channel.id}-keywords`} className="text-[#111818] font-semibold">Keywords/Tags</Label>
+        <Input
+          key={`${channel.id}-keywords`}
+          id={`channel-${channel.id}-keywords`}
+          defaultValue={(override.keywords || []).join(', ')}
+          placeholder={base.keywords.join(', ')}
+          onBlur={(e) => update({ keywords: e.target.value.split(',').map(k => k.trim()).filter(Boolean) })}
+        />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <PriceOverrideInput
+          id={`channel-${channel.id}-standard-price`}
+          label="Price"
+          value={override.standardPrice}
+          base={base.standardPrice}
+          defaultCurrency={defaultCurrency}
+          onChange={(standardPrice) => update({ standardPrice })}
+        />
+        <PriceOverrideInput
+          id={`channel-${channel.id}-sale-price`}
+          label="Sale price"
+          value={override.salePrice}
+          base={base.salePrice}
+          defaultCurrency={defaultCurrency}
+          onChange={(salePrice) => update({ salePrice })}
+        />
+      </div>
+
+      <MediaEditor
+        label="Images (replace the product images in this channel)"
+        entries={(override.images || []) as MediaEntry[]}
+        onChange={(images) => update({ images })}
+        allowedTypes={['image']}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+'use client';
+
+import type { Channel, ChannelType } from '@/types/channel';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+const BASE_VALUES = '__base__';
+
+interface ChannelSelectProps {
+  id: string;
+  channels: Channel[];
+  value: string | undefined;
+  onChange: (channelId: string | undefined) => void;
+  types?: ChannelType[]; // Only offer active channels of these types ('other' is always offered)
+  disabled?: boolean;
+}
+
+/**
+ * Picks the channel whose overrides an export applies. "Base values" exports
+ * the product without overrides.
+ */
+export function ChannelSelect({ id, channels, value, onChange, types, disabled = false }: ChannelSelectProps) {
+  const options = channels.filter(c => c.active && (!types || types.includes(c.type) || c.type === 'other'));
+
+  return (
+    <div className="space-y-1">
+      <Label htmlFor={id} className="text-sm font-medium">Channel</Label>
+      <Select
+        value={value && options.some(c => c.id === value) ? value : BASE_VALUES}
+        onValueChange={(next) => onChange(next === BASE_VALUES ? undefined : next)}
+        disabled={disabled}
+      >
+        <SelectTrigger id={id}><SelectValue /></SelectTrigger>
+        <SelectContent>
+          <SelectItem value={BASE_VALUES}>Base values (no overrides)</SelectItem>
+          {options.map(channel => (
+            <SelectItem key={channel.id} value={channel.id}>{channel.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
@@ -16,6 +16,10 @@ import {
   RefreshCw
 } from "lucide-react";
 import { useProductStore } from "@/lib/product-store";
+import { useAttributeFamilyStore } from "@/lib/attribute-family-store";
+import { useLocaleStore } from "@/lib/locale-store";
+import { findFamilyForProduct } from "@/lib/attribute-validation";
+import { createProductLookup } from "@/lib/bundles";
 import { QualityMetricCard } from "./quality-metric-card";
 import { QualityIssueList } from "./quality-issue-list";
 import { QualityChart } from "./quality-chart";
@@ -38,10 +42,14 @@ interface ComponentQualityIssue {
 
 export function QualityWidget() {
   const { products, fetchProducts, recalculateAllQuality } = useProductStore();
+  const { families, fetchFamilies } = useAttributeFamilyStore();
+  const { settings: localeSettings, ensureLoaded: ensureLocalesLoaded } = useLocaleStore();
   
   // Ensure we fetch products, but only once on mount to prevent loops
   useEffect(() => {
     fetchProducts();
+    fetchFamilies();
+    ensureLocalesLoaded();
   }, []); // Remove `fetchProducts` from deps to prevent strict-mode double fetch issues if its reference changes
 
   const router = useRouter();
@@ -123,9 +131,12 @@ export function QualityWidget() {
       };
     }
 
+    // Bundle components may be outside the status filter
+    const lookup = createProductLookup(products);
+
     // Use existing quality metrics when available to avoid recalculation
     const metrics = filteredProducts.map(product => 
-      product.qualityMetrics || calculateQualityMetrics(product)
+      product.qualityMetrics || calculateQualityMetrics(product, findFamilyForProduct(families, product), localeSettings, lookup)
     );
     const averageCompleteness = Math.round(
       metrics.reduce((sum, metric) => sum + metric.completenessScore, 0) / Math.max(metrics.length, 1)
@@ -154,7 +165,7 @@ export function QualityWidget() {
 
     // Missing required fields issue
     const missingFieldsCount = filteredProducts.filter(p => {
-      const metrics = calculateQualityMetrics(p);
+      const metrics = calculateQualityMetrics(p, findFamilyForProduct(families, p), localeSettings, lookup);
       return metrics.missingFields.length > 0;
     }).length;
     if (missingFieldsCount > 0) {
@@ -169,7 +180,7 @@ export function QualityWidget() {
 
     // Validation errors issue
     const validationErrorsCount = filteredProducts.filter(p => {
-      const errors = validateProduct(p);
+      const errors = validateProduct(p, findFamilyForProduct(families, p), localeSettings, lookup);
       return errors.length > 0;
     }).length;
     if (validationErrorsCount > 0) {
@@ -190,7 +201,7 @@ export function QualityWidget() {
       totalValidationErrors,
       issues,
     };
-  }, [filteredProducts]);
+  }, [products, filteredProducts, families, localeSettings]);
 
   const handleStatusToggle = (status: ProductStatus) => {
     setSelectedStatuses(prev => 
@@ -0,0 +1,92 @@
+'use client';
+
+import { useEffect } from 'react';
+import { format } from 'date-fns';
+import type { BusinessCentralFieldOwner, BusinessCentralSyncField } from '@/types/business-central-sync';
+import {
+  BUSINESS_CENTRAL_FIELD_OWNER_LABELS,
+  BUSINESS_CENTRAL_SYNC_FIELD_LABELS,
+  BUSINESS_CENTRAL_SYNC_FIELDS,
+} from '@/types/business-central-sync';
+import { useBusinessCentralSyncStore } from '@/lib/business-central-sync-store';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+
+const formatDate = (value: string | undefined) => (value ? format(new Date(value), 'yyyy-MM-dd HH:mm') : 'never');
+
+interface BusinessCentralSyncSettingsProps {
+  integrationId: string;
+  full: boolean;
+  onFullChange: (full: boolean) => void;
+  disabled?: boolean;
+}
+
+/**
+ * When the integration's company last synced, whether the next sync sends
+ * everything, and which system owns the fields both systems edit
+ */
+export function BusinessCentralSyncSettings({ integrationId, full, onFullChange, disabled = false }: BusinessCentralSyncSettingsProps) {
+  const { state, error, fetchState, updateState } = useBusinessCentralSyncStore();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchState(integrationId);
+  }, [integrationId, fetchState]);
+
+  const handleOwnerChange = async (field: BusinessCentralSyncField, owner: BusinessCentralFieldOwner) => {
+    try {
+      await updateState({ integrationId, ownership: { [field]: owner } });
+      toast({
+        title: 'Ownership Updated',
+        description: `${BUSINESS_CENTRAL_FIELD_OWNER_LABELS[owner]} now owns ${BUSINESS_CENTRAL_SYNC_FIELD_LABELS[field].toLowerCase()}.`,
+      });
+    } catch (error) {
+      toast({ title: 'Updating Ownership Failed', description: (error as Error).message, variant: 'destructive' });
+    }
+  };
+
+  if (error) return <p className="text-sm text-destructive">{error}</p>;
+  if (!state) return null;
+
+  return (
+    <div className="space-y-4 rounded-md border p-4">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          Last import: {formatDate(state.lastImportAt)} · Last export: {formatDate(state.lastExportAt)}.
+          {' '}Only items and products changed since then are synced.
+        </p>
+        <div className="flex items-center gap-2">
+          <Checkbox id="bc-full-sync" checked={full} onCheckedChange={checked => onFullChange(checked === true)} disabled={disabled} />
+          <Label htmlFor="bc-full-sync" className="text-sm">Full sync (everything, not only changes)</Label>
+        </div>
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        {BUSINESS_CENTRAL_SYNC_FIELDS.map(field => (
+          <div key={field} className="space-y-1">
+            <Label htmlFor={`bc-owner-${field}`} className="text-sm font-medium">
+              {BUSINESS_CENTRAL_SYNC_FIELD_LABELS[field]} owned by
+            </Label>
+            <Select
+              value={state.ownership[field]}
+              onValueChange={owner => handleOwnerChange(field, owner as BusinessCentralFieldOwner)}
+              disabled={disabled}
+            >
+              <SelectTrigger id={`bc-owner-${field}`}><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {Object.entries(BUSINESS_CENTRAL_FIELD_OWNER_LABELS).map(([owner, label]) => (
+                  <SelectItem key={owner} value={owner}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Imports only change the fields Business Central owns on existing products; exports only change the fields
+        Pimify owns on existing items. Inventory is never exported, as Business Central posts it through item journals.
+      </p>
+    </div>
+  );
+}
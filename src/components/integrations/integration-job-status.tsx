@@ -0,0 +1,62 @@
+'use client';
+
+import type { IntegrationJob, IntegrationJobStatus } from '@/types/integration-job';
+import { INTEGRATION_JOB_KIND_LABELS, INTEGRATION_JOB_STATUS_LABELS } from '@/types/integration-job';
+import { describeIntegrationJobProgress, getIntegrationJobPercent, isIntegrationJobActive } from '@/lib/integration-jobs';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { RefreshCw, XCircle } from 'lucide-react';
+
+const STATUS_VARIANTS: Record<IntegrationJobStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  queued: 'secondary',
+  running: 'default',
+  succeeded: 'outline',
+  failed: 'destructive',
+  cancelled: 'secondary',
+};
+
+export function IntegrationJobStatusBadge({ job }: { job: IntegrationJob }) {
+  const withErrors = job.status === 'succeeded' && job.progress.failed > 0;
+  return (
+    <Badge variant={withErrors ? 'destructive' : STATUS_VARIANTS[job.status]} className="whitespace-nowrap">
+      {job.cancelRequested && job.status === 'running' ? 'Cancelling' : INTEGRATION_JOB_STATUS_LABELS[job.status]}
+      {withErrors ? ' with errors' : ''}
+    </Badge>
+  );
+}
+
+interface IntegrationJobProgressProps {
+  job: IntegrationJob;
+  onCancel?: (job: IntegrationJob) => void;
+}
+
+/**
+ * A queued or running job: how far it got, with a button to cancel it
+ */
+export function IntegrationJobProgress({ job, onCancel }: IntegrationJobProgressProps) {
+  const percent = getIntegrationJobPercent(job.progress);
+  const retrying = job.status === 'queued' && job.attempts.length > 0;
+
+  return (
+    <div className="space-y-2 rounded-md border p-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-sm font-medium">
+          <RefreshCw className="h-4 w-4 animate-spin text-primary" />
+          {INTEGRATION_JOB_KIND_LABELS[job.kind]}
+          <IntegrationJobStatusBadge job={job} />
+        </div>
+        {onCancel && isIntegrationJobActive(job) && (
+          <Button variant="ghost" size="sm" onClick={() => onCancel(job)} disabled={job.cancelRequested}>
+            <XCircle className="mr-1 h-4 w-4" /> Cancel
+          </Button>
+        )}
+      </div>
+      <Progress value={percent ?? 0} className="h-2" />
+      <p className="text-xs text-muted-foreground">
+        {job.status === 'queued' && !retrying ? 'Waiting to start' : describeIntegrationJobProgress(job.progress)}
+        {retrying && job.nextAttemptAt ? ` · attempt ${job.attempts.length} failed (${job.error}); retrying at ${new Date(job.nextAttemptAt).toLocaleTimeString()}` : ''}
+      </p>
+    </div>
+  );
+}
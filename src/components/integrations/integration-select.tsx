@@ -0,0 +1,45 @@
+'use client';
+
+import type { IntegrationCredentialSummary, IntegrationType } from '@/types/integration-credential';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+interface IntegrationSelectProps {
+  id: string;
+  credentials: IntegrationCredentialSummary[];
+  type: IntegrationType;
+  value: string | undefined;
+  onChange: (integrationId: string) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Picks the stored credentials an import, export or sync uses. The
+ * credentials themselves stay on the server.
+ */
+export function IntegrationSelect({ id, credentials, type, value, onChange, disabled = false }: IntegrationSelectProps) {
+  const options = credentials.filter(credential => credential.type === type);
+
+  return (
+    <div className="space-y-1">
+      <Label htmlFor={id} className="text-sm font-medium">Integration</Label>
+      <Select
+        value={value && options.some(c => c.id === value) ? value : undefined}
+        onValueChange={onChange}
+        disabled={disabled || options.length === 0}
+      >
+        <SelectTrigger id={id}>
+          <SelectValue placeholder={options.length === 0 ? 'No integrations configured' : 'Choose an integration'} />
+        </SelectTrigger>
+        <SelectContent>
+          {options.map(credential => (
+            <SelectItem key={credential.id} value={credential.id}>
+              {credential.name}
+              {credential.settings.storeUrl ? ` (${credential.settings.storeUrl})` : ''}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
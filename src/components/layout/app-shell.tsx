@@ -3,12 +3,14 @@
 import { type ReactNode, useEffect, useState } from 'react';
 import Link from 'next/link';
 import { usePathname, useRouter } from 'next/navigation';
-import { LayoutDashboard, PackagePlus, Package, UploadCloud, Settings, Menu, LogOut, TrendingUp, PanelLeft, Users, Mail, ListChecks, UserCheck, Shield, Key, Network, ChevronDown } from 'lucide-react';
+import { LayoutDashboard, PackagePlus, Package, UploadCloud, Settings, Menu, LogOut, TrendingUp, PanelLeft, Users, Mail, ListChecks, UserCheck, Shield, Key, Network, ChevronDown, FolderTree, Layers, Radio, Languages, CalendarClock, Bookmark, KeyRound, Webhook, Plug, Tags, Activity } from 'lucide-react';
 import {
   SidebarProvider,
   Sidebar,
   SidebarHeader,
   SidebarContent,
+  SidebarGroup,
+  SidebarGroupLabel,
   SidebarMenu,
   SidebarMenuItem,
   SidebarMenuButton,
@@ -20,6 +22,8 @@ import { Button } from '@/components/ui/button';
 import { Sheet, SheetContent, SheetTrigger } from '@/components/ui/sheet';
 import { useIsMobile } from '@/hooks/use-mobile';
 import { useAuth } from '@/context/auth-context';
+import { useProductViewStore } from '@/lib/product-view-store';
+import { getProductViewHref } from '@/lib/product-views';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 
 interface NavItem {
@@ -39,6 +43,8 @@ export function AppShell({ children }: AppShellProps) {
   const isMobile = useIsMobile();
   const { isAuthenticated, isLoading, user } = useAuth();
   const [settingsOpen, setSettingsOpen] = useState(false);
+  const { views, fetchViews } = useProductViewStore();
+  const pinnedViews = views.filter(view => view.pinned);
 
   useEffect(() => {
     if (!isLoading && !isAuthenticated) {
@@ -46,9 +52,14 @@ export function AppShell({ children }: AppShellProps) {
     }
   }, [isLoading, isAuthenticated, router]);
 
+  // Saved views pinned to the sidebar
+  useEffect(() => {
+    if (isAuthenticated) fetchViews();
+  }, [isAuthenticated, fetchViews]);
+
   // Auto-open settings section if user is on a settings/admin page
   useEffect(() => {
-    const settingsPaths = ['/users', '/reviewers', '/settings'];
+    const settingsPaths = ['/users', '/reviewers', '/settings', '/categories', '/attribute-families', '/channels'];
     if (settingsPaths.some(p => pathname.startsWith(p))) {
       setSettingsOpen(true);
     }
@@ -79,7 +90,12 @@ export function AppShell({ children }: AppShellProps) {
     { href: '/products/new', label: 'Add Product', icon: PackagePlus },
     { href: '/quality', label: 'Quality Dashboard', icon: TrendingUp },
     { href: '/import-export', label: 'Import/Export', icon: UploadCloud },
+    { href: '/jobs', label: 'Sync Jobs', icon: Activity },
   ];
+  if (role !== 'viewer') {
+    mainNavItems.push({ href: '/translations', label: 'Translations', icon: Languages });
+    mainNavItems.push({ href: '/schedule', label: 'Schedule', icon: CalendarClock });
+  }
 
   // Settings sub-items (admin-only)
   const settingsNavItems: NavItem[] = [];
@@ -88,8 +104,16 @@ export function AppShell({ children }: AppShellProps) {
     settingsNavItems.push({ href: '/reviewers', label: 'Reviewers', icon: UserCheck });
   }
   if (isAdmin) {
+    settingsNavItems.push({ href: '/categories', label: 'Categories', icon: FolderTree });
+    settingsNavItems.push({ href: '/attribute-families', label: 'Attribute Families', icon: Layers });
+    settingsNavItems.push({ href: '/channels', label: 'Channels', icon: Radio });
+    settingsNavItems.push({ href: '/settings/locales', label: 'Locales', icon: Languages });
     settingsNavItems.push({ href: '/users/invitations', label: 'Invitations', icon: Mail });
     settingsNavItems.push({ href: '/users/registration-requests', label: 'Registrations', icon: ListChecks });
+    settingsNavItems.push({ href: '/settings/api-keys', label: 'API Keys', icon: KeyRound });
+    settingsNavItems.push({ href: '/settings/webhooks', label: 'Webhooks', icon: Webhook });
+    settingsNavItems.push({ href: '/settings/integrations', label: 'Integrations', icon: Plug });
+    settingsNavItems.push({ href: '/settings/shopify-mapping', label: 'Shopify Mapping', icon: Tags });
     settingsNavItems.push({ href: '/settings/security', label: 'Security', icon: Shield });
     settingsNavItems.push({ href: '/settings/sso', label: 'SSO Configuration', icon: Key });
     settingsNavItems.push({ href: '/settings/ldap', label: 'LDAP Configuration', icon: Network });
@@ -129,6 +153,23 @@ export function AppShell({ children }: AppShellProps) {
             </SidebarMenuItem>
           ))}
         </SidebarMenu>
+        {pinnedViews.length > 0 && (
+          <SidebarGroup className="px-0">
+            <SidebarGroupLabel>Pinned views</SidebarGroupLabel>
+            <SidebarMenu>
+              {pinnedViews.map((view) => (
+                <SidebarMenuItem key={view.id}>
+                  <SidebarMenuButton asChild tooltip={view.name}>
+                    <Link href={getProductViewHref(view.id)}>
+                      <Bookmark />
+                      <span className="truncate">{view.name}</span>
+                    </Link>
+                  </SidebarMenuButton>
+                </SidebarMenuItem>
+              ))}
+            </SidebarMenu>
+          </SidebarGroup>
+        )}
       </SidebarContent>
       <SidebarFooter className="p-2 border-t border-sidebar-border mt-auto flex flex-col gap-2">
         {/* Settings section — admin only */}
@@ -0,0 +1,209 @@
+'use client';
+
+import { v4 as uuidv4 } from 'uuid';
+import type { BundleComponent, BundleDefinition, BundleDiscountType } from '@/types/bundle';
+import { BUNDLE_DISCOUNT_TYPE_LABELS } from '@/types/bundle';
+import type { MultilingualString, Product } from '@/types/product';
+import { computeBundlePrices, createProductLookup, getBundleIssues, isBundle } from '@/lib/bundles';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertTriangle, ListPlus, Trash2 } from 'lucide-react';
+
+const NO_VARIANT = '__none__';
+
+export const emptyBundleDefinition = (): BundleDefinition => ({
+  components: [],
+  pricing: { mode: 'computed', discount: { type: 'none', value: 0 } },
+});
+
+interface BundleEditorProps {
+  productId?: string; // The bundle itself, left out of the component choices
+  value: BundleDefinition;
+  onChange: (value: BundleDefinition) => void;
+  products: Product[]; // Candidate components
+  displayText: (value: MultilingualString | undefined) => string;
+}
+
+export function BundleEditor({ productId, value, onChange, products, displayText }: BundleEditorProps) {
+  const lookup = createProductLookup(products);
+  const candidates = products.filter(p => p.id !== productId && !isBundle(p));
+  const draft = { id: productId || '', productType: 'bundle' as const, bundle: value };
+  const issues = getBundleIssues(draft, lookup);
+  const prices = computeBundlePrices(draft, lookup);
+  const discount = value.pricing.discount || { type: 'none' as BundleDiscountType, value: 0 };
+
+  const updateComponent = (id: string, changes: Partial<BundleComponent>) =>
+    onChange({ ...value, components: value.components.map(c => (c.id === id ? { ...c, ...changes } : c)) });
+
+  const removeComponent = (id: string) =>
+    onChange({ ...value, components: value.components.filter(c => c.id !== id) });
+
+  const addComponent = () => {
+    const first = candidates[0];
+    if (!first) return;
+    onChange({ ...value, components: [...value.components, { id: uuidv4(), productId: first.id, quantity: 1 }] });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="border border-[#eaf0f0] rounded-xl overflow-hidden">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Component</TableHead>
+              <TableHead className="w-56">Variant</TableHead>
+              <TableHead className="w-28">Quantity</TableHead>
+              <TableHead className="w-12" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {value.components.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={4} className="text-center text-sm text-[#5e8787] py-8">No components yet.</TableCell>
+              </TableRow>
+            ) : value.components.map(component => {
+              const componentProduct = lookup(component.productId);
+              const variants = componentProduct?.variants || [];
+              const componentIssues = issues.filter(issue => issue.componentId === component.id);
+              return (
+                <TableRow key={component.id}>
+                  <TableCell className="space-y-1">
+                    <Select value={component.productId} onValueChange={(id) => updateComponent(component.id, { productId: id, variantId: undefined })}>
+                      <SelectTrigger aria-label="Component product" className="border-[#eaf0f0]"><SelectValue placeholder="Choose a product" /></SelectTrigger>
+                      <SelectContent>
+                        {!componentProduct && <SelectItem value={component.productId}>{component.productId} (missing)</SelectItem>}
+                        {candidates.map(p => (
+                          <SelectItem key={p.id} value={p.id}>{displayText(p.basicInfo.name) || p.basicInfo.sku} ({p.basicInfo.sku})</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {componentIssues.map(issue => (
+                      <p key={issue.type} className="text-xs text-orange-700 flex items-center gap-1">
+                        <AlertTriangle className="h-3 w-3" /> {issue.message}
+                      </p>
+                    ))}
+                  </TableCell>
+                  <TableCell>
+                    <Select
+                      value={component.variantId || NO_VARIANT}
+                      onValueChange={(id) => updateComponent(component.id, { variantId: id === NO_VARIANT ? undefined : id })}
+                      disabled={variants.length === 0}
+                    >
+                      <SelectTrigger aria-label="Component variant" className="border-[#eaf0f0]"><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_VARIANT}>(Any / base product)</SelectItem>
+                        {variants.map(v => <SelectItem key={v.id} value={v.id}>{v.sku}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min={1}
+                      step={1}
+                      aria-label="Component quantity"
+                      className="border-[#eaf0f0]"
+                      value={component.quantity}
+                      onChange={(e) => updateComponent(component.id, { quantity: Math.max(1, Math.floor(Number(e.target.value) || 1)) })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <button type="button" onClick={() => removeComponent(component.id)} aria-label="Remove component" className="text-red-500 hover:text-red-700 transition-colors">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+      <button type="button" onClick={addComponent} disabled={candidates.length === 0} className="w-full py-2 border border-dashed border-[#5e8787] rounded-lg text-sm text-[#2f7979] font-bold hover:bg-[#f3f7f7] transition-colors flex items-center justify-center gap-2">
+        <ListPlus className="w-4 h-4" /> Add Component
+      </button>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="space-y-2">
+          <Label htmlFor="bundle-pricing-mode" className="text-[#111818] font-semibold">Bundle price</Label>
+          <Select value={value.pricing.mode} onValueChange={(mode) => onChange({ ...value, pricing: { ...value.pricing, mode: mode as BundleDefinition['pricing']['mode'] } })}>
+            <SelectTrigger id="bundle-pricing-mode" className="border-[#eaf0f0]"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="computed">Computed from components</SelectItem>
+              <SelectItem value="fixed">Fixed (Base Pricing)</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        {value.pricing.mode === 'computed' && (
+          <>
+            <div className="space-y-2">
+              <Label htmlFor="bundle-discount-type" className="text-[#111818] font-semibold">Discount</Label>
+              <Select
+                value={discount.type}
+                onValueChange={(type) => onChange({ ...value, pricing: { ...value.pricing, discount: { ...discount, type: type as BundleDiscountType } } })}
+              >
+                <SelectTrigger id="bundle-discount-type" className="border-[#eaf0f0]"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(BUNDLE_DISCOUNT_TYPE_LABELS) as BundleDiscountType[]).map(type => (
+                    <SelectItem key={type} value={type}>{BUNDLE_DISCOUNT_TYPE_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {discount.type !== 'none' && (
+              <div className="space-y-2">
+                <Label htmlFor="bundle-discount-value" className="text-[#111818] font-semibold">
+                  {discount.type === 'percentage' ? 'Percent off' : 'Amount off'}
+                </Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="bundle-discount-value"
+                    type="number"
+                    min={0}
+                    max={discount.type === 'percentage' ? 100 : undefined}
+                    step="any"
+                    className="border-[#eaf0f0]"
+                    value={discount.value}
+                    onChange={(e) => onChange({ ...value, pricing: { ...value.pricing, discount: { ...discount, value: Number(e.target.value) || 0 } } })}
+                  />
+                  {discount.type === 'fixed_amount' && (
+                    <Input
+                      className="w-24 border-[#eaf0f0]"
+                      aria-label="Discount currency"
+                      placeholder="NOK"
+                      maxLength={3}
+                      value={discount.currency || ''}
+                      onChange={(e) => onChange({ ...value, pricing: { ...value.pricing, discount: { ...discount, currency: e.target.value.toUpperCase() } } })}
+                    />
+                  )}
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      {value.pricing.mode === 'computed' && value.components.length > 0 && (
+        <div className="bg-[#f9fbfb] border border-[#eaf0f0] rounded-lg p-4 space-y-2">
+          <p className="text-sm font-semibold text-[#111818]">Computed price</p>
+          {prices.length === 0 ? (
+            <p className="text-sm text-[#5e8787]">No currency has a price for every component.</p>
+          ) : prices.map(price => (
+            <div key={price.currency} className="flex items-center gap-3 text-sm">
+              <span className="font-bold text-[#111818]">{price.amount.toFixed(2)} {price.currency}</span>
+              {price.discount > 0 && (
+                <>
+                  <span className="text-[#5e8787] line-through">{price.componentTotal.toFixed(2)}</span>
+                  <Badge variant="outline" className="bg-green-100 text-green-800 border-green-200">-{price.discount.toFixed(2)}</Badge>
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
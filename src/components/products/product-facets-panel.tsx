@@ -0,0 +1,81 @@
+'use client';
+
+import { useState } from 'react';
+import type { ProductFacet, ProductFacetKey, ProductFacetSelection } from '@/types/facet';
+import { hasFacetSelection } from '@/lib/product-facets';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { ChevronDown, SlidersHorizontal } from 'lucide-react';
+
+// Values shown per facet before "Show all"
+const VISIBLE_VALUES = 8;
+
+interface ProductFacetsPanelProps {
+  facets: ProductFacet[];
+  selection: ProductFacetSelection;
+  onChange: (selection: ProductFacetSelection) => void;
+  isLoading?: boolean;
+}
+
+export function ProductFacetsPanel({ facets, selection, onChange, isLoading }: ProductFacetsPanelProps) {
+  const [expanded, setExpanded] = useState<ProductFacetKey[]>([]);
+
+  const toggleValue = (key: ProductFacetKey, value: string, checked: boolean) => {
+    const current = selection[key] || [];
+    const next = checked ? [...current.filter(v => v !== value), value] : current.filter(v => v !== value);
+    onChange({ ...selection, [key]: next.length > 0 ? next : undefined });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="flex items-center gap-2 text-sm font-semibold text-[#111818]">
+          <SlidersHorizontal className="h-4 w-4" /> Filters
+        </h2>
+        {hasFacetSelection(selection) && (
+          <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => onChange({})}>
+            Clear
+          </Button>
+        )}
+      </div>
+
+      {facets.length === 0 && isLoading && <p className="text-sm text-muted-foreground">Loading filters...</p>}
+
+      {facets.filter(facet => facet.values.length > 0).map(facet => {
+        const showAll = expanded.includes(facet.key);
+        const values = showAll ? facet.values : facet.values.slice(0, VISIBLE_VALUES);
+        return (
+          <Collapsible key={facet.key} defaultOpen className="border-b pb-3">
+            <CollapsibleTrigger className="flex w-full items-center justify-between text-sm font-medium text-[#111818] group">
+              {facet.label}
+              <ChevronDown className="h-4 w-4 text-[#5e8787] transition-transform group-data-[state=closed]:-rotate-90" />
+            </CollapsibleTrigger>
+            <CollapsibleContent className="mt-2 space-y-1.5">
+              {values.map(value => (
+                <label key={value.value} className="flex items-center gap-2 text-sm cursor-pointer">
+                  <Checkbox
+                    checked={value.selected}
+                    onCheckedChange={(checked) => toggleValue(facet.key, value.value, checked === true)}
+                  />
+                  <span className={`flex-1 truncate ${value.count === 0 ? 'text-muted-foreground' : ''}`}>{value.label}</span>
+                  <span className="text-xs text-[#5e8787] tabular-nums">{value.count}</span>
+                </label>
+              ))}
+              {facet.values.length > VISIBLE_VALUES && (
+                <Button
+                  variant="link"
+                  size="sm"
+                  className="h-auto p-0 text-xs text-[#2f7979]"
+                  onClick={() => setExpanded(showAll ? expanded.filter(k => k !== facet.key) : [...expanded, facet.key])}
+                >
+                  {showAll ? 'Show fewer' : `Show all ${facet.values.length}`}
+                </Button>
+              )}
+            </CollapsibleContent>
+          </Collapsible>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,426 @@
+'use client';
+
+import { useEffect, useMemo, useReducer, useRef, useState } from 'react';
+import type { ClipboardEvent, KeyboardEvent } from 'react';
+import Link from 'next/link';
+import type { Product } from '@/types/product';
+import type { ProductGridCellError } from '@/types/product-grid';
+import { useProductStore } from '@/lib/product-store';
+import { useAttributeFamilyStore } from '@/lib/attribute-family-store';
+import { useCategoryStore } from '@/lib/category-store';
+import { useLocaleStore } from '@/lib/locale-store';
+import { getLocaleCodes } from '@/lib/locales';
+import {
+  formatClipboardText,
+  getDefaultGridColumnKeys,
+  getGridCellText,
+  getGridColumns,
+  getGridCurrencies,
+  initialProductGridEditState,
+  isGridCellEditable,
+  parseClipboardText,
+  productGridEditReducer,
+  tileGridBlock,
+  type ProductGridContext,
+} from '@/lib/product-grid';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { AlertCircle, Columns3, Loader2, Redo2, Save, Undo2, X } from 'lucide-react';
+
+interface CellPosition {
+  row: number;
+  col: number;
+}
+
+interface ProductGridEditorProps {
+  products: Product[];
+  onClose: () => void;
+}
+
+export function ProductGridEditor({ products: listedProducts, onClose }: ProductGridEditorProps) {
+  const saveGridRows = useProductStore(state => state.saveGridRows);
+  const { families } = useAttributeFamilyStore();
+  const { categories, fetchCategories } = useCategoryStore();
+  const { settings: localeSettings } = useLocaleStore();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (categories.length === 0) fetchCategories();
+  }, [categories.length, fetchCategories]);
+
+  // Saved rows are shown as saved even when the list they came from is not reloaded
+  const [savedProducts, setSavedProducts] = useState<Record<string, Product>>({});
+  const products = useMemo(() => listedProducts.map(product => {
+    const saved = savedProducts[product.id];
+    return saved && saved.updatedAt > product.updatedAt ? saved : product;
+  }), [listedProducts, savedProducts]);
+
+  const locales = getLocaleCodes(localeSettings);
+  const currencies = useMemo(() => getGridCurrencies(listedProducts), [listedProducts]);
+  const allColumns = useMemo(
+    () => getGridColumns({ locales, currencies, families }),
+    // locales is derived from localeSettings
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [localeSettings, currencies, families]
+  );
+  const [columnKeys, setColumnKeys] = useState(() => getDefaultGridColumnKeys(locales, currencies));
+  const columns = allColumns.filter(column => columnKeys.includes(column.key));
+  const context = useMemo<ProductGridContext>(() => ({ categories, families }), [categories, families]);
+
+  const [edits, dispatch] = useReducer(productGridEditReducer, initialProductGridEditState);
+  const [rowErrors, setRowErrors] = useState<Record<string, ProductGridCellError[]>>({});
+  const [anchor, setAnchor] = useState<CellPosition>({ row: 0, col: 0 });
+  const [focus, setFocus] = useState<CellPosition>({ row: 0, col: 0 });
+  const [editText, setEditText] = useState<string | null>(null); // Text of the focused cell while typing in it
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const gridRef = useRef<HTMLDivElement>(null);
+
+  // Keep the selection inside the grid when rows or columns go away
+  useEffect(() => {
+    const outside = Math.max(anchor.row, focus.row) >= products.length || Math.max(anchor.col, focus.col) >= columns.length;
+    if (outside && anchor.row + anchor.col + focus.row + focus.col > 0) {
+      setAnchor({ row: 0, col: 0 });
+      setFocus({ row: 0, col: 0 });
+      setEditText(null);
+    }
+  }, [products.length, columns.length, anchor, focus]);
+
+  const stagedRows = Object.keys(edits.staged).length;
+  const stagedCells = Object.values(edits.staged).reduce((count, row) => count + Object.keys(row).length, 0);
+
+  useEffect(() => {
+    if (stagedCells === 0) return;
+    const warn = (event: BeforeUnloadEvent) => event.preventDefault();
+    window.addEventListener('beforeunload', warn);
+    return () => window.removeEventListener('beforeunload', warn);
+  }, [stagedCells]);
+
+  useEffect(() => {
+    const stop = () => setIsSelecting(false);
+    window.addEventListener('mouseup', stop);
+    return () => window.removeEventListener('mouseup', stop);
+  }, []);
+
+  const range = {
+    top: Math.min(anchor.row, focus.row),
+    bottom: Math.max(anchor.row, focus.row),
+    left: Math.min(anchor.col, focus.col),
+    right: Math.max(anchor.col, focus.col),
+  };
+  const inRange = (row: number, col: number) =>
+    row >= range.top && row <= range.bottom && col >= range.left && col <= range.right;
+
+  const originalText = (row: number, col: number) => getGridCellText(products[row], columns[col], context);
+  const cellText = (row: number, col: number) =>
+    edits.staged[products[row].id]?.[columns[col].key] ?? originalText(row, col);
+  const canEdit = (row: number, col: number) => isGridCellEditable(products[row], columns[col], context);
+  const cellError = (row: number, col: number) =>
+    rowErrors[products[row].id]?.find(error => error.column === columns[col].key);
+
+  const writeCells = (cells: Array<CellPosition & { value: string }>) => {
+    dispatch({
+      type: 'edit',
+      cells: cells
+        .filter(cell => cell.row < products.length && cell.col < columns.length && canEdit(cell.row, cell.col))
+        .map(cell => ({
+          productId: products[cell.row].id,
+          column: columns[cell.col].key,
+          value: cell.value,
+          original: originalText(cell.row, cell.col),
+        })),
+    });
+  };
+
+  const rangeCells = () => {
+    const cells: CellPosition[] = [];
+    for (let row = range.top; row <= range.bottom; row++) {
+      for (let col = range.left; col <= range.right; col++) cells.push({ row, col });
+    }
+    return cells;
+  };
+
+  const moveTo = (row: number, col: number, extend = false) => {
+    const next = {
+      row: Math.max(0, Math.min(products.length - 1, row)),
+      col: Math.max(0, Math.min(columns.length - 1, col)),
+    };
+    setFocus(next);
+    if (!extend) setAnchor(next);
+  };
+
+  const startEditing = (text: string) => {
+    if (canEdit(focus.row, focus.col)) setEditText(text);
+  };
+
+  const commitEdit = (move?: 'down' | 'right') => {
+    if (editText !== null) writeCells([{ ...focus, value: editText }]);
+    setEditText(null);
+    if (move === 'down') moveTo(focus.row + 1, focus.col);
+    if (move === 'right') moveTo(focus.row, focus.col + 1);
+    gridRef.current?.focus();
+  };
+
+  // Copy the top row of the selection down, or the row above a one-row selection
+  const fillDown = () => {
+    const source = range.top === range.bottom ? range.top - 1 : range.top;
+    if (source < 0) return;
+    writeCells(rangeCells()
+      .filter(cell => cell.row > source)
+      .map(cell => ({ ...cell, value: cellText(source, cell.col) })));
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLDivElement>) => {
+    if (editText !== null || products.length === 0 || columns.length === 0) return;
+    const key = event.key.toLowerCase();
+    const modifier = event.ctrlKey || event.metaKey;
+
+    if (modifier && (key === 'z' || key === 'y')) {
+      event.preventDefault();
+      dispatch({ type: key === 'y' || event.shiftKey ? 'redo' : 'undo' });
+    } else if (modifier && key === 'd') {
+      event.preventDefault();
+      fillDown();
+    } else if (event.key.startsWith('Arrow')) {
+      event.preventDefault();
+      const [dRow, dCol] = { ArrowUp: [-1, 0], ArrowDown: [1, 0], ArrowLeft: [0, -1], ArrowRight: [0, 1] }[event.key] || [0, 0];
+      moveTo(focus.row + dRow, focus.col + dCol, event.shiftKey);
+    } else if (event.key === 'Tab') {
+      event.preventDefault();
+      moveTo(focus.row, focus.col + (event.shiftKey ? -1 : 1));
+    } else if (event.key === 'Enter' || event.key === 'F2') {
+      event.preventDefault();
+      startEditing(cellText(focus.row, focus.col));
+    } else if (event.key === 'Delete' || event.key === 'Backspace') {
+      event.preventDefault();
+      writeCells(rangeCells().map(cell => ({ ...cell, value: '' })));
+    } else if (!modifier && !event.altKey && event.key.length === 1) {
+      // Typing replaces the cell's text, as in a spreadsheet
+      event.preventDefault();
+      startEditing(event.key);
+    }
+  };
+
+  const handleCopy = (event: ClipboardEvent<HTMLDivElement>) => {
+    if (editText !== null || products.length === 0 || columns.length === 0) return;
+    event.preventDefault();
+    const rows: string[][] = [];
+    for (let row = range.top; row <= range.bottom; row++) {
+      rows.push(columns.slice(range.left, range.right + 1).map((_, i) => cellText(row, range.left + i)));
+    }
+    event.clipboardData.setData('text/plain', formatClipboardText(rows));
+  };
+
+  const handlePaste = (event: ClipboardEvent<HTMLDivElement>) => {
+    if (editText !== null || products.length === 0 || columns.length === 0) return;
+    event.preventDefault();
+    const block = tileGridBlock(
+      parseClipboardText(event.clipboardData.getData('text/plain')),
+      range.bottom - range.top + 1,
+      range.right - range.left + 1
+    );
+    if (block.length === 0) return;
+    writeCells(block.flatMap((values, r) => values.map((value, c) => ({ row: range.top + r, col: range.left + c, value }))));
+    setAnchor({ row: range.top, col: range.left });
+    moveTo(range.top + block.length - 1, range.left + Math.max(...block.map(values => values.length)) - 1, true);
+  };
+
+  const handleSave = async () => {
+    const byId = new Map(products.map(product => [product.id, product]));
+    const rows = Object.entries(edits.staged).map(([productId, values]) => ({
+      productId,
+      expectedUpdatedAt: byId.get(productId)?.updatedAt,
+      values,
+    }));
+
+    setIsSaving(true);
+    try {
+      const result = await saveGridRows(rows);
+      setSavedProducts(previous => ({
+        ...previous,
+        ...Object.fromEntries(result.saved.map(row => [row.productId, row.product])),
+      }));
+      dispatch({ type: 'saved', productIds: result.saved.map(row => row.productId) });
+      setRowErrors(Object.fromEntries(result.failed.map(row => [row.productId, row.errors])));
+      toast({
+        title: result.failed.length > 0 ? 'Some products were not saved' : 'Changes saved',
+        description: result.failed.length > 0
+          ? `${result.saved.length} saved; ${result.failed.length} have errors, shown in the grid.`
+          : `${result.saved.length} products updated.`,
+        variant: result.failed.length > 0 ? 'destructive' : 'default',
+      });
+    } catch (error) {
+      toast({ title: 'Failed to save changes', description: (error as Error).message, variant: 'destructive' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (stagedCells > 0 && !window.confirm(`Discard ${stagedCells} unsaved changes?`)) return;
+    onClose();
+  };
+
+  const toggleColumn = (key: string, checked: boolean) => {
+    setColumnKeys(keys => checked ? [...keys, key] : keys.filter(k => k !== key));
+    setEditText(null);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-2 space-y-0">
+        <div>
+          <CardTitle className="text-lg">Grid editor</CardTitle>
+          <p className="text-sm text-muted-foreground">
+            {stagedCells > 0 ? `${stagedCells} changed cells in ${stagedRows} products, not saved yet` : 'No unsaved changes'}
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm">
+                <Columns3 className="mr-2 h-4 w-4" /> Columns
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="w-64 max-h-96 overflow-y-auto">
+              <DropdownMenuLabel>Editable columns</DropdownMenuLabel>
+              <DropdownMenuSeparator />
+              {allColumns.map(column => (
+                <DropdownMenuCheckboxItem
+                  key={column.key}
+                  checked={columnKeys.includes(column.key)}
+                  onCheckedChange={checked => toggleColumn(column.key, checked === true)}
+                  onSelect={event => event.preventDefault()}
+                >
+                  {column.label}
+                </DropdownMenuCheckboxItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <Button variant="outline" size="sm" title="Undo (Ctrl+Z)" disabled={edits.undo.length === 0} onClick={() => dispatch({ type: 'undo' })}>
+            <Undo2 className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="sm" title="Redo (Ctrl+Y)" disabled={edits.redo.length === 0} onClick={() => dispatch({ type: 'redo' })}>
+            <Redo2 className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="sm" disabled={stagedCells === 0 || isSaving} onClick={() => dispatch({ type: 'discard' })}>
+            Discard
+          </Button>
+          <Button size="sm" disabled={stagedCells === 0 || isSaving} onClick={handleSave}>
+            {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+            Save {stagedRows > 0 ? `${stagedRows} products` : ''}
+          </Button>
+          <Button variant="ghost" size="sm" title="Close the grid" onClick={handleClose}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div
+          ref={gridRef}
+          tabIndex={0}
+          className="max-h-[70vh] overflow-auto rounded-md border outline-none focus-visible:ring-2 focus-visible:ring-[#2f7979]"
+          onKeyDown={handleKeyDown}
+          onCopy={handleCopy}
+          onPaste={handlePaste}
+        >
+          <table className="w-full border-collapse text-sm select-none">
+            <thead className="sticky top-0 z-10 bg-muted">
+              <tr>
+                <th className="sticky left-0 z-20 bg-muted border-b border-r px-2 py-2 text-left font-medium">Product</th>
+                {columns.map(column => (
+                  <th key={column.key} className="border-b border-r px-2 py-2 text-left font-medium whitespace-nowrap">{column.label}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {products.map((product, row) => {
+                const errors = rowErrors[product.id] || [];
+                const rowLevelErrors = errors.filter(error => !error.column || !columnKeys.includes(error.column));
+                return (
+                  <tr key={product.id}>
+                    <td className="sticky left-0 z-[5] bg-background border-b border-r px-2 py-1 whitespace-nowrap">
+                      <div className="flex items-center gap-1">
+                        {errors.length > 0 && (
+                          <span title={errors.map(error => error.message).join('\n')}>
+                            <AlertCircle className="h-4 w-4 text-destructive" />
+                          </span>
+                        )}
+                        <Link href={`/products/${product.id}`} className="font-mono text-xs text-[#2f7979] hover:underline">
+                          {product.basicInfo.sku || product.id}
+                        </Link>
+                      </div>
+                      {rowLevelErrors.map((error, i) => (
+                        <p key={i} className="text-xs text-destructive whitespace-normal max-w-xs">{error.message}</p>
+                      ))}
+                    </td>
+                    {columns.map((column, col) => {
+                      const isFocused = focus.row === row && focus.col === col;
+                      const staged = edits.staged[product.id]?.[column.key] !== undefined;
+                      const error = cellError(row, col);
+                      const editable = canEdit(row, col);
+                      return (
+                        <td
+                          key={column.key}
+                          title={error?.message || (editable ? undefined : 'Not in this product\'s attribute family')}
+                          className={cn(
+                            'border-b border-r px-2 py-1 max-w-xs truncate cursor-cell',
+                            !editable && 'bg-muted/40 text-muted-foreground cursor-not-allowed',
+                            staged && 'bg-amber-50 font-medium',
+                            inRange(row, col) && 'bg-[#2f7979]/10',
+                            isFocused && 'outline outline-2 -outline-offset-2 outline-[#2f7979]',
+                            error && 'outline outline-2 -outline-offset-2 outline-destructive'
+                          )}
+                          onMouseDown={event => {
+                            if (event.detail > 1) return;
+                            if (editText !== null) commitEdit();
+                            moveTo(row, col, event.shiftKey);
+                            setIsSelecting(true);
+                          }}
+                          onMouseEnter={() => isSelecting && moveTo(row, col, true)}
+                          onDoubleClick={() => startEditing(cellText(row, col))}
+                        >
+                          {isFocused && editText !== null ? (
+                            <input
+                              autoFocus
+                              className="w-full min-w-24 bg-background outline-none"
+                              value={editText}
+                              onChange={event => setEditText(event.target.value)}
+                              onBlur={() => commitEdit()}
+                              onKeyDown={event => {
+                                event.stopPropagation();
+                                if (event.key === 'Enter') { event.preventDefault(); commitEdit('down'); }
+                                else if (event.key === 'Tab') { event.preventDefault(); commitEdit('right'); }
+                                else if (event.key === 'Escape') { setEditText(null); gridRef.current?.focus(); }
+                              }}
+                            />
+                          ) : (
+                            cellText(row, col) || ' '
+                          )}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+        <p className="mt-2 text-xs text-muted-foreground">
+          Type or double-click to edit. Ctrl+C and Ctrl+V copy and paste cells to and from Excel, Ctrl+D fills down,
+          Ctrl+Z and Ctrl+Y undo and redo. Changes are saved together when you click Save.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,84 @@
+'use client';
+
+import type {
+  ProductImportMatchKey,
+  ProductImportMergeStrategy,
+  ProductImportOptions,
+  ProductImportResult,
+} from '@/types/product-import';
+import { PRODUCT_IMPORT_MATCH_KEY_LABELS, PRODUCT_IMPORT_MERGE_STRATEGY_LABELS } from '@/types/product-import';
+import { formatImportReportCSV } from '@/lib/product-import';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Download } from 'lucide-react';
+
+interface ProductImportOptionsFieldsProps {
+  id: string; // Prefix of the field IDs, unique on the page
+  value: ProductImportOptions;
+  onChange: (value: ProductImportOptions) => void;
+  matchKeys?: ProductImportMatchKey[]; // Defaults to all
+  disabled?: boolean;
+}
+
+/**
+ * How an import finds existing products and what it does with them
+ */
+export function ProductImportOptionsFields({ id, value, onChange, matchKeys, disabled }: ProductImportOptionsFieldsProps) {
+  const keys = matchKeys || (Object.keys(PRODUCT_IMPORT_MATCH_KEY_LABELS) as ProductImportMatchKey[]);
+  return (
+    <div className="flex flex-wrap items-end gap-4">
+      <div className="space-y-2">
+        <Label htmlFor={`${id}-match-by`}>Match existing products by</Label>
+        <Select
+          value={value.matchBy}
+          onValueChange={matchBy => onChange({ ...value, matchBy: matchBy as ProductImportMatchKey })}
+          disabled={disabled}
+        >
+          <SelectTrigger id={`${id}-match-by`} className="w-40"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {keys.map(key => <SelectItem key={key} value={key}>{PRODUCT_IMPORT_MATCH_KEY_LABELS[key]}</SelectItem>)}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`${id}-merge-strategy`}>Existing products</Label>
+        <Select
+          value={value.mergeStrategy}
+          onValueChange={mergeStrategy => onChange({ ...value, mergeStrategy: mergeStrategy as ProductImportMergeStrategy })}
+          disabled={disabled}
+        >
+          <SelectTrigger id={`${id}-merge-strategy`} className="w-56"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {(Object.keys(PRODUCT_IMPORT_MERGE_STRATEGY_LABELS) as ProductImportMergeStrategy[]).map(strategy => (
+              <SelectItem key={strategy} value={strategy}>{PRODUCT_IMPORT_MERGE_STRATEGY_LABELS[strategy]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Download the result of each row of an import or dry run as CSV
+ */
+export function ImportReportButton({ result, fileName }: { result: ProductImportResult; fileName: string }) {
+  const handleDownload = () => {
+    const blob = new Blob([formatImportReportCSV(result.rows)], { type: 'text/csv;charset=utf-8;' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Button variant="outline" onClick={handleDownload}>
+      <Download className="mr-2 h-4 w-4" /> Download Report
+    </Button>
+  );
+}
@@ -0,0 +1,528 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { ChangeEvent } from 'react';
+import type {
+  ProductImportMapping,
+  ProductImportOptions,
+  ProductImportResult,
+  ProductImportRowAction,
+  ProductImportTable,
+  ProductImportTarget,
+} from '@/types/product-import';
+import { useProductStore } from '@/lib/product-store';
+import { useProductImportStore } from '@/lib/product-import-store';
+import { useAttributeFamilyStore } from '@/lib/attribute-family-store';
+import { useLocaleStore } from '@/lib/locale-store';
+import { getLocaleCodes } from '@/lib/locales';
+import { getGridCurrencies } from '@/lib/product-grid';
+import { PRODUCT_IMPORT_MATCH_KEY_LABELS } from '@/types/product-import';
+import {
+  buildImportRecords,
+  getImportTargets,
+  MAX_IMPORT_ROWS,
+  parseImportCSV,
+  sheetToImportTable,
+  suggestImportMapping,
+} from '@/lib/product-import';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ImportReportButton, ProductImportOptionsFields } from './product-import-controls';
+import { AlertTriangle, ArrowLeft, FileSpreadsheet, Loader2, Save, Trash2, Upload } from 'lucide-react';
+
+type WizardStep = 'upload' | 'map' | 'preview' | 'done';
+
+// Select value of columns that are not imported; Select items cannot be empty
+const SKIP_COLUMN = '__skip';
+
+// Preview rows rendered at once; the summary counts all rows
+const PREVIEW_ROWS_SHOWN = 500;
+
+const TARGET_GROUPS: ProductImportTarget['group'][] = ['Basic', 'Names', 'Descriptions', 'Prices', 'Attributes'];
+
+const ACTION_LABELS: Record<ProductImportRowAction, string> = {
+  create: 'Create',
+  update: 'Update',
+  unchanged: 'Unchanged',
+  skipped: 'Skipped',
+  error: 'Error',
+};
+
+const ACTION_CLASSES: Record<ProductImportRowAction, string> = {
+  create: 'bg-green-100 text-green-800 border-green-200',
+  update: 'bg-blue-100 text-blue-800 border-blue-200',
+  unchanged: 'bg-muted text-muted-foreground',
+  skipped: 'bg-amber-100 text-amber-800 border-amber-200',
+  error: 'bg-red-100 text-red-800 border-red-200',
+};
+
+async function readImportFile(file: File): Promise<ProductImportTable> {
+  if (/\.xlsx$/i.test(file.name)) {
+    // Only loaded when a workbook is chosen
+    const { readSheet } = await import('read-excel-file/browser');
+    return sheetToImportTable(await readSheet(file));
+  }
+  return parseImportCSV(await file.text());
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (Array.isArray(value)) return value.length > 0 ? value.join('; ') : '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function ActionBadge({ action, count }: { action: ProductImportRowAction; count?: number }) {
+  return (
+    <Badge variant="outline" className={ACTION_CLASSES[action]}>
+      {ACTION_LABELS[action]}{count !== undefined && `: ${count}`}
+    </Badge>
+  );
+}
+
+/**
+ * Import products from a CSV or XLSX file in four steps: choose the file,
+ * map its columns (or apply a saved profile), review a dry run of every row
+ * and import.
+ */
+export function ProductImportWizard() {
+  const { products, fetchProducts } = useProductStore();
+  const { families, fetchFamilies } = useAttributeFamilyStore();
+  const { settings: localeSettings } = useLocaleStore();
+  const { profiles, fetchProfiles, createProfile, updateProfile, deleteProfile, previewImport, runImport } = useProductImportStore();
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [step, setStep] = useState<WizardStep>('upload');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [table, setTable] = useState<ProductImportTable | null>(null);
+  const [mapping, setMapping] = useState<ProductImportMapping>({});
+  const [options, setOptions] = useState<ProductImportOptions>({ matchBy: 'sku', mergeStrategy: 'overwrite' });
+  const [profileId, setProfileId] = useState<string | undefined>();
+  const [profileName, setProfileName] = useState('');
+  const [preview, setPreview] = useState<ProductImportResult | null>(null);
+  const [result, setResult] = useState<ProductImportResult | null>(null);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    fetchProfiles();
+    if (families.length === 0) fetchFamilies();
+  }, [fetchProfiles, fetchFamilies, families.length]);
+
+  const locales = getLocaleCodes(localeSettings);
+  const currencies = useMemo(() => getGridCurrencies(products), [products]);
+  const targets = useMemo(
+    () => getImportTargets({ locales, currencies, families }),
+    // locales is derived from localeSettings
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [localeSettings, currencies, families]
+  );
+  const targetLabels = useMemo(() => new Map(targets.map(target => [target.key, target.label])), [targets]);
+  const selectedProfile = profiles.find(profile => profile.id === profileId);
+
+  // Targets more than one column maps to; the last of those columns wins
+  const repeatedTargets = useMemo(() => {
+    const counts = new Map<string, number>();
+    Object.values(mapping).forEach(target => counts.set(target, (counts.get(target) || 0) + 1));
+    return Array.from(counts).filter(([, count]) => count > 1).map(([target]) => targetLabels.get(target) || target);
+  }, [mapping, targetLabels]);
+  const matchKeyMapped = Object.values(mapping).includes(options.matchBy);
+
+  const reset = () => {
+    setStep('upload');
+    setFileName(null);
+    setTable(null);
+    setMapping({});
+    setPreview(null);
+    setResult(null);
+    setFileError(null);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const applyProfile = (id: string | undefined, headers = table?.headers || []) => {
+    setProfileId(id);
+    const profile = profiles.find(p => p.id === id);
+    if (!profile) {
+      setProfileName('');
+      setMapping(suggestImportMapping(headers, targets));
+      return;
+    }
+    setProfileName(profile.name);
+    setOptions({ matchBy: profile.matchBy, mergeStrategy: profile.mergeStrategy || 'overwrite' });
+    // Columns the file does not have are left out
+    setMapping(Object.fromEntries(Object.entries(profile.mapping).filter(([header]) => headers.includes(header))));
+  };
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    setFileError(null);
+    setIsBusy(true);
+    try {
+      const read = await readImportFile(file);
+      if (read.rows.length === 0) throw new Error('The file has no rows below the header row.');
+      if (read.rows.length > MAX_IMPORT_ROWS) {
+        throw new Error(`The file has ${read.rows.length} rows; up to ${MAX_IMPORT_ROWS} can be imported at once.`);
+      }
+      setFileName(file.name);
+      setTable(read);
+      applyProfile(profileId, read.headers);
+      setStep('map');
+    } catch (error) {
+      console.error('Import file error:', error);
+      setFileError((error as Error).message || 'The file could not be read.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const setColumnTarget = (header: string, target: string) => {
+    setMapping(current => {
+      const { [header]: _previous, ...rest } = current;
+      return target === SKIP_COLUMN ? rest : { ...rest, [header]: target };
+    });
+  };
+
+  const handleSaveProfile = async (asNew: boolean) => {
+    setIsBusy(true);
+    try {
+      const input = { name: profileName.trim(), mapping, ...options };
+      const profile = !asNew && selectedProfile
+        ? await updateProfile(selectedProfile.id, input)
+        : await createProfile(input);
+      setProfileId(profile.id);
+      toast({ title: 'Import Profile Saved', description: `"${profile.name}" can be applied to files in the same layout.` });
+    } catch (error) {
+      toast({ title: 'Saving Profile Failed', description: (error as Error).message, variant: 'destructive' });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleDeleteProfile = async () => {
+    if (!selectedProfile || !window.confirm(`Delete the import profile "${selectedProfile.name}"?`)) return;
+    try {
+      await deleteProfile(selectedProfile.id);
+      setProfileId(undefined);
+      setProfileName('');
+      toast({ title: 'Import Profile Deleted' });
+    } catch (error) {
+      toast({ title: 'Deleting Profile Failed', description: (error as Error).message, variant: 'destructive' });
+    }
+  };
+
+  const handlePreview = async () => {
+    if (!table) return;
+    const records = buildImportRecords(table, mapping);
+    if (records.length === 0) {
+      toast({ title: 'Nothing to Import', description: 'No row has a value in the mapped columns.', variant: 'destructive' });
+      return;
+    }
+
+    setIsBusy(true);
+    try {
+      setPreview(await previewImport({ records, ...options }));
+      setStep('preview');
+    } catch (error) {
+      toast({ title: 'Dry Run Failed', description: (error as Error).message, variant: 'destructive' });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!table) return;
+    setIsBusy(true);
+    try {
+      const imported = await runImport({ records: buildImportRecords(table, mapping), ...options });
+      setResult(imported);
+      setStep('done');
+      const { create, update, skipped, error } = imported.summary;
+      toast({
+        title: 'Import Finished',
+        description: `Created ${create} and updated ${update} products`
+          + (skipped > 0 ? `; skipped ${skipped} existing products` : '')
+          + (error > 0 ? `; ${error} rows had errors` : '') + '.',
+        variant: error > 0 ? 'destructive' : 'default',
+      });
+      fetchProducts();
+    } catch (error) {
+      toast({ title: 'Import Failed', description: (error as Error).message, variant: 'destructive' });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const renderRows = (rows: ProductImportResult['rows']) => {
+    const shown = rows.filter(row => showUnchanged || row.action !== 'unchanged');
+    return (
+      <>
+        <div className="max-h-[480px] overflow-auto rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-16">Row</TableHead>
+                <TableHead className="w-28">Action</TableHead>
+                <TableHead>SKU</TableHead>
+                <TableHead>Name</TableHead>
+                <TableHead>Changes</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {shown.slice(0, PREVIEW_ROWS_SHOWN).map(row => (
+                <TableRow key={row.rowNumber}>
+                  <TableCell className="text-muted-foreground">{row.rowNumber}</TableCell>
+                  <TableCell><ActionBadge action={row.action} /></TableCell>
+                  <TableCell className="font-mono text-xs">{row.sku || '—'}</TableCell>
+                  <TableCell>{row.name || '—'}</TableCell>
+                  <TableCell className="text-xs">
+                    {row.errors.map((error, index) => (
+                      <p key={index} className="text-destructive">
+                        {error.column && <span className="font-medium">{targetLabels.get(error.column) || error.column}: </span>}
+                        {error.message}
+                      </p>
+                    ))}
+                    {row.changes.map(change => (
+                      <p key={change.field}>
+                        <span className="font-medium">{targetLabels.get(change.column) || change.column}: </span>
+                        {row.action === 'create'
+                          ? formatValue(change.newValue)
+                          : <>{formatValue(change.oldValue)} → {formatValue(change.newValue)}</>}
+                      </p>
+                    ))}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+        {shown.length > PREVIEW_ROWS_SHOWN && (
+          <p className="text-xs text-muted-foreground">
+            Showing the first {PREVIEW_ROWS_SHOWN} of {shown.length} rows.
+          </p>
+        )}
+      </>
+    );
+  };
+
+  const renderSummary = (summary: ProductImportResult['summary']) => (
+    <div className="flex flex-wrap items-center gap-2">
+      {(Object.keys(ACTION_LABELS) as ProductImportRowAction[]).map(action => (
+        <ActionBadge key={action} action={action} count={summary[action]} />
+      ))}
+      <div className="ml-auto flex items-center gap-2">
+        <Checkbox id="import-show-unchanged" checked={showUnchanged} onCheckedChange={checked => setShowUnchanged(checked === true)} />
+        <Label htmlFor="import-show-unchanged" className="text-sm font-normal">Show unchanged rows</Label>
+      </div>
+    </div>
+  );
+
+  // Report file names follow the imported file
+  const reportBaseName = (fileName || 'import').replace(/\.[^.]+$/, '');
+
+  if (step === 'upload') {
+    return (
+      <div className="space-y-4">
+        <Input
+          type="file"
+          accept=".csv,.txt,.xlsx"
+          ref={fileInputRef}
+          onChange={handleFileChange}
+          className="hidden"
+          id="import-wizard-file-input"
+        />
+        {profiles.length > 0 && (
+          <div className="space-y-2">
+            <Label>Import profile</Label>
+            <Select value={profileId || SKIP_COLUMN} onValueChange={value => setProfileId(value === SKIP_COLUMN ? undefined : value)}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={SKIP_COLUMN}>None (suggest a mapping from the headers)</SelectItem>
+                {profiles.map(profile => <SelectItem key={profile.id} value={profile.id}>{profile.name}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+        <Button onClick={() => fileInputRef.current?.click()} disabled={isBusy} className="w-full">
+          {isBusy ? <Loader2 className="mr-2 h-5 w-5 animate-spin" /> : <FileSpreadsheet className="mr-2 h-5 w-5" />}
+          {isBusy ? 'Reading file...' : 'Choose CSV or Excel File'}
+        </Button>
+        {fileError && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>File Error</AlertTitle>
+            <AlertDescription>{fileError}</AlertDescription>
+          </Alert>
+        )}
+        <p className="text-xs text-muted-foreground">
+          The first row must hold the column headers. Excel files are read from their first sheet.
+        </p>
+      </div>
+    );
+  }
+
+  if (step === 'map' && table) {
+    return (
+      <div className="space-y-4">
+        <div className="flex flex-wrap items-end gap-4">
+          <ProductImportOptionsFields id="import-wizard" value={options} onChange={setOptions} disabled={isBusy} />
+          <div className="space-y-2">
+            <Label>Import profile</Label>
+            <Select value={profileId || SKIP_COLUMN} onValueChange={value => applyProfile(value === SKIP_COLUMN ? undefined : value)}>
+              <SelectTrigger className="w-56"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={SKIP_COLUMN}>None</SelectItem>
+                {profiles.map(profile => <SelectItem key={profile.id} value={profile.id}>{profile.name}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="import-profile-name">Profile name</Label>
+            <Input id="import-profile-name" value={profileName} onChange={e => setProfileName(e.target.value)} className="w-56" placeholder="e.g. Supplier price list" />
+          </div>
+          <div className="flex gap-2">
+            {selectedProfile && (
+              <Button variant="outline" onClick={() => handleSaveProfile(false)} disabled={isBusy || !profileName.trim()}>
+                <Save className="mr-2 h-4 w-4" /> Update Profile
+              </Button>
+            )}
+            <Button
+              variant="outline"
+              onClick={() => handleSaveProfile(true)}
+              disabled={isBusy || !profileName.trim() || profileName.trim() === selectedProfile?.name}
+            >
+              <Save className="mr-2 h-4 w-4" /> Save as New Profile
+            </Button>
+            {selectedProfile && (
+              <Button variant="ghost" size="icon" onClick={handleDeleteProfile} title="Delete profile">
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <p className="text-sm text-muted-foreground">
+          {fileName}: {table.rows.length} rows, {table.headers.length} columns. Empty cells leave existing values as they are.
+        </p>
+
+        <div className="max-h-[480px] overflow-auto rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Column</TableHead>
+                <TableHead>First value</TableHead>
+                <TableHead className="w-72">Imports into</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {table.headers.map((header, index) => (
+                <TableRow key={header}>
+                  <TableCell className="font-medium">{header}</TableCell>
+                  <TableCell className="max-w-xs truncate text-muted-foreground">
+                    {table.rows.find(row => row[index]?.trim())?.[index] || '—'}
+                  </TableCell>
+                  <TableCell>
+                    <Select value={mapping[header] || SKIP_COLUMN} onValueChange={value => setColumnTarget(header, value)}>
+                      <SelectTrigger><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={SKIP_COLUMN}>Don&apos;t import</SelectItem>
+                        {TARGET_GROUPS.map(group => {
+                          const inGroup = targets.filter(target => target.group === group);
+                          return inGroup.length > 0 && (
+                            <SelectGroup key={group}>
+                              <SelectLabel>{group}</SelectLabel>
+                              {inGroup.map(target => <SelectItem key={target.key} value={target.key}>{target.label}</SelectItem>)}
+                            </SelectGroup>
+                          );
+                        })}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        {repeatedTargets.length > 0 && (
+          <p className="text-sm text-amber-700">
+            More than one column imports into {repeatedTargets.join(', ')}; the last of them is used.
+          </p>
+        )}
+        {!matchKeyMapped && (
+          <p className="text-sm text-destructive">
+            Map a column to {PRODUCT_IMPORT_MATCH_KEY_LABELS[options.matchBy]} to match rows to existing products.
+          </p>
+        )}
+
+        <div className="flex justify-between">
+          <Button variant="outline" onClick={reset}>
+            <ArrowLeft className="mr-2 h-4 w-4" /> Choose Another File
+          </Button>
+          <Button onClick={handlePreview} disabled={isBusy || !matchKeyMapped}>
+            {isBusy && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} Dry Run
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (step === 'preview' && preview) {
+    const toSave = preview.summary.create + preview.summary.update;
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Dry run of {fileName}: nothing has been saved yet. Rows with errors are not imported.
+        </p>
+        {renderSummary(preview.summary)}
+        {renderRows(preview.rows)}
+        <div className="flex justify-between">
+          <Button variant="outline" onClick={() => setStep('map')} disabled={isBusy}>
+            <ArrowLeft className="mr-2 h-4 w-4" /> Back to Mapping
+          </Button>
+          <div className="flex gap-2">
+            <ImportReportButton result={preview} fileName={`${reportBaseName}_dry_run.csv`} />
+            <Button onClick={handleImport} disabled={isBusy || toSave === 0}>
+              {isBusy ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+              Import {toSave} {toSave === 1 ? 'Row' : 'Rows'}
+            </Button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (step === 'done' && result) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-muted-foreground">Imported {fileName}.</p>
+        {renderSummary(result.summary)}
+        {renderRows(result.rows)}
+        <div className="flex gap-2">
+          <Button onClick={reset}>Import Another File</Button>
+          <ImportReportButton result={result} fileName={`${reportBaseName}_import_report.csv`} />
+        </div>
+      </div>
+    );
+  }
+
+  return null;
+}
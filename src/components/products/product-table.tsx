@@ -0,0 +1,104 @@
+'use client';
+
+import Link from 'next/link';
+import { format } from 'date-fns';
+import type { Product } from '@/types/product';
+import { WorkflowState } from '@/types/workflow';
+import type { ProductSort, ProductSortField, ProductViewColumn } from '@/types/product-view';
+import { PRODUCT_VIEW_COLUMN_LABELS } from '@/types/product-view';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { WorkflowStateBadge } from '@/components/workflow/workflow-state-badge';
+import { QualityBadge } from './quality-badge';
+import { ArrowDown, ArrowUp } from 'lucide-react';
+
+// Columns that sort the list when their header is clicked
+const SORT_FIELDS: Partial<Record<ProductViewColumn, ProductSortField>> = {
+  name: 'name',
+  sku: 'sku',
+  brand: 'brand',
+  quality: 'quality',
+  updatedAt: 'updatedAt',
+};
+
+interface ProductTableProps {
+  products: Product[];
+  columns: ProductViewColumn[];
+  sort: ProductSort;
+  onSortChange: (sort: ProductSort) => void;
+  getCategoryNames?: (ids: string[]) => string[];
+}
+
+export function ProductTable({ products, columns, sort, onSortChange, getCategoryNames }: ProductTableProps) {
+  const renderCell = (product: Product, column: ProductViewColumn) => {
+    switch (column) {
+      case 'name':
+        return (
+          <Link href={`/products/${product.id}`} className="font-medium text-[#2f7979] hover:underline">
+            {product.basicInfo.name?.en || product.basicInfo.name?.no || product.basicInfo.sku}
+          </Link>
+        );
+      case 'sku':
+        return <span className="font-mono text-xs">{product.basicInfo.sku}</span>;
+      case 'gtin':
+        return <span className="font-mono text-xs">{product.basicInfo.gtin || '—'}</span>;
+      case 'brand':
+        return product.basicInfo.brand || '—';
+      case 'status':
+        return <Badge variant="outline" className="capitalize">{product.basicInfo.status}</Badge>;
+      case 'workflowState':
+        return <WorkflowStateBadge state={product.workflowState || WorkflowState.DRAFT} size="sm" />;
+      case 'reviewer':
+        return product.assignedReviewer?.userName || <span className="text-muted-foreground">Unassigned</span>;
+      case 'categories': {
+        const ids = product.attributesAndSpecs?.categories || [];
+        const names = getCategoryNames ? getCategoryNames(ids) : ids;
+        return names.length > 0 ? names.join(', ') : <span className="text-muted-foreground">Uncategorized</span>;
+      }
+      case 'quality':
+        return <QualityBadge completenessScore={product.qualityMetrics?.completenessScore ?? 0} size="sm" showText />;
+      case 'updatedAt':
+        return product.updatedAt ? format(new Date(product.updatedAt), 'yyyy-MM-dd HH:mm') : '—';
+    }
+  };
+
+  const toggleSort = (field: ProductSortField) => {
+    onSortChange(sort.field === field
+      ? { field, direction: sort.direction === 'asc' ? 'desc' : 'asc' }
+      : { field, direction: field === 'updatedAt' || field === 'quality' ? 'desc' : 'asc' });
+  };
+
+  return (
+    <div className="rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            {columns.map(column => {
+              const field = SORT_FIELDS[column];
+              const SortIcon = sort.direction === 'asc' ? ArrowUp : ArrowDown;
+              return (
+                <TableHead key={column}>
+                  {field ? (
+                    <button type="button" className="flex items-center gap-1 hover:text-[#111818]" onClick={() => toggleSort(field)}>
+                      {PRODUCT_VIEW_COLUMN_LABELS[column]}
+                      {sort.field === field && <SortIcon className="h-3 w-3" />}
+                    </button>
+                  ) : PRODUCT_VIEW_COLUMN_LABELS[column]}
+                </TableHead>
+              );
+            })}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {products.map(product => (
+            <TableRow key={product.id}>
+              {columns.map(column => (
+                <TableCell key={column} className="text-sm">{renderCell(product, column)}</TableCell>
+              ))}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,252 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { History, RotateCcw, GitCompare, Loader2 } from 'lucide-react';
+import type { Product } from '@/types/product';
+import type { ProductVersionDiff, ProductVersionSummary, VersionFieldChange } from '@/types/product-version';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription,
+  AlertDialogFooter, AlertDialogHeader, AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+
+interface ProductVersionHistoryProps {
+  productId: string;
+  onRestored?: (product: Product) => void;
+}
+
+function buildHeaders(): Record<string, string> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  const token = typeof window !== 'undefined' ? localStorage.getItem('accessToken') : null;
+  if (token) headers['Authorization'] = `Bearer ${token}`;
+  return headers;
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'string') return value;
+  return JSON.stringify(value);
+}
+
+const CHANGE_BADGE: Record<VersionFieldChange['type'], string> = {
+  added: 'bg-emerald-50 text-emerald-700 border-emerald-200',
+  removed: 'bg-red-50 text-red-700 border-red-200',
+  modified: 'bg-amber-50 text-amber-700 border-amber-200',
+};
+
+/**
+ * Lists the saved versions of a product, compares any two of them field by
+ * field, and restores an earlier version.
+ */
+export function ProductVersionHistory({ productId, onRestored }: ProductVersionHistoryProps) {
+  const { toast } = useToast();
+  const [versions, setVersions] = useState<ProductVersionSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [selected, setSelected] = useState<number[]>([]);
+  const [diff, setDiff] = useState<ProductVersionDiff | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+  const [restoreTarget, setRestoreTarget] = useState<number | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  const fetchVersions = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const res = await fetch(`/api/products/${productId}/versions`, { headers: buildHeaders() });
+      const data = await res.json();
+      if (data.success) setVersions(data.data);
+    } catch (error) {
+      console.error('Failed to fetch product versions', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [productId]);
+
+  useEffect(() => {
+    fetchVersions();
+  }, [fetchVersions]);
+
+  const toggleSelected = (version: number) => {
+    setDiff(null);
+    setSelected(prev => {
+      if (prev.includes(version)) return prev.filter(v => v !== version);
+      // Keep at most two versions selected; the newest pick replaces the oldest
+      return [...prev, version].slice(-2);
+    });
+  };
+
+  const compareSelected = async () => {
+    if (selected.length !== 2) return;
+    const [from, to] = [...selected].sort((a, b) => a - b);
+    setIsComparing(true);
+    try {
+      const res = await fetch(`/api/products/${productId}/versions/diff?from=${from}&to=${to}`, { headers: buildHeaders() });
+      const data = await res.json();
+      if (data.success) {
+        setDiff(data.data);
+      } else {
+        toast({ title: 'Compare failed', description: data.error, variant: 'destructive' });
+      }
+    } catch (error) {
+      console.error('Failed to compare versions', error);
+    } finally {
+      setIsComparing(false);
+    }
+  };
+
+  const confirmRestore = async () => {
+    if (restoreTarget === null) return;
+    setIsRestoring(true);
+    try {
+      const res = await fetch(`/api/products/${productId}/versions/${restoreTarget}/restore`, {
+        method: 'POST',
+        headers: buildHeaders(),
+        body: JSON.stringify({}),
+      });
+      const data = await res.json();
+      if (data.success) {
+        toast({ title: 'Version restored', description: data.message });
+        onRestored?.(data.data);
+        setSelected([]);
+        setDiff(null);
+        await fetchVersions();
+      } else {
+        toast({ title: 'Restore failed', description: data.error, variant: 'destructive' });
+      }
+    } catch (error) {
+      console.error('Failed to restore version', error);
+    } finally {
+      setIsRestoring(false);
+      setRestoreTarget(null);
+    }
+  };
+
+  const latestVersion = versions[0]?.version;
+
+  return (
+    <div className="bg-white border border-[#eaf0f0] rounded-xl p-6 shadow-sm space-y-6">
+      <div className="flex items-center justify-between flex-wrap gap-4">
+        <div className="flex items-center gap-3">
+          <History className="h-5 w-5 text-[#2f7979]" />
+          <h3 className="text-lg font-bold text-[#111818]">Version History</h3>
+          <span className="bg-[#eaf0f0] text-[#5e8787] px-2 py-0.5 rounded-full text-xs font-bold">{versions.length} versions</span>
+        </div>
+        <Button variant="outline" size="sm" onClick={compareSelected} disabled={selected.length !== 2 || isComparing}>
+          {isComparing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <GitCompare className="mr-2 h-4 w-4" />}
+          Compare selected
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-[#5e8787]">Loading versions…</p>
+      ) : versions.length === 0 ? (
+        <p className="text-sm text-[#5e8787]">No versions have been recorded for this product yet.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-10" />
+              <TableHead>Version</TableHead>
+              <TableHead>Saved</TableHead>
+              <TableHead>By</TableHead>
+              <TableHead>Changes</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {versions.map(version => (
+              <TableRow key={version.id}>
+                <TableCell>
+                  <Checkbox
+                    checked={selected.includes(version.version)}
+                    onCheckedChange={() => toggleSelected(version.version)}
+                    aria-label={`Select version ${version.version}`}
+                  />
+                </TableCell>
+                <TableCell className="font-semibold">
+                  v{version.version}
+                  {version.version === latestVersion && <Badge variant="secondary" className="ml-2">Current</Badge>}
+                </TableCell>
+                <TableCell className="text-sm text-[#5e8787]">{format(parseISO(version.createdAt), 'PPp')}</TableCell>
+                <TableCell className="text-sm">{version.createdBy?.userName || version.createdBy?.userId || '—'}</TableCell>
+                <TableCell className="text-sm">
+                  {version.restoredFromVersion
+                    ? `Restored from v${version.restoredFromVersion}`
+                    : version.reason || '—'}
+                  {version.changedFields.length > 0 && (
+                    <span className="block text-xs text-[#5e8787]">{version.changedFields.length} field(s) changed</span>
+                  )}
+                </TableCell>
+                <TableCell className="text-right">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={version.version === latestVersion}
+                    onClick={() => setRestoreTarget(version.version)}
+                  >
+                    <RotateCcw className="mr-2 h-4 w-4" /> Restore
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      {diff && (
+        <div className="space-y-3">
+          <h4 className="font-semibold text-[#111818]">
+            Changes from v{diff.fromVersion} to v{diff.toVersion}
+          </h4>
+          {diff.changes.length === 0 ? (
+            <p className="text-sm text-[#5e8787]">These versions are identical.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Field</TableHead>
+                  <TableHead>Change</TableHead>
+                  <TableHead>v{diff.fromVersion}</TableHead>
+                  <TableHead>v{diff.toVersion}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {diff.changes.map(change => (
+                  <TableRow key={change.field}>
+                    <TableCell className="font-mono text-xs">{change.field}</TableCell>
+                    <TableCell><Badge variant="outline" className={CHANGE_BADGE[change.type]}>{change.type}</Badge></TableCell>
+                    <TableCell className="text-xs break-all max-w-xs">{formatValue(change.oldValue)}</TableCell>
+                    <TableCell className="text-xs break-all max-w-xs">{formatValue(change.newValue)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      )}
+
+      <AlertDialog open={restoreTarget !== null} onOpenChange={(open) => !open && setRestoreTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Restore version {restoreTarget}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The product content will be replaced with this version and saved as a new version.
+              Workflow state and reviewer assignment are not changed.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isRestoring}>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmRestore} disabled={isRestoring}>
+              {isRestoring && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Restore
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,374 @@
+'use client';
+
+import { useState } from 'react';
+import type { ProductSort, ProductViewColumn, ProductViewState, ProductViewSummary, ProductViewVisibility } from '@/types/product-view';
+import { PRODUCT_SORT_FIELDS, PRODUCT_SORT_LABELS, PRODUCT_VIEW_COLUMNS, PRODUCT_VIEW_COLUMN_LABELS } from '@/types/product-view';
+import { FACET_CURRENT_USER } from '@/types/facet';
+import { UserRole } from '@/types/workflow';
+import { getProductViewHref, isSameProductViewState, withCurrentUser } from '@/lib/product-views';
+import { useProductViewStore } from '@/lib/product-view-store';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  ArrowDownWideNarrow, ArrowUpNarrowWide, Bookmark, ChevronDown, Columns3, LayoutGrid, Link2, Pin, PinOff, Save, Trash2, Users,
+} from 'lucide-react';
+
+const VISIBILITY_LABELS: Record<ProductViewVisibility, string> = {
+  private: 'Only me',
+  roles: 'Roles',
+  team: 'My team',
+};
+
+// Columns a new table starts with
+const DEFAULT_TABLE_COLUMNS: ProductViewColumn[] = ['name', 'sku', 'brand', 'workflowState', 'quality', 'updatedAt'];
+
+interface ProductViewsBarProps {
+  state: ProductViewState;
+  activeView: ProductViewSummary | null;
+  currentUserId: string;
+  onSelectView: (view: ProductViewSummary | null) => void;
+  onStateChange: (state: ProductViewState) => void;
+}
+
+export function ProductViewsBar({ state, activeView, currentUserId, onSelectView, onStateChange }: ProductViewsBarProps) {
+  const { views, createView, updateView, deleteView, setPinned } = useProductViewStore();
+  const { toast } = useToast();
+  const [saveOpen, setSaveOpen] = useState(false);
+
+  const myViews = views.filter(view => view.ownerId === currentUserId);
+  const sharedViews = views.filter(view => view.ownerId !== currentUserId);
+  const modified = !!activeView && !isSameProductViewState(state, activeView);
+
+  const run = async (action: () => Promise<unknown>, success: string, failure: string) => {
+    try {
+      await action();
+      toast({ title: success });
+    } catch (error) {
+      toast({ title: failure, description: (error as Error).message, variant: 'destructive' });
+    }
+  };
+
+  const copyLink = async (view: ProductViewSummary) => {
+    await run(
+      () => navigator.clipboard.writeText(`${window.location.origin}${getProductViewHref(view.id)}`),
+      'Link copied',
+      'Copying the link failed'
+    );
+  };
+
+  const handleDelete = async (view: ProductViewSummary) => {
+    if (!window.confirm(`Delete the view "${view.name}"${view.visibility !== 'private' ? ' for everyone it is shared with' : ''}?`)) return;
+    await run(async () => {
+      await deleteView(view.id);
+      onSelectView(null);
+    }, 'View deleted', 'Deleting the view failed');
+  };
+
+  const setSort = (sort: ProductSort) => onStateChange({ ...state, sort });
+  const toggleColumn = (column: ProductViewColumn, checked: boolean) => {
+    const columns = checked
+      ? PRODUCT_VIEW_COLUMNS.filter(c => c === column || state.columns.includes(c))
+      : state.columns.filter(c => c !== column);
+    onStateChange({ ...state, columns });
+  };
+
+  const renderViewItem = (view: ProductViewSummary) => (
+    <DropdownMenuItem key={view.id} onSelect={() => onSelectView(view)} className="flex items-center gap-2">
+      {view.pinned ? <Pin className="h-3 w-3 text-[#2f7979]" /> : <Bookmark className="h-3 w-3 text-[#5e8787]" />}
+      <span className="flex-1 truncate">{view.name}</span>
+      {view.visibility !== 'private' && <Users className="h-3 w-3 text-[#5e8787]" />}
+    </DropdownMenuItem>
+  );
+
+  return (
+    <div className="mb-6 flex flex-wrap items-center gap-2">
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" className="max-w-xs">
+            <Bookmark className="mr-2 h-4 w-4" />
+            <span className="truncate">{activeView ? activeView.name : 'All products'}</span>
+            <ChevronDown className="ml-2 h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-64">
+          <DropdownMenuItem onSelect={() => onSelectView(null)}>All products</DropdownMenuItem>
+          {myViews.length > 0 && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel>My views</DropdownMenuLabel>
+              {myViews.map(renderViewItem)}
+            </>
+          )}
+          {sharedViews.length > 0 && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel>Shared with me</DropdownMenuLabel>
+              {sharedViews.map(renderViewItem)}
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      {activeView && (
+        <>
+          {modified && <Badge variant="secondary">Modified</Badge>}
+          {modified && activeView.canEdit && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => run(
+                () => updateView(activeView.id, { filters: state.filters, sort: state.sort, columns: state.columns }),
+                'View updated',
+                'Updating the view failed'
+              )}
+            >
+              <Save className="mr-1 h-4 w-4" /> Save changes
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="icon"
+            title={activeView.pinned ? 'Unpin from sidebar' : 'Pin to sidebar'}
+            onClick={() => run(
+              () => setPinned(activeView.id, !activeView.pinned),
+              activeView.pinned ? 'View unpinned' : 'View pinned to the sidebar',
+              'Pinning the view failed'
+            )}
+          >
+            {activeView.pinned ? <PinOff className="h-4 w-4" /> : <Pin className="h-4 w-4" />}
+          </Button>
+          <Button variant="ghost" size="icon" title="Copy link" onClick={() => copyLink(activeView)}>
+            <Link2 className="h-4 w-4" />
+          </Button>
+          {activeView.canEdit && (
+            <Button variant="ghost" size="icon" title="Delete view" onClick={() => handleDelete(activeView)}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          )}
+          {!activeView.canEdit && (
+            <span className="text-xs text-muted-foreground">Shared by {activeView.ownerName}</span>
+          )}
+        </>
+      )}
+
+      <div className="ml-auto flex flex-wrap items-center gap-2">
+        <Select value={state.sort.field} onValueChange={field => setSort({ ...state.sort, field: field as ProductSort['field'] })}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PRODUCT_SORT_FIELDS.map(field => (
+              <SelectItem key={field} value={field}>{PRODUCT_SORT_LABELS[field]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="outline"
+          size="icon"
+          title={state.sort.direction === 'asc' ? 'Ascending' : 'Descending'}
+          onClick={() => setSort({ ...state.sort, direction: state.sort.direction === 'asc' ? 'desc' : 'asc' })}
+        >
+          {state.sort.direction === 'asc' ? <ArrowUpNarrowWide className="h-4 w-4" /> : <ArrowDownWideNarrow className="h-4 w-4" />}
+        </Button>
+
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline">
+              {state.columns.length > 0 ? <Columns3 className="mr-2 h-4 w-4" /> : <LayoutGrid className="mr-2 h-4 w-4" />}
+              {state.columns.length > 0 ? 'Table' : 'Cards'}
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end" className="w-56">
+            <DropdownMenuCheckboxItem
+              checked={state.columns.length === 0}
+              onCheckedChange={() => onStateChange({ ...state, columns: state.columns.length > 0 ? [] : DEFAULT_TABLE_COLUMNS })}
+            >
+              Show as cards
+            </DropdownMenuCheckboxItem>
+            <DropdownMenuSeparator />
+            <DropdownMenuLabel>Table columns</DropdownMenuLabel>
+            {PRODUCT_VIEW_COLUMNS.map(column => (
+              <DropdownMenuCheckboxItem
+                key={column}
+                checked={state.columns.includes(column)}
+                onCheckedChange={checked => toggleColumn(column, checked === true)}
+                onSelect={event => event.preventDefault()}
+              >
+                {PRODUCT_VIEW_COLUMN_LABELS[column]}
+              </DropdownMenuCheckboxItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        <Button variant="outline" onClick={() => setSaveOpen(true)}>
+          <Save className="mr-2 h-4 w-4" /> Save view
+        </Button>
+      </div>
+
+      <SaveProductViewDialog
+        open={saveOpen}
+        onOpenChange={setSaveOpen}
+        state={state}
+        currentUserId={currentUserId}
+        onSave={async input => {
+          try {
+            const view = await createView(input);
+            toast({ title: 'View saved', description: `"${view.name}" is in the views menu.` });
+            setSaveOpen(false);
+            onSelectView(view);
+          } catch (error) {
+            toast({ title: 'Saving the view failed', description: (error as Error).message, variant: 'destructive' });
+          }
+        }}
+      />
+    </div>
+  );
+}
+
+interface SaveProductViewDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  state: ProductViewState;
+  currentUserId: string;
+  onSave: (input: ProductViewState & {
+    name: string;
+    description?: string;
+    visibility: ProductViewVisibility;
+    sharedRoles?: UserRole[];
+  }) => Promise<void>;
+}
+
+function SaveProductViewDialog({ open, onOpenChange, state, currentUserId, onSave }: SaveProductViewDialogProps) {
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [visibility, setVisibility] = useState<ProductViewVisibility>('private');
+  const [sharedRoles, setSharedRoles] = useState<UserRole[]>([]);
+  const [relativeReviewer, setRelativeReviewer] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Offer to save "assigned to me" so everyone opening the view sees their own products
+  const reviewers = withCurrentUser(state.filters.facets, currentUserId).reviewer || [];
+  const assignedToMe = reviewers.includes(currentUserId);
+
+  const handleSave = async () => {
+    const facets = { ...withCurrentUser(state.filters.facets, currentUserId) };
+    if (assignedToMe) {
+      facets.reviewer = reviewers.map(value => (value === currentUserId && relativeReviewer ? FACET_CURRENT_USER : value));
+    }
+
+    setIsSaving(true);
+    try {
+      await onSave({
+        ...state,
+        filters: { ...state.filters, facets },
+        name,
+        description: description.trim() || undefined,
+        visibility,
+        sharedRoles: visibility === 'roles' ? sharedRoles : undefined,
+      });
+      setName('');
+      setDescription('');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Save view</DialogTitle>
+          <DialogDescription>Save the current filters, sort and columns so they are one click away.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="view-name">Name</Label>
+            <Input id="view-name" value={name} onChange={e => setName(e.target.value)} placeholder="My drafts with missing images" />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="view-description">Description</Label>
+            <Textarea id="view-description" value={description} onChange={e => setDescription(e.target.value)} rows={2} />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Visible to</Label>
+            <RadioGroup value={visibility} onValueChange={value => setVisibility(value as ProductViewVisibility)} className="flex gap-4">
+              {(Object.keys(VISIBILITY_LABELS) as ProductViewVisibility[]).map(value => (
+                <label key={value} className="flex items-center gap-2 text-sm cursor-pointer">
+                  <RadioGroupItem value={value} /> {VISIBILITY_LABELS[value]}
+                </label>
+              ))}
+            </RadioGroup>
+            {visibility === 'roles' && (
+              <div className="flex flex-wrap gap-3 pt-1">
+                {Object.values(UserRole).map(role => (
+                  <label key={role} className="flex items-center gap-2 text-sm capitalize cursor-pointer">
+                    <Checkbox
+                      checked={sharedRoles.includes(role)}
+                      onCheckedChange={checked => setSharedRoles(checked === true
+                        ? [...sharedRoles, role]
+                        : sharedRoles.filter(r => r !== role))}
+                    />
+                    {role}
+                  </label>
+                ))}
+              </div>
+            )}
+            {visibility === 'team' && (
+              <p className="text-xs text-muted-foreground">Everyone in your department sees this view.</p>
+            )}
+          </div>
+
+          {assignedToMe && (
+            <label className="flex items-start gap-3 text-sm">
+              <Switch checked={relativeReviewer} onCheckedChange={setRelativeReviewer} />
+              <span>
+                Show everyone their own products
+                <span className="block text-xs text-muted-foreground">
+                  The reviewer filter follows whoever opens the view instead of staying on you.
+                </span>
+              </span>
+            </label>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button
+            onClick={handleSave}
+            disabled={isSaving || !name.trim() || (visibility === 'roles' && sharedRoles.length === 0)}
+            className="bg-[#2f7979] hover:bg-[#2f7979]/90"
+          >
+            {isSaving ? 'Saving...' : 'Save view'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,12 +1,21 @@
 
 'use client';
 
+import { useEffect } from 'react';
 import type { MultilingualString } from '@/types/product';
+import type { LocaleDefinition } from '@/types/locale';
+import { useLocaleStore } from '@/lib/locale-store';
+import { resolveLocalizedText } from '@/lib/locales';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { cn } from '@/lib/utils';
+import { Languages } from 'lucide-react';
+
+export type TranslateMode = 'missing' | 'all'; // Fill empty locales, or retranslate every locale
 
 interface MultilingualInputProps {
   id: string;
@@ -18,13 +27,11 @@ interface MultilingualInputProps {
   required?: boolean;
   className?: string;
   disabled?: boolean;
+  locales?: LocaleDefinition[]; // Defaults to the tenant's enabled locales
+  onTranslate?: (mode: TranslateMode) => void; // Shows a Translate menu when set
+  isTranslating?: boolean;
 }
 
-const availableLanguages: Array<{ code: keyof MultilingualString, name: string }> = [
-  { code: 'en', name: 'English' },
-  { code: 'no', name: 'Norwegian' },
-];
-
 export function MultilingualInput({
   id,
   label,
@@ -35,9 +42,28 @@ export function MultilingualInput({
   required = false,
   className,
   disabled = false,
+  locales,
+  onTranslate,
+  isTranslating = false,
 }: MultilingualInputProps) {
-  
-  const handleInputChange = (langCode: keyof MultilingualString, inputValue: string) => {
+  const settings = useLocaleStore(state => state.settings);
+  const ensureLoaded = useLocaleStore(state => state.ensureLoaded);
+
+  useEffect(() => {
+    ensureLoaded();
+  }, [ensureLoaded]);
+
+  const availableLanguages = locales && locales.length > 0 ? locales : settings.locales;
+  const defaultLanguage = availableLanguages.find(l => l.code === settings.defaultLocale) || availableLanguages[0];
+
+  // Empty locales show what they fall back to, so editors can see what is published
+  const getPlaceholder = (langCode: string, langName: string) => {
+    if (placeholder) return placeholder[langCode];
+    const fallback = resolveLocalizedText(value, langCode, settings);
+    return fallback ? `Falls back to: ${fallback}` : `Enter ${label.toLowerCase()} in ${langName.toLowerCase()}`;
+  };
+
+  const handleInputChange = (langCode: string, inputValue: string) => {
     onChange({ ...value, [langCode]: inputValue });
   };
 
@@ -45,9 +71,25 @@ export function MultilingualInput({
 
   return (
     <div className={cn("space-y-2", className)}>
-      <Label htmlFor={`${id}-${availableLanguages[0].code}`}>{label}{required && <span className="text-destructive">*</span>}</Label>
-      <Tabs defaultValue={availableLanguages[0].code} className="w-full">
-        <TabsList className="grid w-full grid-cols-2">
+      <div className="flex items-center justify-between">
+        <Label htmlFor={`${id}-${defaultLanguage.code}`}>{label}{required && <span className="text-destructive">*</span>}</Label>
+        {onTranslate && availableLanguages.length > 1 && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button type="button" variant="ghost" size="sm" className="h-7 px-2 text-xs text-[#5e8787]" disabled={disabled || isTranslating}>
+                <Languages className={cn("mr-1 h-4 w-4", isTranslating && "animate-pulse")} />
+                {isTranslating ? 'Translating...' : 'Translate'}
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onSelect={() => onTranslate('missing')}>Fill empty languages from {defaultLanguage.name}</DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => onTranslate('all')}>Retranslate all languages from {defaultLanguage.name}</DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+      </div>
+      <Tabs key={defaultLanguage.code} defaultValue={defaultLanguage.code} className="w-full">
+        <TabsList className="grid w-full" style={{ gridTemplateColumns: `repeat(${availableLanguages.length}, minmax(0, 1fr))` }}>
           {availableLanguages.map((lang) => (
             <TabsTrigger key={lang.code} value={lang.code} disabled={disabled}>
               {lang.name}
@@ -60,7 +102,7 @@ export function MultilingualInput({
               id={`${id}-${lang.code}`}
               value={value[lang.code] || ''}
               onChange={(e) => handleInputChange(lang.code, e.target.value)}
-              placeholder={placeholder ? placeholder[lang.code] : `Enter ${label.toLowerCase()} in ${lang.name.toLowerCase()}`}
+              placeholder={getPlaceholder(lang.code, lang.name)}
               // Removed: required={required && lang.code === 'en'} 
               // Zod schema now handles the "at least one language" logic
               rows={type === 'textarea' ? 3 : undefined}
@@ -8,6 +8,7 @@ const ROLE_DESCRIPTIONS: Record<UserRole, string> = {
 	[UserRole.ADMIN]: 'Full administrative access, manage users and settings.',
 	[UserRole.EDITOR]: 'Create and edit content, submit for review.',
 	[UserRole.REVIEWER]: 'Review and approve content, provide feedback.',
+	[UserRole.TRANSLATOR]: 'Translate product content and mark translations for review.',
 	[UserRole.VIEWER]: 'Read-only access to permitted areas.',
 }
 
@@ -319,8 +319,8 @@ export const BulkOperationsPanel: React.FC<BulkOperationsPanelProps> = ({
 
     // Check if user has permission for each operation
     Object.entries(BULK_OPERATION_CONFIG).forEach(([action, config]) => {
-      const roleLevel = { [UserRole.ADMIN]: 4, [UserRole.REVIEWER]: 3, [UserRole.EDITOR]: 2, [UserRole.VIEWER]: 1 }[userRole];
-      const requiredLevel = { [UserRole.ADMIN]: 4, [UserRole.REVIEWER]: 3, [UserRole.EDITOR]: 2, [UserRole.VIEWER]: 1 }[config.requiredRole];
+      const roleLevel = { [UserRole.ADMIN]: 4, [UserRole.REVIEWER]: 3, [UserRole.EDITOR]: 2, [UserRole.TRANSLATOR]: 1, [UserRole.VIEWER]: 1 }[userRole];
+      const requiredLevel = { [UserRole.ADMIN]: 4, [UserRole.REVIEWER]: 3, [UserRole.EDITOR]: 2, [UserRole.TRANSLATOR]: 1, [UserRole.VIEWER]: 1 }[config.requiredRole];
       
       if (roleLevel >= requiredLevel) {
         operations.push(action as WorkflowAction);
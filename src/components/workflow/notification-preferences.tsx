@@ -168,6 +168,10 @@ const DEFAULT_PREFERENCES: Record<UserRole, Partial<NotificationPreference>[]> =
     { event: NotificationEvent.PRODUCT_COMMENTED, enabled: true, channels: [NotificationChannel.EMAIL, NotificationChannel.IN_APP] },
     { event: NotificationEvent.REVIEWER_ASSIGNED, enabled: true, channels: [NotificationChannel.EMAIL, NotificationChannel.IN_APP] },
   ],
+  [UserRole.TRANSLATOR]: [
+    { event: NotificationEvent.PRODUCT_COMMENTED, enabled: true, channels: [NotificationChannel.EMAIL, NotificationChannel.IN_APP] },
+    { event: NotificationEvent.PRODUCT_PUBLISHED, enabled: true, channels: [NotificationChannel.IN_APP] },
+  ],
   [UserRole.VIEWER]: [
     { event: NotificationEvent.PRODUCT_PUBLISHED, enabled: true, channels: [NotificationChannel.EMAIL, NotificationChannel.IN_APP] },
     { event: NotificationEvent.SYSTEM_MAINTENANCE, enabled: true, channels: [NotificationChannel.EMAIL, NotificationChannel.IN_APP] },
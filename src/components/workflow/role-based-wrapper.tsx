@@ -68,6 +68,7 @@ const ROLE_HIERARCHY: Record<UserRole, number> = {
   [UserRole.ADMIN]: 4,
   [UserRole.REVIEWER]: 3,
   [UserRole.EDITOR]: 2,
+  [UserRole.TRANSLATOR]: 1,
   [UserRole.VIEWER]: 1,
 };
 
@@ -85,14 +86,15 @@ const DEFAULT_PERMISSIONS: Record<WorkflowAction, UserRole[]> = {
   [WorkflowAction.BULK_REJECT]: [UserRole.ADMIN, UserRole.REVIEWER],
   [WorkflowAction.BULK_PUBLISH]: [UserRole.ADMIN],
   [WorkflowAction.ASSIGN_REVIEWER]: [UserRole.ADMIN],
-  [WorkflowAction.VIEW_AUDIT_TRAIL]: [UserRole.ADMIN, UserRole.REVIEWER, UserRole.EDITOR, UserRole.VIEWER],
+  [WorkflowAction.VIEW_AUDIT_TRAIL]: [UserRole.ADMIN, UserRole.REVIEWER, UserRole.EDITOR, UserRole.TRANSLATOR, UserRole.VIEWER],
   [WorkflowAction.MANAGE_USERS]: [UserRole.ADMIN],
   [WorkflowAction.CONFIGURE_WORKFLOW]: [UserRole.ADMIN],
-  [WorkflowAction.VIEW_ALL_PRODUCTS]: [UserRole.ADMIN, UserRole.REVIEWER, UserRole.EDITOR, UserRole.VIEWER],
-  [WorkflowAction.VIEW_PRODUCT_HISTORY]: [UserRole.ADMIN, UserRole.REVIEWER, UserRole.EDITOR, UserRole.VIEWER],
+  [WorkflowAction.VIEW_ALL_PRODUCTS]: [UserRole.ADMIN, UserRole.REVIEWER, UserRole.EDITOR, UserRole.TRANSLATOR, UserRole.VIEWER],
+  [WorkflowAction.VIEW_PRODUCT_HISTORY]: [UserRole.ADMIN, UserRole.REVIEWER, UserRole.EDITOR, UserRole.TRANSLATOR, UserRole.VIEWER],
   [WorkflowAction.MANAGE_NOTIFICATIONS]: [UserRole.ADMIN],
   [WorkflowAction.PERFORM_BULK_OPERATIONS]: [UserRole.ADMIN, UserRole.REVIEWER],
   [WorkflowAction.EXPORT_PRODUCTS]: [UserRole.ADMIN, UserRole.REVIEWER, UserRole.EDITOR],
+  [WorkflowAction.TRANSLATE]: [UserRole.ADMIN, UserRole.REVIEWER, UserRole.EDITOR, UserRole.TRANSLATOR],
 };
 
 /**
@@ -304,6 +306,7 @@ export function useRoleBasedAccess(
       [UserRole.ADMIN]: 4,
       [UserRole.REVIEWER]: 3,
       [UserRole.EDITOR]: 2,
+      [UserRole.TRANSLATOR]: 1,
       [UserRole.VIEWER]: 1,
     };
 
@@ -319,14 +322,15 @@ export function useRoleBasedAccess(
       [WorkflowAction.BULK_REJECT]: [UserRole.ADMIN, UserRole.REVIEWER],
       [WorkflowAction.BULK_PUBLISH]: [UserRole.ADMIN],
       [WorkflowAction.ASSIGN_REVIEWER]: [UserRole.ADMIN],
-      [WorkflowAction.VIEW_AUDIT_TRAIL]: [UserRole.ADMIN, UserRole.REVIEWER, UserRole.EDITOR, UserRole.VIEWER],
+      [WorkflowAction.VIEW_AUDIT_TRAIL]: [UserRole.ADMIN, UserRole.REVIEWER, UserRole.EDITOR, UserRole.TRANSLATOR, UserRole.VIEWER],
       [WorkflowAction.MANAGE_USERS]: [UserRole.ADMIN],
       [WorkflowAction.CONFIGURE_WORKFLOW]: [UserRole.ADMIN],
-      [WorkflowAction.VIEW_ALL_PRODUCTS]: [UserRole.ADMIN, UserRole.REVIEWER, UserRole.EDITOR, UserRole.VIEWER],
-      [WorkflowAction.VIEW_PRODUCT_HISTORY]: [UserRole.ADMIN, UserRole.REVIEWER, UserRole.EDITOR, UserRole.VIEWER],
+      [WorkflowAction.VIEW_ALL_PRODUCTS]: [UserRole.ADMIN, UserRole.REVIEWER, UserRole.EDITOR, UserRole.TRANSLATOR, UserRole.VIEWER],
+      [WorkflowAction.VIEW_PRODUCT_HISTORY]: [UserRole.ADMIN, UserRole.REVIEWER, UserRole.EDITOR, UserRole.TRANSLATOR, UserRole.VIEWER],
       [WorkflowAction.MANAGE_NOTIFICATIONS]: [UserRole.ADMIN],
       [WorkflowAction.PERFORM_BULK_OPERATIONS]: [UserRole.ADMIN, UserRole.REVIEWER],
       [WorkflowAction.EXPORT_PRODUCTS]: [UserRole.ADMIN, UserRole.REVIEWER, UserRole.EDITOR],
+      [WorkflowAction.TRANSLATE]: [UserRole.ADMIN, UserRole.REVIEWER, UserRole.EDITOR, UserRole.TRANSLATOR],
     };
 
     // Check if user has required role
@@ -188,6 +188,7 @@ const ROLE_HIERARCHY = {
   [UserRole.ADMIN]: 4,
   [UserRole.REVIEWER]: 3,
   [UserRole.EDITOR]: 2,
+  [UserRole.TRANSLATOR]: 1,
   [UserRole.VIEWER]: 1,
 } as const;
 
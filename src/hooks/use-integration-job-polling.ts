@@ -0,0 +1,29 @@
+/**
+ * useIntegrationJobPolling Hook
+ *
+ * Polls the integration jobs in the job store that are queued or running
+ * until they finish, and reports each job as it finishes.
+ */
+
+import { useEffect, useRef } from 'react';
+import type { IntegrationJob } from '@/types/integration-job';
+import { useIntegrationJobStore } from '@/lib/integration-job-store';
+import { isIntegrationJobActive } from '@/lib/integration-jobs';
+
+const POLL_INTERVAL_MS = 2000;
+
+export function useIntegrationJobPolling(onFinished?: (job: IntegrationJob) => void) {
+  const hasActiveJobs = useIntegrationJobStore(state => state.jobs.some(isIntegrationJobActive));
+  const refreshActiveJobs = useIntegrationJobStore(state => state.refreshActiveJobs);
+  const onFinishedRef = useRef(onFinished);
+  onFinishedRef.current = onFinished;
+
+  useEffect(() => {
+    if (!hasActiveJobs) return;
+    const timer = setInterval(async () => {
+      const refreshed = await refreshActiveJobs();
+      refreshed.filter(job => !isIntegrationJobActive(job)).forEach(job => onFinishedRef.current?.(job));
+    }, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [hasActiveJobs, refreshActiveJobs]);
+}
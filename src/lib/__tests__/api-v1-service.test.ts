@@ -0,0 +1,133 @@
+jest.mock('../firebase-admin', () => ({ adminDb: {} }));
+
+import { ApiV1Service } from '../api-v1-service';
+import { getApiKeyPrincipal } from '../api-keys';
+import type { ApiKey } from '@/types/api-key';
+import type { Product } from '@/types/product';
+import type { ProductSaveContext } from '@/types/product-version';
+import { UserRole, WorkflowState } from '@/types/workflow';
+import { WorkflowStateManager } from '../workflow-state-manager';
+
+class InMemoryProductService {
+  items = new Map<string, Product>();
+
+  async getProductById(id: string) { return this.items.get(id) || null; }
+  async createProduct(product: Product) { this.items.set(product.id, product); }
+  updateProduct = jest.fn(async (id: string, product: Product, _context?: ProductSaveContext) => { this.items.set(id, product); });
+  async deleteProduct(id: string) { this.items.delete(id); }
+}
+
+const createKey = (scopes: ApiKey['scopes']): ApiKey => ({
+  id: 'key-1',
+  tenantId: 'acme',
+  name: 'Webshop sync',
+  prefix: 'pim_12345678',
+  keyHash: 'hash',
+  scopes,
+  rateLimit: { maxRequests: 10, windowMs: 60000 },
+  createdBy: 'admin',
+  createdAt: '2026-01-01T00:00:00Z',
+});
+
+describe('ApiV1Service', () => {
+  let products: InMemoryProductService;
+  let service: ApiV1Service;
+  const writer = getApiKeyPrincipal(createKey(['read', 'write']));
+  const publisher = getApiKeyPrincipal(createKey(['read', 'write', 'publish']));
+
+  beforeEach(() => {
+    products = new InMemoryProductService();
+    const categories = { listCategories: async () => [{ id: 'cat-outdoor' }] };
+    const locales = { getPublishRequirement: async () => undefined };
+    const audit = {
+      createProductAuditEntry: jest.fn(),
+      createProductUpdateAuditEntry: jest.fn(),
+      createProductDeleteAuditEntry: jest.fn(),
+      createStateTransitionAuditEntry: jest.fn(),
+    };
+    const stateManager = new WorkflowStateManager();
+    service = new ApiV1Service(products as any, categories as any, locales as any, stateManager, audit as any);
+  });
+
+  const createProduct = async () => {
+    const result = await service.createProduct({
+      basicInfo: { name: { en: 'Rain jacket' }, sku: 'RJ-1', brand: 'Acme' },
+      attributesAndSpecs: { categories: ['cat-outdoor'], properties: [{ key: 'Color', value: 'Red' }] },
+      media: [{ url: 'https://cdn.example.com/rj-1.jpg', type: 'image' }, { url: 'https://cdn.example.com/rj-1.pdf', type: 'manual', language: 'en' }],
+      pricingAndStock: { standardPrice: [{ currency: 'NOK', amount: 1299 }] },
+    }, writer);
+    return result.data!;
+  };
+
+  it('creates drafts attributed to the key and returns the v1 representation', async () => {
+    const product = await createProduct();
+
+    expect(product).toMatchObject({
+      productType: 'simple',
+      basicInfo: { name: { en: 'Rain jacket', no: '' }, sku: 'RJ-1', brand: 'Acme', status: 'development' },
+      attributesAndSpecs: { categories: ['cat-outdoor'], properties: [{ key: 'Color', value: 'Red' }] },
+      pricingAndStock: { standardPrice: [{ currency: 'NOK', amount: 1299 }] },
+      workflowState: WorkflowState.DRAFT,
+    });
+    expect(product.media.map(m => m.type)).toEqual(['image', 'manual']);
+
+    const stored = products.items.get(product.id)!;
+    expect(stored.media.manuals).toHaveLength(1);
+    expect(stored.workflowHistory![0]).toMatchObject({ userId: 'api_key:key-1', userName: 'API key "Webshop sync"' });
+  });
+
+  it('rejects unknown categories', async () => {
+    const result = await service.createProduct({ basicInfo: { name: { en: 'X' }, sku: 'X' }, attributesAndSpecs: { categories: ['nope'] } }, writer);
+    expect(result).toMatchObject({ code: 'VALIDATION_ERROR', details: ['Category nope does not exist'] });
+  });
+
+  it('merges updates per section and per locale', async () => {
+    const { id } = await createProduct();
+    const result = await service.updateProduct(id, { basicInfo: { name: { no: 'Regnjakke' } }, marketingSEO: { keywords: ['rain'] } }, writer);
+
+    expect(result.data!.basicInfo).toMatchObject({ name: { en: 'Rain jacket', no: 'Regnjakke' }, sku: 'RJ-1', brand: 'Acme' });
+    expect(result.data!.marketingSEO.keywords).toEqual(['rain']);
+    expect(result.data!.attributesAndSpecs.properties).toEqual([{ key: 'Color', value: 'Red' }]);
+  });
+
+  it('adds and removes media', async () => {
+    const { id } = await createProduct();
+    const added = await service.addMedia(id, { url: 'https://cdn.example.com/rj-1.mp4', type: 'video' }, writer);
+    expect((await service.listMedia(id)).data!.map(m => m.type)).toEqual(['image', 'video', 'manual']);
+
+    expect((await service.deleteMedia(id, added.data!.id, writer)).success).toBe(true);
+    expect(products.items.get(id)!.media.videos).toBeUndefined();
+    expect((await service.deleteMedia(id, 'missing', writer)).code).toBe('NOT_FOUND');
+  });
+
+  it('acts with a role limited by the key scopes', () => {
+    expect(writer.userRole).toBe(UserRole.EDITOR);
+    expect(publisher.userRole).toBe(UserRole.REVIEWER);
+    expect(getApiKeyPrincipal(createKey(['read', 'storefront'])).userRole).toBe(UserRole.VIEWER);
+  });
+
+  it('needs the publish scope to approve and publish', async () => {
+    const { id } = await createProduct();
+    const reviewer = { userId: 'rita', userName: 'Rita Reviewer', userRole: UserRole.REVIEWER };
+
+    const submitted = await service.transition(id, { toState: WorkflowState.REVIEW, reviewer }, writer);
+    expect(submitted.data).toMatchObject({ workflowState: WorkflowState.REVIEW });
+    expect(products.items.get(id)!.assignedReviewer).toEqual(reviewer);
+
+    expect((await service.transition(id, { toState: WorkflowState.APPROVED }, writer)).code).toBe('INSUFFICIENT_SCOPE');
+    expect((await service.transition(id, { toState: WorkflowState.APPROVED }, publisher)).success).toBe(true);
+    expect((await service.transition(id, { toState: WorkflowState.DRAFT }, publisher)).code).toBe('INVALID_TRANSITION');
+
+    const published = await service.transition(id, { toState: WorkflowState.PUBLISHED }, publisher);
+    expect(published.data!.workflowState).toBe(WorkflowState.PUBLISHED);
+    expect(published.data!.transitions).toEqual([{ toState: WorkflowState.DRAFT, scope: 'publish' }]);
+    expect(published.data!.history.map(h => h.toState)).toEqual([
+      WorkflowState.DRAFT, WorkflowState.REVIEW, WorkflowState.APPROVED, WorkflowState.PUBLISHED,
+    ]);
+    expect(products.updateProduct).toHaveBeenLastCalledWith(
+      id,
+      expect.objectContaining({ workflowState: WorkflowState.PUBLISHED }),
+      expect.objectContaining({ tenantId: 'acme' })
+    );
+  });
+});
@@ -0,0 +1,84 @@
+jest.mock('../firebase-admin', () => ({ adminDb: {} }));
+
+import { AttributeFamilyService } from '../attribute-family-service';
+import type { AttributeFamily } from '@/types/attribute';
+
+class InMemoryAttributeFamilyRepository {
+  items = new Map<string, AttributeFamily>();
+
+  async save(family: AttributeFamily) { this.items.set(family.id, family); }
+  async getById(id: string) { return this.items.get(id) || null; }
+  async getAll() { return Array.from(this.items.values()); }
+  async delete(id: string) { this.items.delete(id); }
+}
+
+class InMemoryProductRepository {
+  items: Array<{ id: string; attribute_family_id?: string | null }> = [];
+
+  async getAll() { return this.items; }
+}
+
+describe('AttributeFamilyService', () => {
+  let familyRepo: InMemoryAttributeFamilyRepository;
+  let productRepo: InMemoryProductRepository;
+  let service: AttributeFamilyService;
+
+  const headphones = {
+    code: 'headphones',
+    name: { en: 'Headphones', no: 'Hodetelefoner' },
+    attributes: [
+      { code: 'battery_life', label: { en: 'Battery life', no: '' }, type: 'number' as const, unit: 'h', required: true },
+    ],
+  };
+
+  beforeEach(() => {
+    familyRepo = new InMemoryAttributeFamilyRepository();
+    productRepo = new InMemoryProductRepository();
+    service = new AttributeFamilyService(familyRepo as any, productRepo as any);
+  });
+
+  it('creates families and lists them by code', async () => {
+    await service.createFamily({ ...headphones, code: 'speakers' });
+    const created = await service.createFamily(headphones);
+
+    expect(created.success).toBe(true);
+    expect(created.data!.id).toBeDefined();
+    expect((await service.listFamilies()).map(f => f.code)).toEqual(['headphones', 'speakers']);
+  });
+
+  it('rejects invalid definitions and duplicate codes', async () => {
+    const invalid = await service.createFamily({ ...headphones, code: 'Head Phones' });
+    expect(invalid.code).toBe('VALIDATION_ERROR');
+    expect(invalid.details!.length).toBeGreaterThan(0);
+
+    await service.createFamily(headphones);
+    expect((await service.createFamily(headphones)).code).toBe('CODE_EXISTS');
+  });
+
+  it('updates attributes and validates the merged family', async () => {
+    const created = await service.createFamily(headphones);
+    const id = created.data!.id;
+
+    const updated = await service.updateFamily(id, {
+      attributes: [...headphones.attributes, { code: 'wireless', label: { en: 'Wireless', no: '' }, type: 'boolean', required: false }],
+    });
+    expect(updated.success).toBe(true);
+    expect(updated.data!.attributes).toHaveLength(2);
+
+    const duplicate = await service.updateFamily(id, { attributes: [headphones.attributes[0], headphones.attributes[0]] });
+    expect(duplicate.code).toBe('VALIDATION_ERROR');
+    expect((await service.updateFamily('missing', { name: { en: 'X', no: '' } })).code).toBe('NOT_FOUND');
+  });
+
+  it('refuses to delete a family that products are assigned to', async () => {
+    const created = await service.createFamily(headphones);
+    const id = created.data!.id;
+    productRepo.items.push({ id: 'p1', attribute_family_id: id });
+
+    expect((await service.deleteFamily(id)).code).toBe('IN_USE');
+
+    productRepo.items = [];
+    expect((await service.deleteFamily(id)).success).toBe(true);
+    expect(await familyRepo.getById(id)).toBeNull();
+  });
+});
@@ -0,0 +1,166 @@
+import {
+  validateAttributeValue,
+  validateAttributeValues,
+  getMissingRequiredAttributes,
+  validateAttributeFamily,
+  formatAttributeValue,
+  isAttributeValueEmpty,
+  parseAttributeText,
+} from '../attribute-validation';
+import type { AttributeDefinition, AttributeFamily } from '@/types/attribute';
+
+const define = (overrides: Partial<AttributeDefinition>): AttributeDefinition => ({
+  code: 'attr',
+  label: { en: 'Attribute', no: '' },
+  type: 'text',
+  required: false,
+  ...overrides,
+});
+
+const family = (attributes: AttributeDefinition[]): AttributeFamily => ({
+  id: 'fam-1',
+  code: 'test',
+  name: { en: 'Test', no: '' },
+  attributes,
+  createdAt: '2023-01-01T00:00:00.000Z',
+  updatedAt: '2023-01-01T00:00:00.000Z',
+});
+
+describe('attribute-validation', () => {
+  describe('validateAttributeValue', () => {
+    it('checks text length and pattern', () => {
+      const def = define({ constraints: { minLength: 2, maxLength: 5, pattern: '^[A-Z]+$' } });
+      expect(validateAttributeValue(def, 'ABC')).toBeNull();
+      expect(validateAttributeValue(def, 'A')).toMatch(/at least 2/);
+      expect(validateAttributeValue(def, 'ABCDEF')).toMatch(/at most 5/);
+      expect(validateAttributeValue(def, 'abc')).toMatch(/format/);
+    });
+
+    it('checks number range and integers, with or without a unit', () => {
+      const def = define({ type: 'number', unit: 'g', constraints: { min: 1, max: 10, integer: true } });
+      expect(validateAttributeValue(def, { value: 5, unit: 'g' })).toBeNull();
+      expect(validateAttributeValue(def, 5)).toBeNull();
+      expect(validateAttributeValue(def, { value: 11 })).toMatch(/at most 10/);
+      expect(validateAttributeValue(def, 2.5)).toMatch(/whole number/);
+    });
+
+    it('checks ranges in the definition unit and rejects other dimensions', () => {
+      const def = define({ type: 'number', dimension: 'mass', unit: 'g', constraints: { max: 1000 } });
+      expect(validateAttributeValue(def, { value: 0.5, unit: 'kg' })).toBeNull();
+      expect(validateAttributeValue(def, { value: 2, unit: 'kg' })).toBe('must be at most 1000 g');
+      expect(validateAttributeValue(def, { value: 2, unit: 'cm' })).toMatch(/must be a mass/);
+    });
+
+    it('checks enum options and multiplicity', () => {
+      const options = [{ value: 'red', label: { en: 'Red', no: 'Rød' } }, { value: 'blue', label: { en: 'Blue', no: 'Blå' } }];
+      const single = define({ type: 'enum', options });
+      const multiple = define({ type: 'enum', options, constraints: { multiple: true } });
+
+      expect(validateAttributeValue(single, 'red')).toBeNull();
+      expect(validateAttributeValue(single, 'green')).toMatch(/unknown option/);
+      expect(validateAttributeValue(single, ['red'])).toMatch(/only one/);
+      expect(validateAttributeValue(multiple, ['red', 'blue'])).toBeNull();
+    });
+
+    it('checks date format and bounds', () => {
+      const def = define({ type: 'date', constraints: { minDate: '2024-01-01' } });
+      expect(validateAttributeValue(def, '2024-06-01')).toBeNull();
+      expect(validateAttributeValue(def, '01.06.2024')).toMatch(/YYYY-MM-DD/);
+      expect(validateAttributeValue(def, '2023-12-31')).toMatch(/on or after/);
+    });
+
+    it('treats empty values as valid (missing values are reported separately)', () => {
+      expect(validateAttributeValue(define({ type: 'number', constraints: { min: 1 } }), null)).toBeNull();
+      expect(validateAttributeValue(define({ constraints: { minLength: 3 } }), '')).toBeNull();
+    });
+  });
+
+  describe('required attributes', () => {
+    it('treats false as a filled-in boolean and blank translations as empty', () => {
+      expect(isAttributeValueEmpty(define({ type: 'boolean' }), false)).toBe(false);
+      expect(isAttributeValueEmpty(define({ type: 'multilingual' }), { en: ' ', no: '' })).toBe(true);
+    });
+
+    it('lists required attributes without a value', () => {
+      const f = family([
+        define({ code: 'a', required: true }),
+        define({ code: 'b', required: true, type: 'boolean' }),
+        define({ code: 'c', required: false }),
+      ]);
+      expect(getMissingRequiredAttributes(f, { b: false }).map(d => d.code)).toEqual(['a']);
+    });
+
+    it('collects constraint issues with the attribute label', () => {
+      const f = family([define({ code: 'weight', label: { en: 'Weight', no: '' }, type: 'number', constraints: { min: 0 } })]);
+      expect(validateAttributeValues(f, { weight: -1 })).toEqual([{ code: 'weight', message: 'Weight must be at least 0' }]);
+    });
+  });
+
+  describe('validateAttributeFamily', () => {
+    it('accepts a well-formed family', () => {
+      expect(validateAttributeFamily({ code: 'shoes', name: { en: 'Shoes', no: '' }, attributes: [define({ code: 'size' })] })).toEqual([]);
+    });
+
+    it('rejects bad codes, duplicates, empty enums and inverted ranges', () => {
+      const errors = validateAttributeFamily({
+        code: 'Bad Code',
+        name: { en: '', no: '' },
+        attributes: [
+          define({ code: 'size' }),
+          define({ code: 'size' }),
+          define({ code: 'fit', type: 'enum', options: [] }),
+          define({ code: 'weight', type: 'number', constraints: { min: 10, max: 1 } }),
+          define({ code: 'ean', constraints: { pattern: '[' } }),
+        ],
+      });
+
+      expect(errors).toEqual(expect.arrayContaining([
+        expect.stringMatching(/Family code/),
+        expect.stringMatching(/Family name/),
+        expect.stringMatching(/duplicate code/),
+        expect.stringMatching(/at least one option/),
+        expect.stringMatching(/min cannot be greater than max/),
+        expect.stringMatching(/invalid pattern/),
+      ]));
+    });
+  });
+
+  it('requires a matching default unit for dimensioned attributes', () => {
+    const errors = validateAttributeFamily({
+      code: 'shoes',
+      name: { en: 'Shoes', no: '' },
+      attributes: [define({ code: 'weight', type: 'number', dimension: 'mass', unit: 'cm' })],
+    });
+    expect(errors).toEqual([expect.stringMatching(/default unit must be a mass unit/)]);
+  });
+
+  describe('formatAttributeValue', () => {
+    it('formats values for display and export', () => {
+      const options = [{ value: 'red', label: { en: 'Red', no: 'Rød' } }];
+      expect(formatAttributeValue(define({ type: 'number', unit: 'g' }), 250)).toBe('250 g');
+      expect(formatAttributeValue(define({ type: 'boolean' }), true)).toBe('Yes');
+      expect(formatAttributeValue(define({ type: 'enum', options }), 'red', 'no')).toBe('Rød');
+      expect(formatAttributeValue(define({ type: 'multilingual' }), { en: 'Hello', no: 'Hei' }, 'no')).toBe('Hei');
+    });
+  });
+
+  describe('parseAttributeText', () => {
+    it('parses the text formatAttributeValue produces', () => {
+      const options = [{ value: 'red', label: { en: 'Red', no: 'Rød' } }, { value: 'blue', label: { en: 'Blue', no: 'Blå' } }];
+      expect(parseAttributeText(define({ type: 'number', unit: 'kg', dimension: 'mass' }), '250 g').value)
+        .toEqual({ value: 250, unit: 'g', normalized: { value: 0.25, unit: 'kg' } });
+      expect(parseAttributeText(define({ type: 'number', unit: 'h' }), '12 h').value).toEqual({ value: 12, unit: 'h' });
+      expect(parseAttributeText(define({ type: 'boolean' }), 'No').value).toBe(false);
+      expect(parseAttributeText(define({ type: 'enum', options, constraints: { multiple: true } }), 'Rød, blue').value).toEqual(['red', 'blue']);
+      expect(parseAttributeText(define({ type: 'multilingual' }), 'Hei', { locale: 'no', current: { en: 'Hello', no: '' } }).value)
+        .toEqual({ en: 'Hello', no: 'Hei' });
+      expect(parseAttributeText(define({ type: 'date' }), '').value).toBeNull();
+    });
+
+    it('reports text that does not fit the type', () => {
+      expect(parseAttributeText(define({ type: 'number' }), 'lots').error).toBe('must be a number');
+      expect(parseAttributeText(define({ type: 'boolean' }), 'maybe').error).toBe('must be yes or no');
+      expect(parseAttributeText(define({ type: 'enum', options: [] }), 'green').error).toBe('has unknown option(s): green');
+    });
+  });
+});
@@ -383,6 +383,19 @@ describe('BulkProductFilter', () => {
       expect(values.categories).toHaveLength(2);
     });
 
+    it('should resolve category IDs to names', () => {
+      filter.setCategories([
+        { id: 'cat-audio', parentId: null, name: { en: 'Audio', no: 'Lyd' }, slug: 'audio', order: 0, createdAt: '', updatedAt: '' },
+      ]);
+      const products = [
+        { ...mockProducts[0], category: undefined, attributesAndSpecs: { categories: ['cat-audio'] } },
+      ] as any as Product[];
+
+      expect(filter.getAvailableFilterValues(products).categories).toEqual(['Audio']);
+      expect(filter.filter(products, { categories: ['cat-audio'] }).matchedCount).toBe(1);
+      expect(filter.filter(products, { categories: ['Audio'] }).matchedCount).toBe(1);
+    });
+
     it('should get available brands', () => {
       const values = filter.getAvailableFilterValues(mockProducts);
       
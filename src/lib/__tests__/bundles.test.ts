@@ -0,0 +1,172 @@
+import {
+  applyBundlePricing,
+  bundleDefinitionSchema,
+  computeBundlePrices,
+  createProductLookup,
+  getBundleIssues,
+  getUnitPrice,
+} from '../bundles';
+import { checkMissingFields, validateProduct } from '../product-quality';
+import type { BundleDefinition } from '@/types/bundle';
+import type { Product } from '@/types/product';
+import { WorkflowState } from '@/types/workflow';
+
+const createProduct = (id: string, overrides: Partial<Product> = {}): Product => ({
+  id,
+  basicInfo: {
+    name: { en: id, no: id },
+    sku: id.toUpperCase(),
+    descriptionShort: { en: 'Short', no: '' },
+    descriptionLong: { en: 'Long', no: '' },
+    brand: 'Acme',
+    status: 'active',
+  },
+  attributesAndSpecs: { categories: [], properties: [], technicalSpecs: [] },
+  media: { images: [] },
+  marketingSEO: { seoTitle: { en: '', no: '' }, seoDescription: { en: '', no: '' }, keywords: [] },
+  workflowState: WorkflowState.PUBLISHED,
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z',
+  ...overrides,
+});
+
+const price = (amount: number, currency = 'NOK', window: { validFrom?: string; validTo?: string } = {}) =>
+  ({ id: `${currency}-${amount}`, amount, currency, ...window });
+
+const camera = createProduct('camera', {
+  pricingAndStock: { standardPrice: [price(8000), price(700, 'EUR')], salePrice: [price(7000)] },
+});
+const lens = createProduct('lens', {
+  pricingAndStock: { standardPrice: [price(3000)] },
+  variants: [
+    { id: 'lens-50', sku: 'LENS-50', optionValues: { Focal: '50mm' }, standardPrice: [price(3500)] },
+    { id: 'lens-35', sku: 'LENS-35', optionValues: { Focal: '35mm' } },
+  ],
+});
+const bag = createProduct('bag', { pricingAndStock: { standardPrice: [price(500), price(50, 'EUR')] } });
+
+const createKit = (bundle: Partial<BundleDefinition> = {}): Product => createProduct('kit', {
+  productType: 'bundle',
+  bundle: {
+    components: [
+      { id: 'c1', productId: 'camera', quantity: 1 },
+      { id: 'c2', productId: 'lens', variantId: 'lens-50', quantity: 1 },
+      { id: 'c3', productId: 'bag', quantity: 2 },
+    ],
+    pricing: { mode: 'computed', discount: { type: 'percentage', value: 10 } },
+    ...bundle,
+  },
+});
+
+const lookup = createProductLookup([camera, lens, bag]);
+
+describe('getUnitPrice', () => {
+  it('prefers an active, lower sale price', () => {
+    expect(getUnitPrice(camera.pricingAndStock, 'NOK')).toBe(7000);
+    expect(getUnitPrice(camera.pricingAndStock, 'EUR')).toBe(700);
+    expect(getUnitPrice(camera.pricingAndStock, 'SEK')).toBeUndefined();
+  });
+
+  it('ignores prices outside their validity window', () => {
+    const prices = { standardPrice: [price(100)], salePrice: [price(80, 'NOK', { validTo: '2024-06-30T23:59:59Z' })] };
+    expect(getUnitPrice(prices, 'NOK', new Date('2024-06-01'))).toBe(80);
+    expect(getUnitPrice(prices, 'NOK', new Date('2024-07-01'))).toBe(100);
+  });
+});
+
+describe('computeBundlePrices', () => {
+  it('sums component prices times quantity and applies a percentage discount', () => {
+    // 7000 (sale) + 3500 (variant) + 2 x 500
+    expect(computeBundlePrices(createKit(), lookup)).toEqual([
+      { currency: 'NOK', componentTotal: 11500, discount: 1150, amount: 10350 },
+    ]);
+  });
+
+  it('falls back to the product price for variants without their own', () => {
+    const kit = createKit({
+      components: [{ id: 'c1', productId: 'lens', variantId: 'lens-35', quantity: 2 }],
+      pricing: { mode: 'computed' },
+    });
+    expect(computeBundlePrices(kit, lookup)).toEqual([{ currency: 'NOK', componentTotal: 6000, discount: 0, amount: 6000 }]);
+  });
+
+  it('applies a fixed amount discount only in its currency', () => {
+    const kit = createKit({
+      components: [{ id: 'c1', productId: 'camera', quantity: 1 }, { id: 'c3', productId: 'bag', quantity: 1 }],
+      pricing: { mode: 'computed', discount: { type: 'fixed_amount', value: 500, currency: 'NOK' } },
+    });
+    expect(computeBundlePrices(kit, lookup)).toEqual([
+      { currency: 'NOK', componentTotal: 7500, discount: 500, amount: 7000 },
+      { currency: 'EUR', componentTotal: 750, discount: 0, amount: 750 },
+    ]);
+  });
+
+  it('has no computed price for fixed bundles or missing components', () => {
+    expect(computeBundlePrices(createKit({ pricing: { mode: 'fixed' } }), lookup)).toEqual([]);
+    expect(computeBundlePrices(createKit(), createProductLookup([camera, bag]))).toEqual([]);
+  });
+
+  it('fills in standard and sale prices for exporters', () => {
+    const priced = applyBundlePricing(createKit(), lookup);
+    expect(priced.pricingAndStock?.standardPrice).toEqual([{ id: 'bundle-standard-NOK', currency: 'NOK', amount: 11500 }]);
+    expect(priced.pricingAndStock?.salePrice).toEqual([{ id: 'bundle-sale-NOK', currency: 'NOK', amount: 10350 }]);
+  });
+});
+
+describe('getBundleIssues', () => {
+  it('flags discontinued, unpublished and missing components', () => {
+    const catalog = createProductLookup([
+      { ...camera, basicInfo: { ...camera.basicInfo, status: 'discontinued' } },
+      { ...lens, workflowState: WorkflowState.REVIEW },
+    ]);
+    expect(getBundleIssues(createKit(), catalog).map(issue => [issue.componentId, issue.type])).toEqual([
+      ['c1', 'bundle-component-discontinued'],
+      ['c2', 'bundle-component-unpublished'],
+      ['c3', 'bundle-component-missing'],
+    ]);
+  });
+
+  it('rejects self references, nested bundles and unknown variants', () => {
+    const otherKit = createProduct('other-kit', { productType: 'bundle', pricingAndStock: { standardPrice: [price(1)] } });
+    const kit = createKit({
+      components: [
+        { id: 'c1', productId: 'kit', quantity: 1 },
+        { id: 'c2', productId: 'other-kit', quantity: 1 },
+        { id: 'c3', productId: 'lens', variantId: 'lens-85', quantity: 1 },
+      ],
+    });
+    expect(getBundleIssues(kit, createProductLookup([otherKit, lens])).map(issue => issue.type)).toEqual([
+      'bundle-component-self',
+      'bundle-component-nested',
+      'bundle-component-variant-missing',
+    ]);
+  });
+
+  it('reports nothing for simple products or a sellable bundle', () => {
+    expect(getBundleIssues(camera, lookup)).toEqual([]);
+    expect(getBundleIssues(createKit(), lookup)).toEqual([]);
+  });
+});
+
+describe('bundle quality checks', () => {
+  it('does not require a price on computed bundles', () => {
+    expect(checkMissingFields(createKit())).not.toContain('standardPrice');
+    expect(checkMissingFields(createKit({ pricing: { mode: 'fixed' } }))).toContain('standardPrice');
+  });
+
+  it('reports component issues as validation errors', () => {
+    const catalog = createProductLookup([camera, lens, { ...bag, workflowState: WorkflowState.DRAFT }]);
+    expect(validateProduct(createKit(), undefined, undefined, catalog)).toEqual([
+      { type: 'bundle-component-unpublished', message: 'Component BAG is not published', severity: 'warning' },
+    ]);
+  });
+});
+
+describe('bundleDefinitionSchema', () => {
+  it('rejects discounts over 100 percent and amounts without a currency', () => {
+    const definition = (discount: object) => ({ components: [], pricing: { mode: 'computed', discount } });
+    expect(bundleDefinitionSchema.safeParse(definition({ type: 'percentage', value: 120 })).success).toBe(false);
+    expect(bundleDefinitionSchema.safeParse(definition({ type: 'fixed_amount', value: 100 })).success).toBe(false);
+    expect(bundleDefinitionSchema.safeParse(definition({ type: 'fixed_amount', value: 100, currency: 'NOK' })).success).toBe(true);
+  });
+});
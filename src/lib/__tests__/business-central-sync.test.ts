@@ -0,0 +1,231 @@
+jest.mock('../firebase-admin', () => ({ adminDb: {} }));
+
+import {
+  advanceSyncWatermark,
+  getBusinessCentralOwnedItemFields,
+  isAfterWatermark,
+  isItemChangedSinceSync,
+  isProductChangedSinceSync,
+  mergeBusinessCentralItem,
+} from '../business-central-sync';
+import { BusinessCentralSyncService } from '../business-central-sync-service';
+import type { BCItem } from '../business-central-client';
+import { planProductObjectImport } from '../product-import';
+import { initialProductData, type Product } from '@/types/product';
+import type { BusinessCentralItemSync, BusinessCentralSyncState } from '@/types/business-central-sync';
+import { DEFAULT_BUSINESS_CENTRAL_FIELD_OWNERSHIP } from '@/types/business-central-sync';
+
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+const item = (overrides: Partial<BCItem> = {}): BCItem => ({
+  id: 'bc-1',
+  number: 'SKU-1',
+  displayName: 'Chair (BC)',
+  type: 'Inventory',
+  itemCategoryCode: 'FURNITURE',
+  unitPrice: 120,
+  baseUnitOfMeasure: 'PCS',
+  gtin: '',
+  inventory: 7,
+  lastModifiedDateTime: '2026-03-01T10:00:00Z',
+  ...overrides,
+});
+
+const product = (overrides: Partial<Product> = {}): Product => ({
+  ...clone(initialProductData),
+  id: 'p1',
+  basicInfo: {
+    ...clone(initialProductData.basicInfo),
+    sku: 'SKU-1',
+    name: { en: 'Chair', no: 'Stol' },
+  },
+  media: { images: [{ id: 'img', url: 'https://example.com/chair.jpg', type: 'image' }] },
+  pricingAndStock: {
+    standardPrice: [{ id: 'price-1', currency: 'NOK', amount: 100 }],
+    stockQuantity: 3,
+  },
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+const picture = { content: 'aGVsbG8=', mimeType: 'image/png' };
+
+describe('mergeBusinessCentralItem', () => {
+  it('takes everything from the item for new products', () => {
+    const merged = mergeBusinessCentralItem(item(), picture, undefined, DEFAULT_BUSINESS_CENTRAL_FIELD_OWNERSHIP);
+
+    expect(merged.basicInfo).toMatchObject({ sku: 'SKU-1', name: { en: 'Chair (BC)', no: 'Chair (BC)' } });
+    expect(merged.pricingAndStock).toMatchObject({ standardPrice: [{ amount: 120 }], stockQuantity: 7 });
+    expect(merged.media!.images[0].url).toBe('data:image/png;base64,aGVsbG8=');
+  });
+
+  it('only changes the fields Business Central owns on existing products', () => {
+    const existing = product();
+    const merged = mergeBusinessCentralItem(item(), picture, existing, DEFAULT_BUSINESS_CENTRAL_FIELD_OWNERSHIP);
+
+    expect(merged).toEqual({
+      basicInfo: { sku: 'SKU-1' },
+      pricingAndStock: {
+        standardPrice: [{ id: 'price-1', currency: 'NOK', amount: 120 }],
+        stockQuantity: 7,
+      },
+    });
+
+    const [row] = planProductObjectImport([merged], [existing], { matchBy: 'sku', mergeStrategy: 'overwrite' });
+    expect(row.action).toBe('update');
+    expect(row.product!.basicInfo.name).toEqual({ en: 'Chair', no: 'Stol' });
+    expect(row.product!.media.images).toHaveLength(1);
+  });
+
+  it('follows the ownership rules for description, price and inventory', () => {
+    const ownership = { price: 'pimify', description: 'business_central', inventory: 'pimify' } as const;
+    const merged = mergeBusinessCentralItem(item(), picture, product({ media: { images: [] } }), ownership, 'no');
+
+    expect(merged.basicInfo!.name).toEqual({ en: 'Chair', no: 'Chair (BC)' });
+    expect(merged.pricingAndStock).toBeUndefined();
+    expect(merged.media!.images).toHaveLength(1);
+    expect(getBusinessCentralOwnedItemFields(ownership)).toEqual(['displayName']);
+    expect(getBusinessCentralOwnedItemFields(DEFAULT_BUSINESS_CENTRAL_FIELD_OWNERSHIP)).toEqual(['unitPrice']);
+  });
+
+  it('leaves existing products unchanged when the owned fields match', () => {
+    const existing = product({ pricingAndStock: { standardPrice: [{ id: 'price-1', currency: 'NOK', amount: 120 }], stockQuantity: 7 } });
+    const merged = mergeBusinessCentralItem(item(), null, existing, DEFAULT_BUSINESS_CENTRAL_FIELD_OWNERSHIP);
+
+    const [row] = planProductObjectImport([merged], [existing], { matchBy: 'sku', mergeStrategy: 'overwrite' });
+    expect(row.action).toBe('unchanged');
+  });
+});
+
+describe('advanceSyncWatermark', () => {
+  const at = (minute: number) => `2026-03-01T10:0${minute}:00Z`;
+
+  it('moves to the last entry when all of them synced', () => {
+    expect(advanceSyncWatermark(at(0), [
+      { modifiedAt: at(3), ok: true },
+      { modifiedAt: at(1), ok: true },
+    ])).toBe(at(3));
+    expect(advanceSyncWatermark(at(5), [])).toBe(at(5));
+  });
+
+  it('stops before the first failed entry and entries with the same time', () => {
+    expect(advanceSyncWatermark(undefined, [
+      { modifiedAt: at(1), ok: true },
+      { modifiedAt: at(2), ok: true },
+      { modifiedAt: at(3), ok: true },
+      { modifiedAt: at(3), ok: false },
+      { modifiedAt: at(4), ok: true },
+    ])).toBe(at(2));
+    expect(advanceSyncWatermark(at(0), [{ modifiedAt: at(1), ok: false }, { modifiedAt: at(2), ok: true }])).toBe(at(0));
+  });
+
+  it('compares times, not strings', () => {
+    expect(isAfterWatermark('2026-03-01T10:00:00.500Z', '2026-03-01T10:00:00Z')).toBe(true);
+    expect(isAfterWatermark('2026-03-01T10:00:00.000Z', '2026-03-01T10:00:00Z')).toBe(false);
+    expect(isAfterWatermark(undefined, undefined)).toBe(true);
+  });
+
+  it('counts entries without a timestamp as changed', () => {
+    expect(isAfterWatermark(undefined, '2026-03-01T10:00:00Z')).toBe(true);
+  });
+});
+
+describe('item syncs', () => {
+  it('skips items that still look the way the last sync left them', async () => {
+    const repo = new InMemorySyncRepository();
+    const service = new BusinessCentralSyncService(repo as any, {} as any);
+    const state = await service.getCompanyState('t1', 'Production', 'c1');
+
+    await service.recordItemSyncs(state, [item({ lastModifiedDateTime: '2026-03-01T10:00:05Z' })]);
+    const synced = (await service.getItemSyncs(state)).get('SKU-1');
+
+    // An export's own write comes back with a newer time but the same fields
+    expect(isItemChangedSinceSync(item({ lastModifiedDateTime: '2026-03-01T10:05:00Z' }), synced)).toBe(false);
+    expect(isItemChangedSinceSync(item({ unitPrice: 130 }), synced)).toBe(true);
+    expect(isItemChangedSinceSync(item({ inventory: 2 }), synced)).toBe(true);
+    expect(isItemChangedSinceSync(item(), undefined)).toBe(true);
+  });
+
+  it('skips products not saved since the last sync', () => {
+    const synced = { itemNumber: 'SKU-1', hash: 'hash', lastSyncedAt: '2026-03-01T10:00:00.000Z' };
+
+    expect(isProductChangedSinceSync(product({ updatedAt: '2026-03-01T09:59:59.000Z' }), synced)).toBe(false);
+    expect(isProductChangedSinceSync(product({ updatedAt: '2026-03-01T10:00:01.000Z' }), synced)).toBe(true);
+    expect(isProductChangedSinceSync(product(), undefined)).toBe(true);
+  });
+});
+
+class InMemorySyncRepository {
+  items = new Map<string, BusinessCentralSyncState>();
+  itemSyncs = new Map<string, BusinessCentralItemSync[]>();
+
+  async save(state: BusinessCentralSyncState) {
+    this.items.set(state.id, clone(state));
+  }
+
+  async merge(id: string, changes: Partial<BusinessCentralSyncState>) {
+    this.items.set(id, { ...this.items.get(id)!, ...clone(changes) });
+  }
+
+  async getById(id: string) {
+    const state = this.items.get(id);
+    return state ? clone(state) : null;
+  }
+
+  async getItemSyncs(stateId: string) {
+    return clone(this.itemSyncs.get(stateId) || []);
+  }
+
+  async saveItemSyncs(stateId: string, records: BusinessCentralItemSync[]) {
+    const kept = (this.itemSyncs.get(stateId) || []).filter(r => !records.some(record => record.itemNumber === r.itemNumber));
+    this.itemSyncs.set(stateId, [...kept, ...clone(records)]);
+  }
+}
+
+describe('BusinessCentralSyncService', () => {
+  let repo: InMemorySyncRepository;
+  let service: BusinessCentralSyncService;
+
+  beforeEach(() => {
+    repo = new InMemorySyncRepository();
+    const credentials = {
+      resolveCredentials: async (_tenantId: string, id: string) => id === 'bc-1' || id === 'bc-2'
+        ? { success: true, data: { environment: 'Production', companyId: 'c1' } }
+        : { success: false, error: 'Integration credential not found', code: 'NOT_FOUND' },
+    };
+    service = new BusinessCentralSyncService(repo as any, credentials as any);
+  });
+
+  it('shares one state per company between its integrations', async () => {
+    const state = await service.getCompanyState('t1', 'Production', 'c1');
+    expect(state).toMatchObject({ id: 't1__Production__c1', ownership: DEFAULT_BUSINESS_CENTRAL_FIELD_OWNERSHIP });
+    expect(state.importWatermark).toBeUndefined();
+
+    await service.recordImport(state, '2026-03-01T10:00:00Z');
+    expect((await service.getState('t1', 'bc-2')).data).toMatchObject({
+      importWatermark: '2026-03-01T10:00:00Z',
+      ownership: DEFAULT_BUSINESS_CENTRAL_FIELD_OWNERSHIP,
+    });
+    expect(await service.getState('t1', 'other')).toMatchObject({ success: false, code: 'NOT_FOUND' });
+  });
+
+  it('changes ownership and resets watermarks without losing the other direction', async () => {
+    const state = await service.getCompanyState('t1', 'Production', 'c1');
+    await service.recordImport(state, '2026-03-01T10:00:00Z');
+    await service.recordExport(state, '2026-03-02T10:00:00.000Z');
+
+    const result = await service.updateState('t1', { integrationId: 'bc-1', ownership: { price: 'pimify' }, reset: 'import' }, 'admin');
+    expect(result.data).toMatchObject({
+      ownership: { price: 'pimify', description: 'pimify', inventory: 'business_central' },
+      exportWatermark: '2026-03-02T10:00:00.000Z',
+      updatedBy: 'admin',
+    });
+    expect(result.data!.importWatermark).toBeUndefined();
+    expect(result.data!.lastImportAt).toBeDefined();
+
+    // A sync finishing later keeps the new ownership
+    await service.recordExport(state, '2026-03-03T10:00:00.000Z');
+    expect(repo.items.get(state.id)!.ownership.price).toBe('pimify');
+  });
+});
@@ -0,0 +1,115 @@
+jest.mock('../firebase-admin', () => ({ adminDb: {} }));
+
+import { CategoryService } from '../category-service';
+import type { Category } from '@/types/category';
+
+class InMemoryCategoryRepository {
+  items = new Map<string, Category>();
+
+  async save(category: Category) { this.items.set(category.id, category); }
+  async saveMany(categories: Category[]) { categories.forEach(c => this.items.set(c.id, c)); }
+  async getById(id: string) { return this.items.get(id) || null; }
+  async getAll() { return Array.from(this.items.values()); }
+  async delete(id: string) { this.items.delete(id); }
+}
+
+class InMemoryProductRepository {
+  items = new Map<string, { id: string; categories: string[] }>();
+
+  async getAll() { return Array.from(this.items.values()); }
+  async update(id: string, data: { categories: string[] }) {
+    this.items.set(id, { ...this.items.get(id)!, ...data });
+  }
+}
+
+describe('CategoryService', () => {
+  let categoryRepo: InMemoryCategoryRepository;
+  let productRepo: InMemoryProductRepository;
+  let service: CategoryService;
+
+  beforeEach(() => {
+    categoryRepo = new InMemoryCategoryRepository();
+    productRepo = new InMemoryProductRepository();
+    service = new CategoryService(categoryRepo as any, productRepo as any);
+  });
+
+  it('creates categories with generated slugs and sibling order', async () => {
+    const root = await service.createCategory({ name: { en: 'Electronics', no: 'Elektronikk' } });
+    const first = await service.createCategory({ name: { en: 'Phones', no: '' }, parentId: root.data!.id });
+    const second = await service.createCategory({ name: { en: 'Audio', no: '' }, parentId: root.data!.id });
+
+    expect(root.data!.slug).toBe('electronics');
+    expect(first.data!.order).toBe(0);
+    expect(second.data!.order).toBe(1);
+
+    const tree = await service.getTree();
+    expect(tree[0].children.map(c => c.slug)).toEqual(['phones', 'audio']);
+  });
+
+  it('rejects missing names, unknown parents and duplicate sibling slugs', async () => {
+    expect((await service.createCategory({ name: { en: '', no: ' ' } })).code).toBe('VALIDATION_ERROR');
+    expect((await service.createCategory({ name: { en: 'A', no: '' }, parentId: 'missing' })).code).toBe('PARENT_NOT_FOUND');
+
+    await service.createCategory({ name: { en: 'Audio', no: '' } });
+    expect((await service.createCategory({ name: { en: 'audio', no: '' } })).code).toBe('SLUG_EXISTS');
+  });
+
+  it('prevents moving a category under its own descendant', async () => {
+    const parent = await service.createCategory({ name: { en: 'Parent', no: '' } });
+    const child = await service.createCategory({ name: { en: 'Child', no: '' }, parentId: parent.data!.id });
+
+    const result = await service.moveCategory(parent.data!.id, { parentId: child.data!.id });
+    expect(result.success).toBe(false);
+    expect(result.code).toBe('CYCLE');
+  });
+
+  it('moves a category to the root', async () => {
+    const parent = await service.createCategory({ name: { en: 'Parent', no: '' } });
+    const child = await service.createCategory({ name: { en: 'Child', no: '' }, parentId: parent.data!.id });
+
+    const result = await service.moveCategory(child.data!.id, { parentId: null, order: 0 });
+    expect(result.success).toBe(true);
+
+    const moved = await categoryRepo.getById(child.data!.id);
+    expect(moved!.parentId).toBeNull();
+    expect(moved!.order).toBe(0);
+    expect((await categoryRepo.getById(parent.data!.id))!.order).toBe(1);
+  });
+
+  it('merges categories, re-parenting children and re-pointing products', async () => {
+    const headphones = await service.createCategory({ name: { en: 'Headphones', no: '' } });
+    const earphones = await service.createCategory({ name: { en: 'Earphones', no: '' } });
+    const wireless = await service.createCategory({ name: { en: 'Wireless', no: '' }, parentId: earphones.data!.id });
+    productRepo.items.set('p1', { id: 'p1', categories: [earphones.data!.id] });
+    productRepo.items.set('p2', { id: 'p2', categories: [earphones.data!.id, headphones.data!.id] });
+
+    const result = await service.mergeCategories(earphones.data!.id, headphones.data!.id);
+
+    expect(result.success).toBe(true);
+    expect(result.data).toMatchObject({ movedChildren: 1, updatedProducts: 2 });
+    expect(await categoryRepo.getById(earphones.data!.id)).toBeNull();
+    expect((await categoryRepo.getById(wireless.data!.id))!.parentId).toBe(headphones.data!.id);
+    expect(productRepo.items.get('p1')!.categories).toEqual([headphones.data!.id]);
+    expect(productRepo.items.get('p2')!.categories).toEqual([headphones.data!.id]);
+  });
+
+  it('only deletes leaf categories and detaches them from products', async () => {
+    const parent = await service.createCategory({ name: { en: 'Parent', no: '' } });
+    const child = await service.createCategory({ name: { en: 'Child', no: '' }, parentId: parent.data!.id });
+    productRepo.items.set('p1', { id: 'p1', categories: [child.data!.id, 'other'] });
+
+    expect((await service.deleteCategory(parent.data!.id)).code).toBe('HAS_CHILDREN');
+
+    const result = await service.deleteCategory(child.data!.id);
+    expect(result.success).toBe(true);
+    expect(result.data!.updatedProducts).toBe(1);
+    expect(productRepo.items.get('p1')!.categories).toEqual(['other']);
+  });
+
+  it('resolves category IDs to names for exports', async () => {
+    const audio = await service.createCategory({ name: { en: 'Audio', no: 'Lyd' } });
+    const resolve = await service.getNameResolver({ locale: 'no' });
+
+    expect(resolve([audio.data!.id, 'Legacy'])).toEqual(['Lyd', 'Legacy']);
+  });
+});
@@ -0,0 +1,127 @@
+import {
+  buildCategoryTree,
+  computeCategoryMove,
+  createCategoryNameResolver,
+  findCategoryByName,
+  flattenCategoryTree,
+  getCategoryPath,
+  getDescendantIds,
+  resolveCategoryIds,
+  resolveCategoryNames,
+  slugifyCategoryName,
+  wouldCreateCycle,
+} from '../category-tree';
+import type { Category } from '@/types/category';
+
+const makeCategory = (id: string, parentId: string | null, order: number, en: string, no = ''): Category => ({
+  id,
+  parentId,
+  name: { en, no },
+  slug: slugifyCategoryName(en),
+  order,
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+});
+
+const categories: Category[] = [
+  makeCategory('electronics', null, 0, 'Electronics', 'Elektronikk'),
+  makeCategory('clothing', null, 1, 'Clothing', 'Klær'),
+  makeCategory('audio', 'electronics', 1, 'Audio', 'Lyd'),
+  makeCategory('phones', 'electronics', 0, 'Phones', 'Telefoner'),
+  makeCategory('headphones', 'audio', 0, 'Headphones', 'Hodetelefoner'),
+];
+
+describe('category-tree', () => {
+  describe('buildCategoryTree', () => {
+    it('nests children under their parents in sibling order', () => {
+      const tree = buildCategoryTree(categories);
+
+      expect(tree.map(n => n.id)).toEqual(['electronics', 'clothing']);
+      expect(tree[0].children.map(n => n.id)).toEqual(['phones', 'audio']);
+      expect(tree[0].children[1].children[0].id).toBe('headphones');
+      expect(tree[0].children[1].children[0].depth).toBe(2);
+      expect(tree[0].children[1].children[0].path).toEqual(['electronics', 'audio', 'headphones']);
+    });
+
+    it('treats categories with a missing parent as roots', () => {
+      const tree = buildCategoryTree([...categories, makeCategory('orphan', 'deleted', 0, 'Orphan')]);
+      expect(tree.map(n => n.id)).toContain('orphan');
+    });
+
+    it('flattens depth-first', () => {
+      const flat = flattenCategoryTree(buildCategoryTree(categories)).map(n => n.id);
+      expect(flat).toEqual(['electronics', 'phones', 'audio', 'headphones', 'clothing']);
+    });
+  });
+
+  describe('hierarchy helpers', () => {
+    it('finds descendants and detects cycles', () => {
+      expect(getDescendantIds(categories, 'electronics').sort()).toEqual(['audio', 'headphones', 'phones']);
+      expect(wouldCreateCycle(categories, 'electronics', 'headphones')).toBe(true);
+      expect(wouldCreateCycle(categories, 'audio', 'audio')).toBe(true);
+      expect(wouldCreateCycle(categories, 'audio', 'clothing')).toBe(false);
+      expect(wouldCreateCycle(categories, 'audio', null)).toBe(false);
+    });
+
+    it('returns the path from the root', () => {
+      expect(getCategoryPath(categories, 'headphones').map(c => c.id)).toEqual(['electronics', 'audio', 'headphones']);
+    });
+  });
+
+  describe('computeCategoryMove', () => {
+    it('reorders siblings within the same parent', () => {
+      const changed = computeCategoryMove(categories, 'audio', 'electronics', 0);
+      const byId = Object.fromEntries(changed.map(c => [c.id, c.order]));
+
+      expect(byId).toEqual({ audio: 0, phones: 1 });
+    });
+
+    it('moves a category to a new parent and closes the gap in the old one', () => {
+      const changed = computeCategoryMove(categories, 'phones', null);
+      const phones = changed.find(c => c.id === 'phones')!;
+      const audio = changed.find(c => c.id === 'audio')!;
+
+      expect(phones.parentId).toBeNull();
+      expect(phones.order).toBe(2);
+      expect(audio.order).toBe(0);
+    });
+
+    it('returns nothing for an unknown category', () => {
+      expect(computeCategoryMove(categories, 'missing', null)).toEqual([]);
+    });
+  });
+
+  describe('name resolution', () => {
+    it('resolves IDs to names in the requested locale', () => {
+      expect(resolveCategoryNames(['audio', 'clothing'], categories)).toEqual(['Audio', 'Clothing']);
+      expect(resolveCategoryNames(['audio'], categories, { locale: 'no' })).toEqual(['Lyd']);
+      expect(resolveCategoryNames(['headphones'], categories, { fullPath: true })).toEqual(['Electronics > Audio > Headphones']);
+    });
+
+    it('passes unknown values through unchanged', () => {
+      expect(resolveCategoryNames(['Legacy Category'], categories)).toEqual(['Legacy Category']);
+      expect(resolveCategoryNames(undefined, categories)).toEqual([]);
+    });
+
+    it('creates a bound resolver', () => {
+      const resolve = createCategoryNameResolver(categories, { locale: 'no' });
+      expect(resolve(['electronics'])).toEqual(['Elektronikk']);
+    });
+
+    it('finds categories by name in any locale', () => {
+      expect(findCategoryByName(categories, 'hodetelefoner')?.id).toBe('headphones');
+      expect(findCategoryByName(categories, 'AUDIO')?.id).toBe('audio');
+      expect(findCategoryByName(categories, 'Unknown')).toBeUndefined();
+    });
+
+    it('resolves imported names to IDs and keeps unknown names as text', () => {
+      expect(resolveCategoryIds(['Lyd', 'phones', 'Unknown', 'audio'], categories)).toEqual(['audio', 'phones', 'Unknown']);
+      expect(resolveCategoryIds(undefined, categories)).toEqual([]);
+    });
+  });
+
+  it('slugifies names including Norwegian characters', () => {
+    expect(slugifyCategoryName('Klær & Sko')).toBe('klaer-sko');
+    expect(slugifyCategoryName('  Hage/Utemøbler ')).toBe('hage-utemobler');
+  });
+});
@@ -0,0 +1,115 @@
+import {
+  getOverriddenFields,
+  mergeMultilingual,
+  pruneChannelOverrides,
+  resolveProductForChannel,
+  validateChannel,
+} from '../channel-overrides';
+import { productToCSVRow } from '../csv-utils';
+import type { Channel } from '@/types/channel';
+import type { Product } from '@/types/product';
+
+const channel: Channel = {
+  id: 'ch-print',
+  code: 'print',
+  name: 'Print catalog',
+  type: 'print',
+  currency: 'EUR',
+  active: true,
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+};
+
+function makeProduct(overrides: Partial<Product> = {}): Product {
+  return {
+    id: 'prod-1',
+    basicInfo: {
+      name: { en: 'Trail Shoe', no: 'Tursko' },
+      sku: 'TS-001',
+      descriptionShort: { en: 'Light shoe', no: 'Lett sko' },
+      descriptionLong: { en: 'A light trail shoe', no: 'En lett tursko' },
+      brand: 'Acme',
+      status: 'active',
+    },
+    attributesAndSpecs: { categories: [], properties: [], technicalSpecs: [] },
+    media: { images: [{ id: 'img-1', url: 'https://cdn.example.com/base.jpg', type: 'image' }] },
+    marketingSEO: { seoTitle: { en: 'Trail Shoe', no: '' }, seoDescription: { en: '', no: '' }, keywords: ['shoe'] },
+    pricingAndStock: {
+      standardPrice: [
+        { id: 'p-nok', currency: 'NOK', amount: 999 },
+        { id: 'p-eur', currency: 'EUR', amount: 89 },
+      ],
+    },
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('Channel overrides', () => {
+  it('returns the product unchanged without a channel', () => {
+    const product = makeProduct();
+    expect(resolveProductForChannel(product, undefined)).toBe(product);
+  });
+
+  it('falls back to base values per language and for empty lists', () => {
+    const product = makeProduct({
+      channelOverrides: {
+        'ch-print': {
+          name: { en: 'Trail Shoe (Catalog)', no: '' },
+          keywords: [],
+          images: [{ id: 'img-print', url: 'https://cdn.example.com/print.tif', type: 'image' }],
+        },
+      },
+    });
+
+    const resolved = resolveProductForChannel(product, channel);
+    expect(resolved.basicInfo.name).toEqual({ en: 'Trail Shoe (Catalog)', no: 'Tursko' });
+    expect(resolved.basicInfo.descriptionLong).toEqual(product.basicInfo.descriptionLong);
+    expect(resolved.marketingSEO.keywords).toEqual(['shoe']);
+    expect(resolved.media.images.map(i => i.id)).toEqual(['img-print']);
+    // Base product is not modified
+    expect(product.basicInfo.name.en).toBe('Trail Shoe');
+  });
+
+  it('uses the channel price list and puts the channel currency first', () => {
+    expect(resolveProductForChannel(makeProduct(), channel).pricingAndStock!.standardPrice[0].id).toBe('p-eur');
+
+    const withPrices = makeProduct({
+      channelOverrides: { 'ch-print': { standardPrice: [{ id: 'p-print', currency: 'EUR', amount: 79 }] } },
+    });
+    expect(resolveProductForChannel(withPrices, channel).pricingAndStock!.standardPrice).toEqual([
+      { id: 'p-print', currency: 'EUR', amount: 79 },
+    ]);
+  });
+
+  it('ignores overrides stored for other channels', () => {
+    const product = makeProduct({ channelOverrides: { other: { name: { en: 'Elsewhere', no: '' } } } });
+    expect(resolveProductForChannel(product, channel).basicInfo.name.en).toBe('Trail Shoe');
+  });
+
+  it('prunes unset fields and empty overrides', () => {
+    const pruned = pruneChannelOverrides({
+      'ch-print': { name: { en: '', no: '' }, seoTitle: { en: 'Catalog', no: '' }, keywords: [] },
+      'ch-empty': { descriptionShort: { en: ' ', no: '' } },
+    });
+    expect(pruned).toEqual({ 'ch-print': { seoTitle: { en: 'Catalog', no: '' } } });
+    expect(getOverriddenFields(pruned['ch-print'])).toEqual(['seoTitle']);
+    expect(pruneChannelOverrides(undefined)).toEqual({});
+  });
+
+  it('merges multilingual values without dropping extra languages', () => {
+    expect(mergeMultilingual({ en: 'A', no: 'B', sv: 'C' }, { en: '', no: 'Ny', sv: '' })).toEqual({ en: 'A', no: 'Ny', sv: 'C' });
+  });
+
+  it('exports channel values to CSV when a channel is given', () => {
+    const product = makeProduct({ channelOverrides: { 'ch-print': { name: { en: 'Catalog Shoe', no: '' } } } });
+    expect(productToCSVRow(product).name_en).toBe('Trail Shoe');
+    expect(productToCSVRow(product, { channel }).name_en).toBe('Catalog Shoe');
+  });
+
+  it('validates channel definitions', () => {
+    expect(validateChannel({ code: 'b2b_webshop', name: 'B2B', type: 'webshop', currency: 'NOK' })).toEqual([]);
+    expect(validateChannel({ code: 'B2B Shop', name: '', type: 'webshop', currency: 'nok' })).toHaveLength(3);
+  });
+});
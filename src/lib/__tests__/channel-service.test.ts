@@ -0,0 +1,81 @@
+jest.mock('../firebase-admin', () => ({ adminDb: {} }));
+
+import { ChannelService } from '../channel-service';
+import type { Channel } from '@/types/channel';
+
+class InMemoryChannelRepository {
+  items = new Map<string, Channel>();
+
+  async save(channel: Channel) { this.items.set(channel.id, channel); }
+  async getById(id: string) { return this.items.get(id) || null; }
+  async getAll() { return Array.from(this.items.values()); }
+  async delete(id: string) { this.items.delete(id); }
+}
+
+class InMemoryProductRepository {
+  items: Array<{ id: string; channel_overrides?: Record<string, any> | null }> = [];
+
+  async getAll() { return this.items; }
+}
+
+describe('ChannelService', () => {
+  let channelRepo: InMemoryChannelRepository;
+  let productRepo: InMemoryProductRepository;
+  let service: ChannelService;
+
+  const webshop = { code: 'b2b_webshop', name: 'B2B Webshop', type: 'webshop' as const, currency: 'NOK' };
+
+  beforeEach(() => {
+    channelRepo = new InMemoryChannelRepository();
+    productRepo = new InMemoryProductRepository();
+    service = new ChannelService(channelRepo as any, productRepo as any);
+  });
+
+  it('creates channels and lists them by name', async () => {
+    await service.createChannel({ code: 'shopify_no', name: 'Shopify Norway', type: 'shopify' });
+    const created = await service.createChannel(webshop);
+
+    expect(created.success).toBe(true);
+    expect(created.data!.active).toBe(true);
+    expect((await service.listChannels()).map(c => c.code)).toEqual(['b2b_webshop', 'shopify_no']);
+  });
+
+  it('rejects invalid channels and duplicate codes', async () => {
+    const invalid = await service.createChannel({ ...webshop, code: 'B2B Webshop' });
+    expect(invalid.code).toBe('VALIDATION_ERROR');
+    expect(invalid.details!.length).toBeGreaterThan(0);
+
+    await service.createChannel(webshop);
+    expect((await service.createChannel(webshop)).code).toBe('CODE_EXISTS');
+
+    const other = await service.createChannel({ code: 'print', name: 'Print', type: 'print' });
+    expect((await service.updateChannel(other.data!.id, { code: 'b2b_webshop' })).code).toBe('CODE_EXISTS');
+    expect((await service.updateChannel('missing', { name: 'X' })).code).toBe('NOT_FOUND');
+  });
+
+  it('resolves export channels by ID, type and active flag', async () => {
+    const shop = await service.createChannel({ code: 'shopify_no', name: 'Shopify Norway', type: 'shopify' });
+    const print = await service.createChannel({ code: 'print', name: 'Print', type: 'print' });
+
+    expect(await service.getExportChannel(undefined, 'shopify')).toEqual({ success: true, data: null });
+    expect((await service.getExportChannel(shop.data!.id, 'shopify')).data!.code).toBe('shopify_no');
+    expect((await service.getExportChannel(print.data!.id, 'shopify')).code).toBe('TYPE_MISMATCH');
+    expect((await service.getExportChannel('missing', 'shopify')).code).toBe('NOT_FOUND');
+
+    await service.updateChannel(shop.data!.id, { active: false });
+    expect((await service.getExportChannel(shop.data!.id, 'shopify')).code).toBe('INACTIVE');
+  });
+
+  it('refuses to delete channels that products have overrides for', async () => {
+    const created = await service.createChannel(webshop);
+    const id = created.data!.id;
+    productRepo.items = [{ id: 'p1', channel_overrides: { [id]: { name: { en: 'B2B name', no: '' } } } }];
+
+    const blocked = await service.deleteChannel(id);
+    expect(blocked.code).toBe('IN_USE');
+
+    productRepo.items = [{ id: 'p1', channel_overrides: null }];
+    expect((await service.deleteChannel(id)).success).toBe(true);
+    expect((await service.getChannel(id)).code).toBe('NOT_FOUND');
+  });
+});
@@ -652,3 +652,91 @@ describe('CSV Utils', () => {
     });
   });
 });
+
+describe('CSV unit conversion', () => {
+  const baseRow = (technicalSpecs: string): CSVProductRow => ({
+    ...productToCSVRow({
+      id: 'unit-product',
+      basicInfo: {
+        name: { en: 'Unit Product', no: '' },
+        sku: 'UNIT-1',
+        descriptionShort: { en: '', no: '' },
+        descriptionLong: { en: '', no: '' },
+        brand: 'Brand',
+        status: 'active',
+      },
+      attributesAndSpecs: { categories: [], properties: [], technicalSpecs: [] },
+      media: { images: [] },
+      marketingSEO: { seoTitle: { en: '', no: '' }, seoDescription: { en: '', no: '' }, keywords: [] },
+      aiSummary: { en: '', no: '' },
+      createdAt: '2024-01-01T00:00:00.000Z',
+      updatedAt: '2024-01-01T00:00:00.000Z',
+    } as Product),
+    technical_specs: technicalSpecs,
+  });
+
+  it('keeps the original unit and normalized value of imported spec quantities', () => {
+    const product = csvRowToProduct(baseRow('Weight: 2 lb; Format: Paperback'));
+    const [weight, format] = product.attributesAndSpecs!.technicalSpecs;
+
+    expect(weight.value).toBe('2 lb');
+    expect(weight.quantity).toEqual({ value: 2, unit: 'lb', normalized: { value: 0.90718474, unit: 'kg' } });
+    expect(format.quantity).toBeUndefined();
+  });
+
+  it('converts spec quantities to the preferred units on import and export', () => {
+    const product = csvRowToProduct(baseRow('Weight: 500 g; Length: 12 in'), { unitPreferences: { mass: 'kg', length: 'cm' } });
+    expect(product.attributesAndSpecs!.technicalSpecs.map(s => s.value)).toEqual(['0.5 kg', '30.48 cm']);
+
+    const row = productToCSVRow(product as Product, { unitPreferences: { mass: 'g', length: 'mm' } });
+    expect(row.technical_specs).toBe('Weight: 500 g; Length: 304.8 mm');
+  });
+});
+
+describe('CSV locale columns', () => {
+  const product = {
+    id: 'prod-sv',
+    basicInfo: {
+      name: { en: 'Lamp', no: 'Lampe', sv: 'Lampa' },
+      sku: 'LAMP-1',
+      descriptionShort: { en: 'Desk lamp', no: '', sv: 'Skrivbordslampa' },
+      descriptionLong: { en: '', no: '' },
+      brand: 'Brand',
+      status: 'active',
+    },
+    attributesAndSpecs: { categories: [], properties: [], technicalSpecs: [] },
+    media: { images: [] },
+    marketingSEO: { seoTitle: { en: '', no: '', sv: 'Lampa | Butik' }, seoDescription: { en: '', no: '' }, keywords: [] },
+    aiSummary: { en: '', no: '' },
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  } as Product;
+
+  it('builds one column per configured locale', () => {
+    const headers = getCSVHeaders(['en', 'sv', 'de']);
+    expect(headers.slice(0, 5)).toEqual(['id', 'sku', 'name_en', 'name_sv', 'name_de']);
+    expect(headers).toContain('seo_description_de');
+    expect(headers).not.toContain('name_no');
+  });
+
+  it('exports and re-imports texts for additional locales', () => {
+    const csv = productsToCSV([product], { locales: ['en', 'no', 'sv'] });
+    expect(csv.split('\n')[0]).toContain('name_sv');
+
+    const [row] = parseCSV(csv);
+    expect(row.name_sv).toBe('Lampa');
+
+    const imported = csvRowToProduct(row);
+    expect(imported.basicInfo!.name).toEqual({ en: 'Lamp', no: 'Lampe', sv: 'Lampa' });
+    expect(imported.basicInfo!.descriptionShort.sv).toBe('Skrivbordslampa');
+    expect(imported.marketingSEO!.seoTitle.sv).toBe('Lampa | Butik');
+  });
+
+  it('requires the name in the default locale', () => {
+    const [row] = parseCSV(productsToCSV([product], { locales: ['sv', 'de'] }));
+    const settings = { locales: [{ code: 'sv', name: 'Swedish' }, { code: 'de', name: 'German' }], defaultLocale: 'de', fallbacks: {} };
+
+    expect(validateCSVData([row], settings).errors).toEqual(['Row 2: German name is required']);
+    expect(validateCSVData([row], { ...settings, defaultLocale: 'sv' }).valid).toBe(true);
+  });
+});
@@ -0,0 +1,220 @@
+jest.mock('../firebase-admin', () => ({ adminDb: {} }));
+
+import { parse } from 'graphql';
+import { GraphQLService } from '../graphql-service';
+import { DEFAULT_LIST_SIZE, getQueryCost } from '../graphql-complexity';
+import { graphqlSchema } from '../graphql-schema';
+import { getApiKeyPrincipal } from '../api-keys';
+import type { ApiKey } from '@/types/api-key';
+import type { Channel } from '@/types/channel';
+import type { Product } from '@/types/product';
+import { initialProductData } from '@/types/product';
+import { DEFAULT_LOCALE_SETTINGS } from '@/types/locale';
+import { WorkflowState } from '@/types/workflow';
+
+const createProduct = (id: string, overrides: Partial<Product> = {}): Product => ({
+  ...initialProductData,
+  id,
+  basicInfo: {
+    ...initialProductData.basicInfo,
+    name: { en: `Product ${id}`, no: `Produkt ${id}` },
+    sku: id.toUpperCase(),
+    brand: 'Acme',
+    status: 'active',
+  },
+  workflowState: WorkflowState.PUBLISHED,
+  createdAt: '2026-01-01T00:00:00Z',
+  updatedAt: '2026-01-02T00:00:00Z',
+  ...overrides,
+});
+
+const createKey = (scopes: ApiKey['scopes']): ApiKey => ({
+  id: 'key-1',
+  tenantId: 'acme',
+  name: 'Storefront',
+  prefix: 'pim_12345678',
+  keyHash: 'hash',
+  scopes,
+  rateLimit: { maxRequests: 10, windowMs: 60000 },
+  createdBy: 'admin',
+  createdAt: '2026-01-01T00:00:00Z',
+});
+
+const channel: Channel = {
+  id: 'ch-1',
+  code: 'webshop_no',
+  name: 'Webshop Norway',
+  type: 'webshop',
+  currency: 'NOK',
+  locale: 'no',
+  active: true,
+  createdAt: '2026-01-01T00:00:00Z',
+  updatedAt: '2026-01-01T00:00:00Z',
+};
+
+describe('GraphQLService', () => {
+  let items: Map<string, Product>;
+  let products: { getProductById: jest.Mock; getProductBySku: jest.Mock; getProducts: jest.Mock };
+  let service: GraphQLService;
+  const storefront = getApiKeyPrincipal(createKey(['storefront']));
+  const reader = getApiKeyPrincipal(createKey(['read']));
+
+  beforeEach(() => {
+    items = new Map([
+      ['jacket', createProduct('jacket', {
+        attributesAndSpecs: { categories: ['cat-jackets'], properties: [{ id: 'p1', key: 'Color', value: 'Red' }], technicalSpecs: [] },
+        media: {
+          images: [{ id: 'img-red', url: 'https://cdn.example.com/red.jpg', type: 'image', altText: { en: 'Red jacket', no: 'Rød jakke' } }],
+          manuals: [{ id: 'man-1', url: 'https://cdn.example.com/manual.pdf', type: 'manual', language: 'en' }],
+        },
+        pricingAndStock: {
+          standardPrice: [{ id: 'p-eur', currency: 'EUR', amount: 120 }, { id: 'p-nok', currency: 'NOK', amount: 1299 }],
+          salePrice: [{ id: 's-old', currency: 'NOK', amount: 999, active: false }],
+        },
+        variants: [
+          { id: 'v-red', sku: 'JACKET-RED', optionValues: { Color: 'Red' }, imageIds: ['img-red'] },
+          { id: 'v-blue', sku: 'JACKET-BLUE', optionValues: { Color: 'Blue' }, standardPrice: [{ id: 'vp', currency: 'NOK', amount: 1399 }] },
+        ],
+        relations: { relatedProducts: ['pants', 'draft-hat', 'missing'], accessories: ['pants'] },
+        channelOverrides: { 'ch-1': { name: { en: '', no: 'Regnjakke' } } },
+      })],
+      ['pants', createProduct('pants')],
+      ['draft-hat', createProduct('draft-hat', { workflowState: WorkflowState.DRAFT })],
+    ]);
+    products = {
+      getProductById: jest.fn(async (id: string) => items.get(id) || null),
+      getProductBySku: jest.fn(async (sku: string) => Array.from(items.values()).find(p => p.basicInfo.sku === sku) || null),
+      getProducts: jest.fn(async (filter: { workflowState?: WorkflowState; limit: number }) => {
+        const matches = Array.from(items.values()).filter(p => !filter.workflowState || p.workflowState === filter.workflowState);
+        return { products: matches.slice(0, filter.limit), total: matches.length, totalEstimated: false, hasNext: matches.length > filter.limit, nextCursor: 'next' };
+      }),
+    };
+    const categories = {
+      listCategories: async () => [
+        { id: 'cat-clothing', parentId: null, name: { en: 'Clothing', no: 'Klær' }, slug: 'clothing', order: 0, createdAt: '', updatedAt: '' },
+        { id: 'cat-jackets', parentId: 'cat-clothing', name: { en: 'Jackets', no: 'Jakker' }, slug: 'jackets', order: 0, createdAt: '', updatedAt: '' },
+      ],
+    };
+    const channels = { listChannels: async () => [channel] };
+    const locales = { getSettings: async () => DEFAULT_LOCALE_SETTINGS };
+    service = new GraphQLService(products as any, categories as any, channels as any, locales as any);
+  });
+
+  it('reads a product with variants, media, categories and relations in one query', async () => {
+    const { status, body } = await service.execute({
+      query: `{
+        product(sku: "JACKET", locale: "no") {
+          name
+          categories { name parent { slug } }
+          media(type: IMAGE) { url altText }
+          variants { sku optionValues { name value } standardPrice { amount } images { url } }
+          relatedProducts { id name }
+          accessories { sku }
+        }
+      }`,
+    }, storefront);
+
+    expect(status).toBe(200);
+    expect(body.errors).toBeUndefined();
+    expect(body.data!.product).toEqual({
+      name: 'Produkt jacket',
+      categories: [{ name: 'Jakker', parent: { slug: 'clothing' } }],
+      media: [{ url: 'https://cdn.example.com/red.jpg', altText: 'Rød jakke' }],
+      variants: [
+        { sku: 'JACKET-RED', optionValues: [{ name: 'Color', value: 'Red' }], standardPrice: [{ amount: 120 }, { amount: 1299 }], images: [{ url: 'https://cdn.example.com/red.jpg' }] },
+        { sku: 'JACKET-BLUE', optionValues: [{ name: 'Color', value: 'Blue' }], standardPrice: [{ amount: 1399 }], images: [] },
+      ],
+      // Drafts and missing products are left out for storefront keys
+      relatedProducts: [{ id: 'pants', name: 'Produkt pants' }],
+      accessories: [{ sku: 'PANTS' }],
+    });
+    // Related products are read once per request
+    expect(products.getProductById.mock.calls.filter(([id]) => id === 'pants')).toHaveLength(1);
+  });
+
+  it('applies the channel\'s overrides, currency and locale', async () => {
+    const { body } = await service.execute({
+      query: '{ product(id: "jacket", channel: "webshop_no") { name standardPrice { currency } salePrice { amount } relatedProducts { name } } }',
+    }, storefront);
+
+    expect(body.data!.product).toEqual({
+      name: 'Regnjakke',
+      standardPrice: [{ currency: 'NOK' }, { currency: 'EUR' }],
+      salePrice: [], // Outside its validity window
+      relatedProducts: [{ name: 'Produkt pants' }],
+    });
+  });
+
+  it('limits storefront keys to published products', async () => {
+    const draft = await service.execute({ query: '{ product(id: "draft-hat") { id } }' }, storefront);
+    expect(draft.body.data!.product).toBeNull();
+
+    const list = await service.execute({ query: '{ products(workflowState: DRAFT) { nodes { id } totalCount } }' }, storefront);
+    expect(products.getProducts).toHaveBeenLastCalledWith(expect.objectContaining({ workflowState: WorkflowState.PUBLISHED }));
+    expect(list.body.data!.products).toEqual({ nodes: [{ id: 'jacket' }, { id: 'pants' }], totalCount: 2 });
+
+    const asReader = await service.execute({ query: '{ product(id: "draft-hat") { workflowState } }' }, reader);
+    expect(asReader.body.data!.product).toEqual({ workflowState: 'DRAFT' });
+  });
+
+  it('reports bad arguments as errors on the field', async () => {
+    const { status, body } = await service.execute({
+      query: 'query Products($first: Int) { products(first: $first, locale: "xx") { totalCount } }',
+      variables: { first: 5 },
+    }, storefront);
+
+    expect(status).toBe(200);
+    expect(body.errors![0]).toMatchObject({ message: 'Unknown locale "xx"', extensions: { code: 'BAD_USER_INPUT' } });
+    expect((await service.execute({ query: '{ product(id: "jacket", sku: "JACKET") { id } }' }, storefront)).body.errors![0].message)
+      .toBe('Pass either id or sku');
+  });
+
+  it('rejects invalid queries and mutations before running them', async () => {
+    const unknownField = await service.execute({ query: '{ product(id: "jacket") { costPrice } }' }, storefront);
+    expect(unknownField.status).toBe(400);
+
+    const mutation = await service.execute({ query: 'mutation { deleteProduct(id: "jacket") }' }, storefront);
+    expect(mutation.status).toBe(400);
+    expect(products.getProductById).not.toHaveBeenCalled();
+  });
+
+  it('rejects queries over the complexity and depth limits', async () => {
+    const complex = await service.execute({
+      query: '{ products(first: 100) { nodes { relatedProducts { relatedProducts { name } } } } }',
+    }, storefront);
+    expect(complex.status).toBe(400);
+    expect(complex.body.errors![0].extensions).toMatchObject({ code: 'QUERY_TOO_COMPLEX' });
+
+    const deep = await service.execute({
+      query: '{ product(id: "jacket") { categories { parent { parent { parent { parent { parent { parent { parent { id } } } } } } } } } }',
+    }, storefront);
+    expect(deep.body.errors![0].extensions).toMatchObject({ code: 'QUERY_TOO_DEEP' });
+    expect(products.getProducts).not.toHaveBeenCalled();
+  });
+
+  it('hides unexpected errors from callers', async () => {
+    products.getProductById.mockRejectedValueOnce(new Error('Firestore unavailable'));
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const { body } = await service.execute({ query: '{ product(id: "jacket") { id } }' }, storefront);
+
+    expect(body.errors![0]).toMatchObject({ message: 'Internal server error', extensions: { code: 'INTERNAL_SERVER_ERROR' } });
+  });
+});
+
+describe('getQueryCost', () => {
+  const cost = (query: string, variables?: Record<string, unknown>) =>
+    getQueryCost(graphqlSchema, parse(query), undefined, variables);
+
+  it('multiplies selections by first, list sizes and fragments', () => {
+    expect(cost('{ products(first: 5) { nodes { id name } } }')).toEqual({ depth: 3, complexity: 1 + 5 * (1 + 2) });
+    expect(cost('query($n: Int) { products(first: $n) { totalCount } }', { n: 50 }).complexity).toBe(1 + 50);
+    expect(cost('{ product(id: "1") { ...Fields } } fragment Fields on Product { variants { sku } }'))
+      .toEqual({ depth: 3, complexity: 1 + (1 + DEFAULT_LIST_SIZE) });
+  });
+
+  it('does not count introspection', () => {
+    expect(cost('{ __schema { types { name fields { name type { name ofType { name ofType { name } } } } } } }'))
+      .toEqual({ depth: 0, complexity: 0 });
+  });
+});
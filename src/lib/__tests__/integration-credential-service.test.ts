@@ -0,0 +1,163 @@
+jest.mock('../firebase-admin', () => ({ adminDb: {} }));
+
+import { IntegrationCredentialService } from '../integration-credential-service';
+import type { IntegrationCredential } from '@/types/integration-credential';
+
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+class InMemoryCredentialRepository {
+  items = new Map<string, IntegrationCredential>();
+
+  async save(credential: IntegrationCredential) {
+    this.items.set(credential.id, clone(credential));
+  }
+
+  async getById(id: string) {
+    const credential = this.items.get(id);
+    return credential ? clone(credential) : null;
+  }
+
+  async getByTenant(tenantId: string) {
+    return [...this.items.values()].filter(credential => credential.tenantId === tenantId).map(clone);
+  }
+
+  async delete(id: string) {
+    this.items.delete(id);
+  }
+}
+
+const shopify = {
+  type: 'shopify' as const,
+  name: 'Main store',
+  credentials: { storeUrl: 'acme.myshopify.com', accessToken: 'shpat_0123456789abcdef' },
+};
+
+describe('IntegrationCredentialService', () => {
+  const admin = { userId: 'admin-1', userName: 'Ada Admin' };
+  let repo: InMemoryCredentialRepository;
+  let testers: { shopify: jest.Mock; business_central: jest.Mock };
+  let service: IntegrationCredentialService;
+
+  const create = async () => (await service.createCredential('t1', shopify, admin)).data!;
+
+  beforeEach(() => {
+    repo = new InMemoryCredentialRepository();
+    testers = {
+      shopify: jest.fn(async () => 'Connected to Acme (acme.myshopify.com)'),
+      business_central: jest.fn(async () => 'Connected to CRONUS in Production'),
+    };
+    service = new IntegrationCredentialService(repo as any, 'test-key', testers);
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('stores secrets encrypted and returns them only as hints', async () => {
+    const summary = await create();
+
+    const stored = repo.items.get(summary.id)!;
+    expect(JSON.stringify(stored)).not.toContain('shpat_0123456789abcdef');
+    expect(stored.settings).toEqual({ storeUrl: 'acme.myshopify.com' });
+    expect(summary).not.toHaveProperty('encryptedSecrets');
+    expect(summary.secretHints).toEqual({ accessToken: '…cdef' });
+    expect(await service.listCredentials('t1')).toEqual([summary]);
+  });
+
+  it('resolves decrypted credentials within the tenant and type', async () => {
+    const { id } = await create();
+
+    expect(await service.resolveCredentials('t1', id, 'shopify')).toEqual({ success: true, data: shopify.credentials });
+    expect(await service.resolveCredentials('t2', id, 'shopify')).toMatchObject({ success: false, code: 'NOT_FOUND' });
+    expect(await service.resolveCredentials('t1', id, 'business_central')).toMatchObject({ success: false, code: 'TYPE_MISMATCH' });
+  });
+
+  it('does not decrypt secrets copied to another credential or encrypted with another key', async () => {
+    const first = await create();
+    const second = (await service.createCredential('t1', { ...shopify, name: 'Outlet' }, admin)).data!;
+    repo.items.get(second.id)!.encryptedSecrets = repo.items.get(first.id)!.encryptedSecrets;
+
+    expect(await service.resolveCredentials('t1', second.id, 'shopify')).toMatchObject({ success: false, code: 'DECRYPTION_FAILED' });
+
+    const otherKey = new IntegrationCredentialService(repo as any, 'other-key', testers);
+    expect(await otherKey.resolveCredentials('t1', first.id, 'shopify')).toMatchObject({ success: false, code: 'DECRYPTION_FAILED' });
+  });
+
+  it('rotates every secret field and forgets the last test', async () => {
+    const { id } = await create();
+    await service.testConnection('t1', id);
+
+    const missing = await service.rotateCredential('t1', id, {});
+    expect(missing).toMatchObject({ success: false, code: 'INVALID_FIELDS', details: ['accessToken'] });
+
+    const rotated = await service.rotateCredential('t1', id, { accessToken: 'shpat_rotated_99999999' });
+    expect(rotated.data).toMatchObject({ secretHints: { accessToken: '…9999' } });
+    expect(rotated.data!.rotatedAt).toBeDefined();
+    expect(rotated.data!.lastTest).toBeUndefined();
+    expect((await service.resolveCredentials('t1', id, 'shopify')).data!.accessToken).toBe('shpat_rotated_99999999');
+  });
+
+  it('changes plain settings but not secrets on update', async () => {
+    const { id } = await create();
+
+    expect(await service.updateCredential('t1', id, { settings: { accessToken: 'x' } }))
+      .toMatchObject({ success: false, code: 'INVALID_FIELDS', details: ['accessToken'] });
+
+    const updated = await service.updateCredential('t1', id, { name: 'Retail', settings: { storeUrl: shopify.credentials.storeUrl } });
+    expect(updated.data).toMatchObject({ name: 'Retail', settings: { storeUrl: 'acme.myshopify.com' } });
+    expect((await service.resolveCredentials('t1', id, 'shopify')).data!.accessToken).toBe('shpat_0123456789abcdef');
+  });
+
+  it('needs the secrets again to change where a credential connects', async () => {
+    const { id } = await create();
+    await service.testConnection('t1', id);
+
+    expect(await service.updateCredential('t1', id, { settings: { storeUrl: 'attacker.example.com' } }))
+      .toMatchObject({ success: false, code: 'INVALID_FIELDS', details: ['accessToken'] });
+    expect((await service.resolveCredentials('t1', id, 'shopify')).data!.storeUrl).toBe('acme.myshopify.com');
+
+    const updated = await service.updateCredential('t1', id, {
+      settings: { storeUrl: 'retail.myshopify.com' },
+      secrets: { accessToken: 'shpat_retail_88888888' },
+    });
+    expect(updated.data).toMatchObject({ settings: { storeUrl: 'retail.myshopify.com' }, secretHints: { accessToken: '…8888' } });
+    expect(updated.data!.lastTest).toBeUndefined();
+    expect((await service.resolveCredentials('t1', id, 'shopify')).data).toEqual({
+      storeUrl: 'retail.myshopify.com',
+      accessToken: 'shpat_retail_88888888',
+    });
+  });
+
+  it('records connection tests that pass and fail', async () => {
+    const { id } = await create();
+
+    const passed = await service.testConnection('t1', id);
+    expect(passed.data).toMatchObject({ ok: true, message: 'Connected to Acme (acme.myshopify.com)' });
+    expect(testers.shopify).toHaveBeenCalledWith(shopify.credentials);
+
+    testers.shopify.mockRejectedValueOnce(new Error('Shopify request failed (401)'));
+    const failed = await service.testConnection('t1', id);
+    expect(failed).toMatchObject({ success: true, data: { ok: false, message: 'Shopify request failed (401)' } });
+    expect(repo.items.get(id)!.lastTest).toEqual(failed.data);
+  });
+
+  it('refuses duplicate names and credentials without an encryption key', async () => {
+    await create();
+
+    expect(await service.createCredential('t1', { ...shopify, name: 'main STORE' }, admin))
+      .toMatchObject({ success: false, code: 'NAME_EXISTS' });
+    expect(await service.createCredential('t2', shopify, admin)).toMatchObject({ success: true });
+
+    const unconfigured = new IntegrationCredentialService(repo as any, undefined, testers);
+    expect(await unconfigured.createCredential('t3', shopify, admin)).toMatchObject({ success: false, code: 'NOT_CONFIGURED' });
+  });
+
+  it('deletes only credentials of the tenant', async () => {
+    const { id } = await create();
+
+    expect(await service.deleteCredential('t2', id)).toMatchObject({ success: false, code: 'NOT_FOUND' });
+    expect(await service.deleteCredential('t1', id)).toEqual({ success: true });
+    expect(repo.items.size).toBe(0);
+  });
+});
@@ -0,0 +1,208 @@
+jest.mock('../firebase-admin', () => ({ adminDb: {} }));
+
+import { IntegrationJobService, type IntegrationJobContext, type IntegrationJobHandler } from '../integration-job-service';
+import { IntegrationJobError } from '../integration-jobs';
+import type { IntegrationJob } from '@/types/integration-job';
+import { UserRole } from '@/types/workflow';
+
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+class InMemoryJobRepository {
+  items = new Map<string, IntegrationJob>();
+
+  async save(job: IntegrationJob) {
+    this.items.set(job.id, clone(job));
+  }
+
+  async update(id: string, changes: Partial<IntegrationJob>) {
+    this.items.set(id, { ...this.items.get(id)!, ...clone(changes) });
+  }
+
+  async getById(id: string) {
+    const job = this.items.get(id);
+    return job ? clone(job) : null;
+  }
+
+  async getRecent(tenantId: string, limit: number) {
+    return [...this.items.values()]
+      .filter(job => job.tenantId === tenantId)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .slice(0, limit)
+      .map(clone);
+  }
+
+  async getActive(tenantId: string) {
+    return [...this.items.values()]
+      .filter(job => job.tenantId === tenantId && (job.status === 'queued' || job.status === 'running'))
+      .map(clone);
+  }
+
+  async getDue(tenantId: string, now: string, limit: number) {
+    return (await this.getActive(tenantId))
+      .filter(job => job.nextAttemptAt && job.nextAttemptAt <= now)
+      .slice(0, limit);
+  }
+}
+
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>(r => { resolve = r; });
+  return { promise, resolve };
+}
+
+const later = (minutes: number) => new Date(Date.now() + minutes * 60 * 1000);
+
+describe('IntegrationJobService', () => {
+  const actor = { userId: 'u1', userName: 'Eddie Editor', userRole: UserRole.EDITOR };
+  const shopifySync = { kind: 'shopify_sync' as const, params: { integrationId: 'shop-1', direction: 'both' as const } };
+  let repo: InMemoryJobRepository;
+  let handler: jest.Mock<ReturnType<IntegrationJobHandler>, [IntegrationJobContext]>;
+  let service: IntegrationJobService;
+
+  // Process the items, failing the ones named "bad"
+  const processItems = (items: string[]) => async (context: IntegrationJobContext) => {
+    context.setTotal(items.length);
+    for (const item of items) {
+      await context.checkpoint();
+      if (item.startsWith('bad')) context.recordError(item, 'Rejected');
+      context.advance();
+    }
+    return `Synced ${items.length} items`;
+  };
+
+  const start = async () => {
+    const result = await service.enqueue('t1', shopifySync, actor);
+    await service.settle();
+    return repo.items.get(result.data!.id)!;
+  };
+
+  beforeEach(() => {
+    repo = new InMemoryJobRepository();
+    handler = jest.fn(processItems(['a', 'bad-b', 'c']));
+    const credentials = {
+      resolveCredentials: async (_tenantId: string, id: string) => id === 'shop-1'
+        ? { success: true, data: {} }
+        : { success: false, error: 'Integration credential not found', code: 'NOT_FOUND' },
+    };
+    const handlers = { shopify_sync: handler, business_central_import: handler, business_central_export: handler };
+    service = new IntegrationJobService(repo as any, credentials as any, handlers, { progressIntervalMs: 0 });
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('runs a queued job in the background and records progress and failed items', async () => {
+    const job = await start();
+
+    expect(job).toMatchObject({
+      status: 'succeeded',
+      message: 'Synced 3 items',
+      progress: { total: 3, processed: 3, failed: 1 },
+      itemErrors: [{ key: 'bad-b', message: 'Rejected' }],
+      startedBy: actor,
+    });
+    expect(job.attempts).toHaveLength(1);
+    expect(job.attempts[0].finishedAt).toBeDefined();
+    expect(job.nextAttemptAt).toBeUndefined();
+    expect(handler.mock.calls[0][0].job.params).toEqual(shopifySync.params);
+  });
+
+  it('refuses integrations that do not resolve and a second job on the same integration', async () => {
+    expect(await service.enqueue('t1', { ...shopifySync, params: { integrationId: 'other' } }, actor))
+      .toMatchObject({ success: false, code: 'NOT_FOUND' });
+
+    const gate = deferred();
+    handler.mockImplementationOnce(async () => { await gate.promise; return 'Done'; });
+    const first = await service.enqueue('t1', shopifySync, actor);
+
+    const second = await service.enqueue('t1', shopifySync, actor);
+    expect(second).toMatchObject({ success: false, code: 'JOB_RUNNING', data: { id: first.data!.id } });
+    expect(await service.enqueue('t1', { kind: 'business_central_export', params: { integrationId: 'shop-1' } }, actor))
+      .toMatchObject({ success: true });
+
+    gate.resolve();
+    await service.settle();
+    expect(repo.items.get(first.data!.id)!.status).toBe('succeeded');
+  });
+
+  it('retries failed attempts with backoff until they run out', async () => {
+    handler.mockRejectedValue(new Error('Shopify request failed (503)'));
+
+    const job = await start();
+    expect(job).toMatchObject({ status: 'queued', error: 'Shopify request failed (503)' });
+    expect(new Date(job.nextAttemptAt!).getTime()).toBeGreaterThan(Date.now() + 50 * 1000);
+
+    expect((await service.runDueJobs('t1')).data).toMatchObject({ attempted: 0 });
+    expect((await service.runDueJobs('t1', later(2))).data).toMatchObject({ attempted: 1, retrying: 1 });
+    expect((await service.runDueJobs('t1', later(10))).data).toMatchObject({ attempted: 1, failed: 1 });
+
+    const failed = repo.items.get(job.id)!;
+    expect(failed.status).toBe('failed');
+    expect(failed.attempts.map(attempt => attempt.error)).toEqual(Array(3).fill('Shopify request failed (503)'));
+    expect(failed.finishedAt).toBeDefined();
+  });
+
+  it('fails without retrying on errors retrying cannot fix', async () => {
+    handler.mockRejectedValue(new IntegrationJobError('No products to export'));
+
+    const job = await start();
+
+    expect(job).toMatchObject({ status: 'failed', error: 'No products to export' });
+    expect(job.attempts).toHaveLength(1);
+    expect((await service.runDueJobs('t1', later(60))).data).toMatchObject({ attempted: 0 });
+  });
+
+  it('picks up running jobs whose worker stopped saving progress', async () => {
+    const job = await start();
+    await repo.update(job.id, { status: 'running', nextAttemptAt: new Date().toISOString() });
+
+    expect((await service.runDueJobs('t1', later(1))).data).toMatchObject({ attempted: 1, succeeded: 1 });
+    expect(repo.items.get(job.id)!.attempts).toHaveLength(2);
+  });
+
+  it('stops a running job at its next checkpoint when cancelled', async () => {
+    const gate = deferred();
+    handler.mockImplementationOnce(async context => {
+      context.setTotal(4);
+      context.advance();
+      await gate.promise;
+      return processItems(['b', 'c', 'd'])(context);
+    });
+    const { data: queued } = await service.enqueue('t1', shopifySync, actor);
+
+    const cancelling = await service.cancelJob('t1', queued!.id);
+    expect(cancelling.data).toMatchObject({ status: 'running', cancelRequested: true });
+    gate.resolve();
+    await service.settle();
+
+    const job = repo.items.get(queued!.id)!;
+    expect(job).toMatchObject({ status: 'cancelled', progress: { processed: 1 } });
+    expect(job.cancelRequested).toBeUndefined();
+    expect(await service.cancelJob('t1', job.id)).toMatchObject({ success: false, code: 'NOT_ACTIVE' });
+  });
+
+  it('cancels queued jobs before they run again', async () => {
+    handler.mockRejectedValueOnce(new Error('Timeout'));
+    const job = await start();
+
+    expect((await service.cancelJob('t1', job.id)).data).toMatchObject({ status: 'cancelled' });
+    expect((await service.runDueJobs('t1', later(60))).data).toMatchObject({ attempted: 0 });
+  });
+
+  it('retries failed and cancelled jobs as new jobs', async () => {
+    handler.mockRejectedValueOnce(new IntegrationJobError('Channel not found'));
+    const failed = await start();
+
+    expect(await service.retryJob('t2', failed.id, actor)).toMatchObject({ success: false, code: 'NOT_FOUND' });
+    const retried = await service.retryJob('t1', failed.id, { ...actor, userId: 'u2' });
+    await service.settle();
+
+    expect(retried.data).toMatchObject({ retryOf: failed.id, params: shopifySync.params, startedBy: { userId: 'u2' } });
+    expect(repo.items.get(retried.data!.id)!.status).toBe('succeeded');
+    expect(await service.retryJob('t1', retried.data!.id, actor)).toMatchObject({ success: false, code: 'NOT_RETRYABLE' });
+    expect((await service.listJobs('t1')).map(job => job.id)).toEqual(expect.arrayContaining([failed.id, retried.data!.id]));
+    expect(await service.listJobs('t1', { status: 'failed' })).toHaveLength(1);
+  });
+});
@@ -0,0 +1,108 @@
+import {
+  getFallbackChain,
+  getMissingLocales,
+  resolveLocalizedText,
+  toMultilingualString,
+  validateLocaleSettings,
+} from '../locales';
+import { validateProduct } from '../product-quality';
+import type { LocaleSettings } from '@/types/locale';
+import type { Product } from '@/types/product';
+
+const nordic: LocaleSettings = {
+  locales: [
+    { code: 'en', name: 'English' },
+    { code: 'no', name: 'Norwegian' },
+    { code: 'sv', name: 'Swedish' },
+    { code: 'da', name: 'Danish' },
+  ],
+  defaultLocale: 'en',
+  fallbacks: { da: ['no'] },
+};
+
+describe('validateLocaleSettings', () => {
+  it('accepts a valid configuration', () => {
+    expect(validateLocaleSettings(nordic)).toEqual([]);
+  });
+
+  it('requires the default locale to be enabled', () => {
+    expect(validateLocaleSettings({ ...nordic, defaultLocale: 'de' })).toEqual(['Default locale "de" must be enabled']);
+  });
+
+  it('only requires enabled, non-default locales for publishing', () => {
+    expect(validateLocaleSettings({ ...nordic, requiredForPublish: ['sv'] })).toEqual([]);
+    expect(validateLocaleSettings({ ...nordic, requiredForPublish: ['en', 'de'] })).toEqual([
+      'The default locale "en" is the translation source and cannot be required for publishing',
+      'Locale "de" is required for publishing but not enabled',
+    ]);
+  });
+
+  it('rejects invalid codes, duplicates and bad fallbacks', () => {
+    const errors = validateLocaleSettings({
+      locales: [...nordic.locales, { code: 'SV', name: 'Swedish' }, { code: 'no', name: 'Norsk' }],
+      defaultLocale: 'en',
+      fallbacks: { da: ['da', 'de'] },
+    });
+    expect(errors).toEqual([
+      'Invalid locale code "SV" (use e.g. "sv" or "de-AT")',
+      'Duplicate locales: no',
+      'Locale "da" cannot fall back to itself',
+      'Locale "da" falls back to "de", which is not enabled',
+    ]);
+  });
+});
+
+describe('fallback chain', () => {
+  it('tries the locale, its fallbacks, then the default locale', () => {
+    expect(getFallbackChain('da', nordic)).toEqual(['da', 'no', 'en']);
+    expect(getFallbackChain('sv', nordic)).toEqual(['sv', 'en']);
+    expect(getFallbackChain('en', nordic)).toEqual(['en']);
+  });
+
+  it('resolves text along the chain', () => {
+    const name = { en: 'Lamp', no: 'Lampe', da: '', sv: '' };
+    expect(resolveLocalizedText(name, 'da', nordic)).toBe('Lampe');
+    expect(resolveLocalizedText(name, 'sv', nordic)).toBe('Lamp');
+  });
+
+  it('uses any available text when the chain has none', () => {
+    expect(resolveLocalizedText({ en: '', no: '', sv: 'Lampa' }, 'da', nordic)).toBe('Lampa');
+    expect(resolveLocalizedText(undefined, 'da', nordic)).toBe('');
+  });
+});
+
+describe('locale helpers', () => {
+  it('lists enabled locales without text', () => {
+    expect(getMissingLocales({ en: 'Lamp', no: ' ', sv: 'Lampa' }, nordic)).toEqual(['no', 'da']);
+  });
+
+  it('keeps every locale when building a multilingual string', () => {
+    expect(toMultilingualString({ sv: 'Lampa', de: undefined })).toEqual({ en: '', no: '', sv: 'Lampa', de: '' });
+  });
+
+  it('reports missing translations in quality checks', () => {
+    const product = {
+      id: 'p1',
+      basicInfo: {
+        name: { en: 'Lamp', no: 'Lampe', sv: 'Lampa', da: 'Lampe' },
+        sku: 'LAMP-1',
+        descriptionShort: { en: 'Desk lamp', no: '' },
+        descriptionLong: { en: '', no: '' },
+        brand: 'Brand',
+        status: 'active',
+      },
+      attributesAndSpecs: { categories: [], properties: [], technicalSpecs: [] },
+      media: { images: [] },
+      marketingSEO: { seoTitle: { en: '', no: '' }, seoDescription: { en: '', no: '' }, keywords: [] },
+      createdAt: '2026-01-01T00:00:00.000Z',
+      updatedAt: '2026-01-01T00:00:00.000Z',
+    } as unknown as Product;
+
+    expect(validateProduct(product)).toEqual([]);
+    expect(validateProduct(product, undefined, nordic)).toEqual([{
+      type: 'missing-translation',
+      message: 'Short description is missing translations: Norwegian, Swedish, Danish',
+      severity: 'warning',
+    }]);
+  });
+});
@@ -0,0 +1,116 @@
+jest.mock('../firebase-admin', () => ({ adminDb: {} }));
+jest.mock('@/ai/flows/translate-product-text', () => ({ translateProductText: jest.fn() }));
+
+import { getProtectedTerms, protectText, restoreText } from '../machine-translation';
+import { TranslationService } from '../translation-service';
+import { getTranslationState } from '../translation-workflow';
+import type { LocaleSettings } from '@/types/locale';
+import type { Product } from '@/types/product';
+
+describe('protectText', () => {
+  it('replaces HTML, entities, link targets and code with placeholders', () => {
+    const result = protectText('<p>Warm &amp; dry, see [care guide](https://example.com/care) and `wash 30`</p>');
+    expect(result.text).toBe('[[0]]Warm [[1]] dry, see [care guide[[2]] and [[3]][[4]]');
+    expect(result.tokens).toEqual(['<p>', '&amp;', '](https://example.com/care)', '`wash 30`', '</p>']);
+  });
+
+  it('protects glossary terms as whole words, longest first', () => {
+    const result = protectText('Acme Pro jacket by Acme, not Acmeville', ['Acme', 'Acme Pro']);
+    expect(result.text).toBe('[[0]] jacket by [[1]], not Acmeville');
+    expect(result.tokens).toEqual(['Acme Pro', 'Acme']);
+  });
+
+  it('round-trips through restoreText', () => {
+    const source = '## Features\n\n- <strong>Gore-Tex</strong> shell';
+    const { text, tokens } = protectText(source, ['Gore-Tex']);
+    const translated = text.replace('Features', 'Egenskaper').replace('shell', 'skall');
+    expect(restoreText(translated, tokens)).toEqual({
+      text: '## Egenskaper\n\n- <strong>Gore-Tex</strong> skall',
+      missing: [],
+    });
+  });
+
+  it('reports placeholders the translation dropped', () => {
+    const { tokens } = protectText('<b>Acme</b>');
+    expect(restoreText('[[0]]Acme', tokens).missing).toEqual(['</b>']);
+  });
+});
+
+describe('getProtectedTerms', () => {
+  it('adds the SKU and brand to the glossary without duplicates', () => {
+    expect(getProtectedTerms(['Acme', ' Gore-Tex '], { sku: 'JACKET-1', brand: 'Acme' })).toEqual(['Acme', 'Gore-Tex', 'JACKET-1']);
+  });
+});
+
+describe('TranslationService.machineTranslate', () => {
+  const settings: LocaleSettings = {
+    locales: [
+      { code: 'en', name: 'English' },
+      { code: 'no', name: 'Norwegian' },
+      { code: 'sv', name: 'Swedish' },
+    ],
+    defaultLocale: 'en',
+    fallbacks: {},
+    glossary: ['Gore-Tex'],
+  };
+
+  const product = {
+    id: 'p1',
+    basicInfo: {
+      name: { en: 'Winter jacket', no: 'Vinterjakke' },
+      sku: 'JACKET-1',
+      descriptionShort: { en: 'A <b>Gore-Tex</b> jacket', no: '' },
+      descriptionLong: { en: '', no: '' },
+      brand: 'Acme',
+      status: 'active',
+    },
+    attributesAndSpecs: { categories: [], properties: [], technicalSpecs: [] },
+    media: { images: [] },
+    marketingSEO: { seoTitle: { en: '', no: '' }, seoDescription: { en: '', no: '' }, keywords: [] },
+    createdAt: '2024-01-01T00:00:00Z',
+    updatedAt: '2024-01-01T00:00:00Z',
+  } as unknown as Product;
+
+  const user = { userId: 'u1', userRole: 'translator' };
+
+  const setup = () => {
+    const saved: Record<string, Product> = {};
+    const products = {
+      getProductById: jest.fn(async (id: string) => (id === product.id ? product : null)),
+      updateProduct: jest.fn(async (id: string, updates: Product) => { saved[id] = updates; }),
+    };
+    const locales = { getSettings: jest.fn(async () => settings) };
+    const translate = jest.fn(async (input: any) => ({
+      translations: Object.fromEntries(Object.entries(input.texts).map(([key, text]) => [
+        key,
+        Object.fromEntries(input.targetLocales.map((l: any) => [l.code, `${l.code}: ${text}`])),
+      ])),
+      errors: [],
+    }));
+    const service = new TranslationService(products as any, locales as any, translate as any);
+    return { service, products, translate, saved };
+  };
+
+  it('fills empty target texts and marks them machine-translated', async () => {
+    const { service, translate, saved } = setup();
+    const result = await service.machineTranslate('t1', { productIds: ['p1'] }, user);
+
+    expect(result.success).toBe(true);
+    expect(result.data![0].translated).toEqual(['name:sv', 'descriptionShort:no', 'descriptionShort:sv']);
+    expect(translate.mock.calls[0][0].glossary).toEqual(['Gore-Tex', 'JACKET-1', 'Acme']);
+
+    const updated = saved.p1;
+    expect(updated.basicInfo.name).toEqual({ en: 'Winter jacket', no: 'Vinterjakke', sv: 'sv: Winter jacket' });
+    expect(getTranslationState(updated, 'name', 'sv', settings)).toEqual({ status: 'machine_translated', outdated: false });
+    expect(getTranslationState(updated, 'name', 'no', settings).status).toBe('needs_review');
+  });
+
+  it('reports missing products and rejects the source locale as a target', async () => {
+    const { service } = setup();
+    const missing = await service.machineTranslate('t1', { productIds: ['nope'] }, user);
+    expect(missing.data).toEqual([{ productId: 'nope', translated: [], errors: ['Product not found'] }]);
+
+    const invalid = await service.machineTranslate('t1', { productIds: ['p1'], targetLocales: ['en'] }, user);
+    expect(invalid).toMatchObject({ success: false, code: 'INVALID_LOCALE', details: ['en'] });
+  });
+});
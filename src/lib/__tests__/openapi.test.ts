@@ -0,0 +1,95 @@
+import { z } from 'zod';
+import { createOpenApiDocument, zodToJsonSchema } from '../openapi';
+import { apiV1Operations, getApiV1OpenApiDocument } from '../api-v1-openapi';
+import { v1ProductCreateSchema } from '../api-v1-schemas';
+import { WorkflowState } from '@/types/workflow';
+
+describe('zodToJsonSchema', () => {
+  it('converts strict objects with required and optional fields', () => {
+    const schema = z.object({
+      sku: z.string().min(1).max(100),
+      amount: z.number().int().min(0),
+      state: z.nativeEnum(WorkflowState).optional(),
+      tags: z.array(z.string()).max(5).default([]),
+      parentId: z.string().nullable(),
+    }).strict();
+
+    expect(zodToJsonSchema(schema)).toEqual({
+      type: 'object',
+      properties: {
+        sku: { type: 'string', minLength: 1, maxLength: 100 },
+        amount: { type: 'integer', minimum: 0 },
+        state: { type: 'string', enum: ['draft', 'review', 'approved', 'published', 'rejected'] },
+        tags: { type: 'array', items: { type: 'string' }, maxItems: 5, default: [] },
+        parentId: { type: ['string', 'null'] },
+      },
+      required: ['sku', 'amount', 'parentId'],
+      additionalProperties: false,
+    });
+  });
+
+  it('converts records, literals, formats and descriptions', () => {
+    expect(zodToJsonSchema(z.record(z.string().regex(/^[a-z]{2}$/), z.string()).describe('Per locale'))).toEqual({
+      type: 'object',
+      additionalProperties: { type: 'string' },
+      propertyNames: { type: 'string', pattern: '^[a-z]{2}$' },
+      description: 'Per locale',
+    });
+    expect(zodToJsonSchema(z.literal(true))).toEqual({ type: 'boolean', const: true });
+    expect(zodToJsonSchema(z.string().datetime())).toEqual({ type: 'string', format: 'date-time' });
+    expect(zodToJsonSchema(z.coerce.number().int().max(100))).toEqual({ type: 'integer', maximum: 100 });
+  });
+
+  it('references named schemas', () => {
+    const price = z.object({ amount: z.number() });
+    const document = createOpenApiDocument({
+      info: { title: 'Test', version: '1' },
+      schemas: { Price: price },
+      operations: [{
+        method: 'post', path: '/prices', operationId: 'createPrice', summary: 'Create',
+        body: z.object({ prices: z.array(price) }),
+        responses: { 201: { description: 'Created', schema: price } },
+      }],
+    }) as any;
+
+    const operation = document.paths['/prices'].post;
+    expect(operation.requestBody.content['application/json'].schema.properties.prices.items).toEqual({ $ref: '#/components/schemas/Price' });
+    expect(operation.responses['201'].content['application/json'].schema).toEqual({ $ref: '#/components/schemas/Price' });
+    expect(document.components.schemas.Price).toEqual({ type: 'object', properties: { amount: { type: 'number' } }, required: ['amount'] });
+  });
+});
+
+describe('API v1 OpenAPI document', () => {
+  const document = getApiV1OpenApiDocument() as any;
+
+  it('documents every v1 operation with its scope', () => {
+    expect(document.openapi).toBe('3.1.0');
+    for (const operation of apiV1Operations) {
+      const entry = document.paths[operation.path][operation.method];
+      expect(entry.operationId).toBe(operation.operationId);
+      expect(entry.security[0].bearerAuth).toHaveLength(1);
+      expect(entry.responses['401']).toBeDefined();
+      expect(entry.responses['429']).toBeDefined();
+    }
+    expect(document.paths['/products/{id}/workflow'].post.security[0].bearerAuth).toEqual(['write']);
+    expect(document.paths['/products'].get.parameters.map((p: any) => p.name)).toEqual(['workflowState', 'search', 'cursor', 'limit']);
+  });
+
+  it('describes request bodies with the schemas the routes validate with', () => {
+    const body = document.paths['/products'].post.requestBody.content['application/json'].schema;
+    expect(body).toEqual({ $ref: '#/components/schemas/ProductCreate' });
+
+    const productCreate = document.components.schemas.ProductCreate;
+    expect(productCreate.additionalProperties).toBe(false);
+    expect(productCreate.required).toEqual(['basicInfo']);
+    expect(productCreate.properties.basicInfo.required).toEqual(['name', 'sku']);
+    expect(productCreate.properties.basicInfo.properties.name).toEqual({ $ref: '#/components/schemas/LocalizedText' });
+  });
+
+  it('rejects what the document rules out', () => {
+    const valid = { basicInfo: { name: { en: 'Rain jacket' }, sku: 'RJ-1' } };
+    expect(v1ProductCreateSchema.safeParse(valid).success).toBe(true);
+    expect(v1ProductCreateSchema.safeParse({ ...valid, workflowState: 'published' }).success).toBe(false);
+    expect(v1ProductCreateSchema.safeParse({ basicInfo: { ...valid.basicInfo, nmae: 'typo' } }).success).toBe(false);
+  });
+});
@@ -0,0 +1,149 @@
+jest.mock('../firebase-admin', () => ({ adminDb: {} }));
+
+import { ProductService } from '../product-service';
+import { ProductSearchIndex } from '../product-search';
+import { decodeProductCursor, encodeProductCursor, getFilterFingerprint, InvalidCursorError } from '../product-cursor';
+import type { Product } from '@/types/product';
+import { WorkflowState } from '@/types/workflow';
+
+const clone = <T,>(value: T): T => JSON.parse(JSON.stringify(value));
+
+// Orders like the Firestore query: last updated first, then ID descending
+class InMemoryProductRepository {
+  items = new Map<string, any>();
+  failCount = false;
+
+  async save(product: any) { this.items.set(product.id, clone(product)); }
+  async getById(id: string) { return this.items.has(id) ? clone(this.items.get(id)) : null; }
+  async getAll() { return [...this.items.values()].map(clone); }
+
+  private filtered(params: { workflowState?: string }) {
+    return [...this.items.values()]
+      .filter(row => !params.workflowState || row.workflow_state === params.workflowState)
+      .sort((a, b) => b.updated_at.localeCompare(a.updated_at) || b.id.localeCompare(a.id));
+  }
+
+  async query(params: { workflowState?: string; limit: number; after?: { updatedAt: string; id: string } }) {
+    let rows = this.filtered(params);
+    if (params.after) {
+      const { updatedAt, id } = params.after;
+      rows = rows.filter(row => row.updated_at < updatedAt || (row.updated_at === updatedAt && row.id < id));
+    }
+    return rows.slice(0, params.limit).map(clone);
+  }
+
+  async count(params: { workflowState?: string }) {
+    if (this.failCount) throw new Error('count unavailable');
+    return this.filtered(params).length;
+  }
+}
+
+class NoopVersionRepository {
+  async create() { }
+  async getLatest() { return null; }
+}
+
+function makeProduct(id: string, name: string): Product {
+  return {
+    id,
+    basicInfo: {
+      name: { en: name, no: name },
+      sku: id.toUpperCase(),
+      descriptionShort: { en: '', no: '' },
+      descriptionLong: { en: '', no: '' },
+      brand: 'Acme',
+      status: 'active',
+    },
+    attributesAndSpecs: { categories: [], properties: [], technicalSpecs: [] },
+    media: { images: [] },
+    marketingSEO: { seoTitle: { en: '', no: '' }, seoDescription: { en: '', no: '' }, keywords: [] },
+    workflowState: WorkflowState.DRAFT,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+  };
+}
+
+describe('product cursors', () => {
+  it('round-trips a cursor made for the same filters', () => {
+    const filter = { workflowState: 'draft', search: ' boots ' };
+    const cursor = { kind: 'search' as const, filter: getFilterFingerprint(filter), offset: 40 };
+    expect(decodeProductCursor(encodeProductCursor(cursor), { workflowState: 'draft', search: 'boots' })).toEqual(cursor);
+  });
+
+  it('rejects malformed cursors and cursors made for other filters', () => {
+    const cursor = encodeProductCursor({ kind: 'search', filter: getFilterFingerprint({ search: 'boots' }), offset: 20 });
+    expect(() => decodeProductCursor(cursor, { search: 'hats' })).toThrow(InvalidCursorError);
+    expect(() => decodeProductCursor('not-a-cursor', {})).toThrow(InvalidCursorError);
+    expect(() => decodeProductCursor(encodeProductCursor({ kind: 'search', filter: '[]', offset: -1 } as any), {})).toThrow(InvalidCursorError);
+  });
+});
+
+describe('ProductService.getProducts', () => {
+  let repo: InMemoryProductRepository;
+  let service: ProductService;
+
+  beforeEach(async () => {
+    repo = new InMemoryProductRepository();
+    service = new ProductService(repo as any, new NoopVersionRepository() as any, new ProductSearchIndex());
+    for (let i = 1; i <= 5; i++) {
+      await service.createProduct(makeProduct(`p${i}`, `Trail boot ${i}`), { userId: 'user-1' });
+    }
+    // Same timestamp for all, so the ID breaks the tie
+    repo.items.forEach(row => { row.updated_at = '2026-02-01T00:00:00.000Z'; });
+  });
+
+  const pageThrough = async (filter: { search?: string }) => {
+    const ids: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await service.getProducts({ ...filter, cursor, limit: 2 });
+      ids.push(...page.products.map(p => p.id));
+      expect(page.total).toBe(5);
+      cursor = page.nextCursor;
+      expect(!!cursor).toBe(page.hasNext);
+    } while (cursor);
+    return ids;
+  };
+
+  it('pages through every product exactly once', async () => {
+    expect(await pageThrough({})).toEqual(['p5', 'p4', 'p3', 'p2', 'p1']);
+  });
+
+  it('keeps its place when products are added between pages', async () => {
+    const first = await service.getProducts({ limit: 2 });
+    await service.createProduct(makeProduct('p9', 'Trail boot 9'), { userId: 'user-1' });
+
+    const second = await service.getProducts({ cursor: first.nextCursor, limit: 2 });
+    expect(second.products.map(p => p.id)).toEqual(['p3', 'p2']);
+  });
+
+  it('pages through ranked search results', async () => {
+    expect((await pageThrough({ search: 'trail' })).sort()).toEqual(['p1', 'p2', 'p3', 'p4', 'p5']);
+  });
+
+  it('estimates the total when counting fails', async () => {
+    repo.failCount = true;
+    jest.spyOn(console, 'warn').mockImplementation(() => { });
+    const first = await service.getProducts({ limit: 2 });
+    expect(first).toMatchObject({ total: 3, totalEstimated: true, hasNext: true });
+
+    const second = await service.getProducts({ cursor: first.nextCursor, limit: 2 });
+    const last = await service.getProducts({ cursor: second.nextCursor, limit: 2 });
+    expect(last).toMatchObject({ total: 5, totalEstimated: true, hasNext: false });
+    jest.restoreAllMocks();
+  });
+
+  it('rejects a list cursor used for a search', async () => {
+    const first = await service.getProducts({ limit: 2 });
+    await expect(service.getProducts({ search: 'trail', cursor: first.nextCursor })).rejects.toThrow(InvalidCursorError);
+  });
+
+  it('serves every product from the search index without reading the catalog again', async () => {
+    const getAll = jest.spyOn(repo, 'getAll');
+
+    expect((await service.getIndexedProducts()).map(p => p.id).sort()).toEqual(['p1', 'p2', 'p3', 'p4', 'p5']);
+    await service.createProduct(makeProduct('p9', 'Trail boot 9'), { userId: 'user-1' });
+    expect(await service.getIndexedProducts()).toHaveLength(6);
+    expect(getAll).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,100 @@
+import {
+  aggregateProductFacets,
+  getFacetSelection,
+  getQualityBand,
+  productFacetQuerySchema,
+  toFacetSearchParams,
+  type ProductFacetContext,
+} from '../product-facets';
+import { FACET_NONE, type ProductFacetSelection } from '@/types/facet';
+import type { Product } from '@/types/product';
+import { UserRole, WorkflowState } from '@/types/workflow';
+
+const createProduct = (id: string, overrides: Partial<Product> & { brand?: string; score?: number } = {}): Product => {
+  const { brand = 'Acme', score = 95, ...rest } = overrides;
+  return {
+    id,
+    basicInfo: {
+      name: { en: id, no: id },
+      sku: id.toUpperCase(),
+      descriptionShort: { en: '', no: '' },
+      descriptionLong: { en: '', no: '' },
+      brand,
+      status: 'active',
+    },
+    attributesAndSpecs: { categories: ['outdoor'], properties: [], technicalSpecs: [] },
+    media: { images: [] },
+    marketingSEO: { seoTitle: { en: '', no: '' }, seoDescription: { en: '', no: '' }, keywords: [] },
+    workflowState: WorkflowState.DRAFT,
+    qualityMetrics: { completenessScore: score, missingFields: [], validationErrors: [], lastChecked: '' },
+    createdAt: '2024-01-01T00:00:00Z',
+    updatedAt: '2024-01-01T00:00:00Z',
+    ...rest,
+  };
+};
+
+const context: ProductFacetContext = {
+  getCategoryName: id => ({ outdoor: 'Outdoor', winter: 'Outdoor > Winter' }[id] || id),
+  getQualityScore: product => product.qualityMetrics?.completenessScore || 0,
+};
+
+const reviewer = { userId: 'r1', userName: 'Rita Reviewer', userRole: UserRole.REVIEWER };
+const products = [
+  createProduct('jacket', { workflowState: WorkflowState.REVIEW, assignedReviewer: reviewer }),
+  createProduct('boots', { brand: 'Nordic', score: 80, media: { images: [{ id: 'i1', url: 'https://example.com/boots.jpg' } as any] } }),
+  createProduct('hat', { brand: 'Nordic', score: 40, attributesAndSpecs: { categories: ['outdoor', 'winter'], properties: [], technicalSpecs: [] } }),
+  createProduct('sample', { brand: '', attributesAndSpecs: { categories: [], properties: [], technicalSpecs: [] } }),
+];
+
+const facetValues = (selection: ProductFacetSelection, key: string) =>
+  aggregateProductFacets(products, selection, context).facets
+    .find(facet => facet.key === key)!.values.map(v => [v.label, v.count, v.selected]);
+
+describe('aggregateProductFacets', () => {
+  it('counts every facet value over all products', () => {
+    expect(facetValues({}, 'brand')).toEqual([['Nordic', 2, false], ['Acme', 1, false], ['No brand', 1, false]]);
+    expect(facetValues({}, 'category')).toEqual([['Outdoor', 3, false], ['Outdoor > Winter', 1, false], ['Uncategorized', 1, false]]);
+    expect(facetValues({}, 'qualityBand')).toEqual([['Above 90%', 2, false], ['70–90%', 1, false], ['Below 70%', 1, false]]);
+    expect(facetValues({}, 'reviewer')).toEqual([['Unassigned', 3, false], ['Rita Reviewer', 1, false]]);
+    expect(facetValues({}, 'hasImages')).toEqual([['With images', 1, false], ['Without images', 3, false]]);
+  });
+
+  it('combines facets and keeps the counts of alternatives within a facet', () => {
+    const selection = { brand: ['Nordic'], hasImages: ['no'] };
+    const { matching } = aggregateProductFacets(products, selection, context);
+    expect(matching.map(p => p.id)).toEqual(['hat']);
+
+    // Brand counts only apply the images facet; image counts only apply the brand facet
+    expect(facetValues(selection, 'brand')).toEqual([['Acme', 1, false], ['No brand', 1, false], ['Nordic', 1, true]]);
+    expect(facetValues(selection, 'hasImages')).toEqual([['With images', 1, false], ['Without images', 1, true]]);
+  });
+
+  it('matches any of the selected values within a facet and finds products without a value', () => {
+    const { matching } = aggregateProductFacets(products, { brand: ['Acme', FACET_NONE] }, context);
+    expect(matching.map(p => p.id)).toEqual(['jacket', 'sample']);
+  });
+
+  it('keeps selected values that no longer match anything', () => {
+    expect(facetValues({ workflowState: [WorkflowState.PUBLISHED] }, 'workflowState')).toEqual([
+      ['Draft', 3, false],
+      ['Review', 1, false],
+      ['Published', 0, true],
+    ]);
+  });
+});
+
+describe('getQualityBand', () => {
+  it('bands scores like the quality badge colors them', () => {
+    expect([95, 90, 70, 69.9].map(getQualityBand)).toEqual(['high', 'medium', 'medium', 'low']);
+  });
+});
+
+describe('facet query parameters', () => {
+  it('round-trips a selection, including values with commas', () => {
+    const selection = { brand: ['Smith, Jones & Co', 'Acme'], qualityBand: ['low'] };
+    const params = toFacetSearchParams(selection);
+    const parsed = productFacetQuerySchema.parse(Object.fromEntries(params.entries()));
+    expect(getFacetSelection(parsed)).toEqual(selection);
+    expect(parsed).toMatchObject({ page: 1, limit: 100 });
+  });
+});
@@ -0,0 +1,95 @@
+import {
+  describePriceValidity,
+  fromVariantFormValues,
+  keyValueEntrySchema,
+  productVariantSchema,
+  toFormPriceEntries,
+  toSpecEntries,
+  toVariantFormValues,
+} from '../product-form';
+import { isScheduleEntryLive } from '../scheduled-actions';
+import type { KeyValueEntry, PriceEntry, ProductVariant } from '@/types/product';
+
+const expiredSale: PriceEntry = {
+  id: 'sale-1',
+  amount: 799,
+  currency: 'NOK',
+  validFrom: '2024-11-29T00:00:00Z',
+  validTo: '2024-12-01T00:00:00Z',
+  active: false,
+};
+
+describe('toFormPriceEntries', () => {
+  it('keeps an unchanged entry with its ID, validity window and scheduler state', () => {
+    const [entry] = toFormPriceEntries([expiredSale], 799, 'NOK');
+
+    expect(entry).toEqual(expiredSale);
+    expect(isScheduleEntryLive(entry)).toBe(false);
+  });
+
+  it('replaces the entry when the amount or currency changes', () => {
+    const [byAmount] = toFormPriceEntries([expiredSale], 699, 'NOK');
+    const [byCurrency] = toFormPriceEntries([expiredSale], 799, 'SEK');
+
+    expect(byAmount).toEqual({ id: expect.any(String), amount: 699, currency: 'NOK' });
+    expect(byAmount.id).not.toBe(expiredSale.id);
+    expect(byCurrency).toEqual({ id: expect.any(String), amount: 799, currency: 'SEK' });
+  });
+
+  it('creates an entry for a new price and none for an empty one', () => {
+    expect(toFormPriceEntries(undefined, 1000, undefined)).toEqual([{ id: expect.any(String), amount: 1000, currency: 'NOK' }]);
+    expect(toFormPriceEntries([expiredSale], undefined, 'NOK')).toEqual([]);
+    expect(toFormPriceEntries([expiredSale], null, 'NOK')).toEqual([]);
+  });
+});
+
+describe('describePriceValidity', () => {
+  it('describes the validity window and whether the entry is in effect', () => {
+    expect(describePriceValidity(expiredSale)).toMatch(/^Valid .+ – .+ \(not in effect\)$/);
+    expect(describePriceValidity({ ...expiredSale, validTo: undefined, active: true })).toMatch(/^Valid from .+ \(in effect\)$/);
+  });
+
+  it('is undefined for entries without a window', () => {
+    expect(describePriceValidity({ id: 'p1', amount: 1000, currency: 'NOK' })).toBeUndefined();
+    expect(describePriceValidity(undefined)).toBeUndefined();
+  });
+});
+
+describe('form round trip', () => {
+  const weightSpec: KeyValueEntry = {
+    id: 's1',
+    key: 'Weight',
+    value: '1.1 lb',
+    quantity: { value: 500, unit: 'g', normalized: { value: 0.5, unit: 'kg' } },
+  };
+  const variant: ProductVariant = {
+    id: 'v1',
+    sku: 'JACKET-1-RED',
+    optionValues: { Color: 'Red' },
+    standardPrice: [{ id: 'price-1', amount: 1000, currency: 'NOK' }],
+    salePrice: [expiredSale],
+    costPrice: [{ id: 'cost-1', amount: 400, currency: 'NOK' }],
+    imageIds: ['img-1'],
+    weight: { value: 2, unit: 'kg', normalized: { value: 2, unit: 'kg' } },
+  };
+
+  it('keeps the quantity of imported technical specs', () => {
+    const values = [keyValueEntrySchema.parse(weightSpec)];
+
+    expect(toSpecEntries(values, [weightSpec])).toEqual([weightSpec]);
+  });
+
+  it('parses the quantity of an edited spec again', () => {
+    const edited = keyValueEntrySchema.parse({ ...weightSpec, value: '750 g' });
+    const [spec] = toSpecEntries([edited], [weightSpec]);
+
+    expect(spec.quantity).toEqual({ value: 750, unit: 'g', normalized: { value: 0.75, unit: 'kg' } });
+    expect(toSpecEntries([{ ...edited, value: 'Light' }], [weightSpec])).toEqual([{ id: 's1', key: 'Weight', value: 'Light' }]);
+  });
+
+  it('keeps the weight and the fields the form does not edit on variants', () => {
+    const values = productVariantSchema.parse(toVariantFormValues(variant));
+
+    expect(fromVariantFormValues(values, variant)).toEqual(variant);
+  });
+});
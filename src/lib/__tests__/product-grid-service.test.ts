@@ -0,0 +1,124 @@
+jest.mock('../firebase-admin', () => ({ adminDb: {} }));
+
+import { ProductGridService } from '../product-grid-service';
+import type { Product } from '@/types/product';
+import { initialProductData } from '@/types/product';
+import { UserRole } from '@/types/workflow';
+
+class InMemoryProductService {
+  items = new Map<string, Product>();
+
+  async getProductById(id: string) { return this.items.get(id) || null; }
+  async getProductBySku(sku: string) { return Array.from(this.items.values()).find(p => p.basicInfo.sku === sku) || null; }
+  updateProduct = jest.fn(async (id: string, product: Product) => { this.items.set(id, product); });
+}
+
+const createProduct = (id: string, sku: string): Product => ({
+  ...initialProductData,
+  id,
+  basicInfo: { ...initialProductData.basicInfo, name: { en: `Product ${id}`, no: '' }, sku, brand: 'Acme' },
+  pricingAndStock: { standardPrice: [{ id: `${id}-nok`, currency: 'NOK', amount: 100 }] },
+  createdAt: '2026-01-01T00:00:00Z',
+  updatedAt: '2026-01-02T00:00:00Z',
+});
+
+describe('ProductGridService', () => {
+  let products: InMemoryProductService;
+  let audit: { createProductUpdateAuditEntry: jest.Mock };
+  let service: ProductGridService;
+  const editor = { userId: 'u1', userName: 'Eddie Editor', userRole: UserRole.EDITOR, email: 'eddie@example.com' };
+
+  beforeEach(() => {
+    products = new InMemoryProductService();
+    ['p1', 'p2', 'p3'].forEach((id, i) => products.items.set(id, createProduct(id, `SKU-${i + 1}`)));
+    const categories = { listCategories: async () => [] };
+    const families = { listFamilies: async () => [] };
+    audit = { createProductUpdateAuditEntry: jest.fn() };
+    service = new ProductGridService(products as any, categories as any, families as any, audit as any);
+  });
+
+  it('saves valid rows and reports invalid ones per cell', async () => {
+    const result = await service.saveRows({
+      rows: [
+        { productId: 'p1', expectedUpdatedAt: '2026-01-02T00:00:00Z', values: { brand: 'Globex', 'standardPrice:NOK': '149' } },
+        { productId: 'p2', values: { gtin: 'abc', brand: 'Globex' } },
+        { productId: 'missing', values: { brand: 'Globex' } },
+      ],
+    }, editor, 'acme');
+
+    expect(result.saved.map(row => row.productId)).toEqual(['p1']);
+    expect(result.failed).toEqual([
+      { productId: 'p2', errors: [{ column: 'gtin', message: 'GTIN must be numeric and 8, 12, 13 or 14 digits' }] },
+      { productId: 'missing', errors: [{ message: 'Product not found' }] },
+    ]);
+    expect(products.items.get('p1')!.basicInfo.brand).toBe('Globex');
+    expect(products.items.get('p1')!.updatedAt).not.toBe('2026-01-02T00:00:00Z');
+    expect(products.items.get('p2')!.basicInfo.brand).toBe('Acme');
+    expect(products.updateProduct).toHaveBeenCalledWith('p1', expect.anything(), {
+      userId: 'u1', userName: 'Eddie Editor', reason: 'Grid edit', tenantId: 'acme',
+    });
+  });
+
+  it('writes an audit entry per changed field', async () => {
+    await service.saveRows({
+      rows: [{ productId: 'p1', values: { brand: 'Globex', 'name:en': 'Product p1', 'standardPrice:NOK': '149' } }],
+    }, editor, 'acme');
+
+    expect(audit.createProductUpdateAuditEntry).toHaveBeenCalledTimes(2);
+    expect(audit.createProductUpdateAuditEntry).toHaveBeenCalledWith(
+      'u1', UserRole.EDITOR, 'eddie@example.com', 'p1',
+      { 'basicInfo.brand': 'Acme' }, { 'basicInfo.brand': 'Globex' },
+      'Grid edit', { source: 'grid', userName: 'Eddie Editor', column: 'brand' }
+    );
+    expect(audit.createProductUpdateAuditEntry).toHaveBeenCalledWith(
+      'u1', UserRole.EDITOR, 'eddie@example.com', 'p1',
+      { 'pricingAndStock.standardPrice.NOK': 100 }, { 'pricingAndStock.standardPrice.NOK': 149 },
+      'Grid edit', expect.objectContaining({ column: 'standardPrice:NOK' })
+    );
+  });
+
+  it('does not save rows without actual changes', async () => {
+    const result = await service.saveRows({ rows: [{ productId: 'p1', values: { brand: ' Acme ' } }] }, editor, 'acme');
+
+    expect(result.saved).toEqual([expect.objectContaining({ productId: 'p1', changes: [] })]);
+    expect(products.updateProduct).not.toHaveBeenCalled();
+    expect(audit.createProductUpdateAuditEntry).not.toHaveBeenCalled();
+  });
+
+  it('rejects rows changed since the grid was loaded', async () => {
+    const result = await service.saveRows({
+      rows: [{ productId: 'p1', expectedUpdatedAt: '2026-01-01T00:00:00Z', values: { brand: 'Globex' } }],
+    }, editor, 'acme');
+
+    expect(result.failed[0].errors[0].message).toMatch(/changed by someone else/);
+    expect(products.updateProduct).not.toHaveBeenCalled();
+  });
+
+  it('keeps SKUs unique, including within the batch', async () => {
+    const result = await service.saveRows({
+      rows: [
+        { productId: 'p1', values: { sku: 'SKU-2' } },
+        { productId: 'p2', values: { sku: 'NEW-1' } },
+        { productId: 'p3', values: { sku: 'NEW-1' } },
+      ],
+    }, editor, 'acme');
+
+    expect(result.saved.map(row => row.productId)).toEqual(['p2']);
+    expect(result.failed).toEqual([
+      { productId: 'p1', errors: [{ column: 'sku', message: 'SKU "SKU-2" is already used by another product' }] },
+      { productId: 'p3', errors: [{ column: 'sku', message: 'SKU "NEW-1" is already used by another product' }] },
+    ]);
+  });
+
+  it('reports rows that fail to save without stopping the batch', async () => {
+    products.updateProduct.mockRejectedValueOnce(new Error('Firestore unavailable'));
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const result = await service.saveRows({
+      rows: [{ productId: 'p1', values: { brand: 'Globex' } }, { productId: 'p2', values: { brand: 'Globex' } }],
+    }, editor, 'acme');
+
+    expect(result.failed).toEqual([{ productId: 'p1', errors: [{ message: 'Failed to save the row' }] }]);
+    expect(result.saved.map(row => row.productId)).toEqual(['p2']);
+  });
+});
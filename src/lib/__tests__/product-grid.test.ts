@@ -0,0 +1,216 @@
+import {
+  applyGridValues,
+  formatClipboardText,
+  getGridCellText,
+  getGridColumns,
+  parseClipboardText,
+  parseGridColumnKey,
+  parsePriceText,
+  productGridEditReducer,
+  initialProductGridEditState,
+  tileGridBlock,
+  type ProductGridContext,
+} from '../product-grid';
+import type { AttributeFamily } from '@/types/attribute';
+import type { Product } from '@/types/product';
+import { initialProductData } from '@/types/product';
+
+const family: AttributeFamily = {
+  id: 'fam-headphones',
+  code: 'headphones',
+  name: { en: 'Headphones', no: 'Hodetelefoner' },
+  attributes: [
+    { code: 'battery_life', label: { en: 'Battery life', no: 'Batteritid' }, type: 'number', required: false, unit: 'h', constraints: { min: 1 } },
+    { code: 'color', label: { en: 'Color', no: 'Farge' }, type: 'enum', required: false, options: [{ value: 'black', label: { en: 'Black', no: 'Svart' } }] },
+    { code: 'care', label: { en: 'Care', no: 'Vedlikehold' }, type: 'multilingual', required: false },
+  ],
+  createdAt: '2026-01-01T00:00:00Z',
+  updatedAt: '2026-01-01T00:00:00Z',
+};
+
+const context: ProductGridContext = {
+  categories: [
+    { id: 'cat-audio', parentId: null, name: { en: 'Audio', no: 'Lyd' }, slug: 'audio', order: 0, createdAt: '', updatedAt: '' },
+    { id: 'cat-sale', parentId: null, name: { en: 'Sale', no: 'Salg' }, slug: 'sale', order: 1, createdAt: '', updatedAt: '' },
+  ],
+  families: [family],
+};
+
+const product: Product = {
+  ...initialProductData,
+  id: 'p1',
+  basicInfo: { ...initialProductData.basicInfo, name: { en: 'Headset', no: 'Hodesett' }, sku: 'HS-1', brand: 'Acme', status: 'active' },
+  attributesAndSpecs: {
+    ...initialProductData.attributesAndSpecs,
+    categories: ['cat-audio', 'legacy-category'],
+    familyId: 'fam-headphones',
+    attributeValues: { battery_life: { value: 20, unit: 'h' }, care: { en: 'Wipe clean', no: 'Tørk av' } },
+  },
+  pricingAndStock: {
+    standardPrice: [
+      { id: 'campaign', currency: 'NOK', amount: 899, validFrom: '2026-11-01' },
+      { id: 'base', currency: 'NOK', amount: 999 },
+    ],
+  },
+  createdAt: '2026-01-01T00:00:00Z',
+  updatedAt: '2026-01-02T00:00:00Z',
+};
+
+describe('product-grid', () => {
+  it('offers columns per locale, currency and attribute', () => {
+    const keys = getGridColumns({ locales: ['en', 'no'], currencies: ['NOK'], families: [family] }).map(column => column.key);
+    expect(keys).toEqual([
+      'name:en', 'name:no', 'sku', 'gtin', 'brand', 'status', 'standardPrice:NOK', 'salePrice:NOK', 'categories',
+      'attribute:battery_life', 'attribute:color', 'attribute:care:en', 'attribute:care:no',
+    ]);
+    expect(parseGridColumnKey('standardPrice')).toBeNull();
+    expect(parseGridColumnKey('sku:en')).toBeNull();
+  });
+
+  it('shows cells as text', () => {
+    const text = (key: string) => getGridCellText(product, parseGridColumnKey(key)!, context);
+    expect(text('name:no')).toBe('Hodesett');
+    expect(text('standardPrice:NOK')).toBe('999'); // The price without a validity window
+    expect(text('salePrice:NOK')).toBe('');
+    expect(text('categories')).toBe('Audio; legacy-category');
+    expect(text('attribute:battery_life')).toBe('20 h');
+    expect(text('attribute:care:no')).toBe('Tørk av');
+  });
+
+  it('applies cell text and reports the fields that changed', () => {
+    const { product: updated, changes, errors } = applyGridValues(product, {
+      'name:no': 'Trådløst hodesett',
+      'brand': 'Acme',
+      'standardPrice:NOK': '1 049,50',
+      'salePrice:EUR': '79',
+      'categories': 'Lyd; sale; legacy-category',
+      'attribute:battery_life': '30',
+      'attribute:color': 'svart',
+      'attribute:care:en': 'Wipe with a dry cloth',
+    }, context);
+
+    expect(errors).toEqual([]);
+    expect(updated.basicInfo.name).toEqual({ en: 'Headset', no: 'Trådløst hodesett' });
+    expect(updated.pricingAndStock!.standardPrice).toEqual([
+      { id: 'campaign', currency: 'NOK', amount: 899, validFrom: '2026-11-01' },
+      { id: 'base', currency: 'NOK', amount: 1049.5 },
+    ]);
+    expect(updated.pricingAndStock!.salePrice).toEqual([{ id: expect.any(String), currency: 'EUR', amount: 79 }]);
+    expect(updated.attributesAndSpecs.categories).toEqual(['cat-audio', 'cat-sale', 'legacy-category']);
+    expect(updated.attributesAndSpecs.attributeValues).toMatchObject({
+      battery_life: { value: 30, unit: 'h' },
+      color: 'black',
+      care: { en: 'Wipe with a dry cloth', no: 'Tørk av' },
+    });
+    // The brand was unchanged
+    expect(changes.map(change => change.field)).toEqual([
+      'basicInfo.name.no',
+      'pricingAndStock.standardPrice.NOK',
+      'pricingAndStock.salePrice.EUR',
+      'attributesAndSpecs.categories',
+      'attributesAndSpecs.attributeValues.battery_life',
+      'attributesAndSpecs.attributeValues.color',
+      'attributesAndSpecs.attributeValues.care.en',
+    ]);
+    expect(changes[1]).toMatchObject({ oldValue: 999, newValue: 1049.5 });
+    // The original is left alone
+    expect(product.basicInfo.name.no).toBe('Hodesett');
+  });
+
+  it('reports an error per invalid cell', () => {
+    const { errors } = applyGridValues(product, {
+      'sku': ' ',
+      'gtin': '12345',
+      'status': 'archived',
+      'standardPrice:NOK': '-5',
+      'salePrice:NOK': 'free',
+      'categories': 'Audio; Toys',
+      'attribute:battery_life': '0.5',
+      'name:en': '',
+      'name:no': '',
+    }, context);
+
+    expect(errors).toEqual([
+      { column: 'sku', message: 'SKU is required' },
+      { column: 'gtin', message: 'GTIN must be numeric and 8, 12, 13 or 14 digits' },
+      { column: 'status', message: 'Status must be one of active, inactive, development, discontinued' },
+      { column: 'standardPrice:NOK', message: 'Price cannot be negative' },
+      { column: 'salePrice:NOK', message: 'Price must be a number' },
+      { column: 'categories', message: 'Unknown category "Toys"' },
+      { column: 'attribute:battery_life', message: 'Battery life must be at least 1 h' },
+      { message: 'Name is required in at least one language' },
+    ]);
+
+    const unassigned = { ...product, attributesAndSpecs: { ...product.attributesAndSpecs, familyId: undefined } };
+    expect(applyGridValues(unassigned, { 'attribute:color': 'Black' }, context).errors[0].message)
+      .toBe('Attribute "color" is not in the product\'s attribute family');
+  });
+
+  it('parses prices in common spreadsheet formats', () => {
+    expect(parsePriceText('1299')).toBe(1299);
+    expect(parsePriceText('1 299,50')).toBe(1299.5);
+    expect(parsePriceText('1,299.50')).toBe(1299.5);
+    expect(parsePriceText(' ')).toBeNull();
+    expect(parsePriceText('12 kr')).toBeNaN();
+  });
+});
+
+describe('product grid clipboard', () => {
+  it('round-trips spreadsheet cells, including quoted ones', () => {
+    const rows = [['HS-1', 'Acme'], ['HS-2', 'Line one\nline "two"']];
+    const text = formatClipboardText(rows);
+    expect(text).toBe('HS-1\tAcme\nHS-2\t"Line one\nline ""two"""');
+    expect(parseClipboardText(text)).toEqual(rows);
+    // As copied from Excel, with a trailing line break and empty cells
+    expect(parseClipboardText('a\t\tc\r\n\tb\t\r\n')).toEqual([['a', '', 'c'], ['', 'b', '']]);
+  });
+
+  it('repeats a block to fill a selection that is a multiple of its size', () => {
+    expect(tileGridBlock([['x']], 3, 2)).toEqual([['x', 'x'], ['x', 'x'], ['x', 'x']]);
+    expect(tileGridBlock([['a', 'b']], 2, 2)).toEqual([['a', 'b'], ['a', 'b']]);
+    expect(tileGridBlock([['a', 'b']], 2, 3)).toEqual([['a', 'b']]);
+  });
+});
+
+describe('productGridEditReducer', () => {
+  const edit = (productId: string, column: string, value: string, original = '') =>
+    ({ type: 'edit' as const, cells: [{ productId, column, value, original }] });
+
+  it('stages edits and undoes and redoes them a step at a time', () => {
+    let state = productGridEditReducer(initialProductGridEditState, edit('p1', 'brand', 'Acme'));
+    state = productGridEditReducer(state, {
+      type: 'edit',
+      cells: [
+        { productId: 'p1', column: 'brand', value: 'Globex', original: '' },
+        { productId: 'p2', column: 'brand', value: 'Globex', original: '' },
+      ],
+    });
+    expect(state.staged).toEqual({ p1: { brand: 'Globex' }, p2: { brand: 'Globex' } });
+
+    state = productGridEditReducer(state, { type: 'undo' });
+    expect(state.staged).toEqual({ p1: { brand: 'Acme' } });
+    state = productGridEditReducer(state, { type: 'undo' });
+    expect(state.staged).toEqual({});
+    state = productGridEditReducer(state, { type: 'redo' });
+    expect(state.staged).toEqual({ p1: { brand: 'Acme' } });
+
+    // A new edit clears what could be redone
+    state = productGridEditReducer(state, edit('p3', 'sku', 'X'));
+    expect(state.redo).toEqual([]);
+  });
+
+  it('unstages cells set back to their saved text and ignores no-op edits', () => {
+    let state = productGridEditReducer(initialProductGridEditState, edit('p1', 'brand', 'Globex', 'Acme'));
+    state = productGridEditReducer(state, edit('p1', 'brand', 'Acme', 'Acme'));
+    expect(state.staged).toEqual({});
+    expect(state.undo).toHaveLength(2);
+    expect(productGridEditReducer(state, edit('p1', 'brand', 'Acme', 'Acme'))).toBe(state);
+  });
+
+  it('drops saved rows and the history after saving', () => {
+    let state = productGridEditReducer(initialProductGridEditState, edit('p1', 'brand', 'Acme'));
+    state = productGridEditReducer(state, edit('p2', 'brand', 'Acme'));
+    state = productGridEditReducer(state, { type: 'saved', productIds: ['p1'] });
+    expect(state).toEqual({ staged: { p2: { brand: 'Acme' } }, undo: [], redo: [] });
+  });
+});
@@ -0,0 +1,181 @@
+jest.mock('../firebase-admin', () => ({ adminDb: {} }));
+
+import { ProductImportService } from '../product-import-service';
+import type { Product } from '@/types/product';
+import { initialProductData } from '@/types/product';
+import type { ProductImportProfile } from '@/types/product-import';
+import { UserRole, WorkflowState } from '@/types/workflow';
+
+class InMemoryProductService {
+  items = new Map<string, Product>();
+
+  async getAllProducts() { return Array.from(this.items.values()); }
+  createProduct = jest.fn(async (product: Product) => { this.items.set(product.id, product); });
+  updateProduct = jest.fn(async (id: string, product: Product) => { this.items.set(id, product); });
+}
+
+class InMemoryProfileRepository {
+  items = new Map<string, ProductImportProfile>();
+
+  async save(profile: ProductImportProfile) { this.items.set(profile.id, profile); }
+  async getById(id: string) { return this.items.get(id) || null; }
+  async getAll() { return Array.from(this.items.values()); }
+  async delete(id: string) { this.items.delete(id); }
+}
+
+const createProduct = (id: string, sku: string): Product => ({
+  ...initialProductData,
+  id,
+  basicInfo: { ...initialProductData.basicInfo, name: { en: `Product ${id}`, no: '' }, sku, brand: 'Acme' },
+  createdAt: '2026-01-01T00:00:00Z',
+  updatedAt: '2026-01-02T00:00:00Z',
+});
+
+describe('ProductImportService', () => {
+  let products: InMemoryProductService;
+  let profiles: InMemoryProfileRepository;
+  let audit: { createProductAuditEntry: jest.Mock; createProductUpdateAuditEntry: jest.Mock; createImportAuditEntry: jest.Mock };
+  let service: ProductImportService;
+  const editor = { userId: 'u1', userName: 'Eddie Editor', userRole: UserRole.EDITOR, email: 'eddie@example.com' };
+  const admin = { userId: 'u2', userName: 'Ada Admin', userRole: UserRole.ADMIN };
+  const otherEditor = { userId: 'u3', userName: 'Olga', userRole: UserRole.EDITOR };
+
+  beforeEach(() => {
+    products = new InMemoryProductService();
+    products.items.set('p1', createProduct('p1', 'HS-1'));
+    profiles = new InMemoryProfileRepository();
+    const categories = { listCategories: async () => [] };
+    const families = { listFamilies: async () => [] };
+    audit = { createProductAuditEntry: jest.fn(), createProductUpdateAuditEntry: jest.fn(), createImportAuditEntry: jest.fn() };
+    service = new ProductImportService(products as any, categories as any, families as any, profiles as any, audit as any);
+  });
+
+  describe('profiles', () => {
+    it('saves profiles with unique names', async () => {
+      const created = await service.createProfile({ name: ' Supplier A ', mapping: { 'Item no': 'sku' }, matchBy: 'sku', mergeStrategy: 'fill-empty' }, editor);
+      expect(created.data).toMatchObject({
+        name: 'Supplier A',
+        mergeStrategy: 'fill-empty',
+        createdBy: { userId: 'u1', userName: 'Eddie Editor' },
+      });
+
+      const duplicate = await service.createProfile({ name: 'supplier a', mapping: {}, matchBy: 'gtin', mergeStrategy: 'overwrite' }, admin);
+      expect(duplicate).toMatchObject({ success: false, code: 'NAME_EXISTS' });
+    });
+
+    it('lets only the creator or an admin change or delete a profile', async () => {
+      const { data } = await service.createProfile({ name: 'Supplier A', mapping: { 'Item no': 'sku' }, matchBy: 'sku', mergeStrategy: 'overwrite' }, editor);
+
+      expect(await service.updateProfile(data!.id, { matchBy: 'gtin' }, otherEditor)).toMatchObject({ code: 'FORBIDDEN' });
+      expect((await service.updateProfile(data!.id, { matchBy: 'gtin' }, admin)).data!.matchBy).toBe('gtin');
+      expect(await service.deleteProfile(data!.id, otherEditor)).toMatchObject({ code: 'FORBIDDEN' });
+      expect(await service.deleteProfile(data!.id, editor)).toEqual({ success: true });
+      expect(await service.deleteProfile(data!.id, editor)).toMatchObject({ code: 'NOT_FOUND' });
+    });
+  });
+
+  it('previews an import without saving', async () => {
+    const result = await service.preview({
+      records: [
+        { rowNumber: 2, values: { sku: 'HS-1', brand: 'Globex' } },
+        { rowNumber: 3, values: { sku: 'HS-2', 'name:en': 'Speaker' } },
+      ],
+      matchBy: 'sku',
+      mergeStrategy: 'overwrite',
+    });
+
+    expect(result.summary).toEqual({ create: 1, update: 1, unchanged: 0, skipped: 0, error: 0 });
+    expect(result.rows[0]).not.toHaveProperty('product');
+    expect(products.createProduct).not.toHaveBeenCalled();
+    expect(products.updateProduct).not.toHaveBeenCalled();
+  });
+
+  it('creates and updates products and audits each', async () => {
+    const result = await service.importRows({
+      records: [
+        { rowNumber: 2, values: { sku: 'HS-1', brand: 'Globex' } },
+        { rowNumber: 3, values: { sku: 'HS-2', 'name:en': 'Speaker' } },
+        { rowNumber: 4, values: { sku: 'HS-3' } },
+      ],
+      matchBy: 'sku',
+      mergeStrategy: 'overwrite',
+    }, editor, 'acme');
+
+    expect(result.summary).toEqual({ create: 1, update: 1, unchanged: 0, skipped: 0, error: 1 });
+    expect(products.items.get('p1')!.basicInfo.brand).toBe('Globex');
+    expect(products.updateProduct).toHaveBeenCalledWith('p1', expect.anything(), {
+      userId: 'u1', userName: 'Eddie Editor', reason: 'File import', tenantId: 'acme',
+    });
+
+    const created = products.items.get(result.rows[1].productId!)!;
+    expect(created).toMatchObject({ basicInfo: { sku: 'HS-2', name: { en: 'Speaker' } }, workflowState: WorkflowState.DRAFT });
+    expect(created.workflowHistory).toEqual([expect.objectContaining({ action: 'CREATE', userId: 'u1', reason: 'File import' })]);
+
+    expect(audit.createProductUpdateAuditEntry).toHaveBeenCalledWith(
+      'u1', UserRole.EDITOR, 'eddie@example.com', 'p1',
+      { 'basicInfo.brand': 'Acme' }, { 'basicInfo.brand': 'Globex' },
+      'File import', { source: 'import', userName: 'Eddie Editor', column: 'brand', rowNumber: 2 }
+    );
+    expect(audit.createProductAuditEntry).toHaveBeenCalledWith(
+      'u1', UserRole.EDITOR, 'eddie@example.com', created.id, created,
+      { source: 'import', userName: 'Eddie Editor', rowNumber: 3 }
+    );
+    expect(audit.createImportAuditEntry).toHaveBeenCalledWith(
+      'u1', UserRole.EDITOR, 'eddie@example.com', 'file', 3,
+      [
+        { productId: 'p1', success: true, error: undefined },
+        { productId: created.id, success: true, error: undefined },
+        { productId: 'row 4', success: false, error: 'Name is required in at least one language' },
+      ],
+      'File import', { userName: 'Eddie Editor', matchBy: 'sku', mergeStrategy: 'overwrite' }
+    );
+  });
+
+  it('upserts product objects and skips existing ones when asked', async () => {
+    const incoming = (id: string, sku: string): Product => ({
+      ...createProduct(id, sku),
+      basicInfo: { ...createProduct(id, sku).basicInfo, brand: 'Globex' },
+    });
+
+    const skipped = await service.importRows({
+      products: [incoming('x1', 'HS-1'), incoming('x2', 'HS-2')],
+      matchBy: 'sku',
+      mergeStrategy: 'skip-existing',
+    }, editor, 'acme');
+    expect(skipped.rows.map(row => [row.rowNumber, row.action, row.productId])).toEqual([[1, 'skipped', 'p1'], [2, 'create', 'x2']]);
+    expect(products.items.get('p1')!.basicInfo.brand).toBe('Acme');
+    expect(products.items.get('x2')!.workflowState).toBe(WorkflowState.DRAFT);
+
+    const updated = await service.importRows({
+      products: [incoming('x1', 'HS-1'), incoming('x2', 'HS-2')],
+      matchBy: 'sku',
+      mergeStrategy: 'overwrite',
+    }, editor, 'acme');
+    expect(updated.summary).toEqual({ create: 0, update: 1, unchanged: 1, skipped: 0, error: 0 });
+    expect(products.items.get('p1')!.basicInfo.brand).toBe('Globex');
+    expect(audit.createImportAuditEntry).toHaveBeenLastCalledWith(
+      'u1', UserRole.EDITOR, 'eddie@example.com', 'products', 1,
+      [{ productId: 'p1', success: true, error: undefined }],
+      'File import', { userName: 'Eddie Editor', matchBy: 'sku', mergeStrategy: 'overwrite' }
+    );
+  });
+
+  it('reports rows that fail to save without stopping the import', async () => {
+    products.updateProduct.mockRejectedValueOnce(new Error('Firestore unavailable'));
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const result = await service.importRows({
+      records: [
+        { rowNumber: 2, values: { sku: 'HS-1', brand: 'Globex' } },
+        { rowNumber: 3, values: { sku: 'HS-2', 'name:en': 'Speaker' } },
+      ],
+      matchBy: 'sku',
+      mergeStrategy: 'overwrite',
+    }, editor, 'acme');
+
+    expect(result.rows.map(row => [row.action, row.errors])).toEqual([
+      ['error', [{ message: 'Failed to save the row' }]],
+      ['create', []],
+    ]);
+  });
+});
@@ -0,0 +1,276 @@
+import {
+  applyImportValues,
+  buildImportRecords,
+  formatImportReportCSV,
+  getImportTargets,
+  isImportTargetKey,
+  mergeImportedProduct,
+  parseImportCSV,
+  planProductImport,
+  planProductObjectImport,
+  sheetToImportTable,
+  suggestImportMapping,
+  summarizeImportRows,
+} from '../product-import';
+import type { ProductGridContext } from '../product-grid';
+import type { AttributeFamily } from '@/types/attribute';
+import type { Product } from '@/types/product';
+import type { ProductImportRecord } from '@/types/product-import';
+import { initialProductData } from '@/types/product';
+
+const family: AttributeFamily = {
+  id: 'fam-headphones',
+  code: 'headphones',
+  name: { en: 'Headphones', no: 'Hodetelefoner' },
+  attributes: [
+    { code: 'battery_life', label: { en: 'Battery life', no: 'Batteritid' }, type: 'number', required: false, unit: 'h' },
+    { code: 'care', label: { en: 'Care', no: 'Vedlikehold' }, type: 'multilingual', required: false },
+  ],
+  createdAt: '2026-01-01T00:00:00Z',
+  updatedAt: '2026-01-01T00:00:00Z',
+};
+
+const context: ProductGridContext = {
+  categories: [{ id: 'cat-audio', parentId: null, name: { en: 'Audio', no: 'Lyd' }, slug: 'audio', order: 0, createdAt: '', updatedAt: '' }],
+  families: [family],
+};
+
+const createProduct = (id: string, sku: string, gtin?: string): Product => ({
+  ...initialProductData,
+  id,
+  basicInfo: { ...initialProductData.basicInfo, name: { en: `Product ${id}`, no: '' }, sku, gtin, brand: 'Acme' },
+  createdAt: '2026-01-01T00:00:00Z',
+  updatedAt: '2026-01-02T00:00:00Z',
+});
+
+describe('product-import files', () => {
+  it('reads CSV with the delimiter the header row uses', () => {
+    expect(parseImportCSV('\uFEFFSKU;Name;Price\r\nHS-1;"Headset; wireless";1 299,50\r\n;;\r\n')).toEqual({
+      headers: ['SKU', 'Name', 'Price'],
+      rows: [['HS-1', 'Headset; wireless', '1 299,50']],
+    });
+    expect(parseImportCSV('sku,name\nHS-1,"Two\nlines"\nHS-2').rows).toEqual([['HS-1', 'Two\nlines'], ['HS-2', '']]);
+  });
+
+  it('names blank and repeated headers', () => {
+    expect(parseImportCSV('SKU,,Price,price\n1,2,3,4').headers).toEqual(['SKU', 'Column 2', 'Price', 'price (2)']);
+  });
+
+  it('turns spreadsheet cells into text', () => {
+    const table = sheetToImportTable([
+      ['SKU', 'Price', 'Launch', 'Active'],
+      ['HS-1', 1299.5, new Date('2026-03-01T00:00:00Z'), true],
+      ['HS-2', null, null, false],
+    ]);
+    expect(table.rows).toEqual([['HS-1', '1299.5', '2026-03-01', 'true'], ['HS-2', '', '', 'false']]);
+  });
+});
+
+describe('product-import mapping', () => {
+  const targets = getImportTargets({ locales: ['en', 'no'], currencies: ['NOK', 'EUR'], families: [family] });
+
+  it('offers the grid fields, descriptions and the attribute family', () => {
+    const keys = targets.map(target => target.key);
+    expect(keys).toEqual(expect.arrayContaining([
+      'name:no', 'sku', 'standardPrice:EUR', 'attribute:care:no', 'family', 'descriptionShort:en', 'descriptionLong:no',
+    ]));
+    expect(targets.find(target => target.key === 'attribute:battery_life')!.group).toBe('Attributes');
+    expect(isImportTargetKey('descriptionLong:no')).toBe(true);
+    expect(isImportTargetKey('weight')).toBe(false);
+  });
+
+  it('suggests targets from headers', () => {
+    expect(suggestImportMapping(
+      ['Item number', 'EAN', 'name_no', 'Name', 'Price', 'Price (EUR)', 'Description_Short_EN', 'Notes', 'ean'],
+      targets
+    )).toEqual({
+      'Item number': 'sku',
+      'EAN': 'gtin',
+      'name_no': 'name:no',
+      'Name': 'name:en',
+      'Price': 'standardPrice:NOK',
+      'Price (EUR)': 'standardPrice:EUR',
+      'Description_Short_EN': 'descriptionShort:en',
+    });
+  });
+
+  it('builds records from mapped, non-empty cells', () => {
+    const table = { headers: ['SKU', 'Name', 'Notes'], rows: [['HS-1', ' Headset ', 'x'], ['', '', 'y'], ['HS-2', '', '']] };
+    expect(buildImportRecords(table, { SKU: 'sku', Name: 'name:en' })).toEqual([
+      { rowNumber: 2, values: { sku: 'HS-1', 'name:en': 'Headset' } },
+      { rowNumber: 4, values: { sku: 'HS-2' } },
+    ]);
+  });
+});
+
+describe('applyImportValues', () => {
+  it('sets the family before the attributes of the same row', () => {
+    const product = createProduct('p1', 'HS-1');
+    const { product: updated, changes, errors } = applyImportValues(product, {
+      'family': 'HEADPHONES',
+      'attribute:battery_life': '20',
+      'descriptionShort:no': 'Trådløst',
+    }, context);
+
+    expect(errors).toEqual([]);
+    expect(updated.attributesAndSpecs.familyId).toBe('fam-headphones');
+    expect(updated.attributesAndSpecs.attributeValues).toEqual({ battery_life: { value: 20, unit: 'h' } });
+    expect(updated.basicInfo.descriptionShort).toEqual({ en: '', no: 'Trådløst' });
+    expect(changes.map(change => change.field)).toEqual([
+      'attributesAndSpecs.familyId',
+      'basicInfo.descriptionShort.no',
+      'attributesAndSpecs.attributeValues.battery_life',
+    ]);
+    expect(product.attributesAndSpecs.familyId).toBeUndefined();
+  });
+
+  it('reports unknown families and invalid cells', () => {
+    const { errors } = applyImportValues(createProduct('p1', 'HS-1'), { family: 'toys', gtin: '123' }, context);
+    expect(errors).toEqual([
+      { column: 'family', message: 'Unknown attribute family "toys"' },
+      { column: 'gtin', message: 'GTIN must be numeric and 8, 12, 13 or 14 digits' },
+    ]);
+  });
+});
+
+describe('planProductImport', () => {
+  const existing = [createProduct('p1', 'HS-1', '7012345678900'), createProduct('p2', 'HS-2')];
+
+  it('plans creates, updates and unchanged rows by SKU', () => {
+    const rows = planProductImport([
+      { rowNumber: 2, values: { sku: 'HS-1', brand: 'Globex' } },
+      { rowNumber: 3, values: { sku: 'HS-2', brand: 'Acme' } },
+      { rowNumber: 4, values: { sku: 'HS-3', 'name:en': 'Speaker', 'standardPrice:NOK': '499' } },
+    ], existing, context, { matchBy: 'sku', mergeStrategy: 'overwrite' });
+
+    expect(rows.map(row => [row.rowNumber, row.action, row.productId])).toEqual([
+      [2, 'update', 'p1'],
+      [3, 'unchanged', 'p2'],
+      [4, 'create', expect.stringMatching(/^product_/)],
+    ]);
+    expect(rows[0].changes).toEqual([{ column: 'brand', field: 'basicInfo.brand', oldValue: 'Acme', newValue: 'Globex' }]);
+    expect(rows[0].product!.basicInfo.brand).toBe('Globex');
+    expect(rows[1].product).toBeUndefined();
+    expect(rows[2].product!.pricingAndStock!.standardPrice).toEqual([{ id: expect.any(String), currency: 'NOK', amount: 499 }]);
+    expect(rows[2].product!.basicInfo.status).toBe('development');
+    expect(summarizeImportRows(rows)).toEqual({ create: 1, update: 1, unchanged: 1, skipped: 0, error: 0 });
+  });
+
+  it('matches by GTIN and keeps SKUs unique', () => {
+    const rows = planProductImport([
+      { rowNumber: 2, values: { gtin: '7012345678900', sku: 'HS-1-NEW' } },
+      { rowNumber: 3, values: { gtin: '7012345678917', sku: 'HS-2', 'name:en': 'Clash' } },
+    ], existing, context, { matchBy: 'gtin', mergeStrategy: 'overwrite' });
+
+    expect(rows[0]).toMatchObject({ action: 'update', productId: 'p1', sku: 'HS-1-NEW' });
+    expect(rows[1]).toMatchObject({
+      action: 'error',
+      errors: [{ column: 'sku', message: 'SKU "HS-2" is already used by another product' }],
+    });
+  });
+
+  it('reports rows without a key, repeated keys and incomplete new products', () => {
+    const rows = planProductImport([
+      { rowNumber: 2, values: { 'name:en': 'No SKU' } },
+      { rowNumber: 3, values: { sku: 'HS-9', brand: 'Globex' } },
+      { rowNumber: 4, values: { sku: 'HS-9', 'name:en': 'Again' } },
+      { rowNumber: 5, values: { sku: 'HS-1', status: 'archived' } },
+    ], existing, context, { matchBy: 'sku', mergeStrategy: 'overwrite' });
+
+    expect(rows.map(row => row.errors)).toEqual([
+      [{ column: 'sku', message: 'SKU is required to match products' }],
+      [{ message: 'Name is required in at least one language' }],
+      [{ column: 'sku', message: 'SKU "HS-9" is also on row 3' }],
+      [{ column: 'status', message: 'Status must be one of active, inactive, development, discontinued' }],
+    ]);
+    expect(rows[3]).toMatchObject({ action: 'error', productId: 'p1', name: 'Product p1' });
+  });
+
+  it('only fills empty fields or skips existing products when asked', () => {
+    const records: ProductImportRecord[] = [
+      { rowNumber: 2, values: { sku: 'HS-1', brand: 'Globex', gtin: '7012345678917', 'name:no': 'Hodesett' } },
+      { rowNumber: 3, values: { sku: 'HS-3', 'name:en': 'Speaker' } },
+    ];
+
+    const filled = planProductImport(records, existing, context, { matchBy: 'sku', mergeStrategy: 'fill-empty' });
+    expect(filled[0].changes.map(change => change.field)).toEqual(['basicInfo.name.no']);
+    expect(filled[0].product!.basicInfo).toMatchObject({ brand: 'Acme', gtin: '7012345678900', name: { no: 'Hodesett' } });
+    expect(filled[1].action).toBe('create');
+
+    const skipped = planProductImport(records, existing, context, { matchBy: 'sku', mergeStrategy: 'skip-existing' });
+    expect(skipped.map(row => [row.action, row.productId])).toEqual([['skipped', 'p1'], ['create', expect.any(String)]]);
+    expect(skipped[0].product).toBeUndefined();
+  });
+
+  it('matches by product ID and creates products with that ID', () => {
+    const rows = planProductImport([
+      { rowNumber: 2, values: { id: 'p2', brand: 'Globex' } },
+      { rowNumber: 3, values: { id: 'p9', sku: 'HS-9', 'name:en': 'New' } },
+      { rowNumber: 4, values: { id: 'a/b', sku: 'HS-10', 'name:en': 'Slash' } },
+    ], existing, context, { matchBy: 'id', mergeStrategy: 'overwrite' });
+
+    expect(rows.map(row => [row.action, row.productId])).toEqual([['update', 'p2'], ['create', 'p9'], ['error', undefined]]);
+    expect(rows[2].errors).toEqual([{ column: 'id', message: 'Product ID cannot contain "/"' }]);
+  });
+});
+
+describe('product object imports', () => {
+  const existing = [createProduct('p1', 'HS-1', '7012345678900')];
+
+  it('merges nested fields and keeps identity and workflow', () => {
+    const stored = { ...existing[0], workflowState: 'approved' as Product['workflowState'] };
+    const merged = mergeImportedProduct(stored, {
+      id: 'other',
+      workflowState: 'draft' as Product['workflowState'],
+      createdAt: '2030-01-01T00:00:00Z',
+      basicInfo: { name: { en: '', no: 'Hodesett' }, brand: 'Globex' } as Product['basicInfo'],
+    }, 'overwrite');
+
+    expect(merged).toMatchObject({ id: 'p1', workflowState: 'approved', createdAt: '2026-01-01T00:00:00Z' });
+    expect(merged.basicInfo).toMatchObject({ sku: 'HS-1', brand: 'Globex', name: { en: '', no: 'Hodesett' } });
+
+    const filled = mergeImportedProduct(stored, { basicInfo: { name: { en: 'Other', no: 'Hodesett' }, brand: 'Globex' } as Product['basicInfo'] }, 'fill-empty');
+    expect(filled.basicInfo).toMatchObject({ brand: 'Acme', name: { en: 'Product p1', no: 'Hodesett' } });
+  });
+
+  it('plans upserts of product objects', () => {
+    const incoming = (id: string | undefined, sku: string, brand: string) => ({
+      ...createProduct(id || '', sku),
+      id,
+      basicInfo: { ...createProduct('', sku).basicInfo, name: { en: `Imported ${sku}`, no: '' }, brand },
+    });
+    const rows = planProductObjectImport(
+      [incoming('ignored', 'HS-1', 'Globex'), incoming('keep-me', 'HS-2', 'Acme'), incoming('p1', 'HS-3', 'Acme')],
+      existing,
+      { matchBy: 'sku', mergeStrategy: 'overwrite' }
+    );
+
+    expect(rows.map(row => [row.rowNumber, row.action, row.productId])).toEqual([
+      [1, 'update', 'p1'],
+      [2, 'create', 'keep-me'],
+      [3, 'create', expect.stringMatching(/^product_/)],
+    ]);
+    expect(rows[0].changes).toEqual([
+      { column: 'basicInfo.brand', field: 'basicInfo.brand', oldValue: 'Acme', newValue: 'Globex' },
+      { column: 'basicInfo.name.en', field: 'basicInfo.name.en', oldValue: 'Product p1', newValue: 'Imported HS-1' },
+    ]);
+    expect(rows[1].changes).toEqual([]);
+    expect(rows[1].product!.workflowState).toBe('draft');
+  });
+});
+
+describe('formatImportReportCSV', () => {
+  it('lists each row with its changes and errors', () => {
+    expect(formatImportReportCSV([
+      {
+        rowNumber: 2, action: 'update', productId: 'p1', sku: 'HS-1', name: 'Headset, wireless',
+        changes: [{ column: 'brand', field: 'basicInfo.brand', oldValue: '', newValue: 'Globex' }], errors: [],
+      },
+      { rowNumber: 3, action: 'error', changes: [], errors: [{ column: 'sku', message: 'SKU is required to match products' }] },
+    ])).toBe([
+      'Row,Result,Product ID,SKU,Name,Changes,Errors',
+      '2,update,p1,HS-1,"Headset, wireless",basicInfo.brand: (empty) -> Globex,',
+      '3,error,,,,,sku: SKU is required to match products',
+    ].join('\n'));
+  });
+});
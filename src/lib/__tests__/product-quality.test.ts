@@ -9,6 +9,7 @@ import {
   getQualityColor 
 } from '../product-quality';
 import type { Product, ProductStatus } from '@/types/product';
+import type { AttributeFamily } from '@/types/attribute';
 
 // Test data factories
 const createMockProduct = (overrides: Partial<Product> = {}): Product => ({
@@ -406,3 +407,61 @@ describe('Quality Rules and Configuration', () => {
     expect(metrics.completenessScore).toBeGreaterThanOrEqual(0);
   });
 });
+
+describe('Attribute family scoring', () => {
+  const family: AttributeFamily = {
+    id: 'fam-headphones',
+    code: 'headphones',
+    name: { en: 'Headphones', no: 'Hodetelefoner' },
+    attributes: [
+      { code: 'battery_life', label: { en: 'Battery life', no: '' }, type: 'number', unit: 'h', required: true, weight: 20, constraints: { min: 0, max: 200 } },
+      { code: 'wireless', label: { en: 'Wireless', no: '' }, type: 'boolean', required: true },
+      { code: 'color', label: { en: 'Color', no: '' }, type: 'text', required: false },
+    ],
+    createdAt: '2023-01-01T00:00:00.000Z',
+    updatedAt: '2023-01-01T00:00:00.000Z',
+  };
+
+  const withAttributes = (attributeValues: Record<string, any>) => createMockProduct({
+    attributesAndSpecs: {
+      categories: [],
+      properties: [],
+      technicalSpecs: [],
+      familyId: family.id,
+      attributeValues,
+    },
+  });
+
+  it('scores critical fields together with the required family attributes', () => {
+    const complete = withAttributes({ battery_life: { value: 30, unit: 'h' }, wireless: true });
+    expect(calculateCompletenessScore(complete, undefined, family)).toBe(100);
+
+    // Critical fields (40) + wireless (10) out of 40 + 20 + 10
+    const partial = withAttributes({ wireless: false });
+    expect(calculateCompletenessScore(partial, undefined, family)).toBe(71);
+  });
+
+  it('ignores the generic important and optional fields for family products', () => {
+    const product = withAttributes({ battery_life: 30, wireless: true });
+    product.basicInfo.descriptionLong = { en: '', no: '' };
+    product.media.images = [];
+
+    expect(calculateCompletenessScore(product)).toBeLessThan(100);
+    expect(calculateCompletenessScore(product, undefined, family)).toBe(100);
+  });
+
+  it('reports missing required attributes and constraint violations', () => {
+    const product = withAttributes({ battery_life: { value: 500, unit: 'h' } });
+    const metrics = calculateQualityMetrics(product, family);
+
+    expect(metrics.missingFields).toEqual(['attributes.wireless']);
+    expect(metrics.validationErrors).toEqual([
+      expect.objectContaining({ type: 'invalid-attribute', severity: 'warning' }),
+    ]);
+  });
+
+  it('keeps the default scoring when no family is given', () => {
+    const product = createMockProduct();
+    expect(calculateQualityMetrics(product).completenessScore).toBe(calculateCompletenessScore(product));
+  });
+});
@@ -0,0 +1,114 @@
+import { getEditDistance, ProductSearchIndex, SEARCH_INDEX_MAX_AGE_MS, tokenizeSearchText } from '../product-search';
+import type { Product } from '@/types/product';
+import { WorkflowState } from '@/types/workflow';
+
+const createProduct = (id: string, overrides: Partial<Product['basicInfo']> = {}, extra: Partial<Product> = {}): Product => ({
+  id,
+  basicInfo: {
+    name: { en: id, no: id },
+    sku: id.toUpperCase(),
+    descriptionShort: { en: '', no: '' },
+    descriptionLong: { en: '', no: '' },
+    brand: 'Acme',
+    status: 'active',
+    ...overrides,
+  },
+  attributesAndSpecs: { categories: [], properties: [], technicalSpecs: [] },
+  media: { images: [] },
+  marketingSEO: { seoTitle: { en: '', no: '' }, seoDescription: { en: '', no: '' }, keywords: [] },
+  workflowState: WorkflowState.DRAFT,
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z',
+  ...extra,
+});
+
+const jacket = createProduct('jacket', {
+  name: { en: 'Winter jacket', no: 'Vinterjakke', sv: 'Vinterjacka' },
+  sku: 'JKT-100',
+  gtin: '7070000000017',
+  descriptionLong: { en: 'Warm down jacket for cold days', no: 'Varm dunjakke' },
+});
+const gloves = createProduct('gloves', {
+  name: { en: 'Wool gloves', no: 'Ullvotter' },
+  sku: 'GLV-200',
+  descriptionShort: { en: 'Keeps hands warm next to your jacket', no: '' },
+}, {
+  attributesAndSpecs: { categories: [], properties: [{ id: 'p1', key: 'Material', value: 'Merino wool' }], technicalSpecs: [] },
+  marketingSEO: { seoTitle: { en: '', no: '' }, seoDescription: { en: '', no: '' }, keywords: ['skiing', 'blå'] },
+});
+const boots = createProduct('boots', { name: { en: 'Hiking boots', no: 'Fjellsko' }, sku: 'BT-300' }, { workflowState: WorkflowState.PUBLISHED });
+
+const buildIndex = () => {
+  const index = new ProductSearchIndex();
+  index.rebuild([jacket, gloves, boots]);
+  return index;
+};
+const ids = (index: ProductSearchIndex, query: string) => index.search(query).map(hit => hit.product.id);
+
+describe('tokenizeSearchText', () => {
+  it('lowercases, folds accents and Norwegian letters and splits on punctuation', () => {
+    expect(tokenizeSearchText('Blå Ærme-Sko, Øl!')).toEqual(['bla', 'aerme', 'sko', 'ol']);
+  });
+});
+
+describe('getEditDistance', () => {
+  it('counts a swap of neighbouring letters as one edit', () => {
+    expect(getEditDistance('jakcet', 'jacket', 2)).toBe(1);
+    expect(getEditDistance('jaket', 'jacket', 2)).toBe(1);
+    expect(getEditDistance('boots', 'gloves', 1)).toBe(2);
+  });
+});
+
+describe('ProductSearchIndex', () => {
+  it('matches names, descriptions, properties and keywords in every locale', () => {
+    const index = buildIndex();
+    expect(ids(index, 'vinterjacka')).toEqual(['jacket']);
+    expect(ids(index, 'dunjakke')).toEqual(['jacket']);
+    expect(ids(index, 'merino')).toEqual(['gloves']);
+    expect(ids(index, 'skiing')).toEqual(['gloves']);
+    expect(ids(index, 'bla')).toEqual(['gloves']);
+  });
+
+  it('matches prefixes and typos', () => {
+    const index = buildIndex();
+    expect(ids(index, 'hik')).toEqual(['boots']);
+    expect(ids(index, 'wintr')).toEqual(['jacket']);
+    expect(ids(index, 'glvoes')).toEqual(['gloves']);
+  });
+
+  it('requires every term to match', () => {
+    const index = buildIndex();
+    expect(ids(index, 'warm jacket')).toEqual(['jacket', 'gloves']);
+    expect(ids(index, 'warm boots')).toEqual([]);
+  });
+
+  it('ranks name matches above description matches and identifiers first', () => {
+    const index = buildIndex();
+    expect(ids(index, 'jacket')).toEqual(['jacket', 'gloves']);
+    expect(ids(index, 'jkt100')).toEqual(['jacket']);
+    expect(ids(index, '7070000000017')).toEqual(['jacket']);
+    expect(index.search('JKT-100')[0].score).toBeGreaterThan(100);
+  });
+
+  it('stays in sync with product changes and applies filters', () => {
+    const index = buildIndex();
+    index.upsert({ ...boots, basicInfo: { ...boots.basicInfo, name: { en: 'Winter boots', no: 'Vintersko' } } });
+    expect(ids(index, 'winter')).toEqual(['jacket', 'boots']);
+    expect(ids(index, 'hiking')).toEqual([]);
+
+    expect(index.search('winter', product => product.workflowState === WorkflowState.PUBLISHED).map(hit => hit.product.id)).toEqual(['boots']);
+
+    index.remove('jacket');
+    expect(ids(index, 'winter')).toEqual(['boots']);
+    expect(index.size).toBe(2);
+    expect(index.getProducts().map(product => product.id).sort()).toEqual(['boots', 'gloves']);
+  });
+
+  it('goes stale after the maximum age', () => {
+    const index = new ProductSearchIndex();
+    expect(index.isFresh()).toBe(false);
+    index.rebuild([], 1000);
+    expect(index.isFresh(1000 + SEARCH_INDEX_MAX_AGE_MS - 1)).toBe(true);
+    expect(index.isFresh(1000 + SEARCH_INDEX_MAX_AGE_MS)).toBe(false);
+  });
+});
@@ -0,0 +1,159 @@
+jest.mock('../firebase-admin', () => ({ adminDb: {} }));
+
+import { ProductService } from '../product-service';
+import { ProductVersionService } from '../product-version-service';
+import { diffProductSnapshots } from '../product-version-diff';
+import type { Product } from '@/types/product';
+import type { ProductVersion } from '@/types/product-version';
+import { WorkflowState, UserRole } from '@/types/workflow';
+
+const clone = <T,>(value: T): T => JSON.parse(JSON.stringify(value));
+
+class InMemoryProductRepository {
+  items = new Map<string, any>();
+
+  async save(product: any) { this.items.set(product.id, clone(product)); }
+  async getById(id: string) { return this.items.has(id) ? clone(this.items.get(id)) : null; }
+}
+
+class InMemoryProductVersionRepository {
+  items = new Map<string, ProductVersion>();
+
+  async create(version: ProductVersion) {
+    if (this.items.has(version.id)) throw new Error('ALREADY_EXISTS');
+    this.items.set(version.id, clone(version));
+  }
+  async getVersion(productId: string, version: number) { return this.items.get(`${productId}_v${version}`) || null; }
+  async getByProduct(productId: string) {
+    return Array.from(this.items.values())
+      .filter(v => v.productId === productId)
+      .sort((a, b) => b.version - a.version);
+  }
+  async getLatest(productId: string) { return (await this.getByProduct(productId))[0] || null; }
+}
+
+function makeProduct(): Product {
+  return {
+    id: 'prod-1',
+    basicInfo: {
+      name: { en: 'Trail Shoe', no: 'Tursko' },
+      sku: 'TS-001',
+      descriptionShort: { en: 'Light shoe', no: 'Lett sko' },
+      descriptionLong: { en: '', no: '' },
+      brand: 'Acme',
+      status: 'active',
+    },
+    attributesAndSpecs: { categories: ['shoes'], properties: [], technicalSpecs: [] },
+    media: { images: [] },
+    marketingSEO: { seoTitle: { en: '', no: '' }, seoDescription: { en: '', no: '' }, keywords: [] },
+    pricingAndStock: { standardPrice: [] },
+    workflowState: WorkflowState.DRAFT,
+    workflowHistory: [],
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+  };
+}
+
+describe('Product versioning', () => {
+  let productRepo: InMemoryProductRepository;
+  let versionRepo: InMemoryProductVersionRepository;
+  let products: ProductService;
+  let service: ProductVersionService;
+
+  beforeEach(async () => {
+    productRepo = new InMemoryProductRepository();
+    versionRepo = new InMemoryProductVersionRepository();
+    products = new ProductService(productRepo as any, versionRepo as any);
+    service = new ProductVersionService(versionRepo as any, products);
+
+    await products.createProduct(makeProduct(), { userId: 'user-1', userName: 'Editor' });
+  });
+
+  it('records a version on create and on every update', async () => {
+    const existing = (await products.getProductById('prod-1'))!;
+    await products.updateProduct('prod-1', {
+      basicInfo: { ...existing.basicInfo, brand: 'Globex' },
+    }, { userId: 'user-2', reason: 'Rebrand' });
+
+    const versions = await service.listVersions('prod-1');
+    expect(versions.map(v => v.version)).toEqual([2, 1]);
+    expect(versions[1].reason).toBe('Product created');
+    expect(versions[1].createdBy).toEqual({ userId: 'user-1', userName: 'Editor' });
+    expect(versions[0].changedFields).toEqual(['basicInfo.brand']);
+    expect(versions[0].reason).toBe('Rebrand');
+    expect((versions[0] as any).snapshot).toBeUndefined();
+  });
+
+  it('diffs two versions field by field', async () => {
+    const existing = (await products.getProductById('prod-1'))!;
+    await products.updateProduct('prod-1', {
+      basicInfo: { ...existing.basicInfo, name: { en: 'Trail Runner', no: 'Tursko' } },
+      marketingSEO: { ...existing.marketingSEO, keywords: ['running'] },
+    });
+
+    const result = await service.diffVersions('prod-1', 1);
+    expect(result.success).toBe(true);
+    expect(result.data!.toVersion).toBe(2);
+    expect(result.data!.changes).toEqual(expect.arrayContaining([
+      { field: 'basicInfo.name.en', type: 'modified', oldValue: 'Trail Shoe', newValue: 'Trail Runner' },
+      { field: 'marketingSEO.keywords', type: 'modified', oldValue: [], newValue: ['running'] },
+    ]));
+    expect((await service.diffVersions('prod-1', 1, 9)).code).toBe('NOT_FOUND');
+  });
+
+  it('restores content as a new version without touching workflow fields', async () => {
+    const existing = (await products.getProductById('prod-1'))!;
+    const reviewer = { userId: 'rev-1', userName: 'Reviewer', userRole: UserRole.REVIEWER };
+    await products.updateProduct('prod-1', {
+      basicInfo: { ...existing.basicInfo, brand: 'Globex' },
+      workflowState: WorkflowState.REVIEW,
+      assignedReviewer: reviewer,
+    });
+
+    const result = await service.restoreVersion('prod-1', 1, { userId: 'admin-1', userName: 'Admin' });
+    expect(result.success).toBe(true);
+    expect(result.data!.previous.basicInfo.brand).toBe('Globex');
+
+    const restored = (await products.getProductById('prod-1'))!;
+    expect(restored.basicInfo.brand).toBe('Acme');
+    expect(restored.workflowState).toBe(WorkflowState.REVIEW);
+    expect(restored.assignedReviewer).toEqual(reviewer);
+
+    const latest = await versionRepo.getLatest('prod-1');
+    expect(latest!.version).toBe(3);
+    expect(latest!.restoredFromVersion).toBe(1);
+    expect(latest!.changedFields).toContain('basicInfo.brand');
+    // Earlier versions are never rewritten
+    expect((await versionRepo.getVersion('prod-1', 2))!.snapshot.basicInfo.brand).toBe('Globex');
+  });
+
+  it('reports missing versions and products', async () => {
+    expect((await service.getVersion('prod-1', 5)).code).toBe('NOT_FOUND');
+    expect((await service.restoreVersion('prod-1', 5, { userId: 'u' })).code).toBe('NOT_FOUND');
+
+    await versionRepo.create({ ...(await versionRepo.getVersion('prod-1', 1))!, id: 'gone_v1', productId: 'gone' });
+    expect((await service.restoreVersion('gone', 1, { userId: 'u' })).code).toBe('PRODUCT_NOT_FOUND');
+  });
+
+  it('retries with the next number when a version already exists', async () => {
+    const originalGetLatest = versionRepo.getLatest.bind(versionRepo);
+    // First lookup returns a stale latest version, as if another save raced ahead
+    versionRepo.getLatest = jest.fn()
+      .mockImplementationOnce(async () => null)
+      .mockImplementation(originalGetLatest);
+
+    await products.updateProduct('prod-1', {});
+    expect((await service.listVersions('prod-1')).map(v => v.version)).toEqual([2, 1]);
+  });
+});
+
+describe('diffProductSnapshots', () => {
+  it('treats a missing previous snapshot as all fields added and ignores timestamps', () => {
+    const product = makeProduct();
+    const changes = diffProductSnapshots(undefined, product);
+    expect(changes.every(c => c.type === 'added')).toBe(true);
+
+    const touched = { ...product, updatedAt: '2026-02-02T00:00:00.000Z' };
+    expect(diffProductSnapshots(product, touched)).toEqual([]);
+  });
+});
@@ -0,0 +1,91 @@
+jest.mock('../firebase-admin', () => ({ adminDb: {} }));
+
+import { ProductViewService } from '../product-view-service';
+import type { ProductView } from '@/types/product-view';
+import { UserRole, WorkflowState } from '@/types/workflow';
+
+class InMemoryProductViewRepository {
+  items = new Map<string, ProductView>();
+
+  async save(view: ProductView) { this.items.set(view.id, view); }
+  async getById(id: string) { return this.items.get(id) || null; }
+  async getAll() { return Array.from(this.items.values()); }
+  async delete(id: string) { this.items.delete(id); }
+}
+
+class InMemoryUserStore {
+  departments: Record<string, string> = { olive: 'Content', eddie: 'Content', rita: 'Buying' };
+
+  async getById(id: string) { return this.departments[id] ? { id, department: this.departments[id] } : null; }
+}
+
+describe('ProductViewService', () => {
+  let service: ProductViewService;
+
+  const olive = { userId: 'olive', userName: 'Olive Owner', userRole: UserRole.EDITOR };
+  const eddie = { userId: 'eddie', userName: 'Eddie Editor', userRole: UserRole.EDITOR };
+  const rita = { userId: 'rita', userName: 'Rita Reviewer', userRole: UserRole.REVIEWER };
+  const admin = { userId: 'admin', userName: 'Ada Admin', userRole: UserRole.ADMIN };
+
+  const drafts = {
+    name: 'My drafts with missing images',
+    filters: { facets: { workflowState: [WorkflowState.DRAFT], hasImages: ['no'], reviewer: ['__me__'] } },
+    sort: { field: 'updatedAt' as const, direction: 'desc' as const },
+    columns: [],
+  };
+
+  beforeEach(() => {
+    service = new ProductViewService(new InMemoryProductViewRepository() as any, new InMemoryUserStore() as any);
+  });
+
+  it('keeps personal views to their owner', async () => {
+    const created = await service.createView({ ...drafts, visibility: 'private' }, olive);
+    expect(created.success).toBe(true);
+
+    expect((await service.listViews(olive)).map(v => v.name)).toEqual([drafts.name]);
+    expect(await service.listViews(eddie)).toEqual([]);
+    expect((await service.getView(created.data!.id, eddie)).code).toBe('NOT_FOUND');
+  });
+
+  it('shares views with roles and with the owner\'s team', async () => {
+    await service.createView({ ...drafts, name: 'Team drafts', visibility: 'team' }, olive);
+    await service.createView({ ...drafts, name: 'For reviewers', visibility: 'roles', sharedRoles: [UserRole.REVIEWER] }, olive);
+
+    expect((await service.listViews(eddie)).map(v => v.name)).toEqual(['Team drafts']);
+    expect((await service.listViews(rita)).map(v => v.name)).toEqual(['For reviewers']);
+    expect((await service.listViews(eddie))[0]).toMatchObject({ team: 'Content', canEdit: false });
+  });
+
+  it('rejects sharing without roles or a team, and duplicate names', async () => {
+    expect((await service.createView({ ...drafts, visibility: 'roles', sharedRoles: [] }, olive)).code).toBe('VALIDATION_ERROR');
+    expect((await service.createView({ ...drafts, visibility: 'team' }, admin)).code).toBe('VALIDATION_ERROR');
+
+    await service.createView({ ...drafts, visibility: 'private' }, olive);
+    expect((await service.createView({ ...drafts, name: ' my drafts WITH missing images ', visibility: 'private' }, olive)).code).toBe('NAME_EXISTS');
+  });
+
+  it('lets only the owner or an admin change shared views', async () => {
+    const { data: view } = await service.createView({ ...drafts, visibility: 'team' }, olive);
+
+    expect((await service.updateView(view!.id, { name: 'Renamed' }, eddie)).code).toBe('FORBIDDEN');
+    expect((await service.deleteView(view!.id, eddie)).code).toBe('FORBIDDEN');
+
+    // An admin outside the team still can, and the view stays with the owner's team
+    const updated = await service.updateView(view!.id, { visibility: 'team', columns: ['name', 'sku'] }, admin);
+    expect(updated.data).toMatchObject({ team: 'Content', columns: ['name', 'sku'] });
+    expect((await service.deleteView(view!.id, olive)).success).toBe(true);
+  });
+
+  it('pins views per user and lists pinned views first', async () => {
+    await service.createView({ ...drafts, name: 'A view', visibility: 'team' }, olive);
+    const { data: view } = await service.createView({ ...drafts, name: 'B view', visibility: 'team' }, olive);
+
+    await service.setPinned(view!.id, true, eddie);
+    expect((await service.listViews(eddie)).map(v => [v.name, v.pinned])).toEqual([['B view', true], ['A view', false]]);
+    expect((await service.listViews(olive)).map(v => [v.name, v.pinned])).toEqual([['A view', false], ['B view', false]]);
+
+    await service.setPinned(view!.id, false, eddie);
+    expect((await service.listViews(eddie)).every(v => !v.pinned)).toBe(true);
+    expect((await service.setPinned(view!.id, true, rita)).code).toBe('NOT_FOUND');
+  });
+});
@@ -0,0 +1,136 @@
+import {
+  canEditProductView,
+  canViewProductView,
+  getProductViewState,
+  isSameProductViewState,
+  keepCurrentUser,
+  parseProductSort,
+  sortProducts,
+  toProductViewSearchParams,
+  withCurrentUser,
+} from '../product-views';
+import { FACET_CURRENT_USER } from '@/types/facet';
+import type { Product } from '@/types/product';
+import type { ProductView, ProductViewState } from '@/types/product-view';
+import { UserRole, WorkflowState } from '@/types/workflow';
+
+const createProduct = (id: string, name: string, score: number, updatedAt: string): Product => ({
+  id,
+  basicInfo: {
+    name: { en: name, no: name },
+    sku: id.toUpperCase(),
+    descriptionShort: { en: '', no: '' },
+    descriptionLong: { en: '', no: '' },
+    brand: 'Acme',
+    status: 'active',
+  },
+  attributesAndSpecs: { categories: [], properties: [], technicalSpecs: [] },
+  media: { images: [] },
+  marketingSEO: { seoTitle: { en: '', no: '' }, seoDescription: { en: '', no: '' }, keywords: [] },
+  workflowState: WorkflowState.DRAFT,
+  qualityMetrics: { completenessScore: score, missingFields: [], validationErrors: [], lastChecked: '' },
+  createdAt: '2026-01-01T00:00:00Z',
+  updatedAt,
+});
+
+const createView = (overrides: Partial<ProductView> = {}): ProductView => ({
+  id: 'view-1',
+  name: 'My drafts with missing images',
+  ownerId: 'owner',
+  ownerName: 'Olive Owner',
+  visibility: 'private',
+  sharedRoles: [],
+  team: null,
+  filters: { facets: {} },
+  sort: { field: 'updatedAt', direction: 'desc' },
+  columns: [],
+  pinnedBy: [],
+  createdAt: '2026-01-01T00:00:00Z',
+  updatedAt: '2026-01-01T00:00:00Z',
+  ...overrides,
+});
+
+describe('view state in the URL', () => {
+  it('round-trips filters, sort and columns', () => {
+    const state: ProductViewState = {
+      filters: {
+        search: 'jacket',
+        facets: { workflowState: [WorkflowState.DRAFT], hasImages: ['no'], reviewer: [FACET_CURRENT_USER] },
+        quality: 'missing-images',
+      },
+      sort: { field: 'quality', direction: 'asc' },
+      columns: ['name', 'sku', 'quality'],
+    };
+    const params = toProductViewSearchParams(state);
+    expect(getProductViewState(new URLSearchParams(params.toString()))).toEqual(state);
+  });
+
+  it('leaves defaults out of the URL and ignores unknown values', () => {
+    const state: ProductViewState = { filters: { facets: {} }, sort: { field: 'updatedAt', direction: 'desc' }, columns: [] };
+    expect(toProductViewSearchParams(state).toString()).toBe('');
+    expect(getProductViewState(new URLSearchParams('sort=price:asc&columns=name,bogus&quality=nope'))).toEqual({
+      ...state,
+      columns: ['name'],
+    });
+  });
+
+  it('compares states regardless of parameter order', () => {
+    const a = getProductViewState(new URLSearchParams('brand=Acme&sort=name:asc'));
+    const b = getProductViewState(new URLSearchParams('sort=name:asc&brand=Acme&view=abc'));
+    expect(isSameProductViewState(a, b)).toBe(true);
+    expect(isSameProductViewState(a, { ...b, columns: ['sku'] })).toBe(false);
+  });
+});
+
+describe('sortProducts', () => {
+  const products = [
+    createProduct('b', 'Boots', 80, '2026-03-01T00:00:00Z'),
+    createProduct('a', 'anorak', 95, '2026-01-01T00:00:00Z'),
+    createProduct('c', 'Cap', 40, '2026-02-01T00:00:00Z'),
+  ];
+  const score = (product: Product) => product.qualityMetrics!.completenessScore;
+
+  it('sorts by name ignoring case, by score numerically and by date', () => {
+    expect(sortProducts(products, { field: 'name', direction: 'asc' }, score).map(p => p.id)).toEqual(['a', 'b', 'c']);
+    expect(sortProducts(products, { field: 'quality', direction: 'desc' }, score).map(p => p.id)).toEqual(['a', 'b', 'c']);
+    expect(sortProducts(products, { field: 'updatedAt', direction: 'asc' }, score).map(p => p.id)).toEqual(['a', 'c', 'b']);
+  });
+
+  it('reads sorts written as field:direction', () => {
+    expect(parseProductSort('sku:asc')).toEqual({ field: 'sku', direction: 'asc' });
+    expect(parseProductSort('sku')).toEqual({ field: 'sku', direction: 'desc' });
+    expect(parseProductSort(null)).toEqual({ field: 'updatedAt', direction: 'desc' });
+  });
+});
+
+describe('current user in saved views', () => {
+  it('resolves to whoever opens the view and stays relative when the selection changes', () => {
+    const saved = { reviewer: [FACET_CURRENT_USER], workflowState: [WorkflowState.DRAFT] };
+    const resolved = withCurrentUser(saved, 'u42');
+    expect(resolved.reviewer).toEqual(['u42']);
+
+    const changed = { ...resolved, workflowState: [WorkflowState.REVIEW] };
+    expect(keepCurrentUser(changed, saved, 'u42').reviewer).toEqual([FACET_CURRENT_USER]);
+    expect(keepCurrentUser(changed, {}, 'u42').reviewer).toEqual(['u42']);
+  });
+});
+
+describe('view access', () => {
+  const editor = { userId: 'editor', userRole: UserRole.EDITOR, team: 'Content' };
+  const admin = { userId: 'admin', userRole: UserRole.ADMIN, team: null };
+
+  it('shows views to their owner, the roles or the team they are shared with', () => {
+    expect(canViewProductView(createView(), editor)).toBe(false);
+    expect(canViewProductView(createView({ visibility: 'roles', sharedRoles: [UserRole.EDITOR] }), editor)).toBe(true);
+    expect(canViewProductView(createView({ visibility: 'roles', sharedRoles: [UserRole.REVIEWER] }), editor)).toBe(false);
+    expect(canViewProductView(createView({ visibility: 'team', team: 'Content' }), editor)).toBe(true);
+    expect(canViewProductView(createView({ visibility: 'team', team: 'Buying' }), editor)).toBe(false);
+  });
+
+  it('lets owners edit their views and admins edit shared ones', () => {
+    expect(canEditProductView(createView({ ownerId: 'editor' }), editor)).toBe(true);
+    expect(canEditProductView(createView({ visibility: 'team', team: 'Content' }), editor)).toBe(false);
+    expect(canEditProductView(createView({ visibility: 'team', team: 'Content' }), admin)).toBe(true);
+    expect(canViewProductView(createView(), admin)).toBe(false);
+  });
+});
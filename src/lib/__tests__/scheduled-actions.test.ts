@@ -0,0 +1,160 @@
+jest.mock('../firebase-admin', () => ({ adminDb: {} }));
+
+import { applyScheduledAction, getLiveSalePrice, getPlannedActions, isScheduleEntryLive } from '../scheduled-actions';
+import { SchedulerService, SCHEDULER_USER } from '../scheduler-service';
+import { WorkflowStateManager } from '../workflow-state-manager';
+import type { Product } from '@/types/product';
+import type { ScheduledActionRecord } from '@/types/schedule';
+import { UserRole, WorkflowState } from '@/types/workflow';
+
+const createProduct = (overrides: Partial<Product> = {}): Product => ({
+  id: 'p1',
+  basicInfo: {
+    name: { en: 'Winter jacket', no: 'Vinterjakke' },
+    sku: 'JACKET-1',
+    descriptionShort: { en: '', no: '' },
+    descriptionLong: { en: '', no: '' },
+    brand: 'Acme',
+    status: 'active',
+    launchDate: '2024-09-01T06:00:00Z',
+    endDate: '2025-03-01T00:00:00Z',
+  },
+  attributesAndSpecs: { categories: [], properties: [], technicalSpecs: [] },
+  media: { images: [] },
+  marketingSEO: {
+    seoTitle: { en: '', no: '' },
+    seoDescription: { en: '', no: '' },
+    keywords: [],
+    campaignCodes: [{ id: 'c1', code: 'BLACKFRIDAY', validFrom: '2024-11-29T00:00:00Z', validTo: '2024-12-01T00:00:00Z' }],
+  },
+  pricingAndStock: {
+    standardPrice: [{ id: 'std', amount: 1999, currency: 'NOK' }],
+    salePrice: [{ id: 'sale', amount: 1499, currency: 'NOK', validFrom: '2024-11-29T00:00:00Z', validTo: '2024-12-02T00:00:00Z' }],
+  },
+  workflowState: WorkflowState.APPROVED,
+  workflowHistory: [],
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z',
+  ...overrides,
+});
+
+describe('getPlannedActions', () => {
+  it('derives actions from launch and end dates, sale prices and campaigns, in run order', () => {
+    expect(getPlannedActions(createProduct()).map(action => [action.type, action.runAt, action.targetLabel])).toEqual([
+      ['publish', '2024-09-01T06:00:00.000Z', undefined],
+      ['activate_sale_price', '2024-11-29T00:00:00.000Z', 'NOK 1499'],
+      ['activate_campaign', '2024-11-29T00:00:00.000Z', 'BLACKFRIDAY'],
+      ['expire_campaign', '2024-12-01T00:00:00.000Z', 'BLACKFRIDAY'],
+      ['expire_sale_price', '2024-12-02T00:00:00.000Z', 'NOK 1499'],
+      ['discontinue', '2025-03-01T00:00:00.000Z', undefined],
+    ]);
+  });
+
+  it('gives a moved date a new action ID', () => {
+    const [before] = getPlannedActions(createProduct());
+    const [after] = getPlannedActions(createProduct({ basicInfo: { ...createProduct().basicInfo, launchDate: '2024-09-02T06:00:00Z' } }));
+    expect(before.id).toBe('p1__publish__product__2024-09-01T06:00:00.000Z');
+    expect(after.id).not.toBe(before.id);
+  });
+});
+
+describe('isScheduleEntryLive', () => {
+  it('treats untouched entries as live unless they start later, and follows the scheduler flag after that', () => {
+    expect(isScheduleEntryLive({})).toBe(true);
+    expect(isScheduleEntryLive({ validFrom: '2024-11-29T00:00:00Z' })).toBe(false);
+    expect(isScheduleEntryLive({ validFrom: '2024-11-29T00:00:00Z', active: true })).toBe(true);
+    expect(getLiveSalePrice([{ id: 'a', amount: 1, currency: 'NOK', active: false }, { id: 'b', amount: 2, currency: 'NOK' }])?.id).toBe('b');
+  });
+});
+
+describe('applyScheduledAction', () => {
+  const actionOf = (product: Product, type: string) => getPlannedActions(product).find(action => action.type === type)!;
+
+  it('starts sale prices and campaigns', () => {
+    const product = createProduct();
+    const started = applyScheduledAction(product, actionOf(product, 'activate_sale_price'));
+    expect(started.status === 'completed' && started.product.pricingAndStock?.salePrice?.[0].active).toBe(true);
+
+    const campaign = applyScheduledAction(product, actionOf(product, 'activate_campaign'));
+    expect(campaign.status === 'completed' && campaign.product.marketingSEO.campaignCodes?.[0].active).toBe(true);
+  });
+
+  it('discontinues the product once', () => {
+    const product = createProduct();
+    const result = applyScheduledAction(product, actionOf(product, 'discontinue'));
+    expect(result.status === 'completed' && result.product.basicInfo.status).toBe('discontinued');
+
+    const discontinued = createProduct({ basicInfo: { ...product.basicInfo, status: 'discontinued' } });
+    expect(applyScheduledAction(discontinued, actionOf(discontinued, 'discontinue')).status).toBe('skipped');
+  });
+});
+
+describe('SchedulerService', () => {
+  let products: Map<string, Product>;
+  let records: Map<string, ScheduledActionRecord>;
+  let audit: { createProductUpdateAuditEntry: jest.Mock; createStateTransitionAuditEntry: jest.Mock };
+  let service: SchedulerService;
+
+  const productRepo = {
+    getAllProducts: async () => [...products.values()],
+    getProductById: async (id: string) => products.get(id) || null,
+    updateProduct: async (id: string, product: Product) => { products.set(id, product); },
+  };
+  const recordRepo = {
+    save: async (record: ScheduledActionRecord) => { records.set(record.id, record); },
+    getById: async (id: string) => records.get(id) || null,
+    getAll: async () => [...records.values()],
+  };
+  const locales = { getPublishRequirement: async () => undefined };
+
+  beforeEach(() => {
+    products = new Map();
+    records = new Map();
+    audit = { createProductUpdateAuditEntry: jest.fn(), createStateTransitionAuditEntry: jest.fn() };
+    service = new SchedulerService(productRepo as any, recordRepo as any, locales as any, new WorkflowStateManager(), audit as any);
+  });
+
+  it('waits to publish until the product is approved, then publishes it', async () => {
+    products.set('p1', createProduct({ workflowState: WorkflowState.REVIEW }));
+
+    const waiting = await service.runDueActions('default', new Date('2024-09-01T07:00:00Z'));
+    expect(waiting.data).toMatchObject({ completed: 0, waiting: 1 });
+    expect(records.size).toBe(0);
+
+    products.set('p1', { ...products.get('p1')!, workflowState: WorkflowState.APPROVED });
+    const published = await service.runDueActions('default', new Date('2024-09-01T08:00:00Z'));
+    expect(published.data).toMatchObject({ completed: 1, waiting: 0 });
+    expect(products.get('p1')!.workflowState).toBe(WorkflowState.PUBLISHED);
+    expect(audit.createStateTransitionAuditEntry).toHaveBeenCalledWith(
+      SCHEDULER_USER.userId, UserRole.ADMIN, '', 'p1', WorkflowState.APPROVED, WorkflowState.PUBLISHED,
+      'Scheduled: Publish (JACKET-1)', expect.objectContaining({ source: 'scheduler' })
+    );
+  });
+
+  it('runs every due action once and records the outcome', async () => {
+    products.set('p1', createProduct({ workflowState: WorkflowState.PUBLISHED }));
+
+    const first = await service.runDueActions('default', new Date('2024-11-30T00:00:00Z'));
+    expect(first.data).toMatchObject({ completed: 2, skipped: 1 });
+    expect(products.get('p1')!.pricingAndStock?.salePrice?.[0].active).toBe(true);
+    expect(audit.createProductUpdateAuditEntry).toHaveBeenCalledTimes(2);
+
+    const second = await service.runDueActions('default', new Date('2024-11-30T00:05:00Z'));
+    expect(second.data?.actions).toEqual([]);
+  });
+
+  it('cancels pending actions so they never run', async () => {
+    products.set('p1', createProduct({ workflowState: WorkflowState.PUBLISHED }));
+    const discontinue = getPlannedActions(products.get('p1')!).find(action => action.type === 'discontinue')!;
+    const admin = { userId: 'u1', userName: 'Ada', userRole: UserRole.ADMIN };
+
+    const cancelled = await service.cancelAction(discontinue.id, admin, 'Keeping it in the range');
+    expect(cancelled.data).toMatchObject({ status: 'cancelled', note: 'Keeping it in the range', recordedBy: { userId: 'u1', userName: 'Ada' } });
+    expect((await service.cancelAction(discontinue.id, admin)).code).toBe('NOT_PENDING');
+    expect((await service.cancelAction('p1__discontinue__product__2030-01-01T00:00:00.000Z', admin)).code).toBe('NOT_FOUND');
+
+    await service.runDueActions('default', new Date('2025-06-01T00:00:00Z'));
+    expect(products.get('p1')!.basicInfo.status).toBe('active');
+    expect((await service.getSchedule({ type: 'discontinue' }))[0].status).toBe('cancelled');
+  });
+});
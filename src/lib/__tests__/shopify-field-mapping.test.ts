@@ -0,0 +1,270 @@
+jest.mock('../firebase-admin', () => ({ adminDb: {} }));
+
+import {
+  applyShopifyFieldMappingToPayload,
+  applyShopifyFieldMappingToProduct,
+  fromShopifyMetafieldValue,
+  getCompatibleMetafieldTypes,
+  toShopifyMetafieldValue,
+  validateShopifyFieldMapping,
+  type ShopifyFieldMapper,
+} from '../shopify-field-mapping';
+import { ShopifyFieldMappingService } from '../shopify-field-mapping-service';
+import { mapShopifyToPimProduct } from '../shopify-mapping';
+import type { ShopifyProduct } from '../shopify-client';
+import type { AttributeDefinition } from '@/types/attribute';
+import { initialProductData, type MultilingualString, type Product } from '@/types/product';
+import type { ShopifyFieldMappingSettings } from '@/types/shopify-field-mapping';
+import { DEFAULT_SHOPIFY_FIELD_MAPPING } from '@/types/shopify-field-mapping';
+
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+const attributes: Record<string, AttributeDefinition> = {
+  net_weight: { code: 'net_weight', label: { en: 'Net weight', no: '' }, type: 'number', required: false, unit: 'kg' },
+  finish: {
+    code: 'finish',
+    label: { en: 'Finish', no: '' },
+    type: 'enum',
+    required: false,
+    options: [{ value: 'matte', label: { en: 'Matte', no: '' } }, { value: 'gloss', label: { en: 'Gloss', no: '' } }],
+    constraints: { multiple: true },
+  },
+};
+
+const mapper = (settings: Partial<ShopifyFieldMappingSettings>): ShopifyFieldMapper => ({
+  settings: { ...DEFAULT_SHOPIFY_FIELD_MAPPING, ...settings },
+  attributes,
+});
+
+const localize = (value: MultilingualString | undefined) => value?.en || '';
+const resolveCategoryNames = (ids?: string[]) => (ids || []).map(id => `Category ${id}`);
+
+const lamp: Product = {
+  ...clone(initialProductData),
+  id: 'p1',
+  basicInfo: { ...clone(initialProductData.basicInfo), name: { en: 'Lamp', no: '' }, sku: 'LAMP-1', brand: 'Acme' },
+  attributesAndSpecs: {
+    ...clone(initialProductData.attributesAndSpecs),
+    categories: ['lighting'],
+    countryOfOrigin: 'Norway',
+    technicalSpecs: [{ id: 's1', key: 'Material', value: 'Oak' }],
+    attributeValues: { net_weight: { value: 500, unit: 'g' }, finish: ['matte', 'gloss'] },
+  },
+  media: {
+    images: [],
+    manuals: [{ id: 'd1', url: 'https://example.com/manual.pdf', type: 'manual' }],
+  },
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+};
+
+describe('validateShopifyFieldMapping', () => {
+  it('accepts mappings that fit their metafield types', () => {
+    expect(validateShopifyFieldMapping({
+      metafields: [
+        { id: '1', source: 'manuals', namespace: 'custom', key: 'manuals', type: 'list.url' },
+        { id: '2', source: 'attribute:net_weight', namespace: 'custom', key: 'net_weight', type: 'number_decimal' },
+        { id: '3', source: 'spec:Material', namespace: 'custom', key: 'material', type: 'single_line_text_field' },
+      ],
+      tags: [{ id: '4', source: 'attribute:finish', prefix: 'Finish' }],
+      productTypeSource: 'countryOfOrigin',
+    }, attributes)).toEqual([]);
+  });
+
+  it('reports invalid names, duplicates, unknown fields and types that do not fit', () => {
+    const errors = validateShopifyFieldMapping({
+      metafields: [
+        { id: '1', source: 'technicalSpecs', namespace: 'custom', key: 'specs', type: 'number_integer' },
+        { id: '2', source: 'brand', namespace: 'custom', key: 'specs', type: 'single_line_text_field' },
+        { id: '3', source: 'attribute:missing', namespace: 'pi', key: 'x', type: 'json' },
+        { id: '4', source: 'brand', namespace: 'pim', key: 'bundle_components', type: 'json' },
+      ],
+      tags: [{ id: '5', source: 'warrantyInfo', prefix: 'a,b' }],
+      productTypeSource: 'manuals',
+    }, attributes);
+
+    expect(errors).toEqual([
+      'Product type: Manuals cannot be used as the product type',
+      'Metafield custom.specs: Technical specifications (all) cannot be stored as Integer',
+      'Metafield custom.specs is mapped more than once',
+      'Metafield pi.x: the namespace must be 3 to 255 letters, digits, "-" or "_"',
+      'Metafield pi.x: the key must be 2 to 64 letters, digits, "-" or "_"',
+      'Metafield pi.x: Unknown field "attribute:missing"',
+      'Metafield pim.bundle_components is used for bundles',
+      'Tags: Warranty information cannot be written as tags',
+      'Tags: the prefix "a,b" cannot contain commas',
+    ]);
+  });
+
+  it('lists the types a source can be written to', () => {
+    expect(getCompatibleMetafieldTypes('attribute:finish', attributes)).toContain('list.single_line_text_field');
+    expect(getCompatibleMetafieldTypes('attribute:finish', attributes)).not.toContain('number_integer');
+    expect(getCompatibleMetafieldTypes('spec:', attributes)).toEqual([]);
+  });
+});
+
+describe('metafield values', () => {
+  it('converts values to the text Shopify stores for each type', () => {
+    expect(toShopifyMetafieldValue('1,5', 'number_decimal')).toBe('1.5');
+    expect(toShopifyMetafieldValue('Yes', 'boolean')).toBe('true');
+    expect(toShopifyMetafieldValue('2026-03-01T10:00:00Z', 'date')).toBe('2026-03-01');
+    expect(toShopifyMetafieldValue(['a', 'b'], 'list.single_line_text_field')).toBe('["a","b"]');
+    expect(toShopifyMetafieldValue({ Material: 'Oak' }, 'multi_line_text_field')).toBe('Material: Oak');
+    expect(toShopifyMetafieldValue('', 'number_integer')).toBeNull();
+  });
+
+  it('rejects values that do not fit the type', () => {
+    expect(() => toShopifyMetafieldValue('1.5', 'number_integer')).toThrow('"1.5" is not a whole number');
+    expect(() => toShopifyMetafieldValue('maybe', 'boolean')).toThrow('is not true or false');
+    expect(() => toShopifyMetafieldValue('01.03.2026', 'date')).toThrow('is not a date');
+    expect(() => toShopifyMetafieldValue(['ftp://example.com/a'], 'list.url')).toThrow('is not a URL');
+  });
+
+  it('reads values back', () => {
+    expect(fromShopifyMetafieldValue('12', 'number_integer')).toBe(12);
+    expect(fromShopifyMetafieldValue('false', 'boolean')).toBe(false);
+    expect(fromShopifyMetafieldValue('["a","b"]', 'list.single_line_text_field')).toEqual(['a', 'b']);
+    expect(fromShopifyMetafieldValue('', 'single_line_text_field')).toBeNull();
+  });
+});
+
+describe('applyShopifyFieldMappingToPayload', () => {
+  it('adds the product type, tags and metafields', () => {
+    const payload = applyShopifyFieldMappingToPayload(
+      { title: 'Lamp', product_type: 'Category lighting', tags: 'sale' },
+      lamp,
+      mapper({
+        metafields: [
+          { id: '1', source: 'attribute:net_weight', namespace: 'custom', key: 'net_weight', type: 'number_decimal' },
+          { id: '2', source: 'manuals', namespace: 'custom', key: 'manuals', type: 'list.url' },
+          { id: '3', source: 'warrantyInfo', namespace: 'custom', key: 'warranty', type: 'multi_line_text_field' },
+        ],
+        tags: [{ id: '4', source: 'attribute:finish', prefix: 'Finish' }, { id: '5', source: 'brand' }],
+        productTypeSource: 'spec:Material',
+      }),
+      localize,
+      resolveCategoryNames
+    );
+
+    expect(payload).toEqual({
+      title: 'Lamp',
+      product_type: 'Oak',
+      tags: 'sale, Finish:matte, Finish:gloss, Acme',
+      metafields: [
+        // Numbers are sent in the attribute's unit
+        { namespace: 'custom', key: 'net_weight', type: 'number_decimal', value: '0.5' },
+        { namespace: 'custom', key: 'manuals', type: 'list.url', value: '["https://example.com/manual.pdf"]' },
+      ],
+    });
+  });
+
+  it('keeps the first category as product type by default', () => {
+    const payload = { title: 'Lamp', product_type: 'Category lighting' };
+    expect(applyShopifyFieldMappingToPayload(payload, lamp, mapper({}), localize, resolveCategoryNames)).toEqual(payload);
+  });
+});
+
+describe('applyShopifyFieldMappingToProduct', () => {
+  const shopifyProduct = {
+    id: 1,
+    title: 'Lamp',
+    body_html: null,
+    vendor: 'Acme',
+    product_type: 'Sweden',
+    created_at: '2026-03-01T00:00:00Z',
+    updated_at: '2026-03-01T00:00:00Z',
+    published_at: null,
+    status: 'active',
+    tags: 'Finish:matte, Acme, new',
+    options: [],
+    variants: [],
+    images: [],
+  } as unknown as ShopifyProduct;
+
+  const fields = mapper({
+    metafields: [{ id: '1', source: 'attribute:net_weight', namespace: 'custom', key: 'net_weight', type: 'number_decimal' }],
+    tags: [{ id: '2', source: 'attribute:finish', prefix: 'Finish' }, { id: '3', source: 'brand' }],
+    productTypeSource: 'countryOfOrigin',
+  });
+  const metafields = [{ id: 9, namespace: 'custom', key: 'net_weight', type: 'number_decimal' as const, value: '12' }];
+
+  it('writes metafields, prefixed tags and the product type into new products', () => {
+    const imported = mapShopifyToPimProduct(shopifyProduct, { id: 'new', locale: 'en' });
+    const product = applyShopifyFieldMappingToProduct(imported, shopifyProduct, metafields, fields, {
+      locale: 'en',
+      created: true,
+      localize,
+      resolveCategoryNames,
+    });
+
+    expect(product.attributesAndSpecs).toMatchObject({
+      countryOfOrigin: 'Sweden',
+      categories: [],
+      attributeValues: { net_weight: { value: 12, unit: 'kg' }, finish: ['matte'] },
+    });
+    // Tags read into a field, or exported from the brand, are not keywords
+    expect(product.marketingSEO.keywords).toEqual(['new']);
+  });
+
+  it('leaves fields that have no value in Shopify alone', () => {
+    const product = applyShopifyFieldMappingToProduct(
+      lamp,
+      { ...shopifyProduct, product_type: '', tags: '' },
+      [],
+      fields,
+      { locale: 'en', created: false, localize, resolveCategoryNames }
+    );
+
+    expect(product.attributesAndSpecs).toEqual(lamp.attributesAndSpecs);
+  });
+});
+
+class InMemoryMappingRepository {
+  items = new Map<string, ShopifyFieldMappingSettings>();
+
+  async save(tenantId: string, settings: ShopifyFieldMappingSettings) {
+    this.items.set(tenantId, clone(settings));
+  }
+
+  async getByTenant(tenantId: string) {
+    const settings = this.items.get(tenantId);
+    return settings ? clone(settings) : null;
+  }
+}
+
+describe('ShopifyFieldMappingService', () => {
+  let repo: InMemoryMappingRepository;
+  let service: ShopifyFieldMappingService;
+
+  beforeEach(() => {
+    repo = new InMemoryMappingRepository();
+    const families = { listFamilies: async () => [{ attributes: Object.values(attributes) }] };
+    service = new ShopifyFieldMappingService(repo as any, families as any);
+  });
+
+  it('returns the defaults until the tenant saves a mapping', async () => {
+    expect(await service.getSettings('t1')).toEqual(DEFAULT_SHOPIFY_FIELD_MAPPING);
+
+    const input = {
+      metafields: [{ id: '1', source: 'attribute:net_weight', namespace: 'custom', key: 'net_weight', type: 'number_decimal' as const }],
+      tags: [{ id: '2', source: 'brand', prefix: '' }],
+      productTypeSource: 'brand',
+    };
+    const result = await service.updateSettings('t1', input, 'admin');
+
+    expect(result.success).toBe(true);
+    expect(repo.items.get('t1')).toMatchObject({ ...input, tags: [{ id: '2', source: 'brand' }], updatedBy: 'admin' });
+    expect((await service.getMapper('t1')).attributes.net_weight).toBeDefined();
+  });
+
+  it('refuses mappings that do not validate', async () => {
+    const result = await service.updateSettings('t1', {
+      metafields: [{ id: '1', source: 'attribute:finish', namespace: 'custom', key: 'finish', type: 'boolean' }],
+      tags: [],
+      productTypeSource: 'categories',
+    });
+
+    expect(result).toMatchObject({ success: false, code: 'VALIDATION_ERROR', details: ['Metafield custom.finish: Attribute: Finish cannot be stored as True or false'] });
+    expect(repo.items.size).toBe(0);
+  });
+});
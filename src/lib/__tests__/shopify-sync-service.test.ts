@@ -0,0 +1,513 @@
+jest.mock('../firebase-admin', () => ({ adminDb: {} }));
+
+import { ShopifySyncService } from '../shopify-sync-service';
+import {
+  ShopifyClient,
+  type ShopifyImage,
+  type ShopifyImagePayload,
+  type ShopifyMetafield,
+  type ShopifyMetafieldPayload,
+  type ShopifyProduct,
+  type ShopifyProductPayload,
+  type ShopifyProductVariantPayload,
+  type ShopifyVariant,
+} from '../shopify-client';
+import { DEFAULT_LOCALE_SETTINGS } from '@/types/locale';
+import type { ShopifyFieldMapper } from '../shopify-field-mapping';
+import { DEFAULT_SHOPIFY_FIELD_MAPPING } from '@/types/shopify-field-mapping';
+import type { Product } from '@/types/product';
+import { initialProductData } from '@/types/product';
+import type { ShopifyProductMapping, ShopifySyncRun } from '@/types/shopify-sync';
+import { WorkflowState } from '@/types/workflow';
+
+const SHOP = 'acme.myshopify.com';
+
+/**
+ * A local stand-in for the Shopify Admin REST product endpoints: paged
+ * listing, create and update with Shopify's variant and image semantics,
+ * and product metafields
+ */
+class FakeShopify {
+  products = new Map<number, ShopifyProduct>();
+  metafields = new Map<number, ShopifyMetafield[]>();
+  requests: string[] = [];
+  pageSize = 2;
+  throttled = 0; // Answer the next requests with 429
+  failWrites = false;
+  private nextId = 1000;
+  private clock = Date.parse('2026-03-01T00:00:00Z');
+
+  fetch = (async (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = new URL(String(input));
+    const method = init?.method || 'GET';
+    this.requests.push(`${method} ${url.pathname}`);
+
+    if (this.throttled > 0) {
+      this.throttled--;
+      return respond(429, { errors: 'Exceeded 2 calls per second for api client.' }, { 'Retry-After': '2' });
+    }
+    if (method !== 'GET' && this.failWrites) {
+      return respond(422, { errors: { title: ["can't be blank"] } });
+    }
+
+    const body = init?.body ? JSON.parse(String(init.body)) : undefined;
+    const productMatch = url.pathname.match(/\/products\/(\d+)\.json$/);
+    const metafieldsMatch = url.pathname.match(/\/products\/(\d+)\/metafields\.json$/);
+    if (method === 'GET' && metafieldsMatch) {
+      return respond(200, { metafields: this.metafields.get(Number(metafieldsMatch[1])) || [] });
+    }
+    if (method === 'GET' && url.pathname.endsWith('/products.json')) {
+      const offset = Number(url.searchParams.get('page_info') || 0);
+      const limit = Math.min(Number(url.searchParams.get('limit')), this.pageSize);
+      const all = [...this.products.values()];
+      const next: Record<string, string> = offset + limit < all.length
+        ? { Link: `<https://${SHOP}/admin/api/2024-04/products.json?limit=${limit}&page_info=${offset + limit}>; rel="next"` }
+        : {};
+      return respond(200, { products: all.slice(offset, offset + limit) }, next);
+    }
+    if (method === 'POST' && url.pathname.endsWith('/products.json')) {
+      return respond(201, { product: this.create(body.product) });
+    }
+    if (method === 'PUT' && productMatch) {
+      const updated = this.update(Number(productMatch[1]), body.product);
+      return updated ? respond(200, { product: updated }) : respond(404, { errors: 'Not Found' });
+    }
+    return respond(404, { errors: 'Not Found' });
+  }) as unknown as typeof fetch;
+
+  create(payload: ShopifyProductPayload): ShopifyProduct {
+    const id = this.nextId++;
+    const product: ShopifyProduct = {
+      id,
+      title: payload.title,
+      body_html: payload.body_html || null,
+      vendor: payload.vendor || '',
+      product_type: payload.product_type || '',
+      created_at: this.now(),
+      updated_at: this.now(),
+      published_at: null,
+      status: payload.status || 'active',
+      tags: payload.tags || '',
+      options: (payload.options || []).map((option, index) => ({ id: this.nextId++, name: option.name, position: index + 1, values: option.values })),
+      variants: (payload.variants || [{ price: '0.00' }]).map(variant => this.toVariant(id, variant)),
+      images: (payload.images || []).map(image => this.toImage(id, image)),
+    };
+    this.products.set(id, product);
+    this.setMetafields(id, payload.metafields);
+    return clone(product);
+  }
+
+  /**
+   * Variants and images with an ID are kept, the others are created and
+   * those left out are deleted
+   */
+  update(id: number, payload: Partial<ShopifyProductPayload>): ShopifyProduct | null {
+    const existing = this.products.get(id);
+    if (!existing) return null;
+    const { variants, images, options, metafields, ...fields } = payload;
+    const updated: ShopifyProduct = { ...existing, ...(fields as Partial<ShopifyProduct>), id, updated_at: this.now() };
+    if (variants) {
+      updated.variants = variants.map(variant => this.toVariant(id, variant, existing.variants.find(v => v.id === variant.id)));
+    }
+    if (images) {
+      updated.images = images.map(image => this.toImage(id, image, existing.images.find(i => i.id === image.id)));
+    }
+    this.products.set(id, updated);
+    this.setMetafields(id, metafields);
+    return clone(updated);
+  }
+
+  /**
+   * Metafields are created or replaced by namespace and key
+   */
+  setMetafields(productId: number, payloads: ShopifyMetafieldPayload[] = []) {
+    const existing = this.metafields.get(productId) || [];
+    payloads.forEach(payload => {
+      const current = existing.find(m => m.namespace === payload.namespace && m.key === payload.key);
+      if (current) Object.assign(current, payload);
+      else existing.push({ ...payload, id: this.nextId++ });
+    });
+    this.metafields.set(productId, existing);
+  }
+
+  /**
+   * An edit made in the Shopify admin
+   */
+  edit(id: number, changes: Partial<ShopifyProduct>) {
+    this.products.set(id, { ...this.products.get(id)!, ...changes, updated_at: this.now() });
+  }
+
+  private toVariant(productId: number, payload: ShopifyProductVariantPayload, existing?: ShopifyVariant): ShopifyVariant {
+    return {
+      title: 'Default Title',
+      inventory_quantity: 0,
+      compare_at_price: null,
+      barcode: null,
+      sku: null,
+      option1: null,
+      option2: null,
+      option3: null,
+      ...existing,
+      ...payload,
+      id: existing?.id ?? this.nextId++,
+      product_id: productId,
+    } as ShopifyVariant;
+  }
+
+  private toImage(productId: number, payload: ShopifyImagePayload, existing?: ShopifyImage): ShopifyImage {
+    const id = existing?.id ?? this.nextId++;
+    return {
+      width: 800,
+      height: 800,
+      src: `https://cdn.shopify.com/${id}.jpg`,
+      ...existing,
+      alt: payload.alt ?? existing?.alt ?? null,
+      id,
+      product_id: productId,
+    };
+  }
+
+  private now() {
+    this.clock += 60 * 1000;
+    return new Date(this.clock).toISOString();
+  }
+}
+
+function respond(status: number, body: unknown, headers: Record<string, string> = {}) {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: '',
+    headers: { get: (name: string) => headers[name] ?? null },
+    json: async () => clone(body),
+    text: async () => JSON.stringify(body),
+  };
+}
+
+const clone = <T,>(value: T): T => JSON.parse(JSON.stringify(value));
+
+class InMemoryProductService {
+  items = new Map<string, Product>();
+
+  async getAllProducts() { return Array.from(this.items.values()); }
+  createProduct = jest.fn(async (product: Product) => { this.items.set(product.id, product); });
+  updateProduct = jest.fn(async (id: string, product: Product) => { this.items.set(id, product); });
+}
+
+class InMemorySyncRepository {
+  mappings = new Map<string, ShopifyProductMapping>();
+  runs: ShopifySyncRun[] = [];
+
+  async getMappings(tenantId: string, shop: string) {
+    return [...this.mappings.values()].filter(m => m.tenantId === tenantId && m.shop === shop);
+  }
+  async saveMapping(mapping: ShopifyProductMapping) { this.mappings.set(mapping.id, clone(mapping)); }
+  async deleteMapping(id: string) { this.mappings.delete(id); }
+  async saveRun(run: ShopifySyncRun) { this.runs.push(clone(run)); }
+  async getRecentRuns(tenantId: string, limit: number) {
+    return this.runs.filter(run => run.tenantId === tenantId).reverse().slice(0, limit);
+  }
+}
+
+const price = (amount: number) => [{ id: `price-${amount}`, currency: 'NOK', amount }];
+
+const tee: Product = {
+  ...initialProductData,
+  id: 'p1',
+  basicInfo: { ...initialProductData.basicInfo, name: { en: 'Tee', no: '' }, sku: 'TEE-1', brand: 'Acme', status: 'active' },
+  media: { images: [{ id: 'm1', url: 'https://cdn.example.com/tee.jpg', type: 'image', altText: { en: 'Tee front', no: '' } }] },
+  pricingAndStock: { standardPrice: price(199), salePrice: [], costPrice: [] },
+  workflowState: WorkflowState.PUBLISHED,
+  createdAt: '2026-01-01T00:00:00Z',
+  updatedAt: '2026-01-02T00:00:00Z',
+};
+
+const hoodie: Product = {
+  ...initialProductData,
+  id: 'p2',
+  basicInfo: { ...initialProductData.basicInfo, name: { en: 'Hoodie', no: '' }, sku: 'HOOD', brand: 'Acme', status: 'active' },
+  media: { images: [] },
+  options: [{ id: 'o1', name: 'Size', values: ['S', 'M'] }],
+  variants: [
+    { id: 'v1', sku: 'HOOD-S', optionValues: { Size: 'S' }, standardPrice: price(499) },
+    { id: 'v2', sku: 'HOOD-M', optionValues: { Size: 'M' }, standardPrice: price(499) },
+  ],
+  workflowState: WorkflowState.PUBLISHED,
+  createdAt: '2026-01-01T00:00:00Z',
+  updatedAt: '2026-01-02T00:00:00Z',
+};
+
+describe('ShopifySyncService', () => {
+  let shopify: FakeShopify;
+  let products: InMemoryProductService;
+  let repo: InMemorySyncRepository;
+  let sleep: jest.Mock;
+  let fields: ShopifyFieldMapper;
+  let service: ShopifySyncService;
+  const actor = { userId: 'u1', userName: 'Eddie Editor' };
+  const input = { integrationId: 'shop-1' };
+
+  const edit = (id: string, changes: Partial<Product>) => {
+    products.items.set(id, { ...products.items.get(id)!, ...changes, updatedAt: '2030-01-01T00:00:00Z' });
+  };
+  const linkOf = (productId: string) => repo.mappings.get(`t1__${SHOP}__${productId}`)!;
+
+  beforeEach(() => {
+    shopify = new FakeShopify();
+    products = new InMemoryProductService();
+    products.items.set('p1', clone(tee));
+    products.items.set('p2', clone(hoodie));
+    repo = new InMemorySyncRepository();
+    sleep = jest.fn(async () => {});
+    fields = { settings: DEFAULT_SHOPIFY_FIELD_MAPPING, attributes: {} };
+    const channels = { getExportChannel: async () => ({ success: true, data: null }) };
+    const locales = { getSettings: async () => DEFAULT_LOCALE_SETTINGS };
+    const categories = {
+      getNameResolver: async () => (ids?: string[]) => ids || [],
+      getIdResolver: async () => (values?: string[]) => (values || []).map(value => value === 'Outerwear' ? 'cat-outerwear' : value),
+    };
+    const credentials = {
+      resolveCredentials: async (_tenantId: string, id: string) => id === 'shop-1'
+        ? { success: true, data: { storeUrl: 'https://Acme.myshopify.com/', accessToken: 'shpat_test' } }
+        : { success: false, error: 'Integration credential not found', code: 'NOT_FOUND' },
+    };
+    service = new ShopifySyncService(
+      repo as any,
+      products as any,
+      channels as any,
+      locales as any,
+      categories as any,
+      credentials as any,
+      (storeUrl, accessToken) => new ShopifyClient(storeUrl, accessToken, shopify.fetch, sleep),
+      { getMapper: async () => fields } as any
+    );
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('exports new products once and links their variants and images', async () => {
+    const first = await service.sync('t1', { ...input, direction: 'export' }, actor);
+
+    expect(first.data!.summary).toEqual({ created: 2, updated: 0, skipped: 0, deleted: 0, failed: 0 });
+    expect(shopify.products.size).toBe(2);
+    const hoodieInShopify = shopify.products.get(linkOf('p2').shopifyProductId)!;
+    expect(linkOf('p2').variants).toEqual({ v1: hoodieInShopify.variants[0].id, v2: hoodieInShopify.variants[1].id });
+    const teeInShopify = shopify.products.get(linkOf('p1').shopifyProductId)!;
+    expect(linkOf('p1')).toMatchObject({ shop: SHOP, variants: { p1: teeInShopify.variants[0].id }, images: { m1: teeInShopify.images[0].id } });
+    expect(teeInShopify.status).toBe('active');
+
+    const second = await service.sync('t1', { ...input, direction: 'export' }, actor);
+    expect(second.data!.summary).toEqual({ created: 0, updated: 0, skipped: 2, deleted: 0, failed: 0 });
+    expect(shopify.products.size).toBe(2);
+    expect(shopify.requests.filter(r => !r.startsWith('GET'))).toHaveLength(2);
+  });
+
+  it('updates linked products in place, keeping variant and image IDs', async () => {
+    await service.sync('t1', { ...input, direction: 'export' }, actor);
+    const before = clone(shopify.products.get(linkOf('p1').shopifyProductId)!);
+
+    edit('p1', { pricingAndStock: { standardPrice: price(249), salePrice: [], costPrice: [] } });
+    const result = await service.sync('t1', { ...input, direction: 'export' }, actor);
+
+    expect(result.data!.summary).toMatchObject({ created: 0, updated: 1, skipped: 1 });
+    expect(shopify.products.size).toBe(2);
+    const after = shopify.products.get(before.id)!;
+    expect(after.variants.map(v => [v.id, v.price])).toEqual([[before.variants[0].id, '249']]);
+    expect(after.images.map(i => i.id)).toEqual(before.images.map(i => i.id));
+    expect(shopify.requests).toContain(`PUT /admin/api/2024-04/products/${before.id}.json`);
+  });
+
+  it('links unlinked products by SKU instead of creating duplicates', async () => {
+    const existing = shopify.create({ title: 'Old tee', variants: [{ sku: 'TEE-1', price: '150.00' }] });
+
+    const result = await service.sync('t1', { ...input, direction: 'export' }, actor);
+
+    expect(shopify.products.size).toBe(2);
+    expect(linkOf('p1')).toMatchObject({ shopifyProductId: existing.id, variants: { p1: existing.variants[0].id } });
+    expect(result.data!.items).toContainEqual(expect.objectContaining({
+      productId: 'p1', action: 'updated', message: 'Linked by SKU TEE-1',
+    }));
+    expect(shopify.products.get(existing.id)!.title).toBe('Tee');
+  });
+
+  it('imports new Shopify products and pulls later Shopify changes', async () => {
+    products.items.clear();
+    const jacket = shopify.create({ title: 'Jacket', vendor: 'Globex', product_type: 'Outerwear', variants: [{ sku: 'JKT-1', price: '999.00' }], images: [{ src: 'https://example.com/jacket.jpg' }] });
+
+    const first = await service.sync('t1', { ...input, direction: 'import' }, actor);
+    expect(first.data!.summary).toMatchObject({ created: 1, failed: 0 });
+    const [imported] = products.items.values();
+    expect(imported.basicInfo).toMatchObject({ sku: 'JKT-1', brand: 'Globex', name: expect.objectContaining({ en: 'Jacket' }) });
+    expect(imported.attributesAndSpecs.categories).toEqual(['cat-outerwear']);
+    expect(linkOf(imported.id)).toMatchObject({ shopifyProductId: jacket.id, images: { [imported.media.images[0].id]: jacket.images[0].id } });
+
+    shopify.edit(jacket.id, { title: 'Rain jacket', variants: [{ ...jacket.variants[0], price: '899.00' }] });
+    const second = await service.sync('t1', { ...input, direction: 'import' }, actor);
+
+    expect(second.data!.summary).toMatchObject({ created: 0, updated: 1 });
+    expect(products.items.size).toBe(1);
+    const pulled = products.items.get(imported.id)!;
+    expect(pulled.basicInfo.name.en).toBe('Rain jacket');
+    expect(pulled.pricingAndStock?.standardPrice[0].amount).toBe(899);
+    expect(pulled.media.images).toHaveLength(1);
+    expect(products.updateProduct).toHaveBeenCalledWith(imported.id, expect.anything(), expect.objectContaining({ reason: 'Shopify sync', tenantId: 't1' }));
+  });
+
+  it('writes mapped fields to metafields, tags and product type and reads them back', async () => {
+    fields.settings = {
+      metafields: [
+        { id: 'mf1', source: 'warrantyInfo', namespace: 'custom', key: 'warranty', type: 'multi_line_text_field' },
+        { id: 'mf2', source: 'spec:Weight', namespace: 'custom', key: 'weight', type: 'number_decimal' },
+      ],
+      tags: [{ id: 't1', source: 'spec:Color', prefix: 'Color' }],
+      productTypeSource: 'countryOfOrigin',
+    };
+    edit('p1', {
+      attributesAndSpecs: {
+        ...tee.attributesAndSpecs,
+        countryOfOrigin: 'Portugal',
+        warrantyInfo: { en: '2 years', no: '' },
+        technicalSpecs: [{ id: 's1', key: 'Weight', value: '0,2' }, { id: 's2', key: 'Color', value: 'Blue' }],
+      },
+    });
+
+    await service.sync('t1', { ...input, direction: 'export' }, actor);
+
+    const shopifyId = linkOf('p1').shopifyProductId;
+    expect(shopify.products.get(shopifyId)).toMatchObject({ product_type: 'Portugal', tags: 'Color:Blue' });
+    expect(shopify.metafields.get(shopifyId)).toEqual([
+      expect.objectContaining({ namespace: 'custom', key: 'warranty', type: 'multi_line_text_field', value: '2 years' }),
+      expect.objectContaining({ namespace: 'custom', key: 'weight', type: 'number_decimal', value: '0.2' }),
+    ]);
+
+    shopify.edit(shopifyId, { product_type: 'Spain', tags: 'Color:Green, summer' });
+    shopify.setMetafields(shopifyId, [{ namespace: 'custom', key: 'weight', type: 'number_decimal', value: '0.25' }]);
+    const result = await service.sync('t1', { ...input, direction: 'import' }, actor);
+
+    expect(result.data!.summary).toMatchObject({ updated: 1, failed: 0 });
+    const pulled = products.items.get('p1')!;
+    expect(pulled.attributesAndSpecs.countryOfOrigin).toBe('Spain');
+    expect(pulled.attributesAndSpecs.warrantyInfo?.en).toBe('2 years');
+    expect(pulled.attributesAndSpecs.technicalSpecs).toEqual([
+      expect.objectContaining({ key: 'Weight', value: '0.25' }),
+      expect.objectContaining({ key: 'Color', value: 'Green' }),
+    ]);
+    expect(pulled.marketingSEO.keywords).toEqual(['summer']);
+    expect(shopify.requests).toContain(`GET /admin/api/2024-04/products/${shopifyId}/metafields.json`);
+  });
+
+  it('fails products whose values do not fit the metafield type', async () => {
+    fields.settings = {
+      ...DEFAULT_SHOPIFY_FIELD_MAPPING,
+      metafields: [{ id: 'mf1', source: 'brand', namespace: 'custom', key: 'brand_code', type: 'number_integer' }],
+    };
+
+    const result = await service.sync('t1', { ...input, direction: 'export' }, actor);
+
+    expect(result.data!.summary).toMatchObject({ created: 0, failed: 2 });
+    expect(result.data!.items[0].message).toContain('Metafield custom.brand_code');
+    expect(shopify.products.size).toBe(0);
+  });
+
+  it('keeps the Pimify values when a product changed on both sides', async () => {
+    await service.sync('t1', { ...input, direction: 'export' }, actor);
+    const shopifyId = linkOf('p1').shopifyProductId;
+
+    shopify.edit(shopifyId, { title: 'Edited in Shopify' });
+    edit('p1', { basicInfo: { ...tee.basicInfo, name: { en: 'Edited in Pimify', no: '' } } });
+    const result = await service.sync('t1', { ...input, direction: 'both' }, actor);
+
+    expect(shopify.products.get(shopifyId)!.title).toBe('Edited in Pimify');
+    expect(result.data!.items).toContainEqual(expect.objectContaining({
+      productId: 'p1', direction: 'export', action: 'updated', message: 'Changed on both sides; the Pimify values were kept',
+    }));
+  });
+
+  it('detects deletions on both sides', async () => {
+    await service.sync('t1', { ...input, direction: 'export' }, actor);
+    const teeShopifyId = linkOf('p1').shopifyProductId;
+    products.items.delete('p1');
+    shopify.products.delete(linkOf('p2').shopifyProductId);
+
+    const result = await service.sync('t1', { ...input, direction: 'both' }, actor);
+
+    expect(result.data!.summary).toEqual({ created: 0, updated: 0, skipped: 0, deleted: 2, failed: 0 });
+    expect(shopify.products.get(teeShopifyId)!.status).toBe('archived');
+    expect(products.items.get('p2')!.basicInfo.status).toBe('discontinued');
+    expect(repo.mappings.size).toBe(0);
+
+    // Discontinued products are not sent to Shopify again
+    const next = await service.sync('t1', { ...input, direction: 'export' }, actor);
+    expect(next.data!.items).toEqual([expect.objectContaining({ productId: 'p2', action: 'skipped' })]);
+  });
+
+  it('only reports deletions in the other direction', async () => {
+    await service.sync('t1', { ...input, direction: 'export' }, actor);
+    shopify.products.delete(linkOf('p2').shopifyProductId);
+
+    const result = await service.sync('t1', { ...input, direction: 'export' }, actor);
+
+    expect(result.data!.items).toContainEqual(expect.objectContaining({ productId: 'p2', action: 'skipped' }));
+    expect(products.items.get('p2')!.basicInfo.status).toBe('active');
+    expect(linkOf('p2')).toBeDefined();
+  });
+
+  it('pages through the shop and waits when Shopify throttles', async () => {
+    for (let i = 0; i < 3; i++) shopify.create({ title: `Existing ${i}`, variants: [{ sku: `EX-${i}`, price: '1.00' }] });
+    shopify.throttled = 1;
+
+    const result = await service.sync('t1', { ...input, direction: 'both' }, actor);
+
+    expect(sleep).toHaveBeenCalledWith(2000);
+    expect(shopify.requests.filter(r => r.startsWith('GET'))).toHaveLength(3);
+    expect(result.data!.summary).toMatchObject({ created: 5, failed: 0 });
+  });
+
+  it('records failed products and keeps going', async () => {
+    shopify.failWrites = true;
+
+    const result = await service.sync('t1', { ...input, direction: 'export' }, actor);
+
+    expect(result.success).toBe(true);
+    expect(result.data!.summary).toMatchObject({ created: 0, failed: 2 });
+    expect(result.data!.items[0].message).toContain("can't be blank");
+    expect(repo.mappings.size).toBe(0);
+    expect(await service.listRuns('t1')).toEqual([result.data]);
+  });
+
+  it('fails the run when Shopify cannot be listed', async () => {
+    shopify.throttled = 10;
+
+    const result = await service.sync('t1', { ...input, direction: 'import' }, actor);
+
+    expect(result).toMatchObject({ success: false, code: 'SHOPIFY_ERROR' });
+    expect(repo.runs[0]).toMatchObject({ status: 'failed', shop: SHOP });
+  });
+
+  it('refuses integrations that do not resolve', async () => {
+    const result = await service.sync('t1', { integrationId: 'other', direction: 'export' }, actor);
+
+    expect(result).toMatchObject({ success: false, code: 'NOT_FOUND' });
+    expect(shopify.requests).toEqual([]);
+    expect(repo.runs).toEqual([]);
+  });
+
+  it('reports each step to the observer and stops when asked', async () => {
+    const onStep = jest.fn();
+    let steps = 0;
+
+    const result = await service.sync('t1', { ...input, direction: 'export' }, actor, {
+      onPlanned: planned => { steps = planned; },
+      onStep,
+      shouldStop: async () => onStep.mock.calls.length >= 1,
+    });
+
+    expect(steps).toBe(2);
+    expect(onStep).toHaveBeenCalledTimes(1);
+    expect(result.data).toMatchObject({ status: 'cancelled', summary: { created: 1 } });
+    expect(shopify.products.size).toBe(1);
+  });
+});
@@ -0,0 +1,26 @@
+import { getRequestTenantId, resolveTenantIdFromHost } from '../tenant';
+
+const requestFor = (headers: Record<string, string>, user?: { tenantId?: string }) =>
+  Object.assign({ headers: new Headers(headers) }, user && { user });
+
+describe('resolveTenantIdFromHost', () => {
+  it('reads the tenant from the pimify.io subdomain', () => {
+    expect(resolveTenantIdFromHost('acme.pimify.io')).toBe('acme');
+    expect(resolveTenantIdFromHost('Acme.Pimify.io:443')).toBe('acme');
+    expect(resolveTenantIdFromHost('localhost:3000')).toBe('localhost_dev');
+    expect(resolveTenantIdFromHost('www.pimify.io')).toBe('default_server');
+    expect(resolveTenantIdFromHost('acme.example.com')).toBe('default_server');
+    expect(resolveTenantIdFromHost(null)).toBe('default_server');
+  });
+});
+
+describe('getRequestTenantId', () => {
+  it('ignores a tenant header sent by the client', () => {
+    expect(getRequestTenantId(requestFor({ host: 'acme.pimify.io', 'x-tenant-id': 'globex' }))).toBe('acme');
+  });
+
+  it('uses the tenant of the authenticated API key', () => {
+    expect(getRequestTenantId(requestFor({ host: 'localhost:3000' }, { tenantId: 'acme' }))).toBe('acme');
+    expect(getRequestTenantId(requestFor({ host: 'localhost:3000' }, {}))).toBe('localhost_dev');
+  });
+});
@@ -0,0 +1,125 @@
+import {
+  getIncompleteTranslations,
+  getTranslationState,
+  getTranslationTasks,
+  setFieldText,
+  setTranslationStatus,
+} from '../translation-workflow';
+import { WorkflowStateManager } from '../workflow-state-manager';
+import type { LocaleSettings } from '@/types/locale';
+import type { Product } from '@/types/product';
+import { ProductWorkflow, UserRole, WorkflowState } from '@/types/workflow';
+
+const settings: LocaleSettings = {
+  locales: [
+    { code: 'en', name: 'English' },
+    { code: 'no', name: 'Norwegian' },
+    { code: 'sv', name: 'Swedish' },
+  ],
+  defaultLocale: 'en',
+  fallbacks: {},
+  requiredForPublish: ['sv'],
+};
+
+const createProduct = (overrides: Partial<Product> = {}): Product => ({
+  id: 'p1',
+  basicInfo: {
+    name: { en: 'Winter jacket', no: 'Vinterjakke', sv: '' },
+    sku: 'JACKET-1',
+    descriptionShort: { en: '', no: '' },
+    descriptionLong: { en: '', no: '' },
+    brand: 'Acme',
+    status: 'active',
+  },
+  attributesAndSpecs: { categories: [], properties: [], technicalSpecs: [] },
+  media: { images: [] },
+  marketingSEO: { seoTitle: { en: '', no: '' }, seoDescription: { en: '', no: '' }, keywords: [] },
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z',
+  ...overrides,
+} as Product);
+
+const approve = (product: Product, locale: string): Product => ({
+  ...product,
+  translations: setTranslationStatus(product, 'name', locale, 'approved', settings, 'u1'),
+});
+
+describe('getTranslationState', () => {
+  it('reports missing text and untracked text needing review', () => {
+    const product = createProduct();
+    expect(getTranslationState(product, 'name', 'sv', settings)).toEqual({ status: 'missing', outdated: false });
+    expect(getTranslationState(product, 'name', 'no', settings)).toEqual({ status: 'needs_review', outdated: false });
+  });
+
+  it('keeps a recorded status while source and target are unchanged', () => {
+    const product = approve(createProduct(), 'no');
+    expect(getTranslationState(product, 'name', 'no', settings)).toEqual({ status: 'approved', outdated: false });
+  });
+
+  it('flags a translation as outdated when the source text changes', () => {
+    const product = setFieldText(approve(createProduct(), 'no'), 'name', 'en', 'Winter parka');
+    expect(getTranslationState(product, 'name', 'no', settings)).toEqual({ status: 'approved', outdated: true });
+  });
+
+  it('needs review again when the translated text is edited', () => {
+    const product = setFieldText(approve(createProduct(), 'no'), 'name', 'no', 'Vinterfrakk');
+    expect(getTranslationState(product, 'name', 'no', settings)).toEqual({ status: 'needs_review', outdated: false });
+  });
+});
+
+describe('getTranslationTasks', () => {
+  it('lists open fields with source text for the target locale', () => {
+    const tasks = getTranslationTasks([createProduct()], 'sv', settings);
+    expect(tasks).toHaveLength(1);
+    expect(tasks[0]).toMatchObject({ productId: 'p1', field: 'name', status: 'missing', sourceText: 'Winter jacket' });
+  });
+
+  it('filters by status and leaves out completed translations', () => {
+    const product = approve(createProduct(), 'no');
+    expect(getTranslationTasks([product], 'no', settings)).toEqual([]);
+    expect(getTranslationTasks([createProduct()], 'no', settings, { statuses: ['missing'] })).toEqual([]);
+    expect(getTranslationTasks([product], 'no', settings, { includeComplete: true })).toHaveLength(1);
+  });
+
+  it('has nothing to translate into the source locale', () => {
+    expect(getTranslationTasks([createProduct()], 'en', settings)).toEqual([]);
+  });
+});
+
+describe('getIncompleteTranslations', () => {
+  it('describes each blocking translation', () => {
+    const product = setFieldText(approve(createProduct(), 'no'), 'name', 'en', 'Winter parka');
+    expect(getIncompleteTranslations(product, ['no', 'sv'], settings)).toEqual([
+      'Name (Norwegian) is outdated',
+      'Name (Swedish) is missing',
+    ]);
+  });
+});
+
+describe('WorkflowStateManager publish requirement', () => {
+  const manager = new WorkflowStateManager();
+  const publish = (product: Product) => manager.executeStateTransition(
+    {
+      productId: product.id,
+      fromState: WorkflowState.APPROVED,
+      toState: WorkflowState.PUBLISHED,
+      userId: 'admin-1',
+      userRole: UserRole.ADMIN,
+      translationRequirement: { locales: ['sv'], settings },
+    },
+    { ...product, workflowState: WorkflowState.APPROVED, workflowHistory: [] } as ProductWorkflow
+  );
+
+  it('blocks publishing while required translations are incomplete', async () => {
+    const result = await publish(createProduct());
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Translations are incomplete: Name (Swedish) is missing');
+  });
+
+  it('publishes once required translations are approved', async () => {
+    const product = approve(setFieldText(createProduct(), 'name', 'sv', 'Vinterjacka'), 'sv');
+    const result = await publish(product);
+    expect(result.success).toBe(true);
+    expect(result.newState).toBe(WorkflowState.PUBLISHED);
+  });
+});
@@ -0,0 +1,107 @@
+import {
+  findUnit,
+  getUnitsForDimension,
+  convertUnit,
+  normalizeQuantity,
+  convertQuantity,
+  toPreferredUnit,
+  parseQuantity,
+  convertSpecValue,
+  getProductWeight,
+} from '../units-of-measure';
+import { initialProductData } from '@/types/product';
+import type { Product } from '@/types/product';
+
+describe('units-of-measure', () => {
+  describe('findUnit', () => {
+    it('finds units by code and case-insensitive alias', () => {
+      expect(findUnit('kg')?.dimension).toBe('mass');
+      expect(findUnit('Pounds')?.code).toBe('lb');
+      expect(findUnit(' Litre ')?.code).toBe('l');
+      expect(findUnit('furlong')).toBeUndefined();
+    });
+
+    it('keeps case-sensitive codes distinct', () => {
+      expect(findUnit('mW')?.code).toBe('mW');
+      expect(findUnit('W')?.code).toBe('W');
+      expect(findUnit('m')?.code).toBe('m');
+    });
+
+    it('lists the units of a dimension from smallest to largest', () => {
+      expect(getUnitsForDimension('power').map(u => u.code)).toEqual(['mW', 'W', 'hp', 'kW']);
+    });
+  });
+
+  describe('conversion', () => {
+    it('converts within a dimension', () => {
+      expect(convertUnit(1, 'in', 'cm')).toBe(2.54);
+      expect(convertUnit(2.5, 'kg', 'g')).toBe(2500);
+      expect(convertUnit(1, 'lb', 'g')).toBe(453.59237);
+      expect(convertUnit(500, 'ml', 'l')).toBe(0.5);
+      expect(convertUnit(1.5, 'kW', 'W')).toBe(1500);
+    });
+
+    it('refuses to convert across dimensions or unknown units', () => {
+      expect(convertUnit(1, 'kg', 'm')).toBeNull();
+      expect(convertUnit(1, 'kg', 'stone')).toBeNull();
+    });
+
+    it('keeps the original unit and adds the normalized base value', () => {
+      expect(normalizeQuantity(250, 'grams')).toEqual({ value: 250, unit: 'g', normalized: { value: 0.25, unit: 'kg' } });
+      expect(normalizeQuantity(12, 'h')).toEqual({ value: 12, unit: 'h' });
+    });
+
+    it('converts quantities to a unit or the preferred unit of their dimension', () => {
+      expect(convertQuantity({ value: 12, unit: 'in' }, 'cm')).toMatchObject({ value: 30.48, unit: 'cm' });
+      expect(toPreferredUnit({ value: 16, unit: 'oz' }, { mass: 'g' })).toMatchObject({ value: 453.59237, unit: 'g' });
+
+      const hours = { value: 30, unit: 'h' };
+      expect(toPreferredUnit(hours, { mass: 'g' })).toBe(hours);
+    });
+  });
+
+  describe('parsing', () => {
+    it('parses numbers followed by a known unit', () => {
+      expect(parseQuantity('2.5kg')).toMatchObject({ value: 2.5, unit: 'kg' });
+      expect(parseQuantity('1,5 l')).toMatchObject({ value: 1.5, unit: 'l' });
+      expect(parseQuantity('12"')).toMatchObject({ value: 12, unit: 'in' });
+    });
+
+    it('ignores text that is not a single quantity', () => {
+      expect(parseQuantity('A5')).toBeNull();
+      expect(parseQuantity('10x15x5cm')).toBeNull();
+      expect(parseQuantity('42')).toBeNull();
+      expect(parseQuantity('5 pieces')).toBeNull();
+    });
+
+    it('rewrites spec values in preferred units', () => {
+      expect(convertSpecValue('12 in', { length: 'cm' })).toBe('30.48 cm');
+      expect(convertSpecValue('Paperback', { length: 'cm' })).toBe('Paperback');
+      expect(convertSpecValue('30 cm', { length: 'cm' })).toBe('30 cm');
+    });
+  });
+
+  describe('getProductWeight', () => {
+    const productWith = (attributesAndSpecs: Partial<Product['attributesAndSpecs']>): Product => ({
+      ...initialProductData,
+      id: 'p1',
+      attributesAndSpecs: { ...initialProductData.attributesAndSpecs, ...attributesAndSpecs },
+      createdAt: '',
+      updatedAt: '',
+    } as Product);
+
+    it('prefers a weight attribute over technical specs', () => {
+      const product = productWith({
+        attributeValues: { weight: normalizeQuantity(300, 'g') },
+        technicalSpecs: [{ id: '1', key: 'Weight', value: '1 kg' }],
+      });
+      expect(getProductWeight(product)).toMatchObject({ value: 300, unit: 'g' });
+    });
+
+    it('falls back to a technical spec with a mass value', () => {
+      expect(getProductWeight(productWith({ technicalSpecs: [{ id: '1', key: 'Vekt', value: '2 lb' }] })))
+        .toMatchObject({ value: 2, unit: 'lb' });
+      expect(getProductWeight(productWith({ technicalSpecs: [{ id: '1', key: 'Weight', value: '20 cm' }] }))).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,253 @@
+jest.mock('../firebase-admin', () => ({ adminDb: {} }));
+
+import { WebhookService } from '../webhook-service';
+import {
+  getTransitionEventType,
+  getWebhookRetryDelay,
+  MAX_WEBHOOK_ATTEMPTS,
+  signWebhookPayload,
+  verifyWebhookSignature,
+} from '../webhooks';
+import { ProductService } from '../product-service';
+import type { Product } from '@/types/product';
+import type { ProductVersion } from '@/types/product-version';
+import type { WebhookDelivery, WebhookEndpoint, WebhookEvent } from '@/types/webhook';
+import { WorkflowState } from '@/types/workflow';
+
+class InMemoryWebhookRepository {
+  endpoints = new Map<string, WebhookEndpoint>();
+  deliveries = new Map<string, WebhookDelivery>();
+
+  async saveEndpoint(endpoint: WebhookEndpoint) { this.endpoints.set(endpoint.id, { ...endpoint }); }
+  async getEndpoint(id: string) { return this.endpoints.get(id) || null; }
+  async getEndpointsByTenant(tenantId: string) { return Array.from(this.endpoints.values()).filter(e => e.tenantId === tenantId); }
+  async deleteEndpoint(id: string) { this.endpoints.delete(id); }
+  async saveDelivery(delivery: WebhookDelivery) { this.deliveries.set(delivery.id, JSON.parse(JSON.stringify(delivery))); }
+  async getDelivery(id: string) { return this.deliveries.get(id) || null; }
+  async getRecentDeliveries(tenantId: string, limit: number) {
+    return Array.from(this.deliveries.values())
+      .filter(d => d.tenantId === tenantId)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .slice(0, limit);
+  }
+  async getDueDeliveries(tenantId: string, now: string, limit: number) {
+    return Array.from(this.deliveries.values())
+      .filter(d => d.tenantId === tenantId && d.status === 'pending' && d.nextAttemptAt! <= now)
+      .slice(0, limit);
+  }
+}
+
+const httpResponse = (status: number, body = '') => ({ ok: status >= 200 && status < 300, status, text: async () => body });
+
+describe('WebhookService', () => {
+  let repo: InMemoryWebhookRepository;
+  let fetchFn: jest.Mock;
+  let service: WebhookService;
+  const admin = { userId: 'admin', userName: 'Ada Admin' };
+
+  const respond = (status: number, body = '') => fetchFn.mockResolvedValueOnce(httpResponse(status, body));
+
+  beforeEach(() => {
+    repo = new InMemoryWebhookRepository();
+    fetchFn = jest.fn();
+    service = new WebhookService(repo as any, fetchFn);
+  });
+
+  const createEndpoint = async (eventTypes: WebhookEndpoint['eventTypes'] = ['product.published'], tenantId = 'acme') => {
+    const result = await service.createEndpoint(tenantId, { url: 'https://erp.example.com/hook', eventTypes }, admin);
+    return result.data!;
+  };
+
+  const delivery = () => Array.from(repo.deliveries.values())[0];
+
+  it('delivers signed events to the subscribed, active endpoints of the tenant', async () => {
+    const { secret } = await createEndpoint(['product.published']);
+    await createEndpoint(['product.deleted']);
+    await createEndpoint(['product.published'], 'globex');
+    const disabled = await createEndpoint(['product.published']);
+    await service.updateEndpoint('acme', disabled.endpoint.id, { active: false });
+    respond(200, 'ok');
+
+    const deliveries = await service.emit('acme', 'product.published', { productId: 'p1', sku: 'RJ-1' });
+    await service.settle();
+
+    expect(deliveries).toHaveLength(1);
+    expect(fetchFn).toHaveBeenCalledTimes(1);
+    const [url, init] = fetchFn.mock.calls[0];
+    expect(url).toBe('https://erp.example.com/hook');
+    expect(init.headers['X-Pimify-Event']).toBe('product.published');
+    expect(verifyWebhookSignature(secret, init.body, init.headers['X-Pimify-Signature'])).toBe(true);
+    expect(verifyWebhookSignature('whsec_other', init.body, init.headers['X-Pimify-Signature'])).toBe(false);
+
+    const event = JSON.parse(init.body) as WebhookEvent;
+    expect(event).toMatchObject({ type: 'product.published', tenantId: 'acme', data: { productId: 'p1', sku: 'RJ-1' } });
+    expect(delivery()).toMatchObject({ status: 'succeeded', attempts: [{ responseStatus: 200, responseBody: 'ok' }] });
+    expect(delivery().nextAttemptAt).toBeUndefined();
+  });
+
+  it('retries failed deliveries with exponential backoff until they succeed', async () => {
+    await createEndpoint();
+    respond(503);
+    await service.emit('acme', 'product.published', { productId: 'p1' });
+    await service.settle();
+
+    const failedAt = new Date(delivery().attempts[0].attemptedAt).getTime();
+    expect(delivery().status).toBe('pending');
+    expect(new Date(delivery().nextAttemptAt!).getTime() - failedAt).toBe(60 * 1000);
+
+    // Not due yet
+    expect((await service.runDueDeliveries('acme', new Date(failedAt + 30 * 1000))).data!.attempted).toBe(0);
+
+    fetchFn.mockRejectedValueOnce(new Error('connect ECONNREFUSED'));
+    const second = new Date(failedAt + 61 * 1000);
+    expect((await service.runDueDeliveries('acme', second)).data).toEqual({ attempted: 1, succeeded: 0, failed: 0, retrying: 1 });
+    expect(delivery().attempts[1].error).toBe('connect ECONNREFUSED');
+    expect(new Date(delivery().nextAttemptAt!).getTime() - second.getTime()).toBe(2 * 60 * 1000);
+
+    respond(204);
+    const third = new Date(second.getTime() + 3 * 60 * 1000);
+    expect((await service.runDueDeliveries('acme', third)).data!.succeeded).toBe(1);
+    expect(delivery().status).toBe('succeeded');
+    expect(delivery().attempts).toHaveLength(3);
+  });
+
+  it('gives up after the last attempt', async () => {
+    await createEndpoint();
+    fetchFn.mockResolvedValue(httpResponse(500));
+    await service.emit('acme', 'product.published', { productId: 'p1' });
+    await service.settle();
+
+    while (delivery().status === 'pending') {
+      await service.runDueDeliveries('acme', new Date(delivery().nextAttemptAt!));
+    }
+
+    expect(delivery().status).toBe('failed');
+    expect(delivery().attempts).toHaveLength(MAX_WEBHOOK_ATTEMPTS);
+    expect(delivery().nextAttemptAt).toBeUndefined();
+  });
+
+  it('fails pending deliveries of deleted endpoints', async () => {
+    const { endpoint } = await createEndpoint();
+    respond(500);
+    await service.emit('acme', 'product.published', { productId: 'p1' });
+    await service.settle();
+
+    await service.deleteEndpoint('acme', endpoint.id);
+    await service.runDueDeliveries('acme', new Date(delivery().nextAttemptAt!));
+
+    expect(delivery().status).toBe('failed');
+    expect(delivery().attempts[1].error).toBe('The webhook endpoint has been deleted');
+    expect(fetchFn).toHaveBeenCalledTimes(1);
+  });
+
+  it('replays a delivery as a new delivery with the same event, signed with the current secret', async () => {
+    const { endpoint } = await createEndpoint();
+    respond(500);
+    const [original] = await service.emit('acme', 'product.published', { productId: 'p1' });
+    await service.settle();
+
+    const { data: rotated } = await service.rotateSecret('acme', endpoint.id);
+    respond(200);
+    const replay = await service.replayDelivery('acme', original.id);
+
+    expect(replay.data).toMatchObject({ replayOf: original.id, eventId: original.eventId, payload: original.payload, status: 'succeeded' });
+    const [, init] = fetchFn.mock.calls[1];
+    expect(verifyWebhookSignature(rotated!.secret, init.body, init.headers['X-Pimify-Signature'])).toBe(true);
+
+    expect((await service.replayDelivery('globex', original.id)).code).toBe('NOT_FOUND');
+    expect((await service.listDeliveries('acme')).map(d => d.id)).toContain(replay.data!.id);
+  });
+
+  it('shows the secret only when the endpoint is created', async () => {
+    const { endpoint, secret } = await createEndpoint();
+    expect(endpoint).not.toHaveProperty('secret');
+    expect(endpoint.secretHint).toBe(`…${secret.slice(-4)}`);
+    expect(JSON.stringify(await service.listEndpoints('acme'))).not.toContain(secret);
+  });
+});
+
+describe('webhook helpers', () => {
+  it('rejects signatures outside the tolerance window', () => {
+    const timestamp = Math.floor(Date.now() / 1000);
+    const header = signWebhookPayload('whsec_test', '{}', timestamp);
+    expect(verifyWebhookSignature('whsec_test', '{}', header)).toBe(true);
+    expect(verifyWebhookSignature('whsec_test', '{"a":1}', header)).toBe(false);
+    expect(verifyWebhookSignature('whsec_test', '{}', header, new Date((timestamp + 600) * 1000))).toBe(false);
+  });
+
+  it('doubles the retry delay and stops after the last attempt', () => {
+    expect(getWebhookRetryDelay(1)).toBe(60 * 1000);
+    expect(getWebhookRetryDelay(4)).toBe(8 * 60 * 1000);
+    expect(getWebhookRetryDelay(MAX_WEBHOOK_ATTEMPTS)).toBeNull();
+  });
+
+  it('maps transitions to event types', () => {
+    expect(getTransitionEventType(WorkflowState.DRAFT, WorkflowState.REVIEW)).toBe('product.submitted');
+    expect(getTransitionEventType(WorkflowState.REVIEW, WorkflowState.REJECTED)).toBe('product.rejected');
+    expect(getTransitionEventType(WorkflowState.APPROVED, WorkflowState.PUBLISHED)).toBe('product.published');
+    expect(getTransitionEventType(WorkflowState.PUBLISHED, WorkflowState.DRAFT)).toBe('product.unpublished');
+    expect(getTransitionEventType(WorkflowState.REJECTED, WorkflowState.DRAFT)).toBe('product.returned_to_draft');
+    expect(getTransitionEventType(WorkflowState.DRAFT, WorkflowState.DRAFT)).toBeNull();
+  });
+});
+
+describe('ProductService webhook events', () => {
+  const product = {
+    id: 'p1',
+    basicInfo: { name: { en: 'Rain jacket' }, sku: 'RJ-1', descriptionShort: {}, descriptionLong: {}, brand: 'Acme', status: 'active' },
+    attributesAndSpecs: { categories: [], properties: [], technicalSpecs: [] },
+    media: { images: [] },
+    marketingSEO: { seoTitle: {}, seoDescription: {}, keywords: [] },
+    pricingAndStock: { standardPrice: [] },
+    workflowState: WorkflowState.APPROVED,
+    workflowHistory: [],
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+  } as unknown as Product;
+  const publish = { workflowState: WorkflowState.PUBLISHED };
+  const context = { userId: 'admin', reason: 'Launch', tenantId: 'acme' };
+
+  let rows: Map<string, any>;
+  let webhooks: { emit: jest.Mock };
+  let service: ProductService;
+
+  beforeEach(async () => {
+    rows = new Map();
+    const productRepo = {
+      save: jest.fn(async (row: any) => { rows.set(row.id, JSON.parse(JSON.stringify(row))); }),
+      getById: async (id: string) => rows.get(id) || null,
+    };
+    const versions: ProductVersion[] = [];
+    const versionRepo = {
+      getLatest: async () => versions[versions.length - 1] || null,
+      create: async (version: ProductVersion) => { versions.push(version); },
+    };
+    webhooks = { emit: jest.fn().mockResolvedValue([]) };
+    service = new ProductService(productRepo as any, versionRepo as any, undefined, webhooks);
+    await service.createProduct(product);
+  });
+
+  it('announces a transition once the product is saved', async () => {
+    await service.updateProduct('p1', publish, context);
+
+    expect(rows.get('p1').workflow_state).toBe(WorkflowState.PUBLISHED);
+    expect(webhooks.emit).toHaveBeenCalledTimes(1);
+    expect(webhooks.emit).toHaveBeenCalledWith('acme', 'product.published', {
+      productId: 'p1',
+      sku: 'RJ-1',
+      fromState: WorkflowState.APPROVED,
+      toState: WorkflowState.PUBLISHED,
+      userId: 'admin',
+      reason: 'Launch',
+    });
+  });
+
+  it('emits nothing when the save fails or without a tenant', async () => {
+    await service.updateProduct('p1', publish, { userId: 'admin' });
+
+    (service as any).productRepo.save.mockRejectedValueOnce(new Error('write failed'));
+    await expect(service.updateProduct('p1', { workflowState: WorkflowState.DRAFT }, context)).rejects.toThrow('write failed');
+
+    expect(webhooks.emit).not.toHaveBeenCalled();
+  });
+});
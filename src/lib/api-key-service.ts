@@ -0,0 +1,142 @@
+/**
+ * API Key Service
+ *
+ * API keys for the public /api/v1 routes. Keys are created and revoked by
+ * admins in a tenant's settings and only work on that tenant's host;
+ * requests are authenticated by looking up the SHA-256 of the presented
+ * key. Products are shared by all tenants of a deployment, so a key is not
+ * limited to products of its own tenant.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type { ApiKey, ApiKeySummary, CreateApiKeyInput, CreatedApiKey } from '@/types/api-key';
+import { DEFAULT_API_KEY_RATE_LIMIT } from '@/types/api-key';
+import { firestoreApiKeyRepository, FirestoreApiKeyRepository } from './firestore-api-key-repository';
+import {
+  generateApiKeySecret,
+  getApiKeyDisplayPrefix,
+  getApiKeyRejection,
+  hashApiKey,
+} from './api-keys';
+
+// Active keys one tenant can have
+const MAX_KEYS_PER_TENANT = 25;
+
+// lastUsedAt is written at most this often per key
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+/**
+ * API Key Service Result
+ */
+export interface ApiKeyServiceResult<T = ApiKeySummary> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  code?: string;
+  details?: string[];
+}
+
+/**
+ * The admin creating a key
+ */
+export interface ApiKeyCreator {
+  userId: string;
+  userName?: string;
+}
+
+export class ApiKeyService {
+  constructor(private keyRepo: FirestoreApiKeyRepository = firestoreApiKeyRepository) { }
+
+  /**
+   * The tenant's keys, newest first, revoked keys included
+   */
+  async listKeys(tenantId: string): Promise<ApiKeySummary[]> {
+    const keys = await this.keyRepo.getByTenant(tenantId);
+    return keys
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .map(key => this.toSummary(key));
+  }
+
+  async createKey(tenantId: string, input: CreateApiKeyInput, actor: ApiKeyCreator): Promise<ApiKeyServiceResult<CreatedApiKey>> {
+    const keys = await this.keyRepo.getByTenant(tenantId);
+    const active = keys.filter(key => !getApiKeyRejection(key));
+    if (active.length >= MAX_KEYS_PER_TENANT) {
+      return { success: false, error: `A tenant can have up to ${MAX_KEYS_PER_TENANT} active API keys`, code: 'LIMIT_REACHED' };
+    }
+    if (input.expiresAt && new Date(input.expiresAt) <= new Date()) {
+      return { success: false, error: 'The expiry date must be in the future', code: 'VALIDATION_ERROR' };
+    }
+
+    const secret = generateApiKeySecret();
+    const key: ApiKey = {
+      id: uuidv4(),
+      tenantId,
+      name: input.name.trim(),
+      prefix: getApiKeyDisplayPrefix(secret),
+      keyHash: hashApiKey(secret),
+      scopes: Array.from(new Set(input.scopes)),
+      rateLimit: input.rateLimit || DEFAULT_API_KEY_RATE_LIMIT,
+      createdBy: actor.userId,
+      createdByName: actor.userName,
+      createdAt: new Date().toISOString(),
+      expiresAt: input.expiresAt,
+    };
+
+    await this.keyRepo.save(key);
+    return { success: true, data: { key: this.toSummary(key), secret } };
+  }
+
+  /**
+   * Revoke a key. Requests with it fail from then on; the key stays listed.
+   */
+  async revokeKey(tenantId: string, id: string): Promise<ApiKeyServiceResult> {
+    const key = await this.keyRepo.getById(id);
+    if (!key || key.tenantId !== tenantId) {
+      return { success: false, error: 'API key not found', code: 'NOT_FOUND' };
+    }
+    if (key.revokedAt) {
+      return { success: true, data: this.toSummary(key) };
+    }
+
+    const revoked: ApiKey = { ...key, revokedAt: new Date().toISOString() };
+    await this.keyRepo.save(revoked);
+    return { success: true, data: this.toSummary(revoked) };
+  }
+
+  /**
+   * Find the key a request presented. With a tenant, keys of other tenants
+   * are rejected.
+   */
+  async authenticate(secret: string, tenantId?: string): Promise<ApiKeyServiceResult<ApiKey>> {
+    const key = await this.keyRepo.getByHash(hashApiKey(secret));
+    if (!key) {
+      return { success: false, error: 'Invalid API key', code: 'INVALID_API_KEY' };
+    }
+    if (tenantId && key.tenantId !== tenantId) {
+      return { success: false, error: 'The API key belongs to another tenant', code: 'WRONG_TENANT' };
+    }
+
+    const rejection = getApiKeyRejection(key);
+    if (rejection === 'REVOKED') {
+      return { success: false, error: 'The API key has been revoked', code: 'API_KEY_REVOKED' };
+    }
+    if (rejection === 'EXPIRED') {
+      return { success: false, error: 'The API key has expired', code: 'API_KEY_EXPIRED' };
+    }
+
+    const now = new Date();
+    if (!key.lastUsedAt || now.getTime() - new Date(key.lastUsedAt).getTime() >= LAST_USED_RESOLUTION_MS) {
+      key.lastUsedAt = now.toISOString();
+      // Usage tracking must never fail the request
+      this.keyRepo.save(key).catch(error => console.error('Failed to record API key use:', error));
+    }
+    return { success: true, data: key };
+  }
+
+  private toSummary(key: ApiKey): ApiKeySummary {
+    const { keyHash, ...summary } = key;
+    return summary;
+  }
+}
+
+export const apiKeyService = new ApiKeyService();
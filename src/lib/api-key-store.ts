@@ -0,0 +1,61 @@
+import { create } from 'zustand';
+import type { ApiKeySummary, CreateApiKeyInput, CreatedApiKey } from '@/types/api-key';
+
+interface ApiKeyState {
+  keys: ApiKeySummary[];
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  fetchKeys: () => Promise<void>;
+  createKey: (input: CreateApiKeyInput) => Promise<CreatedApiKey>; // The secret is only in this result
+  revokeKey: (id: string) => Promise<void>;
+}
+
+function buildHeaders(): Record<string, string> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  const token = typeof window !== 'undefined' ? localStorage.getItem('accessToken') : null;
+  if (token) headers['Authorization'] = `Bearer ${token}`;
+  return headers;
+}
+
+async function request<T>(url: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(url, { ...init, headers: buildHeaders() });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok || !data.success) {
+    const details = Array.isArray(data.details) && data.details.length > 0 ? `: ${data.details.join('; ')}` : '';
+    throw new Error((data.error || `Request failed: ${response.status} ${response.statusText}`) + details);
+  }
+  return data.data as T;
+}
+
+export const useApiKeyStore = create<ApiKeyState>((set) => ({
+  keys: [],
+  isLoading: false,
+  error: null,
+
+  fetchKeys: async () => {
+    set({ isLoading: true, error: null });
+    try {
+      const keys = await request<ApiKeySummary[]>('/api/settings/api-keys');
+      set({ keys, isLoading: false });
+    } catch (error) {
+      console.error('Error fetching API keys:', error);
+      set({ error: (error as Error).message, isLoading: false });
+    }
+  },
+
+  createKey: async (input) => {
+    const created = await request<CreatedApiKey>('/api/settings/api-keys', {
+      method: 'POST',
+      body: JSON.stringify(input),
+    });
+    set(state => ({ keys: [created.key, ...state.keys] }));
+    return created;
+  },
+
+  revokeKey: async (id) => {
+    const key = await request<ApiKeySummary>(`/api/settings/api-keys/${id}`, { method: 'DELETE' });
+    set(state => ({ keys: state.keys.map(k => (k.id === id ? key : k)) }));
+  },
+}));
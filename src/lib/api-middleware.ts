@@ -2,6 +2,10 @@ import { NextRequest, NextResponse } from 'next/server';
 import { RolePermissions } from '@/lib/role-permissions';
 import { WorkflowAction, UserRole } from '@/types/workflow';
 import { authService } from '@/lib/auth-service';
+import { apiKeyService } from '@/lib/api-key-service';
+import { getApiKeyPrincipal, hasApiKeyScope, readApiKey } from '@/lib/api-keys';
+import { resolveTenantIdFromHost } from '@/lib/tenant';
+import type { ApiKeyRateLimit, ApiKeyScope } from '@/types/api-key';
 
 // Initialize services
 const rolePermissions = new RolePermissions();
@@ -338,6 +342,84 @@ export function withRateLimit(
   };
 }
 
+// Rate limiters for API keys, one per distinct limit. They call the handler
+// stored on the request, so a key's requests count against one limit across
+// all /api/v1 routes.
+const apiKeyRateLimiters = new Map<string, (request: NextRequest, context?: any) => Promise<NextResponse>>();
+
+function getApiKeyRateLimiter(limit: ApiKeyRateLimit) {
+  const limitKey = `${limit.maxRequests}/${limit.windowMs}`;
+  let limiter = apiKeyRateLimiters.get(limitKey);
+  if (!limiter) {
+    limiter = withRateLimit(
+      (request, context) => (request as any).apiKeyHandler(request, context),
+      {
+        maxRequests: limit.maxRequests,
+        windowMs: limit.windowMs,
+        keyGenerator: request => `api_key:${(request as any).apiKey.id}`,
+      }
+    );
+    apiKeyRateLimiters.set(limitKey, limiter);
+  }
+  return limiter;
+}
+
+/**
+ * Middleware for API key authentication on the public /api/v1 routes.
+ * Checks the key's scope (any one of them, when several are given) and
+ * applies the key's own rate limit.
+ */
+export function withApiKey(
+  handler: (request: NextRequest, context?: any) => Promise<NextResponse>,
+  requiredScope: ApiKeyScope | ApiKeyScope[]
+) {
+  const acceptedScopes = Array.isArray(requiredScope) ? requiredScope : [requiredScope];
+
+  return async (request: NextRequest, context?: any): Promise<NextResponse> => {
+    try {
+      const secret = readApiKey(request.headers);
+      if (!secret) {
+        return NextResponse.json(
+          { success: false, error: 'API key required', code: 'API_KEY_REQUIRED' },
+          { status: 401, headers: { 'WWW-Authenticate': 'Bearer' } }
+        );
+      }
+
+      const result = await apiKeyService.authenticate(secret, resolveTenantIdFromHost(request.headers.get('host')));
+      if (!result.success) {
+        return NextResponse.json(
+          { success: false, error: result.error, code: result.code },
+          { status: result.code === 'WRONG_TENANT' ? 403 : 401 }
+        );
+      }
+
+      const key = result.data!;
+      if (!acceptedScopes.some(scope => hasApiKeyScope(key, scope))) {
+        return NextResponse.json(
+          { success: false, error: `The API key lacks the "${acceptedScopes.join('" or "')}" scope`, code: 'INSUFFICIENT_SCOPE' },
+          { status: 403 }
+        );
+      }
+
+      (request as any).apiKey = key;
+      (request as any).user = getApiKeyPrincipal(key);
+      (request as any).apiKeyHandler = handler;
+
+      return await getApiKeyRateLimiter(key.rateLimit)(request, context);
+
+    } catch (error) {
+      console.error('API key middleware error:', error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Internal server error'
+        },
+        { status: 500 }
+      );
+    }
+  };
+}
+
 /**
  * Middleware for request validation
  */
@@ -0,0 +1,33 @@
+/**
+ * API Status
+ *
+ * HTTP status for the error codes services return in their
+ * { success, error, code } results, shared by the API routes.
+ */
+
+const STATUS_CODES: Record<string, number> = {
+  VALIDATION_ERROR: 400,
+  TYPE_MISMATCH: 400,
+  INVALID_TRANSITION: 400,
+  FORBIDDEN: 403,
+  INSUFFICIENT_SCOPE: 403,
+  NOT_FOUND: 404,
+  PARENT_NOT_FOUND: 404,
+  NAME_EXISTS: 409,
+  SLUG_EXISTS: 409,
+  LIMIT_REACHED: 409,
+  JOB_RUNNING: 409,
+  NOT_RETRYABLE: 409,
+  NOT_ACTIVE: 409,
+  NOT_PENDING: 409,
+  ENDPOINT_NOT_FOUND: 409,
+  DECRYPTION_FAILED: 500,
+  NOT_CONFIGURED: 503,
+};
+
+/**
+ * HTTP status for a failed service result; unknown codes are a bad request
+ */
+export function getErrorStatus(code: string | undefined): number {
+  return STATUS_CODES[code || ''] || 400;
+}
@@ -0,0 +1,227 @@
+/**
+ * API v1 OpenAPI Document
+ *
+ * Describes every /api/v1 operation with the schemas the routes validate
+ * with. Served at GET /api/v1/openapi.json; add an entry here when adding a
+ * v1 route.
+ */
+
+import { z, type ZodTypeAny } from 'zod';
+import type { ApiKeyScope } from '@/types/api-key';
+import { createOpenApiDocument, type JsonSchema, type OpenApiOperation, type OpenApiResponse } from './openapi';
+import {
+  v1CategoryCreateSchema,
+  v1CategorySchema,
+  v1CategoryUpdateSchema,
+  v1ErrorSchema,
+  v1GraphQLRequestSchema,
+  v1GraphQLResponseSchema,
+  v1IdParamsSchema,
+  v1LocalizedTextSchema,
+  v1MediaCreateSchema,
+  v1MediaParamsSchema,
+  v1MediaSchema,
+  v1PriceSchema,
+  v1ProductCreateSchema,
+  v1ProductListQuerySchema,
+  v1ProductPageSchema,
+  v1ProductSchema,
+  v1ProductUpdateSchema,
+  v1WorkflowSchema,
+  v1WorkflowTransitionSchema,
+} from './api-v1-schemas';
+import { MAX_QUERY_COMPLEXITY, MAX_QUERY_DEPTH } from './graphql-complexity';
+
+export const API_V1_VERSION = '1.0.0';
+
+const ERROR_DESCRIPTIONS: Record<number, string> = {
+  400: 'Invalid request',
+  401: 'Missing, invalid, revoked or expired API key',
+  403: 'The API key lacks the required scope, or was created on another tenant\'s host',
+  404: 'Not found',
+  409: 'Conflicts with existing data',
+  429: 'Rate limit of the API key exceeded; retry after the Retry-After header',
+};
+
+function success(schema: ZodTypeAny, description: string): OpenApiResponse {
+  return { description, schema: z.object({ success: z.literal(true), data: schema }) };
+}
+
+function errors(...statuses: number[]): Record<number, OpenApiResponse> {
+  return Object.fromEntries(
+    [401, 403, 429, ...statuses].sort((a, b) => a - b).map(status => [status, { description: ERROR_DESCRIPTIONS[status], schema: v1ErrorSchema }])
+  );
+}
+
+// Any one of the scopes is enough
+function requires(...scopes: ApiKeyScope[]): Pick<OpenApiOperation, 'security'> {
+  return { security: scopes.flatMap((scope): Array<Record<string, string[]>> => [{ bearerAuth: [scope] }, { apiKeyHeader: [scope] }]) };
+}
+
+const productParams = v1IdParamsSchema.extend({ id: z.string().min(1).describe('Product ID') });
+const categoryParams = v1IdParamsSchema.extend({ id: z.string().min(1).describe('Category ID') });
+
+export const apiV1Operations: OpenApiOperation[] = [
+  {
+    method: 'get', path: '/products', operationId: 'listProducts', tags: ['Products'],
+    summary: 'List products',
+    description: 'Last updated first, or ranked by relevance with `search`. Pass `nextCursor` as `cursor` for the next page.',
+    ...requires('read'),
+    query: v1ProductListQuerySchema,
+    responses: { 200: success(v1ProductPageSchema, 'One page of products'), ...errors(400) },
+  },
+  {
+    method: 'post', path: '/products', operationId: 'createProduct', tags: ['Products'],
+    summary: 'Create a product', description: 'Products are created as drafts.',
+    ...requires('write'),
+    body: v1ProductCreateSchema,
+    responses: { 201: success(v1ProductSchema, 'The created product'), ...errors(400) },
+  },
+  {
+    method: 'get', path: '/products/{id}', operationId: 'getProduct', tags: ['Products'],
+    summary: 'Get a product',
+    ...requires('read'),
+    params: productParams,
+    responses: { 200: success(v1ProductSchema, 'The product'), ...errors(404) },
+  },
+  {
+    method: 'patch', path: '/products/{id}', operationId: 'updateProduct', tags: ['Products'],
+    summary: 'Update a product',
+    description: 'Sections and fields left out are kept, localized text merges per locale, and lists given replace the stored list.',
+    ...requires('write'),
+    params: productParams,
+    body: v1ProductUpdateSchema,
+    responses: { 200: success(v1ProductSchema, 'The updated product'), ...errors(400, 404) },
+  },
+  {
+    method: 'delete', path: '/products/{id}', operationId: 'deleteProduct', tags: ['Products'],
+    summary: 'Delete a product',
+    ...requires('write'),
+    params: productParams,
+    responses: { 204: { description: 'Deleted' }, ...errors(404) },
+  },
+  {
+    method: 'get', path: '/products/{id}/media', operationId: 'listProductMedia', tags: ['Media'],
+    summary: 'List a product\'s media',
+    ...requires('read'),
+    params: productParams,
+    responses: { 200: success(z.array(v1MediaSchema), 'Images first, then videos, 3D models, manuals and certificates'), ...errors(404) },
+  },
+  {
+    method: 'post', path: '/products/{id}/media', operationId: 'addProductMedia', tags: ['Media'],
+    summary: 'Add media to a product',
+    ...requires('write'),
+    params: productParams,
+    body: v1MediaCreateSchema,
+    responses: { 201: success(v1MediaSchema, 'The added media'), ...errors(400, 404) },
+  },
+  {
+    method: 'delete', path: '/products/{id}/media/{mediaId}', operationId: 'deleteProductMedia', tags: ['Media'],
+    summary: 'Remove media from a product',
+    ...requires('write'),
+    params: v1MediaParamsSchema,
+    responses: { 204: { description: 'Removed' }, ...errors(404) },
+  },
+  {
+    method: 'get', path: '/products/{id}/workflow', operationId: 'getProductWorkflow', tags: ['Workflow'],
+    summary: 'Get a product\'s workflow state',
+    description: 'The current state, the transitions available from it with the scope each needs, and the history.',
+    ...requires('read'),
+    params: productParams,
+    responses: { 200: success(v1WorkflowSchema, 'The workflow state'), ...errors(404) },
+  },
+  {
+    method: 'post', path: '/products/{id}/workflow', operationId: 'transitionProduct', tags: ['Workflow'],
+    summary: 'Move a product through the workflow',
+    description: 'Submitting and returning to draft need the `write` scope; approving, rejecting, publishing and unpublishing need `publish`.',
+    ...requires('write'),
+    params: productParams,
+    body: v1WorkflowTransitionSchema,
+    responses: { 200: success(v1WorkflowSchema, 'The new workflow state'), ...errors(400, 404) },
+  },
+  {
+    method: 'get', path: '/categories', operationId: 'listCategories', tags: ['Categories'],
+    summary: 'List categories', description: 'A flat list; build the tree from `parentId` and `order`.',
+    ...requires('read'),
+    responses: { 200: success(z.array(v1CategorySchema), 'All categories'), ...errors() },
+  },
+  {
+    method: 'post', path: '/categories', operationId: 'createCategory', tags: ['Categories'],
+    summary: 'Create a category',
+    ...requires('write'),
+    body: v1CategoryCreateSchema,
+    responses: { 201: success(v1CategorySchema, 'The created category'), ...errors(400, 404, 409) },
+  },
+  {
+    method: 'get', path: '/categories/{id}', operationId: 'getCategory', tags: ['Categories'],
+    summary: 'Get a category',
+    ...requires('read'),
+    params: categoryParams,
+    responses: { 200: success(v1CategorySchema, 'The category'), ...errors(404) },
+  },
+  {
+    method: 'patch', path: '/categories/{id}', operationId: 'updateCategory', tags: ['Categories'],
+    summary: 'Rename a category or change its slug',
+    ...requires('write'),
+    params: categoryParams,
+    body: v1CategoryUpdateSchema,
+    responses: { 200: success(v1CategorySchema, 'The updated category'), ...errors(400, 404, 409) },
+  },
+  {
+    method: 'post', path: '/graphql', operationId: 'graphql', tags: ['GraphQL'],
+    summary: 'Run a read-only GraphQL query',
+    description: 'Products with selected fields, variants, media, categories and related products in one request, '
+      + 'read in one locale and as one channel sees them. Keys with the `storefront` scope but not `read` only see '
+      + `published products. Queries nested deeper than ${MAX_QUERY_DEPTH} levels or more complex than `
+      + `${MAX_QUERY_COMPLEXITY} are rejected.`,
+    ...requires('read', 'storefront'),
+    body: v1GraphQLRequestSchema,
+    responses: {
+      200: { description: 'The query result; errors in single fields are listed in `errors`', schema: v1GraphQLResponseSchema },
+      ...errors(),
+      400: {
+        description: 'Invalid request body, or a query that is invalid, too deep or too complex',
+        schema: z.union([v1GraphQLResponseSchema, v1ErrorSchema]),
+      },
+    },
+  },
+];
+
+/**
+ * The OpenAPI 3.1 document for /api/v1
+ */
+export function getApiV1OpenApiDocument(serverUrl = '/api/v1'): JsonSchema {
+  return createOpenApiDocument({
+    info: {
+      title: 'PIM API',
+      version: API_V1_VERSION,
+      description: 'Products, categories, media and workflow. Authenticate with an API key created under Settings → API Keys; '
+        + 'each key has scopes (read, write, publish, storefront) and its own rate limit, reported in the X-RateLimit-* headers. '
+        + 'Keys work on the host of the tenant that created them and reach the deployment\'s whole product catalog.',
+    },
+    servers: [{ url: serverUrl }],
+    schemas: {
+      Product: v1ProductSchema,
+      ProductCreate: v1ProductCreateSchema,
+      ProductUpdate: v1ProductUpdateSchema,
+      ProductPage: v1ProductPageSchema,
+      Media: v1MediaSchema,
+      MediaCreate: v1MediaCreateSchema,
+      Price: v1PriceSchema,
+      LocalizedText: v1LocalizedTextSchema,
+      Category: v1CategorySchema,
+      CategoryCreate: v1CategoryCreateSchema,
+      CategoryUpdate: v1CategoryUpdateSchema,
+      Workflow: v1WorkflowSchema,
+      WorkflowTransition: v1WorkflowTransitionSchema,
+      GraphQLRequest: v1GraphQLRequestSchema,
+      GraphQLResponse: v1GraphQLResponseSchema,
+      Error: v1ErrorSchema,
+    },
+    securitySchemes: {
+      bearerAuth: { type: 'http', scheme: 'bearer', description: 'Authorization: Bearer <API key>' },
+      apiKeyHeader: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+    },
+    operations: apiV1Operations,
+  });
+}
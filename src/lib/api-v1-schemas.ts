@@ -0,0 +1,242 @@
+/**
+ * API v1 Schemas
+ *
+ * Strict request and response schemas for the public /api/v1 routes. Routes
+ * validate with them and the OpenAPI document is generated from them (see
+ * api-v1-openapi.ts). Unknown fields are rejected rather than ignored, so
+ * typos in integrations fail loudly.
+ *
+ * The v1 product is a stable subset of the internal Product: media is one
+ * flat list, and internal fields (quality metrics, translations status,
+ * channel overrides, workflow history) are left out.
+ */
+
+import { z } from 'zod';
+import { UserRole, WorkflowState } from '@/types/workflow';
+import { LOCALE_CODE_PATTERN } from './locales';
+
+export const V1_MEDIA_TYPES = ['image', 'video', '3d_model', 'manual', 'certificate'] as const;
+export const V1_PRODUCT_STATUSES = ['active', 'inactive', 'development', 'discontinued'] as const;
+
+export const v1LocalizedTextSchema = z.record(z.string().regex(LOCALE_CODE_PATTERN), z.string().max(20000))
+  .describe('Text per locale code, e.g. {"en": "Rain jacket", "no": "Regnjakke"}');
+
+const v1KeyValueSchema = z.object({
+  key: z.string().min(1).max(200),
+  value: z.string().max(2000),
+}).strict();
+
+export const v1PriceSchema = z.object({
+  currency: z.string().regex(/^[A-Z]{3}$/).describe('ISO 4217 currency code'),
+  amount: z.number().min(0),
+  validFrom: z.string().datetime().optional(),
+  validTo: z.string().datetime().optional(),
+}).strict();
+
+export const v1MediaCreateSchema = z.object({
+  url: z.string().url(),
+  type: z.enum(V1_MEDIA_TYPES),
+  altText: v1LocalizedTextSchema.optional(),
+  title: z.string().max(500).optional(),
+  language: z.string().regex(LOCALE_CODE_PATTERN).optional().describe('Language of a manual'),
+}).strict();
+
+export const v1MediaSchema = v1MediaCreateSchema.extend({
+  id: z.string(),
+}).strict();
+
+const v1OptionSchema = z.object({
+  name: z.string().min(1).max(100),
+  values: z.array(z.string().min(1).max(100)).min(1),
+}).strict();
+
+const v1VariantSchema = z.object({
+  id: z.string().min(1).optional().describe('Generated when left out'),
+  sku: z.string().min(1).max(100),
+  gtin: z.string().regex(/^\d{8,14}$/).optional(),
+  optionValues: z.record(z.string()).describe('Option name to value, e.g. {"Color": "Red"}'),
+  standardPrice: z.array(v1PriceSchema).optional(),
+  salePrice: z.array(v1PriceSchema).optional(),
+}).strict();
+
+const v1BasicInfoSchema = z.object({
+  name: v1LocalizedTextSchema,
+  sku: z.string().min(1).max(100),
+  gtin: z.string().regex(/^\d{8,14}$/).optional(),
+  descriptionShort: v1LocalizedTextSchema.optional(),
+  descriptionLong: v1LocalizedTextSchema.optional(),
+  brand: z.string().max(200).optional(),
+  status: z.enum(V1_PRODUCT_STATUSES).optional(),
+  launchDate: z.string().datetime().optional(),
+  endDate: z.string().datetime().optional(),
+}).strict();
+
+const v1AttributesSchema = z.object({
+  categories: z.array(z.string().min(1)).describe('Category IDs'),
+  properties: z.array(v1KeyValueSchema),
+  technicalSpecs: z.array(v1KeyValueSchema),
+  countryOfOrigin: z.string().max(100).optional(),
+}).strict();
+
+const v1MarketingSchema = z.object({
+  seoTitle: v1LocalizedTextSchema,
+  seoDescription: v1LocalizedTextSchema,
+  keywords: z.array(z.string().min(1).max(100)).max(100),
+}).strict();
+
+const v1PricingSchema = z.object({
+  standardPrice: z.array(v1PriceSchema),
+  salePrice: z.array(v1PriceSchema),
+  costPrice: z.array(v1PriceSchema),
+}).strict();
+
+export const v1ProductCreateSchema = z.object({
+  basicInfo: v1BasicInfoSchema,
+  attributesAndSpecs: v1AttributesSchema.partial().optional(),
+  media: z.array(v1MediaCreateSchema).optional(),
+  marketingSEO: v1MarketingSchema.partial().optional(),
+  pricingAndStock: v1PricingSchema.partial().optional(),
+  options: z.array(v1OptionSchema).optional(),
+  variants: z.array(v1VariantSchema).optional(),
+}).strict();
+
+/**
+ * Sections and fields left out are kept; lists given replace the stored list
+ */
+export const v1ProductUpdateSchema = z.object({
+  basicInfo: v1BasicInfoSchema.partial().optional(),
+  attributesAndSpecs: v1AttributesSchema.partial().optional(),
+  media: z.array(v1MediaCreateSchema.extend({ id: z.string().optional() }).strict()).optional(),
+  marketingSEO: v1MarketingSchema.partial().optional(),
+  pricingAndStock: v1PricingSchema.partial().optional(),
+  options: z.array(v1OptionSchema).optional(),
+  variants: z.array(v1VariantSchema).optional(),
+}).strict();
+
+export const v1ProductSchema = z.object({
+  id: z.string(),
+  productType: z.enum(['simple', 'bundle']),
+  basicInfo: v1BasicInfoSchema.extend({
+    descriptionShort: v1LocalizedTextSchema,
+    descriptionLong: v1LocalizedTextSchema,
+    brand: z.string(),
+    status: z.enum(V1_PRODUCT_STATUSES),
+  }).strict(),
+  attributesAndSpecs: v1AttributesSchema,
+  media: z.array(v1MediaSchema),
+  marketingSEO: v1MarketingSchema,
+  pricingAndStock: v1PricingSchema,
+  options: z.array(v1OptionSchema),
+  variants: z.array(v1VariantSchema.extend({ id: z.string() }).strict()),
+  workflowState: z.nativeEnum(WorkflowState),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+}).strict();
+
+export const v1ProductListQuerySchema = z.object({
+  workflowState: z.nativeEnum(WorkflowState).optional(),
+  search: z.string().min(1).max(200).optional().describe('Full-text search; results are ranked by relevance'),
+  cursor: z.string().optional().describe('nextCursor of the previous page'),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+}).strict();
+
+export const v1ProductPageSchema = z.object({
+  products: z.array(v1ProductSchema),
+  total: z.number().int(),
+  totalEstimated: z.boolean().describe('The exact count was unavailable; total is a lower bound'),
+  hasNext: z.boolean(),
+  nextCursor: z.string().optional(),
+}).strict();
+
+export const v1CategorySchema = z.object({
+  id: z.string(),
+  parentId: z.string().nullable(),
+  name: v1LocalizedTextSchema,
+  slug: z.string(),
+  order: z.number().int(),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+}).strict();
+
+export const v1CategoryCreateSchema = z.object({
+  name: v1LocalizedTextSchema,
+  parentId: z.string().nullable().optional(),
+  slug: z.string().regex(/^[a-z0-9]+(-[a-z0-9]+)*$/).optional().describe('Generated from the English name when left out'),
+  order: z.number().int().min(0).optional(),
+}).strict();
+
+export const v1CategoryUpdateSchema = z.object({
+  name: v1LocalizedTextSchema.optional(),
+  slug: z.string().regex(/^[a-z0-9]+(-[a-z0-9]+)*$/).optional(),
+}).strict();
+
+export const v1WorkflowTransitionSchema = z.object({
+  toState: z.nativeEnum(WorkflowState),
+  reason: z.string().min(1).max(2000).optional().describe('Required when rejecting'),
+  reviewer: z.object({
+    userId: z.string().min(1),
+    userName: z.string().min(1),
+    userRole: z.nativeEnum(UserRole),
+  }).strict().optional().describe('Required when submitting for review'),
+}).strict();
+
+export const v1WorkflowSchema = z.object({
+  productId: z.string(),
+  workflowState: z.nativeEnum(WorkflowState),
+  transitions: z.array(z.object({
+    toState: z.nativeEnum(WorkflowState),
+    scope: z.enum(['write', 'publish']).describe('API key scope the transition needs'),
+  }).strict()),
+  history: z.array(z.object({
+    action: z.string(),
+    fromState: z.nativeEnum(WorkflowState),
+    toState: z.nativeEnum(WorkflowState),
+    userName: z.string(),
+    timestamp: z.string(),
+    reason: z.string().optional(),
+  }).strict()),
+}).strict();
+
+export const v1IdParamsSchema = z.object({
+  id: z.string().min(1),
+}).strict();
+
+export const v1MediaParamsSchema = z.object({
+  id: z.string().min(1).describe('Product ID'),
+  mediaId: z.string().min(1),
+}).strict();
+
+export const v1GraphQLRequestSchema = z.object({
+  query: z.string().min(1).max(20000).describe('GraphQL document; the schema is available through introspection'),
+  variables: z.record(z.unknown()).nullable().optional(),
+  operationName: z.string().nullable().optional(),
+}).strict();
+
+export const v1GraphQLResponseSchema = z.object({
+  data: z.record(z.unknown()).nullable().optional(),
+  errors: z.array(z.object({
+    message: z.string(),
+    path: z.array(z.union([z.string(), z.number()])).optional(),
+    extensions: z.record(z.unknown()).optional().describe('`code` tells errors apart, e.g. QUERY_TOO_COMPLEX'),
+  })).optional(),
+});
+
+export const v1ErrorSchema = z.object({
+  success: z.literal(false),
+  error: z.string(),
+  code: z.string().optional(),
+  details: z.array(z.unknown()).optional(),
+}).strict();
+
+export type V1Product = z.infer<typeof v1ProductSchema>;
+export type V1ProductCreateInput = z.infer<typeof v1ProductCreateSchema>;
+export type V1ProductUpdateInput = z.infer<typeof v1ProductUpdateSchema>;
+export type V1ProductListQuery = z.infer<typeof v1ProductListQuerySchema>;
+export type V1Media = z.infer<typeof v1MediaSchema>;
+export type V1MediaCreateInput = z.infer<typeof v1MediaCreateSchema>;
+export type V1Category = z.infer<typeof v1CategorySchema>;
+export type V1CategoryCreateInput = z.infer<typeof v1CategoryCreateSchema>;
+export type V1CategoryUpdateInput = z.infer<typeof v1CategoryUpdateSchema>;
+export type V1WorkflowTransitionInput = z.infer<typeof v1WorkflowTransitionSchema>;
+export type V1Workflow = z.infer<typeof v1WorkflowSchema>;
+export type V1GraphQLRequest = z.infer<typeof v1GraphQLRequestSchema>;
@@ -0,0 +1,479 @@
+/**
+ * API v1 Service
+ *
+ * Products, media and workflow for the public /api/v1 routes. Translates
+ * between the v1 representation (api-v1-schemas.ts) and the internal
+ * Product, and saves through the same services, history and audit trail as
+ * the app, attributing changes to the API key.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type { KeyValueEntry, MediaEntry, MultilingualString, PriceEntry, Product, ProductOption, ProductVariant } from '@/types/product';
+import { initialProductData } from '@/types/product';
+import { ProductWorkflow, WorkflowState } from '@/types/workflow';
+import type {
+  V1Media,
+  V1MediaCreateInput,
+  V1Product,
+  V1ProductCreateInput,
+  V1ProductListQuery,
+  V1ProductUpdateInput,
+  V1Workflow,
+  V1WorkflowTransitionInput,
+} from './api-v1-schemas';
+import { getTransitionScope, type ApiKeyPrincipal } from './api-keys';
+import { AuditTrailIntegration } from './audit-trail-integration';
+import { categoryService, CategoryService } from './category-service';
+import { localeService, LocaleService } from './locale-service';
+import { toMultilingualString } from './locales';
+import { productService, ProductService } from './product-service';
+import { RolePermissions } from './role-permissions';
+import { getRequiredRoleForTransition, workflowStateTransitionRules } from './workflow-config';
+import { WorkflowStateManager } from './workflow-state-manager';
+
+/**
+ * API v1 Service Result
+ */
+export interface ApiV1ServiceResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  code?: string;
+  details?: string[];
+}
+
+// Where each media type is kept on the internal product
+const MEDIA_LISTS: Record<MediaEntry['type'], keyof Product['media']> = {
+  image: 'images',
+  video: 'videos',
+  '3d_model': 'models3d',
+  manual: 'manuals',
+  certificate: 'certificates',
+};
+
+export class ApiV1Service {
+  private audit: AuditTrailIntegration;
+
+  constructor(
+    private products: ProductService = productService,
+    private categories: CategoryService = categoryService,
+    private locales: LocaleService = localeService,
+    private stateManager: WorkflowStateManager = new WorkflowStateManager(),
+    audit?: AuditTrailIntegration
+  ) {
+    // A separate state manager, so transitions are audited once, after they are saved
+    this.audit = audit || new AuditTrailIntegration(new WorkflowStateManager(), new RolePermissions());
+  }
+
+  async listProducts(query: V1ProductListQuery) {
+    const page = await this.products.getProducts(query);
+    return { ...page, products: page.products.map(toV1Product) };
+  }
+
+  async getProduct(id: string): Promise<ApiV1ServiceResult<V1Product>> {
+    const product = await this.products.getProductById(id);
+    if (!product) return notFound();
+    return { success: true, data: toV1Product(product) };
+  }
+
+  async createProduct(input: V1ProductCreateInput, actor: ApiKeyPrincipal): Promise<ApiV1ServiceResult<V1Product>> {
+    const categoryError = await this.checkCategories(input.attributesAndSpecs?.categories);
+    if (categoryError) return categoryError;
+
+    const now = new Date().toISOString();
+    const base: Product = { ...initialProductData, id: `product_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`, createdAt: now, updatedAt: now };
+    const product: Product = {
+      ...applyProductInput(base, input),
+      workflowState: WorkflowState.DRAFT,
+      workflowHistory: [{
+        id: `history_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        action: 'CREATE',
+        fromState: WorkflowState.DRAFT,
+        toState: WorkflowState.DRAFT,
+        userId: actor.userId,
+        userName: actor.userName,
+        timestamp: now,
+        reason: 'Product created',
+      }],
+    };
+
+    await this.products.createProduct(product, { userId: actor.userId, userName: actor.userName, tenantId: actor.tenantId });
+    this.audit.createProductAuditEntry(actor.userId, actor.userRole, actor.email, product.id, product, auditSource(actor));
+    return { success: true, data: toV1Product(product) };
+  }
+
+  async updateProduct(id: string, input: V1ProductUpdateInput, actor: ApiKeyPrincipal): Promise<ApiV1ServiceResult<V1Product>> {
+    const existing = await this.products.getProductById(id);
+    if (!existing) return notFound();
+
+    const categoryError = await this.checkCategories(input.attributesAndSpecs?.categories);
+    if (categoryError) return categoryError;
+
+    const updated = { ...applyProductInput(existing, input), updatedAt: new Date().toISOString() };
+    await this.save(existing, updated, actor, 'Product updated');
+    return { success: true, data: toV1Product(updated) };
+  }
+
+  async deleteProduct(id: string, actor: ApiKeyPrincipal): Promise<ApiV1ServiceResult<void>> {
+    const product = await this.products.getProductById(id);
+    if (!product) return notFound();
+
+    await this.products.deleteProduct(id, { userId: actor.userId, userName: actor.userName, reason: 'Product deleted', tenantId: actor.tenantId });
+    this.audit.createProductDeleteAuditEntry(actor.userId, actor.userRole, actor.email, id, product, 'Product deleted', auditSource(actor));
+    return { success: true };
+  }
+
+  async listMedia(id: string): Promise<ApiV1ServiceResult<V1Media[]>> {
+    const product = await this.products.getProductById(id);
+    if (!product) return notFound();
+    return { success: true, data: getMediaEntries(product).map(toV1Media) };
+  }
+
+  async addMedia(id: string, input: V1MediaCreateInput, actor: ApiKeyPrincipal): Promise<ApiV1ServiceResult<V1Media>> {
+    const existing = await this.products.getProductById(id);
+    if (!existing) return notFound();
+
+    const entry = fromV1Media(input);
+    const updated: Product = {
+      ...existing,
+      media: groupMediaEntries([...getMediaEntries(existing), entry]),
+      updatedAt: new Date().toISOString(),
+    };
+    await this.save(existing, updated, actor, 'Media added');
+    return { success: true, data: toV1Media(entry) };
+  }
+
+  /**
+   * Remove a media entry, and unlink it from the variants that show it
+   */
+  async deleteMedia(id: string, mediaId: string, actor: ApiKeyPrincipal): Promise<ApiV1ServiceResult<void>> {
+    const existing = await this.products.getProductById(id);
+    if (!existing) return notFound();
+
+    const entries = getMediaEntries(existing);
+    if (!entries.some(entry => entry.id === mediaId)) {
+      return { success: false, error: 'Media not found', code: 'NOT_FOUND' };
+    }
+
+    const updated: Product = {
+      ...existing,
+      media: groupMediaEntries(entries.filter(entry => entry.id !== mediaId)),
+      variants: existing.variants?.map(variant => ({
+        ...variant,
+        imageIds: variant.imageIds?.filter(imageId => imageId !== mediaId),
+      })),
+      updatedAt: new Date().toISOString(),
+    };
+    await this.save(existing, updated, actor, 'Media removed');
+    return { success: true };
+  }
+
+  async getWorkflow(id: string): Promise<ApiV1ServiceResult<V1Workflow>> {
+    const product = await this.products.getProductById(id);
+    if (!product) return notFound();
+    return { success: true, data: toV1Workflow(product) };
+  }
+
+  /**
+   * Move a product through the workflow. Transitions an editor makes need the
+   * key's `write` scope, those a reviewer or admin makes need `publish`.
+   */
+  async transition(
+    id: string,
+    input: V1WorkflowTransitionInput,
+    actor: ApiKeyPrincipal
+  ): Promise<ApiV1ServiceResult<V1Workflow>> {
+    const product = await this.products.getProductById(id);
+    if (!product) return notFound();
+
+    const fromState = product.workflowState || WorkflowState.DRAFT;
+    const scope = getTransitionScope(fromState, input.toState);
+    const requiredRole = getRequiredRoleForTransition(fromState, input.toState);
+    if (!scope || !requiredRole) {
+      return { success: false, error: `Transition from ${fromState} to ${input.toState} is not allowed`, code: 'INVALID_TRANSITION' };
+    }
+    if (!actor.scopes.includes(scope)) {
+      return { success: false, error: `The API key lacks the "${scope}" scope`, code: 'INSUFFICIENT_SCOPE' };
+    }
+
+    const reason = input.reason || `Changed to ${input.toState} through the API`;
+    const result = await this.stateManager.executeStateTransition(
+      {
+        productId: product.id,
+        fromState,
+        toState: input.toState,
+        userId: actor.userId,
+        // The scope check above stands in for the role the transition needs
+        userRole: requiredRole,
+        reason: input.reason,
+        assignedReviewer: input.reviewer?.userId,
+        translationRequirement: await this.locales.getPublishRequirement(actor.tenantId),
+      },
+      { ...product, workflowHistory: product.workflowHistory || [] } as unknown as ProductWorkflow
+    );
+    if (!result.success) {
+      return { success: false, error: result.error, code: 'INVALID_TRANSITION' };
+    }
+
+    const now = new Date().toISOString();
+    const updated: Product = {
+      ...product,
+      workflowState: input.toState,
+      assignedReviewer: input.reviewer || product.assignedReviewer,
+      workflowHistory: [
+        ...(product.workflowHistory || []),
+        {
+          id: `history_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+          action: 'STATE_CHANGE',
+          fromState,
+          toState: input.toState,
+          userId: actor.userId,
+          userName: actor.userName,
+          timestamp: now,
+          reason,
+        },
+      ],
+      updatedAt: now,
+    };
+
+    await this.products.updateProduct(id, updated, { userId: actor.userId, userName: actor.userName, reason, tenantId: actor.tenantId });
+    this.audit.createStateTransitionAuditEntry(
+      actor.userId,
+      actor.userRole,
+      actor.email,
+      id,
+      fromState,
+      input.toState,
+      reason,
+      auditSource(actor)
+    );
+    return { success: true, data: toV1Workflow(updated) };
+  }
+
+  private async save(existing: Product, updated: Product, actor: ApiKeyPrincipal, reason: string): Promise<void> {
+    await this.products.updateProduct(updated.id, updated, { userId: actor.userId, userName: actor.userName, reason, tenantId: actor.tenantId });
+    await this.audit.createProductUpdateAuditEntry(
+      actor.userId,
+      actor.userRole,
+      actor.email,
+      updated.id,
+      existing,
+      updated,
+      reason,
+      { ...auditSource(actor), userName: actor.userName }
+    );
+  }
+
+  /**
+   * Products may only reference categories of the managed taxonomy
+   */
+  private async checkCategories(ids: string[] | undefined): Promise<ApiV1ServiceResult<never> | null> {
+    if (!ids?.length) return null;
+    const known = new Set((await this.categories.listCategories()).map(category => category.id));
+    const unknown = ids.filter(id => !known.has(id));
+    if (unknown.length === 0) return null;
+    return {
+      success: false,
+      error: 'Unknown categories',
+      code: 'VALIDATION_ERROR',
+      details: unknown.map(id => `Category ${id} does not exist`),
+    };
+  }
+}
+
+function notFound<T>(): ApiV1ServiceResult<T> {
+  return { success: false, error: 'Product not found', code: 'NOT_FOUND' };
+}
+
+function auditSource(actor: ApiKeyPrincipal): Record<string, string> {
+  return { source: 'api_v1', apiKeyId: actor.apiKeyId };
+}
+
+/**
+ * Localized text merges per locale: locales left out keep their text
+ */
+function mergeLocalized(existing: MultilingualString | undefined, value: Record<string, string> | undefined): MultilingualString {
+  return toMultilingualString({ ...existing, ...value });
+}
+
+function fromV1KeyValues(entries: Array<{ key: string; value: string }>): KeyValueEntry[] {
+  return entries.map(entry => ({ id: uuidv4(), key: entry.key, value: entry.value }));
+}
+
+function fromV1Prices(prices: Array<Omit<PriceEntry, 'id' | 'active'>> | undefined): PriceEntry[] | undefined {
+  return prices?.map(price => ({ id: uuidv4(), ...price }));
+}
+
+function toV1Prices(prices: PriceEntry[] | undefined) {
+  return (prices || []).map(({ currency, amount, validFrom, validTo }) => ({ currency, amount, validFrom, validTo }));
+}
+
+function fromV1Media(input: V1MediaCreateInput & { id?: string }): MediaEntry {
+  return {
+    id: input.id || uuidv4(),
+    url: input.url,
+    type: input.type,
+    altText: input.altText ? toMultilingualString(input.altText) : undefined,
+    title: input.title,
+    language: input.language,
+  };
+}
+
+function toV1Media(entry: MediaEntry): V1Media {
+  return {
+    id: entry.id,
+    url: entry.url,
+    type: entry.type,
+    altText: entry.altText,
+    title: entry.title,
+    language: entry.language,
+  };
+}
+
+/**
+ * All media of a product as one list, images first
+ */
+export function getMediaEntries(product: Product): MediaEntry[] {
+  return Object.values(MEDIA_LISTS).flatMap(list => product.media?.[list] || []);
+}
+
+function groupMediaEntries(entries: MediaEntry[]): Product['media'] {
+  const media: Product['media'] = { images: [] };
+  for (const entry of entries) {
+    const list = MEDIA_LISTS[entry.type];
+    media[list] = [...(media[list] || []), entry];
+  }
+  return media;
+}
+
+/**
+ * Apply a v1 create or update body to a product. Sections and fields left
+ * out are kept; lists given replace the stored list.
+ */
+export function applyProductInput(product: Product, input: V1ProductUpdateInput): Product {
+  const { basicInfo, attributesAndSpecs: attributes, marketingSEO: marketing, pricingAndStock: pricing } = input;
+
+  const options: ProductOption[] | undefined = input.options?.map(option => ({
+    // Keep option IDs stable across updates
+    id: product.options?.find(existing => existing.name === option.name)?.id || uuidv4(),
+    name: option.name,
+    values: option.values,
+  }));
+  const variants: ProductVariant[] | undefined = input.variants?.map(variant => {
+    const existing = product.variants?.find(v => v.id === variant.id || v.sku === variant.sku);
+    return {
+      ...existing,
+      id: variant.id || existing?.id || uuidv4(),
+      sku: variant.sku,
+      gtin: variant.gtin,
+      optionValues: variant.optionValues,
+      standardPrice: fromV1Prices(variant.standardPrice) ?? existing?.standardPrice,
+      salePrice: fromV1Prices(variant.salePrice) ?? existing?.salePrice,
+    };
+  });
+
+  return {
+    ...product,
+    basicInfo: {
+      ...product.basicInfo,
+      ...basicInfo,
+      name: basicInfo?.name ? mergeLocalized(product.basicInfo.name, basicInfo.name) : product.basicInfo.name,
+      descriptionShort: basicInfo?.descriptionShort
+        ? mergeLocalized(product.basicInfo.descriptionShort, basicInfo.descriptionShort)
+        : product.basicInfo.descriptionShort,
+      descriptionLong: basicInfo?.descriptionLong
+        ? mergeLocalized(product.basicInfo.descriptionLong, basicInfo.descriptionLong)
+        : product.basicInfo.descriptionLong,
+    },
+    attributesAndSpecs: {
+      ...product.attributesAndSpecs,
+      ...(attributes?.categories ? { categories: attributes.categories } : {}),
+      ...(attributes?.properties ? { properties: fromV1KeyValues(attributes.properties) } : {}),
+      ...(attributes?.technicalSpecs ? { technicalSpecs: fromV1KeyValues(attributes.technicalSpecs) } : {}),
+      ...(attributes?.countryOfOrigin !== undefined ? { countryOfOrigin: attributes.countryOfOrigin } : {}),
+    },
+    media: input.media ? groupMediaEntries(input.media.map(fromV1Media)) : product.media,
+    marketingSEO: {
+      ...product.marketingSEO,
+      ...(marketing?.seoTitle ? { seoTitle: mergeLocalized(product.marketingSEO.seoTitle, marketing.seoTitle) } : {}),
+      ...(marketing?.seoDescription ? { seoDescription: mergeLocalized(product.marketingSEO.seoDescription, marketing.seoDescription) } : {}),
+      ...(marketing?.keywords ? { keywords: marketing.keywords } : {}),
+    },
+    pricingAndStock: {
+      standardPrice: fromV1Prices(pricing?.standardPrice) ?? product.pricingAndStock?.standardPrice ?? [],
+      salePrice: fromV1Prices(pricing?.salePrice) ?? product.pricingAndStock?.salePrice ?? [],
+      costPrice: fromV1Prices(pricing?.costPrice) ?? product.pricingAndStock?.costPrice ?? [],
+    },
+    options: options ?? product.options,
+    variants: variants ?? product.variants,
+  };
+}
+
+export function toV1Product(product: Product): V1Product {
+  const { basicInfo, attributesAndSpecs: attributes, marketingSEO: marketing } = product;
+  return {
+    id: product.id,
+    productType: product.productType || 'simple',
+    basicInfo: {
+      name: basicInfo.name,
+      sku: basicInfo.sku,
+      gtin: basicInfo.gtin || undefined,
+      descriptionShort: basicInfo.descriptionShort,
+      descriptionLong: basicInfo.descriptionLong,
+      brand: basicInfo.brand,
+      status: basicInfo.status,
+      launchDate: basicInfo.launchDate || undefined,
+      endDate: basicInfo.endDate || undefined,
+    },
+    attributesAndSpecs: {
+      categories: attributes?.categories || [],
+      properties: (attributes?.properties || []).map(({ key, value }) => ({ key, value })),
+      technicalSpecs: (attributes?.technicalSpecs || []).map(({ key, value }) => ({ key, value })),
+      countryOfOrigin: attributes?.countryOfOrigin || undefined,
+    },
+    media: getMediaEntries(product).map(toV1Media),
+    marketingSEO: {
+      seoTitle: marketing?.seoTitle || { en: '', no: '' },
+      seoDescription: marketing?.seoDescription || { en: '', no: '' },
+      keywords: marketing?.keywords || [],
+    },
+    pricingAndStock: {
+      standardPrice: toV1Prices(product.pricingAndStock?.standardPrice),
+      salePrice: toV1Prices(product.pricingAndStock?.salePrice),
+      costPrice: toV1Prices(product.pricingAndStock?.costPrice),
+    },
+    options: (product.options || []).map(({ name, values }) => ({ name, values })),
+    variants: (product.variants || []).map(variant => ({
+      id: variant.id,
+      sku: variant.sku,
+      gtin: variant.gtin || undefined,
+      optionValues: variant.optionValues,
+      standardPrice: variant.standardPrice ? toV1Prices(variant.standardPrice) : undefined,
+      salePrice: variant.salePrice ? toV1Prices(variant.salePrice) : undefined,
+    })),
+    workflowState: product.workflowState || WorkflowState.DRAFT,
+    createdAt: product.createdAt,
+    updatedAt: product.updatedAt,
+  };
+}
+
+function toV1Workflow(product: Product): V1Workflow {
+  const state = product.workflowState || WorkflowState.DRAFT;
+  return {
+    productId: product.id,
+    workflowState: state,
+    transitions: workflowStateTransitionRules
+      .filter(rule => rule.from === state && rule.to !== state)
+      .map(rule => ({ toState: rule.to, scope: getTransitionScope(rule.from, rule.to) as 'write' | 'publish' })),
+    history: (product.workflowHistory || []).map(entry => ({
+      action: entry.action,
+      fromState: entry.fromState,
+      toState: entry.toState,
+      userName: entry.userName,
+      timestamp: entry.timestamp,
+      reason: entry.reason,
+    })),
+  };
+}
+
+export const apiV1Service = new ApiV1Service();
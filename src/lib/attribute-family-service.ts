@@ -0,0 +1,120 @@
+/**
+ * Attribute Family Service
+ *
+ * CRUD for attribute families. Definitions are validated before saving, and
+ * a family cannot be deleted while products are still assigned to it.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type { AttributeFamily, CreateAttributeFamilyInput, UpdateAttributeFamilyInput } from '@/types/attribute';
+import { firestoreAttributeFamilyRepository, FirestoreAttributeFamilyRepository } from './firestore-attribute-family-repository';
+import { firestoreProductRepository, FirestoreProductRepository } from './firestore-product-repository';
+import { validateAttributeFamily } from './attribute-validation';
+
+/**
+ * Attribute Family Service Result
+ */
+export interface AttributeFamilyServiceResult<T = AttributeFamily> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  code?: string;
+  details?: string[];
+}
+
+export class AttributeFamilyService {
+  constructor(
+    private familyRepo: FirestoreAttributeFamilyRepository = firestoreAttributeFamilyRepository,
+    private productRepo: FirestoreProductRepository = firestoreProductRepository
+  ) { }
+
+  async listFamilies(): Promise<AttributeFamily[]> {
+    const families = await this.familyRepo.getAll();
+    return families.sort((a, b) => a.code.localeCompare(b.code));
+  }
+
+  async getFamily(id: string): Promise<AttributeFamilyServiceResult> {
+    const family = await this.familyRepo.getById(id);
+    if (!family) {
+      return { success: false, error: 'Attribute family not found', code: 'NOT_FOUND' };
+    }
+    return { success: true, data: family };
+  }
+
+  async createFamily(input: CreateAttributeFamilyInput): Promise<AttributeFamilyServiceResult> {
+    const errors = validateAttributeFamily(input);
+    if (errors.length > 0) {
+      return { success: false, error: 'Invalid attribute family', code: 'VALIDATION_ERROR', details: errors };
+    }
+
+    const existing = await this.familyRepo.getAll();
+    if (existing.some(f => f.code === input.code)) {
+      return { success: false, error: `An attribute family with code "${input.code}" already exists`, code: 'CODE_EXISTS' };
+    }
+
+    const now = new Date().toISOString();
+    const family: AttributeFamily = {
+      id: uuidv4(),
+      code: input.code,
+      name: input.name,
+      description: input.description,
+      attributes: input.attributes,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.familyRepo.save(family);
+    return { success: true, data: family };
+  }
+
+  async updateFamily(id: string, input: UpdateAttributeFamilyInput): Promise<AttributeFamilyServiceResult> {
+    const existing = await this.familyRepo.getById(id);
+    if (!existing) {
+      return { success: false, error: 'Attribute family not found', code: 'NOT_FOUND' };
+    }
+
+    const updated: AttributeFamily = {
+      ...existing,
+      ...input,
+      id,
+      updatedAt: new Date().toISOString(),
+    };
+
+    const errors = validateAttributeFamily(updated);
+    if (errors.length > 0) {
+      return { success: false, error: 'Invalid attribute family', code: 'VALIDATION_ERROR', details: errors };
+    }
+
+    if (input.code && input.code !== existing.code) {
+      const families = await this.familyRepo.getAll();
+      if (families.some(f => f.id !== id && f.code === input.code)) {
+        return { success: false, error: `An attribute family with code "${input.code}" already exists`, code: 'CODE_EXISTS' };
+      }
+    }
+
+    await this.familyRepo.save(updated);
+    return { success: true, data: updated };
+  }
+
+  async deleteFamily(id: string): Promise<AttributeFamilyServiceResult<void>> {
+    const existing = await this.familyRepo.getById(id);
+    if (!existing) {
+      return { success: false, error: 'Attribute family not found', code: 'NOT_FOUND' };
+    }
+
+    const products = await this.productRepo.getAll();
+    const inUse = products.filter(p => p.attribute_family_id === id).length;
+    if (inUse > 0) {
+      return {
+        success: false,
+        error: `Attribute family is assigned to ${inUse} product(s). Reassign them first.`,
+        code: 'IN_USE',
+      };
+    }
+
+    await this.familyRepo.delete(id);
+    return { success: true };
+  }
+}
+
+export const attributeFamilyService = new AttributeFamilyService();
@@ -0,0 +1,76 @@
+import { create } from 'zustand';
+import type { AttributeFamily, CreateAttributeFamilyInput, UpdateAttributeFamilyInput } from '@/types/attribute';
+
+interface AttributeFamilyState {
+  families: AttributeFamily[];
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  fetchFamilies: () => Promise<void>;
+  createFamily: (input: CreateAttributeFamilyInput) => Promise<AttributeFamily>;
+  updateFamily: (id: string, input: UpdateAttributeFamilyInput) => Promise<AttributeFamily>;
+  deleteFamily: (id: string) => Promise<void>;
+
+  // Helpers (synchronous lookup from state)
+  getFamilyById: (id: string | undefined) => AttributeFamily | undefined;
+}
+
+function buildHeaders(): Record<string, string> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  const token = typeof window !== 'undefined' ? localStorage.getItem('accessToken') : null;
+  if (token) headers['Authorization'] = `Bearer ${token}`;
+  return headers;
+}
+
+async function request<T>(url: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(url, { ...init, headers: buildHeaders() });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok || !data.success) {
+    const details = Array.isArray(data.details) && data.details.length > 0 ? `: ${data.details.join('; ')}` : '';
+    throw new Error((data.error || `Request failed: ${response.status} ${response.statusText}`) + details);
+  }
+  return data.data as T;
+}
+
+export const useAttributeFamilyStore = create<AttributeFamilyState>((set, get) => ({
+  families: [],
+  isLoading: false,
+  error: null,
+
+  fetchFamilies: async () => {
+    set({ isLoading: true, error: null });
+    try {
+      const families = await request<AttributeFamily[]>('/api/attribute-families');
+      set({ families, isLoading: false });
+    } catch (error) {
+      console.error('Error fetching attribute families:', error);
+      set({ error: (error as Error).message, isLoading: false });
+    }
+  },
+
+  createFamily: async (input) => {
+    const family = await request<AttributeFamily>('/api/attribute-families', {
+      method: 'POST',
+      body: JSON.stringify(input),
+    });
+    set(state => ({ families: [...state.families, family] }));
+    return family;
+  },
+
+  updateFamily: async (id, input) => {
+    const family = await request<AttributeFamily>(`/api/attribute-families/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(input),
+    });
+    set(state => ({ families: state.families.map(f => (f.id === id ? family : f)) }));
+    return family;
+  },
+
+  deleteFamily: async (id) => {
+    await request(`/api/attribute-families/${id}`, { method: 'DELETE' });
+    set(state => ({ families: state.families.filter(f => f.id !== id) }));
+  },
+
+  getFamilyById: (id) => (id ? get().families.find(f => f.id === id) : undefined),
+}));
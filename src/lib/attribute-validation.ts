@@ -0,0 +1,371 @@
+/**
+ * Attribute Validation
+ *
+ * Pure helpers for checking attribute family definitions and the typed
+ * attribute values stored on products.
+ */
+
+import { z } from 'zod';
+import type {
+  AttributeDefinition,
+  AttributeFamily,
+  AttributeType,
+  AttributeValidationIssue,
+  AttributeValue,
+  AttributeValues,
+  QuantityValue,
+} from '@/types/attribute';
+import { ATTRIBUTE_TYPES } from '@/types/attribute';
+import { DIMENSIONS, type Dimension } from '@/types/units';
+import type { MultilingualString, Product } from '@/types/product';
+import { convertUnit, findUnit, normalizeQuantity, parseQuantity } from './units-of-measure';
+
+const ATTRIBUTE_CODE_PATTERN = /^[a-z][a-z0-9_]*$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const multilingualSchema = z.object({
+  en: z.string().default(''),
+  no: z.string().default(''),
+}).catchall(z.string());
+
+/**
+ * Request schema for a single attribute definition
+ */
+export const attributeDefinitionSchema = z.object({
+  code: z.string().min(1),
+  label: multilingualSchema,
+  type: z.enum(ATTRIBUTE_TYPES as [AttributeType, ...AttributeType[]]),
+  required: z.boolean().default(false),
+  unit: z.string().optional(),
+  dimension: z.enum(DIMENSIONS as [Dimension, ...Dimension[]]).optional(),
+  options: z.array(z.object({
+    value: z.string().min(1),
+    label: multilingualSchema,
+  })).optional(),
+  constraints: z.object({
+    minLength: z.number().int().min(0).optional(),
+    maxLength: z.number().int().min(0).optional(),
+    pattern: z.string().optional(),
+    min: z.number().optional(),
+    max: z.number().optional(),
+    integer: z.boolean().optional(),
+    multiple: z.boolean().optional(),
+    minDate: z.string().optional(),
+    maxDate: z.string().optional(),
+  }).optional(),
+  weight: z.number().min(0).optional(),
+  helpText: multilingualSchema.optional(),
+});
+
+/**
+ * Request schema for creating an attribute family
+ */
+export const attributeFamilyCreateSchema = z.object({
+  code: z.string().min(1),
+  name: multilingualSchema,
+  description: z.string().optional(),
+  attributes: z.array(attributeDefinitionSchema).default([]),
+});
+
+/**
+ * Request schema for updating an attribute family
+ */
+export const attributeFamilyUpdateSchema = attributeFamilyCreateSchema.partial();
+
+function isQuantityValue(value: AttributeValue): value is QuantityValue {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && typeof (value as QuantityValue).value === 'number';
+}
+
+function isMultilingualValue(value: AttributeValue): value is MultilingualString {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !isQuantityValue(value);
+}
+
+/**
+ * Get the attribute family assigned to a product, if any
+ */
+export function findFamilyForProduct(families: AttributeFamily[], product: Product): AttributeFamily | undefined {
+  const familyId = product.attributesAndSpecs?.familyId;
+  return familyId ? families.find(f => f.id === familyId) : undefined;
+}
+
+/**
+ * Check whether an attribute value counts as "filled in"
+ */
+export function isAttributeValueEmpty(definition: AttributeDefinition, value: AttributeValue | undefined): boolean {
+  if (value === null || value === undefined) return true;
+
+  switch (definition.type) {
+    case 'boolean':
+      return typeof value !== 'boolean';
+    case 'number':
+      return !(isQuantityValue(value) && Number.isFinite(value.value)) && typeof value !== 'number';
+    case 'enum':
+      return Array.isArray(value) ? value.length === 0 : typeof value !== 'string' || value.trim() === '';
+    case 'multilingual':
+      return !isMultilingualValue(value) ||
+        !Object.values(value).some(v => typeof v === 'string' && v.trim() !== '');
+    default:
+      return typeof value !== 'string' || value.trim() === '';
+  }
+}
+
+function checkLength(text: string, definition: AttributeDefinition): string | null {
+  const { minLength, maxLength, pattern } = definition.constraints || {};
+  if (minLength !== undefined && text.length < minLength) return `must be at least ${minLength} characters`;
+  if (maxLength !== undefined && text.length > maxLength) return `must be at most ${maxLength} characters`;
+  if (pattern) {
+    try {
+      if (!new RegExp(pattern).test(text)) return `does not match the required format`;
+    } catch {
+      // An invalid pattern is caught when the family is saved; ignore it here
+    }
+  }
+  return null;
+}
+
+/**
+ * Validate a single, non-empty attribute value against its definition.
+ * Returns an error message, or null when the value is valid.
+ */
+export function validateAttributeValue(definition: AttributeDefinition, value: AttributeValue | undefined): string | null {
+  if (isAttributeValueEmpty(definition, value)) return null;
+  const constraints = definition.constraints || {};
+
+  switch (definition.type) {
+    case 'text': {
+      if (typeof value !== 'string') return 'must be text';
+      return checkLength(value, definition);
+    }
+    case 'multilingual': {
+      if (!isMultilingualValue(value!)) return 'must be a translated text';
+      for (const [locale, text] of Object.entries(value as MultilingualString)) {
+        if (!text) continue;
+        const error = checkLength(text, definition);
+        if (error) return `${error} (${locale})`;
+      }
+      return null;
+    }
+    case 'number': {
+      const quantity: QuantityValue = typeof value === 'number' ? { value } : value as QuantityValue;
+      if (!Number.isFinite(quantity.value)) return 'must be a number';
+      if (definition.dimension && quantity.unit && findUnit(quantity.unit)?.dimension !== definition.dimension) {
+        return `must be a ${definition.dimension} (got "${quantity.unit}")`;
+      }
+      // Range constraints are expressed in the definition's unit
+      const amount = quantity.unit && definition.unit && quantity.unit !== definition.unit
+        ? convertUnit(quantity.value, quantity.unit, definition.unit) ?? quantity.value
+        : quantity.value;
+      if (constraints.integer && !Number.isInteger(amount)) return 'must be a whole number';
+      const unitSuffix = definition.unit ? ` ${definition.unit}` : '';
+      if (constraints.min !== undefined && amount < constraints.min) return `must be at least ${constraints.min}${unitSuffix}`;
+      if (constraints.max !== undefined && amount > constraints.max) return `must be at most ${constraints.max}${unitSuffix}`;
+      return null;
+    }
+    case 'boolean':
+      return typeof value === 'boolean' ? null : 'must be yes or no';
+    case 'enum': {
+      const selected = Array.isArray(value) ? value : [value as string];
+      if (Array.isArray(value) && !constraints.multiple) return 'allows only one value';
+      const allowed = new Set((definition.options || []).map(o => o.value));
+      const invalid = selected.filter(v => !allowed.has(v));
+      return invalid.length > 0 ? `has unknown option(s): ${invalid.join(', ')}` : null;
+    }
+    case 'date': {
+      if (typeof value !== 'string' || !DATE_PATTERN.test(value) || isNaN(Date.parse(value))) return 'must be a date (YYYY-MM-DD)';
+      if (constraints.minDate && value < constraints.minDate) return `must be on or after ${constraints.minDate}`;
+      if (constraints.maxDate && value > constraints.maxDate) return `must be on or before ${constraints.maxDate}`;
+      return null;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Validate all attribute values of a product against its family.
+ * Only constraint violations are reported here; missing required values
+ * are reported by getMissingRequiredAttributes.
+ */
+export function validateAttributeValues(family: AttributeFamily, values: AttributeValues | undefined): AttributeValidationIssue[] {
+  const issues: AttributeValidationIssue[] = [];
+  for (const definition of family.attributes) {
+    const error = validateAttributeValue(definition, values?.[definition.code]);
+    if (error) {
+      issues.push({ code: definition.code, message: `${getAttributeLabel(definition)} ${error}` });
+    }
+  }
+  return issues;
+}
+
+/**
+ * Get required attributes of the family that have no value
+ */
+export function getMissingRequiredAttributes(family: AttributeFamily, values: AttributeValues | undefined): AttributeDefinition[] {
+  return family.attributes.filter(definition =>
+    definition.required && isAttributeValueEmpty(definition, values?.[definition.code])
+  );
+}
+
+/**
+ * Validate an attribute family definition before it is saved
+ */
+export function validateAttributeFamily(family: { code: string; name: MultilingualString; attributes: AttributeDefinition[] }): string[] {
+  const errors: string[] = [];
+
+  if (!family.code || !ATTRIBUTE_CODE_PATTERN.test(family.code)) {
+    errors.push('Family code must start with a letter and contain only lowercase letters, digits and underscores');
+  }
+  if (!family.name || !Object.values(family.name).some(v => typeof v === 'string' && v.trim() !== '')) {
+    errors.push('Family name is required in at least one language');
+  }
+
+  const seen = new Set<string>();
+  for (const attribute of family.attributes || []) {
+    const label = attribute.code || '(unnamed attribute)';
+    if (!attribute.code || !ATTRIBUTE_CODE_PATTERN.test(attribute.code)) {
+      errors.push(`Attribute "${label}": code must start with a letter and contain only lowercase letters, digits and underscores`);
+    }
+    if (seen.has(attribute.code)) {
+      errors.push(`Attribute "${label}": duplicate code`);
+    }
+    seen.add(attribute.code);
+
+    if (!ATTRIBUTE_TYPES.includes(attribute.type)) {
+      errors.push(`Attribute "${label}": unknown type "${attribute.type}"`);
+    }
+    if (attribute.type === 'enum' && (!attribute.options || attribute.options.length === 0)) {
+      errors.push(`Attribute "${label}": enum attributes need at least one option`);
+    }
+    if (attribute.type === 'enum' && attribute.options) {
+      const values = attribute.options.map(o => o.value);
+      if (new Set(values).size !== values.length) {
+        errors.push(`Attribute "${label}": enum option values must be unique`);
+      }
+    }
+
+    if (attribute.dimension) {
+      if (attribute.type !== 'number') {
+        errors.push(`Attribute "${label}": only number attributes can have a dimension`);
+      } else if (!DIMENSIONS.includes(attribute.dimension)) {
+        errors.push(`Attribute "${label}": unknown dimension "${attribute.dimension}"`);
+      } else if (!attribute.unit || findUnit(attribute.unit)?.dimension !== attribute.dimension) {
+        errors.push(`Attribute "${label}": default unit must be a ${attribute.dimension} unit`);
+      }
+    }
+
+    const { min, max, minLength, maxLength, pattern } = attribute.constraints || {};
+    if (min !== undefined && max !== undefined && min > max) {
+      errors.push(`Attribute "${label}": min cannot be greater than max`);
+    }
+    if (minLength !== undefined && maxLength !== undefined && minLength > maxLength) {
+      errors.push(`Attribute "${label}": minLength cannot be greater than maxLength`);
+    }
+    if (pattern) {
+      try {
+        new RegExp(pattern);
+      } catch {
+        errors.push(`Attribute "${label}": invalid pattern`);
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Get the label of an attribute in the requested locale
+ */
+export function getAttributeLabel(definition: AttributeDefinition, locale: string = 'en'): string {
+  return definition.label?.[locale] || definition.label?.en || definition.label?.no || definition.code;
+}
+
+/**
+ * Format an attribute value as plain text (for exports and read-only views)
+ */
+export function formatAttributeValue(definition: AttributeDefinition, value: AttributeValue | undefined, locale: string = 'en'): string {
+  if (isAttributeValueEmpty(definition, value)) return '';
+
+  switch (definition.type) {
+    case 'number': {
+      const quantity: QuantityValue = typeof value === 'number' ? { value, unit: definition.unit } : value as QuantityValue;
+      const unit = quantity.unit || definition.unit;
+      return unit ? `${quantity.value} ${unit}` : String(quantity.value);
+    }
+    case 'boolean':
+      return value ? 'Yes' : 'No';
+    case 'enum': {
+      const selected = Array.isArray(value) ? value : [value as string];
+      return selected
+        .map(v => {
+          const option = definition.options?.find(o => o.value === v);
+          return option?.label?.[locale] || option?.label?.en || v;
+        })
+        .join(', ');
+    }
+    case 'multilingual': {
+      const text = value as MultilingualString;
+      return text[locale] || text.en || text.no || '';
+    }
+    default:
+      return String(value);
+  }
+}
+
+const BOOLEAN_TEXT: Record<string, boolean> = {
+  yes: true, true: true, '1': true, ja: true,
+  no: false, false: false, '0': false, nei: false,
+};
+
+/**
+ * Parse plain text, as produced by formatAttributeValue or pasted from a
+ * spreadsheet, into an attribute value. Empty text clears the value. Enum
+ * options match by value or by label in any locale; multilingual text is set
+ * in one locale of the current value. The parsed value still needs
+ * validateAttributeValue for the definition's constraints.
+ */
+export function parseAttributeText(
+  definition: AttributeDefinition,
+  text: string,
+  options: { locale?: string; current?: AttributeValue } = {}
+): { value: AttributeValue; error?: string } {
+  const trimmed = text.trim();
+  const { locale = 'en', current } = options;
+
+  if (definition.type === 'multilingual') {
+    const existing = current && isMultilingualValue(current) ? current : undefined;
+    return { value: { en: '', no: '', ...existing, [locale]: trimmed } };
+  }
+  if (!trimmed) return { value: null };
+
+  switch (definition.type) {
+    case 'number': {
+      const quantity = parseQuantity(trimmed);
+      if (quantity) return { value: quantity };
+      // The default unit may be one the catalog does not know, e.g. "12 h"
+      const number = definition.unit && trimmed.endsWith(definition.unit) ? trimmed.slice(0, -definition.unit.length) : trimmed;
+      const amount = number.trim() ? Number(number.replace(/\s/g, '').replace(',', '.')) : NaN;
+      return Number.isFinite(amount)
+        ? { value: normalizeQuantity(amount, definition.unit) }
+        : { value: null, error: 'must be a number' };
+    }
+    case 'boolean': {
+      const value = BOOLEAN_TEXT[trimmed.toLowerCase()];
+      return value === undefined ? { value: null, error: 'must be yes or no' } : { value };
+    }
+    case 'enum': {
+      const parts = definition.constraints?.multiple ? trimmed.split(',').map(p => p.trim()).filter(Boolean) : [trimmed];
+      const values: string[] = [];
+      for (const part of parts) {
+        const needle = part.toLowerCase();
+        const option = definition.options?.find(o =>
+          o.value === part || Object.values(o.label || {}).some(label => label?.trim().toLowerCase() === needle)
+        );
+        if (!option) return { value: null, error: `has unknown option(s): ${part}` };
+        values.push(option.value);
+      }
+      return { value: definition.constraints?.multiple ? values : values[0] };
+    }
+    default:
+      return { value: trimmed };
+  }
+}
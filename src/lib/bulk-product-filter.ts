@@ -6,6 +6,8 @@
 
 import { Product } from '@/types/product';
 import { WorkflowState, UserRole } from '@/types/workflow';
+import type { Category } from '@/types/category';
+import { resolveCategoryNames } from './category-tree';
 
 /**
  * Filter criteria for bulk operations
@@ -15,7 +17,7 @@ export interface BulkProductFilterCriteria {
   searchQuery?: string;
   
   // Product attributes
-  categories?: string[];
+  categories?: string[]; // Category IDs or names
   brands?: string[];
   skus?: string[];
   tags?: string[];
@@ -130,6 +132,25 @@ export interface FilterResult {
  */
 export class BulkProductFilter {
   private presets: Map<string, FilterPreset> = new Map();
+  private categories: Category[] = [];
+
+  /**
+   * Provide the category taxonomy so that category IDs on products can be
+   * matched and listed by name
+   */
+  setCategories(categories: Category[]): void {
+    this.categories = categories;
+  }
+
+  /**
+   * Get a product's category IDs together with their resolved names.
+   * Also understands the legacy single `category` string.
+   */
+  private getProductCategories(product: Product): { ids: string[]; names: string[] } {
+    const ids = [...(product.attributesAndSpecs?.categories || [])];
+    if (product.category) ids.push(product.category);
+    return { ids, names: resolveCategoryNames(ids, this.categories) };
+  }
 
   /**
    * Apply filters to products
@@ -156,7 +177,10 @@ export class BulkProductFilter {
 
     // Category filter
     if (criteria.categories && criteria.categories.length > 0) {
-      filtered = filtered.filter(p => criteria.categories!.includes(p.category));
+      filtered = filtered.filter(p => {
+        const { ids, names } = this.getProductCategories(p);
+        return [...ids, ...names].some(value => criteria.categories!.includes(value));
+      });
       appliedFilters.push('categories');
     }
 
@@ -400,7 +424,7 @@ export class BulkProductFilter {
     const reviewers = new Set<string>();
 
     products.forEach(product => {
-      if (product.category) categories.add(product.category);
+      this.getProductCategories(product).names.forEach(name => categories.add(name));
       if (product.brand) brands.add(product.brand);
       if (product.workflowState) workflowStates.add(product.workflowState);
       if (product.assignedTo) reviewers.add(product.assignedTo);
@@ -76,6 +76,7 @@ const ROLE_STATE_PERMISSIONS: Record<UserRole, WorkflowState[]> = {
     WorkflowState.APPROVED,
     WorkflowState.REJECTED,
   ],
+  [UserRole.TRANSLATOR]: [], // Cannot change states
   [UserRole.VIEWER]: [], // Cannot change states
 };
 
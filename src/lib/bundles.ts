@@ -0,0 +1,212 @@
+/**
+ * Bundles
+ *
+ * Request schema for bundle definitions, and pure helpers for computing a
+ * bundle's price from its components and checking that every component can
+ * still be sold. Components are looked up through a ProductLookup so the
+ * same helpers work on the client's product list and on the server.
+ */
+
+import { z } from 'zod';
+import type { BundleComponent, BundleIssue, BundlePrice } from '@/types/bundle';
+import type { PriceEntry, Product } from '@/types/product';
+import { WorkflowState } from '@/types/workflow';
+
+export type ProductLookup = (productId: string) => Product | undefined;
+
+/**
+ * Schema for a product's bundle definition
+ */
+export const bundleDefinitionSchema = z.object({
+  components: z.array(z.object({
+    id: z.string().min(1),
+    productId: z.string().min(1),
+    variantId: z.string().optional(),
+    quantity: z.number().int().min(1),
+  })).max(100),
+  pricing: z.object({
+    mode: z.enum(['fixed', 'computed']),
+    discount: z.object({
+      type: z.enum(['none', 'percentage', 'fixed_amount']),
+      value: z.number().min(0),
+      currency: z.string().length(3).optional(),
+    }).refine(d => d.type !== 'percentage' || d.value <= 100, { message: 'Percentage discount cannot exceed 100' })
+      .refine(d => d.type !== 'fixed_amount' || !!d.currency, { message: 'Amount discounts need a currency' })
+      .optional(),
+  }),
+});
+
+/**
+ * Build a lookup over a list of products
+ */
+export function createProductLookup(products: Product[]): ProductLookup {
+  const byId = new Map(products.map(product => [product.id, product]));
+  return (productId) => byId.get(productId);
+}
+
+export function isBundle(product: Pick<Product, 'productType'>): boolean {
+  return product.productType === 'bundle';
+}
+
+/**
+ * Check whether a bundle's price comes from its components
+ */
+export function isComputedBundle(product: Pick<Product, 'productType' | 'bundle'>): boolean {
+  return isBundle(product) && product.bundle?.pricing.mode === 'computed';
+}
+
+const roundAmount = (amount: number) => Math.round(amount * 100) / 100;
+
+function isPriceActive(entry: PriceEntry, at: Date): boolean {
+  if (entry.validFrom && new Date(entry.validFrom) > at) return false;
+  if (entry.validTo && new Date(entry.validTo) < at) return false;
+  return true;
+}
+
+/**
+ * Get the price a customer pays for one unit in a currency: an active sale
+ * price when lower than the standard price, else the active standard price
+ */
+export function getUnitPrice(
+  prices: { standardPrice?: PriceEntry[]; salePrice?: PriceEntry[] } | undefined,
+  currency: string,
+  at: Date = new Date()
+): number | undefined {
+  const find = (entries: PriceEntry[] | undefined) =>
+    entries?.find(entry => entry.currency === currency && isPriceActive(entry, at))?.amount;
+  const standard = find(prices?.standardPrice);
+  const sale = find(prices?.salePrice);
+  if (sale !== undefined && (standard === undefined || sale < standard)) return sale;
+  return standard;
+}
+
+// Variants with their own prices override the product's prices
+function getComponentPrices(component: BundleComponent, product: Product) {
+  const variant = component.variantId ? product.variants?.find(v => v.id === component.variantId) : undefined;
+  if (variant?.standardPrice && variant.standardPrice.length > 0) return variant;
+  return product.pricingAndStock;
+}
+
+function getComponentCurrencies(component: BundleComponent, product: Product): string[] {
+  return [...new Set((getComponentPrices(component, product)?.standardPrice || []).map(entry => entry.currency))];
+}
+
+/**
+ * Compute a bundle's price in every currency all of its components are
+ * priced in. Returns an empty list for fixed-price or empty bundles, or when
+ * a component cannot be found.
+ */
+export function computeBundlePrices(product: Pick<Product, 'productType' | 'bundle'>, lookup: ProductLookup, at: Date = new Date()): BundlePrice[] {
+  const bundle = product.bundle;
+  if (!isComputedBundle(product) || !bundle || bundle.components.length === 0) return [];
+
+  const components = bundle.components.map(component => ({ component, product: lookup(component.productId) }));
+  if (components.some(c => !c.product)) return [];
+
+  const [first, ...rest] = components.map(c => getComponentCurrencies(c.component, c.product!));
+  const currencies = first.filter(currency => rest.every(list => list.includes(currency)));
+
+  const discount = bundle.pricing.discount;
+  const prices: BundlePrice[] = [];
+  for (const currency of currencies) {
+    let componentTotal = 0;
+    let priced = true;
+    for (const { component, product: componentProduct } of components) {
+      const unitPrice = getUnitPrice(getComponentPrices(component, componentProduct!), currency, at);
+      if (unitPrice === undefined) {
+        priced = false;
+        break;
+      }
+      componentTotal += unitPrice * component.quantity;
+    }
+    if (!priced) continue;
+
+    componentTotal = roundAmount(componentTotal);
+    let discountAmount = 0;
+    if (discount?.type === 'percentage') {
+      discountAmount = roundAmount(componentTotal * discount.value / 100);
+    } else if (discount?.type === 'fixed_amount' && discount.currency === currency) {
+      discountAmount = Math.min(discount.value, componentTotal);
+    }
+    prices.push({ currency, componentTotal, discount: discountAmount, amount: roundAmount(componentTotal - discountAmount) });
+  }
+  return prices;
+}
+
+/**
+ * Get the bundle with its computed price filled in, for exporters: the sum
+ * of the components becomes the standard price and the discounted amount the
+ * sale price. Other products are returned unchanged.
+ */
+export function applyBundlePricing(product: Product, lookup: ProductLookup, at: Date = new Date()): Product {
+  if (!isComputedBundle(product)) return product;
+  const prices = computeBundlePrices(product, lookup, at);
+  const toEntry = (price: BundlePrice, amount: number, kind: string): PriceEntry => ({
+    id: `bundle-${kind}-${price.currency}`,
+    currency: price.currency,
+    amount,
+  });
+
+  return {
+    ...product,
+    pricingAndStock: {
+      ...product.pricingAndStock,
+      standardPrice: prices.map(price => toEntry(price, price.componentTotal, 'standard')),
+      salePrice: prices.filter(price => price.discount > 0).map(price => toEntry(price, price.amount, 'sale')),
+    },
+  };
+}
+
+/**
+ * Check a bundle's components: every component must exist, be a sellable
+ * single product, still be on sale and be published. Computed bundles also
+ * need a price for every component.
+ */
+export function getBundleIssues(product: Pick<Product, 'id' | 'productType' | 'bundle'>, lookup: ProductLookup): BundleIssue[] {
+  if (!isBundle(product)) return [];
+  const components = product.bundle?.components || [];
+  if (components.length === 0) {
+    return [{ type: 'bundle-empty', message: 'Bundle has no components' }];
+  }
+
+  const issues: BundleIssue[] = [];
+  for (const component of components) {
+    const issue = (type: BundleIssue['type'], message: string) =>
+      issues.push({ type, componentId: component.id, message });
+
+    if (component.productId === product.id) {
+      issue('bundle-component-self', 'Bundle cannot contain itself');
+      continue;
+    }
+    const componentProduct = lookup(component.productId);
+    if (!componentProduct) {
+      issue('bundle-component-missing', `Component product "${component.productId}" does not exist`);
+      continue;
+    }
+
+    const sku = componentProduct.basicInfo.sku || componentProduct.id;
+    if (isBundle(componentProduct)) {
+      issue('bundle-component-nested', `Component ${sku} is itself a bundle`);
+    }
+    if (component.variantId && !componentProduct.variants?.some(v => v.id === component.variantId)) {
+      issue('bundle-component-variant-missing', `Component ${sku} has no variant "${component.variantId}"`);
+    }
+    if (componentProduct.basicInfo.status === 'discontinued') {
+      issue('bundle-component-discontinued', `Component ${sku} is discontinued`);
+    }
+    if (componentProduct.workflowState !== WorkflowState.PUBLISHED) {
+      issue('bundle-component-unpublished', `Component ${sku} is not published`);
+    }
+    if (isComputedBundle(product) && getComponentCurrencies(component, componentProduct).length === 0) {
+      issue('bundle-component-unpriced', `Component ${sku} has no price`);
+    }
+  }
+  return issues;
+}
+
+/**
+ * A bundle is available when every component exists and can be sold
+ */
+export function isBundleAvailable(product: Pick<Product, 'id' | 'productType' | 'bundle'>, lookup: ProductLookup): boolean {
+  return getBundleIssues(product, lookup).length === 0;
+}
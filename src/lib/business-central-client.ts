@@ -10,38 +10,146 @@ export interface BCItem {
     baseUnitOfMeasure: string;
     gtin: string;
     inventory: number;
+    lastModifiedDateTime: string;
+}
+
+export interface BCCompany {
+    id: string;
+    name: string;
+    displayName: string;
 }
 
 const BASE_URL = 'https://api.businesscentral.dynamics.com/v2.0';
 
-export async function fetchProducts(accessToken: string, environment: string, companyId: string): Promise<BCItem[]> {
-    const url = `${BASE_URL}/${environment}/api/v2.0/companies(${companyId})/items`;
+/**
+ * Derive a Business Central item category code (Code[20]) from a category name
+ */
+export function toItemCategoryCode(categoryName: string): string {
+    return categoryName
+        .toUpperCase()
+        .replace(/[^A-Z0-9ÆØÅ]+/g, '-')
+        .replace(/^-+|-+$/g, '')
+        .substring(0, 20);
+}
+
+/**
+ * The item number a product is exported as (Code[20])
+ */
+export function toItemNumber(sku: string): string {
+    return sku.substring(0, 20);
+}
+
+/**
+ * Make sure an item category exists in Business Central, creating it if needed.
+ * Returns the category code, or null if it could not be created.
+ */
+export async function ensureItemCategory(accessToken: string, environment: string, companyId: string, categoryName: string): Promise<string | null> {
+    const code = toItemCategoryCode(categoryName);
+    if (!code) return null;
+
+    const categoriesUrl = `${BASE_URL}/${environment}/api/v2.0/companies(${companyId})/itemCategories`;
+    const headers = {
+        'Authorization': `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
+    };
 
     try {
-        const response = await fetch(url, {
-            method: 'GET',
-            headers: {
-                'Authorization': `Bearer ${accessToken}`,
-                'Content-Type': 'application/json',
-            },
-        });
+        const checkResponse = await fetch(`${categoriesUrl}?$filter=code eq '${code}'`, { method: 'GET', headers });
+        if (checkResponse.ok) {
+            const data = await checkResponse.json();
+            if (data.value && data.value.length > 0) return code;
+        }
 
-        if (!response.ok) {
-            const errorText = await response.text();
-            throw new Error(`Failed to fetch products from Business Central: ${response.status} ${response.statusText} - ${errorText}`);
+        const createResponse = await fetch(categoriesUrl, {
+            method: 'POST',
+            headers,
+            body: JSON.stringify({ code, displayName: categoryName.substring(0, 100) }),
+        });
+        if (!createResponse.ok) {
+            console.warn(`[BC] Failed to create item category ${code}: ${createResponse.status} ${createResponse.statusText}`);
+            return null;
         }
+        return code;
+    } catch (error) {
+        console.warn(`[BC] Failed to ensure item category ${code}`, error);
+        return null;
+    }
+}
+
+/**
+ * The company the integration works with; used to check a connection
+ */
+export async function fetchCompany(accessToken: string, environment: string, companyId: string): Promise<BCCompany> {
+    const url = `${BASE_URL}/${environment}/api/v2.0/companies(${companyId})`;
+    const response = await fetch(url, {
+        method: 'GET',
+        headers: {
+            'Authorization': `Bearer ${accessToken}`,
+            'Content-Type': 'application/json',
+        },
+    });
+
+    if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Failed to fetch company from Business Central: ${response.status} ${response.statusText} - ${errorText}`);
+    }
+
+    return response.json();
+}
 
-        const data = await response.json();
-        return data.value as BCItem[];
+/**
+ * Items of a company, following the pages Business Central returns. With
+ * `modifiedSince`, only the items changed after that time.
+ */
+export async function fetchProducts(
+    accessToken: string,
+    environment: string,
+    companyId: string,
+    options: { modifiedSince?: string } = {}
+): Promise<BCItem[]> {
+    const filter = options.modifiedSince ? `?$filter=lastModifiedDateTime gt ${options.modifiedSince}` : '';
+    let url: string | undefined = `${BASE_URL}/${environment}/api/v2.0/companies(${companyId})/items${filter}`;
+    const items: BCItem[] = [];
+
+    try {
+        while (url) {
+            const response: Response = await fetch(url, {
+                method: 'GET',
+                headers: {
+                    'Authorization': `Bearer ${accessToken}`,
+                    'Content-Type': 'application/json',
+                },
+            });
+
+            if (!response.ok) {
+                const errorText = await response.text();
+                throw new Error(`Failed to fetch products from Business Central: ${response.status} ${response.statusText} - ${errorText}`);
+            }
+
+            const data: { value: BCItem[]; '@odata.nextLink'?: string } = await response.json();
+            items.push(...data.value);
+            url = data['@odata.nextLink'];
+        }
+        return items;
     } catch (error) {
         console.error('Business Central Fetch Error:', error);
         throw error;
     }
 }
 
-export async function createProduct(accessToken: string, environment: string, companyId: string, product: Product): Promise<BCItem> {
+export async function createProduct(
+    accessToken: string,
+    environment: string,
+    companyId: string,
+    product: Product,
+    options: {
+        categoryName?: string;
+        displayName?: string; // The product name in the export locale
+        keepExisting?: Array<'displayName' | 'unitPrice'>; // Fields Business Central owns: only set on new items
+    } = {}
+): Promise<BCItem> {
     const itemsUrl = `${BASE_URL}/${environment}/api/v2.0/companies(${companyId})/items`;
-    const itemNumber = product.basicInfo.sku.substring(0, 20);
+    const itemNumber = toItemNumber(product.basicInfo.sku);
 
     // 1. Check if item exists
     let existingItem: BCItem | null = null;
@@ -64,16 +172,23 @@ export async function createProduct(accessToken: string, environment: string, co
         console.warn('Failed to check for existing item, proceeding with creation attempt', e);
     }
 
+    const itemCategoryCode = options.categoryName
+        ? await ensureItemCategory(accessToken, environment, companyId, options.categoryName)
+        : null;
+
     const basePayload = {
-        displayName: product.basicInfo.name.en || product.basicInfo.name.no || product.basicInfo.sku,
+        displayName: options.displayName || product.basicInfo.name.en || product.basicInfo.name.no || product.basicInfo.sku,
         unitPrice: product.pricingAndStock?.standardPrice?.[0]?.amount || 0,
         gtin: product.basicInfo.gtin || undefined,
+        itemCategoryCode: itemCategoryCode || undefined,
     };
 
     try {
         if (existingItem) {
             // UPDATE (PATCH)
             // Exclude 'type' and 'number' to avoid errors
+            const updatePayload: Partial<typeof basePayload> = { ...basePayload };
+            options.keepExisting?.forEach(field => { delete updatePayload[field]; });
             const updateUrl = `${itemsUrl}(${existingItem.id})`;
             const response = await fetch(updateUrl, {
                 method: 'PATCH',
@@ -82,7 +197,7 @@ export async function createProduct(accessToken: string, environment: string, co
                     'Content-Type': 'application/json',
                     'If-Match': '*', // Force update
                 },
-                body: JSON.stringify(basePayload),
+                body: JSON.stringify(updatePayload),
             });
 
             if (!response.ok) {
@@ -0,0 +1,56 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Product, initialProductData, defaultMultilingualString, MediaEntry } from '@/types/product';
+import { WorkflowState } from '@/types/workflow';
+import type { BCItem } from './business-central-client';
+
+/**
+ * Map a Business Central item, and its picture if it has one, to a new
+ * Pimify product. Imports match it to an existing product by SKU and
+ * only take the fields Business Central owns (see business-central-sync.ts).
+ */
+export function mapBusinessCentralItemToProduct(
+    item: BCItem,
+    picture: { content: string; mimeType: string } | null
+): Product {
+    const images: MediaEntry[] = picture
+        ? [{
+            id: uuidv4(),
+            url: `data:${picture.mimeType};base64,${picture.content}`,
+            altText: { ...defaultMultilingualString, en: item.displayName },
+            type: 'image',
+            dataAiHint: 'product image'
+        }]
+        : [];
+
+    return {
+        ...initialProductData,
+        id: uuidv4(),
+        basicInfo: {
+            ...initialProductData.basicInfo,
+            name: { ...defaultMultilingualString, en: item.displayName, no: item.displayName },
+            sku: item.number,
+            gtin: item.gtin || '',
+            descriptionShort: { ...defaultMultilingualString, en: `Imported from Business Central: ${item.displayName}` },
+            status: 'active',
+        },
+        attributesAndSpecs: {
+            ...initialProductData.attributesAndSpecs,
+            categories: item.itemCategoryCode ? [item.itemCategoryCode] : [],
+        },
+        media: { images },
+        pricingAndStock: {
+            ...initialProductData.pricingAndStock,
+            standardPrice: [
+                {
+                    id: uuidv4(),
+                    currency: 'EUR', // Defaulting to EUR, ideally should come from BC or config
+                    amount: item.unitPrice
+                }
+            ],
+            stockQuantity: item.inventory,
+        },
+        workflowState: WorkflowState.DRAFT,
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+    };
+}
@@ -0,0 +1,142 @@
+/**
+ * Business Central Sync Service
+ *
+ * The sync state of each Business Central company: the watermarks that
+ * make imports and exports incremental, and which system owns price,
+ * description and inventory. The page reaches a company through one of its
+ * integrations; the sync jobs read the state and record each sync here.
+ */
+
+import type {
+  BusinessCentralItemSync,
+  BusinessCentralSyncState,
+  UpdateBusinessCentralSyncInput,
+} from '@/types/business-central-sync';
+import { DEFAULT_BUSINESS_CENTRAL_FIELD_OWNERSHIP } from '@/types/business-central-sync';
+import type { BCItem } from './business-central-client';
+import { getBusinessCentralItemHash, getBusinessCentralSyncStateId } from './business-central-sync';
+import {
+  firestoreBusinessCentralSyncRepository,
+  FirestoreBusinessCentralSyncRepository,
+} from './firestore-business-central-sync-repository';
+import { integrationCredentialService, IntegrationCredentialService } from './integration-credential-service';
+
+/**
+ * Business Central Sync Service Result
+ */
+export interface BusinessCentralSyncServiceResult<T = BusinessCentralSyncState> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  code?: string;
+}
+
+export class BusinessCentralSyncService {
+  constructor(
+    private repo: FirestoreBusinessCentralSyncRepository = firestoreBusinessCentralSyncRepository,
+    private credentials: IntegrationCredentialService = integrationCredentialService
+  ) { }
+
+  /**
+   * The sync state of the company an integration connects to
+   */
+  async getState(tenantId: string, integrationId: string): Promise<BusinessCentralSyncServiceResult> {
+    const resolved = await this.credentials.resolveCredentials(tenantId, integrationId, 'business_central');
+    if (!resolved.success) return { success: false, error: resolved.error, code: resolved.code };
+    const { environment, companyId } = resolved.data!;
+    return { success: true, data: await this.getCompanyState(tenantId, environment, companyId) };
+  }
+
+  /**
+   * Change field ownership, or reset watermarks so the next sync in that
+   * direction sends everything
+   */
+  async updateState(tenantId: string, input: UpdateBusinessCentralSyncInput, userId?: string): Promise<BusinessCentralSyncServiceResult> {
+    const current = await this.getState(tenantId, input.integrationId);
+    if (!current.success) return current;
+
+    const { importWatermark, exportWatermark, ...state } = current.data!;
+    const reset = input.reset;
+    const updated: BusinessCentralSyncState = {
+      ...state,
+      ownership: { ...state.ownership, ...input.ownership },
+      ...(reset !== 'import' && reset !== 'both' && importWatermark && { importWatermark }),
+      ...(reset !== 'export' && reset !== 'both' && exportWatermark && { exportWatermark }),
+      updatedAt: new Date().toISOString(),
+      ...(userId && { updatedBy: userId }),
+    };
+
+    await this.repo.save(updated);
+    return { success: true, data: updated };
+  }
+
+  /**
+   * A company's sync state; companies that have not synced yet get the
+   * default ownership and no watermarks
+   */
+  async getCompanyState(tenantId: string, environment: string, companyId: string): Promise<BusinessCentralSyncState> {
+    const id = getBusinessCentralSyncStateId(tenantId, environment, companyId);
+    const stored = await this.repo.getById(id);
+    return {
+      id,
+      tenantId,
+      environment,
+      companyId,
+      updatedAt: new Date().toISOString(),
+      ...stored,
+      ownership: { ...DEFAULT_BUSINESS_CENTRAL_FIELD_OWNERSHIP, ...stored?.ownership },
+    };
+  }
+
+  /**
+   * Record a finished import and the watermark the next one starts from
+   */
+  async recordImport(state: BusinessCentralSyncState, watermark: string | undefined): Promise<void> {
+    const now = new Date().toISOString();
+    await this.repo.merge(state.id, {
+      ...this.identify(state),
+      ...(watermark && { importWatermark: watermark }),
+      lastImportAt: now,
+      updatedAt: now,
+    });
+  }
+
+  /**
+   * Record a finished export and the watermark the next one starts from
+   */
+  async recordExport(state: BusinessCentralSyncState, watermark: string | undefined): Promise<void> {
+    const now = new Date().toISOString();
+    await this.repo.merge(state.id, {
+      ...this.identify(state),
+      ...(watermark && { exportWatermark: watermark }),
+      lastExportAt: now,
+      updatedAt: now,
+    });
+  }
+
+  /**
+   * How the last sync left each of a company's items, by item number
+   */
+  async getItemSyncs(state: BusinessCentralSyncState): Promise<Map<string, BusinessCentralItemSync>> {
+    const records = await this.repo.getItemSyncs(state.id);
+    return new Map(records.map(record => [record.itemNumber, record]));
+  }
+
+  /**
+   * Record the items an import read or an export wrote, as they are now
+   */
+  async recordItemSyncs(state: BusinessCentralSyncState, items: BCItem[]): Promise<void> {
+    const now = new Date().toISOString();
+    await this.repo.saveItemSyncs(state.id, items.map(item => ({
+      itemNumber: item.number,
+      hash: getBusinessCentralItemHash(item),
+      lastSyncedAt: now,
+    })));
+  }
+
+  private identify({ id, tenantId, environment, companyId }: BusinessCentralSyncState) {
+    return { id, tenantId, environment, companyId };
+  }
+}
+
+export const businessCentralSyncService = new BusinessCentralSyncService();
@@ -0,0 +1,56 @@
+import { create } from 'zustand';
+import type { BusinessCentralSyncState, UpdateBusinessCentralSyncInput } from '@/types/business-central-sync';
+
+interface BusinessCentralSyncStoreState {
+  state: BusinessCentralSyncState | null; // Of the company the selected integration connects to
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  fetchState: (integrationId: string) => Promise<void>;
+  updateState: (input: UpdateBusinessCentralSyncInput) => Promise<BusinessCentralSyncState>;
+}
+
+function buildHeaders(): Record<string, string> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  const token = typeof window !== 'undefined' ? localStorage.getItem('accessToken') : null;
+  if (token) headers['Authorization'] = `Bearer ${token}`;
+  return headers;
+}
+
+async function request<T>(url: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(url, { ...init, headers: buildHeaders() });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok || !data.success) {
+    throw new Error(data.error || `Request failed: ${response.status} ${response.statusText}`);
+  }
+  return data.data as T;
+}
+
+export const useBusinessCentralSyncStore = create<BusinessCentralSyncStoreState>((set) => ({
+  state: null,
+  isLoading: false,
+  error: null,
+
+  fetchState: async (integrationId) => {
+    set({ isLoading: true, error: null });
+    try {
+      const state = await request<BusinessCentralSyncState>(
+        `/api/business-central/sync-state?integrationId=${encodeURIComponent(integrationId)}`
+      );
+      set({ state, isLoading: false });
+    } catch (error) {
+      console.error('Error fetching Business Central sync state:', error);
+      set({ state: null, error: (error as Error).message, isLoading: false });
+    }
+  },
+
+  updateState: async (input) => {
+    const state = await request<BusinessCentralSyncState>('/api/business-central/sync-state', {
+      method: 'PUT',
+      body: JSON.stringify(input),
+    });
+    set({ state });
+    return state;
+  },
+}));
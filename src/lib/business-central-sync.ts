@@ -0,0 +1,166 @@
+/**
+ * Business Central Sync
+ *
+ * Request schema, watermarks, field ownership and item hashes for
+ * incremental imports and exports with Business Central. The jobs that run them are in
+ * integration-job-handlers.ts; the stored state is read and updated
+ * through business-central-sync-service.ts.
+ */
+
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { z } from 'zod';
+import type { Product } from '@/types/product';
+import type {
+  BusinessCentralFieldOwnership,
+  BusinessCentralItemSync,
+  BusinessCentralSyncField,
+} from '@/types/business-central-sync';
+import { BUSINESS_CENTRAL_SYNC_FIELDS } from '@/types/business-central-sync';
+import type { BCItem } from './business-central-client';
+import { mapBusinessCentralItemToProduct } from './business-central-mapping';
+
+const fieldOwnerSchema = z.enum(['business_central', 'pimify']);
+
+/**
+ * Request schema for updating a company's sync state
+ */
+export const businessCentralSyncSchema = z.object({
+  integrationId: z.string().trim().min(1, 'Choose a Business Central integration.'),
+  ownership: z.object({
+    price: fieldOwnerSchema,
+    description: fieldOwnerSchema,
+    inventory: fieldOwnerSchema,
+  }).partial().optional(),
+  reset: z.enum(['import', 'export', 'both']).optional(),
+});
+
+// Item fields an export leaves alone on existing items when Business
+// Central owns them. Inventory is posted through item journals in Business
+// Central and cannot be set on items, so it is never exported.
+const OWNED_ITEM_FIELDS: Partial<Record<BusinessCentralSyncField, 'displayName' | 'unitPrice'>> = {
+  price: 'unitPrice',
+  description: 'displayName',
+};
+
+/**
+ * The sync state ID of a Business Central company
+ */
+export function getBusinessCentralSyncStateId(tenantId: string, environment: string, companyId: string): string {
+  return `${tenantId}__${environment}__${companyId}`;
+}
+
+/**
+ * Item fields that exports must not change on existing items
+ */
+export function getBusinessCentralOwnedItemFields(ownership: BusinessCentralFieldOwnership): Array<'displayName' | 'unitPrice'> {
+  return BUSINESS_CENTRAL_SYNC_FIELDS
+    .filter(field => ownership[field] === 'business_central')
+    .flatMap(field => OWNED_ITEM_FIELDS[field] || []);
+}
+
+/**
+ * Whether an import should fetch the item's picture: only for new
+ * products and products without images
+ */
+export function needsBusinessCentralPicture(existing: Product | undefined): boolean {
+  return !existing || (existing.media?.images || []).length === 0;
+}
+
+/**
+ * What an import of a Business Central item writes. New products take
+ * everything from the item. Existing products, matched by SKU, only take
+ * the fields Business Central owns, the description in the given locale,
+ * and the picture when they have no images.
+ */
+export function mergeBusinessCentralItem(
+  item: BCItem,
+  picture: { content: string; mimeType: string } | null,
+  existing: Product | undefined,
+  ownership: BusinessCentralFieldOwnership,
+  locale = 'en'
+): Partial<Product> {
+  const mapped = mapBusinessCentralItemToProduct(item, picture);
+  if (!existing) return mapped;
+
+  const update: Partial<Product> = { basicInfo: { sku: item.number } as Product['basicInfo'] };
+  if (ownership.description === 'business_central' && item.displayName) {
+    update.basicInfo!.name = { ...existing.basicInfo.name, [locale]: item.displayName };
+  }
+
+  const pricing: Partial<NonNullable<Product['pricingAndStock']>> = {};
+  if (ownership.price === 'business_central') {
+    // Exports send the first standard price, so imports update that one
+    const [first, ...rest] = existing.pricingAndStock?.standardPrice || [];
+    pricing.standardPrice = first
+      ? [{ ...first, amount: item.unitPrice }, ...rest]
+      : mapped.pricingAndStock!.standardPrice;
+  }
+  if (ownership.inventory === 'business_central') pricing.stockQuantity = item.inventory;
+  if (Object.keys(pricing).length > 0) update.pricingAndStock = pricing as Product['pricingAndStock'];
+
+  if (needsBusinessCentralPicture(existing) && mapped.media.images.length > 0) {
+    update.media = { ...existing.media, images: mapped.media.images };
+  }
+  return update;
+}
+
+/**
+ * The new watermark after a sync: the time of the last entry synced before
+ * the first one that failed, so failed entries are sent again next time.
+ * Entries with the same time as a failed one are not counted either, as
+ * syncs only send what changed after the watermark.
+ */
+export function advanceSyncWatermark(
+  previous: string | undefined,
+  entries: Array<{ modifiedAt: string; ok: boolean }>
+): string | undefined {
+  const time = (value: string) => new Date(value).getTime();
+  const firstFailure = entries
+    .filter(entry => !entry.ok)
+    .reduce<number>((min, entry) => Math.min(min, time(entry.modifiedAt)), Infinity);
+
+  let watermark = previous;
+  for (const entry of entries) {
+    const at = time(entry.modifiedAt);
+    if (entry.ok && at < firstFailure && (!watermark || at > time(watermark))) watermark = entry.modifiedAt;
+  }
+  return watermark;
+}
+
+/**
+ * Whether a timestamp is after the watermark; everything is when there is
+ * none, and entries without a timestamp always count as changed
+ */
+export function isAfterWatermark(value: string | undefined, watermark: string | undefined): boolean {
+  if (!watermark || !value) return true;
+  return new Date(value).getTime() > new Date(watermark).getTime();
+}
+
+/**
+ * A hash of the item fields imports read and exports write
+ */
+export function getBusinessCentralItemHash(item: BCItem): string {
+  const { displayName, unitPrice, gtin, itemCategoryCode, inventory } = item;
+  return crypto
+    .createHash('sha256')
+    .update(JSON.stringify([displayName, unitPrice, gtin || '', itemCategoryCode || '', inventory]))
+    .digest('hex');
+}
+
+/**
+ * Whether an item changed since the last sync that touched it. An item an
+ * export just wrote comes back from Business Central as changed; it still
+ * has the hash the export recorded, so it is not imported again.
+ */
+export function isItemChangedSinceSync(item: BCItem, synced: BusinessCentralItemSync | undefined): boolean {
+  return !synced || synced.hash !== getBusinessCentralItemHash(item);
+}
+
+/**
+ * Whether a product was saved since the last sync that touched its item.
+ * Products an import just saved are not exported back.
+ */
+export function isProductChangedSinceSync(product: Product, synced: BusinessCentralItemSync | undefined): boolean {
+  return !synced || isAfterWatermark(product.updatedAt, synced.lastSyncedAt);
+}
@@ -0,0 +1,300 @@
+/**
+ * Category Service
+ *
+ * Manages the hierarchical category taxonomy: CRUD, ordering, moving nodes
+ * within the tree and merging duplicate categories. Products reference
+ * categories by ID, so merges and deletes also rewrite product references.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type {
+  Category,
+  CategoryTreeNode,
+  CreateCategoryInput,
+  UpdateCategoryInput,
+  MoveCategoryInput,
+  MergeCategoriesResult,
+} from '@/types/category';
+import type { MultilingualString } from '@/types/product';
+import { firestoreCategoryRepository, FirestoreCategoryRepository } from './firestore-category-repository';
+import { firestoreProductRepository, FirestoreProductRepository } from './firestore-product-repository';
+import {
+  buildCategoryTree,
+  computeCategoryMove,
+  createCategoryIdResolver,
+  createCategoryNameResolver,
+  getDescendantIds,
+  slugifyCategoryName,
+  wouldCreateCycle,
+  type CategoryIdResolver,
+  type CategoryNameResolver,
+} from './category-tree';
+
+/**
+ * Category Service Result
+ */
+export interface CategoryServiceResult<T = Category> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  code?: string;
+}
+
+export class CategoryService {
+  constructor(
+    private categoryRepo: FirestoreCategoryRepository = firestoreCategoryRepository,
+    private productRepo: FirestoreProductRepository = firestoreProductRepository
+  ) { }
+
+  async listCategories(): Promise<Category[]> {
+    return this.categoryRepo.getAll();
+  }
+
+  async getTree(): Promise<CategoryTreeNode[]> {
+    return buildCategoryTree(await this.categoryRepo.getAll());
+  }
+
+  async getCategory(id: string): Promise<CategoryServiceResult> {
+    const category = await this.categoryRepo.getById(id);
+    if (!category) {
+      return { success: false, error: 'Category not found', code: 'NOT_FOUND' };
+    }
+    return { success: true, data: category };
+  }
+
+  /**
+   * Build a resolver from category IDs to names for exports.
+   * Falls back to returning the raw values if the taxonomy cannot be loaded,
+   * so an export never fails just because category names are unavailable.
+   */
+  async getNameResolver(options: { locale?: string; fullPath?: boolean } = {}): Promise<CategoryNameResolver> {
+    try {
+      return createCategoryNameResolver(await this.categoryRepo.getAll(), options);
+    } catch (error) {
+      console.warn('Failed to load categories, exporting raw category values:', error);
+      return (ids) => ids || [];
+    }
+  }
+
+  /**
+   * Build a resolver from category names to IDs for imports. Falls back to
+   * keeping the names if the taxonomy cannot be loaded.
+   */
+  async getIdResolver(): Promise<CategoryIdResolver> {
+    try {
+      return createCategoryIdResolver(await this.categoryRepo.getAll());
+    } catch (error) {
+      console.warn('Failed to load categories, importing raw category values:', error);
+      return (values) => values || [];
+    }
+  }
+
+  async createCategory(input: CreateCategoryInput): Promise<CategoryServiceResult> {
+    const nameError = this.validateName(input.name);
+    if (nameError) {
+      return { success: false, error: nameError, code: 'VALIDATION_ERROR' };
+    }
+
+    const categories = await this.categoryRepo.getAll();
+    const parentId = input.parentId || null;
+    if (parentId && !categories.some(c => c.id === parentId)) {
+      return { success: false, error: 'Parent category not found', code: 'PARENT_NOT_FOUND' };
+    }
+
+    const slug = input.slug ? slugifyCategoryName(input.slug) : this.slugFromName(input.name);
+    if (categories.some(c => c.parentId === parentId && c.slug === slug)) {
+      return { success: false, error: `A sibling category with slug "${slug}" already exists`, code: 'SLUG_EXISTS' };
+    }
+
+    const now = new Date().toISOString();
+    const siblingCount = categories.filter(c => c.parentId === parentId).length;
+    const category: Category = {
+      id: uuidv4(),
+      parentId,
+      name: input.name,
+      slug,
+      order: siblingCount,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    if (input.order !== undefined && input.order < siblingCount) {
+      // Insert at the requested position and shift the following siblings
+      const changed = computeCategoryMove([...categories, category], category.id, parentId, input.order);
+      await this.categoryRepo.saveMany(changed.map(c => c.id === category.id ? c : { ...c, updatedAt: now }));
+      return { success: true, data: changed.find(c => c.id === category.id) || category };
+    }
+
+    await this.categoryRepo.save(category);
+    return { success: true, data: category };
+  }
+
+  async updateCategory(id: string, input: UpdateCategoryInput): Promise<CategoryServiceResult> {
+    const categories = await this.categoryRepo.getAll();
+    const existing = categories.find(c => c.id === id);
+    if (!existing) {
+      return { success: false, error: 'Category not found', code: 'NOT_FOUND' };
+    }
+
+    if (input.name) {
+      const nameError = this.validateName(input.name);
+      if (nameError) {
+        return { success: false, error: nameError, code: 'VALIDATION_ERROR' };
+      }
+    }
+
+    const slug = input.slug !== undefined ? slugifyCategoryName(input.slug) : existing.slug;
+    if (categories.some(c => c.id !== id && c.parentId === existing.parentId && c.slug === slug)) {
+      return { success: false, error: `A sibling category with slug "${slug}" already exists`, code: 'SLUG_EXISTS' };
+    }
+
+    const updated: Category = {
+      ...existing,
+      name: input.name || existing.name,
+      slug,
+      updatedAt: new Date().toISOString(),
+    };
+    await this.categoryRepo.save(updated);
+    return { success: true, data: updated };
+  }
+
+  /**
+   * Move a category under a new parent (or to the root) and/or change its
+   * position among siblings.
+   */
+  async moveCategory(id: string, input: MoveCategoryInput): Promise<CategoryServiceResult> {
+    const categories = await this.categoryRepo.getAll();
+    const existing = categories.find(c => c.id === id);
+    if (!existing) {
+      return { success: false, error: 'Category not found', code: 'NOT_FOUND' };
+    }
+
+    const parentId = input.parentId || null;
+    if (parentId && !categories.some(c => c.id === parentId)) {
+      return { success: false, error: 'Parent category not found', code: 'PARENT_NOT_FOUND' };
+    }
+    if (wouldCreateCycle(categories, id, parentId)) {
+      return { success: false, error: 'A category cannot be moved under itself or one of its descendants', code: 'CYCLE' };
+    }
+    if (parentId !== existing.parentId && categories.some(c => c.parentId === parentId && c.slug === existing.slug)) {
+      return { success: false, error: `The target already has a category with slug "${existing.slug}"`, code: 'SLUG_EXISTS' };
+    }
+
+    const now = new Date().toISOString();
+    const changed = computeCategoryMove(categories, id, parentId, input.order).map(c => ({ ...c, updatedAt: now }));
+    await this.categoryRepo.saveMany(changed);
+
+    return { success: true, data: changed.find(c => c.id === id) || existing };
+  }
+
+  /**
+   * Merge `sourceId` into `targetId`: children of the source are re-parented
+   * to the target, products referencing the source are re-pointed to the
+   * target, and the source category is removed.
+   */
+  async mergeCategories(sourceId: string, targetId: string): Promise<CategoryServiceResult<MergeCategoriesResult>> {
+    if (sourceId === targetId) {
+      return { success: false, error: 'Cannot merge a category into itself', code: 'VALIDATION_ERROR' };
+    }
+
+    const categories = await this.categoryRepo.getAll();
+    const source = categories.find(c => c.id === sourceId);
+    const target = categories.find(c => c.id === targetId);
+    if (!source || !target) {
+      return { success: false, error: 'Category not found', code: 'NOT_FOUND' };
+    }
+    if (getDescendantIds(categories, sourceId).includes(targetId)) {
+      return { success: false, error: 'Cannot merge a category into one of its descendants', code: 'CYCLE' };
+    }
+
+    // Re-parent children after the target's existing children
+    const now = new Date().toISOString();
+    const children = categories.filter(c => c.parentId === sourceId);
+    let remaining = categories.filter(c => c.id !== sourceId);
+    let changed: Category[] = [];
+    for (const child of children) {
+      const moved = computeCategoryMove(remaining, child.id, targetId);
+      remaining = remaining.map(c => moved.find(m => m.id === c.id) || c);
+      changed = [...changed.filter(c => !moved.some(m => m.id === c.id)), ...moved];
+    }
+    await this.categoryRepo.saveMany(changed.map(c => ({ ...c, updatedAt: now })));
+
+    const updatedProducts = await this.replaceProductCategory(sourceId, targetId);
+    await this.categoryRepo.delete(sourceId);
+
+    return {
+      success: true,
+      data: {
+        targetId,
+        removedId: sourceId,
+        movedChildren: children.length,
+        updatedProducts,
+      },
+    };
+  }
+
+  /**
+   * Delete a leaf category and remove it from any products referencing it
+   */
+  async deleteCategory(id: string): Promise<CategoryServiceResult<{ updatedProducts: number }>> {
+    const categories = await this.categoryRepo.getAll();
+    if (!categories.some(c => c.id === id)) {
+      return { success: false, error: 'Category not found', code: 'NOT_FOUND' };
+    }
+    if (categories.some(c => c.parentId === id)) {
+      return { success: false, error: 'Category has subcategories. Move or merge them first.', code: 'HAS_CHILDREN' };
+    }
+
+    const updatedProducts = await this.replaceProductCategory(id, null);
+    await this.categoryRepo.delete(id);
+
+    // Close the gap in the sibling order
+    const deleted = categories.find(c => c.id === id)!;
+    const now = new Date().toISOString();
+    const siblings = categories
+      .filter(c => c.parentId === deleted.parentId && c.id !== id)
+      .sort((a, b) => a.order - b.order);
+    const reordered = siblings
+      .map((c, index) => ({ ...c, order: index }))
+      .filter((c, index) => siblings[index].order !== c.order)
+      .map(c => ({ ...c, updatedAt: now }));
+    await this.categoryRepo.saveMany(reordered);
+
+    return { success: true, data: { updatedProducts } };
+  }
+
+  /**
+   * Replace (or remove, when `replacementId` is null) a category reference
+   * on every product. Returns the number of products updated.
+   */
+  private async replaceProductCategory(categoryId: string, replacementId: string | null): Promise<number> {
+    const products = await this.productRepo.getAll();
+    let updated = 0;
+
+    for (const product of products) {
+      const current = product.categories || [];
+      if (!current.includes(categoryId)) continue;
+
+      const next = current
+        .map(id => (id === categoryId ? replacementId : id))
+        .filter((id, index, arr): id is string => id !== null && arr.indexOf(id) === index);
+
+      await this.productRepo.update(product.id, { categories: next });
+      updated++;
+    }
+
+    return updated;
+  }
+
+  private validateName(name: MultilingualString | undefined): string | null {
+    const hasName = name && Object.values(name).some(value => typeof value === 'string' && value.trim() !== '');
+    return hasName ? null : 'Category name is required in at least one language';
+  }
+
+  private slugFromName(name: MultilingualString): string {
+    const source = name.en || name.no || Object.values(name).find(v => v && v.trim()) || '';
+    return slugifyCategoryName(source) || uuidv4().slice(0, 8);
+  }
+}
+
+export const categoryService = new CategoryService();
@@ -0,0 +1,94 @@
+import { create } from 'zustand';
+import type { Category, CreateCategoryInput, UpdateCategoryInput, MoveCategoryInput } from '@/types/category';
+import { createCategoryNameResolver, type CategoryNameResolver } from './category-tree';
+
+interface CategoryState {
+  categories: Category[];
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  fetchCategories: () => Promise<void>;
+  createCategory: (input: CreateCategoryInput) => Promise<Category>;
+  updateCategory: (id: string, input: UpdateCategoryInput) => Promise<Category>;
+  moveCategory: (id: string, input: MoveCategoryInput) => Promise<void>;
+  mergeCategories: (sourceId: string, targetId: string) => Promise<void>;
+  deleteCategory: (id: string) => Promise<void>;
+
+  // Helpers (synchronous lookup from state)
+  getNameResolver: (locale?: string) => CategoryNameResolver;
+}
+
+function buildHeaders(): Record<string, string> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  const token = typeof window !== 'undefined' ? localStorage.getItem('accessToken') : null;
+  if (token) headers['Authorization'] = `Bearer ${token}`;
+  return headers;
+}
+
+async function request<T>(url: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(url, { ...init, headers: buildHeaders() });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok || !data.success) {
+    throw new Error(data.error || `Request failed: ${response.status} ${response.statusText}`);
+  }
+  return data.data as T;
+}
+
+export const useCategoryStore = create<CategoryState>((set, get) => ({
+  categories: [],
+  isLoading: false,
+  error: null,
+
+  fetchCategories: async () => {
+    set({ isLoading: true, error: null });
+    try {
+      const categories = await request<Category[]>('/api/categories?view=flat');
+      set({ categories, isLoading: false });
+    } catch (error) {
+      console.error('Error fetching categories:', error);
+      set({ error: (error as Error).message, isLoading: false });
+    }
+  },
+
+  createCategory: async (input) => {
+    const category = await request<Category>('/api/categories', {
+      method: 'POST',
+      body: JSON.stringify(input),
+    });
+    await get().fetchCategories();
+    return category;
+  },
+
+  updateCategory: async (id, input) => {
+    const category = await request<Category>(`/api/categories/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(input),
+    });
+    set(state => ({ categories: state.categories.map(c => (c.id === id ? category : c)) }));
+    return category;
+  },
+
+  moveCategory: async (id, input) => {
+    await request(`/api/categories/${id}/move`, {
+      method: 'POST',
+      body: JSON.stringify(input),
+    });
+    await get().fetchCategories();
+  },
+
+  mergeCategories: async (sourceId, targetId) => {
+    await request(`/api/categories/${sourceId}/merge`, {
+      method: 'POST',
+      body: JSON.stringify({ targetId }),
+    });
+    await get().fetchCategories();
+  },
+
+  deleteCategory: async (id) => {
+    await request(`/api/categories/${id}`, { method: 'DELETE' });
+    await get().fetchCategories();
+  },
+
+  getNameResolver: (locale = 'en') => createCategoryNameResolver(get().categories, { locale }),
+}));
@@ -0,0 +1,239 @@
+/**
+ * Category Tree Utilities
+ *
+ * Pure helpers for working with the flat list of categories stored in the
+ * database: building the tree, validating moves, re-ordering siblings and
+ * resolving category IDs to display names for exports and filters, and
+ * names to IDs for imports.
+ */
+
+import type { Category, CategoryTreeNode } from '@/types/category';
+
+export type CategoryNameResolver = (ids: string[] | undefined) => string[];
+export type CategoryIdResolver = (values: string[] | undefined) => string[];
+
+/**
+ * Turn a category name into a URL-friendly slug
+ */
+export function slugifyCategoryName(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/æ/g, 'ae')
+    .replace(/ø/g, 'o')
+    .replace(/å/g, 'a')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Get the display name of a category in the requested locale,
+ * falling back to English, Norwegian and then any non-empty translation.
+ */
+export function getCategoryDisplayName(category: Category, locale: string = 'en'): string {
+  const name = category.name || {};
+  const fallback = Object.values(name).find(value => typeof value === 'string' && value.trim() !== '');
+  return name[locale] || name.en || name.no || fallback || category.slug || category.id;
+}
+
+/**
+ * Sort siblings by their explicit order, using the name as a tie-breaker
+ */
+export function sortCategories<T extends Category>(categories: T[]): T[] {
+  return [...categories].sort((a, b) =>
+    a.order - b.order || getCategoryDisplayName(a).localeCompare(getCategoryDisplayName(b))
+  );
+}
+
+/**
+ * Build a nested tree from a flat category list.
+ * Categories whose parent no longer exists are treated as roots.
+ */
+export function buildCategoryTree(categories: Category[]): CategoryTreeNode[] {
+  const ids = new Set(categories.map(c => c.id));
+  const childrenByParent = new Map<string | null, Category[]>();
+
+  for (const category of categories) {
+    const parentKey = category.parentId && ids.has(category.parentId) ? category.parentId : null;
+    const siblings = childrenByParent.get(parentKey) || [];
+    siblings.push(category);
+    childrenByParent.set(parentKey, siblings);
+  }
+
+  const build = (parentId: string | null, depth: number, parentPath: string[]): CategoryTreeNode[] =>
+    sortCategories(childrenByParent.get(parentId) || []).map(category => {
+      const path = [...parentPath, category.id];
+      return {
+        ...category,
+        depth,
+        path,
+        children: build(category.id, depth + 1, path),
+      };
+    });
+
+  return build(null, 0, []);
+}
+
+/**
+ * Flatten a tree depth-first (parents before their children)
+ */
+export function flattenCategoryTree(nodes: CategoryTreeNode[]): CategoryTreeNode[] {
+  return nodes.flatMap(node => [node, ...flattenCategoryTree(node.children)]);
+}
+
+/**
+ * Get the IDs of every descendant of a category (not including itself)
+ */
+export function getDescendantIds(categories: Category[], categoryId: string): string[] {
+  const result: string[] = [];
+  const queue = [categoryId];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const category of categories) {
+      if (category.parentId === current && !result.includes(category.id)) {
+        result.push(category.id);
+        queue.push(category.id);
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Check whether moving `categoryId` under `newParentId` would create a cycle
+ */
+export function wouldCreateCycle(categories: Category[], categoryId: string, newParentId: string | null): boolean {
+  if (!newParentId) return false;
+  if (newParentId === categoryId) return true;
+  return getDescendantIds(categories, categoryId).includes(newParentId);
+}
+
+/**
+ * Get the chain of categories from the root down to the given category
+ */
+export function getCategoryPath(categories: Category[], categoryId: string): Category[] {
+  const byId = new Map(categories.map(c => [c.id, c]));
+  const path: Category[] = [];
+  const visited = new Set<string>();
+  let current = byId.get(categoryId);
+
+  while (current && !visited.has(current.id)) {
+    path.unshift(current);
+    visited.add(current.id);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+
+  return path;
+}
+
+/**
+ * Compute the categories that change when `categoryId` is moved to a new
+ * parent and position. Siblings in both the old and new parent are
+ * renumbered so their order stays contiguous.
+ */
+export function computeCategoryMove(
+  categories: Category[],
+  categoryId: string,
+  newParentId: string | null,
+  position?: number
+): Category[] {
+  const moving = categories.find(c => c.id === categoryId);
+  if (!moving) return [];
+
+  const oldParentId = moving.parentId;
+  const changed = new Map<string, Category>();
+
+  const renumber = (siblings: Category[]) => {
+    siblings.forEach((sibling, index) => {
+      const original = categories.find(c => c.id === sibling.id)!;
+      if (original.order !== index || original.parentId !== sibling.parentId) {
+        changed.set(sibling.id, { ...sibling, order: index });
+      }
+    });
+  };
+
+  const newSiblings = sortCategories(
+    categories.filter(c => c.parentId === newParentId && c.id !== categoryId)
+  );
+  const insertAt = position === undefined
+    ? newSiblings.length
+    : Math.max(0, Math.min(position, newSiblings.length));
+  newSiblings.splice(insertAt, 0, { ...moving, parentId: newParentId });
+  renumber(newSiblings);
+
+  if (oldParentId !== newParentId) {
+    renumber(sortCategories(categories.filter(c => c.parentId === oldParentId && c.id !== categoryId)));
+  }
+
+  return Array.from(changed.values());
+}
+
+/**
+ * Find a category by name in any locale (case-insensitive)
+ */
+export function findCategoryByName(categories: Category[], name: string): Category | undefined {
+  const needle = name.trim().toLowerCase();
+  if (!needle) return undefined;
+  return categories.find(category =>
+    category.slug === slugifyCategoryName(name) ||
+    Object.values(category.name || {}).some(value => typeof value === 'string' && value.trim().toLowerCase() === needle)
+  );
+}
+
+/**
+ * Resolve category IDs to display names.
+ * Values that do not match a known category are returned unchanged so that
+ * products still carrying legacy free-text categories keep exporting.
+ */
+export function resolveCategoryNames(
+  ids: string[] | undefined,
+  categories: Category[],
+  options: { locale?: string; fullPath?: boolean; separator?: string } = {}
+): string[] {
+  if (!ids || ids.length === 0) return [];
+  const { locale = 'en', fullPath = false, separator = ' > ' } = options;
+  const byId = new Map(categories.map(c => [c.id, c]));
+
+  return ids.map(id => {
+    const category = byId.get(id);
+    if (!category) return id;
+    if (!fullPath) return getCategoryDisplayName(category, locale);
+    return getCategoryPath(categories, id)
+      .map(c => getCategoryDisplayName(c, locale))
+      .join(separator);
+  });
+}
+
+/**
+ * Create a resolver bound to a category list, for use in mappers that
+ * process many products.
+ */
+export function createCategoryNameResolver(
+  categories: Category[],
+  options: { locale?: string; fullPath?: boolean; separator?: string } = {}
+): CategoryNameResolver {
+  return (ids) => resolveCategoryNames(ids, categories, options);
+}
+
+/**
+ * Resolve category IDs or names, as files and integrations give them, to
+ * IDs. Values that match no category are kept as legacy free text.
+ */
+export function resolveCategoryIds(values: string[] | undefined, categories: Category[]): string[] {
+  if (!values || values.length === 0) return [];
+  const ids = values.map(value =>
+    categories.find(c => c.id === value)?.id || findCategoryByName(categories, value)?.id || value
+  );
+  return Array.from(new Set(ids));
+}
+
+/**
+ * Create a resolver from names to IDs bound to a category list, for use in
+ * imports that process many products.
+ */
+export function createCategoryIdResolver(categories: Category[]): CategoryIdResolver {
+  return (values) => resolveCategoryIds(values, categories);
+}
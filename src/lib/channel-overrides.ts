@@ -0,0 +1,152 @@
+/**
+ * Channel Overrides
+ *
+ * Request schemas for channels, and pure helpers for merging a product's
+ * per-channel overrides over its base values.
+ */
+
+import { z } from 'zod';
+import type { Channel, ChannelOverride, ChannelOverrides, ChannelType } from '@/types/channel';
+import { CHANNEL_OVERRIDE_FIELDS, CHANNEL_TYPES } from '@/types/channel';
+import type { MultilingualString, PriceEntry, Product } from '@/types/product';
+
+const CHANNEL_CODE_PATTERN = /^[a-z][a-z0-9_]*$/;
+
+/**
+ * Request schema for creating a channel
+ */
+export const channelCreateSchema = z.object({
+  code: z.string().min(1),
+  name: z.string().min(1),
+  type: z.enum(CHANNEL_TYPES as [ChannelType, ...ChannelType[]]),
+  description: z.string().optional(),
+  currency: z.string().length(3).optional(),
+  locale: z.string().optional(),
+  active: z.boolean().default(true),
+});
+
+/**
+ * Request schema for updating a channel
+ */
+export const channelUpdateSchema = channelCreateSchema.partial();
+
+/**
+ * Validate a channel before it is saved
+ */
+export function validateChannel(channel: { code: string; name: string; type: ChannelType; currency?: string }): string[] {
+  const errors: string[] = [];
+  if (!channel.code || !CHANNEL_CODE_PATTERN.test(channel.code)) {
+    errors.push('Channel code must start with a letter and contain only lowercase letters, digits and underscores');
+  }
+  if (!channel.name || channel.name.trim() === '') {
+    errors.push('Channel name is required');
+  }
+  if (!CHANNEL_TYPES.includes(channel.type)) {
+    errors.push(`Unknown channel type "${channel.type}"`);
+  }
+  if (channel.currency && !/^[A-Z]{3}$/.test(channel.currency)) {
+    errors.push('Currency must be a three-letter ISO code (e.g. NOK)');
+  }
+  return errors;
+}
+
+function hasText(value: MultilingualString | undefined): boolean {
+  return !!value && Object.values(value).some(v => typeof v === 'string' && v.trim() !== '');
+}
+
+/**
+ * Merge a multilingual override over its base value, language by language
+ */
+export function mergeMultilingual(base: MultilingualString, override: MultilingualString | undefined): MultilingualString {
+  if (!override) return base;
+  const merged: MultilingualString = { ...base };
+  for (const [locale, text] of Object.entries(override)) {
+    if (typeof text === 'string' && text.trim() !== '') merged[locale] = text;
+  }
+  return merged;
+}
+
+function mergeList<T>(base: T[] | undefined, override: T[] | undefined): T[] | undefined {
+  return override && override.length > 0 ? override : base;
+}
+
+/**
+ * Order a price list so entries in the channel's currency come first;
+ * exporters take the first entry.
+ */
+function preferCurrency(prices: PriceEntry[] | undefined, currency: string | undefined): PriceEntry[] | undefined {
+  if (!prices || !currency) return prices;
+  return [...prices].sort((a, b) => Number(b.currency === currency) - Number(a.currency === currency));
+}
+
+/**
+ * Check whether an override sets anything
+ */
+export function isChannelOverrideEmpty(override: ChannelOverride | undefined): boolean {
+  return getOverriddenFields(override).length === 0;
+}
+
+/**
+ * List the fields an override actually sets
+ */
+export function getOverriddenFields(override: ChannelOverride | undefined): Array<keyof ChannelOverride> {
+  if (!override) return [];
+  return CHANNEL_OVERRIDE_FIELDS.filter(field => {
+    const value = override[field];
+    if (Array.isArray(value)) return value.length > 0;
+    return hasText(value as MultilingualString | undefined);
+  });
+}
+
+/**
+ * Drop unset fields and empty overrides before saving
+ */
+export function pruneChannelOverrides(overrides: ChannelOverrides | undefined): ChannelOverrides {
+  const pruned: ChannelOverrides = {};
+  if (!overrides) return pruned;
+  for (const [channelId, override] of Object.entries(overrides)) {
+    const fields = getOverriddenFields(override);
+    if (fields.length === 0) continue;
+    pruned[channelId] = Object.fromEntries(fields.map(field => [field, override[field]])) as ChannelOverride;
+  }
+  return pruned;
+}
+
+/**
+ * Get the product as a channel sees it: overrides for the channel merged over
+ * the base values. Without a channel the product is returned unchanged.
+ */
+export function resolveProductForChannel(product: Product, channel: Channel | null | undefined): Product {
+  if (!channel) return product;
+  const override = product.channelOverrides?.[channel.id] || {};
+
+  const standardPrice = mergeList(product.pricingAndStock?.standardPrice, override.standardPrice);
+  const salePrice = mergeList(product.pricingAndStock?.salePrice, override.salePrice);
+
+  return {
+    ...product,
+    basicInfo: {
+      ...product.basicInfo,
+      name: mergeMultilingual(product.basicInfo.name, override.name),
+      descriptionShort: mergeMultilingual(product.basicInfo.descriptionShort, override.descriptionShort),
+      descriptionLong: mergeMultilingual(product.basicInfo.descriptionLong, override.descriptionLong),
+    },
+    media: {
+      ...product.media,
+      images: mergeList(product.media.images, override.images) || [],
+    },
+    marketingSEO: {
+      ...product.marketingSEO,
+      seoTitle: mergeMultilingual(product.marketingSEO.seoTitle, override.seoTitle),
+      seoDescription: mergeMultilingual(product.marketingSEO.seoDescription, override.seoDescription),
+      keywords: mergeList(product.marketingSEO.keywords, override.keywords) || [],
+    },
+    pricingAndStock: (product.pricingAndStock || standardPrice)
+      ? {
+        ...product.pricingAndStock,
+        standardPrice: preferCurrency(standardPrice, channel.currency) || [],
+        salePrice: preferCurrency(salePrice, channel.currency),
+      }
+      : undefined,
+  };
+}
@@ -0,0 +1,143 @@
+/**
+ * Channel Service
+ *
+ * CRUD for sales and publishing channels. A channel cannot be deleted while
+ * products still carry overrides for it.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type { Channel, ChannelType, CreateChannelInput, UpdateChannelInput } from '@/types/channel';
+import { firestoreChannelRepository, FirestoreChannelRepository } from './firestore-channel-repository';
+import { firestoreProductRepository, FirestoreProductRepository } from './firestore-product-repository';
+import { validateChannel } from './channel-overrides';
+
+/**
+ * Channel Service Result
+ */
+export interface ChannelServiceResult<T = Channel> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  code?: string;
+  details?: string[];
+}
+
+export class ChannelService {
+  constructor(
+    private channelRepo: FirestoreChannelRepository = firestoreChannelRepository,
+    private productRepo: FirestoreProductRepository = firestoreProductRepository
+  ) { }
+
+  async listChannels(): Promise<Channel[]> {
+    const channels = await this.channelRepo.getAll();
+    return channels.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getChannel(id: string): Promise<ChannelServiceResult> {
+    const channel = await this.channelRepo.getById(id);
+    if (!channel) {
+      return { success: false, error: 'Channel not found', code: 'NOT_FOUND' };
+    }
+    return { success: true, data: channel };
+  }
+
+  /**
+   * Resolve the channel an export should use. An explicit ID must name an
+   * active channel; without one, no overrides are applied.
+   */
+  async getExportChannel(channelId: string | undefined, type: ChannelType): Promise<ChannelServiceResult<Channel | null>> {
+    if (!channelId) return { success: true, data: null };
+
+    const channel = await this.channelRepo.getById(channelId);
+    if (!channel) {
+      return { success: false, error: 'Channel not found', code: 'NOT_FOUND' };
+    }
+    if (!channel.active) {
+      return { success: false, error: `Channel "${channel.name}" is inactive`, code: 'INACTIVE' };
+    }
+    if (channel.type !== type && channel.type !== 'other') {
+      return { success: false, error: `Channel "${channel.name}" is not a ${type} channel`, code: 'TYPE_MISMATCH' };
+    }
+    return { success: true, data: channel };
+  }
+
+  async createChannel(input: CreateChannelInput): Promise<ChannelServiceResult> {
+    const errors = validateChannel(input);
+    if (errors.length > 0) {
+      return { success: false, error: 'Invalid channel', code: 'VALIDATION_ERROR', details: errors };
+    }
+
+    const existing = await this.channelRepo.getAll();
+    if (existing.some(c => c.code === input.code)) {
+      return { success: false, error: `A channel with code "${input.code}" already exists`, code: 'CODE_EXISTS' };
+    }
+
+    const now = new Date().toISOString();
+    const channel: Channel = {
+      id: uuidv4(),
+      code: input.code,
+      name: input.name,
+      type: input.type,
+      description: input.description,
+      currency: input.currency,
+      locale: input.locale,
+      active: input.active ?? true,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.channelRepo.save(channel);
+    return { success: true, data: channel };
+  }
+
+  async updateChannel(id: string, input: UpdateChannelInput): Promise<ChannelServiceResult> {
+    const existing = await this.channelRepo.getById(id);
+    if (!existing) {
+      return { success: false, error: 'Channel not found', code: 'NOT_FOUND' };
+    }
+
+    const updated: Channel = {
+      ...existing,
+      ...input,
+      id,
+      updatedAt: new Date().toISOString(),
+    };
+
+    const errors = validateChannel(updated);
+    if (errors.length > 0) {
+      return { success: false, error: 'Invalid channel', code: 'VALIDATION_ERROR', details: errors };
+    }
+
+    if (input.code && input.code !== existing.code) {
+      const channels = await this.channelRepo.getAll();
+      if (channels.some(c => c.id !== id && c.code === input.code)) {
+        return { success: false, error: `A channel with code "${input.code}" already exists`, code: 'CODE_EXISTS' };
+      }
+    }
+
+    await this.channelRepo.save(updated);
+    return { success: true, data: updated };
+  }
+
+  async deleteChannel(id: string): Promise<ChannelServiceResult<void>> {
+    const existing = await this.channelRepo.getById(id);
+    if (!existing) {
+      return { success: false, error: 'Channel not found', code: 'NOT_FOUND' };
+    }
+
+    const products = await this.productRepo.getAll();
+    const inUse = products.filter(p => p.channel_overrides?.[id]).length;
+    if (inUse > 0) {
+      return {
+        success: false,
+        error: `${inUse} product(s) have overrides for this channel. Remove them or deactivate the channel instead.`,
+        code: 'IN_USE',
+      };
+    }
+
+    await this.channelRepo.delete(id);
+    return { success: true };
+  }
+}
+
+export const channelService = new ChannelService();
@@ -0,0 +1,76 @@
+import { create } from 'zustand';
+import type { Channel, CreateChannelInput, UpdateChannelInput } from '@/types/channel';
+
+interface ChannelState {
+  channels: Channel[];
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  fetchChannels: () => Promise<void>;
+  createChannel: (input: CreateChannelInput) => Promise<Channel>;
+  updateChannel: (id: string, input: UpdateChannelInput) => Promise<Channel>;
+  deleteChannel: (id: string) => Promise<void>;
+
+  // Helpers (synchronous lookup from state)
+  getChannelById: (id: string | undefined) => Channel | undefined;
+}
+
+function buildHeaders(): Record<string, string> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  const token = typeof window !== 'undefined' ? localStorage.getItem('accessToken') : null;
+  if (token) headers['Authorization'] = `Bearer ${token}`;
+  return headers;
+}
+
+async function request<T>(url: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(url, { ...init, headers: buildHeaders() });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok || !data.success) {
+    const details = Array.isArray(data.details) && data.details.length > 0 ? `: ${data.details.join('; ')}` : '';
+    throw new Error((data.error || `Request failed: ${response.status} ${response.statusText}`) + details);
+  }
+  return data.data as T;
+}
+
+export const useChannelStore = create<ChannelState>((set, get) => ({
+  channels: [],
+  isLoading: false,
+  error: null,
+
+  fetchChannels: async () => {
+    set({ isLoading: true, error: null });
+    try {
+      const channels = await request<Channel[]>('/api/channels');
+      set({ channels, isLoading: false });
+    } catch (error) {
+      console.error('Error fetching channels:', error);
+      set({ error: (error as Error).message, isLoading: false });
+    }
+  },
+
+  createChannel: async (input) => {
+    const channel = await request<Channel>('/api/channels', {
+      method: 'POST',
+      body: JSON.stringify(input),
+    });
+    set(state => ({ channels: [...state.channels, channel] }));
+    return channel;
+  },
+
+  updateChannel: async (id, input) => {
+    const channel = await request<Channel>(`/api/channels/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(input),
+    });
+    set(state => ({ channels: state.channels.map(c => (c.id === id ? channel : c)) }));
+    return channel;
+  },
+
+  deleteChannel: async (id) => {
+    await request(`/api/channels/${id}`, { method: 'DELETE' });
+    set(state => ({ channels: state.channels.filter(c => c.id !== id) }));
+  },
+
+  getChannelById: (id) => (id ? get().channels.find(c => c.id === id) : undefined),
+}));
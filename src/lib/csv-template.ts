@@ -3,10 +3,11 @@
 import { getCSVHeaders, escapeCSVField } from './csv-utils';
 
 /**
- * Generates a CSV template with sample data for users to understand the format
+ * Generates a CSV template with sample data for users to understand the format.
+ * Columns for locales other than English and Norwegian are left empty.
  */
-export function generateCSVTemplate(): string {
-  const headers = getCSVHeaders();
+export function generateCSVTemplate(locales?: string[]): string {
+  const headers = getCSVHeaders(locales);
   
   // Sample product data for template
   const sampleRow = {
@@ -55,8 +56,8 @@ export function generateCSVTemplate(): string {
 /**
  * Downloads the CSV template file
  */
-export function downloadCSVTemplate(): void {
-  const csvContent = generateCSVTemplate();
+export function downloadCSVTemplate(locales?: string[]): void {
+  const csvContent = generateCSVTemplate(locales);
   const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
   const link = document.createElement('a');
   
@@ -1,6 +1,13 @@
 // src/lib/csv-utils.ts
 
-import type { Product } from '@/types/product';
+import type { KeyValueEntry, MultilingualString, Product } from '@/types/product';
+import type { UnitPreferences } from '@/types/units';
+import type { Channel } from '@/types/channel';
+import type { LocaleSettings } from '@/types/locale';
+import { DEFAULT_LOCALE_SETTINGS } from '@/types/locale';
+import { convertSpecValue, formatQuantity, parseQuantity, toPreferredUnit } from './units-of-measure';
+import { resolveProductForChannel } from './channel-overrides';
+import { getLocaleCodes, getLocaleName, toMultilingualString } from './locales';
 
 /**
  * CSV Export/Import utilities for product data
@@ -39,12 +46,81 @@ export interface CSVProductRow {
   quality_score: string;
   created_at: string;
   updated_at: string;
+  [localeColumn: string]: string; // e.g. name_sv, seo_title_de for further locales
+}
+
+/**
+ * Multilingual fields, exported as one "<prefix>_<locale>" column per locale
+ */
+const LOCALIZED_COLUMNS = {
+  name: (p: Product) => p.basicInfo.name,
+  description_short: (p: Product) => p.basicInfo.descriptionShort,
+  description_long: (p: Product) => p.basicInfo.descriptionLong,
+  seo_title: (p: Product) => p.marketingSEO?.seoTitle,
+  seo_description: (p: Product) => p.marketingSEO?.seoDescription,
+} satisfies Record<string, (p: Product) => MultilingualString | undefined>;
+
+type LocalizedColumn = keyof typeof LOCALIZED_COLUMNS;
+
+const localeColumns = (prefix: LocalizedColumn, locales: string[]) => locales.map(locale => `${prefix}_${locale}`);
+
+/**
+ * Options for converting between products and CSV rows
+ */
+export interface CSVConversionOptions {
+  // Rewrite technical spec quantities in these units (e.g. "12 in" -> "30.48 cm").
+  // Spec values are left as they are when omitted.
+  unitPreferences?: UnitPreferences;
+  // Export the product as this channel sees it (overrides merged over base values).
+  // Ignored on import.
+  channel?: Channel | null;
+  // Locales to export columns for; defaults to English and Norwegian. On
+  // import, every locale column present in the file is read.
+  locales?: string[];
+}
+
+/**
+ * Read every "<prefix>_<locale>" column of a row into a multilingual value
+ */
+function readLocalizedColumns(row: CSVProductRow, prefix: LocalizedColumn): MultilingualString {
+  const pattern = new RegExp(`^${prefix}_([a-z]{2,3}(?:-[A-Z]{2})?)$`);
+  const values: Record<string, string> = {};
+  for (const [column, value] of Object.entries(row)) {
+    const match = column.match(pattern);
+    if (match) values[match[1]] = value || '';
+  }
+  return toMultilingualString(values);
+}
+
+/**
+ * Format a technical spec value for CSV export
+ */
+function formatSpecValue(spec: KeyValueEntry, unitPreferences?: UnitPreferences): string {
+  if (!unitPreferences) return spec.value;
+  if (spec.quantity) return formatQuantity(toPreferredUnit(spec.quantity, unitPreferences));
+  return convertSpecValue(spec.value, unitPreferences);
+}
+
+/**
+ * Parse a technical spec value from CSV, keeping the original unit and the
+ * normalized value when it is a quantity
+ */
+function parseSpecValue(id: string, key: string, value: string, unitPreferences?: UnitPreferences): KeyValueEntry {
+  const quantity = parseQuantity(value);
+  if (!quantity) return { id, key, value };
+  return {
+    id,
+    key,
+    value: unitPreferences ? formatQuantity(toPreferredUnit(quantity, unitPreferences)) : value,
+    quantity,
+  };
 }
 
 /**
  * Converts a Product object to CSV row format
  */
-export function productToCSVRow(product: Product): CSVProductRow {
+export function productToCSVRow(baseProduct: Product, options: CSVConversionOptions = {}): CSVProductRow {
+  const product = resolveProductForChannel(baseProduct, options.channel);
   const basicInfo = product.basicInfo;
   const attributes = product.attributesAndSpecs;
   const media = product.media;
@@ -52,7 +128,16 @@ export function productToCSVRow(product: Product): CSVProductRow {
   const pricing = product.pricingAndStock;
   const quality = product.qualityMetrics;
 
+  const localized: Record<string, string> = {};
+  for (const [prefix, read] of Object.entries(LOCALIZED_COLUMNS)) {
+    const value = read(product);
+    for (const locale of options.locales || getLocaleCodes()) {
+      localized[`${prefix}_${locale}`] = value?.[locale] || '';
+    }
+  }
+
   return {
+    ...localized,
     id: product.id,
     sku: basicInfo.sku || '',
     name_en: basicInfo.name?.en || '',
@@ -68,7 +153,7 @@ export function productToCSVRow(product: Product): CSVProductRow {
     end_date: basicInfo.endDate || '',
     categories: attributes?.categories?.join('; ') || '',
     properties: attributes?.properties?.map(p => `${p.key}: ${p.value}`).join('; ') || '',
-    technical_specs: attributes?.technicalSpecs?.map(s => `${s.key}: ${s.value}`).join('; ') || '',
+    technical_specs: attributes?.technicalSpecs?.map(s => `${s.key}: ${formatSpecValue(s, options.unitPreferences)}`).join('; ') || '',
     country_of_origin: attributes?.countryOfOrigin || '',
     image_urls: media?.images?.map(img => img.url).join('; ') || '',
     seo_title_en: marketing?.seoTitle?.en || '',
@@ -91,24 +176,15 @@ export function productToCSVRow(product: Product): CSVProductRow {
 /**
  * Converts a CSV row to Product object format
  */
-export function csvRowToProduct(row: CSVProductRow): Partial<Product> {
+export function csvRowToProduct(row: CSVProductRow, options: CSVConversionOptions = {}): Partial<Product> {
   const product: Partial<Product> = {
     id: row.id,
     basicInfo: {
-      name: {
-        en: row.name_en || '',
-        no: row.name_no || '',
-      },
+      name: readLocalizedColumns(row, 'name'),
       sku: row.sku || '',
       gtin: row.gtin || undefined,
-      descriptionShort: {
-        en: row.description_short_en || '',
-        no: row.description_short_no || '',
-      },
-      descriptionLong: {
-        en: row.description_long_en || '',
-        no: row.description_long_no || '',
-      },
+      descriptionShort: readLocalizedColumns(row, 'description_short'),
+      descriptionLong: readLocalizedColumns(row, 'description_long'),
       brand: row.brand || '',
       status: (row.status as any) || 'development',
       launchDate: row.launch_date || undefined,
@@ -126,11 +202,12 @@ export function csvRowToProduct(row: CSVProductRow): Partial<Product> {
       }) : [],
       technicalSpecs: row.technical_specs ? row.technical_specs.split('; ').map(spec => {
         const [key, ...valueParts] = spec.split(': ');
-        return {
-          id: `spec-${Math.random().toString(36).substr(2, 9)}`,
-          key: key || '',
-          value: valueParts.join(': ') || '',
-        };
+        return parseSpecValue(
+          `spec-${Math.random().toString(36).substr(2, 9)}`,
+          key || '',
+          valueParts.join(': ') || '',
+          options.unitPreferences
+        );
       }) : [],
       countryOfOrigin: row.country_of_origin || undefined,
     },
@@ -146,14 +223,8 @@ export function csvRowToProduct(row: CSVProductRow): Partial<Product> {
       })) : [],
     },
     marketingSEO: {
-      seoTitle: {
-        en: row.seo_title_en || '',
-        no: row.seo_title_no || '',
-      },
-      seoDescription: {
-        en: row.seo_description_en || '',
-        no: row.seo_description_no || '',
-      },
+      seoTitle: readLocalizedColumns(row, 'seo_title'),
+      seoDescription: readLocalizedColumns(row, 'seo_description'),
       keywords: row.keywords ? row.keywords.split('; ').filter(Boolean) : [],
     },
     pricingAndStock: {
@@ -187,18 +258,16 @@ export function csvRowToProduct(row: CSVProductRow): Partial<Product> {
 }
 
 /**
- * Generates CSV headers based on the CSVProductRow interface
+ * Generates CSV headers based on the CSVProductRow interface, with one column
+ * per locale for each multilingual field
  */
-export function getCSVHeaders(): string[] {
+export function getCSVHeaders(locales: string[] = getLocaleCodes()): string[] {
   return [
     'id',
     'sku',
-    'name_en',
-    'name_no',
-    'description_short_en',
-    'description_short_no',
-    'description_long_en',
-    'description_long_no',
+    ...localeColumns('name', locales),
+    ...localeColumns('description_short', locales),
+    ...localeColumns('description_long', locales),
     'brand',
     'status',
     'gtin',
@@ -209,10 +278,8 @@ export function getCSVHeaders(): string[] {
     'technical_specs',
     'country_of_origin',
     'image_urls',
-    'seo_title_en',
-    'seo_title_no',
-    'seo_description_en',
-    'seo_description_no',
+    ...localeColumns('seo_title', locales),
+    ...localeColumns('seo_description', locales),
     'keywords',
     'standard_price_amount',
     'standard_price_currency',
@@ -239,16 +306,16 @@ export function escapeCSVField(field: string): string {
 /**
  * Converts array of products to CSV string
  */
-export function productsToCSV(products: Product[]): string {
+export function productsToCSV(products: Product[], options: CSVConversionOptions = {}): string {
   if (products.length === 0) return '';
 
-  const headers = getCSVHeaders();
-  const csvRows = products.map(product => productToCSVRow(product));
+  const headers = getCSVHeaders(options.locales);
+  const csvRows = products.map(product => productToCSVRow(product, options));
   
   const csvLines = [
     headers.join(','),
     ...csvRows.map(row => 
-      headers.map(header => escapeCSVField(String(row[header as keyof CSVProductRow] || ''))).join(',')
+      headers.map(header => escapeCSVField(String(row[header] || ''))).join(',')
     )
   ];
 
@@ -320,10 +387,15 @@ function parseCSVLine(line: string): string[] {
 }
 
 /**
- * Validates CSV data structure
+ * Validates CSV data structure. Products need a name in the tenant's default
+ * locale.
  */
-export function validateCSVData(csvRows: CSVProductRow[]): { valid: boolean; errors: string[] } {
+export function validateCSVData(
+  csvRows: CSVProductRow[],
+  localeSettings: LocaleSettings = DEFAULT_LOCALE_SETTINGS
+): { valid: boolean; errors: string[] } {
   const errors: string[] = [];
+  const defaultLocale = localeSettings.defaultLocale;
 
   csvRows.forEach((row, index) => {
     const rowNum = index + 2; // +2 because CSV has header and is 1-indexed
@@ -333,8 +405,9 @@ export function validateCSVData(csvRows: CSVProductRow[]): { valid: boolean; err
       errors.push(`Row ${rowNum}: SKU is required`);
     }
 
-    if (!row.name_en || row.name_en.trim() === '') {
-      errors.push(`Row ${rowNum}: English name is required`);
+    const name = row[`name_${defaultLocale}`];
+    if (!name || name.trim() === '') {
+      errors.push(`Row ${rowNum}: ${getLocaleName(defaultLocale, localeSettings)} name is required`);
     }
 
     // Status validation
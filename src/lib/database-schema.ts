@@ -7,6 +7,7 @@
 
 import { UserRole, WorkflowState } from '@/types/workflow';
 import { MultilingualString } from '@/types/product';
+import type { BundleDefinition } from '@/types/bundle';
 
 /**
  * User Status Enum
@@ -115,12 +116,14 @@ export interface ProductsTable {
   end_date: string | null;    // ISO Date
 
   // Attributes & Specs (Stored as JSON objects/arrays)
-  categories: string[];
+  categories: string[]; // Category IDs
   properties: Array<{ id: string; key: string; value: string }>;
   technical_specs: Array<{ id: string; key: string; value: string }>;
   maintenance_instructions: MultilingualString | null;
   warranty_info: MultilingualString | null;
   country_of_origin: string | null;
+  attribute_family_id?: string | null;
+  attribute_values?: Record<string, any> | null; // Typed attribute values keyed by attribute code
 
   // Media (JSON)
   media_images: any[]; // Array of MediaEntry
@@ -141,6 +144,10 @@ export interface ProductsTable {
   sale_price: any[] | null;
   cost_price: any[] | null;
 
+  // Bundles
+  product_type?: string | null; // ProductType; null means 'simple'
+  bundle?: BundleDefinition | null;
+
   // Options & Variants
   options: any[] | null; // Array of ProductOption
   variants: any[] | null; // Array of ProductVariant
@@ -157,6 +164,12 @@ export interface ProductsTable {
   ai_summary: MultilingualString | null;
   quality_metrics: any | null; // QualityMetrics object
 
+  // Channels
+  channel_overrides?: Record<string, any> | null; // ChannelOverride objects keyed by channel ID
+
+  // Translations
+  translations?: Record<string, any> | null; // TranslationEntry objects keyed by field, then locale
+
   // Workflow
   workflow_state: string; // WorkflowState enum
   assigned_reviewer_id: string | null;
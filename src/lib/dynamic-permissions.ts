@@ -464,6 +464,7 @@ export class DynamicPermissionManager {
       [UserRole.ADMIN]: 0,
       [UserRole.REVIEWER]: 0,
       [UserRole.EDITOR]: 0,
+      [UserRole.TRANSLATOR]: 0,
       [UserRole.VIEWER]: 0
     };
 
@@ -0,0 +1,44 @@
+import { adminDb } from './firebase-admin';
+import type { ApiKey } from '@/types/api-key';
+
+const API_KEYS_COLLECTION = 'api_keys';
+
+export class FirestoreApiKeyRepository {
+    /**
+     * Create or overwrite an API key
+     */
+    async save(key: ApiKey): Promise<void> {
+        await adminDb.collection(API_KEYS_COLLECTION).doc(key.id).set(key);
+    }
+
+    /**
+     * Get an API key by ID
+     */
+    async getById(id: string): Promise<ApiKey | null> {
+        const docSnap = await adminDb.collection(API_KEYS_COLLECTION).doc(id).get();
+        return docSnap.exists ? (docSnap.data() as ApiKey) : null;
+    }
+
+    /**
+     * Get the API key with the given key hash
+     */
+    async getByHash(keyHash: string): Promise<ApiKey | null> {
+        const snapshot = await adminDb.collection(API_KEYS_COLLECTION)
+            .where('keyHash', '==', keyHash)
+            .limit(1)
+            .get();
+        return snapshot.empty ? null : (snapshot.docs[0].data() as ApiKey);
+    }
+
+    /**
+     * Get a tenant's API keys
+     */
+    async getByTenant(tenantId: string): Promise<ApiKey[]> {
+        const snapshot = await adminDb.collection(API_KEYS_COLLECTION)
+            .where('tenantId', '==', tenantId)
+            .get();
+        return snapshot.docs.map(doc => doc.data() as ApiKey);
+    }
+}
+
+export const firestoreApiKeyRepository = new FirestoreApiKeyRepository();
@@ -0,0 +1,38 @@
+import { adminDb } from './firebase-admin';
+import type { AttributeFamily } from '@/types/attribute';
+
+const ATTRIBUTE_FAMILIES_COLLECTION = 'attribute_families';
+
+export class FirestoreAttributeFamilyRepository {
+    /**
+     * Create or overwrite an attribute family
+     */
+    async save(family: AttributeFamily): Promise<void> {
+        await adminDb.collection(ATTRIBUTE_FAMILIES_COLLECTION).doc(family.id).set(family);
+    }
+
+    /**
+     * Get attribute family by ID
+     */
+    async getById(id: string): Promise<AttributeFamily | null> {
+        const docSnap = await adminDb.collection(ATTRIBUTE_FAMILIES_COLLECTION).doc(id).get();
+        return docSnap.exists ? (docSnap.data() as AttributeFamily) : null;
+    }
+
+    /**
+     * Get all attribute families
+     */
+    async getAll(): Promise<AttributeFamily[]> {
+        const snapshot = await adminDb.collection(ATTRIBUTE_FAMILIES_COLLECTION).get();
+        return snapshot.docs.map(doc => doc.data() as AttributeFamily);
+    }
+
+    /**
+     * Delete an attribute family
+     */
+    async delete(id: string): Promise<void> {
+        await adminDb.collection(ATTRIBUTE_FAMILIES_COLLECTION).doc(id).delete();
+    }
+}
+
+export const firestoreAttributeFamilyRepository = new FirestoreAttributeFamilyRepository();
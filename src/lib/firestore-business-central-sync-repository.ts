@@ -0,0 +1,61 @@
+import { adminDb } from './firebase-admin';
+import type { BusinessCentralItemSync, BusinessCentralSyncState } from '@/types/business-central-sync';
+
+const BUSINESS_CENTRAL_SYNC_STATES_COLLECTION = 'business_central_sync_states';
+const ITEM_SYNCS_COLLECTION = 'items';
+
+// Firestore's limit on writes in one batch
+const MAX_BATCH_WRITES = 500;
+
+export class FirestoreBusinessCentralSyncRepository {
+    /**
+     * Create or overwrite a company's sync state
+     */
+    async save(state: BusinessCentralSyncState): Promise<void> {
+        await adminDb.collection(BUSINESS_CENTRAL_SYNC_STATES_COLLECTION).doc(state.id).set(state);
+    }
+
+    /**
+     * Change some fields of a company's sync state, creating it if needed;
+     * used by syncs so they do not overwrite settings changed meanwhile
+     */
+    async merge(id: string, changes: Partial<BusinessCentralSyncState>): Promise<void> {
+        await adminDb.collection(BUSINESS_CENTRAL_SYNC_STATES_COLLECTION).doc(id).set(changes, { merge: true });
+    }
+
+    /**
+     * Get a company's sync state by ID
+     */
+    async getById(id: string): Promise<BusinessCentralSyncState | null> {
+        const docSnap = await adminDb.collection(BUSINESS_CENTRAL_SYNC_STATES_COLLECTION).doc(id).get();
+        return docSnap.exists ? (docSnap.data() as BusinessCentralSyncState) : null;
+    }
+
+    /**
+     * Get the item sync records of a company
+     */
+    async getItemSyncs(stateId: string): Promise<BusinessCentralItemSync[]> {
+        const snapshot = await this.itemSyncs(stateId).get();
+        return snapshot.docs.map(doc => doc.data() as BusinessCentralItemSync);
+    }
+
+    /**
+     * Create or overwrite item sync records, a batch at a time
+     */
+    async saveItemSyncs(stateId: string, records: BusinessCentralItemSync[]): Promise<void> {
+        for (let start = 0; start < records.length; start += MAX_BATCH_WRITES) {
+            const batch = adminDb.batch();
+            for (const record of records.slice(start, start + MAX_BATCH_WRITES)) {
+                // Item numbers may contain slashes, which document IDs cannot
+                batch.set(this.itemSyncs(stateId).doc(encodeURIComponent(record.itemNumber)), record);
+            }
+            await batch.commit();
+        }
+    }
+
+    private itemSyncs(stateId: string) {
+        return adminDb.collection(BUSINESS_CENTRAL_SYNC_STATES_COLLECTION).doc(stateId).collection(ITEM_SYNCS_COLLECTION);
+    }
+}
+
+export const firestoreBusinessCentralSyncRepository = new FirestoreBusinessCentralSyncRepository();
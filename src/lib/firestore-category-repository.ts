@@ -0,0 +1,50 @@
+import { adminDb } from './firebase-admin';
+import type { Category } from '@/types/category';
+
+const CATEGORIES_COLLECTION = 'categories';
+
+export class FirestoreCategoryRepository {
+    /**
+     * Create or overwrite a category
+     */
+    async save(category: Category): Promise<void> {
+        await adminDb.collection(CATEGORIES_COLLECTION).doc(category.id).set(category);
+    }
+
+    /**
+     * Save several categories atomically (used by move/merge re-ordering)
+     */
+    async saveMany(categories: Category[]): Promise<void> {
+        if (categories.length === 0) return;
+        const batch = adminDb.batch();
+        for (const category of categories) {
+            batch.set(adminDb.collection(CATEGORIES_COLLECTION).doc(category.id), category);
+        }
+        await batch.commit();
+    }
+
+    /**
+     * Get category by ID
+     */
+    async getById(id: string): Promise<Category | null> {
+        const docSnap = await adminDb.collection(CATEGORIES_COLLECTION).doc(id).get();
+        return docSnap.exists ? (docSnap.data() as Category) : null;
+    }
+
+    /**
+     * Get all categories (the taxonomy is small enough to load in full)
+     */
+    async getAll(): Promise<Category[]> {
+        const snapshot = await adminDb.collection(CATEGORIES_COLLECTION).get();
+        return snapshot.docs.map(doc => doc.data() as Category);
+    }
+
+    /**
+     * Delete a category
+     */
+    async delete(id: string): Promise<void> {
+        await adminDb.collection(CATEGORIES_COLLECTION).doc(id).delete();
+    }
+}
+
+export const firestoreCategoryRepository = new FirestoreCategoryRepository();
@@ -0,0 +1,38 @@
+import { adminDb } from './firebase-admin';
+import type { Channel } from '@/types/channel';
+
+const CHANNELS_COLLECTION = 'channels';
+
+export class FirestoreChannelRepository {
+    /**
+     * Create or overwrite a channel
+     */
+    async save(channel: Channel): Promise<void> {
+        await adminDb.collection(CHANNELS_COLLECTION).doc(channel.id).set(channel);
+    }
+
+    /**
+     * Get channel by ID
+     */
+    async getById(id: string): Promise<Channel | null> {
+        const docSnap = await adminDb.collection(CHANNELS_COLLECTION).doc(id).get();
+        return docSnap.exists ? (docSnap.data() as Channel) : null;
+    }
+
+    /**
+     * Get all channels
+     */
+    async getAll(): Promise<Channel[]> {
+        const snapshot = await adminDb.collection(CHANNELS_COLLECTION).get();
+        return snapshot.docs.map(doc => doc.data() as Channel);
+    }
+
+    /**
+     * Delete a channel
+     */
+    async delete(id: string): Promise<void> {
+        await adminDb.collection(CHANNELS_COLLECTION).doc(id).delete();
+    }
+}
+
+export const firestoreChannelRepository = new FirestoreChannelRepository();
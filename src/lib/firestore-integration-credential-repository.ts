@@ -0,0 +1,37 @@
+import { adminDb } from './firebase-admin';
+import type { IntegrationCredential } from '@/types/integration-credential';
+
+const INTEGRATION_CREDENTIALS_COLLECTION = 'integration_credentials';
+
+export class FirestoreIntegrationCredentialRepository {
+    /**
+     * Create or overwrite a credential
+     */
+    async save(credential: IntegrationCredential): Promise<void> {
+        await adminDb.collection(INTEGRATION_CREDENTIALS_COLLECTION).doc(credential.id).set(credential);
+    }
+
+    /**
+     * Get a credential by ID
+     */
+    async getById(id: string): Promise<IntegrationCredential | null> {
+        const docSnap = await adminDb.collection(INTEGRATION_CREDENTIALS_COLLECTION).doc(id).get();
+        return docSnap.exists ? (docSnap.data() as IntegrationCredential) : null;
+    }
+
+    /**
+     * Get a tenant's credentials
+     */
+    async getByTenant(tenantId: string): Promise<IntegrationCredential[]> {
+        const snapshot = await adminDb.collection(INTEGRATION_CREDENTIALS_COLLECTION)
+            .where('tenantId', '==', tenantId)
+            .get();
+        return snapshot.docs.map(doc => doc.data() as IntegrationCredential);
+    }
+
+    async delete(id: string): Promise<void> {
+        await adminDb.collection(INTEGRATION_CREDENTIALS_COLLECTION).doc(id).delete();
+    }
+}
+
+export const firestoreIntegrationCredentialRepository = new FirestoreIntegrationCredentialRepository();
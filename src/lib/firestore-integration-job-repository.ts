@@ -0,0 +1,69 @@
+import { adminDb } from './firebase-admin';
+import type { IntegrationJob } from '@/types/integration-job';
+
+const INTEGRATION_JOBS_COLLECTION = 'integration_jobs';
+
+export class FirestoreIntegrationJobRepository {
+    /**
+     * Create or overwrite a job
+     */
+    async save(job: IntegrationJob): Promise<void> {
+        await adminDb.collection(INTEGRATION_JOBS_COLLECTION).doc(job.id).set(job);
+    }
+
+    /**
+     * Change some fields of a job, leaving the others as stored. Used for
+     * progress and cancellation, which are written while a job runs.
+     */
+    async update(id: string, changes: Partial<IntegrationJob>): Promise<void> {
+        await adminDb.collection(INTEGRATION_JOBS_COLLECTION).doc(id).update(changes);
+    }
+
+    /**
+     * Get a job by ID
+     */
+    async getById(id: string): Promise<IntegrationJob | null> {
+        const docSnap = await adminDb.collection(INTEGRATION_JOBS_COLLECTION).doc(id).get();
+        return docSnap.exists ? (docSnap.data() as IntegrationJob) : null;
+    }
+
+    /**
+     * Get a tenant's most recent jobs, newest first
+     */
+    async getRecent(tenantId: string, limit: number): Promise<IntegrationJob[]> {
+        const snapshot = await adminDb.collection(INTEGRATION_JOBS_COLLECTION)
+            .where('tenantId', '==', tenantId)
+            .orderBy('createdAt', 'desc')
+            .limit(limit)
+            .get();
+        return snapshot.docs.map(doc => doc.data() as IntegrationJob);
+    }
+
+    /**
+     * Get a tenant's queued and running jobs
+     */
+    async getActive(tenantId: string): Promise<IntegrationJob[]> {
+        const snapshot = await adminDb.collection(INTEGRATION_JOBS_COLLECTION)
+            .where('tenantId', '==', tenantId)
+            .where('status', 'in', ['queued', 'running'])
+            .get();
+        return snapshot.docs.map(doc => doc.data() as IntegrationJob);
+    }
+
+    /**
+     * Get a tenant's queued and running jobs whose next attempt is due,
+     * oldest first. Running jobs are only due when their lease ran out.
+     */
+    async getDue(tenantId: string, now: string, limit: number): Promise<IntegrationJob[]> {
+        const snapshot = await adminDb.collection(INTEGRATION_JOBS_COLLECTION)
+            .where('tenantId', '==', tenantId)
+            .where('status', 'in', ['queued', 'running'])
+            .where('nextAttemptAt', '<=', now)
+            .orderBy('nextAttemptAt', 'asc')
+            .limit(limit)
+            .get();
+        return snapshot.docs.map(doc => doc.data() as IntegrationJob);
+    }
+}
+
+export const firestoreIntegrationJobRepository = new FirestoreIntegrationJobRepository();
@@ -0,0 +1,23 @@
+import { adminDb } from './firebase-admin';
+import type { LocaleSettings } from '@/types/locale';
+
+const LOCALE_SETTINGS_COLLECTION = 'locale_settings';
+
+export class FirestoreLocaleSettingsRepository {
+    /**
+     * Create or overwrite a tenant's locale settings
+     */
+    async save(tenantId: string, settings: LocaleSettings): Promise<void> {
+        await adminDb.collection(LOCALE_SETTINGS_COLLECTION).doc(tenantId).set(settings);
+    }
+
+    /**
+     * Get a tenant's locale settings
+     */
+    async getByTenant(tenantId: string): Promise<LocaleSettings | null> {
+        const docSnap = await adminDb.collection(LOCALE_SETTINGS_COLLECTION).doc(tenantId).get();
+        return docSnap.exists ? (docSnap.data() as LocaleSettings) : null;
+    }
+}
+
+export const firestoreLocaleSettingsRepository = new FirestoreLocaleSettingsRepository();
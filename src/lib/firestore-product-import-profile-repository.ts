@@ -0,0 +1,38 @@
+import { adminDb } from './firebase-admin';
+import type { ProductImportProfile } from '@/types/product-import';
+
+const PRODUCT_IMPORT_PROFILES_COLLECTION = 'product_import_profiles';
+
+export class FirestoreProductImportProfileRepository {
+    /**
+     * Create or overwrite an import profile
+     */
+    async save(profile: ProductImportProfile): Promise<void> {
+        await adminDb.collection(PRODUCT_IMPORT_PROFILES_COLLECTION).doc(profile.id).set(profile);
+    }
+
+    /**
+     * Get an import profile by ID
+     */
+    async getById(id: string): Promise<ProductImportProfile | null> {
+        const docSnap = await adminDb.collection(PRODUCT_IMPORT_PROFILES_COLLECTION).doc(id).get();
+        return docSnap.exists ? (docSnap.data() as ProductImportProfile) : null;
+    }
+
+    /**
+     * Get all import profiles
+     */
+    async getAll(): Promise<ProductImportProfile[]> {
+        const snapshot = await adminDb.collection(PRODUCT_IMPORT_PROFILES_COLLECTION).get();
+        return snapshot.docs.map(doc => doc.data() as ProductImportProfile);
+    }
+
+    /**
+     * Delete an import profile
+     */
+    async delete(id: string): Promise<void> {
+        await adminDb.collection(PRODUCT_IMPORT_PROFILES_COLLECTION).doc(id).delete();
+    }
+}
+
+export const firestoreProductImportProfileRepository = new FirestoreProductImportProfileRepository();
@@ -26,6 +26,14 @@ export class FirestoreProductRepository {
         return null;
     }
 
+    /**
+     * Get product by SKU; the first match when several share it
+     */
+    async getBySku(sku: string): Promise<ProductsTable | null> {
+        const snapshot = await adminDb.collection(this.collectionName).where('sku', '==', sku).limit(1).get();
+        return snapshot.empty ? null : snapshot.docs[0].data() as ProductsTable;
+    }
+
     /**
      * Update a product (partial update)
      */
@@ -47,16 +55,13 @@ export class FirestoreProductRepository {
     }
 
     /**
-     * Query products with filters and pagination
+     * Build the filtered query shared by paging and counting
      */
-    async query(params: {
+    private buildQuery(params: {
         workflowState?: WorkflowState;
         assignedReviewerId?: string;
         status?: string;
-        search?: string;
-        limit?: number;
-        lastDoc?: FirebaseFirestore.DocumentSnapshot;
-    }): Promise<{ products: ProductsTable[], lastDoc: FirebaseFirestore.DocumentSnapshot | null }> {
+    }): FirebaseFirestore.Query {
         let queryRef: FirebaseFirestore.Query = adminDb.collection(this.collectionName);
 
         // Apply filters
@@ -72,28 +77,43 @@ export class FirestoreProductRepository {
             queryRef = queryRef.where('status', '==', params.status);
         }
 
-        // Order by updated_at desc by default
-        queryRef = queryRef.orderBy('updated_at', 'desc');
-
-        if (params.limit) {
-            queryRef = queryRef.limit(params.limit);
-        }
+        return queryRef;
+    }
 
-        if (params.lastDoc) {
-            queryRef = queryRef.startAfter(params.lastDoc);
+    /**
+     * Query one page of products, last updated first. `after` is the sort key
+     * of the last product on the previous page; ties on updated_at are broken
+     * by ID so no product is skipped or repeated between pages.
+     */
+    async query(params: {
+        workflowState?: WorkflowState;
+        assignedReviewerId?: string;
+        status?: string;
+        limit: number;
+        after?: { updatedAt: string; id: string };
+    }): Promise<ProductsTable[]> {
+        let queryRef = this.buildQuery(params)
+            .orderBy('updated_at', 'desc')
+            .orderBy('id', 'desc');
+
+        if (params.after) {
+            queryRef = queryRef.startAfter(params.after.updatedAt, params.after.id);
         }
 
-        const snapshot = await queryRef.get();
-
-        const products: ProductsTable[] = [];
-        snapshot.forEach((doc) => {
-            products.push(doc.data() as ProductsTable);
-        });
+        const snapshot = await queryRef.limit(params.limit).get();
+        return snapshot.docs.map(doc => doc.data() as ProductsTable);
+    }
 
-        return {
-            products,
-            lastDoc: snapshot.docs.length > 0 ? snapshot.docs[snapshot.docs.length - 1] : null
-        };
+    /**
+     * Count the products matching the filters without reading them
+     */
+    async count(params: {
+        workflowState?: WorkflowState;
+        assignedReviewerId?: string;
+        status?: string;
+    }): Promise<number> {
+        const snapshot = await this.buildQuery(params).count().get();
+        return snapshot.data().count;
     }
 
     /**
@@ -0,0 +1,49 @@
+import { adminDb } from './firebase-admin';
+import type { ProductVersion } from '@/types/product-version';
+
+const PRODUCT_VERSIONS_COLLECTION = 'product_versions';
+
+export class FirestoreProductVersionRepository {
+    /**
+     * Store a new version. Versions are immutable, so this fails if the
+     * version already exists (e.g. two concurrent saves picked the same number).
+     */
+    async create(version: ProductVersion): Promise<void> {
+        await adminDb.collection(PRODUCT_VERSIONS_COLLECTION).doc(version.id).create(version);
+    }
+
+    /**
+     * Get a specific version of a product
+     */
+    async getVersion(productId: string, version: number): Promise<ProductVersion | null> {
+        const docSnap = await adminDb.collection(PRODUCT_VERSIONS_COLLECTION).doc(`${productId}_v${version}`).get();
+        return docSnap.exists ? (docSnap.data() as ProductVersion) : null;
+    }
+
+    /**
+     * Get all versions of a product, newest first
+     */
+    async getByProduct(productId: string): Promise<ProductVersion[]> {
+        const snapshot = await adminDb.collection(PRODUCT_VERSIONS_COLLECTION)
+            .where('productId', '==', productId)
+            .get();
+        return snapshot.docs
+            .map(doc => doc.data() as ProductVersion)
+            .sort((a, b) => b.version - a.version);
+    }
+
+    /**
+     * Get the newest version of a product
+     */
+    async getLatest(productId: string): Promise<ProductVersion | null> {
+        // Uses the (productId, version desc) index in firestore.indexes.json
+        const snapshot = await adminDb.collection(PRODUCT_VERSIONS_COLLECTION)
+            .where('productId', '==', productId)
+            .orderBy('version', 'desc')
+            .limit(1)
+            .get();
+        return snapshot.empty ? null : (snapshot.docs[0].data() as ProductVersion);
+    }
+}
+
+export const firestoreProductVersionRepository = new FirestoreProductVersionRepository();
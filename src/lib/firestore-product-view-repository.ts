@@ -0,0 +1,38 @@
+import { adminDb } from './firebase-admin';
+import type { ProductView } from '@/types/product-view';
+
+const PRODUCT_VIEWS_COLLECTION = 'product_views';
+
+export class FirestoreProductViewRepository {
+    /**
+     * Create or overwrite a saved view
+     */
+    async save(view: ProductView): Promise<void> {
+        await adminDb.collection(PRODUCT_VIEWS_COLLECTION).doc(view.id).set(view);
+    }
+
+    /**
+     * Get a saved view by ID
+     */
+    async getById(id: string): Promise<ProductView | null> {
+        const docSnap = await adminDb.collection(PRODUCT_VIEWS_COLLECTION).doc(id).get();
+        return docSnap.exists ? (docSnap.data() as ProductView) : null;
+    }
+
+    /**
+     * Get all saved views
+     */
+    async getAll(): Promise<ProductView[]> {
+        const snapshot = await adminDb.collection(PRODUCT_VIEWS_COLLECTION).get();
+        return snapshot.docs.map(doc => doc.data() as ProductView);
+    }
+
+    /**
+     * Delete a saved view
+     */
+    async delete(id: string): Promise<void> {
+        await adminDb.collection(PRODUCT_VIEWS_COLLECTION).doc(id).delete();
+    }
+}
+
+export const firestoreProductViewRepository = new FirestoreProductViewRepository();
@@ -0,0 +1,31 @@
+import { adminDb } from './firebase-admin';
+import type { ScheduledActionRecord } from '@/types/schedule';
+
+const SCHEDULED_ACTIONS_COLLECTION = 'scheduled_action_records';
+
+export class FirestoreScheduledActionRepository {
+    /**
+     * Create or overwrite the recorded outcome of a scheduled action
+     */
+    async save(record: ScheduledActionRecord): Promise<void> {
+        await adminDb.collection(SCHEDULED_ACTIONS_COLLECTION).doc(record.id).set(record);
+    }
+
+    /**
+     * Get the recorded outcome of a scheduled action
+     */
+    async getById(id: string): Promise<ScheduledActionRecord | null> {
+        const docSnap = await adminDb.collection(SCHEDULED_ACTIONS_COLLECTION).doc(id).get();
+        return docSnap.exists ? (docSnap.data() as ScheduledActionRecord) : null;
+    }
+
+    /**
+     * Get all recorded outcomes
+     */
+    async getAll(): Promise<ScheduledActionRecord[]> {
+        const snapshot = await adminDb.collection(SCHEDULED_ACTIONS_COLLECTION).get();
+        return snapshot.docs.map(doc => doc.data() as ScheduledActionRecord);
+    }
+}
+
+export const firestoreScheduledActionRepository = new FirestoreScheduledActionRepository();
@@ -0,0 +1,23 @@
+import { adminDb } from './firebase-admin';
+import type { ShopifyFieldMappingSettings } from '@/types/shopify-field-mapping';
+
+const SHOPIFY_FIELD_MAPPINGS_COLLECTION = 'shopify_field_mappings';
+
+export class FirestoreShopifyFieldMappingRepository {
+    /**
+     * Create or overwrite a tenant's Shopify field mapping
+     */
+    async save(tenantId: string, settings: ShopifyFieldMappingSettings): Promise<void> {
+        await adminDb.collection(SHOPIFY_FIELD_MAPPINGS_COLLECTION).doc(tenantId).set(settings);
+    }
+
+    /**
+     * Get a tenant's Shopify field mapping
+     */
+    async getByTenant(tenantId: string): Promise<ShopifyFieldMappingSettings | null> {
+        const docSnap = await adminDb.collection(SHOPIFY_FIELD_MAPPINGS_COLLECTION).doc(tenantId).get();
+        return docSnap.exists ? (docSnap.data() as ShopifyFieldMappingSettings) : null;
+    }
+}
+
+export const firestoreShopifyFieldMappingRepository = new FirestoreShopifyFieldMappingRepository();
@@ -0,0 +1,50 @@
+import { adminDb } from './firebase-admin';
+import type { ShopifyProductMapping, ShopifySyncRun } from '@/types/shopify-sync';
+
+const SHOPIFY_MAPPINGS_COLLECTION = 'shopify_product_mappings';
+const SHOPIFY_SYNC_RUNS_COLLECTION = 'shopify_sync_runs';
+
+export class FirestoreShopifySyncRepository {
+    /**
+     * Get a tenant's mappings to one shop
+     */
+    async getMappings(tenantId: string, shop: string): Promise<ShopifyProductMapping[]> {
+        const snapshot = await adminDb.collection(SHOPIFY_MAPPINGS_COLLECTION)
+            .where('tenantId', '==', tenantId)
+            .where('shop', '==', shop)
+            .get();
+        return snapshot.docs.map(doc => doc.data() as ShopifyProductMapping);
+    }
+
+    /**
+     * Create or overwrite a mapping
+     */
+    async saveMapping(mapping: ShopifyProductMapping): Promise<void> {
+        await adminDb.collection(SHOPIFY_MAPPINGS_COLLECTION).doc(mapping.id).set(mapping);
+    }
+
+    async deleteMapping(id: string): Promise<void> {
+        await adminDb.collection(SHOPIFY_MAPPINGS_COLLECTION).doc(id).delete();
+    }
+
+    /**
+     * Create or overwrite a sync run
+     */
+    async saveRun(run: ShopifySyncRun): Promise<void> {
+        await adminDb.collection(SHOPIFY_SYNC_RUNS_COLLECTION).doc(run.id).set(run);
+    }
+
+    /**
+     * Get a tenant's most recent runs, newest first
+     */
+    async getRecentRuns(tenantId: string, limit: number): Promise<ShopifySyncRun[]> {
+        const snapshot = await adminDb.collection(SHOPIFY_SYNC_RUNS_COLLECTION)
+            .where('tenantId', '==', tenantId)
+            .orderBy('startedAt', 'desc')
+            .limit(limit)
+            .get();
+        return snapshot.docs.map(doc => doc.data() as ShopifySyncRun);
+    }
+}
+
+export const firestoreShopifySyncRepository = new FirestoreShopifySyncRepository();
@@ -0,0 +1,82 @@
+import { adminDb } from './firebase-admin';
+import type { WebhookDelivery, WebhookEndpoint } from '@/types/webhook';
+
+const WEBHOOK_ENDPOINTS_COLLECTION = 'webhook_endpoints';
+const WEBHOOK_DELIVERIES_COLLECTION = 'webhook_deliveries';
+
+export class FirestoreWebhookRepository {
+    /**
+     * Create or overwrite an endpoint
+     */
+    async saveEndpoint(endpoint: WebhookEndpoint): Promise<void> {
+        await adminDb.collection(WEBHOOK_ENDPOINTS_COLLECTION).doc(endpoint.id).set(endpoint);
+    }
+
+    /**
+     * Get an endpoint by ID
+     */
+    async getEndpoint(id: string): Promise<WebhookEndpoint | null> {
+        const docSnap = await adminDb.collection(WEBHOOK_ENDPOINTS_COLLECTION).doc(id).get();
+        return docSnap.exists ? (docSnap.data() as WebhookEndpoint) : null;
+    }
+
+    /**
+     * Get a tenant's endpoints
+     */
+    async getEndpointsByTenant(tenantId: string): Promise<WebhookEndpoint[]> {
+        const snapshot = await adminDb.collection(WEBHOOK_ENDPOINTS_COLLECTION)
+            .where('tenantId', '==', tenantId)
+            .get();
+        return snapshot.docs.map(doc => doc.data() as WebhookEndpoint);
+    }
+
+    /**
+     * Delete an endpoint; its deliveries stay in the log
+     */
+    async deleteEndpoint(id: string): Promise<void> {
+        await adminDb.collection(WEBHOOK_ENDPOINTS_COLLECTION).doc(id).delete();
+    }
+
+    /**
+     * Create or overwrite a delivery
+     */
+    async saveDelivery(delivery: WebhookDelivery): Promise<void> {
+        await adminDb.collection(WEBHOOK_DELIVERIES_COLLECTION).doc(delivery.id).set(delivery);
+    }
+
+    /**
+     * Get a delivery by ID
+     */
+    async getDelivery(id: string): Promise<WebhookDelivery | null> {
+        const docSnap = await adminDb.collection(WEBHOOK_DELIVERIES_COLLECTION).doc(id).get();
+        return docSnap.exists ? (docSnap.data() as WebhookDelivery) : null;
+    }
+
+    /**
+     * Get a tenant's most recent deliveries, newest first
+     */
+    async getRecentDeliveries(tenantId: string, limit: number): Promise<WebhookDelivery[]> {
+        const snapshot = await adminDb.collection(WEBHOOK_DELIVERIES_COLLECTION)
+            .where('tenantId', '==', tenantId)
+            .orderBy('createdAt', 'desc')
+            .limit(limit)
+            .get();
+        return snapshot.docs.map(doc => doc.data() as WebhookDelivery);
+    }
+
+    /**
+     * Get a tenant's pending deliveries whose next attempt is due, oldest first
+     */
+    async getDueDeliveries(tenantId: string, now: string, limit: number): Promise<WebhookDelivery[]> {
+        const snapshot = await adminDb.collection(WEBHOOK_DELIVERIES_COLLECTION)
+            .where('tenantId', '==', tenantId)
+            .where('status', '==', 'pending')
+            .where('nextAttemptAt', '<=', now)
+            .orderBy('nextAttemptAt', 'asc')
+            .limit(limit)
+            .get();
+        return snapshot.docs.map(doc => doc.data() as WebhookDelivery);
+    }
+}
+
+export const firestoreWebhookRepository = new FirestoreWebhookRepository();
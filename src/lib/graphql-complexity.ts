@@ -0,0 +1,129 @@
+/**
+ * GraphQL Query Cost
+ *
+ * Depth and complexity of a GraphQL operation, worked out before it runs so
+ * one request cannot ask for the whole catalog with every product's related
+ * products, variants and media.
+ */
+
+import {
+  getNamedType,
+  getNullableType,
+  isListType,
+  isObjectType,
+  Kind,
+  valueFromAST,
+  type DocumentNode,
+  type FieldNode,
+  type FragmentDefinitionNode,
+  type GraphQLField,
+  type GraphQLNamedType,
+  type GraphQLSchema,
+  type OperationDefinitionNode,
+  type SelectionSetNode,
+} from 'graphql';
+
+export const MAX_QUERY_DEPTH = 8;
+export const MAX_QUERY_COMPLEXITY = 2500;
+
+// Items assumed for list fields without a `first` argument or `listSize` extension
+export const DEFAULT_LIST_SIZE = 10;
+
+export interface QueryCost {
+  depth: number;
+  complexity: number;
+}
+
+interface CostContext {
+  schema: GraphQLSchema;
+  fragments: Map<string, FragmentDefinitionNode>;
+  variables: Record<string, unknown>;
+}
+
+const FREE: QueryCost = { depth: 0, complexity: 0 };
+
+/**
+ * Measure the operation a request runs. Every field costs 1; a field with a
+ * `first` argument multiplies the cost of its selection by that argument,
+ * other list fields by their `listSize` extension or DEFAULT_LIST_SIZE.
+ * Introspection fields are free.
+ *
+ * Run after validation: unknown fields and fragment cycles are assumed to
+ * have been rejected already.
+ */
+export function getQueryCost(
+  schema: GraphQLSchema,
+  document: DocumentNode,
+  operationName?: string | null,
+  variables: Record<string, unknown> = {}
+): QueryCost {
+  const operations = document.definitions.filter(
+    (definition): definition is OperationDefinitionNode => definition.kind === Kind.OPERATION_DEFINITION
+  );
+  const operation = operationName
+    ? operations.find(o => o.name?.value === operationName)
+    : operations[0];
+  const rootType = operation && schema.getRootType(operation.operation);
+  if (!operation || !rootType) return FREE;
+
+  const fragments = new Map(
+    document.definitions
+      .filter((definition): definition is FragmentDefinitionNode => definition.kind === Kind.FRAGMENT_DEFINITION)
+      .map(fragment => [fragment.name.value, fragment])
+  );
+  return measureSelectionSet(rootType, operation.selectionSet, { schema, fragments, variables });
+}
+
+function measureSelectionSet(type: GraphQLNamedType | undefined | null, selectionSet: SelectionSetNode, context: CostContext): QueryCost {
+  let depth = 0;
+  let complexity = 0;
+
+  for (const selection of selectionSet.selections) {
+    let cost = FREE;
+    if (selection.kind === Kind.FIELD) {
+      cost = measureField(type, selection, context);
+    } else if (selection.kind === Kind.INLINE_FRAGMENT) {
+      const fragmentType = selection.typeCondition ? context.schema.getType(selection.typeCondition.name.value) : type;
+      cost = measureSelectionSet(fragmentType, selection.selectionSet, context);
+    } else {
+      const fragment = context.fragments.get(selection.name.value);
+      if (fragment) {
+        cost = measureSelectionSet(context.schema.getType(fragment.typeCondition.name.value), fragment.selectionSet, context);
+      }
+    }
+    depth = Math.max(depth, cost.depth);
+    complexity += cost.complexity;
+  }
+
+  return { depth, complexity };
+}
+
+function measureField(parentType: GraphQLNamedType | undefined | null, node: FieldNode, context: CostContext): QueryCost {
+  if (node.name.value.startsWith('__')) return FREE;
+
+  const field = isObjectType(parentType) ? parentType.getFields()[node.name.value] : undefined;
+  if (!field) return { depth: 1, complexity: 1 };
+
+  const selection = node.selectionSet
+    ? measureSelectionSet(getNamedType(field.type), node.selectionSet, context)
+    : FREE;
+  return {
+    depth: selection.depth + 1,
+    complexity: 1 + getMultiplier(field, node, context.variables) * selection.complexity,
+  };
+}
+
+function getMultiplier(field: GraphQLField<unknown, unknown>, node: FieldNode, variables: Record<string, unknown>): number {
+  const firstArg = field.args.find(arg => arg.name === 'first');
+  if (firstArg) {
+    const argNode = node.arguments?.find(arg => arg.name.value === 'first');
+    const first = argNode ? valueFromAST(argNode.value, firstArg.type, variables) : firstArg.defaultValue;
+    if (typeof first === 'number') return Math.max(first, 0);
+  }
+
+  if (isListType(getNullableType(field.type))) {
+    const listSize = (field.extensions as { listSize?: unknown }).listSize;
+    return typeof listSize === 'number' ? listSize : DEFAULT_LIST_SIZE;
+  }
+  return 1;
+}
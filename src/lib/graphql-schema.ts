@@ -0,0 +1,451 @@
+/**
+ * GraphQL Schema
+ *
+ * The read-only schema served at POST /api/v1/graphql for headless
+ * storefronts. Root fields take a locale and a channel; the products,
+ * variants, media and categories below them are read in that locale and as
+ * that channel sees them. What a caller may see is decided by the context
+ * (see graphql-service.ts), not here.
+ */
+
+import {
+  GraphQLBoolean,
+  GraphQLEnumType,
+  GraphQLError,
+  GraphQLFloat,
+  GraphQLID,
+  GraphQLInt,
+  GraphQLList,
+  GraphQLNonNull,
+  GraphQLObjectType,
+  GraphQLSchema,
+  GraphQLString,
+  type GraphQLFieldConfig,
+  type GraphQLNullableType,
+  type GraphQLOutputType,
+} from 'graphql';
+import type { Category } from '@/types/category';
+import type { Channel } from '@/types/channel';
+import type { LocaleSettings } from '@/types/locale';
+import type { MediaEntry, MultilingualString, PriceEntry, Product, ProductPage, ProductVariant } from '@/types/product';
+import { WorkflowState } from '@/types/workflow';
+import { getMediaEntries } from './api-v1-service';
+import { resolveProductForChannel } from './channel-overrides';
+import { getLocaleCodes, resolveLocalizedText } from './locales';
+import { InvalidCursorError } from './product-cursor';
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+/**
+ * Data access for one request. Loaders only return what the caller may see.
+ */
+export interface GraphQLContext {
+  localeSettings: LocaleSettings;
+  loadProduct(id: string): Promise<Product | null>;
+  loadProductBySku(sku: string): Promise<Product | null>;
+  loadProducts(filter: { workflowState?: WorkflowState; search?: string; cursor?: string; limit: number }): Promise<ProductPage>;
+  loadCategories(): Promise<Map<string, Category>>;
+  loadChannel(idOrCode: string): Promise<Channel | null>;
+}
+
+interface ReadScope {
+  locale: string;
+  channel: Channel | null;
+}
+
+// A product as resolved for a root field's locale and channel
+interface ProductNode extends ReadScope {
+  product: Product; // With the channel's overrides applied
+}
+
+interface VariantNode {
+  variant: ProductVariant;
+  parent: ProductNode;
+}
+
+interface MediaNode {
+  entry: MediaEntry;
+  locale: string;
+}
+
+interface CategoryNode {
+  category: Category;
+  locale: string;
+}
+
+interface ScopeArgs {
+  locale?: string | null;
+  channel?: string | null;
+}
+
+function userError(message: string, code = 'BAD_USER_INPUT'): GraphQLError {
+  return new GraphQLError(message, { extensions: { code } });
+}
+
+/**
+ * Resolve a root field's locale and channel arguments. The locale defaults
+ * to the channel's locale, then the tenant's default locale.
+ */
+async function resolveScope(args: ScopeArgs, context: GraphQLContext): Promise<ReadScope> {
+  let channel: Channel | null = null;
+  if (args.channel) {
+    channel = await context.loadChannel(args.channel);
+    if (!channel || !channel.active) throw userError(`Unknown or inactive channel "${args.channel}"`, 'NOT_FOUND');
+  }
+
+  const enabled = getLocaleCodes(context.localeSettings);
+  if (args.locale && !enabled.includes(args.locale)) throw userError(`Unknown locale "${args.locale}"`);
+  const locale = args.locale
+    || (channel?.locale && enabled.includes(channel.locale) ? channel.locale : context.localeSettings.defaultLocale);
+
+  return { locale, channel };
+}
+
+function toProductNode(product: Product, scope: ReadScope): ProductNode {
+  return { ...scope, product: resolveProductForChannel(product, scope.channel) };
+}
+
+function toCategoryNodes(ids: string[], categories: Map<string, Category>, locale: string): CategoryNode[] {
+  return ids.flatMap(id => {
+    const category = categories.get(id);
+    return category ? [{ category, locale }] : [];
+  });
+}
+
+// Prices the scheduler has switched off are outside their validity window
+function currentPrices(prices: PriceEntry[] | undefined): PriceEntry[] {
+  return (prices || []).filter(price => price.active !== false);
+}
+
+function nonNullList<T extends GraphQLNullableType & GraphQLOutputType>(type: T) {
+  return new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(type)));
+}
+
+function localized<TSource>(
+  read: (source: TSource) => MultilingualString | undefined,
+  locale: (source: TSource) => string,
+  options: { nullable?: boolean; description?: string } = {}
+): GraphQLFieldConfig<TSource, GraphQLContext> {
+  return {
+    type: options.nullable ? GraphQLString : new GraphQLNonNull(GraphQLString),
+    description: options.description,
+    resolve: (source, _args, context) => {
+      const text = resolveLocalizedText(read(source), locale(source), context.localeSettings);
+      return options.nullable && !text ? null : text;
+    },
+  };
+}
+
+const localeArg = { type: GraphQLString, description: 'Locale code; defaults to the channel\'s locale, then the default locale' };
+const channelArg = { type: GraphQLString, description: 'Channel ID or code; its overrides are applied' };
+
+const WorkflowStateEnum = new GraphQLEnumType({
+  name: 'WorkflowState',
+  values: Object.fromEntries(Object.values(WorkflowState).map(state => [state.toUpperCase(), { value: state }])),
+});
+
+const ProductStatusEnum = new GraphQLEnumType({
+  name: 'ProductStatus',
+  values: {
+    ACTIVE: { value: 'active' },
+    INACTIVE: { value: 'inactive' },
+    DEVELOPMENT: { value: 'development' },
+    DISCONTINUED: { value: 'discontinued' },
+  },
+});
+
+const ProductTypeEnum = new GraphQLEnumType({
+  name: 'ProductType',
+  values: { SIMPLE: { value: 'simple' }, BUNDLE: { value: 'bundle' } },
+});
+
+const MediaTypeEnum = new GraphQLEnumType({
+  name: 'MediaType',
+  values: {
+    IMAGE: { value: 'image' },
+    VIDEO: { value: 'video' },
+    MODEL_3D: { value: '3d_model' },
+    MANUAL: { value: 'manual' },
+    CERTIFICATE: { value: 'certificate' },
+  },
+});
+
+const PriceType = new GraphQLObjectType<PriceEntry, GraphQLContext>({
+  name: 'Price',
+  fields: {
+    currency: { type: new GraphQLNonNull(GraphQLString) },
+    amount: { type: new GraphQLNonNull(GraphQLFloat) },
+    validFrom: { type: GraphQLString },
+    validTo: { type: GraphQLString },
+  },
+});
+
+const AttributeType = new GraphQLObjectType<{ key: string; value: string }, GraphQLContext>({
+  name: 'Attribute',
+  fields: {
+    key: { type: new GraphQLNonNull(GraphQLString) },
+    value: { type: new GraphQLNonNull(GraphQLString) },
+  },
+});
+
+const ProductOptionType = new GraphQLObjectType<{ name: string; values: string[] }, GraphQLContext>({
+  name: 'ProductOption',
+  fields: {
+    name: { type: new GraphQLNonNull(GraphQLString) },
+    values: { type: nonNullList(GraphQLString) },
+  },
+});
+
+const OptionValueType = new GraphQLObjectType<{ name: string; value: string }, GraphQLContext>({
+  name: 'OptionValue',
+  fields: {
+    name: { type: new GraphQLNonNull(GraphQLString) },
+    value: { type: new GraphQLNonNull(GraphQLString) },
+  },
+});
+
+const MediaEntryType = new GraphQLObjectType<MediaNode, GraphQLContext>({
+  name: 'MediaEntry',
+  fields: {
+    id: { type: new GraphQLNonNull(GraphQLID), resolve: ({ entry }) => entry.id },
+    url: { type: new GraphQLNonNull(GraphQLString), resolve: ({ entry }) => entry.url },
+    type: { type: new GraphQLNonNull(MediaTypeEnum), resolve: ({ entry }) => entry.type },
+    altText: localized<MediaNode>(({ entry }) => entry.altText, ({ locale }) => locale, { nullable: true }),
+    title: { type: GraphQLString, resolve: ({ entry }) => entry.title },
+    language: { type: GraphQLString, resolve: ({ entry }) => entry.language, description: 'Language of a manual' },
+  },
+});
+
+const CategoryType: GraphQLObjectType<CategoryNode, GraphQLContext> = new GraphQLObjectType<CategoryNode, GraphQLContext>({
+  name: 'Category',
+  fields: () => ({
+    id: { type: new GraphQLNonNull(GraphQLID), resolve: ({ category }) => category.id },
+    slug: { type: new GraphQLNonNull(GraphQLString), resolve: ({ category }) => category.slug },
+    name: localized<CategoryNode>(({ category }) => category.name, ({ locale }) => locale),
+    parent: {
+      type: CategoryType,
+      resolve: async ({ category, locale }, _args, context) => {
+        if (!category.parentId) return null;
+        const parent = (await context.loadCategories()).get(category.parentId);
+        return parent ? { category: parent, locale } : null;
+      },
+    },
+  }),
+});
+
+const ProductVariantType = new GraphQLObjectType<VariantNode, GraphQLContext>({
+  name: 'ProductVariant',
+  fields: {
+    id: { type: new GraphQLNonNull(GraphQLID), resolve: ({ variant }) => variant.id },
+    sku: { type: new GraphQLNonNull(GraphQLString), resolve: ({ variant }) => variant.sku },
+    gtin: { type: GraphQLString, resolve: ({ variant }) => variant.gtin || null },
+    optionValues: {
+      type: nonNullList(OptionValueType),
+      resolve: ({ variant }) => Object.entries(variant.optionValues || {}).map(([name, value]) => ({ name, value })),
+    },
+    standardPrice: {
+      type: nonNullList(PriceType),
+      description: 'The variant\'s prices, or the product\'s when the variant has none',
+      resolve: ({ variant, parent }) => currentPrices(
+        variant.standardPrice?.length ? variant.standardPrice : parent.product.pricingAndStock?.standardPrice
+      ),
+    },
+    salePrice: {
+      type: nonNullList(PriceType),
+      description: 'The variant\'s sale prices, or the product\'s when the variant has none',
+      resolve: ({ variant, parent }) => currentPrices(
+        variant.salePrice?.length ? variant.salePrice : parent.product.pricingAndStock?.salePrice
+      ),
+    },
+    images: {
+      type: nonNullList(MediaEntryType),
+      resolve: ({ variant, parent }) => {
+        const media = getMediaEntries(parent.product);
+        return (variant.imageIds || []).flatMap(id => {
+          const entry = media.find(m => m.id === id);
+          return entry ? [{ entry, locale: parent.locale }] : [];
+        });
+      },
+    },
+  },
+});
+
+function relationField(
+  relation: keyof NonNullable<Product['relations']>,
+  description: string
+): GraphQLFieldConfig<ProductNode, GraphQLContext> {
+  return {
+    type: nonNullList(ProductType),
+    description,
+    resolve: async (node, _args, context) => {
+      const ids = node.product.relations?.[relation] || [];
+      const products = await Promise.all(ids.map(id => context.loadProduct(id)));
+      return products.flatMap(product => (product ? [toProductNode(product, node)] : []));
+    },
+  };
+}
+
+const ProductType: GraphQLObjectType<ProductNode, GraphQLContext> = new GraphQLObjectType<ProductNode, GraphQLContext>({
+  name: 'Product',
+  fields: () => ({
+    id: { type: new GraphQLNonNull(GraphQLID), resolve: ({ product }) => product.id },
+    sku: { type: new GraphQLNonNull(GraphQLString), resolve: ({ product }) => product.basicInfo.sku },
+    gtin: { type: GraphQLString, resolve: ({ product }) => product.basicInfo.gtin || null },
+    productType: { type: new GraphQLNonNull(ProductTypeEnum), resolve: ({ product }) => product.productType || 'simple' },
+    name: localized<ProductNode>(({ product }) => product.basicInfo.name, ({ locale }) => locale),
+    descriptionShort: localized<ProductNode>(({ product }) => product.basicInfo.descriptionShort, ({ locale }) => locale),
+    descriptionLong: localized<ProductNode>(({ product }) => product.basicInfo.descriptionLong, ({ locale }) => locale),
+    brand: { type: new GraphQLNonNull(GraphQLString), resolve: ({ product }) => product.basicInfo.brand || '' },
+    status: { type: new GraphQLNonNull(ProductStatusEnum), resolve: ({ product }) => product.basicInfo.status },
+    launchDate: { type: GraphQLString, resolve: ({ product }) => product.basicInfo.launchDate || null },
+    endDate: { type: GraphQLString, resolve: ({ product }) => product.basicInfo.endDate || null },
+    seoTitle: localized<ProductNode>(({ product }) => product.marketingSEO?.seoTitle, ({ locale }) => locale),
+    seoDescription: localized<ProductNode>(({ product }) => product.marketingSEO?.seoDescription, ({ locale }) => locale),
+    keywords: { type: nonNullList(GraphQLString), resolve: ({ product }) => product.marketingSEO?.keywords || [] },
+    countryOfOrigin: { type: GraphQLString, resolve: ({ product }) => product.attributesAndSpecs?.countryOfOrigin || null },
+    maintenanceInstructions: localized<ProductNode>(
+      ({ product }) => product.attributesAndSpecs?.maintenanceInstructions, ({ locale }) => locale, { nullable: true }
+    ),
+    warrantyInfo: localized<ProductNode>(
+      ({ product }) => product.attributesAndSpecs?.warrantyInfo, ({ locale }) => locale, { nullable: true }
+    ),
+    properties: {
+      type: nonNullList(AttributeType),
+      resolve: ({ product }) => product.attributesAndSpecs?.properties || [],
+    },
+    technicalSpecs: {
+      type: nonNullList(AttributeType),
+      resolve: ({ product }) => product.attributesAndSpecs?.technicalSpecs || [],
+    },
+    categories: {
+      type: nonNullList(CategoryType),
+      resolve: async ({ product, locale }, _args, context) =>
+        toCategoryNodes(product.attributesAndSpecs?.categories || [], await context.loadCategories(), locale),
+    },
+    media: {
+      type: nonNullList(MediaEntryType),
+      description: 'All media, images first',
+      args: { type: { type: MediaTypeEnum } },
+      resolve: ({ product, locale }, args: { type?: MediaEntry['type'] | null }) =>
+        getMediaEntries(product)
+          .filter(entry => !args.type || entry.type === args.type)
+          .map(entry => ({ entry, locale })),
+    },
+    standardPrice: {
+      type: nonNullList(PriceType),
+      description: 'Current prices; with a channel, those in its currency come first',
+      resolve: ({ product }) => currentPrices(product.pricingAndStock?.standardPrice),
+    },
+    salePrice: {
+      type: nonNullList(PriceType),
+      resolve: ({ product }) => currentPrices(product.pricingAndStock?.salePrice),
+    },
+    options: { type: nonNullList(ProductOptionType), resolve: ({ product }) => product.options || [] },
+    variants: {
+      type: nonNullList(ProductVariantType),
+      resolve: (node) => (node.product.variants || []).map(variant => ({ variant, parent: node })),
+    },
+    relatedProducts: relationField('relatedProducts', 'Related products, in the same locale and channel'),
+    accessories: relationField('accessories', 'Accessories, in the same locale and channel'),
+    replacementProducts: relationField('replacementProducts', 'Replacements, in the same locale and channel'),
+    workflowState: {
+      type: new GraphQLNonNull(WorkflowStateEnum),
+      resolve: ({ product }) => product.workflowState || WorkflowState.DRAFT,
+    },
+    createdAt: { type: new GraphQLNonNull(GraphQLString), resolve: ({ product }) => product.createdAt },
+    updatedAt: { type: new GraphQLNonNull(GraphQLString), resolve: ({ product }) => product.updatedAt },
+  }),
+});
+
+interface ProductConnectionSource {
+  page: ProductPage;
+  scope: ReadScope;
+}
+
+const PageInfoType = new GraphQLObjectType<ProductPage, GraphQLContext>({
+  name: 'PageInfo',
+  fields: {
+    hasNextPage: { type: new GraphQLNonNull(GraphQLBoolean), resolve: page => page.hasNext },
+    endCursor: { type: GraphQLString, description: 'Pass as `after` for the next page', resolve: page => page.nextCursor || null },
+  },
+});
+
+const ProductConnectionType = new GraphQLObjectType<ProductConnectionSource, GraphQLContext>({
+  name: 'ProductConnection',
+  fields: {
+    nodes: {
+      type: nonNullList(ProductType),
+      extensions: { listSize: 1 }, // Already counted by the `first` argument of `products`
+      resolve: ({ page, scope }) => page.products.map(product => toProductNode(product, scope)),
+    },
+    totalCount: { type: new GraphQLNonNull(GraphQLInt), resolve: ({ page }) => page.total },
+    totalCountEstimated: {
+      type: new GraphQLNonNull(GraphQLBoolean),
+      description: 'The exact count was unavailable; totalCount is a lower bound',
+      resolve: ({ page }) => page.totalEstimated,
+    },
+    pageInfo: { type: new GraphQLNonNull(PageInfoType), resolve: ({ page }) => page },
+  },
+});
+
+const QueryType = new GraphQLObjectType<unknown, GraphQLContext>({
+  name: 'Query',
+  fields: {
+    product: {
+      type: ProductType,
+      description: 'A product by ID or SKU',
+      args: { id: { type: GraphQLID }, sku: { type: GraphQLString }, locale: localeArg, channel: channelArg },
+      resolve: async (_source, args: ScopeArgs & { id?: string | null; sku?: string | null }, context) => {
+        if (!args.id === !args.sku) throw userError('Pass either id or sku');
+        const scope = await resolveScope(args, context);
+        const product = args.id ? await context.loadProduct(args.id) : await context.loadProductBySku(args.sku!);
+        return product ? toProductNode(product, scope) : null;
+      },
+    },
+    products: {
+      type: new GraphQLNonNull(ProductConnectionType),
+      description: 'Products, last updated first, or ranked by relevance with `search`',
+      args: {
+        first: { type: GraphQLInt, defaultValue: DEFAULT_PAGE_SIZE },
+        after: { type: GraphQLString, description: 'The endCursor of the previous page' },
+        search: { type: GraphQLString },
+        workflowState: { type: WorkflowStateEnum, description: 'Ignored for storefront keys, which only see published products' },
+        locale: localeArg,
+        channel: channelArg,
+      },
+      resolve: async (_source, args: ScopeArgs & {
+        first: number;
+        after?: string | null;
+        search?: string | null;
+        workflowState?: WorkflowState | null;
+      }, context) => {
+        if (args.first < 1 || args.first > MAX_PAGE_SIZE) throw userError(`first must be between 1 and ${MAX_PAGE_SIZE}`);
+        const scope = await resolveScope(args, context);
+        try {
+          const page = await context.loadProducts({
+            workflowState: args.workflowState || undefined,
+            search: args.search || undefined,
+            cursor: args.after || undefined,
+            limit: args.first,
+          });
+          return { page, scope };
+        } catch (error) {
+          if (error instanceof InvalidCursorError) throw userError(error.message, 'INVALID_CURSOR');
+          throw error;
+        }
+      },
+    },
+    categories: {
+      type: nonNullList(CategoryType),
+      args: { locale: localeArg },
+      resolve: async (_source, args: ScopeArgs, context) => {
+        const { locale } = await resolveScope(args, context);
+        const categories = await context.loadCategories();
+        return toCategoryNodes(Array.from(categories.keys()), categories, locale);
+      },
+    },
+  },
+});
+
+export const graphqlSchema = new GraphQLSchema({ query: QueryType });
@@ -0,0 +1,164 @@
+/**
+ * GraphQL Service
+ *
+ * Runs queries against the storefront schema (graphql-schema.ts). Queries
+ * are parsed and validated, rejected when they are deeper or more complex
+ * than the limits in graphql-complexity.ts, then executed with loaders
+ * scoped to the calling API key: keys without the `read` scope only ever see
+ * published products.
+ */
+
+import {
+  execute,
+  getOperationAST,
+  GraphQLError,
+  OperationTypeNode,
+  parse,
+  validate,
+  type DocumentNode,
+  type ExecutionResult,
+  type GraphQLSchema,
+} from 'graphql';
+import type { Category } from '@/types/category';
+import type { Channel } from '@/types/channel';
+import type { Product } from '@/types/product';
+import { WorkflowState } from '@/types/workflow';
+import type { V1GraphQLRequest } from './api-v1-schemas';
+import { hasApiKeyScope, type ApiKeyPrincipal } from './api-keys';
+import { categoryService, CategoryService } from './category-service';
+import { buildCategoryTree, flattenCategoryTree } from './category-tree';
+import { channelService, ChannelService } from './channel-service';
+import { getQueryCost, MAX_QUERY_COMPLEXITY, MAX_QUERY_DEPTH } from './graphql-complexity';
+import { graphqlSchema, type GraphQLContext } from './graphql-schema';
+import { localeService, LocaleService } from './locale-service';
+import { productService, ProductService } from './product-service';
+
+// Parsing stops at this many tokens, before a huge query is fully read
+const MAX_QUERY_TOKENS = 5000;
+
+export interface GraphQLServiceResult {
+  status: number; // 400 when the query was rejected before it ran
+  body: ExecutionResult;
+}
+
+function rejected(errors: readonly GraphQLError[]): GraphQLServiceResult {
+  return { status: 400, body: { errors } };
+}
+
+/**
+ * Replace unexpected resolver errors with a generic one, so storage errors
+ * are logged rather than shown to storefronts
+ */
+function maskUnexpectedErrors(result: ExecutionResult): ExecutionResult {
+  if (!result.errors) return result;
+  return {
+    ...result,
+    errors: result.errors.map(error => {
+      if (!error.originalError || error.originalError instanceof GraphQLError) return error;
+      console.error('GraphQL resolver error:', error.originalError);
+      return new GraphQLError('Internal server error', {
+        nodes: error.nodes,
+        path: error.path,
+        extensions: { code: 'INTERNAL_SERVER_ERROR' },
+      });
+    }),
+  };
+}
+
+export class GraphQLService {
+  constructor(
+    private products: ProductService = productService,
+    private categories: CategoryService = categoryService,
+    private channels: ChannelService = channelService,
+    private locales: LocaleService = localeService,
+    private schema: GraphQLSchema = graphqlSchema
+  ) { }
+
+  async execute(request: V1GraphQLRequest, actor: ApiKeyPrincipal): Promise<GraphQLServiceResult> {
+    let document: DocumentNode;
+    try {
+      document = parse(request.query, { maxTokens: MAX_QUERY_TOKENS });
+    } catch (error) {
+      if (error instanceof GraphQLError) return rejected([error]);
+      throw error;
+    }
+
+    const validationErrors = validate(this.schema, document);
+    if (validationErrors.length > 0) return rejected(validationErrors);
+
+    const operation = getOperationAST(document, request.operationName);
+    if (operation?.operation !== OperationTypeNode.QUERY) {
+      return rejected([new GraphQLError(
+        operation ? 'Only queries are supported' : 'Pass the operationName of one operation in the document',
+        { extensions: { code: 'BAD_REQUEST' } }
+      )]);
+    }
+
+    const variables = request.variables || {};
+    const cost = getQueryCost(this.schema, document, request.operationName, variables);
+    if (cost.depth > MAX_QUERY_DEPTH) {
+      return rejected([new GraphQLError(`Query depth ${cost.depth} exceeds the limit of ${MAX_QUERY_DEPTH}`, {
+        extensions: { code: 'QUERY_TOO_DEEP', depth: cost.depth, maxDepth: MAX_QUERY_DEPTH },
+      })]);
+    }
+    if (cost.complexity > MAX_QUERY_COMPLEXITY) {
+      return rejected([new GraphQLError(`Query complexity ${cost.complexity} exceeds the limit of ${MAX_QUERY_COMPLEXITY}`, {
+        extensions: { code: 'QUERY_TOO_COMPLEX', complexity: cost.complexity, maxComplexity: MAX_QUERY_COMPLEXITY },
+      })]);
+    }
+
+    const result = await execute({
+      schema: this.schema,
+      document,
+      variableValues: variables,
+      operationName: request.operationName,
+      contextValue: await this.createContext(actor),
+    });
+
+    // Without data the request itself was invalid, e.g. a variable of the wrong type
+    return { status: result.data === undefined ? 400 : 200, body: maskUnexpectedErrors(result) };
+  }
+
+  /**
+   * Loaders for one request. Products are cached by ID so products related
+   * to several others are read once.
+   */
+  private async createContext(actor: ApiKeyPrincipal): Promise<GraphQLContext> {
+    const publishedOnly = !hasApiKeyScope(actor, 'read');
+    const visible = (product: Product | null) =>
+      product && (!publishedOnly || product.workflowState === WorkflowState.PUBLISHED) ? product : null;
+
+    const productsById = new Map<string, Promise<Product | null>>();
+    let categories: Promise<Map<string, Category>> | undefined;
+    let channels: Promise<Channel[]> | undefined;
+
+    return {
+      localeSettings: await this.locales.getSettings(actor.tenantId),
+      loadProduct: (id) => {
+        let product = productsById.get(id);
+        if (!product) {
+          product = this.products.getProductById(id).then(visible);
+          productsById.set(id, product);
+        }
+        return product;
+      },
+      loadProductBySku: async (sku) => visible(await this.products.getProductBySku(sku)),
+      loadProducts: (filter) => this.products.getProducts({
+        ...filter,
+        workflowState: publishedOnly ? WorkflowState.PUBLISHED : filter.workflowState,
+      }),
+      loadCategories: () => {
+        // In tree order, parents before their children
+        categories ??= this.categories.listCategories()
+          .then(list => new Map<string, Category>(flattenCategoryTree(buildCategoryTree(list)).map(c => [c.id, c])));
+        return categories;
+      },
+      loadChannel: async (idOrCode) => {
+        channels ??= this.channels.listChannels();
+        return (await channels).find(c => c.id === idOrCode || c.code === idOrCode) || null;
+      },
+    };
+  }
+}
+
+export const graphqlService = new GraphQLService();
@@ -0,0 +1,345 @@
+/**
+ * Integration Credential Service
+ *
+ * The tenant's vault of integration credentials. Admins add, rename, rotate
+ * and delete credentials; everyone else sees them with the secrets reduced
+ * to hints. Routes that talk to Shopify or Business Central resolve the
+ * decrypted credentials by ID here instead of taking them from the request.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type {
+  IntegrationConnectionTest,
+  IntegrationCredential,
+  IntegrationCredentialInput,
+  IntegrationCredentialsByType,
+  IntegrationCredentialSummary,
+  IntegrationCredentialUpdate,
+  IntegrationType,
+} from '@/types/integration-credential';
+import { INTEGRATION_TYPE_LABELS } from '@/types/integration-credential';
+import { getAccessToken } from './azure-ad-service';
+import { fetchCompany } from './business-central-client';
+import {
+  firestoreIntegrationCredentialRepository,
+  FirestoreIntegrationCredentialRepository,
+} from './firestore-integration-credential-repository';
+import {
+  decryptCredentialSecrets,
+  deriveCredentialsKey,
+  encryptCredentialSecrets,
+  getCredentialSecretHint,
+  getEndpointFieldKeys,
+  getSecretFieldKeys,
+  getSettingFieldKeys,
+  splitCredentials,
+} from './integration-credentials';
+import { ShopifyClient } from './shopify-client';
+
+// Credentials one tenant can have
+const MAX_CREDENTIALS_PER_TENANT = 20;
+
+/**
+ * Integration Credential Service Result
+ */
+export interface IntegrationCredentialServiceResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  code?: string;
+  details?: string[];
+}
+
+/**
+ * The admin adding a credential
+ */
+export interface IntegrationCredentialCreator {
+  userId: string;
+  userName?: string;
+}
+
+/**
+ * Checks that credentials work; resolves to a description of what was
+ * reached and throws when the connection fails
+ */
+export type IntegrationConnectionTester<T extends IntegrationType> =
+  (credentials: IntegrationCredentialsByType[T]) => Promise<string>;
+
+export type IntegrationConnectionTesters = { [T in IntegrationType]: IntegrationConnectionTester<T> };
+
+const DEFAULT_CONNECTION_TESTERS: IntegrationConnectionTesters = {
+  shopify: async ({ storeUrl, accessToken }) => {
+    const shop = await new ShopifyClient(storeUrl, accessToken).getShop();
+    return `Connected to ${shop.name} (${shop.myshopify_domain})`;
+  },
+  business_central: async ({ tenantId, environment, clientId, clientSecret, companyId }) => {
+    const accessToken = await getAccessToken(tenantId, clientId, clientSecret);
+    const company = await fetchCompany(accessToken, environment, companyId);
+    return `Connected to ${company.displayName || company.name} in ${environment}`;
+  },
+};
+
+const NOT_FOUND = { success: false, error: 'Integration credential not found', code: 'NOT_FOUND' } as const;
+
+export class IntegrationCredentialService {
+  private key: Buffer | null;
+
+  constructor(
+    private repo: FirestoreIntegrationCredentialRepository = firestoreIntegrationCredentialRepository,
+    encryptionSecret: string | undefined = process.env.INTEGRATION_CREDENTIALS_KEY,
+    private testers: IntegrationConnectionTesters = DEFAULT_CONNECTION_TESTERS
+  ) {
+    this.key = encryptionSecret ? deriveCredentialsKey(encryptionSecret) : null;
+  }
+
+  /**
+   * The tenant's credentials without secrets, by name
+   */
+  async listCredentials(tenantId: string, type?: IntegrationType): Promise<IntegrationCredentialSummary[]> {
+    const credentials = await this.repo.getByTenant(tenantId);
+    return credentials
+      .filter(credential => !type || credential.type === type)
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(credential => this.toSummary(credential));
+  }
+
+  async createCredential(
+    tenantId: string,
+    input: IntegrationCredentialInput,
+    creator: IntegrationCredentialCreator
+  ): Promise<IntegrationCredentialServiceResult<IntegrationCredentialSummary>> {
+    if (!this.key) return this.notConfigured();
+
+    const existing = await this.repo.getByTenant(tenantId);
+    if (existing.length >= MAX_CREDENTIALS_PER_TENANT) {
+      return { success: false, error: `A tenant can have up to ${MAX_CREDENTIALS_PER_TENANT} integration credentials`, code: 'LIMIT_REACHED' };
+    }
+    if (existing.some(credential => credential.name.toLowerCase() === input.name.toLowerCase())) {
+      return { success: false, error: `An integration named "${input.name}" already exists`, code: 'NAME_EXISTS' };
+    }
+
+    const now = new Date().toISOString();
+    const id = uuidv4();
+    const { settings, secrets } = splitCredentials(input.type, input.credentials);
+    const credential: IntegrationCredential = {
+      id,
+      tenantId,
+      type: input.type,
+      name: input.name,
+      settings,
+      encryptedSecrets: encryptCredentialSecrets(secrets, this.key, getEncryptionContext(tenantId, id)),
+      secretHints: getSecretHints(secrets),
+      createdBy: creator.userId,
+      createdByName: creator.userName,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.repo.save(credential);
+    return { success: true, data: this.toSummary(credential) };
+  }
+
+  /**
+   * Rename a credential or change its plain settings, e.g. a BC company.
+   * Changing a setting the secrets are sent to, such as the Shopify store,
+   * replaces the secrets too: otherwise the stored token could be pointed at
+   * any host and sent there by a connection test.
+   */
+  async updateCredential(
+    tenantId: string,
+    id: string,
+    input: IntegrationCredentialUpdate
+  ): Promise<IntegrationCredentialServiceResult<IntegrationCredentialSummary>> {
+    const credential = await this.getTenantCredential(tenantId, id);
+    if (!credential) return NOT_FOUND;
+
+    const allowed = getSettingFieldKeys(credential.type);
+    const unknown = Object.keys(input.settings || {}).filter(key => !allowed.includes(key));
+    if (unknown.length > 0) {
+      return {
+        success: false,
+        error: 'Only plain settings can be changed; rotate the credential to replace secrets',
+        code: 'INVALID_FIELDS',
+        details: unknown,
+      };
+    }
+    const endpointChanged = getEndpointFieldKeys(credential.type)
+      .some(key => input.settings?.[key] !== undefined && input.settings[key] !== credential.settings[key]);
+    if (endpointChanged && !input.secrets) {
+      return {
+        success: false,
+        error: `Changing where the credential connects needs new values for ${getSecretFieldKeys(credential.type).join(', ')}`,
+        code: 'INVALID_FIELDS',
+        details: getSecretFieldKeys(credential.type),
+      };
+    }
+    if (input.secrets) {
+      if (!this.key) return this.notConfigured();
+      const invalid = checkSecretFields(credential.type, input.secrets);
+      if (invalid) return invalid;
+    }
+    if (input.name && input.name.toLowerCase() !== credential.name.toLowerCase()) {
+      const existing = await this.repo.getByTenant(tenantId);
+      if (existing.some(other => other.name.toLowerCase() === input.name!.toLowerCase())) {
+        return { success: false, error: `An integration named "${input.name}" already exists`, code: 'NAME_EXISTS' };
+      }
+    }
+
+    const now = new Date().toISOString();
+    const updated: IntegrationCredential = {
+      ...credential,
+      name: input.name ?? credential.name,
+      settings: { ...credential.settings, ...input.settings },
+      updatedAt: now,
+      ...(input.secrets && {
+        encryptedSecrets: encryptCredentialSecrets(input.secrets, this.key!, getEncryptionContext(tenantId, id)),
+        secretHints: getSecretHints(input.secrets),
+        rotatedAt: now,
+        lastTest: undefined,
+      }),
+    };
+    await this.repo.save(updated);
+    return { success: true, data: this.toSummary(updated) };
+  }
+
+  /**
+   * Replace every secret field of a credential, e.g. after the token was
+   * regenerated in Shopify
+   */
+  async rotateCredential(
+    tenantId: string,
+    id: string,
+    secrets: Record<string, string>
+  ): Promise<IntegrationCredentialServiceResult<IntegrationCredentialSummary>> {
+    if (!this.key) return this.notConfigured();
+    const credential = await this.getTenantCredential(tenantId, id);
+    if (!credential) return NOT_FOUND;
+
+    const invalid = checkSecretFields(credential.type, secrets);
+    if (invalid) return invalid;
+
+    const now = new Date().toISOString();
+    const updated: IntegrationCredential = {
+      ...credential,
+      encryptedSecrets: encryptCredentialSecrets(secrets, this.key, getEncryptionContext(tenantId, id)),
+      secretHints: getSecretHints(secrets),
+      updatedAt: now,
+      rotatedAt: now,
+      lastTest: undefined, // The test was of the old secrets
+    };
+    await this.repo.save(updated);
+    return { success: true, data: this.toSummary(updated) };
+  }
+
+  async deleteCredential(tenantId: string, id: string): Promise<IntegrationCredentialServiceResult<void>> {
+    const credential = await this.getTenantCredential(tenantId, id);
+    if (!credential) return NOT_FOUND;
+
+    await this.repo.delete(id);
+    return { success: true };
+  }
+
+  /**
+   * Connect with the stored credentials and record the outcome. A failed
+   * connection is a successful test with `ok: false`.
+   */
+  async testConnection(tenantId: string, id: string): Promise<IntegrationCredentialServiceResult<IntegrationConnectionTest>> {
+    const credential = await this.getTenantCredential(tenantId, id);
+    if (!credential) return NOT_FOUND;
+    const resolved = this.decrypt(credential);
+    if (!resolved.success) return { success: false, error: resolved.error, code: resolved.code };
+
+    let test: IntegrationConnectionTest;
+    try {
+      const tester = this.testers[credential.type] as IntegrationConnectionTester<IntegrationType>;
+      test = { ok: true, message: await tester(resolved.data as never), testedAt: new Date().toISOString() };
+    } catch (error) {
+      test = { ok: false, message: (error as Error).message || 'Connection failed', testedAt: new Date().toISOString() };
+    }
+
+    await this.repo.save({ ...credential, lastTest: test });
+    return { success: true, data: test };
+  }
+
+  /**
+   * The decrypted credentials of an integration of the given type
+   */
+  async resolveCredentials<T extends IntegrationType>(
+    tenantId: string,
+    id: string,
+    type: T
+  ): Promise<IntegrationCredentialServiceResult<IntegrationCredentialsByType[T]>> {
+    const credential = await this.getTenantCredential(tenantId, id);
+    if (!credential) return NOT_FOUND;
+    if (credential.type !== type) {
+      return {
+        success: false,
+        error: `Integration "${credential.name}" is a ${INTEGRATION_TYPE_LABELS[credential.type]} integration, not ${INTEGRATION_TYPE_LABELS[type]}`,
+        code: 'TYPE_MISMATCH',
+      };
+    }
+    const resolved = this.decrypt(credential);
+    if (!resolved.success) return { success: false, error: resolved.error, code: resolved.code };
+    return { success: true, data: resolved.data as unknown as IntegrationCredentialsByType[T] };
+  }
+
+  private decrypt(credential: IntegrationCredential): IntegrationCredentialServiceResult<Record<string, string>> {
+    if (!this.key) return this.notConfigured();
+    try {
+      const secrets = decryptCredentialSecrets(credential.encryptedSecrets, this.key, getEncryptionContext(credential.tenantId, credential.id));
+      return { success: true, data: { ...credential.settings, ...secrets } };
+    } catch (error) {
+      console.error(`Decrypting integration credential ${credential.id} failed:`, error);
+      return {
+        success: false,
+        error: `The secrets of integration "${credential.name}" cannot be decrypted; rotate the credential`,
+        code: 'DECRYPTION_FAILED',
+      };
+    }
+  }
+
+  private notConfigured(): IntegrationCredentialServiceResult<never> {
+    return {
+      success: false,
+      error: 'Integration credentials cannot be encrypted: INTEGRATION_CREDENTIALS_KEY is not set',
+      code: 'NOT_CONFIGURED',
+    };
+  }
+
+  private async getTenantCredential(tenantId: string, id: string): Promise<IntegrationCredential | null> {
+    const credential = await this.repo.getById(id);
+    return credential && credential.tenantId === tenantId ? credential : null;
+  }
+
+  private toSummary(credential: IntegrationCredential): IntegrationCredentialSummary {
+    const { encryptedSecrets, ...summary } = credential;
+    return summary;
+  }
+}
+
+function getEncryptionContext(tenantId: string, id: string): string {
+  return `${tenantId}/${id}`;
+}
+
+/**
+ * Secrets replace all secret fields at once; an error result unless every
+ * one of them, and nothing else, is given
+ */
+function checkSecretFields(type: IntegrationType, secrets: Record<string, string>): IntegrationCredentialServiceResult<never> | null {
+  const expected = getSecretFieldKeys(type);
+  const missing = expected.filter(key => !secrets[key]);
+  const unknown = Object.keys(secrets).filter(key => !expected.includes(key));
+  if (missing.length === 0 && unknown.length === 0) return null;
+  return {
+    success: false,
+    error: `Rotation needs new values for ${expected.join(', ')}`,
+    code: 'INVALID_FIELDS',
+    details: [...missing, ...unknown],
+  };
+}
+
+function getSecretHints(secrets: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(Object.entries(secrets).map(([key, value]) => [key, getCredentialSecretHint(value)]));
+}
+
+export const integrationCredentialService = new IntegrationCredentialService();
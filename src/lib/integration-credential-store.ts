@@ -0,0 +1,105 @@
+import { create } from 'zustand';
+import type {
+  IntegrationConnectionTest,
+  IntegrationCredentialInput,
+  IntegrationCredentialSummary,
+  IntegrationCredentialUpdate,
+} from '@/types/integration-credential';
+
+interface IntegrationCredentialState {
+  credentials: IntegrationCredentialSummary[];
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  fetchCredentials: () => Promise<void>;
+  createCredential: (input: IntegrationCredentialInput) => Promise<IntegrationCredentialSummary>;
+  updateCredential: (id: string, input: IntegrationCredentialUpdate) => Promise<void>;
+  rotateCredential: (id: string, secrets: Record<string, string>) => Promise<void>;
+  deleteCredential: (id: string) => Promise<void>;
+  testConnection: (id: string) => Promise<IntegrationConnectionTest>;
+}
+
+// Where earlier versions kept integration credentials in the browser
+const LEGACY_STORAGE_KEYS = [/^shopify-config-storage-/, /^business-central-config$/];
+
+function buildHeaders(): Record<string, string> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  const token = typeof window !== 'undefined' ? localStorage.getItem('accessToken') : null;
+  if (token) headers['Authorization'] = `Bearer ${token}`;
+  return headers;
+}
+
+async function request<T>(url: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(url, { ...init, headers: buildHeaders() });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok || !data.success) {
+    const details = Array.isArray(data.details) && data.details.length > 0 ? `: ${data.details.join('; ')}` : '';
+    throw new Error((data.error || `Request failed: ${response.status} ${response.statusText}`) + details);
+  }
+  return data.data as T;
+}
+
+/**
+ * Remove Shopify and Business Central credentials that earlier versions
+ * stored in localStorage
+ */
+export function removeLegacyBrowserCredentials(): void {
+  if (typeof window === 'undefined') return;
+  Object.keys(localStorage)
+    .filter(key => LEGACY_STORAGE_KEYS.some(pattern => pattern.test(key)))
+    .forEach(key => localStorage.removeItem(key));
+}
+
+export const useIntegrationCredentialStore = create<IntegrationCredentialState>((set) => ({
+  credentials: [],
+  isLoading: false,
+  error: null,
+
+  fetchCredentials: async () => {
+    set({ isLoading: true, error: null });
+    try {
+      const credentials = await request<IntegrationCredentialSummary[]>('/api/settings/integrations');
+      set({ credentials, isLoading: false });
+    } catch (error) {
+      console.error('Error fetching integration credentials:', error);
+      set({ error: (error as Error).message, isLoading: false });
+    }
+  },
+
+  createCredential: async (input) => {
+    const created = await request<IntegrationCredentialSummary>('/api/settings/integrations', {
+      method: 'POST',
+      body: JSON.stringify(input),
+    });
+    set(state => ({ credentials: [...state.credentials, created].sort((a, b) => a.name.localeCompare(b.name)) }));
+    return created;
+  },
+
+  updateCredential: async (id, input) => {
+    const updated = await request<IntegrationCredentialSummary>(`/api/settings/integrations/${id}`, {
+      method: 'PATCH',
+      body: JSON.stringify(input),
+    });
+    set(state => ({ credentials: state.credentials.map(c => (c.id === id ? updated : c)) }));
+  },
+
+  rotateCredential: async (id, secrets) => {
+    const rotated = await request<IntegrationCredentialSummary>(`/api/settings/integrations/${id}/rotate`, {
+      method: 'POST',
+      body: JSON.stringify({ secrets }),
+    });
+    set(state => ({ credentials: state.credentials.map(c => (c.id === id ? rotated : c)) }));
+  },
+
+  deleteCredential: async (id) => {
+    await request<void>(`/api/settings/integrations/${id}`, { method: 'DELETE' });
+    set(state => ({ credentials: state.credentials.filter(c => c.id !== id) }));
+  },
+
+  testConnection: async (id) => {
+    const lastTest = await request<IntegrationConnectionTest>(`/api/settings/integrations/${id}/test`, { method: 'POST' });
+    set(state => ({ credentials: state.credentials.map(c => (c.id === id ? { ...c, lastTest } : c)) }));
+    return lastTest;
+  },
+}));
@@ -0,0 +1,139 @@
+/**
+ * Integration Credentials
+ *
+ * Request schemas for the credential vault, the split of credentials into
+ * plain settings and secret fields, and the encryption of the secret fields.
+ *
+ * Secrets are encrypted with AES-256-GCM under a key derived from the
+ * INTEGRATION_CREDENTIALS_KEY environment variable. The credential's tenant
+ * and ID are authenticated with the ciphertext, so an encrypted value copied
+ * to another credential does not decrypt.
+ */
+
+import crypto from 'crypto';
+import { z } from 'zod';
+import type { IntegrationType } from '@/types/integration-credential';
+import { INTEGRATION_CREDENTIAL_FIELDS } from '@/types/integration-credential';
+
+const CIPHER = 'aes-256-gcm';
+const IV_LENGTH = 12;
+
+// Prefix of encrypted values, so the format can change later
+const ENCRYPTION_FORMAT = 'v1';
+
+// Secrets shorter than this get no hint, as the hint would give most of it away
+const MIN_HINTED_SECRET_LENGTH = 12;
+
+const required = (label: string) => z.string().trim().min(1, `${label} is required.`).max(2000);
+
+const name = z.string().trim().min(1).max(100);
+
+/**
+ * Request schema for adding a credential
+ */
+export const integrationCredentialSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('shopify'),
+    name,
+    credentials: z.object({
+      storeUrl: required('Shopify store URL'),
+      accessToken: required('Shopify Admin API Access Token'),
+    }),
+  }),
+  z.object({
+    type: z.literal('business_central'),
+    name,
+    credentials: z.object({
+      tenantId: required('Tenant ID'),
+      environment: required('Environment'),
+      clientId: required('Client ID'),
+      clientSecret: required('Client Secret'),
+      companyId: required('Company ID'),
+    }),
+  }),
+]);
+
+/**
+ * Request schema for renaming a credential or changing its plain settings.
+ * Changing a setting the secrets are sent to needs the secrets again.
+ */
+export const integrationCredentialUpdateSchema = z.object({
+  name: name.optional(),
+  settings: z.record(z.string().trim().min(1).max(2000)).optional(),
+  secrets: z.record(z.string().trim().min(1).max(2000)).optional(),
+});
+
+/**
+ * Request schema for rotating a credential: new values for its secret fields
+ */
+export const integrationCredentialRotateSchema = z.object({
+  secrets: z.record(z.string().trim().min(1).max(2000)),
+});
+
+export function getSecretFieldKeys(type: IntegrationType): string[] {
+  return INTEGRATION_CREDENTIAL_FIELDS[type].filter(field => field.secret).map(field => field.key);
+}
+
+export function getSettingFieldKeys(type: IntegrationType): string[] {
+  return INTEGRATION_CREDENTIAL_FIELDS[type].filter(field => !field.secret).map(field => field.key);
+}
+
+/**
+ * Settings that decide where the secrets are sent, e.g. the Shopify store
+ */
+export function getEndpointFieldKeys(type: IntegrationType): string[] {
+  return INTEGRATION_CREDENTIAL_FIELDS[type].filter(field => field.endpoint).map(field => field.key);
+}
+
+/**
+ * Split credentials into the fields stored as they are and the secret ones
+ */
+export function splitCredentials(
+  type: IntegrationType,
+  credentials: Record<string, string>
+): { settings: Record<string, string>; secrets: Record<string, string> } {
+  const pick = (keys: string[]) => Object.fromEntries(keys.map(key => [key, credentials[key]]));
+  return { settings: pick(getSettingFieldKeys(type)), secrets: pick(getSecretFieldKeys(type)) };
+}
+
+/**
+ * Last characters of a secret, to tell secrets apart in settings
+ */
+export function getCredentialSecretHint(secret: string): string {
+  return secret.length >= MIN_HINTED_SECRET_LENGTH ? `…${secret.slice(-4)}` : '…';
+}
+
+/**
+ * A 256-bit key from the configured secret, which may be any string
+ */
+export function deriveCredentialsKey(secret: string): Buffer {
+  return crypto.createHash('sha256').update(secret).digest();
+}
+
+/**
+ * Encrypt secret fields. `context` (tenant and credential ID) must be given
+ * again to decrypt.
+ */
+export function encryptCredentialSecrets(secrets: Record<string, string>, key: Buffer, context: string): string {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(CIPHER, key, iv);
+  cipher.setAAD(Buffer.from(context));
+  const encrypted = Buffer.concat([cipher.update(JSON.stringify(secrets), 'utf8'), cipher.final()]);
+  return [ENCRYPTION_FORMAT, iv.toString('base64'), cipher.getAuthTag().toString('base64'), encrypted.toString('base64')].join(':');
+}
+
+/**
+ * Decrypt secret fields; throws when the value was changed, belongs to
+ * another credential or was encrypted with another key
+ */
+export function decryptCredentialSecrets(value: string, key: Buffer, context: string): Record<string, string> {
+  const [format, iv, authTag, encrypted] = value.split(':');
+  if (format !== ENCRYPTION_FORMAT || !iv || !authTag || !encrypted) {
+    throw new Error('Unknown credential encryption format');
+  }
+  const decipher = crypto.createDecipheriv(CIPHER, key, Buffer.from(iv, 'base64'));
+  decipher.setAAD(Buffer.from(context));
+  decipher.setAuthTag(Buffer.from(authTag, 'base64'));
+  const decrypted = Buffer.concat([decipher.update(Buffer.from(encrypted, 'base64')), decipher.final()]);
+  return JSON.parse(decrypted.toString('utf8'));
+}
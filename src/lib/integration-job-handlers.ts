@@ -0,0 +1,244 @@
+/**
+ * Integration Job Handlers
+ *
+ * What each kind of integration job does. Handlers report every item to
+ * the job's context, record the items that fail without stopping, and stop
+ * at a checkpoint when the job is cancelled.
+ */
+
+import type { BusinessCentralItemSync } from '@/types/business-central-sync';
+import type { IntegrationJob } from '@/types/integration-job';
+import type { IntegrationCredentialsByType, IntegrationType } from '@/types/integration-credential';
+import type { Product } from '@/types/product';
+import { getAccessToken } from './azure-ad-service';
+import { createProduct, fetchItemPicture, fetchProducts, toItemNumber, type BCItem } from './business-central-client';
+import {
+  advanceSyncWatermark,
+  getBusinessCentralOwnedItemFields,
+  isAfterWatermark,
+  isItemChangedSinceSync,
+  isProductChangedSinceSync,
+  mergeBusinessCentralItem,
+  needsBusinessCentralPicture,
+} from './business-central-sync';
+import { businessCentralSyncService } from './business-central-sync-service';
+import { categoryService } from './category-service';
+import { channelService } from './channel-service';
+import { resolveProductForChannel } from './channel-overrides';
+import { mapWithConcurrency } from './concurrency';
+import { integrationCredentialService } from './integration-credential-service';
+import type { IntegrationJobContext, IntegrationJobHandlers } from './integration-job-service';
+import { IntegrationJobError } from './integration-jobs';
+import { localeService } from './locale-service';
+import { resolveLocalizedText } from './locales';
+import { productImportService } from './product-import-service';
+import { productService } from './product-service';
+import { describeShopifySync } from './shopify-sync';
+import { shopifySyncService } from './shopify-sync-service';
+
+// Item pictures fetched from Business Central at the same time
+const BC_PICTURE_CONCURRENCY = 4;
+
+// Codes of sync errors that retrying cannot fix
+const PERMANENT_ERROR_CODES = ['NOT_FOUND', 'INACTIVE', 'TYPE_MISMATCH', 'NOT_CONFIGURED', 'DECRYPTION_FAILED'];
+
+async function resolveCredentials<T extends IntegrationType>(job: IntegrationJob, type: T): Promise<IntegrationCredentialsByType[T]> {
+  const result = await integrationCredentialService.resolveCredentials(job.tenantId, job.params.integrationId, type);
+  if (!result.success) throw new IntegrationJobError(result.error || 'The integration cannot be used');
+  return result.data!;
+}
+
+/**
+ * Sync with Shopify, one product at a time
+ */
+async function runShopifySync(context: IntegrationJobContext): Promise<string> {
+  const { tenantId, params, startedBy } = context.job;
+  const result = await shopifySyncService.sync(
+    tenantId,
+    {
+      integrationId: params.integrationId,
+      direction: params.direction || 'both',
+      productIds: params.productIds,
+      workflowStates: params.workflowStates,
+      channelId: params.channelId,
+    },
+    startedBy,
+    {
+      onPlanned: steps => context.setTotal(steps),
+      onStep: item => {
+        if (item?.action === 'failed') {
+          context.recordError(item.sku || item.title || String(item.productId || item.shopifyProductId), item.message || 'Sync failed');
+        }
+        context.advance();
+      },
+      shouldStop: () => context.isCancelled(),
+    }
+  );
+
+  if (!result.success) {
+    if (PERMANENT_ERROR_CODES.includes(result.code || '')) throw new IntegrationJobError(result.error || 'Shopify sync failed');
+    throw new Error(result.error || 'Shopify sync failed');
+  }
+  await context.checkpoint();
+  return `Shopify sync finished: ${describeShopifySync(result.data!.summary)}.`;
+}
+
+/**
+ * Import the Business Central items changed since the last import, or all
+ * of them on a full import, matching products by SKU. Existing products
+ * only take the fields Business Central owns. Items left as the last sync
+ * recorded them, such as those an export just wrote, are skipped. Pictures
+ * are fetched a few at a time; an item whose picture cannot be fetched is
+ * imported without it.
+ */
+async function runBusinessCentralImport(context: IntegrationJobContext): Promise<string> {
+  const { tenantId, params, startedBy } = context.job;
+  const { tenantId: azureTenantId, environment, clientId, clientSecret, companyId } =
+    await resolveCredentials(context.job, 'business_central');
+
+  const state = await businessCentralSyncService.getCompanyState(tenantId, environment, companyId);
+  const since = params.full ? undefined : state.importWatermark;
+  const accessToken = await getAccessToken(azureTenantId, clientId, clientSecret);
+  const fetched = await fetchProducts(accessToken, environment, companyId, { modifiedSince: since });
+  const synced = since ? await businessCentralSyncService.getItemSyncs(state) : new Map<string, BusinessCentralItemSync>();
+  const items = fetched.filter(item => isItemChangedSinceSync(item, synced.get(item.number)));
+  const skipped = fetched.length - items.length;
+  context.setTotal(items.length);
+
+  if (items.length === 0) {
+    await businessCentralSyncService.recordImport(state, advanceSyncWatermark(
+      state.importWatermark,
+      fetched.map(item => ({ modifiedAt: item.lastModifiedDateTime, ok: true }))
+    ));
+    if (skipped > 0) return `No items changed in Business Central since ${since} other than by the last sync.`;
+    return since
+      ? `No items changed in Business Central since ${since}.`
+      : 'Business Central has no items to import.';
+  }
+
+  const bySku = new Map((await productService.getAllProducts()).map(product => [product.basicInfo.sku, product]));
+  const { defaultLocale } = await localeService.getSettings(tenantId);
+
+  const products = await mapWithConcurrency(items, BC_PICTURE_CONCURRENCY, async item => {
+    await context.checkpoint();
+    const existing = bySku.get(item.number);
+    const picture = needsBusinessCentralPicture(existing)
+      ? await fetchItemPicture(accessToken, environment, companyId, item.id).catch(error => {
+        console.warn(`[Import] Failed to fetch image for item ${item.number}`, error);
+        return null;
+      })
+      : null;
+    context.advance();
+    return mergeBusinessCentralItem(item, picture, existing, state.ownership, defaultLocale);
+  });
+  await context.checkpoint();
+
+  const result = await productImportService.importRows(
+    { products, matchBy: 'sku', mergeStrategy: 'overwrite' },
+    startedBy,
+    tenantId
+  );
+  for (const row of result.rows.filter(row => row.action === 'error')) {
+    context.recordError(row.sku || `item ${row.rowNumber}`, row.errors.map(error => error.message).join('; '));
+  }
+
+  // Rows are in item order; failed items are fetched again next time
+  const failed = new Set(items.filter((_, index) => result.rows[index]?.action === 'error'));
+  await businessCentralSyncService.recordItemSyncs(state, items.filter(item => !failed.has(item)));
+  await businessCentralSyncService.recordImport(state, advanceSyncWatermark(
+    state.importWatermark,
+    fetched.map(item => ({ modifiedAt: item.lastModifiedDateTime, ok: !failed.has(item) }))
+  ));
+
+  const { summary } = result;
+  return `Imported ${items.length} ${since ? 'changed ' : ''}items from Business Central: created ${summary.create}, updated ${summary.update}`
+    + (summary.unchanged > 0 ? `, ${summary.unchanged} unchanged` : '')
+    + (summary.error > 0 ? `, ${summary.error} failed` : '')
+    + (skipped > 0 ? `, ${skipped} skipped as already synced` : '')
+    + '.';
+}
+
+/**
+ * Create or update the products as Business Central items, one at a time:
+ * the given products, or those changed since the last export and not just
+ * saved by an import. Existing items keep the fields Business Central owns.
+ */
+async function runBusinessCentralExport(context: IntegrationJobContext): Promise<string> {
+  const { tenantId, params } = context.job;
+  const { tenantId: azureTenantId, environment, clientId, clientSecret, companyId } =
+    await resolveCredentials(context.job, 'business_central');
+
+  // Channel overrides (title, prices) replace base values where set
+  const channelResult = await channelService.getExportChannel(params.channelId, 'business_central');
+  if (!channelResult.success) throw new IntegrationJobError(channelResult.error || 'The channel cannot be used');
+  const channel = channelResult.data || null;
+
+  // Exports of chosen products do not move the watermark; the rest may have changed too
+  const state = await businessCentralSyncService.getCompanyState(tenantId, environment, companyId);
+  const since = params.productIds || params.full ? undefined : state.exportWatermark;
+  const scope = params.productIds ? new Set(params.productIds) : null;
+  const candidates = (await productService.getAllProducts())
+    .filter(product => !scope || scope.has(product.id))
+    .filter(product => !params.workflowStates?.length || params.workflowStates.includes(product.workflowState as string))
+    .filter(product => isAfterWatermark(product.updatedAt, since));
+  const synced = since ? await businessCentralSyncService.getItemSyncs(state) : new Map<string, BusinessCentralItemSync>();
+  const products: Product[] = [];
+  const skipped: Product[] = [];
+  for (const product of candidates) {
+    const changed = isProductChangedSinceSync(product, synced.get(toItemNumber(product.basicInfo.sku)));
+    (changed ? products : skipped).push(product);
+  }
+  if (products.length === 0 && since) {
+    await businessCentralSyncService.recordExport(state, advanceSyncWatermark(
+      state.exportWatermark,
+      skipped.map(product => ({ modifiedAt: product.updatedAt, ok: true }))
+    ));
+    return skipped.length > 0
+      ? `No products changed since the last export (${since}) other than by imports.`
+      : `No products changed since the last export (${since}).`;
+  }
+  if (products.length === 0) throw new IntegrationJobError('No products to export');
+  context.setTotal(products.length);
+
+  // Item names are single-language: the channel's locale, else the tenant's default
+  const localeSettings = await localeService.getSettings(tenantId);
+  const locale = channel?.locale || localeSettings.defaultLocale;
+  // Products store category IDs; Business Central item categories are keyed by name
+  const resolveCategoryNames = await categoryService.getNameResolver({ locale });
+  const keepExisting = getBusinessCentralOwnedItemFields(state.ownership);
+
+  const accessToken = await getAccessToken(azureTenantId, clientId, clientSecret);
+  const exports = skipped.map(product => ({ modifiedAt: product.updatedAt, ok: true }));
+  const exported: BCItem[] = [];
+  for (const product of products) {
+    await context.checkpoint();
+    try {
+      const [categoryName] = resolveCategoryNames(product.attributesAndSpecs?.categories);
+      const channelProduct = resolveProductForChannel(product, channel);
+      const displayName = resolveLocalizedText(channelProduct.basicInfo.name, locale, localeSettings) || undefined;
+      exported.push(await createProduct(accessToken, environment, companyId, channelProduct, { categoryName, displayName, keepExisting }));
+      exports.push({ modifiedAt: product.updatedAt, ok: true });
+    } catch (error) {
+      console.error(`Failed to export product ${product.basicInfo.sku}:`, error);
+      context.recordError(product.basicInfo.sku || product.id, (error as Error).message || 'Export failed');
+      exports.push({ modifiedAt: product.updatedAt, ok: false });
+    }
+    context.advance();
+  }
+
+  // Nothing got through: more likely Business Central than the products, so try again later
+  if (exported.length === 0) throw new Error(`Failed to export any of ${products.length} products`);
+  await businessCentralSyncService.recordItemSyncs(state, exported);
+  if (!params.productIds) {
+    await businessCentralSyncService.recordExport(state, advanceSyncWatermark(state.exportWatermark, exports));
+  }
+  return `Exported ${exported.length} of ${products.length} ${since ? 'changed ' : ''}products to Business Central`
+    + (skipped.length > 0 ? `, skipped ${skipped.length} saved by imports` : '')
+    + '.';
+}
+
+export const defaultIntegrationJobHandlers: IntegrationJobHandlers = {
+  shopify_sync: runShopifySync,
+  business_central_import: runBusinessCentralImport,
+  business_central_export: runBusinessCentralExport,
+};
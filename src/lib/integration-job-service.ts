@@ -0,0 +1,349 @@
+/**
+ * Integration Job Service
+ *
+ * Queues Shopify syncs and Business Central imports and exports and runs
+ * them in the background. Queuing a job starts its first attempt right
+ * away; runDueJobs, which a cron job calls every minute (POST
+ * /api/jobs/run), retries failed attempts with backoff and picks up jobs
+ * whose worker went away. A running job saves its progress as it goes and
+ * stops at its next checkpoint once a user cancels it.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type {
+  IntegrationJob,
+  IntegrationJobInput,
+  IntegrationJobItemError,
+  IntegrationJobKind,
+  IntegrationJobProgress,
+  IntegrationJobStatus,
+} from '@/types/integration-job';
+import { INTEGRATION_JOB_KIND_LABELS, INTEGRATION_JOB_KIND_TYPES } from '@/types/integration-job';
+import { firestoreIntegrationJobRepository, FirestoreIntegrationJobRepository } from './firestore-integration-job-repository';
+import { integrationCredentialService, IntegrationCredentialService } from './integration-credential-service';
+import { defaultIntegrationJobHandlers } from './integration-job-handlers';
+import {
+  canRetryIntegrationJob,
+  getIntegrationJobRetryDelay,
+  IntegrationJobCancelledError,
+  IntegrationJobError,
+} from './integration-jobs';
+
+// A running job is not picked up by runDueJobs for this long after it last
+// saved its progress, so a retry never overlaps a running attempt
+const JOB_LEASE_MS = 5 * 60 * 1000;
+
+// Jobs one runDueJobs call runs, one after the other
+const MAX_DUE_JOBS_PER_RUN = 5;
+
+// Failed items kept per job
+const MAX_ITEM_ERRORS = 100;
+
+// Jobs listed by listJobs
+const RECENT_JOBS_LIMIT = 50;
+
+/**
+ * Integration Job Service Result
+ */
+export interface IntegrationJobServiceResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  code?: string;
+  details?: string[];
+}
+
+/**
+ * The user starting a job, as set by the API middleware
+ */
+export type IntegrationJobActor = IntegrationJob['startedBy'];
+
+export interface IntegrationJobFilter {
+  status?: IntegrationJobStatus;
+  limit?: number;
+}
+
+export interface IntegrationJobRunSummary {
+  attempted: number;
+  succeeded: number;
+  failed: number;
+  retrying: number;
+  cancelled: number;
+}
+
+/**
+ * What a job handler reports to while it runs
+ */
+export interface IntegrationJobContext {
+  job: IntegrationJob;
+  setTotal(total: number): void;
+  advance(count?: number): void;
+  recordError(key: string, message: string): void;
+  // Saves the progress now and then; true once a user cancelled the job
+  isCancelled(): Promise<boolean>;
+  // Throws IntegrationJobCancelledError once a user cancelled the job
+  checkpoint(): Promise<void>;
+}
+
+/**
+ * Runs a job and resolves to a description of the outcome. Throwing
+ * IntegrationJobError fails the job; any other error is retried.
+ */
+export type IntegrationJobHandler = (context: IntegrationJobContext) => Promise<string>;
+
+export type IntegrationJobHandlers = Record<IntegrationJobKind, IntegrationJobHandler>;
+
+export interface IntegrationJobServiceOptions {
+  progressIntervalMs?: number; // How often a running job saves its progress
+}
+
+const NOT_FOUND = { success: false, error: 'Job not found', code: 'NOT_FOUND' } as const;
+
+export class IntegrationJobService {
+  private inFlight = new Set<Promise<unknown>>();
+  private progressIntervalMs: number;
+
+  constructor(
+    private repo: FirestoreIntegrationJobRepository = firestoreIntegrationJobRepository,
+    private credentials: IntegrationCredentialService = integrationCredentialService,
+    private handlers: IntegrationJobHandlers = defaultIntegrationJobHandlers,
+    options: IntegrationJobServiceOptions = {}
+  ) {
+    this.progressIntervalMs = options.progressIntervalMs ?? 2000;
+  }
+
+  /**
+   * Queue a job and start its first attempt. A job is refused while another
+   * one of the same kind runs on the same integration.
+   */
+  async enqueue(
+    tenantId: string,
+    input: IntegrationJobInput,
+    actor: IntegrationJobActor,
+    retryOf?: string
+  ): Promise<IntegrationJobServiceResult<IntegrationJob>> {
+    const type = INTEGRATION_JOB_KIND_TYPES[input.kind];
+    const credentials = await this.credentials.resolveCredentials(tenantId, input.params.integrationId, type);
+    if (!credentials.success) {
+      return { success: false, error: credentials.error, code: credentials.code };
+    }
+
+    const active = await this.repo.getActive(tenantId);
+    const running = active.find(job => job.kind === input.kind && job.params.integrationId === input.params.integrationId);
+    if (running) {
+      return {
+        success: false,
+        error: `A ${INTEGRATION_JOB_KIND_LABELS[input.kind]} with this integration is already ${running.status}`,
+        code: 'JOB_RUNNING',
+        data: running,
+      };
+    }
+
+    const now = new Date();
+    const job: IntegrationJob = {
+      id: uuidv4(),
+      tenantId,
+      kind: input.kind,
+      params: input.params,
+      status: 'queued',
+      progress: { total: 0, processed: 0, failed: 0 },
+      itemErrors: [],
+      attempts: [],
+      nextAttemptAt: new Date(now.getTime() + JOB_LEASE_MS).toISOString(),
+      retryOf,
+      startedBy: {
+        userId: actor.userId,
+        userName: actor.userName || '',
+        userRole: actor.userRole,
+        email: actor.email,
+      },
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+    };
+    await this.repo.save(job);
+
+    const attempt = this.run(job)
+      .catch(error => console.error(`Integration job ${job.id} failed:`, error))
+      .finally(() => this.inFlight.delete(attempt));
+    this.inFlight.add(attempt);
+
+    return { success: true, data: job };
+  }
+
+  /**
+   * Wait for the attempts enqueue started
+   */
+  async settle(): Promise<void> {
+    while (this.inFlight.size > 0) {
+      await Promise.all(Array.from(this.inFlight));
+    }
+  }
+
+  /**
+   * Run every queued job whose next attempt is due, and running jobs whose
+   * worker stopped saving progress
+   */
+  async runDueJobs(tenantId: string, now: Date = new Date()): Promise<IntegrationJobServiceResult<IntegrationJobRunSummary>> {
+    const due = await this.repo.getDue(tenantId, now.toISOString(), MAX_DUE_JOBS_PER_RUN);
+    const summary: IntegrationJobRunSummary = { attempted: 0, succeeded: 0, failed: 0, retrying: 0, cancelled: 0 };
+
+    for (const job of due) {
+      const result = await this.run(job);
+      summary.attempted++;
+      if (result.status === 'succeeded') summary.succeeded++;
+      else if (result.status === 'failed') summary.failed++;
+      else if (result.status === 'cancelled') summary.cancelled++;
+      else summary.retrying++;
+    }
+
+    return { success: true, data: summary };
+  }
+
+  /**
+   * Jobs newest first, optionally with one status
+   */
+  async listJobs(tenantId: string, filter: IntegrationJobFilter = {}): Promise<IntegrationJob[]> {
+    const limit = filter.limit || RECENT_JOBS_LIMIT;
+    const jobs = await this.repo.getRecent(tenantId, filter.status ? limit * 4 : limit);
+    return jobs.filter(job => !filter.status || job.status === filter.status).slice(0, limit);
+  }
+
+  async getJob(tenantId: string, id: string): Promise<IntegrationJobServiceResult<IntegrationJob>> {
+    const job = await this.repo.getById(id);
+    if (!job || job.tenantId !== tenantId) return NOT_FOUND;
+    return { success: true, data: job };
+  }
+
+  /**
+   * Cancel a queued job, or ask a running one to stop at its next checkpoint
+   */
+  async cancelJob(tenantId: string, id: string): Promise<IntegrationJobServiceResult<IntegrationJob>> {
+    const found = await this.getJob(tenantId, id);
+    if (!found.data) return found;
+    const job = found.data;
+
+    if (job.status === 'queued') {
+      const now = new Date().toISOString();
+      const cancelled: IntegrationJob = { ...job, status: 'cancelled', nextAttemptAt: undefined, finishedAt: now, updatedAt: now };
+      await this.repo.save(cancelled);
+      return { success: true, data: cancelled };
+    }
+    if (job.status === 'running') {
+      await this.repo.update(id, { cancelRequested: true });
+      return { success: true, data: { ...job, cancelRequested: true } };
+    }
+    return { success: false, error: `The job has already ${job.status}`, code: 'NOT_ACTIVE' };
+  }
+
+  /**
+   * Queue a failed or cancelled job again with the same parameters
+   */
+  async retryJob(tenantId: string, id: string, actor: IntegrationJobActor): Promise<IntegrationJobServiceResult<IntegrationJob>> {
+    const found = await this.getJob(tenantId, id);
+    if (!found.data) return found;
+    if (!canRetryIntegrationJob(found.data.status)) {
+      return { success: false, error: 'Only failed and cancelled jobs can be retried', code: 'NOT_RETRYABLE' };
+    }
+    return this.enqueue(tenantId, { kind: found.data.kind, params: found.data.params }, actor, found.data.id);
+  }
+
+  /**
+   * Make one attempt at a job and record the outcome
+   */
+  private async run(job: IntegrationJob): Promise<IntegrationJob> {
+    const startedAt = new Date();
+    const lease = () => new Date(Date.now() + JOB_LEASE_MS).toISOString();
+    const progress: IntegrationJobProgress = { total: 0, processed: 0, failed: 0 };
+    const itemErrors: IntegrationJobItemError[] = [];
+
+    const running: IntegrationJob = {
+      ...job,
+      status: 'running',
+      progress,
+      itemErrors,
+      attempts: [...job.attempts, { startedAt: startedAt.toISOString() }],
+      nextAttemptAt: lease(),
+      updatedAt: startedAt.toISOString(),
+    };
+    await this.repo.save(running);
+
+    let lastSavedAt = startedAt.getTime();
+    let cancelled = false;
+    const isCancelled = async () => {
+      if (cancelled || Date.now() - lastSavedAt < this.progressIntervalMs) return cancelled;
+      lastSavedAt = Date.now();
+      // Renewing the lease keeps runDueJobs from starting the job again
+      await this.repo.update(job.id, { progress, itemErrors, nextAttemptAt: lease(), updatedAt: new Date().toISOString() });
+      const stored = await this.repo.getById(job.id);
+      cancelled = !stored || !!stored.cancelRequested;
+      return cancelled;
+    };
+
+    const context: IntegrationJobContext = {
+      job: running,
+      setTotal: total => { progress.total = total; },
+      advance: (count = 1) => { progress.processed += count; },
+      recordError: (key, message) => {
+        progress.failed++;
+        if (itemErrors.length < MAX_ITEM_ERRORS) itemErrors.push({ key, message });
+      },
+      isCancelled,
+      checkpoint: async () => {
+        if (await isCancelled()) throw new IntegrationJobCancelledError();
+      },
+    };
+
+    try {
+      const message = await this.handlers[job.kind](context);
+      return this.finish(running, { status: 'succeeded', message });
+    } catch (error) {
+      const message = (error as Error).message || 'Job failed';
+      if (error instanceof IntegrationJobCancelledError) {
+        return this.finish(running, { status: 'cancelled' });
+      }
+      if (error instanceof IntegrationJobError) {
+        return this.finish(running, { status: 'failed', error: message });
+      }
+
+      console.error(`Integration job ${job.id} attempt failed:`, error);
+      const retryDelay = getIntegrationJobRetryDelay(running.attempts.length);
+      if (retryDelay === null) {
+        return this.finish(running, { status: 'failed', error: message });
+      }
+      return this.finish(running, {
+        status: 'queued',
+        error: message,
+        nextAttemptAt: new Date(Date.now() + retryDelay).toISOString(),
+      });
+    }
+  }
+
+  private async finish(
+    job: IntegrationJob,
+    outcome: { status: IntegrationJobStatus; message?: string; error?: string; nextAttemptAt?: string }
+  ): Promise<IntegrationJob> {
+    const now = new Date().toISOString();
+    const attempts = [...job.attempts];
+    attempts[attempts.length - 1] = {
+      ...attempts[attempts.length - 1],
+      finishedAt: now,
+      error: outcome.status === 'cancelled' ? 'Cancelled' : outcome.error,
+    };
+
+    const finished: IntegrationJob = {
+      ...job,
+      status: outcome.status,
+      attempts,
+      nextAttemptAt: outcome.nextAttemptAt,
+      cancelRequested: undefined,
+      message: outcome.message,
+      error: outcome.error,
+      updatedAt: now,
+      finishedAt: outcome.status === 'queued' ? undefined : now,
+    };
+    await this.repo.save(finished);
+    return finished;
+  }
+}
+
+export const integrationJobService = new IntegrationJobService();
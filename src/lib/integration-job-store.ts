@@ -0,0 +1,79 @@
+import { create } from 'zustand';
+import type { IntegrationJob } from '@/types/integration-job';
+import { isIntegrationJobActive } from './integration-jobs';
+
+interface IntegrationJobState {
+  jobs: IntegrationJob[];
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  fetchJobs: () => Promise<void>;
+  // POST to an endpoint that queues a job, e.g. /api/shopify/sync
+  startJob: (url: string, body: Record<string, unknown>) => Promise<IntegrationJob>;
+  refreshActiveJobs: () => Promise<IntegrationJob[]>;
+  cancelJob: (id: string) => Promise<IntegrationJob>;
+  retryJob: (id: string) => Promise<IntegrationJob>;
+}
+
+function buildHeaders(): Record<string, string> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  const token = typeof window !== 'undefined' ? localStorage.getItem('accessToken') : null;
+  if (token) headers['Authorization'] = `Bearer ${token}`;
+  return headers;
+}
+
+async function request<T>(url: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(url, { ...init, headers: buildHeaders() });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok || !data.success) {
+    const details = Array.isArray(data.details) && data.details.length > 0 ? `: ${data.details.join('; ')}` : '';
+    throw new Error((data.error || `Request failed: ${response.status} ${response.statusText}`) + details);
+  }
+  return data.data as T;
+}
+
+const upsert = (jobs: IntegrationJob[], job: IntegrationJob) =>
+  jobs.some(j => j.id === job.id) ? jobs.map(j => (j.id === job.id ? job : j)) : [job, ...jobs];
+
+export const useIntegrationJobStore = create<IntegrationJobState>((set, get) => ({
+  jobs: [],
+  isLoading: false,
+  error: null,
+
+  fetchJobs: async () => {
+    set({ isLoading: true });
+    try {
+      const jobs = await request<IntegrationJob[]>('/api/jobs');
+      set({ jobs, isLoading: false, error: null });
+    } catch (error) {
+      console.error('Error fetching jobs:', error);
+      set({ error: (error as Error).message, isLoading: false });
+    }
+  },
+
+  startJob: async (url, body) => {
+    const job = await request<IntegrationJob>(url, { method: 'POST', body: JSON.stringify(body) });
+    set(state => ({ jobs: upsert(state.jobs, job) }));
+    return job;
+  },
+
+  refreshActiveJobs: async () => {
+    const active = get().jobs.filter(isIntegrationJobActive);
+    const refreshed = await Promise.all(active.map(job => request<IntegrationJob>(`/api/jobs/${job.id}`).catch(() => job)));
+    set(state => ({ jobs: refreshed.reduce(upsert, state.jobs) }));
+    return refreshed;
+  },
+
+  cancelJob: async (id) => {
+    const job = await request<IntegrationJob>(`/api/jobs/${id}/cancel`, { method: 'POST' });
+    set(state => ({ jobs: upsert(state.jobs, job) }));
+    return job;
+  },
+
+  retryJob: async (id) => {
+    const job = await request<IntegrationJob>(`/api/jobs/${id}/retry`, { method: 'POST' });
+    set(state => ({ jobs: upsert(state.jobs, job) }));
+    return job;
+  },
+}));
@@ -0,0 +1,86 @@
+/**
+ * Integration Jobs
+ *
+ * Request schemas, retry timing, errors and descriptions for integration
+ * jobs. The queue and the worker are in integration-job-service.ts.
+ */
+
+import { z } from 'zod';
+import type { IntegrationJob, IntegrationJobProgress, IntegrationJobStatus } from '@/types/integration-job';
+
+// Attempts a job gets, including the first
+export const MAX_INTEGRATION_JOB_ATTEMPTS = 3;
+
+const BASE_RETRY_DELAY_MS = 60 * 1000;
+
+/**
+ * Request schema for Business Central imports and exports
+ */
+export const businessCentralJobSchema = z.object({
+  integrationId: z.string().trim().min(1, 'Choose a Business Central integration.'),
+  productIds: z.array(z.string()).optional(), // Exports only
+  channelId: z.string().optional(), // Exports only
+  full: z.boolean().optional(), // Ignore the watermark and sync everything
+  // Older clients send whole products to export; only their IDs are used
+  productsToExport: z.array(z.object({ id: z.string() }).passthrough()).optional(),
+});
+
+/**
+ * Thrown by a job to stop it for good, e.g. when its integration was
+ * deleted; other errors are retried
+ */
+export class IntegrationJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'IntegrationJobError';
+  }
+}
+
+/**
+ * Thrown when a user cancelled the running job
+ */
+export class IntegrationJobCancelledError extends Error {
+  constructor() {
+    super('Cancelled');
+    this.name = 'IntegrationJobCancelledError';
+  }
+}
+
+/**
+ * How long to wait after the given number of failed attempts, or null when
+ * the job has run out of attempts: 1, 2, 4 ... minutes
+ */
+export function getIntegrationJobRetryDelay(failedAttempts: number): number | null {
+  if (failedAttempts >= MAX_INTEGRATION_JOB_ATTEMPTS) return null;
+  return BASE_RETRY_DELAY_MS * 2 ** (failedAttempts - 1);
+}
+
+/**
+ * Whether the job is still to run or running
+ */
+export function isIntegrationJobActive(job: Pick<IntegrationJob, 'status'>): boolean {
+  return job.status === 'queued' || job.status === 'running';
+}
+
+/**
+ * Jobs that can be started again: ones that stopped before the end
+ */
+export function canRetryIntegrationJob(status: IntegrationJobStatus): boolean {
+  return status === 'failed' || status === 'cancelled';
+}
+
+/**
+ * e.g. "12 of 40 items, 2 failed"
+ */
+export function describeIntegrationJobProgress({ total, processed, failed }: IntegrationJobProgress): string {
+  const items = total > 0 ? `${processed} of ${total} items` : `${processed} items`;
+  return failed > 0 ? `${items}, ${failed} failed` : items;
+}
+
+/**
+ * Share of the items processed, 0-100; null while the total is unknown
+ */
+export function getIntegrationJobPercent({ total, processed }: IntegrationJobProgress): number | null {
+  if (total <= 0) return null;
+  return Math.min(100, Math.round((processed / total) * 100));
+}
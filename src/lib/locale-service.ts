@@ -0,0 +1,75 @@
+/**
+ * Locale Service
+ *
+ * Reads and updates each tenant's content locales. Tenants that have not
+ * configured locales get English and Norwegian.
+ */
+
+import type { LocaleSettings, UpdateLocaleSettingsInput } from '@/types/locale';
+import { DEFAULT_LOCALE_SETTINGS } from '@/types/locale';
+import { firestoreLocaleSettingsRepository, FirestoreLocaleSettingsRepository } from './firestore-locale-settings-repository';
+import { validateLocaleSettings } from './locales';
+import type { TranslationRequirement } from './workflow-state-manager';
+
+/**
+ * Locale Service Result
+ */
+export interface LocaleServiceResult<T = LocaleSettings> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  code?: string;
+  details?: string[];
+}
+
+export class LocaleService {
+  constructor(
+    private settingsRepo: FirestoreLocaleSettingsRepository = firestoreLocaleSettingsRepository
+  ) { }
+
+  async getSettings(tenantId: string): Promise<LocaleSettings> {
+    try {
+      return (await this.settingsRepo.getByTenant(tenantId)) || DEFAULT_LOCALE_SETTINGS;
+    } catch (error) {
+      console.warn('Failed to load locale settings, using defaults:', error);
+      return DEFAULT_LOCALE_SETTINGS;
+    }
+  }
+
+  async updateSettings(tenantId: string, input: UpdateLocaleSettingsInput, userId?: string): Promise<LocaleServiceResult> {
+    const errors = validateLocaleSettings(input);
+    if (errors.length > 0) {
+      return { success: false, error: 'Invalid locale settings', code: 'VALIDATION_ERROR', details: errors };
+    }
+
+    // Empty fallback chains are dropped so the stored document stays minimal
+    const fallbacks = Object.fromEntries(
+      Object.entries(input.fallbacks || {}).filter(([, chain]) => chain.length > 0)
+    );
+    const settings: LocaleSettings = {
+      locales: input.locales.map(l => ({ code: l.code, name: l.name.trim() })),
+      defaultLocale: input.defaultLocale,
+      fallbacks,
+      requiredForPublish: input.requiredForPublish || [],
+      glossary: [...new Set((input.glossary || []).map(term => term.trim()).filter(Boolean))],
+      updatedAt: new Date().toISOString(),
+      ...(userId && { updatedBy: userId }),
+    };
+
+    await this.settingsRepo.save(tenantId, settings);
+    return { success: true, data: settings };
+  }
+
+  /**
+   * Get the translations a tenant requires before a product is published,
+   * for passing to WorkflowStateManager state transitions
+   */
+  async getPublishRequirement(tenantId: string): Promise<TranslationRequirement | undefined> {
+    const settings = await this.getSettings(tenantId);
+    const enabled = settings.locales.map(l => l.code);
+    const locales = (settings.requiredForPublish || []).filter(code => enabled.includes(code));
+    return locales.length > 0 ? { locales, settings } : undefined;
+  }
+}
+
+export const localeService = new LocaleService();
@@ -0,0 +1,65 @@
+import { create } from 'zustand';
+import type { LocaleSettings, UpdateLocaleSettingsInput } from '@/types/locale';
+import { DEFAULT_LOCALE_SETTINGS } from '@/types/locale';
+
+interface LocaleState {
+  settings: LocaleSettings; // Defaults until the tenant's settings are loaded
+  isLoaded: boolean;
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  fetchSettings: () => Promise<void>;
+  ensureLoaded: () => Promise<void>; // Fetches once; safe to call from every component that needs locales
+  updateSettings: (input: UpdateLocaleSettingsInput) => Promise<LocaleSettings>;
+}
+
+function buildHeaders(): Record<string, string> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  const token = typeof window !== 'undefined' ? localStorage.getItem('accessToken') : null;
+  if (token) headers['Authorization'] = `Bearer ${token}`;
+  return headers;
+}
+
+async function request<T>(url: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(url, { ...init, headers: buildHeaders() });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok || !data.success) {
+    const details = Array.isArray(data.details) && data.details.length > 0 ? `: ${data.details.join('; ')}` : '';
+    throw new Error((data.error || `Request failed: ${response.status} ${response.statusText}`) + details);
+  }
+  return data.data as T;
+}
+
+export const useLocaleStore = create<LocaleState>((set, get) => ({
+  settings: DEFAULT_LOCALE_SETTINGS,
+  isLoaded: false,
+  isLoading: false,
+  error: null,
+
+  fetchSettings: async () => {
+    set({ isLoading: true, error: null });
+    try {
+      const settings = await request<LocaleSettings>('/api/settings/locales');
+      set({ settings, isLoaded: true, isLoading: false });
+    } catch (error) {
+      console.error('Error fetching locale settings:', error);
+      set({ error: (error as Error).message, isLoading: false });
+    }
+  },
+
+  ensureLoaded: async () => {
+    const { isLoaded, isLoading, error, fetchSettings } = get();
+    if (isLoaded || isLoading || error) return;
+    await fetchSettings();
+  },
+
+  updateSettings: async (input) => {
+    const settings = await request<LocaleSettings>('/api/settings/locales', {
+      method: 'PUT',
+      body: JSON.stringify(input),
+    });
+    set({ settings, isLoaded: true });
+    return settings;
+  },
+}));
@@ -0,0 +1,149 @@
+/**
+ * Locales
+ *
+ * Request schema for a tenant's locale settings, and pure helpers for reading
+ * multilingual values through the configured fallback chain.
+ */
+
+import { z } from 'zod';
+import type { LocaleSettings, UpdateLocaleSettingsInput } from '@/types/locale';
+import { DEFAULT_LOCALE_SETTINGS, KNOWN_LOCALES } from '@/types/locale';
+import type { MultilingualString } from '@/types/product';
+
+export const LOCALE_CODE_PATTERN = /^[a-z]{2,3}(-[A-Z]{2})?$/;
+
+/**
+ * Request schema for updating locale settings
+ */
+export const localeSettingsSchema = z.object({
+  locales: z.array(z.object({
+    code: z.string().min(1),
+    name: z.string().min(1),
+  })).min(1),
+  defaultLocale: z.string().min(1),
+  fallbacks: z.record(z.array(z.string())).optional(),
+  requiredForPublish: z.array(z.string()).optional(),
+  glossary: z.array(z.string().max(200)).max(1000).optional(),
+});
+
+/**
+ * Validate locale settings before they are saved
+ */
+export function validateLocaleSettings(settings: UpdateLocaleSettingsInput): string[] {
+  const errors: string[] = [];
+  const codes = settings.locales.map(l => l.code);
+
+  if (codes.length === 0) {
+    errors.push('At least one locale must be enabled');
+  }
+  for (const locale of settings.locales) {
+    if (!LOCALE_CODE_PATTERN.test(locale.code)) {
+      errors.push(`Invalid locale code "${locale.code}" (use e.g. "sv" or "de-AT")`);
+    }
+    if (!locale.name || locale.name.trim() === '') {
+      errors.push(`Locale "${locale.code}" needs a display name`);
+    }
+  }
+  const duplicates = codes.filter((code, index) => codes.indexOf(code) !== index);
+  if (duplicates.length > 0) {
+    errors.push(`Duplicate locales: ${[...new Set(duplicates)].join(', ')}`);
+  }
+  if (!codes.includes(settings.defaultLocale)) {
+    errors.push(`Default locale "${settings.defaultLocale}" must be enabled`);
+  }
+  for (const [locale, chain] of Object.entries(settings.fallbacks || {})) {
+    if (!codes.includes(locale)) {
+      errors.push(`Fallbacks are set for "${locale}", which is not enabled`);
+      continue;
+    }
+    for (const target of chain) {
+      if (target === locale) {
+        errors.push(`Locale "${locale}" cannot fall back to itself`);
+      } else if (!codes.includes(target)) {
+        errors.push(`Locale "${locale}" falls back to "${target}", which is not enabled`);
+      }
+    }
+  }
+  for (const locale of settings.requiredForPublish || []) {
+    if (!codes.includes(locale)) {
+      errors.push(`Locale "${locale}" is required for publishing but not enabled`);
+    } else if (locale === settings.defaultLocale) {
+      errors.push(`The default locale "${locale}" is the translation source and cannot be required for publishing`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * Get the codes of the enabled locales, in display order
+ */
+export function getLocaleCodes(settings: LocaleSettings = DEFAULT_LOCALE_SETTINGS): string[] {
+  return settings.locales.map(l => l.code);
+}
+
+/**
+ * Get the display name of a locale
+ */
+export function getLocaleName(code: string, settings: LocaleSettings = DEFAULT_LOCALE_SETTINGS): string {
+  const locale = settings.locales.find(l => l.code === code) || KNOWN_LOCALES.find(l => l.code === code);
+  return locale?.name || code.toUpperCase();
+}
+
+/**
+ * Get the locales to read a value from, in order: the locale itself, its
+ * configured fallbacks, then the default locale
+ */
+export function getFallbackChain(locale: string, settings: LocaleSettings = DEFAULT_LOCALE_SETTINGS): string[] {
+  const chain = [locale, ...(settings.fallbacks[locale] || []), settings.defaultLocale];
+  return chain.filter((code, index) => chain.indexOf(code) === index);
+}
+
+function hasText(text: unknown): text is string {
+  return typeof text === 'string' && text.trim() !== '';
+}
+
+/**
+ * Read a multilingual value in a locale, following the fallback chain. When
+ * the chain has no text, any other enabled locale with text is used, so a
+ * value is never shown as empty while a translation exists.
+ */
+export function resolveLocalizedText(
+  value: Partial<MultilingualString> | undefined,
+  locale: string,
+  settings: LocaleSettings = DEFAULT_LOCALE_SETTINGS
+): string {
+  if (!value) return '';
+  for (const code of [...getFallbackChain(locale, settings), ...getLocaleCodes(settings)]) {
+    if (hasText(value[code])) return value[code] as string;
+  }
+  return Object.values(value).find(hasText) || '';
+}
+
+/**
+ * Check whether a multilingual value has text in any locale
+ */
+export function hasLocalizedText(value: Partial<MultilingualString> | undefined): boolean {
+  return !!value && Object.values(value).some(hasText);
+}
+
+/**
+ * List the enabled locales a multilingual value has no text for
+ */
+export function getMissingLocales(
+  value: Partial<MultilingualString> | undefined,
+  settings: LocaleSettings = DEFAULT_LOCALE_SETTINGS
+): string[] {
+  return getLocaleCodes(settings).filter(code => !hasText(value?.[code]));
+}
+
+/**
+ * Build a MultilingualString from form or import data, keeping every locale
+ * present (not just the enabled ones, so disabling a locale loses no text)
+ */
+export function toMultilingualString(value: Record<string, string | undefined> | undefined): MultilingualString {
+  const result: MultilingualString = { en: '', no: '' };
+  for (const [code, text] of Object.entries(value || {})) {
+    result[code] = text || '';
+  }
+  return result;
+}
@@ -0,0 +1,98 @@
+/**
+ * Machine Translation
+ *
+ * Helpers around the translation flow. Markup and glossary terms are swapped
+ * for numbered placeholders before text is sent to the model and put back
+ * afterwards, so HTML, markdown link targets, code and protected terms come
+ * back exactly as written.
+ */
+
+import { z } from 'zod';
+import type { TranslatableField } from '@/types/translation';
+import { TRANSLATABLE_FIELDS } from '@/types/translation';
+
+/**
+ * Request schema for machine-translating a selection of products
+ */
+export const machineTranslationSchema = z.object({
+  productIds: z.array(z.string().min(1)).min(1).max(200),
+  targetLocales: z.array(z.string().min(1)).optional(), // Defaults to every non-default locale
+  fields: z.array(z.enum(TRANSLATABLE_FIELDS as [TranslatableField, ...TranslatableField[]])).optional(),
+  overwrite: z.boolean().optional(), // Replace existing translations instead of only filling empty ones
+});
+
+export type MachineTranslationInput = z.infer<typeof machineTranslationSchema>;
+
+export interface ProtectedText {
+  text: string; // Text with placeholders
+  tokens: string[]; // Original content of each placeholder, by index
+}
+
+// Markup that must survive translation unchanged
+const MARKUP_PATTERNS = [
+  /<!--[\s\S]*?-->/, // HTML comments
+  /<\/?[a-zA-Z][^<>]*>/, // HTML tags
+  /&(?:[a-zA-Z]+|#\d+|#x[0-9a-fA-F]+);/, // HTML entities
+  /```[\s\S]*?```/, // Fenced code blocks
+  /`[^`\n]+`/, // Inline code
+  /\]\([^)\s]+(?:\s+"[^"]*")?\)/, // Markdown link and image targets
+  /https?:\/\/[^\s<>()"']+/, // Bare URLs
+];
+
+const PLACEHOLDER_PATTERN = /\[\[(\d+)\]\]/g;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Word boundaries only make sense next to word characters
+function termPattern(term: string): string {
+  const start = /^\w/.test(term) ? '\\b' : '';
+  const end = /\w$/.test(term) ? '\\b' : '';
+  return `${start}${escapeRegExp(term)}${end}`;
+}
+
+/**
+ * Get the terms to protect when translating a product: the tenant glossary
+ * plus the product's own SKU and brand
+ */
+export function getProtectedTerms(glossary: string[] = [], basicInfo?: { sku?: string; brand?: string }): string[] {
+  const terms = [...glossary, basicInfo?.sku, basicInfo?.brand]
+    .map(term => (term || '').trim())
+    .filter(Boolean);
+  return [...new Set(terms)];
+}
+
+/**
+ * Replace markup and glossary terms with numbered placeholders ([[0]], [[1]], ...)
+ */
+export function protectText(text: string, terms: string[] = []): ProtectedText {
+  // Longer terms first, so "Acme Pro" wins over "Acme"
+  const sortedTerms = [...terms].sort((a, b) => b.length - a.length);
+  const sources = [
+    ...MARKUP_PATTERNS.map(pattern => pattern.source),
+    ...sortedTerms.map(termPattern),
+  ];
+  const pattern = new RegExp(sources.map(source => `(?:${source})`).join('|'), 'g');
+
+  const tokens: string[] = [];
+  const protectedText = text.replace(pattern, match => {
+    tokens.push(match);
+    return `[[${tokens.length - 1}]]`;
+  });
+  return { text: protectedText, tokens };
+}
+
+/**
+ * Put the protected content back into translated text. Placeholders the
+ * translation dropped are reported as missing.
+ */
+export function restoreText(translated: string, tokens: string[]): { text: string; missing: string[] } {
+  const seen = new Set<number>();
+  const text = translated.replace(PLACEHOLDER_PATTERN, (match, index) => {
+    const token = tokens[Number(index)];
+    if (token === undefined) return match;
+    seen.add(Number(index));
+    return token;
+  });
+  const missing = tokens.filter((_, index) => !seen.has(index));
+  return { text, missing };
+}
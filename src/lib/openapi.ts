@@ -0,0 +1,305 @@
+/**
+ * OpenAPI
+ *
+ * Builds OpenAPI 3.1 documents from the zod schemas routes validate with,
+ * so the published spec cannot drift from what the API accepts. Covers the
+ * zod types the API schemas use; refinements and transforms are documented
+ * by their input schema.
+ */
+
+import { z, type ZodTypeAny } from 'zod';
+
+export type JsonSchema = Record<string, unknown>;
+
+export type HttpMethod = 'get' | 'post' | 'put' | 'patch' | 'delete';
+
+export interface OpenApiResponse {
+  description: string;
+  schema?: ZodTypeAny;
+}
+
+export interface OpenApiOperation {
+  method: HttpMethod;
+  path: string; // OpenAPI path template, e.g. /products/{id}
+  operationId: string;
+  summary: string;
+  description?: string;
+  tags?: string[];
+  security?: Array<Record<string, string[]>>;
+  params?: z.AnyZodObject;
+  query?: z.AnyZodObject;
+  body?: ZodTypeAny;
+  responses: Record<number, OpenApiResponse>;
+}
+
+export interface OpenApiDocumentOptions {
+  info: { title: string; version: string; description?: string };
+  servers?: Array<{ url: string; description?: string }>;
+  // Named schemas, emitted under components.schemas and referenced by $ref
+  schemas?: Record<string, ZodTypeAny>;
+  securitySchemes?: Record<string, JsonSchema>;
+  operations: OpenApiOperation[];
+}
+
+/**
+ * Convert a zod schema to a JSON Schema (2020-12, as used by OpenAPI 3.1).
+ * Schemas found in `refs` are emitted as $ref to their component.
+ */
+export function zodToJsonSchema(schema: ZodTypeAny, refs: Map<ZodTypeAny, string> = new Map()): JsonSchema {
+  return convert(schema, refs, true);
+}
+
+function convert(schema: ZodTypeAny, refs: Map<ZodTypeAny, string>, isRoot = false): JsonSchema {
+  const ref = refs.get(schema);
+  if (ref && !isRoot) {
+    return { $ref: `#/components/schemas/${ref}` };
+  }
+
+  const result = convertType(schema, refs);
+  if (schema.description && !result.description) {
+    result.description = schema.description;
+  }
+  return result;
+}
+
+function convertType(schema: ZodTypeAny, refs: Map<ZodTypeAny, string>): JsonSchema {
+  const def = schema._def;
+
+  switch (def.typeName) {
+    case z.ZodFirstPartyTypeKind.ZodString:
+      return convertString(schema as z.ZodString);
+
+    case z.ZodFirstPartyTypeKind.ZodNumber:
+      return convertNumber(schema as z.ZodNumber);
+
+    case z.ZodFirstPartyTypeKind.ZodBoolean:
+      return { type: 'boolean' };
+
+    case z.ZodFirstPartyTypeKind.ZodDate:
+      return { type: 'string', format: 'date-time' };
+
+    case z.ZodFirstPartyTypeKind.ZodNull:
+      return { type: 'null' };
+
+    case z.ZodFirstPartyTypeKind.ZodLiteral: {
+      const value = def.value;
+      return value === null ? { type: 'null' } : { type: typeof value, const: value };
+    }
+
+    case z.ZodFirstPartyTypeKind.ZodEnum:
+      return { type: 'string', enum: [...def.values] };
+
+    case z.ZodFirstPartyTypeKind.ZodNativeEnum: {
+      // Numeric enums map values back to names; keep only the values
+      const values = z.util.getValidEnumValues(def.values) as Array<string | number>;
+      const types = Array.from(new Set(values.map(value => (typeof value === 'number' ? 'number' : 'string'))));
+      return { type: types.length === 1 ? types[0] : types, enum: values };
+    }
+
+    case z.ZodFirstPartyTypeKind.ZodArray: {
+      const result: JsonSchema = { type: 'array', items: convert(def.type, refs) };
+      if (def.minLength) result.minItems = def.minLength.value;
+      if (def.maxLength) result.maxItems = def.maxLength.value;
+      if (def.exactLength) {
+        result.minItems = def.exactLength.value;
+        result.maxItems = def.exactLength.value;
+      }
+      return result;
+    }
+
+    case z.ZodFirstPartyTypeKind.ZodTuple:
+      return {
+        type: 'array',
+        prefixItems: (def.items as ZodTypeAny[]).map(item => convert(item, refs)),
+        ...(def.rest ? { items: convert(def.rest, refs) } : { items: false }),
+      };
+
+    case z.ZodFirstPartyTypeKind.ZodObject:
+      return convertObject(schema as z.AnyZodObject, refs);
+
+    case z.ZodFirstPartyTypeKind.ZodRecord: {
+      const result: JsonSchema = { type: 'object', additionalProperties: convert(def.valueType, refs) };
+      const keySchema = convert(def.keyType, refs);
+      if (Object.keys(keySchema).some(key => key !== 'type')) {
+        result.propertyNames = keySchema;
+      }
+      return result;
+    }
+
+    case z.ZodFirstPartyTypeKind.ZodUnion:
+      return { anyOf: (def.options as ZodTypeAny[]).map(option => convert(option, refs)) };
+
+    case z.ZodFirstPartyTypeKind.ZodDiscriminatedUnion:
+      return {
+        oneOf: (Array.from(def.options) as ZodTypeAny[]).map(option => convert(option, refs)),
+        discriminator: { propertyName: def.discriminator },
+      };
+
+    case z.ZodFirstPartyTypeKind.ZodIntersection:
+      return { allOf: [convert(def.left, refs), convert(def.right, refs)] };
+
+    case z.ZodFirstPartyTypeKind.ZodOptional:
+      return convert(def.innerType, refs);
+
+    case z.ZodFirstPartyTypeKind.ZodNullable: {
+      const inner = convert(def.innerType, refs);
+      if (typeof inner.type === 'string' && !inner.$ref) {
+        return { ...inner, type: [inner.type, 'null'], ...(inner.enum ? { enum: [...(inner.enum as unknown[]), null] } : {}) };
+      }
+      return { anyOf: [inner, { type: 'null' }] };
+    }
+
+    case z.ZodFirstPartyTypeKind.ZodDefault:
+      return { ...convert(def.innerType, refs), default: def.defaultValue() };
+
+    case z.ZodFirstPartyTypeKind.ZodCatch:
+    case z.ZodFirstPartyTypeKind.ZodReadonly:
+    case z.ZodFirstPartyTypeKind.ZodBranded:
+      return convert(def.innerType ?? def.type, refs);
+
+    case z.ZodFirstPartyTypeKind.ZodEffects:
+      return convert(def.schema, refs);
+
+    case z.ZodFirstPartyTypeKind.ZodPipeline:
+      return convert(def.in, refs);
+
+    case z.ZodFirstPartyTypeKind.ZodLazy:
+      return convert(def.getter(), refs);
+
+    default:
+      // z.any(), z.unknown() and anything without a JSON Schema equivalent
+      return {};
+  }
+}
+
+function convertString(schema: z.ZodString): JsonSchema {
+  const result: JsonSchema = { type: 'string' };
+  for (const check of schema._def.checks) {
+    switch (check.kind) {
+      case 'min': result.minLength = check.value; break;
+      case 'max': result.maxLength = check.value; break;
+      case 'length': result.minLength = check.value; result.maxLength = check.value; break;
+      case 'email': result.format = 'email'; break;
+      case 'url': result.format = 'uri'; break;
+      case 'uuid': result.format = 'uuid'; break;
+      case 'datetime': result.format = 'date-time'; break;
+      case 'date': result.format = 'date'; break;
+      case 'regex': result.pattern = check.regex.source; break;
+    }
+  }
+  return result;
+}
+
+function convertNumber(schema: z.ZodNumber): JsonSchema {
+  const result: JsonSchema = { type: 'number' };
+  for (const check of schema._def.checks) {
+    switch (check.kind) {
+      case 'int': result.type = 'integer'; break;
+      case 'min':
+        if (check.inclusive) result.minimum = check.value;
+        else result.exclusiveMinimum = check.value;
+        break;
+      case 'max':
+        if (check.inclusive) result.maximum = check.value;
+        else result.exclusiveMaximum = check.value;
+        break;
+      case 'multipleOf': result.multipleOf = check.value; break;
+    }
+  }
+  return result;
+}
+
+function convertObject(schema: z.AnyZodObject, refs: Map<ZodTypeAny, string>): JsonSchema {
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+  for (const [key, value] of Object.entries(schema.shape as Record<string, ZodTypeAny>)) {
+    properties[key] = convert(value, refs);
+    if (!value.isOptional()) required.push(key);
+  }
+
+  const result: JsonSchema = { type: 'object', properties };
+  if (required.length > 0) result.required = required;
+
+  const catchall = schema._def.catchall as ZodTypeAny;
+  if (catchall && !(catchall instanceof z.ZodNever)) {
+    result.additionalProperties = convert(catchall, refs);
+  } else if (schema._def.unknownKeys === 'strict') {
+    result.additionalProperties = false;
+  }
+  return result;
+}
+
+/**
+ * Path or query parameters from the fields of an object schema
+ */
+function toParameters(schema: z.AnyZodObject, location: 'path' | 'query', refs: Map<ZodTypeAny, string>): JsonSchema[] {
+  return Object.entries(schema.shape as Record<string, ZodTypeAny>).map(([name, value]) => {
+    const parameter: JsonSchema = {
+      name,
+      in: location,
+      required: location === 'path' || !value.isOptional(),
+      schema: convert(value, refs),
+    };
+    if (value.description) parameter.description = value.description;
+    return parameter;
+  });
+}
+
+/**
+ * Build an OpenAPI 3.1 document
+ */
+export function createOpenApiDocument(options: OpenApiDocumentOptions): JsonSchema {
+  const refs = new Map<ZodTypeAny, string>();
+  for (const [name, schema] of Object.entries(options.schemas || {})) {
+    refs.set(schema, name);
+  }
+
+  const paths: Record<string, Record<string, JsonSchema>> = {};
+  for (const operation of options.operations) {
+    const parameters = [
+      ...(operation.params ? toParameters(operation.params, 'path', refs) : []),
+      ...(operation.query ? toParameters(operation.query, 'query', refs) : []),
+    ];
+
+    const responses: Record<string, JsonSchema> = {};
+    for (const [status, response] of Object.entries(operation.responses)) {
+      responses[status] = response.schema
+        ? { description: response.description, content: { 'application/json': { schema: convert(response.schema, refs) } } }
+        : { description: response.description };
+    }
+
+    const entry: JsonSchema = {
+      operationId: operation.operationId,
+      summary: operation.summary,
+      ...(operation.description ? { description: operation.description } : {}),
+      ...(operation.tags ? { tags: operation.tags } : {}),
+      ...(operation.security ? { security: operation.security } : {}),
+      ...(parameters.length > 0 ? { parameters } : {}),
+      ...(operation.body ? {
+        requestBody: {
+          required: true,
+          content: { 'application/json': { schema: convert(operation.body, refs) } },
+        },
+      } : {}),
+      responses,
+    };
+
+    paths[operation.path] = { ...paths[operation.path], [operation.method]: entry };
+  }
+
+  const schemas: Record<string, JsonSchema> = {};
+  for (const [name, schema] of Object.entries(options.schemas || {})) {
+    schemas[name] = convert(schema, refs, true);
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: options.info,
+    ...(options.servers ? { servers: options.servers } : {}),
+    paths,
+    components: {
+      schemas,
+      ...(options.securitySchemes ? { securitySchemes: options.securitySchemes } : {}),
+    },
+  };
+}
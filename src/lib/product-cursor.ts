@@ -0,0 +1,63 @@
+/**
+ * Product Cursors
+ *
+ * Opaque cursors for paging through GET /api/products. Listing pages follow
+ * the database order (last updated first, then ID), so a cursor holds the
+ * sort key of the last product on the page and stays valid while products
+ * are added or edited. Search pages follow the ranking, so a cursor holds an
+ * offset into the ranked matches.
+ *
+ * Cursors also carry a fingerprint of the filters they were made for; using
+ * one with other filters is rejected rather than silently skipping products.
+ */
+
+import { z } from 'zod';
+
+export interface ProductListFilter {
+  workflowState?: string;
+  assignedReviewerId?: string;
+  search?: string;
+}
+
+const cursorSchema = z.discriminatedUnion('kind', [
+  // position: products on earlier pages, for estimating totals
+  z.object({ kind: z.literal('list'), filter: z.string(), updatedAt: z.string(), id: z.string(), position: z.number().int().min(0) }),
+  z.object({ kind: z.literal('search'), filter: z.string(), offset: z.number().int().min(0) }),
+]);
+
+export type ProductCursor = z.infer<typeof cursorSchema>;
+
+export class InvalidCursorError extends Error {
+  constructor(message: string = 'Invalid or expired cursor') {
+    super(message);
+    this.name = 'InvalidCursorError';
+  }
+}
+
+/**
+ * Stable fingerprint of the filters a cursor belongs to
+ */
+export function getFilterFingerprint(filter: ProductListFilter): string {
+  return JSON.stringify([filter.workflowState || '', filter.assignedReviewerId || '', filter.search?.trim() || '']);
+}
+
+export function encodeProductCursor(cursor: ProductCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+/**
+ * Decode a cursor and check it was made for the same filters.
+ * Throws InvalidCursorError otherwise.
+ */
+export function decodeProductCursor(value: string, filter: ProductListFilter): ProductCursor {
+  let cursor: ProductCursor;
+  try {
+    cursor = cursorSchema.parse(JSON.parse(Buffer.from(value, 'base64url').toString()));
+  } catch {
+    throw new InvalidCursorError();
+  }
+  if (cursor.filter !== getFilterFingerprint(filter)) {
+    throw new InvalidCursorError('Cursor was made for different filters');
+  }
+  return cursor;
+}
@@ -0,0 +1,61 @@
+/**
+ * Product Facet Service
+ *
+ * Faceted browsing over the full catalog: takes every product (or every
+ * search match) from the product search index, counts the facet values and
+ * returns one page of the products matching the selection.
+ */
+
+import type { ProductFacetResult, ProductFacetSelection } from '@/types/facet';
+import type { Product } from '@/types/product';
+import type { ProductSort } from '@/types/product-view';
+import { attributeFamilyService, AttributeFamilyService } from './attribute-family-service';
+import { findFamilyForProduct } from './attribute-validation';
+import { categoryService, CategoryService } from './category-service';
+import { aggregateProductFacets } from './product-facets';
+import { calculateCompletenessScore } from './product-quality';
+import { productService, ProductService } from './product-service';
+import { sortProducts } from './product-views';
+
+export class ProductFacetService {
+  constructor(
+    private products: ProductService = productService,
+    private categories: CategoryService = categoryService,
+    private families: AttributeFamilyService = attributeFamilyService
+  ) { }
+
+  /**
+   * Count facet values and page through the products matching a selection.
+   * With a search query, only search matches are counted and they stay in
+   * ranked order unless a sort is given.
+   */
+  async browse(
+    selection: ProductFacetSelection,
+    options: { search?: string; sort?: ProductSort; page?: number; limit?: number } = {}
+  ): Promise<ProductFacetResult> {
+    const { search, sort, page = 1, limit = 100 } = options;
+    const [products, resolveCategoryNames, families] = await Promise.all([
+      search?.trim() ? this.products.searchAllProducts(search) : this.getAllByLatestUpdate(),
+      this.categories.getNameResolver({ fullPath: true }),
+      this.families.listFamilies(),
+    ]);
+
+    const getQualityScore = (product: Product) => product.qualityMetrics?.completenessScore
+      ?? calculateCompletenessScore(product, undefined, findFamilyForProduct(families, product));
+    const { facets, matching } = aggregateProductFacets(products, selection, {
+      getCategoryName: id => resolveCategoryNames([id])[0] || id,
+      getQualityScore,
+    });
+    const sorted = sort ? sortProducts(matching, sort, getQualityScore) : matching;
+    const start = (page - 1) * limit;
+
+    return { facets, products: sorted.slice(start, start + limit), total: matching.length };
+  }
+
+  private async getAllByLatestUpdate(): Promise<Product[]> {
+    const products = await this.products.getIndexedProducts();
+    return products.sort((a, b) => (b.updatedAt || '').localeCompare(a.updatedAt || ''));
+  }
+}
+
+export const productFacetService = new ProductFacetService();
@@ -0,0 +1,109 @@
+import { create } from 'zustand';
+import type { Product } from '@/types/product';
+import type { ProductFacet, ProductFacetSelection } from '@/types/facet';
+import type { ProductSort } from '@/types/product-view';
+import { toFacetSearchParams } from './product-facets';
+import { formatProductSort } from './product-views';
+
+interface ProductFacetState {
+  facets: ProductFacet[];
+  products: Product[]; // Pages loaded so far of the products matching the selection
+  total: number;
+  page: number; // Last page loaded
+  hasNext: boolean;
+  queryKey: string | null; // Selection, search and sort the results were loaded for
+  isLoading: boolean;
+  isLoadingMore: boolean;
+  error: string | null;
+
+  // Actions
+  fetchFacets: (selection: ProductFacetSelection, search?: string, sort?: ProductSort) => Promise<void>;
+  fetchMoreFacetProducts: () => Promise<void>;
+}
+
+interface ProductFacetResponse {
+  facets: ProductFacet[];
+  products: Product[];
+  pagination: { page: number; total: number; hasNext: boolean };
+}
+
+function buildHeaders(): Record<string, string> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  const token = typeof window !== 'undefined' ? localStorage.getItem('accessToken') : null;
+  if (token) headers['Authorization'] = `Bearer ${token}`;
+  return headers;
+}
+
+async function request<T>(url: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(url, { ...init, headers: buildHeaders() });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok || !data.success) {
+    const details = Array.isArray(data.details) && data.details.length > 0 ? `: ${data.details.join('; ')}` : '';
+    throw new Error((data.error || `Request failed: ${response.status} ${response.statusText}`) + details);
+  }
+  return data.data as T;
+}
+
+export const useProductFacetStore = create<ProductFacetState>((set, get) => ({
+  facets: [],
+  products: [],
+  total: 0,
+  page: 1,
+  hasNext: false,
+  queryKey: null,
+  isLoading: false,
+  isLoadingMore: false,
+  error: null,
+
+  fetchFacets: async (selection, search, sort) => {
+    const params = toFacetSearchParams(selection);
+    if (search?.trim()) params.set('search', search.trim());
+    if (sort) params.set('sort', formatProductSort(sort));
+    const queryKey = params.toString();
+
+    set({ isLoading: true, error: null, queryKey });
+    try {
+      const data = await request<ProductFacetResponse>(`/api/products/facets?${queryKey}`);
+      // Ignore responses for a selection the user has already changed
+      if (get().queryKey === queryKey) {
+        set({
+          facets: data.facets,
+          products: data.products,
+          total: data.pagination.total,
+          page: data.pagination.page,
+          hasNext: data.pagination.hasNext,
+          isLoading: false,
+        });
+      }
+    } catch (error) {
+      console.error('Error fetching product facets:', error);
+      if (get().queryKey === queryKey) set({ error: (error as Error).message, isLoading: false });
+    }
+  },
+
+  fetchMoreFacetProducts: async () => {
+    const { queryKey, page, hasNext, isLoading, isLoadingMore } = get();
+    if (queryKey === null || !hasNext || isLoading || isLoadingMore) return;
+
+    const params = new URLSearchParams(queryKey);
+    params.set('page', String(page + 1));
+    set({ isLoadingMore: true });
+    try {
+      const data = await request<ProductFacetResponse>(`/api/products/facets?${params}`);
+      if (get().queryKey !== queryKey) {
+        set({ isLoadingMore: false });
+        return;
+      }
+      set(state => ({
+        products: [...state.products, ...data.products],
+        total: data.pagination.total,
+        page: data.pagination.page,
+        hasNext: data.pagination.hasNext,
+        isLoadingMore: false,
+      }));
+    } catch (error) {
+      console.error('Error fetching more facet products:', error);
+      set({ error: (error as Error).message, isLoadingMore: false });
+    }
+  },
+}));
@@ -0,0 +1,197 @@
+/**
+ * Product Facets
+ *
+ * Pure helpers for faceted browsing: reading a product's facet values,
+ * matching products against a facet selection and counting, per facet value,
+ * how many products would match if that value were selected too. Counts for
+ * a facet ignore that facet's own selection, so alternatives within a facet
+ * keep their counts while other facets narrow them.
+ */
+
+import { z } from 'zod';
+import type { Product } from '@/types/product';
+import type { ProductFacet, ProductFacetKey, ProductFacetSelection, QualityBand } from '@/types/facet';
+import { FACET_NONE, PRODUCT_FACET_KEYS, PRODUCT_FACET_LABELS, QUALITY_BAND_LABELS } from '@/types/facet';
+import { WorkflowState } from '@/types/workflow';
+
+/**
+ * What facet values need from outside the product
+ */
+export interface ProductFacetContext {
+  getCategoryName: (id: string) => string;
+  getQualityScore: (product: Product) => number;
+}
+
+// Comma-separated list with each value URI-encoded, so values may contain commas
+const facetValueList = z.string().optional().transform(value =>
+  value ? value.split(',').filter(Boolean).map(decodeURIComponent) : undefined
+);
+
+/**
+ * Query schema for the facet API: the selection, an optional search, a sort
+ * ("field:direction") and a page
+ */
+export const productFacetQuerySchema = z.object({
+  brand: facetValueList,
+  category: facetValueList,
+  status: facetValueList,
+  workflowState: facetValueList,
+  reviewer: facetValueList,
+  qualityBand: facetValueList,
+  hasImages: facetValueList,
+  search: z.string().optional(),
+  sort: z.string().optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+/**
+ * Pick the facet selection out of a parsed facet query
+ */
+export function getFacetSelection(query: Partial<Record<ProductFacetKey, string[] | undefined>>): ProductFacetSelection {
+  const selection: ProductFacetSelection = {};
+  PRODUCT_FACET_KEYS.forEach(key => {
+    if (query[key] && query[key]!.length > 0) selection[key] = query[key];
+  });
+  return selection;
+}
+
+/**
+ * Write a facet selection as query parameters, the inverse of productFacetQuerySchema
+ */
+export function toFacetSearchParams(selection: ProductFacetSelection, params: URLSearchParams = new URLSearchParams()): URLSearchParams {
+  PRODUCT_FACET_KEYS.forEach(key => {
+    const values = selection[key];
+    if (values && values.length > 0) params.set(key, values.map(encodeURIComponent).join(','));
+    else params.delete(key);
+  });
+  return params;
+}
+
+/**
+ * Check whether a selection narrows anything
+ */
+export function hasFacetSelection(selection: ProductFacetSelection): boolean {
+  return PRODUCT_FACET_KEYS.some(key => (selection[key]?.length || 0) > 0);
+}
+
+/**
+ * Band a completeness score the way the quality badge colors it
+ */
+export function getQualityBand(score: number): QualityBand {
+  if (score > 90) return 'high';
+  if (score >= 70) return 'medium';
+  return 'low';
+}
+
+/**
+ * Get the values a product has for a facet. Products without a brand,
+ * category or reviewer get FACET_NONE, so they can be found too.
+ */
+export function getProductFacetValues(product: Product, key: ProductFacetKey, context: ProductFacetContext): string[] {
+  switch (key) {
+    case 'brand':
+      return [product.basicInfo.brand?.trim() || FACET_NONE];
+    case 'category': {
+      const categories = product.attributesAndSpecs?.categories || [];
+      return categories.length > 0 ? categories : [FACET_NONE];
+    }
+    case 'status':
+      return [product.basicInfo.status];
+    case 'workflowState':
+      return [product.workflowState || WorkflowState.DRAFT];
+    case 'reviewer':
+      return [product.assignedReviewer?.userId || FACET_NONE];
+    case 'qualityBand':
+      return [getQualityBand(context.getQualityScore(product))];
+    case 'hasImages':
+      return [(product.media?.images || []).length > 0 ? 'yes' : 'no'];
+  }
+}
+
+const FIXED_ORDER: Partial<Record<ProductFacetKey, string[]>> = {
+  status: ['development', 'active', 'inactive', 'discontinued'],
+  workflowState: Object.values(WorkflowState),
+  qualityBand: ['high', 'medium', 'low'],
+  hasImages: ['yes', 'no'],
+};
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+function getFacetValueLabel(key: ProductFacetKey, value: string, context: ProductFacetContext, reviewerNames: Map<string, string>): string {
+  if (value === FACET_NONE) {
+    return key === 'category' ? 'Uncategorized' : key === 'reviewer' ? 'Unassigned' : 'No brand';
+  }
+  switch (key) {
+    case 'category':
+      return context.getCategoryName(value);
+    case 'reviewer':
+      return reviewerNames.get(value) || value;
+    case 'qualityBand':
+      return QUALITY_BAND_LABELS[value as QualityBand] || value;
+    case 'hasImages':
+      return value === 'yes' ? 'With images' : 'Without images';
+    case 'status':
+    case 'workflowState':
+      return capitalize(value);
+    default:
+      return value;
+  }
+}
+
+type IndexedFacetValues = Record<ProductFacetKey, string[]>;
+
+const matches = (values: IndexedFacetValues, selection: ProductFacetSelection, ignore?: ProductFacetKey) =>
+  PRODUCT_FACET_KEYS.every(key => {
+    const selected = selection[key];
+    return key === ignore || !selected || selected.length === 0 || values[key].some(value => selected.includes(value));
+  });
+
+/**
+ * Filter products by a facet selection and count every facet value.
+ * Products keep their order, so ranked search results stay ranked.
+ */
+export function aggregateProductFacets(
+  products: Product[],
+  selection: ProductFacetSelection,
+  context: ProductFacetContext
+): { facets: ProductFacet[]; matching: Product[] } {
+  const indexed = products.map(product => ({
+    product,
+    values: Object.fromEntries(
+      PRODUCT_FACET_KEYS.map(key => [key, getProductFacetValues(product, key, context)])
+    ) as IndexedFacetValues,
+  }));
+  const reviewerNames = new Map(
+    products.filter(p => p.assignedReviewer).map(p => [p.assignedReviewer!.userId, p.assignedReviewer!.userName])
+  );
+
+  const facets = PRODUCT_FACET_KEYS.map(key => {
+    const counts = new Map<string, number>();
+    indexed.forEach(({ values }) => {
+      const counted = matches(values, selection, key);
+      values[key].forEach(value => counts.set(value, (counts.get(value) || 0) + (counted ? 1 : 0)));
+    });
+    (selection[key] || []).forEach(value => { if (!counts.has(value)) counts.set(value, 0); });
+
+    const order = FIXED_ORDER[key];
+    const values = [...counts.entries()]
+      .filter(([value, count]) => count > 0 || selection[key]?.includes(value))
+      .map(([value, count]) => ({
+        value,
+        label: getFacetValueLabel(key, value, context, reviewerNames),
+        count,
+        selected: !!selection[key]?.includes(value),
+      }))
+      .sort((a, b) => order
+        ? order.indexOf(a.value) - order.indexOf(b.value)
+        : b.count - a.count || a.label.localeCompare(b.label));
+
+    return { key, label: PRODUCT_FACET_LABELS[key], values };
+  });
+
+  return {
+    facets,
+    matching: indexed.filter(({ values }) => matches(values, selection)).map(({ product }) => product),
+  };
+}
@@ -0,0 +1,126 @@
+/**
+ * Product Form
+ *
+ * Mapping between products and the values of the product form, for fields
+ * the form only edits in part. Saving the form keeps what it does not show,
+ * such as the validity window the scheduler works with.
+ */
+
+import { z } from 'zod';
+import { format, parseISO } from 'date-fns';
+import { v4 as uuidv4 } from 'uuid';
+import type { KeyValueEntry, PriceEntry, ProductVariant } from '@/types/product';
+import { isScheduleEntryLive } from './scheduled-actions';
+import { parseQuantity } from './units-of-measure';
+
+const quantityValueSchema = z.object({
+  value: z.number(),
+  unit: z.string().optional(),
+  normalized: z.object({ value: z.number(), unit: z.string() }).optional(),
+});
+
+export const keyValueEntrySchema = z.object({
+  id: z.string(),
+  key: z.string().min(1, "Key cannot be empty"),
+  value: z.string().min(1, "Value cannot be empty"),
+  quantity: quantityValueSchema.optional(),
+});
+
+export const productVariantSchema = z.object({
+  id: z.string(),
+  sku: z.string().min(1, "Variant SKU is required."),
+  gtin: z.string().optional(),
+  optionValues: z.record(z.string()),
+  standardPriceAmount: z.preprocess(
+    (val) => (String(val).trim() === "" || val === null || val === undefined ? undefined : val),
+    z.coerce.number({ invalid_type_error: "Price must be a number" }).min(0, "Price cannot be negative").optional().nullable()
+  ),
+  standardPriceCurrency: z.string().length(3, "Currency code must be 3 letters").optional().default("NOK"),
+  salePriceAmount: z.preprocess(
+    (val) => (String(val).trim() === "" || val === null || val === undefined ? undefined : val),
+    z.coerce.number({ invalid_type_error: "Sale price must be a number" }).min(0, "Sale price cannot be negative").optional().nullable()
+  ),
+  salePriceCurrency: z.string().length(3, "Currency code must be 3 letters").optional().default("NOK"),
+  weight: quantityValueSchema.optional(),
+});
+
+export type ProductVariantFormValues = z.infer<typeof productVariantSchema>;
+
+/**
+ * The price entries to save for one of the form's price fields, which edit
+ * the first entry's amount and currency. When both are unchanged the entry
+ * is kept as it is: its ID, which scheduled actions are recorded against,
+ * its validity window and whether the scheduler has it in effect.
+ */
+export function toFormPriceEntries(
+  existing: PriceEntry[] | undefined,
+  amount: number | null | undefined,
+  currency: string | undefined
+): PriceEntry[] {
+  if (amount === undefined || amount === null) return [];
+  const price = { amount: Number(amount), currency: currency || 'NOK' };
+  const current = existing?.[0];
+  if (current && current.amount === price.amount && current.currency === price.currency) return [current];
+  return [{ id: uuidv4(), ...price }];
+}
+
+/**
+ * The validity window of a price entry as the form shows it, or undefined
+ * when it has none
+ */
+export function describePriceValidity(entry: PriceEntry | undefined): string | undefined {
+  if (!entry || (!entry.validFrom && !entry.validTo)) return undefined;
+  const date = (value: string) => format(parseISO(value), 'd MMM yyyy HH:mm');
+  const window = entry.validFrom && entry.validTo
+    ? `Valid ${date(entry.validFrom)} – ${date(entry.validTo)}`
+    : entry.validFrom ? `Valid from ${date(entry.validFrom)}` : `Valid until ${date(entry.validTo!)}`;
+  return `${window} (${isScheduleEntryLive(entry) ? 'in effect' : 'not in effect'})`;
+}
+
+/**
+ * The technical specs to save. A spec keeps its parsed quantity while its
+ * value is the one it was loaded with; an edited value is parsed again.
+ */
+export function toSpecEntries(entries: KeyValueEntry[], existing: KeyValueEntry[] | undefined): KeyValueEntry[] {
+  return entries.map(({ quantity, ...entry }) => {
+    const loaded = existing?.find(e => e.id === entry.id);
+    const parsed = quantity && loaded?.value === entry.value ? quantity : parseQuantity(entry.value);
+    return parsed ? { ...entry, quantity: parsed } : entry;
+  });
+}
+
+/**
+ * The form values of a variant
+ */
+export function toVariantFormValues(variant: ProductVariant): ProductVariantFormValues {
+  return {
+    id: variant.id,
+    sku: variant.sku,
+    gtin: variant.gtin || '',
+    optionValues: variant.optionValues,
+    standardPriceAmount: variant.standardPrice?.[0]?.amount,
+    standardPriceCurrency: variant.standardPrice?.[0]?.currency || "NOK",
+    salePriceAmount: variant.salePrice?.[0]?.amount,
+    salePriceCurrency: variant.salePrice?.[0]?.currency || "NOK",
+    ...(variant.weight && { weight: variant.weight }),
+  };
+}
+
+/**
+ * The variant to save from its form values. Fields the form does not edit
+ * are kept from the variant as it was loaded.
+ */
+export function fromVariantFormValues(values: ProductVariantFormValues, existing: ProductVariant | undefined): ProductVariant {
+  const variant: ProductVariant = {
+    id: values.id,
+    sku: values.sku,
+    optionValues: values.optionValues,
+    standardPrice: toFormPriceEntries(existing?.standardPrice, values.standardPriceAmount, values.standardPriceCurrency),
+    salePrice: toFormPriceEntries(existing?.salePrice, values.salePriceAmount, values.salePriceCurrency),
+  };
+  if (values.gtin) variant.gtin = values.gtin;
+  if (values.weight) variant.weight = values.weight;
+  if (existing?.costPrice) variant.costPrice = existing.costPrice;
+  if (existing?.imageIds) variant.imageIds = existing.imageIds;
+  return variant;
+}
@@ -0,0 +1,135 @@
+/**
+ * Product Grid Service
+ *
+ * Saves the rows changed in the grid editor as one batch. Each row is
+ * checked against the product as stored, validated and saved on its own,
+ * so invalid rows are reported without blocking the rest. Every changed
+ * field gets its own audit entry.
+ */
+
+import type { Product } from '@/types/product';
+import type {
+  ProductGridCellError,
+  ProductGridRowChange,
+  ProductGridSaveInput,
+  ProductGridSaveResult,
+  ProductGridSavedRow,
+} from '@/types/product-grid';
+import type { UserRole } from '@/types/workflow';
+import { attributeFamilyService, AttributeFamilyService } from './attribute-family-service';
+import { AuditTrailIntegration } from './audit-trail-integration';
+import { categoryService, CategoryService } from './category-service';
+import { applyGridValues, type ProductGridContext } from './product-grid';
+import { productService, ProductService } from './product-service';
+import { RolePermissions } from './role-permissions';
+import { WorkflowStateManager } from './workflow-state-manager';
+
+// Recorded as the reason of the saved versions and audit entries
+const GRID_EDIT_REASON = 'Grid edit';
+
+/**
+ * The user saving the grid, as set by the API middleware
+ */
+export interface ProductGridActor {
+  userId: string;
+  userName?: string;
+  userRole: UserRole;
+  email?: string;
+}
+
+type RowOutcome =
+  | { saved: ProductGridSavedRow }
+  | { errors: ProductGridCellError[] };
+
+export class ProductGridService {
+  private audit: AuditTrailIntegration;
+
+  constructor(
+    private products: ProductService = productService,
+    private categories: CategoryService = categoryService,
+    private families: AttributeFamilyService = attributeFamilyService,
+    audit?: AuditTrailIntegration
+  ) {
+    this.audit = audit || new AuditTrailIntegration(new WorkflowStateManager(), new RolePermissions());
+  }
+
+  async saveRows(input: ProductGridSaveInput, actor: ProductGridActor, tenantId: string): Promise<ProductGridSaveResult> {
+    const [categories, families] = await Promise.all([
+      this.categories.listCategories(),
+      this.families.listFamilies(),
+    ]);
+    const context: ProductGridContext = { categories, families };
+    // SKUs taken by rows saved earlier in this batch
+    const batchSkus = new Map<string, string>();
+    const result: ProductGridSaveResult = { saved: [], failed: [] };
+
+    for (const row of input.rows) {
+      let outcome: RowOutcome;
+      try {
+        outcome = await this.saveRow(row, context, batchSkus, actor, tenantId);
+      } catch (error) {
+        console.error(`Grid save error for product ${row.productId}:`, error);
+        outcome = { errors: [{ message: 'Failed to save the row' }] };
+      }
+
+      if ('saved' in outcome) result.saved.push(outcome.saved);
+      else result.failed.push({ productId: row.productId, errors: outcome.errors });
+    }
+
+    return result;
+  }
+
+  private async saveRow(
+    row: ProductGridRowChange,
+    context: ProductGridContext,
+    batchSkus: Map<string, string>,
+    actor: ProductGridActor,
+    tenantId: string
+  ): Promise<RowOutcome> {
+    const existing = await this.products.getProductById(row.productId);
+    if (!existing) return { errors: [{ message: 'Product not found' }] };
+    if (row.expectedUpdatedAt && existing.updatedAt !== row.expectedUpdatedAt) {
+      return { errors: [{ message: 'The product was changed by someone else since the grid was loaded; reload to see the changes' }] };
+    }
+
+    const { product, changes, errors } = applyGridValues(existing, row.values, context);
+    if (errors.length === 0 && product.basicInfo.sku !== existing.basicInfo.sku) {
+      const skuError = await this.checkSku(product, batchSkus);
+      if (skuError) errors.push({ column: 'sku', message: skuError });
+    }
+    if (errors.length > 0) return { errors };
+    if (changes.length === 0) return { saved: { productId: existing.id, product: existing, changes } };
+
+    const updated: Product = { ...product, updatedAt: new Date().toISOString() };
+    await this.products.updateProduct(updated.id, updated, {
+      userId: actor.userId,
+      userName: actor.userName,
+      reason: GRID_EDIT_REASON,
+      tenantId,
+    });
+    batchSkus.set(updated.basicInfo.sku, updated.id);
+
+    for (const change of changes) {
+      this.audit.createProductUpdateAuditEntry(
+        actor.userId,
+        actor.userRole,
+        actor.email || '',
+        updated.id,
+        { [change.field]: change.oldValue },
+        { [change.field]: change.newValue },
+        GRID_EDIT_REASON,
+        { source: 'grid', userName: actor.userName, column: change.column }
+      );
+    }
+
+    return { saved: { productId: updated.id, product: updated, changes } };
+  }
+
+  private async checkSku(product: Product, batchSkus: Map<string, string>): Promise<string | null> {
+    const sku = product.basicInfo.sku;
+    const owner = batchSkus.get(sku) || (await this.products.getProductBySku(sku))?.id;
+    return owner && owner !== product.id ? `SKU "${sku}" is already used by another product` : null;
+  }
+}
+
+export const productGridService = new ProductGridService();
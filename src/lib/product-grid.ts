@@ -0,0 +1,539 @@
+/**
+ * Product Grid
+ *
+ * Pure helpers behind the spreadsheet-style grid editor, shared by the
+ * browser and the batch save API: reading and writing products as text
+ * cells, spreadsheet clipboard text, and the staged edits with their undo
+ * history.
+ */
+
+import { z } from 'zod';
+import { v4 as uuidv4 } from 'uuid';
+import type { AttributeDefinition, AttributeFamily, AttributeValue } from '@/types/attribute';
+import type { Category } from '@/types/category';
+import type { MultilingualString, PriceEntry, Product, ProductStatus } from '@/types/product';
+import { PRODUCT_STATUSES } from '@/types/product';
+import type {
+  ProductGridCellError,
+  ProductGridColumn,
+  ProductGridColumnKind,
+  ProductGridFieldChange,
+} from '@/types/product-grid';
+import {
+  findFamilyForProduct,
+  formatAttributeValue,
+  getAttributeLabel,
+  parseAttributeText,
+  validateAttributeValue,
+} from './attribute-validation';
+import { findCategoryByName, getCategoryDisplayName } from './category-tree';
+
+// Rows one batch save may change
+export const MAX_GRID_ROWS = 500;
+
+// Edits the grid can undo
+export const MAX_GRID_UNDO = 100;
+
+const GTIN_PATTERN = /^(\d{8}|\d{12,14})$/;
+
+/**
+ * Request schema for a batch save
+ */
+export const productGridSaveSchema = z.object({
+  rows: z.array(z.object({
+    productId: z.string().min(1),
+    expectedUpdatedAt: z.string().optional(),
+    values: z.record(z.string()),
+  })).min(1).max(MAX_GRID_ROWS),
+});
+
+/**
+ * Lookups needed to show and parse cells: category names and the attribute
+ * definitions of each product's family
+ */
+export interface ProductGridContext {
+  categories: Category[];
+  families: AttributeFamily[];
+  locale?: string; // Locale of category names and enum labels; defaults to English
+}
+
+type ProductGridColumnRef = Omit<ProductGridColumn, 'label'>;
+
+const SIMPLE_COLUMNS: ProductGridColumnKind[] = ['sku', 'gtin', 'brand', 'status', 'categories'];
+
+/**
+ * Parse a column key such as "name:en" or "standardPrice:NOK".
+ * Returns null for keys the grid does not know.
+ */
+export function parseGridColumnKey(key: string): ProductGridColumnRef | null {
+  const [kind, arg, locale, ...rest] = key.split(':');
+  if (rest.length > 0) return null;
+
+  if (SIMPLE_COLUMNS.includes(kind as ProductGridColumnKind)) {
+    return arg === undefined ? { key, kind: kind as ProductGridColumnKind } : null;
+  }
+  if (!arg || (locale !== undefined && kind !== 'attribute')) return null;
+
+  switch (kind) {
+    case 'name':
+      return { key, kind, locale: arg };
+    case 'standardPrice':
+    case 'salePrice':
+      return { key, kind, currency: arg };
+    case 'attribute':
+      return locale ? { key, kind, attributeCode: arg, locale } : { key, kind, attributeCode: arg };
+    default:
+      return null;
+  }
+}
+
+/**
+ * The columns the grid offers: names per locale, the basic fields, both
+ * prices per currency, categories and every attribute of the given families
+ * (multilingual attributes once per locale)
+ */
+export function getGridColumns(options: {
+  locales: string[];
+  currencies: string[];
+  families: AttributeFamily[];
+  locale?: string;
+}): ProductGridColumn[] {
+  const { locales, currencies, families, locale = 'en' } = options;
+  const columns: ProductGridColumn[] = [
+    ...locales.map(code => ({ key: `name:${code}`, kind: 'name' as const, label: `Name (${code})`, locale: code })),
+    { key: 'sku', kind: 'sku', label: 'SKU' },
+    { key: 'gtin', kind: 'gtin', label: 'GTIN' },
+    { key: 'brand', kind: 'brand', label: 'Brand' },
+    { key: 'status', kind: 'status', label: 'Status' },
+    ...currencies.map(currency => ({ key: `standardPrice:${currency}`, kind: 'standardPrice' as const, label: `Price (${currency})`, currency })),
+    ...currencies.map(currency => ({ key: `salePrice:${currency}`, kind: 'salePrice' as const, label: `Sale price (${currency})`, currency })),
+    { key: 'categories', kind: 'categories', label: 'Categories' },
+  ];
+
+  const seen = new Set<string>();
+  for (const family of families) {
+    for (const definition of family.attributes) {
+      if (seen.has(definition.code)) continue;
+      seen.add(definition.code);
+      const label = getAttributeLabel(definition, locale);
+      if (definition.type === 'multilingual') {
+        columns.push(...locales.map(code => ({
+          key: `attribute:${definition.code}:${code}`,
+          kind: 'attribute' as const,
+          label: `${label} (${code})`,
+          attributeCode: definition.code,
+          locale: code,
+        })));
+      } else {
+        columns.push({ key: `attribute:${definition.code}`, kind: 'attribute', label, attributeCode: definition.code });
+      }
+    }
+  }
+
+  return columns;
+}
+
+/**
+ * Currencies of the products' prices, for the price columns. Defaults to
+ * NOK when no product has a price yet.
+ */
+export function getGridCurrencies(products: Product[]): string[] {
+  const currencies = new Set<string>();
+  for (const product of products) {
+    product.pricingAndStock?.standardPrice?.forEach(price => currencies.add(price.currency));
+    product.pricingAndStock?.salePrice?.forEach(price => currencies.add(price.currency));
+  }
+  return currencies.size > 0 ? Array.from(currencies).sort() : ['NOK'];
+}
+
+/**
+ * Columns shown when the grid opens: the name in the first locale, SKU,
+ * brand, status and the price in the first currency
+ */
+export function getDefaultGridColumnKeys(locales: string[], currencies: string[]): string[] {
+  return [`name:${locales[0] || 'en'}`, 'sku', 'brand', 'status', `standardPrice:${currencies[0] || 'NOK'}`];
+}
+
+/**
+ * The price a price column edits: the one in its currency without a
+ * validity window, or else the first one in its currency
+ */
+function findBasePrice(prices: PriceEntry[] | undefined, currency: string): PriceEntry | undefined {
+  const inCurrency = (prices || []).filter(price => price.currency === currency);
+  return inCurrency.find(price => !price.validFrom && !price.validTo) || inCurrency[0];
+}
+
+function findAttributeDefinition(product: Product, code: string | undefined, context: ProductGridContext): AttributeDefinition | undefined {
+  return findFamilyForProduct(context.families, product)?.attributes.find(definition => definition.code === code);
+}
+
+/**
+ * Whether the cell can be edited: attribute cells only for products whose
+ * family has the attribute
+ */
+export function isGridCellEditable(product: Product, column: ProductGridColumnRef, context: ProductGridContext): boolean {
+  return column.kind !== 'attribute' || !!findAttributeDefinition(product, column.attributeCode, context);
+}
+
+/**
+ * Path of the product field a column edits, as recorded in the audit trail
+ */
+export function getGridFieldPath(column: ProductGridColumnRef): string {
+  switch (column.kind) {
+    case 'name':
+      return `basicInfo.name.${column.locale}`;
+    case 'standardPrice':
+    case 'salePrice':
+      return `pricingAndStock.${column.kind}.${column.currency}`;
+    case 'categories':
+      return 'attributesAndSpecs.categories';
+    case 'attribute':
+      return `attributesAndSpecs.attributeValues.${column.attributeCode}${column.locale ? `.${column.locale}` : ''}`;
+    default:
+      return `basicInfo.${column.kind}`;
+  }
+}
+
+/**
+ * The stored value a column edits: a price amount, category IDs, an
+ * attribute value, or text
+ */
+export function getGridFieldValue(product: Product, column: ProductGridColumnRef): unknown {
+  switch (column.kind) {
+    case 'name':
+      return product.basicInfo.name?.[column.locale!] || '';
+    case 'sku':
+    case 'brand':
+    case 'status':
+      return product.basicInfo[column.kind] || '';
+    case 'gtin':
+      return product.basicInfo.gtin || '';
+    case 'standardPrice':
+    case 'salePrice':
+      return findBasePrice(product.pricingAndStock?.[column.kind], column.currency!)?.amount ?? null;
+    case 'categories':
+      return product.attributesAndSpecs?.categories || [];
+    case 'attribute': {
+      const value = product.attributesAndSpecs?.attributeValues?.[column.attributeCode!] ?? null;
+      return column.locale ? (value as MultilingualString | null)?.[column.locale] || '' : value;
+    }
+  }
+}
+
+/**
+ * A cell's text, as shown in the grid and copied to the clipboard
+ */
+export function getGridCellText(product: Product, column: ProductGridColumnRef, context: ProductGridContext): string {
+  const locale = context.locale || 'en';
+  switch (column.kind) {
+    case 'standardPrice':
+    case 'salePrice': {
+      const amount = getGridFieldValue(product, column) as number | null;
+      return amount === null ? '' : String(amount);
+    }
+    case 'categories': {
+      const byId = new Map(context.categories.map(category => [category.id, category]));
+      return (product.attributesAndSpecs?.categories || [])
+        .map(id => byId.has(id) ? getCategoryDisplayName(byId.get(id)!, locale) : id)
+        .join('; ');
+    }
+    case 'attribute': {
+      const definition = findAttributeDefinition(product, column.attributeCode, context);
+      if (!definition) return '';
+      if (column.locale) return getGridFieldValue(product, column) as string;
+      return formatAttributeValue(definition, product.attributesAndSpecs?.attributeValues?.[definition.code], locale);
+    }
+    default:
+      return getGridFieldValue(product, column) as string;
+  }
+}
+
+/**
+ * Parse a price as typed or pasted, e.g. "1299", "1 299,50" or "1,299.50".
+ * Returns null for empty text and NaN for text that is not a number.
+ */
+export function parsePriceText(text: string): number | null {
+  let normalized = text.replace(/\s/g, '');
+  if (!normalized) return null;
+  normalized = normalized.includes('.') ? normalized.replace(/,/g, '') : normalized.replace(',', '.');
+  return /^-?\d+(\.\d+)?$/.test(normalized) ? Number(normalized) : NaN;
+}
+
+function setBasePrice(prices: PriceEntry[] | undefined, currency: string, amount: number | null): PriceEntry[] {
+  const list = prices || [];
+  const base = findBasePrice(list, currency);
+  if (amount === null) return list.filter(price => price !== base);
+  if (base) return list.map(price => price === base ? { ...price, amount } : price);
+  return [...list, { id: uuidv4(), currency, amount }];
+}
+
+function parseCategories(text: string, current: string[], context: ProductGridContext): { ids: string[]; errors: string[] } {
+  const ids: string[] = [];
+  const errors: string[] = [];
+  for (const part of text.split(';').map(p => p.trim()).filter(Boolean)) {
+    const category = context.categories.find(c => c.id === part) || findCategoryByName(context.categories, part);
+    // Legacy free-text categories already on the product are kept as they are
+    const id = category?.id || (current.includes(part) ? part : undefined);
+    if (!id) errors.push(`Unknown category "${part}"`);
+    else if (!ids.includes(id)) ids.push(id);
+  }
+  return { ids, errors };
+}
+
+/**
+ * Write one cell's text to a product copied by applyGridValues.
+ * Returns an error message when the text is not valid for the column.
+ */
+function applyCell(product: Product, column: ProductGridColumnRef, text: string, context: ProductGridContext): string | null {
+  const trimmed = text.trim();
+  switch (column.kind) {
+    case 'name':
+      product.basicInfo.name = { ...product.basicInfo.name, [column.locale!]: trimmed };
+      return null;
+    case 'sku':
+      if (!trimmed) return 'SKU is required';
+      product.basicInfo.sku = trimmed;
+      return null;
+    case 'gtin':
+      if (trimmed && !GTIN_PATTERN.test(trimmed)) return 'GTIN must be numeric and 8, 12, 13 or 14 digits';
+      product.basicInfo.gtin = trimmed || undefined;
+      return null;
+    case 'brand':
+      product.basicInfo.brand = trimmed;
+      return null;
+    case 'status': {
+      const status = trimmed.toLowerCase() as ProductStatus;
+      if (!PRODUCT_STATUSES.includes(status)) return `Status must be one of ${PRODUCT_STATUSES.join(', ')}`;
+      product.basicInfo.status = status;
+      return null;
+    }
+    case 'standardPrice':
+    case 'salePrice': {
+      const amount = parsePriceText(trimmed);
+      if (amount !== null && Number.isNaN(amount)) return 'Price must be a number';
+      if (amount !== null && amount < 0) return 'Price cannot be negative';
+      const pricing = product.pricingAndStock || { standardPrice: [] };
+      product.pricingAndStock = { ...pricing, [column.kind]: setBasePrice(pricing[column.kind], column.currency!, amount) };
+      return null;
+    }
+    case 'categories': {
+      const { ids, errors } = parseCategories(trimmed, product.attributesAndSpecs.categories || [], context);
+      if (errors.length > 0) return errors.join('; ');
+      product.attributesAndSpecs.categories = ids;
+      return null;
+    }
+    case 'attribute': {
+      const definition = findAttributeDefinition(product, column.attributeCode, context);
+      if (!definition) return `Attribute "${column.attributeCode}" is not in the product's attribute family`;
+      if (definition.type === 'multilingual' && !column.locale) return 'Multilingual attributes are edited per locale';
+      const values = product.attributesAndSpecs.attributeValues || {};
+      const parsed = parseAttributeText(definition, text, { locale: column.locale, current: values[definition.code] });
+      const error = parsed.error || validateAttributeValue(definition, parsed.value);
+      if (error) return `${getAttributeLabel(definition, context.locale)} ${error}`;
+      product.attributesAndSpecs.attributeValues = { ...values, [definition.code]: parsed.value as AttributeValue };
+      return null;
+    }
+  }
+}
+
+/**
+ * Apply the text of changed cells to a product. The product is not
+ * modified; the result holds the updated copy, the fields that actually
+ * changed and an error per invalid cell.
+ */
+export function applyGridValues(
+  product: Product,
+  values: Record<string, string>,
+  context: ProductGridContext
+): { product: Product; changes: ProductGridFieldChange[]; errors: ProductGridCellError[] } {
+  const updated: Product = {
+    ...product,
+    basicInfo: { ...product.basicInfo },
+    attributesAndSpecs: { ...product.attributesAndSpecs },
+  };
+  const errors: ProductGridCellError[] = [];
+  const columns: ProductGridColumnRef[] = [];
+
+  for (const [key, text] of Object.entries(values)) {
+    const column = parseGridColumnKey(key);
+    const error = column ? applyCell(updated, column, text, context) : 'Unknown column';
+    if (error) errors.push({ column: key, message: error });
+    else columns.push(column!);
+  }
+
+  const nameEdited = columns.some(column => column.kind === 'name');
+  if (nameEdited && !Object.values(updated.basicInfo.name || {}).some(name => name?.trim())) {
+    errors.push({ message: 'Name is required in at least one language' });
+  }
+
+  const changes = columns
+    .map(column => ({
+      column: column.key,
+      field: getGridFieldPath(column),
+      oldValue: getGridFieldValue(product, column),
+      newValue: getGridFieldValue(updated, column),
+    }))
+    .filter(change => JSON.stringify(change.oldValue) !== JSON.stringify(change.newValue));
+
+  return { product: updated, changes, errors };
+}
+
+/**
+ * Parse delimited text, one row per line, with cells holding the delimiter,
+ * line breaks or quotes in double quotes
+ */
+export function parseDelimitedText(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char !== '"') cell += char;
+      else if (text[i + 1] === '"') cell += text[++i];
+      else quoted = false;
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  // The last line usually ends with a line break; a final empty line is not a row
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
+
+/**
+ * Parse spreadsheet clipboard text: tab-separated cells, one row per line
+ */
+export function parseClipboardText(text: string): string[][] {
+  return parseDelimitedText(text, '\t');
+}
+
+/**
+ * Format cells as clipboard text that spreadsheets paste as cells
+ */
+export function formatClipboardText(rows: string[][]): string {
+  return rows
+    .map(row => row.map(cell => /[\t\r\n"]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell).join('\t'))
+    .join('\n');
+}
+
+/**
+ * Repeat a copied block to fill a larger selection, as spreadsheets do when
+ * the selection is a multiple of the block's size. Otherwise the block is
+ * pasted once.
+ */
+export function tileGridBlock(block: string[][], rows: number, columns: number): string[][] {
+  const height = block.length;
+  const width = Math.max(0, ...block.map(row => row.length));
+  if (height === 0 || width === 0 || rows % height !== 0 || columns % width !== 0) return block;
+
+  return Array.from({ length: Math.max(rows, height) }, (_, r) =>
+    Array.from({ length: Math.max(columns, width) }, (_, c) => block[r % height][c % width] ?? '')
+  );
+}
+
+/**
+ * A cell written by one edit. `before` and `after` are the staged text,
+ * undefined when the cell had no staged change.
+ */
+export interface ProductGridCellEdit {
+  productId: string;
+  column: string;
+  before?: string;
+  after?: string;
+}
+
+export interface ProductGridEditState {
+  staged: Record<string, Record<string, string>>; // Changed cell text by product ID and column key
+  undo: ProductGridCellEdit[][];
+  redo: ProductGridCellEdit[][];
+}
+
+export type ProductGridEditAction =
+  | { type: 'edit'; cells: Array<{ productId: string; column: string; value: string; original: string }> }
+  | { type: 'undo' }
+  | { type: 'redo' }
+  | { type: 'saved'; productIds: string[] } // Drops the saved rows' changes and the history
+  | { type: 'discard' };
+
+export const initialProductGridEditState: ProductGridEditState = { staged: {}, undo: [], redo: [] };
+
+function writeStaged(staged: ProductGridEditState['staged'], edits: ProductGridCellEdit[], side: 'before' | 'after') {
+  const next = { ...staged };
+  for (const edit of edits) {
+    const row = { ...next[edit.productId] };
+    const value = edit[side];
+    if (value === undefined) delete row[edit.column];
+    else row[edit.column] = value;
+    if (Object.keys(row).length > 0) next[edit.productId] = row;
+    else delete next[edit.productId];
+  }
+  return next;
+}
+
+/**
+ * Staged edits of the grid. Every edit (typing, paste, fill-down, clear) is
+ * one undo step; a cell set back to its saved text is no longer staged.
+ */
+export function productGridEditReducer(state: ProductGridEditState, action: ProductGridEditAction): ProductGridEditState {
+  switch (action.type) {
+    case 'edit': {
+      const edits = action.cells
+        .map(cell => ({
+          productId: cell.productId,
+          column: cell.column,
+          before: state.staged[cell.productId]?.[cell.column],
+          after: cell.value === cell.original ? undefined : cell.value,
+        }))
+        .filter(edit => edit.before !== edit.after);
+      if (edits.length === 0) return state;
+      return {
+        staged: writeStaged(state.staged, edits, 'after'),
+        undo: [...state.undo, edits].slice(-MAX_GRID_UNDO),
+        redo: [],
+      };
+    }
+    case 'undo': {
+      const edits = state.undo[state.undo.length - 1];
+      if (!edits) return state;
+      return {
+        staged: writeStaged(state.staged, [...edits].reverse(), 'before'),
+        undo: state.undo.slice(0, -1),
+        redo: [...state.redo, edits],
+      };
+    }
+    case 'redo': {
+      const edits = state.redo[state.redo.length - 1];
+      if (!edits) return state;
+      return {
+        staged: writeStaged(state.staged, edits, 'after'),
+        undo: [...state.undo, edits],
+        redo: state.redo.slice(0, -1),
+      };
+    }
+    case 'saved': {
+      const staged = { ...state.staged };
+      action.productIds.forEach(id => delete staged[id]);
+      return { staged, undo: [], redo: [] };
+    }
+    case 'discard':
+      return initialProductGridEditState;
+  }
+}
@@ -0,0 +1,298 @@
+/**
+ * Product Import Service
+ *
+ * Saved column mappings (import profiles), and the dry run and import of
+ * mapped file rows or whole product objects. Both plan the import against
+ * the products as stored right now. The import then saves the planned
+ * creates and updates a few rows at a time; a row that fails is reported
+ * without stopping the rest.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type { Product } from '@/types/product';
+import type {
+  ProductImportInput,
+  ProductImportProfile,
+  ProductImportProfileInput,
+  ProductImportResult,
+  ProductImportRowResult,
+} from '@/types/product-import';
+import { UserRole, WorkflowState } from '@/types/workflow';
+import { attributeFamilyService, AttributeFamilyService } from './attribute-family-service';
+import { AuditTrailIntegration } from './audit-trail-integration';
+import { categoryService, CategoryService } from './category-service';
+import { resolveCategoryIds } from './category-tree';
+import { mapWithConcurrency } from './concurrency';
+import {
+  firestoreProductImportProfileRepository,
+  FirestoreProductImportProfileRepository,
+} from './firestore-product-import-profile-repository';
+import {
+  planProductImport,
+  planProductObjectImport,
+  summarizeImportRows,
+  type ProductImportPlanRow,
+} from './product-import';
+import { productService, ProductService } from './product-service';
+import { RolePermissions } from './role-permissions';
+import { WorkflowStateManager } from './workflow-state-manager';
+
+// Recorded as the reason of the saved versions and audit entries
+const IMPORT_REASON = 'File import';
+
+// Rows saved at the same time
+const IMPORT_CONCURRENCY = 5;
+
+/**
+ * Product Import Service Result
+ */
+export interface ProductImportServiceResult<T = ProductImportProfile> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  code?: string;
+  details?: string[];
+}
+
+/**
+ * The user importing, as set by the API middleware
+ */
+export interface ProductImportActor {
+  userId: string;
+  userName?: string;
+  userRole: UserRole;
+  email?: string;
+}
+
+export class ProductImportService {
+  private audit: AuditTrailIntegration;
+
+  constructor(
+    private products: ProductService = productService,
+    private categories: CategoryService = categoryService,
+    private families: AttributeFamilyService = attributeFamilyService,
+    private profileRepo: FirestoreProductImportProfileRepository = firestoreProductImportProfileRepository,
+    audit?: AuditTrailIntegration
+  ) {
+    this.audit = audit || new AuditTrailIntegration(new WorkflowStateManager(), new RolePermissions());
+  }
+
+  /**
+   * Import profiles, by name. Profiles are shared by everyone who imports.
+   */
+  async listProfiles(): Promise<ProductImportProfile[]> {
+    const profiles = await this.profileRepo.getAll();
+    return profiles.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async createProfile(input: ProductImportProfileInput, actor: ProductImportActor): Promise<ProductImportServiceResult> {
+    const name = input.name.trim();
+    if (await this.findProfileByName(name)) {
+      return { success: false, error: `An import profile named "${name}" already exists`, code: 'NAME_EXISTS' };
+    }
+
+    const now = new Date().toISOString();
+    const profile: ProductImportProfile = {
+      id: uuidv4(),
+      name,
+      description: input.description || undefined,
+      mapping: input.mapping,
+      matchBy: input.matchBy,
+      mergeStrategy: input.mergeStrategy,
+      createdBy: { userId: actor.userId, userName: actor.userName || '' },
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.profileRepo.save(profile);
+    return { success: true, data: profile };
+  }
+
+  async updateProfile(
+    id: string,
+    input: Partial<ProductImportProfileInput>,
+    actor: ProductImportActor
+  ): Promise<ProductImportServiceResult> {
+    const existing = await this.profileRepo.getById(id);
+    if (!existing) return { success: false, error: 'Import profile not found', code: 'NOT_FOUND' };
+    if (!this.canChange(existing, actor)) {
+      return { success: false, error: 'Only the creator or an admin can change this import profile', code: 'FORBIDDEN' };
+    }
+
+    const name = input.name?.trim() ?? existing.name;
+    const sameName = await this.findProfileByName(name);
+    if (sameName && sameName.id !== id) {
+      return { success: false, error: `An import profile named "${name}" already exists`, code: 'NAME_EXISTS' };
+    }
+
+    const updated: ProductImportProfile = {
+      ...existing,
+      name,
+      description: input.description ?? existing.description,
+      mapping: input.mapping ?? existing.mapping,
+      matchBy: input.matchBy ?? existing.matchBy,
+      mergeStrategy: input.mergeStrategy ?? existing.mergeStrategy ?? 'overwrite',
+      updatedAt: new Date().toISOString(),
+    };
+
+    await this.profileRepo.save(updated);
+    return { success: true, data: updated };
+  }
+
+  async deleteProfile(id: string, actor: ProductImportActor): Promise<ProductImportServiceResult<void>> {
+    const existing = await this.profileRepo.getById(id);
+    if (!existing) return { success: false, error: 'Import profile not found', code: 'NOT_FOUND' };
+    if (!this.canChange(existing, actor)) {
+      return { success: false, error: 'Only the creator or an admin can delete this import profile', code: 'FORBIDDEN' };
+    }
+
+    await this.profileRepo.delete(id);
+    return { success: true };
+  }
+
+  /**
+   * What importing the rows would create and change, without saving anything
+   */
+  async preview(input: ProductImportInput): Promise<ProductImportResult> {
+    const plan = await this.plan(input);
+    const rows = plan.map(toRowResult);
+    return { rows, summary: summarizeImportRows(rows) };
+  }
+
+  /**
+   * Save the planned creates and updates. Rows with errors, unchanged rows
+   * and skipped rows are not saved.
+   */
+  async importRows(input: ProductImportInput, actor: ProductImportActor, tenantId: string): Promise<ProductImportResult> {
+    const plan = await this.plan(input);
+    const rows = await mapWithConcurrency(plan, IMPORT_CONCURRENCY, async (row): Promise<ProductImportRowResult> => {
+      try {
+        if (row.action === 'create') await this.createProduct(row.product!, row, actor, tenantId);
+        if (row.action === 'update') await this.updateProduct(row.product!, row, actor, tenantId);
+        return toRowResult(row);
+      } catch (error) {
+        console.error(`Import error for row ${row.rowNumber}:`, error);
+        return { ...toRowResult(row), action: 'error', errors: [{ message: 'Failed to save the row' }] };
+      }
+    });
+
+    const saved = rows.filter(row => row.action === 'create' || row.action === 'update' || row.action === 'error');
+    this.audit.createImportAuditEntry(
+      actor.userId,
+      actor.userRole,
+      actor.email || '',
+      input.records ? 'file' : 'products',
+      saved.length,
+      saved.map(row => ({
+        productId: row.productId || `row ${row.rowNumber}`,
+        success: row.action !== 'error',
+        error: row.errors[0]?.message,
+      })),
+      IMPORT_REASON,
+      { userName: actor.userName, matchBy: input.matchBy, mergeStrategy: input.mergeStrategy }
+    );
+
+    return { rows, summary: summarizeImportRows(rows) };
+  }
+
+  private async plan(input: ProductImportInput): Promise<ProductImportPlanRow[]> {
+    const [products, categories, families] = await Promise.all([
+      this.products.getAllProducts(),
+      this.categories.listCategories(),
+      this.families.listFamilies(),
+    ]);
+    if (input.products) {
+      // Files and integrations name categories; products store their IDs
+      const withCategoryIds = input.products.map(product => product.attributesAndSpecs?.categories
+        ? {
+          ...product,
+          attributesAndSpecs: {
+            ...product.attributesAndSpecs,
+            categories: resolveCategoryIds(product.attributesAndSpecs.categories, categories),
+          },
+        }
+        : product);
+      return planProductObjectImport(withCategoryIds, products, input);
+    }
+    return planProductImport(input.records, products, { categories, families }, input);
+  }
+
+  private async createProduct(
+    product: Product,
+    row: ProductImportPlanRow,
+    actor: ProductImportActor,
+    tenantId: string
+  ): Promise<void> {
+    const now = new Date().toISOString();
+    const created: Product = {
+      ...product,
+      workflowState: WorkflowState.DRAFT,
+      workflowHistory: [{
+        id: `history_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`,
+        action: 'CREATE',
+        fromState: WorkflowState.DRAFT,
+        toState: WorkflowState.DRAFT,
+        userId: actor.userId,
+        userName: actor.userName || '',
+        timestamp: now,
+        reason: IMPORT_REASON,
+      }],
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.products.createProduct(created, { userId: actor.userId, userName: actor.userName, reason: IMPORT_REASON, tenantId });
+    this.audit.createProductAuditEntry(
+      actor.userId,
+      actor.userRole,
+      actor.email || '',
+      created.id,
+      created,
+      { source: 'import', userName: actor.userName, rowNumber: row.rowNumber }
+    );
+  }
+
+  private async updateProduct(
+    product: Product,
+    row: ProductImportPlanRow,
+    actor: ProductImportActor,
+    tenantId: string
+  ): Promise<void> {
+    const updated: Product = { ...product, updatedAt: new Date().toISOString() };
+    await this.products.updateProduct(updated.id, updated, {
+      userId: actor.userId,
+      userName: actor.userName,
+      reason: IMPORT_REASON,
+      tenantId,
+    });
+
+    for (const change of row.changes) {
+      this.audit.createProductUpdateAuditEntry(
+        actor.userId,
+        actor.userRole,
+        actor.email || '',
+        updated.id,
+        { [change.field]: change.oldValue },
+        { [change.field]: change.newValue },
+        IMPORT_REASON,
+        { source: 'import', userName: actor.userName, column: change.column, rowNumber: row.rowNumber }
+      );
+    }
+  }
+
+  private async findProfileByName(name: string): Promise<ProductImportProfile | undefined> {
+    const profiles = await this.profileRepo.getAll();
+    return profiles.find(profile => profile.name.toLowerCase() === name.toLowerCase());
+  }
+
+  private canChange(profile: ProductImportProfile, actor: ProductImportActor): boolean {
+    return profile.createdBy.userId === actor.userId || actor.userRole === UserRole.ADMIN;
+  }
+}
+
+function toRowResult(row: ProductImportPlanRow): ProductImportRowResult {
+  const { product, ...result } = row;
+  return result;
+}
+
+export const productImportService = new ProductImportService();
@@ -0,0 +1,90 @@
+import { create } from 'zustand';
+import type {
+  ProductImportInput,
+  ProductImportProfile,
+  ProductImportProfileInput,
+  ProductImportResult,
+} from '@/types/product-import';
+
+interface ProductImportState {
+  profiles: ProductImportProfile[];
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  fetchProfiles: () => Promise<void>;
+  createProfile: (input: ProductImportProfileInput) => Promise<ProductImportProfile>;
+  updateProfile: (id: string, input: Partial<ProductImportProfileInput>) => Promise<ProductImportProfile>;
+  deleteProfile: (id: string) => Promise<void>;
+  previewImport: (input: ProductImportInput) => Promise<ProductImportResult>; // Dry run; nothing is saved
+  runImport: (input: ProductImportInput) => Promise<ProductImportResult>;
+}
+
+function buildHeaders(): Record<string, string> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  const token = typeof window !== 'undefined' ? localStorage.getItem('accessToken') : null;
+  if (token) headers['Authorization'] = `Bearer ${token}`;
+  return headers;
+}
+
+async function request<T>(url: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(url, { ...init, headers: buildHeaders() });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok || !data.success) {
+    const details = Array.isArray(data.details) && data.details.length > 0 ? `: ${data.details.join('; ')}` : '';
+    throw new Error((data.error || `Request failed: ${response.status} ${response.statusText}`) + details);
+  }
+  return data.data as T;
+}
+
+const byName = (a: ProductImportProfile, b: ProductImportProfile) => a.name.localeCompare(b.name);
+
+export const useProductImportStore = create<ProductImportState>((set) => ({
+  profiles: [],
+  isLoading: false,
+  error: null,
+
+  fetchProfiles: async () => {
+    set({ isLoading: true, error: null });
+    try {
+      const profiles = await request<ProductImportProfile[]>('/api/products/import/profiles');
+      set({ profiles, isLoading: false });
+    } catch (error) {
+      console.error('Error fetching import profiles:', error);
+      set({ error: (error as Error).message, isLoading: false });
+    }
+  },
+
+  createProfile: async (input) => {
+    const profile = await request<ProductImportProfile>('/api/products/import/profiles', {
+      method: 'POST',
+      body: JSON.stringify(input),
+    });
+    set(state => ({ profiles: [...state.profiles, profile].sort(byName) }));
+    return profile;
+  },
+
+  updateProfile: async (id, input) => {
+    const profile = await request<ProductImportProfile>(`/api/products/import/profiles/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(input),
+    });
+    set(state => ({ profiles: state.profiles.map(p => p.id === id ? profile : p).sort(byName) }));
+    return profile;
+  },
+
+  deleteProfile: async (id) => {
+    await request<void>(`/api/products/import/profiles/${id}`, { method: 'DELETE' });
+    set(state => ({ profiles: state.profiles.filter(p => p.id !== id) }));
+  },
+
+  previewImport: (input) => request<ProductImportResult>('/api/products/import/preview', {
+    method: 'POST',
+    body: JSON.stringify(input),
+  }),
+
+  runImport: (input) => request<ProductImportResult>('/api/products/import', {
+    method: 'POST',
+    body: JSON.stringify(input),
+  }),
+}));
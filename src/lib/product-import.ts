@@ -0,0 +1,525 @@
+/**
+ * Product Import
+ *
+ * Pure helpers behind the import wizard, shared by the browser and the
+ * import API: reading CSV and XLSX rows as text, mapping their columns to
+ * product fields and planning, row by row, what an import creates and
+ * updates. Mapped values are written with the grid editor's cell parsing,
+ * so a file accepts the same text as the grid. Whole product objects (JSON
+ * files, integrations) are planned the same way, merged field by field.
+ */
+
+import { z } from 'zod';
+import type { AttributeFamily } from '@/types/attribute';
+import type { MultilingualString, Product } from '@/types/product';
+import { initialProductData } from '@/types/product';
+import type { ProductGridCellError, ProductGridFieldChange } from '@/types/product-grid';
+import type {
+  ProductImportMapping,
+  ProductImportMatchKey,
+  ProductImportMergeStrategy,
+  ProductImportOptions,
+  ProductImportRecord,
+  ProductImportRowAction,
+  ProductImportRowResult,
+  ProductImportTable,
+  ProductImportTarget,
+} from '@/types/product-import';
+import { PRODUCT_IMPORT_MATCH_KEY_LABELS } from '@/types/product-import';
+import {
+  applyGridValues,
+  getGridColumns,
+  getGridFieldValue,
+  parseDelimitedText,
+  parseGridColumnKey,
+  type ProductGridContext,
+} from './product-grid';
+import { escapeCSVField } from './csv-utils';
+import { diffProductSnapshots } from './product-version-diff';
+
+// Rows one import may hold
+export const MAX_IMPORT_ROWS = 5000;
+
+const MATCH_KEYS = ['id', 'sku', 'gtin'] as const;
+
+const MERGE_STRATEGIES = ['overwrite', 'fill-empty', 'skip-existing'] as const;
+
+const DESCRIPTION_KEY = /^(descriptionShort|descriptionLong):([^:]+)$/;
+
+// Header spellings suggested for a target beyond its key and label,
+// normalized as by normalizeHeader
+const TARGET_ALIASES: Record<string, string[]> = {
+  sku: ['itemnumber', 'itemno', 'articlenumber', 'productnumber', 'varenummer', 'varenr'],
+  gtin: ['ean', 'ean13', 'upc', 'barcode', 'strekkode'],
+  brand: ['manufacturer', 'vendor', 'merke'],
+  categories: ['category', 'kategori', 'kategorier'],
+  family: ['attributefamily', 'familycode'],
+};
+
+/**
+ * Whether a mapping target is one the import can write
+ */
+export function isImportTargetKey(key: string): boolean {
+  return key === 'id' || key === 'family' || DESCRIPTION_KEY.test(key) || parseGridColumnKey(key) !== null;
+}
+
+const mappingSchema = z.record(z.string()).refine(
+  mapping => Object.values(mapping).every(isImportTargetKey),
+  { message: 'The mapping has an unknown target field' }
+);
+
+export const productImportProfileSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(80),
+  description: z.string().max(500).optional(),
+  mapping: mappingSchema,
+  matchBy: z.enum(MATCH_KEYS).default('sku'),
+  mergeStrategy: z.enum(MERGE_STRATEGIES).default('overwrite'),
+});
+
+export const productImportProfileUpdateSchema = productImportProfileSchema.partial();
+
+/**
+ * Request schema for a dry run or an import: mapped file rows or whole
+ * product objects
+ */
+export const productImportSchema = z.object({
+  records: z.array(z.object({
+    rowNumber: z.number().int().min(1),
+    values: z.record(z.string()),
+  })).min(1).max(MAX_IMPORT_ROWS).optional(),
+  products: z.array(z.object({
+    id: z.string().optional(),
+    basicInfo: z.object({ sku: z.string().optional(), gtin: z.string().optional() }).passthrough().optional(),
+  }).passthrough()).min(1).max(MAX_IMPORT_ROWS).optional(),
+  matchBy: z.enum(MATCH_KEYS).default('sku'),
+  mergeStrategy: z.enum(MERGE_STRATEGIES).default('overwrite'),
+}).refine(input => !input.records !== !input.products, { message: 'Send either records or products to import' });
+
+function toImportTable(cells: string[][]): ProductImportTable {
+  const [headerRow = [], ...rows] = cells;
+  const seen = new Map<string, number>();
+  // Blank and repeated headers get names of their own, since mappings are keyed by header
+  const headers = headerRow.map((cell, index) => {
+    const header = cell.trim() || `Column ${index + 1}`;
+    const count = (seen.get(header.toLowerCase()) || 0) + 1;
+    seen.set(header.toLowerCase(), count);
+    return count > 1 ? `${header} (${count})` : header;
+  });
+
+  // Spreadsheets often end with rows that only look empty
+  while (rows.length > 0 && rows[rows.length - 1].every(cell => !cell.trim())) rows.pop();
+  return { headers, rows: rows.map(row => headers.map((_, index) => row[index] ?? '')) };
+}
+
+/**
+ * Read CSV text with a header row. The delimiter is whichever of comma,
+ * semicolon or tab the header row has most of, since spreadsheets in many
+ * locales save CSV with semicolons.
+ */
+export function parseImportCSV(text: string): ProductImportTable {
+  const content = text.replace(/^\uFEFF/, '');
+  const headerLine = content.split(/\r?\n/, 1)[0] || '';
+  const count = (delimiter: string) => headerLine.split(delimiter).length;
+  const delimiter = [';', '\t'].reduce((best, candidate) => count(candidate) > count(best) ? candidate : best, ',');
+  return toImportTable(parseDelimitedText(content, delimiter));
+}
+
+/**
+ * Turn the cells of a spreadsheet, as read by read-excel-file, into text.
+ * Dates become ISO dates; numbers keep their full precision.
+ */
+export function sheetToImportTable(rows: unknown[][]): ProductImportTable {
+  return toImportTable(rows.map(row => row.map(cell => {
+    if (cell === null || cell === undefined) return '';
+    if (cell instanceof Date) return cell.toISOString().slice(0, 10);
+    return String(cell);
+  })));
+}
+
+/**
+ * The fields columns can be mapped to: the grid's columns plus descriptions
+ * per locale, the attribute family and the product ID, which is only used
+ * to match products
+ */
+export function getImportTargets(options: {
+  locales: string[];
+  currencies: string[];
+  families: AttributeFamily[];
+  locale?: string;
+}): ProductImportTarget[] {
+  const targets: ProductImportTarget[] = getGridColumns(options).map(column => ({
+    key: column.key,
+    label: column.label,
+    group: column.kind === 'name' ? 'Names'
+      : column.kind === 'standardPrice' || column.kind === 'salePrice' ? 'Prices'
+        : column.kind === 'attribute' ? 'Attributes'
+          : 'Basic',
+  }));
+
+  targets.push({ key: 'id', label: 'Product ID', group: 'Basic' });
+  targets.push({ key: 'family', label: 'Attribute family', group: 'Basic' });
+  for (const code of options.locales) {
+    targets.push({ key: `descriptionShort:${code}`, label: `Short description (${code})`, group: 'Descriptions' });
+    targets.push({ key: `descriptionLong:${code}`, label: `Long description (${code})`, group: 'Descriptions' });
+  }
+  return targets;
+}
+
+function normalizeHeader(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Suggest a target for each header that names one: by the target's key or
+ * label ("name_en", "Price (NOK)"), a common alias ("EAN"), or for plain
+ * "name" and "price" headers the first locale and currency. Each target is
+ * suggested once.
+ */
+export function suggestImportMapping(headers: string[], targets: ProductImportTarget[]): ProductImportMapping {
+  const byName = new Map<string, string>();
+  for (const target of targets) {
+    byName.set(normalizeHeader(target.key), target.key);
+    byName.set(normalizeHeader(target.label), target.key);
+    TARGET_ALIASES[target.key]?.forEach(alias => byName.set(alias, target.key));
+  }
+  const firstName = targets.find(target => target.key.startsWith('name:'));
+  const firstPrice = targets.find(target => target.key.startsWith('standardPrice:'));
+  const fallbacks: Array<[string[], ProductImportTarget | undefined]> = [
+    [['name', 'title', 'productname', 'navn'], firstName],
+    [['price', 'standardprice', 'standardpriceamount', 'pris'], firstPrice],
+  ];
+  for (const [aliases, target] of fallbacks) {
+    if (!target) continue;
+    aliases.filter(alias => !byName.has(alias)).forEach(alias => byName.set(alias, target.key));
+  }
+
+  const mapping: ProductImportMapping = {};
+  const used = new Set<string>();
+  for (const header of headers) {
+    const target = byName.get(normalizeHeader(header));
+    if (target && !used.has(target)) {
+      mapping[header] = target;
+      used.add(target);
+    }
+  }
+  return mapping;
+}
+
+/**
+ * The rows of a table as mapped values. Empty cells are left out and rows
+ * without any mapped value are skipped.
+ */
+export function buildImportRecords(table: ProductImportTable, mapping: ProductImportMapping): ProductImportRecord[] {
+  const targets = table.headers.map(header => mapping[header]);
+  return table.rows.flatMap((row, index) => {
+    const values: Record<string, string> = {};
+    targets.forEach((target, column) => {
+      const text = row[column]?.trim();
+      if (target && text) values[target] = text;
+    });
+    return Object.keys(values).length > 0 ? [{ rowNumber: index + 2, values }] : [];
+  });
+}
+
+/**
+ * Apply mapped values to a product: the attribute family first, so the
+ * family's attributes can be set from the same row, then descriptions and
+ * the grid's fields. The product is not modified.
+ */
+export function applyImportValues(
+  product: Product,
+  values: Record<string, string>,
+  context: ProductGridContext
+): { product: Product; changes: ProductGridFieldChange[]; errors: ProductGridCellError[] } {
+  const updated: Product = {
+    ...product,
+    basicInfo: { ...product.basicInfo },
+    attributesAndSpecs: { ...product.attributesAndSpecs },
+  };
+  const changes: ProductGridFieldChange[] = [];
+  const errors: ProductGridCellError[] = [];
+  const gridValues: Record<string, string> = {};
+
+  for (const [key, text] of Object.entries(values)) {
+    const description = DESCRIPTION_KEY.exec(key);
+    if (key === 'id') {
+      continue; // Matches the product; never changes its ID
+    } else if (key === 'family') {
+      const code = text.trim();
+      const family = context.families.find(f => f.id === code || f.code.toLowerCase() === code.toLowerCase());
+      if (!family) {
+        errors.push({ column: key, message: `Unknown attribute family "${code}"` });
+      } else if (family.id !== product.attributesAndSpecs.familyId) {
+        updated.attributesAndSpecs.familyId = family.id;
+        changes.push({ column: key, field: 'attributesAndSpecs.familyId', oldValue: product.attributesAndSpecs.familyId || '', newValue: family.id });
+      }
+    } else if (description) {
+      const field = description[1] as 'descriptionShort' | 'descriptionLong';
+      const locale = description[2];
+      const oldValue = product.basicInfo[field]?.[locale] || '';
+      const newValue = text.trim();
+      updated.basicInfo[field] = { ...updated.basicInfo[field], [locale]: newValue } as MultilingualString;
+      if (oldValue !== newValue) changes.push({ column: key, field: `basicInfo.${field}.${locale}`, oldValue, newValue });
+    } else {
+      gridValues[key] = text;
+    }
+  }
+
+  const grid = applyGridValues(updated, gridValues, context);
+  return { product: grid.product, changes: [...changes, ...grid.changes], errors: [...errors, ...grid.errors] };
+}
+
+/**
+ * A row of an import plan, with the product it would save
+ */
+export interface ProductImportPlanRow extends ProductImportRowResult {
+  product?: Product; // Set for creates and updates
+}
+
+// Fields an import never changes on an existing product: identity,
+// timestamps and the review workflow
+const PROTECTED_FIELDS = ['id', 'createdAt', 'updatedAt', 'workflowState', 'workflowHistory', 'assignedReviewer'] as const;
+
+function createImportProduct(id?: string): Product {
+  const now = new Date().toISOString();
+  return {
+    ...JSON.parse(JSON.stringify(initialProductData)),
+    id: id || `product_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+function getKey(product: Partial<Product>, matchBy: ProductImportMatchKey): string {
+  const key = matchBy === 'id' ? product.id : product.basicInfo?.[matchBy];
+  return typeof key === 'string' ? key.trim() : '';
+}
+
+function getDisplayName(product: Product): string {
+  return Object.values(product.basicInfo.name || {}).find(name => name?.trim()) || '';
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isEmptyValue(value: unknown): boolean {
+  if (value === undefined || value === null) return true;
+  if (typeof value === 'string') return value.trim() === '';
+  return Array.isArray(value) && value.length === 0;
+}
+
+/**
+ * The stored value a mapping target writes
+ */
+function getImportFieldValue(product: Product, key: string): unknown {
+  if (key === 'id') return product.id;
+  if (key === 'family') return product.attributesAndSpecs.familyId;
+  const description = DESCRIPTION_KEY.exec(key);
+  if (description) return product.basicInfo[description[1] as 'descriptionShort' | 'descriptionLong']?.[description[2]];
+  const column = parseGridColumnKey(key);
+  return column ? getGridFieldValue(product, column) : undefined;
+}
+
+function mergeValue(current: unknown, incoming: unknown, strategy: ProductImportMergeStrategy): unknown {
+  if (incoming === undefined) return current;
+  if (isPlainObject(current) && isPlainObject(incoming)) {
+    const merged: Record<string, unknown> = { ...current };
+    for (const key of Object.keys(incoming)) merged[key] = mergeValue(current[key], incoming[key], strategy);
+    return merged;
+  }
+  return strategy === 'fill-empty' && !isEmptyValue(current) ? current : incoming;
+}
+
+/**
+ * Merge an imported product object into a stored one. Nested objects are
+ * merged field by field and arrays replaced as a whole; with "fill-empty"
+ * only empty fields are taken from the import. Identity, timestamps and the
+ * workflow are always kept.
+ */
+export function mergeImportedProduct(product: Product, incoming: Partial<Product>, strategy: ProductImportMergeStrategy): Product {
+  const merged = mergeValue(product, incoming, strategy) as Product;
+  for (const field of PROTECTED_FIELDS) {
+    (merged as unknown as Record<string, unknown>)[field] = product[field];
+  }
+  return merged;
+}
+
+/**
+ * How one kind of import input is read and applied to a product
+ */
+interface ImportRowReader<T> {
+  rowNumber: (item: T, index: number) => number;
+  key: (item: T) => string;
+  sku: (item: T) => string | undefined;
+  preferredId?: (item: T) => string | undefined; // ID to keep for a new product, when free
+  apply: (item: T, product: Product, existing: boolean) => {
+    product: Product;
+    changes: ProductGridFieldChange[];
+    errors: ProductGridCellError[];
+  };
+}
+
+/**
+ * Match each item to an existing product and work out what it creates or
+ * changes, keeping keys unique within the import and SKUs unique overall
+ */
+function planImportRows<T>(
+  items: T[],
+  existing: Product[],
+  options: ProductImportOptions,
+  reader: ImportRowReader<T>
+): ProductImportPlanRow[] {
+  const { matchBy, mergeStrategy } = options;
+  const byKey = new Map<string, Product>();
+  const skuOwners = new Map<string, string>();
+  const takenIds = new Set<string>();
+  for (const product of existing) {
+    const key = getKey(product, matchBy);
+    if (key && !byKey.has(key)) byKey.set(key, product);
+    if (product.basicInfo.sku) skuOwners.set(product.basicInfo.sku, product.id);
+    takenIds.add(product.id);
+  }
+  const keyRows = new Map<string, number>(); // Key -> first row it appears on
+  const label = PRODUCT_IMPORT_MATCH_KEY_LABELS[matchBy];
+
+  return items.map((item, index) => {
+    const rowNumber = reader.rowNumber(item, index);
+    const key = reader.key(item);
+    const fail = (errors: ProductGridCellError[], product?: Product): ProductImportPlanRow => ({
+      rowNumber,
+      action: 'error',
+      productId: product?.id,
+      sku: reader.sku(item) || product?.basicInfo.sku,
+      name: product ? getDisplayName(product) : undefined,
+      changes: [],
+      errors,
+    });
+
+    if (!key) return fail([{ column: matchBy, message: `${label} is required to match products` }]);
+    if (matchBy === 'id' && key.includes('/')) return fail([{ column: matchBy, message: 'Product ID cannot contain "/"' }]);
+    if (keyRows.has(key)) return fail([{ column: matchBy, message: `${label} "${key}" is also on row ${keyRows.get(key)}` }]);
+    keyRows.set(key, rowNumber);
+
+    const match = byKey.get(key);
+    if (match && mergeStrategy === 'skip-existing') {
+      return { rowNumber, action: 'skipped', productId: match.id, sku: match.basicInfo.sku, name: getDisplayName(match), changes: [], errors: [] };
+    }
+
+    const preferredId = matchBy === 'id' ? key : reader.preferredId?.(item);
+    const base = match || createImportProduct(preferredId && !takenIds.has(preferredId) ? preferredId : undefined);
+    const { product, changes, errors } = reader.apply(item, base, !!match);
+    if (!product.basicInfo.sku?.trim()) errors.push({ column: 'sku', message: 'SKU is required' });
+    if (!match && !getDisplayName(product)) errors.push({ message: 'Name is required in at least one language' });
+
+    const sku = product.basicInfo.sku;
+    const owner = skuOwners.get(sku);
+    if (errors.length === 0 && owner && owner !== product.id) {
+      errors.push({ column: 'sku', message: `SKU "${sku}" is already used by another product` });
+    }
+    if (errors.length > 0) return fail(errors, match);
+
+    skuOwners.set(sku, product.id);
+    takenIds.add(product.id);
+    const action: ProductImportRowAction = !match ? 'create' : changes.length > 0 ? 'update' : 'unchanged';
+    return {
+      rowNumber,
+      action,
+      productId: product.id,
+      sku,
+      name: getDisplayName(product),
+      changes,
+      errors: [],
+      product: action === 'unchanged' ? undefined : product,
+    };
+  });
+}
+
+/**
+ * Plan an import of mapped file rows: match each record to an existing
+ * product and work out what the row creates or changes. Nothing is saved;
+ * the same plan serves the dry run and the import itself.
+ */
+export function planProductImport(
+  records: ProductImportRecord[],
+  existing: Product[],
+  context: ProductGridContext,
+  options: ProductImportOptions
+): ProductImportPlanRow[] {
+  return planImportRows(records, existing, options, {
+    rowNumber: record => record.rowNumber,
+    key: record => record.values[options.matchBy]?.trim() || '',
+    sku: record => record.values.sku,
+    apply: (record, product, existing) => {
+      const values = existing && options.mergeStrategy === 'fill-empty'
+        ? Object.fromEntries(Object.entries(record.values).filter(([key]) => isEmptyValue(getImportFieldValue(product, key))))
+        : record.values;
+      return applyImportValues(product, values, context);
+    },
+  });
+}
+
+/**
+ * Plan an import of whole product objects, such as a JSON export or the
+ * products read from an integration. New products keep their ID unless
+ * another product has it.
+ */
+export function planProductObjectImport(
+  products: Partial<Product>[],
+  existing: Product[],
+  options: ProductImportOptions
+): ProductImportPlanRow[] {
+  return planImportRows(products, existing, options, {
+    rowNumber: (_item, index) => index + 1,
+    key: item => getKey(item, options.matchBy),
+    sku: item => item.basicInfo?.sku,
+    preferredId: item => item.id?.trim(),
+    apply: (item, product, existing) => {
+      const merged = mergeImportedProduct(product, item, existing ? options.mergeStrategy : 'overwrite');
+      // New products are listed without their fields, which the product itself shows
+      const changes = existing
+        ? diffProductSnapshots(product, merged).map(change => ({
+          column: change.field,
+          field: change.field,
+          oldValue: change.oldValue,
+          newValue: change.newValue,
+        }))
+        : [];
+      return { product: merged, changes, errors: [] };
+    },
+  });
+}
+
+/**
+ * Count the rows per action
+ */
+export function summarizeImportRows(rows: ProductImportRowResult[]): Record<ProductImportRowAction, number> {
+  const summary: Record<ProductImportRowAction, number> = { create: 0, update: 0, unchanged: 0, skipped: 0, error: 0 };
+  rows.forEach(row => { summary[row.action]++; });
+  return summary;
+}
+
+const REPORT_HEADERS = ['Row', 'Result', 'Product ID', 'SKU', 'Name', 'Changes', 'Errors'];
+
+function formatReportValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '(empty)';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * The result of each row as CSV, for downloading after an import or a dry run
+ */
+export function formatImportReportCSV(rows: ProductImportRowResult[]): string {
+  const lines = rows.map(row => [
+    String(row.rowNumber),
+    row.action,
+    row.productId || '',
+    row.sku || '',
+    row.name || '',
+    row.changes.map(change => row.action === 'create'
+      ? `${change.field}: ${formatReportValue(change.newValue)}`
+      : `${change.field}: ${formatReportValue(change.oldValue)} -> ${formatReportValue(change.newValue)}`).join('\n'),
+    row.errors.map(error => error.column ? `${error.column}: ${error.message}` : error.message).join('\n'),
+  ]);
+  return [REPORT_HEADERS, ...lines].map(cells => cells.map(escapeCSVField).join(',')).join('\n');
+}
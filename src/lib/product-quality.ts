@@ -2,6 +2,11 @@
 
 import type { Product, ProductStatus } from '@/types/product';
 import type { QualityMetrics, ValidationError } from '@/types/quality';
+import type { AttributeFamily } from '@/types/attribute';
+import type { LocaleSettings } from '@/types/locale';
+import { getMissingRequiredAttributes, isAttributeValueEmpty, validateAttributeValues } from './attribute-validation';
+import { getLocaleName, getMissingLocales, hasLocalizedText } from './locales';
+import { getBundleIssues, isComputedBundle, type ProductLookup } from './bundles';
 
 /**
  * Field weight constants for quality scoring
@@ -39,6 +44,9 @@ export const ALL_FIELD_WEIGHTS = {
   ...OPTIONAL_FIELDS,
 } as const;
 
+// Default weight of a required family attribute without an explicit weight
+export const DEFAULT_ATTRIBUTE_WEIGHT = 10;
+
 /**
  * Status-based completeness thresholds
  */
@@ -52,22 +60,23 @@ export const STATUS_THRESHOLDS = {
 /**
  * Check if a product has missing required fields
  * @param product - Product to check
+ * @param family - Optional attribute family; its missing required attributes are reported as "attributes.<code>"
  * @returns Array of field names that are missing
  */
-export function checkMissingFields(product: Product): string[] {
+export function checkMissingFields(product: Product, family?: AttributeFamily): string[] {
   const missingFields: string[] = [];
 
   // Check basic info fields
-  if (!product.basicInfo.name?.en && !product.basicInfo.name?.no) {
+  if (!hasLocalizedText(product.basicInfo.name)) {
     missingFields.push('name');
   }
   if (!product.basicInfo.sku || product.basicInfo.sku.trim() === '') {
     missingFields.push('sku');
   }
-  if (!product.basicInfo.descriptionShort?.en && !product.basicInfo.descriptionShort?.no) {
+  if (!hasLocalizedText(product.basicInfo.descriptionShort)) {
     missingFields.push('descriptionShort');
   }
-  if (!product.basicInfo.descriptionLong?.en && !product.basicInfo.descriptionLong?.no) {
+  if (!hasLocalizedText(product.basicInfo.descriptionLong)) {
     missingFields.push('descriptionLong');
   }
   if (!product.basicInfo.brand || product.basicInfo.brand.trim() === '') {
@@ -77,13 +86,20 @@ export function checkMissingFields(product: Product): string[] {
     missingFields.push('status');
   }
 
-  // Check pricing
-  if (!product.pricingAndStock?.standardPrice || 
+  // Check pricing (computed bundles are priced from their components)
+  if (!isComputedBundle(product) &&
+      (!product.pricingAndStock?.standardPrice || 
       product.pricingAndStock.standardPrice.length === 0 ||
-      product.pricingAndStock.standardPrice[0]?.amount === undefined) {
+      product.pricingAndStock.standardPrice[0]?.amount === undefined)) {
     missingFields.push('standardPrice');
   }
 
+  // Check required attributes of the product's family
+  if (family) {
+    getMissingRequiredAttributes(family, product.attributesAndSpecs?.attributeValues)
+      .forEach(definition => missingFields.push(`attributes.${definition.code}`));
+  }
+
   return missingFields;
 }
 
@@ -99,9 +115,12 @@ export function checkMissingImages(product: Product): boolean {
 /**
  * Validate product data for common issues
  * @param product - Product to validate
+ * @param family - Optional attribute family to validate attribute values against
+ * @param localeSettings - Optional tenant locales; texts missing in an enabled locale are reported
+ * @param lookup - Optional product lookup; bundle components that are missing, discontinued or unpublished are reported
  * @returns Array of validation errors
  */
-export function validateProduct(product: Product): ValidationError[] {
+export function validateProduct(product: Product, family?: AttributeFamily, localeSettings?: LocaleSettings, lookup?: ProductLookup): ValidationError[] {
   const errors: ValidationError[] = [];
 
   // Validate GTIN format (must be numeric, 8/12/13/14 digits)
@@ -198,16 +217,63 @@ export function validateProduct(product: Product): ValidationError[] {
     });
   }
 
+  // Validate attribute values against the family's constraints
+  if (family) {
+    validateAttributeValues(family, product.attributesAndSpecs?.attributeValues).forEach(issue => {
+      errors.push({
+        type: 'invalid-attribute',
+        message: issue.message,
+        severity: 'warning',
+      });
+    });
+  }
+
+  // Validate translations of texts that exist in at least one locale
+  // (texts missing everywhere are reported as missing fields instead)
+  if (localeSettings) {
+    const texts = [
+      { label: 'Name', value: product.basicInfo.name },
+      { label: 'Short description', value: product.basicInfo.descriptionShort },
+      { label: 'Long description', value: product.basicInfo.descriptionLong },
+    ];
+    texts.forEach(({ label, value }) => {
+      if (!hasLocalizedText(value)) return;
+      const missing = getMissingLocales(value, localeSettings);
+      if (missing.length > 0) {
+        errors.push({
+          type: 'missing-translation',
+          message: `${label} is missing translations: ${missing.map(code => getLocaleName(code, localeSettings)).join(', ')}`,
+          severity: 'warning',
+        });
+      }
+    });
+  }
+
+  // Validate bundle components; ones that cannot be found make the bundle unsellable
+  if (lookup) {
+    getBundleIssues(product, lookup).forEach(issue => {
+      errors.push({
+        type: issue.type,
+        message: issue.message,
+        severity: ['bundle-empty', 'bundle-component-missing', 'bundle-component-self'].includes(issue.type) ? 'critical' : 'warning',
+      });
+    });
+  }
+
   return errors;
 }
 
 /**
- * Calculate product completeness score using weighted scoring
+ * Calculate product completeness score using weighted scoring.
+ * When the product belongs to an attribute family, the critical fields are
+ * scored together with the family's required attributes instead of the
+ * generic important/optional field weights.
  * @param product - Product to score
  * @param status - Optional status override for threshold checking
+ * @param family - Optional attribute family of the product
  * @returns Completeness score from 0-100
  */
-export function calculateCompletenessScore(product: Product, status?: ProductStatus): number {
+export function calculateCompletenessScore(product: Product, status?: ProductStatus, family?: AttributeFamily): number {
   let totalScore = 0;
   let maxPossibleScore = 0;
 
@@ -234,12 +300,27 @@ export function calculateCompletenessScore(product: Product, status?: ProductSta
     } else if (field === 'basicInfo.status') {
       if (hasValue(product.basicInfo.status)) totalScore += weight;
     } else if (field === 'pricingAndStock.standardPrice') {
-      if (product.pricingAndStock?.standardPrice?.[0]?.amount !== undefined) {
+      if (isComputedBundle(product) || product.pricingAndStock?.standardPrice?.[0]?.amount !== undefined) {
         totalScore += weight;
       }
     }
   });
 
+  // Family products: score the family's required attributes
+  if (family) {
+    const values = product.attributesAndSpecs?.attributeValues;
+    family.attributes
+      .filter(definition => definition.required)
+      .forEach(definition => {
+        const weight = definition.weight ?? DEFAULT_ATTRIBUTE_WEIGHT;
+        maxPossibleScore += weight;
+        if (!isAttributeValueEmpty(definition, values?.[definition.code])) totalScore += weight;
+      });
+
+    const familyScore = maxPossibleScore > 0 ? (totalScore / maxPossibleScore) * 100 : 0;
+    return Math.round(familyScore);
+  }
+
   // Calculate important fields score (40% weight)
   Object.entries(IMPORTANT_FIELDS).forEach(([field, weight]) => {
     maxPossibleScore += weight;
@@ -283,12 +364,15 @@ export function calculateCompletenessScore(product: Product, status?: ProductSta
 /**
  * Calculate complete quality metrics for a product
  * @param product - Product to assess
+ * @param family - Optional attribute family of the product
+ * @param localeSettings - Optional tenant locales to check translations against
+ * @param lookup - Optional product lookup to check bundle components against
  * @returns Complete quality metrics object
  */
-export function calculateQualityMetrics(product: Product): QualityMetrics {
-  const missingFields = checkMissingFields(product);
-  const validationErrors = validateProduct(product);
-  const completenessScore = calculateCompletenessScore(product);
+export function calculateQualityMetrics(product: Product, family?: AttributeFamily, localeSettings?: LocaleSettings, lookup?: ProductLookup): QualityMetrics {
+  const missingFields = checkMissingFields(product, family);
+  const validationErrors = validateProduct(product, family, localeSettings, lookup);
+  const completenessScore = calculateCompletenessScore(product, undefined, family);
 
   return {
     completenessScore,
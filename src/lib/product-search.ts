@@ -0,0 +1,265 @@
+/**
+ * Product Search
+ *
+ * An embedded full-text index over products: names, SKUs, GTINs, brands,
+ * descriptions, properties and keywords in every locale. Query terms match
+ * whole words, word prefixes and, for longer terms, words with a typo or two.
+ * Every query term has to match; results are ranked by how well and in which
+ * fields they matched.
+ *
+ * The index lives in server memory. The product service keeps it in sync on
+ * its own writes and rebuilds it from the database once it is older than
+ * SEARCH_INDEX_MAX_AGE_MS, so writes made by other server instances show up
+ * too.
+ */
+
+import type { Product } from '@/types/product';
+
+// How much a match in each field counts towards the score
+export const SEARCH_FIELD_WEIGHTS = {
+  sku: 10,
+  gtin: 10,
+  name: 6,
+  keywords: 4,
+  brand: 3,
+  properties: 2,
+  descriptionShort: 1.5,
+  descriptionLong: 1,
+} as const;
+
+export type SearchField = keyof typeof SEARCH_FIELD_WEIGHTS;
+
+export const SEARCH_INDEX_MAX_AGE_MS = 5 * 60 * 1000;
+
+// How much a match counts by kind: a whole word beats a prefix beats a typo
+const EXACT_MATCH = 1;
+const PREFIX_MATCH = 0.75;
+const FUZZY_MATCH = 0.5;
+
+// A query that is the product's full SKU or GTIN puts it first
+const IDENTIFIER_BONUS = 100;
+
+export interface ProductSearchHit {
+  product: Product;
+  score: number;
+}
+
+/**
+ * Lowercase text and fold accents and Norwegian letters, so "Blå" matches "bla"
+ */
+export function normalizeSearchText(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/æ/g, 'ae')
+    .replace(/ø/g, 'o')
+    .replace(/[\u0300-\u036f]/g, '');
+}
+
+/**
+ * Split text into normalized search terms
+ */
+export function tokenizeSearchText(text: string): string[] {
+  return normalizeSearchText(text).split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+}
+
+// "AB-123 x" -> "ab123x", so identifiers match with or without separators
+const compactIdentifier = (value: string) => tokenizeSearchText(value).join('');
+
+const localizedValues = (value: Record<string, string> | undefined): string[] =>
+  Object.values(value || {}).filter((text): text is string => typeof text === 'string' && text.trim() !== '');
+
+/**
+ * Collect the searchable text of a product, by field
+ */
+export function getSearchableFields(product: Product): Array<[SearchField, string]> {
+  const { basicInfo, attributesAndSpecs, marketingSEO } = product;
+  const fields: Array<[SearchField, string]> = [];
+  const add = (field: SearchField, values: Array<string | undefined>) =>
+    values.forEach(value => { if (value) fields.push([field, value]); });
+
+  add('sku', [basicInfo.sku, ...(product.variants || []).map(variant => variant.sku)]);
+  add('gtin', [basicInfo.gtin, ...(product.variants || []).map(variant => variant.gtin)]);
+  add('name', localizedValues(basicInfo.name));
+  add('brand', [basicInfo.brand]);
+  add('descriptionShort', localizedValues(basicInfo.descriptionShort));
+  add('descriptionLong', localizedValues(basicInfo.descriptionLong));
+  add('properties', (attributesAndSpecs?.properties || []).flatMap(property => [property.key, property.value]));
+  add('keywords', marketingSEO?.keywords || []);
+  return fields;
+}
+
+/**
+ * Edit distance counting a swap of two neighbouring letters as one edit.
+ * Stops early and returns max + 1 once the distance is known to exceed max.
+ */
+export function getEditDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previousPrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let distance = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distance = Math.min(distance, previousPrevious[j - 2] + 1);
+      }
+      current[j] = distance;
+      rowMin = Math.min(rowMin, distance);
+    }
+    if (rowMin > max) return max + 1;
+    previousPrevious = previous;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Typos allowed in a query term: none for short terms, where they match too much
+const maxTyposFor = (term: string) => (term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0);
+
+interface IndexedProduct {
+  product: Product;
+  terms: Set<string>;
+  identifiers: Set<string>;
+}
+
+export class ProductSearchIndex {
+  // term -> product ID -> weight of the best field the term occurs in
+  private postings = new Map<string, Map<string, number>>();
+  private documents = new Map<string, IndexedProduct>();
+  private builtAt: number | null = null;
+
+  /**
+   * Replace the whole index with the given products
+   */
+  rebuild(products: Product[], now: number = Date.now()): void {
+    this.postings.clear();
+    this.documents.clear();
+    products.forEach(product => this.upsert(product));
+    this.builtAt = now;
+  }
+
+  /**
+   * Whether the index has been built and is recent enough to search
+   */
+  isFresh(now: number = Date.now()): boolean {
+    return this.builtAt !== null && now - this.builtAt < SEARCH_INDEX_MAX_AGE_MS;
+  }
+
+  /**
+   * Add a product, or re-index it after a change
+   */
+  upsert(product: Product): void {
+    this.remove(product.id);
+
+    const weights = new Map<string, number>();
+    const identifiers = new Set<string>();
+    getSearchableFields(product).forEach(([field, text]) => {
+      const weight = SEARCH_FIELD_WEIGHTS[field];
+      const terms = tokenizeSearchText(text);
+      if (field === 'sku' || field === 'gtin') {
+        const identifier = compactIdentifier(text);
+        identifiers.add(identifier);
+        terms.push(identifier);
+      }
+      terms.forEach(term => weights.set(term, Math.max(weights.get(term) || 0, weight)));
+    });
+
+    weights.forEach((weight, term) => {
+      if (!this.postings.has(term)) this.postings.set(term, new Map());
+      this.postings.get(term)!.set(product.id, weight);
+    });
+    this.documents.set(product.id, { product, terms: new Set(weights.keys()), identifiers });
+  }
+
+  /**
+   * Remove a product from the index
+   */
+  remove(productId: string): void {
+    const existing = this.documents.get(productId);
+    if (!existing) return;
+    existing.terms.forEach(term => {
+      const postings = this.postings.get(term);
+      postings?.delete(productId);
+      if (postings?.size === 0) this.postings.delete(term);
+    });
+    this.documents.delete(productId);
+  }
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  /**
+   * Every indexed product, in no particular order
+   */
+  getProducts(): Product[] {
+    return [...this.documents.values()].map(document => document.product);
+  }
+
+  /**
+   * Find the products matching every term of the query, best match first
+   */
+  search(query: string, filter?: (product: Product) => boolean): ProductSearchHit[] {
+    const queryTerms = [...new Set(tokenizeSearchText(query))];
+    if (queryTerms.length === 0) return [];
+
+    let scores: Map<string, number> | null = null;
+    for (const queryTerm of queryTerms) {
+      const termScores = this.scoreTerm(queryTerm);
+      // Keep only products that matched every term so far
+      const next = new Map<string, number>();
+      termScores.forEach((score, productId) => {
+        if (scores === null || scores.has(productId)) next.set(productId, (scores?.get(productId) || 0) + score);
+      });
+      scores = next;
+      if (scores.size === 0) return [];
+    }
+
+    const identifier = compactIdentifier(query);
+    const hits: ProductSearchHit[] = [];
+    scores!.forEach((score, productId) => {
+      const { product, identifiers } = this.documents.get(productId)!;
+      if (filter && !filter(product)) return;
+      hits.push({ product, score: score + (identifiers.has(identifier) ? IDENTIFIER_BONUS : 0) });
+    });
+
+    return hits.sort((a, b) => b.score - a.score || (b.product.updatedAt || '').localeCompare(a.product.updatedAt || ''));
+  }
+
+  /**
+   * Score each product for one query term by its best matching word
+   */
+  private scoreTerm(queryTerm: string): Map<string, number> {
+    const maxTypos = maxTyposFor(queryTerm);
+    const scores = new Map<string, number>();
+
+    this.postings.forEach((postings, term) => {
+      let quality = 0;
+      if (term === queryTerm) {
+        quality = EXACT_MATCH;
+      } else if (term.startsWith(queryTerm)) {
+        quality = PREFIX_MATCH;
+      } else if (maxTypos > 0) {
+        // Also allow typos in the part typed so far, e.g. "jakc" for "jacket"
+        const distance = Math.min(
+          getEditDistance(queryTerm, term, maxTypos),
+          getEditDistance(queryTerm, term.slice(0, queryTerm.length), maxTypos)
+        );
+        if (distance <= maxTypos) quality = FUZZY_MATCH / distance;
+      }
+      if (quality === 0) return;
+
+      postings.forEach((weight, productId) => {
+        scores.set(productId, Math.max(scores.get(productId) || 0, weight * quality));
+      });
+    });
+
+    return scores;
+  }
+}
+
+export const productSearchIndex = new ProductSearchIndex();
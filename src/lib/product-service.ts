@@ -1,10 +1,29 @@
 import { firestoreProductRepository, FirestoreProductRepository } from './firestore-product-repository';
+import { firestoreProductVersionRepository, FirestoreProductVersionRepository } from './firestore-product-version-repository';
+import { diffProductSnapshots } from './product-version-diff';
+import { productSearchIndex, ProductSearchIndex } from './product-search';
+import { decodeProductCursor, encodeProductCursor, getFilterFingerprint, InvalidCursorError } from './product-cursor';
+import { webhookService, type WebhookEmitter } from './webhook-service';
+import { getTransitionEventType } from './webhooks';
 import { ProductsTable } from './database-schema';
-import { Product } from '@/types/product';
+import { Product, ProductPage } from '@/types/product';
 import { WorkflowState } from '@/types/workflow';
+import type { ProductSaveContext, ProductVersion } from '@/types/product-version';
+import type { ProductType } from '@/types/bundle';
+
+// Attempts at claiming the next version number when saves race
+const MAX_VERSION_ATTEMPTS = 3;
+
+// Fields a workflow transition changes; reported as the transition's own event
+const WORKFLOW_FIELDS = ['workflowState', 'workflowHistory'];
 
 export class ProductService {
-    constructor(private productRepo: FirestoreProductRepository = firestoreProductRepository) { }
+    constructor(
+        private productRepo: FirestoreProductRepository = firestoreProductRepository,
+        private versionRepo: FirestoreProductVersionRepository = firestoreProductVersionRepository,
+        private searchIndex: ProductSearchIndex = productSearchIndex,
+        private webhooks: WebhookEmitter = webhookService
+    ) { }
 
     /**
      * Helper to map Firestore DB object to Product type
@@ -31,6 +50,8 @@ export class ProductService {
                 maintenanceInstructions: (data.maintenance_instructions as any) || undefined,
                 warrantyInfo: (data.warranty_info as any) || undefined,
                 countryOfOrigin: data.country_of_origin || undefined,
+                familyId: data.attribute_family_id || undefined,
+                attributeValues: data.attribute_values || undefined,
             },
             media: {
                 images: data.media_images,
@@ -51,6 +72,8 @@ export class ProductService {
                 salePrice: data.sale_price || undefined,
                 costPrice: data.cost_price || undefined,
             },
+            productType: (data.product_type as ProductType) || undefined,
+            bundle: data.bundle || undefined,
             options: data.options || undefined,
             variants: data.variants || undefined,
             relations: {
@@ -63,6 +86,8 @@ export class ProductService {
             },
             aiSummary: (data.ai_summary as any) || undefined,
             qualityMetrics: data.quality_metrics || undefined,
+            channelOverrides: data.channel_overrides || undefined,
+            translations: data.translations || undefined,
             workflowState: data.workflow_state as WorkflowState,
             assignedReviewer: data.assigned_reviewer_id ? {
                 userId: data.assigned_reviewer_id,
@@ -97,6 +122,8 @@ export class ProductService {
             maintenance_instructions: product.attributesAndSpecs.maintenanceInstructions || null,
             warranty_info: product.attributesAndSpecs.warrantyInfo || null,
             country_of_origin: product.attributesAndSpecs.countryOfOrigin || null,
+            attribute_family_id: product.attributesAndSpecs.familyId || null,
+            attribute_values: product.attributesAndSpecs.attributeValues || null,
 
             media_images: product.media.images,
             media_videos: product.media.videos || null,
@@ -114,6 +141,9 @@ export class ProductService {
             sale_price: product.pricingAndStock?.salePrice || null,
             cost_price: product.pricingAndStock?.costPrice || null,
 
+            product_type: product.productType || null,
+            bundle: product.bundle || null,
+
             options: product.options || null,
             variants: product.variants || null,
 
@@ -125,6 +155,8 @@ export class ProductService {
 
             ai_summary: product.aiSummary || null,
             quality_metrics: product.qualityMetrics || null,
+            channel_overrides: product.channelOverrides || null,
+            translations: product.translations || null,
 
             workflow_state: product.workflowState || WorkflowState.DRAFT,
             assigned_reviewer_id: product.assignedReviewer?.userId || null,
@@ -145,12 +177,58 @@ export class ProductService {
         return this.mapToProduct(data);
     }
 
-    async createProduct(product: Product): Promise<void> {
+    async getProductBySku(sku: string): Promise<Product | null> {
+        const data = await this.productRepo.getBySku(sku);
+        if (!data) return null;
+        return this.mapToProduct(data);
+    }
+
+    /**
+     * Store an immutable snapshot of a saved product as its next version
+     */
+    private async recordVersion(product: Product, context: ProductSaveContext): Promise<ProductVersion> {
+        for (let attempt = 1; ; attempt++) {
+            const previous = await this.versionRepo.getLatest(product.id);
+            const versionNumber = (previous?.version || 0) + 1;
+            const version: ProductVersion = {
+                id: `${product.id}_v${versionNumber}`,
+                productId: product.id,
+                version: versionNumber,
+                snapshot: product,
+                changedFields: diffProductSnapshots(previous?.snapshot, product).map(change => change.field),
+                createdAt: new Date().toISOString(),
+                createdBy: context.userId ? { userId: context.userId, userName: context.userName } : undefined,
+                reason: context.reason,
+                restoredFromVersion: context.restoredFromVersion,
+            };
+
+            try {
+                await this.versionRepo.create(version);
+                return version;
+            } catch (error) {
+                // Another save claimed this version number; retry with the next one
+                if (attempt >= MAX_VERSION_ATTEMPTS) throw error;
+            }
+        }
+    }
+
+    async createProduct(product: Product, context: ProductSaveContext = {}): Promise<void> {
         const dbData = this.mapToDB(product);
         await this.productRepo.save(dbData);
+        this.searchIndex.upsert(this.mapToProduct(dbData));
+        await this.recordVersion(this.mapToProduct(dbData), { reason: 'Product created', ...context });
+
+        if (context.tenantId) {
+            await this.webhooks.emit(context.tenantId, 'product.created', {
+                productId: product.id,
+                sku: product.basicInfo.sku,
+                userId: context.userId,
+                userName: context.userName,
+            });
+        }
     }
 
-    async updateProduct(id: string, updates: Partial<Product>): Promise<void> {
+    async updateProduct(id: string, updates: Partial<Product>, context: ProductSaveContext = {}): Promise<void> {
         // Note: Partial updates are tricky with object mapping.
         // For simplicity/safety, we fetch, merge, and save.
         // Or we use `productRepo.update` with specific field mapping.
@@ -170,48 +248,155 @@ export class ProductService {
 
         const dbData = this.mapToDB(merged);
         await this.productRepo.save(dbData); // Overwrite with merged data
+        this.searchIndex.upsert(this.mapToProduct(dbData));
+
+        // Snapshot what was actually stored, so restores round-trip exactly
+        const version = await this.recordVersion(this.mapToProduct(dbData), context);
+
+        if (!context.tenantId) return;
+
+        // Workflow transitions are only announced once the product is saved
+        const fromState = existing.workflowState || WorkflowState.DRAFT;
+        const toState = merged.workflowState || WorkflowState.DRAFT;
+        const transition = getTransitionEventType(fromState, toState);
+        if (transition) {
+            await this.webhooks.emit(context.tenantId, transition, {
+                productId: id,
+                sku: merged.basicInfo.sku,
+                fromState,
+                toState,
+                userId: context.userId,
+                reason: context.reason,
+            });
+        }
+
+        // A transition alone is not also reported as an update
+        const changedFields = version.changedFields.filter(field => !WORKFLOW_FIELDS.includes(field.split('.')[0]));
+        if (changedFields.length > 0) {
+            await this.webhooks.emit(context.tenantId, 'product.updated', {
+                productId: id,
+                sku: merged.basicInfo.sku,
+                changedFields,
+                userId: context.userId,
+                userName: context.userName,
+                reason: context.reason,
+            });
+        }
+    }
+
+    async getAllProducts(): Promise<Product[]> {
+        const rows = await this.productRepo.getAll();
+        return rows.map(row => this.mapToProduct(row));
     }
 
-    async deleteProduct(id: string): Promise<void> {
+    async deleteProduct(id: string, context: ProductSaveContext = {}): Promise<void> {
+        const existing = context.tenantId ? await this.productRepo.getById(id) : null;
         await this.productRepo.delete(id);
+        this.searchIndex.remove(id);
+
+        if (context.tenantId) {
+            await this.webhooks.emit(context.tenantId, 'product.deleted', {
+                productId: id,
+                sku: existing?.sku,
+                userId: context.userId,
+                userName: context.userName,
+                reason: context.reason,
+            });
+        }
     }
 
+    /**
+     * Get one page of products, last updated first, or ranked by relevance
+     * when searching. Pass the previous page's nextCursor to continue;
+     * throws InvalidCursorError for cursors made for other filters.
+     */
     async getProducts(filter: {
         workflowState?: WorkflowState;
         assignedReviewerId?: string;
         search?: string;
-        page?: number;
+        cursor?: string;
         limit?: number;
-    }): Promise<{ products: Product[]; total: number; hasNext: boolean }> {
-        // Note: total count is expensive in Firestore. 
-        // We'll return just the page for now or implement counters later.
-
+    }): Promise<ProductPage> {
         const limitVal = filter.limit || 20;
+        const cursor = filter.cursor ? decodeProductCursor(filter.cursor, filter) : undefined;
+        const fingerprint = getFilterFingerprint(filter);
 
-        const result = await this.productRepo.query({
-            workflowState: filter.workflowState,
-            assignedReviewerId: filter.assignedReviewerId,
-            search: filter.search,
-            limit: limitVal,
-        });
-
-        const products = result.products.map(p => this.mapToProduct(p));
-
-        // Client-side filtering for search (if needed, as Firestore doesn't accept substring)
-        let filtered = products;
-        if (filter.search) {
-            const term = filter.search.toLowerCase();
-            filtered = products.filter(p =>
-                p.basicInfo.name.en.toLowerCase().includes(term) ||
-                p.basicInfo.name.no.toLowerCase().includes(term) ||
-                p.basicInfo.sku.toLowerCase().includes(term)
-            );
+        if (filter.search?.trim()) {
+            const offset = cursor?.kind === 'search' ? cursor.offset : 0;
+            return this.searchProducts(filter.search, filter, offset, limitVal, fingerprint);
         }
+        if (cursor && cursor.kind !== 'list') throw new InvalidCursorError();
+
+        const queryFilter = { workflowState: filter.workflowState, assignedReviewerId: filter.assignedReviewerId };
+        // One extra row tells whether there is a next page
+        const [rows, count] = await Promise.all([
+            this.productRepo.query({ ...queryFilter, limit: limitVal + 1, after: cursor }),
+            this.productRepo.count(queryFilter).catch(error => {
+                console.warn('Failed to count products, estimating the total:', error);
+                return null;
+            }),
+        ]);
+
+        const hasNext = rows.length > limitVal;
+        const products = rows.slice(0, limitVal).map(p => this.mapToProduct(p));
+        const position = (cursor?.position || 0) + products.length;
+        const last = products[products.length - 1];
+
+        return {
+            products,
+            total: count ?? position + (hasNext ? 1 : 0),
+            totalEstimated: count === null,
+            hasNext,
+            nextCursor: hasNext
+                ? encodeProductCursor({ kind: 'list', filter: fingerprint, updatedAt: last.updatedAt, id: last.id, position })
+                : undefined,
+        };
+    }
+
+    /**
+     * Full-text search over the in-memory index, best match first. The index
+     * is built on first use and rebuilt once it is stale.
+     */
+    async searchAllProducts(query: string, filter?: (product: Product) => boolean): Promise<Product[]> {
+        await this.refreshSearchIndex();
+        return this.searchIndex.search(query, filter).map(hit => hit.product);
+    }
+
+    /**
+     * Every product as held by the search index, which avoids reading the
+     * whole catalog per request. Writes made by other server instances show
+     * up once the index is rebuilt.
+     */
+    async getIndexedProducts(): Promise<Product[]> {
+        await this.refreshSearchIndex();
+        return this.searchIndex.getProducts();
+    }
+
+    private async refreshSearchIndex(): Promise<void> {
+        if (!this.searchIndex.isFresh()) {
+            this.searchIndex.rebuild(await this.getAllProducts());
+        }
+    }
+
+    private async searchProducts(
+        query: string,
+        filter: { workflowState?: WorkflowState; assignedReviewerId?: string },
+        offset: number,
+        limit: number,
+        fingerprint: string
+    ): Promise<ProductPage> {
+        const matches = await this.searchAllProducts(query, product =>
+            (!filter.workflowState || product.workflowState === filter.workflowState) &&
+            (!filter.assignedReviewerId || product.assignedReviewer?.userId === filter.assignedReviewerId)
+        );
+        const hasNext = offset + limit < matches.length;
 
         return {
-            products: filtered,
-            total: filtered.length, // Only counting what we fetched, implies no pagination beyond this batch yet
-            hasNext: products.length === limitVal, // Rough estimate
+            products: matches.slice(offset, offset + limit),
+            total: matches.length,
+            totalEstimated: false,
+            hasNext,
+            nextCursor: hasNext ? encodeProductCursor({ kind: 'search', filter: fingerprint, offset: offset + limit }) : undefined,
         };
     }
 }
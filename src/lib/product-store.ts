@@ -1,76 +1,182 @@
 import { create } from 'zustand';
-import type { Product } from '@/types/product';
+import type { Product, ProductPage } from '@/types/product';
+import type { ProductGridRowChange, ProductGridSaveResult } from '@/types/product-grid';
+import type { ProductImportOptions, ProductImportResult } from '@/types/product-import';
 import { initialProductData, defaultMultilingualString } from '@/types/product';
 import { calculateQualityMetrics } from './product-quality';
+import { createProductLookup } from './bundles';
+import { findFamilyForProduct } from './attribute-validation';
+import { useAttributeFamilyStore } from './attribute-family-store';
+import { useLocaleStore } from './locale-store';
+
+// Products per page when listing and searching
+const PAGE_SIZE = 100;
+
+type ProductPagination = Omit<ProductPage, 'products'>;
 
 interface ProductState {
   products: Product[];
+  pagination: ProductPagination | null; // Paging state of `products`
   isLoading: boolean;
+  isLoadingMore: boolean;
   error: string | null;
+  searchQuery: string; // Query the search results were loaded for
+  searchResults: Product[] | null; // Ranked matches, or null when not searching
+  searchPagination: ProductPagination | null;
+  isSearching: boolean;
 
   // Actions
   fetchProducts: () => Promise<void>;
+  fetchMoreProducts: () => Promise<void>;
+  searchProducts: (query: string) => Promise<void>;
+  fetchMoreSearchResults: () => Promise<void>;
   addProduct: (productData: Omit<Product, 'id' | 'createdAt' | 'updatedAt' | 'aiSummary'> & { id?: string }, aiSummary?: Product['aiSummary']) => Promise<Product | null>;
-  importProducts: (products: Product[]) => Promise<void>;
+  importProducts: (products: Product[], options: ProductImportOptions) => Promise<ProductImportResult>; // Upserts on the server by options.matchBy
   updateProduct: (productId: string, productData: Partial<Product>) => Promise<void>;
   deleteProduct: (productId: string) => Promise<void>;
+  saveGridRows: (rows: ProductGridRowChange[]) => Promise<ProductGridSaveResult>; // Rows with errors are in `failed`, not thrown
   recalculateAllQuality: () => void; // Added back to fix runtime crash
 
   // Helpers (synchronous lookup from state)
   findProductById: (productId: string) => Product | undefined;
 }
 
+/**
+ * Fetch one page of GET /api/products
+ */
+async function fetchProductPage(params: Record<string, string | undefined>): Promise<ProductPage> {
+  const token = localStorage.getItem('accessToken');
+  const headers: Record<string, string> = {};
+  if (token) headers['Authorization'] = `Bearer ${token}`;
+
+  const query = new URLSearchParams({ limit: String(PAGE_SIZE) });
+  Object.entries(params).forEach(([key, value]) => { if (value) query.set(key, value); });
+
+  const response = await fetch(`/api/products?${query}`, { headers });
+  if (!response.ok) {
+    console.error(`Fetch failed: ${response.status} ${response.statusText}`);
+    const text = await response.text();
+    console.error('Response body:', text);
+    throw new Error(`Failed to fetch products: ${response.status} ${response.statusText}`);
+  }
+
+  const data = await response.json();
+  if (!data.success || !Array.isArray(data.data.products)) {
+    throw new Error('Invalid response format');
+  }
+  return { products: data.data.products, ...data.data.pagination };
+}
+
+// Append a page, skipping products already loaded (e.g. edited between pages)
+const appendPage = (loaded: Product[], page: Product[]) => {
+  const ids = new Set(loaded.map(p => p.id));
+  return [...loaded, ...page.filter(p => !ids.has(p.id))];
+};
+
 export const useProductStore = create<ProductState>((set, get) => ({
   products: [],
+  pagination: null,
   isLoading: false,
+  isLoadingMore: false,
   error: null,
+  searchQuery: '',
+  searchResults: null,
+  searchPagination: null,
+  isSearching: false,
 
   fetchProducts: async () => {
     set({ isLoading: true, error: null });
     try {
-      const token = localStorage.getItem('accessToken');
-      const headers: Record<string, string> = {};
-      if (token) headers['Authorization'] = `Bearer ${token}`;
+      const { products, ...pagination } = await fetchProductPage({});
+      set({ products, pagination, isLoading: false });
+    } catch (error) {
+      console.error('Error fetching products:', error);
+      set({ error: (error as Error).message, isLoading: false });
+    }
+  },
 
-      const response = await fetch('/api/products?limit=100', { headers }); // Fetch reasonable batch
-      if (!response.ok) {
-        console.error(`Fetch failed: ${response.status} ${response.statusText}`);
-        const text = await response.text();
-        console.error('Response body:', text);
-        throw new Error(`Failed to fetch products: ${response.status} ${response.statusText}`);
+  fetchMoreProducts: async () => {
+    const { pagination, isLoadingMore } = get();
+    if (isLoadingMore || !pagination?.nextCursor) return;
+
+    set({ isLoadingMore: true });
+    try {
+      const { products, ...next } = await fetchProductPage({ cursor: pagination.nextCursor });
+      set(state => ({ products: appendPage(state.products, products), pagination: next, isLoadingMore: false }));
+    } catch (error) {
+      console.error('Error fetching more products:', error);
+      set({ error: (error as Error).message, isLoadingMore: false });
+    }
+  },
+
+  searchProducts: async (query) => {
+    const trimmed = query.trim();
+    if (!trimmed) {
+      set({ searchQuery: '', searchResults: null, searchPagination: null, isSearching: false });
+      return;
+    }
+
+    set({ searchQuery: trimmed, isSearching: true });
+    try {
+      const { products, ...pagination } = await fetchProductPage({ search: trimmed });
+      // Ignore responses for a query the user has already changed
+      if (get().searchQuery !== trimmed) return;
+      set({ searchResults: products, searchPagination: pagination, isSearching: false });
+    } catch (error) {
+      console.error('Error searching products:', error);
+      if (get().searchQuery === trimmed) {
+        set({ error: (error as Error).message, searchResults: [], searchPagination: null, isSearching: false });
       }
+    }
+  },
 
-      const data = await response.json();
-      if (data.success && Array.isArray(data.data.products)) {
-        set({ products: data.data.products, isLoading: false });
-      } else {
-        throw new Error('Invalid response format');
+  fetchMoreSearchResults: async () => {
+    const { searchQuery, searchPagination, isLoadingMore } = get();
+    if (isLoadingMore || !searchQuery || !searchPagination?.nextCursor) return;
+
+    set({ isLoadingMore: true });
+    try {
+      const { products, ...next } = await fetchProductPage({ search: searchQuery, cursor: searchPagination.nextCursor });
+      if (get().searchQuery !== searchQuery) {
+        set({ isLoadingMore: false });
+        return;
       }
+      set(state => ({
+        searchResults: appendPage(state.searchResults || [], products),
+        searchPagination: next,
+        isLoadingMore: false,
+      }));
     } catch (error) {
-      console.error('Error fetching products:', error);
-      set({ error: (error as Error).message, isLoading: false });
+      console.error('Error fetching more search results:', error);
+      set({ error: (error as Error).message, isLoadingMore: false });
     }
   },
 
-  importProducts: async (products) => {
+  importProducts: async (products, options) => {
     set({ isLoading: true, error: null });
     try {
-      const { addProduct } = get();
-      const results = [];
-
-      // Process in parallel (or sequential if consistency matters more, but parallel is faster)
-      // Limit concurrency if needed, but for 50 items it's fine.
-      await Promise.all(products.map(async (prod) => {
-        // We assume imported products have IDs. We want to preserve them.
-        // addProduct calls the API which now respects ID.
-        const { id, createdAt, updatedAt, aiSummary, ...rest } = prod;
-        // Pass ID explicitly
-        await addProduct({ ...rest, id }, aiSummary);
-      }));
+      const token = localStorage.getItem('accessToken');
+      const headers: Record<string, string> = {
+        'Content-Type': 'application/json',
+      };
+      if (token) headers['Authorization'] = `Bearer ${token}`;
+
+      const response = await fetch('/api/products/import', {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ products, ...options }),
+      });
+
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok || !data.success) {
+        const details = Array.isArray(data.details) && data.details.length > 0 ? `: ${data.details.join('; ')}` : '';
+        throw new Error((data.error || `Failed to import products (${response.status})`) + details);
+      }
 
       // Refresh list
       await get().fetchProducts();
       set({ isLoading: false });
+      return data.data as ProductImportResult;
     } catch (error) {
       console.error('Error importing products:', error);
       set({ error: (error as Error).message, isLoading: false });
@@ -93,6 +199,9 @@ export const useProductStore = create<ProductState>((set, get) => ({
         pricingAndStock: productData.pricingAndStock,
         options: productData.options,
         variants: productData.variants,
+        productType: productData.productType,
+        bundle: productData.bundle,
+        channelOverrides: productData.channelOverrides,
         workflowState: productData.workflowState,
         assignedReviewer: productData.assignedReviewer,
         aiSummary: aiSummary,
@@ -200,13 +309,46 @@ export const useProductStore = create<ProductState>((set, get) => ({
     }
   },
 
-  recalculateAllQuality: () => {
+  saveGridRows: async (rows) => {
+    const token = localStorage.getItem('accessToken');
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+    };
+    if (token) headers['Authorization'] = `Bearer ${token}`;
+
+    const response = await fetch('/api/products/grid', {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ rows }),
+    });
+
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok || !data.success) {
+      throw new Error(data.error || `Failed to save changes (${response.status})`);
+    }
+
+    const result = data.data as ProductGridSaveResult;
+    const saved = new Map(result.saved.map(row => [row.productId, row.product]));
+    const replaceSaved = (list: Product[]) => list.map(p => saved.get(p.id) || p);
     set(state => ({
-      products: state.products.map(product => ({
-        ...product,
-        qualityMetrics: calculateQualityMetrics(product)
-      }))
+      products: replaceSaved(state.products),
+      searchResults: state.searchResults && replaceSaved(state.searchResults),
     }));
+    return result;
+  },
+
+  recalculateAllQuality: () => {
+    const { families } = useAttributeFamilyStore.getState();
+    const { settings: localeSettings } = useLocaleStore.getState();
+    set(state => {
+      const lookup = createProductLookup(state.products);
+      return {
+        products: state.products.map(product => ({
+          ...product,
+          qualityMetrics: calculateQualityMetrics(product, findFamilyForProduct(families, product), localeSettings, lookup)
+        }))
+      };
+    });
   },
 
   findProductById: (productId) => {
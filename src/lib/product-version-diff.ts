@@ -0,0 +1,61 @@
+/**
+ * Product Version Diff
+ *
+ * Field-by-field comparison of two product snapshots. Nested objects are
+ * compared per field (e.g. "basicInfo.name.en"); arrays are compared as a
+ * whole because their entries have no stable path.
+ */
+
+import type { Product } from '@/types/product';
+import type { VersionFieldChange } from '@/types/product-version';
+
+// Fields that change on every save or are derived from other fields
+const IGNORED_FIELDS = new Set(['updatedAt', 'qualityMetrics']);
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null;
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  if (isEmpty(a) && isEmpty(b)) return true;
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function collectChanges(oldValue: unknown, newValue: unknown, path: string, changes: VersionFieldChange[]): void {
+  if (isPlainObject(oldValue) && isPlainObject(newValue)) {
+    const keys = new Set([...Object.keys(oldValue), ...Object.keys(newValue)]);
+    for (const key of Array.from(keys).sort()) {
+      collectChanges(oldValue[key], newValue[key], path ? `${path}.${key}` : key, changes);
+    }
+    return;
+  }
+
+  if (isEqual(oldValue, newValue)) return;
+
+  changes.push({
+    field: path,
+    type: isEmpty(oldValue) ? 'added' : isEmpty(newValue) ? 'removed' : 'modified',
+    oldValue: oldValue ?? null,
+    newValue: newValue ?? null,
+  });
+}
+
+/**
+ * Compare two product snapshots field by field
+ */
+export function diffProductSnapshots(oldProduct: Product | null | undefined, newProduct: Product): VersionFieldChange[] {
+  const changes: VersionFieldChange[] = [];
+  const strip = (product: Product | null | undefined) => {
+    if (!product) return {};
+    const copy: Record<string, unknown> = { ...product };
+    IGNORED_FIELDS.forEach(field => delete copy[field]);
+    return copy;
+  };
+
+  collectChanges(strip(oldProduct), strip(newProduct), '', changes);
+  return changes;
+}
@@ -0,0 +1,121 @@
+/**
+ * Product Version Service
+ *
+ * Lists, compares and restores the snapshots that ProductService records on
+ * every save. A restore is saved as a new version, so history is never
+ * rewritten.
+ */
+
+import type { Product } from '@/types/product';
+import type { ProductVersion, ProductVersionDiff, ProductVersionSummary } from '@/types/product-version';
+import { firestoreProductVersionRepository, FirestoreProductVersionRepository } from './firestore-product-version-repository';
+import { productService, ProductService } from './product-service';
+import { diffProductSnapshots } from './product-version-diff';
+
+/**
+ * Product Version Service Result
+ */
+export interface ProductVersionServiceResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  code?: string;
+}
+
+export interface RestoreVersionResult {
+  product: Product;
+  previous: Product;
+  restoredFromVersion: number;
+}
+
+export class ProductVersionService {
+  constructor(
+    private versionRepo: FirestoreProductVersionRepository = firestoreProductVersionRepository,
+    private products: ProductService = productService
+  ) { }
+
+  async listVersions(productId: string): Promise<ProductVersionSummary[]> {
+    const versions = await this.versionRepo.getByProduct(productId);
+    return versions.map(({ snapshot, ...summary }) => summary);
+  }
+
+  async getVersion(productId: string, version: number): Promise<ProductVersionServiceResult<ProductVersion>> {
+    const found = await this.versionRepo.getVersion(productId, version);
+    if (!found) {
+      return { success: false, error: `Version ${version} not found`, code: 'NOT_FOUND' };
+    }
+    return { success: true, data: found };
+  }
+
+  /**
+   * Compare two versions. Without `toVersion`, compares against the latest version.
+   */
+  async diffVersions(productId: string, fromVersion: number, toVersion?: number): Promise<ProductVersionServiceResult<ProductVersionDiff>> {
+    const from = await this.versionRepo.getVersion(productId, fromVersion);
+    if (!from) {
+      return { success: false, error: `Version ${fromVersion} not found`, code: 'NOT_FOUND' };
+    }
+
+    const to = toVersion !== undefined
+      ? await this.versionRepo.getVersion(productId, toVersion)
+      : await this.versionRepo.getLatest(productId);
+    if (!to) {
+      return { success: false, error: `Version ${toVersion} not found`, code: 'NOT_FOUND' };
+    }
+
+    return {
+      success: true,
+      data: {
+        productId,
+        fromVersion: from.version,
+        toVersion: to.version,
+        changes: diffProductSnapshots(from.snapshot, to.snapshot),
+      },
+    };
+  }
+
+  /**
+   * Restore a product's content to an earlier version. Workflow state,
+   * reviewer assignment and workflow history are kept as they are now, so a
+   * restore cannot be used to skip the approval workflow.
+   */
+  async restoreVersion(
+    productId: string,
+    version: number,
+    user: { userId: string; userName?: string },
+    reason?: string,
+    tenantId?: string
+  ): Promise<ProductVersionServiceResult<RestoreVersionResult>> {
+    const target = await this.versionRepo.getVersion(productId, version);
+    if (!target) {
+      return { success: false, error: `Version ${version} not found`, code: 'NOT_FOUND' };
+    }
+
+    const current = await this.products.getProductById(productId);
+    if (!current) {
+      return { success: false, error: 'Product not found', code: 'PRODUCT_NOT_FOUND' };
+    }
+
+    const restored: Product = {
+      ...target.snapshot,
+      id: productId,
+      workflowState: current.workflowState,
+      assignedReviewer: current.assignedReviewer,
+      workflowHistory: current.workflowHistory,
+      createdAt: current.createdAt,
+      updatedAt: new Date().toISOString(),
+    };
+
+    await this.products.updateProduct(productId, restored, {
+      userId: user.userId,
+      userName: user.userName,
+      reason: reason || `Restored to version ${version}`,
+      restoredFromVersion: version,
+      tenantId,
+    });
+
+    return { success: true, data: { product: restored, previous: current, restoredFromVersion: version } };
+  }
+}
+
+export const productVersionService = new ProductVersionService();
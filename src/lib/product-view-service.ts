@@ -0,0 +1,213 @@
+/**
+ * Product View Service
+ *
+ * Saved product views: personal, shared with roles or shared with the
+ * owner's team. Teams are user departments, looked up on every request so
+ * moving a user to another department changes what they see.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type {
+  CreateProductViewInput,
+  ProductView,
+  ProductViewSummary,
+  UpdateProductViewInput,
+} from '@/types/product-view';
+import type { UserRole } from '@/types/workflow';
+import { firestoreProductViewRepository, FirestoreProductViewRepository } from './firestore-product-view-repository';
+import { firestoreUserStore, FirestoreUserStore } from './firestore-user-repository';
+import { canEditProductView, canViewProductView, type ProductViewer } from './product-views';
+
+// Views one user can own
+const MAX_VIEWS_PER_USER = 50;
+
+/**
+ * Product View Service Result
+ */
+export interface ProductViewServiceResult<T = ProductViewSummary> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  code?: string;
+  details?: string[];
+}
+
+/**
+ * The user acting on views, as set by the API middleware
+ */
+export interface ProductViewActor {
+  userId: string;
+  userName: string;
+  userRole: UserRole;
+}
+
+export class ProductViewService {
+  constructor(
+    private viewRepo: FirestoreProductViewRepository = firestoreProductViewRepository,
+    private userStore: FirestoreUserStore = firestoreUserStore
+  ) { }
+
+  /**
+   * Views the user can see, pinned first, then by name
+   */
+  async listViews(actor: ProductViewActor): Promise<ProductViewSummary[]> {
+    const viewer = await this.getViewer(actor);
+    const views = await this.viewRepo.getAll();
+    return views
+      .filter(view => canViewProductView(view, viewer))
+      .map(view => this.toSummary(view, viewer))
+      .sort((a, b) => Number(b.pinned) - Number(a.pinned) || a.name.localeCompare(b.name));
+  }
+
+  async getView(id: string, actor: ProductViewActor): Promise<ProductViewServiceResult> {
+    const viewer = await this.getViewer(actor);
+    const view = await this.viewRepo.getById(id);
+    // Views the user may not see are reported as missing, not forbidden
+    if (!view || !canViewProductView(view, viewer)) {
+      return { success: false, error: 'View not found', code: 'NOT_FOUND' };
+    }
+    return { success: true, data: this.toSummary(view, viewer) };
+  }
+
+  async createView(input: CreateProductViewInput, actor: ProductViewActor): Promise<ProductViewServiceResult> {
+    const viewer = await this.getViewer(actor);
+    const existing = await this.viewRepo.getAll();
+    const owned = existing.filter(view => view.ownerId === actor.userId);
+    if (owned.length >= MAX_VIEWS_PER_USER) {
+      return { success: false, error: `You can save up to ${MAX_VIEWS_PER_USER} views`, code: 'LIMIT_REACHED' };
+    }
+    if (owned.some(view => view.name.toLowerCase() === input.name.trim().toLowerCase())) {
+      return { success: false, error: `You already have a view named "${input.name.trim()}"`, code: 'NAME_EXISTS' };
+    }
+
+    const sharing = this.getSharing(input, viewer);
+    if (!sharing.success) return { success: false, error: sharing.error, code: sharing.code };
+
+    const now = new Date().toISOString();
+    const view: ProductView = {
+      id: uuidv4(),
+      name: input.name.trim(),
+      description: input.description || undefined,
+      ownerId: actor.userId,
+      ownerName: actor.userName,
+      ...sharing.data!,
+      filters: input.filters,
+      sort: input.sort,
+      columns: input.columns,
+      pinnedBy: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.viewRepo.save(view);
+    return { success: true, data: this.toSummary(view, viewer) };
+  }
+
+  async updateView(id: string, input: UpdateProductViewInput, actor: ProductViewActor): Promise<ProductViewServiceResult> {
+    const viewer = await this.getViewer(actor);
+    const existing = await this.viewRepo.getById(id);
+    if (!existing || !canViewProductView(existing, viewer)) {
+      return { success: false, error: 'View not found', code: 'NOT_FOUND' };
+    }
+    if (!canEditProductView(existing, viewer)) {
+      return { success: false, error: 'Only the owner can change this view', code: 'FORBIDDEN' };
+    }
+
+    const name = input.name?.trim() ?? existing.name;
+    if (name.toLowerCase() !== existing.name.toLowerCase()) {
+      const views = await this.viewRepo.getAll();
+      if (views.some(view => view.id !== id && view.ownerId === existing.ownerId && view.name.toLowerCase() === name.toLowerCase())) {
+        return { success: false, error: `A view named "${name}" already exists`, code: 'NAME_EXISTS' };
+      }
+    }
+
+    let sharing = { visibility: existing.visibility, sharedRoles: existing.sharedRoles, team: existing.team };
+    if (input.visibility !== undefined || input.sharedRoles !== undefined) {
+      // A view shared with the team stays with the owner's team, even when an admin edits it
+      const owner = existing.ownerId === actor.userId ? viewer : await this.getViewer({ ...actor, userId: existing.ownerId });
+      const result = this.getSharing({
+        visibility: input.visibility ?? existing.visibility,
+        sharedRoles: input.sharedRoles ?? existing.sharedRoles,
+      }, owner);
+      if (!result.success) return { success: false, error: result.error, code: result.code };
+      sharing = result.data!;
+    }
+
+    const updated: ProductView = {
+      ...existing,
+      name,
+      description: input.description ?? existing.description,
+      ...sharing,
+      filters: input.filters ?? existing.filters,
+      sort: input.sort ?? existing.sort,
+      columns: input.columns ?? existing.columns,
+      id,
+      updatedAt: new Date().toISOString(),
+    };
+
+    await this.viewRepo.save(updated);
+    return { success: true, data: this.toSummary(updated, viewer) };
+  }
+
+  async deleteView(id: string, actor: ProductViewActor): Promise<ProductViewServiceResult<void>> {
+    const viewer = await this.getViewer(actor);
+    const existing = await this.viewRepo.getById(id);
+    if (!existing || !canViewProductView(existing, viewer)) {
+      return { success: false, error: 'View not found', code: 'NOT_FOUND' };
+    }
+    if (!canEditProductView(existing, viewer)) {
+      return { success: false, error: 'Only the owner can delete this view', code: 'FORBIDDEN' };
+    }
+
+    await this.viewRepo.delete(id);
+    return { success: true };
+  }
+
+  /**
+   * Pin a view to the user's sidebar, or unpin it
+   */
+  async setPinned(id: string, pinned: boolean, actor: ProductViewActor): Promise<ProductViewServiceResult> {
+    const viewer = await this.getViewer(actor);
+    const existing = await this.viewRepo.getById(id);
+    if (!existing || !canViewProductView(existing, viewer)) {
+      return { success: false, error: 'View not found', code: 'NOT_FOUND' };
+    }
+
+    const others = existing.pinnedBy.filter(userId => userId !== actor.userId);
+    const updated: ProductView = { ...existing, pinnedBy: pinned ? [...others, actor.userId] : others };
+    await this.viewRepo.save(updated);
+    return { success: true, data: this.toSummary(updated, viewer) };
+  }
+
+  private async getViewer(actor: ProductViewActor): Promise<ProductViewer> {
+    const user = await this.userStore.getById(actor.userId);
+    return { userId: actor.userId, userRole: actor.userRole, team: user?.department || null };
+  }
+
+  private getSharing(
+    input: Pick<CreateProductViewInput, 'visibility' | 'sharedRoles'>,
+    owner: ProductViewer
+  ): ProductViewServiceResult<Pick<ProductView, 'visibility' | 'sharedRoles' | 'team'>> {
+    if (input.visibility === 'roles' && !input.sharedRoles?.length) {
+      return { success: false, error: 'Choose at least one role to share the view with', code: 'VALIDATION_ERROR' };
+    }
+    if (input.visibility === 'team' && !owner.team) {
+      return { success: false, error: 'The view owner has no department to share the view with', code: 'VALIDATION_ERROR' };
+    }
+    return {
+      success: true,
+      data: {
+        visibility: input.visibility,
+        sharedRoles: input.visibility === 'roles' ? input.sharedRoles! : [],
+        team: input.visibility === 'team' ? owner.team : null,
+      },
+    };
+  }
+
+  private toSummary(view: ProductView, viewer: ProductViewer): ProductViewSummary {
+    const { pinnedBy, ...rest } = view;
+    return { ...rest, pinned: pinnedBy.includes(viewer.userId), canEdit: canEditProductView(view, viewer) };
+  }
+}
+
+export const productViewService = new ProductViewService();
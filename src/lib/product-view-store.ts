@@ -0,0 +1,92 @@
+import { create } from 'zustand';
+import type { CreateProductViewInput, ProductViewSummary, UpdateProductViewInput } from '@/types/product-view';
+
+interface ProductViewStoreState {
+  views: ProductViewSummary[];
+  isLoaded: boolean;
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  fetchViews: () => Promise<void>;
+  createView: (input: CreateProductViewInput) => Promise<ProductViewSummary>;
+  updateView: (id: string, input: UpdateProductViewInput) => Promise<ProductViewSummary>;
+  deleteView: (id: string) => Promise<void>;
+  setPinned: (id: string, pinned: boolean) => Promise<ProductViewSummary>;
+}
+
+function buildHeaders(): Record<string, string> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  const token = typeof window !== 'undefined' ? localStorage.getItem('accessToken') : null;
+  if (token) headers['Authorization'] = `Bearer ${token}`;
+  return headers;
+}
+
+async function request<T>(url: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(url, { ...init, headers: buildHeaders() });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok || !data.success) {
+    const details = Array.isArray(data.details) && data.details.length > 0 ? `: ${data.details.join('; ')}` : '';
+    throw new Error((data.error || `Request failed: ${response.status} ${response.statusText}`) + details);
+  }
+  return data.data as T;
+}
+
+const viewUrl = (id: string) => `/api/product-views/${encodeURIComponent(id)}`;
+
+// Pinned first, then by name, like the API lists them
+const sortViews = (views: ProductViewSummary[]) =>
+  [...views].sort((a, b) => Number(b.pinned) - Number(a.pinned) || a.name.localeCompare(b.name));
+
+const replaceView = (views: ProductViewSummary[], view: ProductViewSummary) =>
+  sortViews([...views.filter(v => v.id !== view.id), view]);
+
+export const useProductViewStore = create<ProductViewStoreState>((set) => ({
+  views: [],
+  isLoaded: false,
+  isLoading: false,
+  error: null,
+
+  fetchViews: async () => {
+    set({ isLoading: true, error: null });
+    try {
+      const views = await request<ProductViewSummary[]>('/api/product-views');
+      set({ views, isLoaded: true, isLoading: false });
+    } catch (error) {
+      console.error('Error fetching product views:', error);
+      set({ error: (error as Error).message, isLoading: false });
+    }
+  },
+
+  createView: async (input) => {
+    const view = await request<ProductViewSummary>('/api/product-views', {
+      method: 'POST',
+      body: JSON.stringify(input),
+    });
+    set(state => ({ views: replaceView(state.views, view) }));
+    return view;
+  },
+
+  updateView: async (id, input) => {
+    const view = await request<ProductViewSummary>(viewUrl(id), {
+      method: 'PUT',
+      body: JSON.stringify(input),
+    });
+    set(state => ({ views: replaceView(state.views, view) }));
+    return view;
+  },
+
+  deleteView: async (id) => {
+    await request<void>(viewUrl(id), { method: 'DELETE' });
+    set(state => ({ views: state.views.filter(v => v.id !== id) }));
+  },
+
+  setPinned: async (id, pinned) => {
+    const view = await request<ProductViewSummary>(`${viewUrl(id)}/pin`, {
+      method: 'PUT',
+      body: JSON.stringify({ pinned }),
+    });
+    set(state => ({ views: replaceView(state.views, view) }));
+    return view;
+  },
+}));
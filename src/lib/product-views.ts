@@ -0,0 +1,189 @@
+/**
+ * Product Views
+ *
+ * Pure helpers for saved product views: validating them, writing a view's
+ * filters, sort and columns to the product list URL and reading them back,
+ * sorting products and deciding who may see or change a view.
+ */
+
+import { z } from 'zod';
+import type { Product } from '@/types/product';
+import type { ProductFacetSelection } from '@/types/facet';
+import { FACET_CURRENT_USER, PRODUCT_FACET_KEYS } from '@/types/facet';
+import type {
+  ProductSort,
+  ProductView,
+  ProductViewColumn,
+  ProductViewState,
+} from '@/types/product-view';
+import { PRODUCT_SORT_FIELDS, PRODUCT_VIEW_COLUMNS } from '@/types/product-view';
+import { UserRole } from '@/types/workflow';
+import { getFacetSelection, productFacetQuerySchema, toFacetSearchParams } from './product-facets';
+
+export const DEFAULT_PRODUCT_SORT: ProductSort = { field: 'updatedAt', direction: 'desc' };
+
+// Quality filters the products page understands
+export const PRODUCT_QUALITY_FILTERS = ['incomplete', 'missing-images', 'validation-errors', 'missing-fields'] as const;
+
+const facetSelectionSchema = z.object(
+  Object.fromEntries(PRODUCT_FACET_KEYS.map(key => [key, z.array(z.string().min(1)).max(100).optional()]))
+) as z.ZodType<ProductFacetSelection>;
+
+export const productViewStateSchema = z.object({
+  filters: z.object({
+    search: z.string().max(200).optional(),
+    facets: facetSelectionSchema.default({}),
+    quality: z.enum(PRODUCT_QUALITY_FILTERS).optional(),
+  }),
+  sort: z.object({
+    field: z.enum(PRODUCT_SORT_FIELDS as [ProductSort['field'], ...ProductSort['field'][]]),
+    direction: z.enum(['asc', 'desc']),
+  }).default(DEFAULT_PRODUCT_SORT),
+  columns: z.array(z.enum(PRODUCT_VIEW_COLUMNS as [ProductViewColumn, ...ProductViewColumn[]])).default([]),
+});
+
+export const productViewCreateSchema = productViewStateSchema.extend({
+  name: z.string().trim().min(1, 'Name is required').max(80),
+  description: z.string().max(500).optional(),
+  visibility: z.enum(['private', 'roles', 'team']).default('private'),
+  sharedRoles: z.array(z.nativeEnum(UserRole)).optional(),
+});
+
+export const productViewUpdateSchema = productViewCreateSchema.partial();
+
+export const productViewPinSchema = z.object({ pinned: z.boolean() });
+
+/**
+ * Read a sort written as "field:direction", falling back to the default
+ */
+export function parseProductSort(value: string | null | undefined): ProductSort {
+  const [field, direction] = (value || '').split(':');
+  if (!PRODUCT_SORT_FIELDS.includes(field as ProductSort['field'])) return DEFAULT_PRODUCT_SORT;
+  return { field: field as ProductSort['field'], direction: direction === 'asc' ? 'asc' : 'desc' };
+}
+
+export function formatProductSort(sort: ProductSort): string {
+  return `${sort.field}:${sort.direction}`;
+}
+
+export function isDefaultProductSort(sort: ProductSort): boolean {
+  return sort.field === DEFAULT_PRODUCT_SORT.field && sort.direction === DEFAULT_PRODUCT_SORT.direction;
+}
+
+/**
+ * Sort a copy of the products. Ties keep their original order.
+ */
+export function sortProducts(products: Product[], sort: ProductSort, getQualityScore: (product: Product) => number): Product[] {
+  const key = (product: Product): string | number => {
+    switch (sort.field) {
+      case 'updatedAt': return product.updatedAt || '';
+      case 'createdAt': return product.createdAt || '';
+      case 'name': return (product.basicInfo.name?.en || product.basicInfo.name?.no || '').toLowerCase();
+      case 'sku': return product.basicInfo.sku.toLowerCase();
+      case 'brand': return (product.basicInfo.brand || '').toLowerCase();
+      case 'quality': return getQualityScore(product);
+    }
+  };
+  const factor = sort.direction === 'asc' ? 1 : -1;
+  return products
+    .map(product => ({ product, key: key(product) }))
+    .sort((a, b) => factor * (typeof a.key === 'number' && typeof b.key === 'number'
+      ? a.key - b.key
+      : String(a.key).localeCompare(String(b.key))))
+    .map(({ product }) => product);
+}
+
+/**
+ * Write a view's state as product list query parameters. Defaults are left
+ * out, so an unfiltered list keeps a clean URL.
+ */
+export function toProductViewSearchParams(state: ProductViewState, params: URLSearchParams = new URLSearchParams()): URLSearchParams {
+  const set = (key: string, value: string | undefined) => (value ? params.set(key, value) : params.delete(key));
+
+  toFacetSearchParams(state.filters.facets, params);
+  set('q', state.filters.search?.trim());
+  set('quality', state.filters.quality);
+  set('sort', isDefaultProductSort(state.sort) ? undefined : formatProductSort(state.sort));
+  set('columns', state.columns.join(','));
+  return params;
+}
+
+/**
+ * Read a view's state from product list query parameters
+ */
+export function getProductViewState(params: URLSearchParams): ProductViewState {
+  const parsed = productFacetQuerySchema.safeParse(Object.fromEntries(params.entries()));
+  const quality = params.get('quality') as ProductViewState['filters']['quality'];
+  const columns = (params.get('columns') || '').split(',')
+    .filter((column): column is ProductViewColumn => PRODUCT_VIEW_COLUMNS.includes(column as ProductViewColumn));
+
+  return {
+    filters: {
+      search: params.get('q') || undefined,
+      facets: parsed.success ? getFacetSelection(parsed.data) : {},
+      quality: quality && PRODUCT_QUALITY_FILTERS.includes(quality) ? quality : undefined,
+    },
+    sort: parseProductSort(params.get('sort')),
+    columns,
+  };
+}
+
+/**
+ * Compare two view states by the URL they produce
+ */
+export function isSameProductViewState(a: ProductViewState, b: ProductViewState): boolean {
+  const normalize = (state: ProductViewState) => {
+    const params = toProductViewSearchParams(state);
+    params.sort();
+    return params.toString();
+  };
+  return normalize(a) === normalize(b);
+}
+
+export function getProductViewHref(viewId: string): string {
+  return `/products?view=${encodeURIComponent(viewId)}`;
+}
+
+/**
+ * Replace the "current user" reviewer of a saved view with the user opening it
+ */
+export function withCurrentUser(selection: ProductFacetSelection, userId: string): ProductFacetSelection {
+  if (!selection.reviewer?.includes(FACET_CURRENT_USER)) return selection;
+  return { ...selection, reviewer: selection.reviewer.map(value => (value === FACET_CURRENT_USER ? userId : value)) };
+}
+
+/**
+ * Inverse of withCurrentUser for a changed selection: keeps the user as
+ * "current user" if the previous selection had them that way.
+ */
+export function keepCurrentUser(next: ProductFacetSelection, previous: ProductFacetSelection, userId: string): ProductFacetSelection {
+  if (!previous.reviewer?.includes(FACET_CURRENT_USER) || !next.reviewer) return next;
+  return { ...next, reviewer: next.reviewer.map(value => (value === userId ? FACET_CURRENT_USER : value)) };
+}
+
+/**
+ * Who is looking at a view
+ */
+export interface ProductViewer {
+  userId: string;
+  userRole: UserRole;
+  team: string | null; // The viewer's department
+}
+
+/**
+ * Owners see their views; admins see every shared view so they can tidy up
+ */
+export function canViewProductView(view: ProductView, viewer: ProductViewer): boolean {
+  if (view.ownerId === viewer.userId) return true;
+  if (view.visibility === 'private') return false;
+  if (viewer.userRole === UserRole.ADMIN) return true;
+  if (view.visibility === 'roles') return view.sharedRoles.includes(viewer.userRole);
+  return !!view.team && view.team === viewer.team;
+}
+
+/**
+ * Only the owner changes a view; admins can also tidy up shared ones
+ */
+export function canEditProductView(view: ProductView, viewer: ProductViewer): boolean {
+  return view.ownerId === viewer.userId || (viewer.userRole === UserRole.ADMIN && view.visibility !== 'private');
+}
@@ -650,6 +650,7 @@ export class RolePermissions {
         'products:edit_own',
         'products:view_own',
         'products:delete_own',
+        'products:translate',
         'products:duplicate',
         'products:clone',
         'products:save_draft',
@@ -770,6 +771,7 @@ export class RolePermissions {
         'workflow:view_all_products',
         // Product viewing permissions - can view all products
         'products:read',
+        'products:translate',
         'products:view_all',
         'products:view_details',
         'products:view_media',
@@ -1150,6 +1152,16 @@ export class RolePermissions {
         'workflow:view_public_metrics',
         'workflow:export_public_data',
       ],
+      [UserRole.TRANSLATOR]: [
+        'workflow:view_all_products',
+        // Read products and maintain their translations
+        'products:read',
+        'products:view_details',
+        'products:translate',
+
+        'audit:read',
+        'notifications:read',
+      ],
     };
 
     return rolePermissions[userRole] || [];
@@ -1293,6 +1305,7 @@ export class RolePermissions {
       [UserRole.ADMIN]: 1,
       [UserRole.REVIEWER]: 2,
       [UserRole.EDITOR]: 3,
+      [UserRole.TRANSLATOR]: 4,
       [UserRole.VIEWER]: 4,
     };
   }
@@ -0,0 +1,66 @@
+import { create } from 'zustand';
+import type { ScheduledAction, SchedulerRunSummary } from '@/types/schedule';
+
+interface ScheduleState {
+  actions: ScheduledAction[];
+  range: { from: string; to: string } | null; // Range the actions were loaded for
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  fetchSchedule: (from: string, to: string) => Promise<void>;
+  cancelAction: (id: string, reason?: string) => Promise<ScheduledAction>;
+  runDueActions: () => Promise<SchedulerRunSummary>;
+}
+
+function buildHeaders(): Record<string, string> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  const token = typeof window !== 'undefined' ? localStorage.getItem('accessToken') : null;
+  if (token) headers['Authorization'] = `Bearer ${token}`;
+  return headers;
+}
+
+async function request<T>(url: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(url, { ...init, headers: buildHeaders() });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok || !data.success) {
+    const details = Array.isArray(data.details) && data.details.length > 0 ? `: ${data.details.join('; ')}` : '';
+    throw new Error((data.error || `Request failed: ${response.status} ${response.statusText}`) + details);
+  }
+  return data.data as T;
+}
+
+export const useScheduleStore = create<ScheduleState>((set, get) => ({
+  actions: [],
+  range: null,
+  isLoading: false,
+  error: null,
+
+  fetchSchedule: async (from, to) => {
+    set({ isLoading: true, error: null, range: { from, to } });
+    try {
+      const actions = await request<ScheduledAction[]>(`/api/schedule?${new URLSearchParams({ from, to })}`);
+      // Ignore responses for a month the user has already navigated away from
+      if (get().range?.from === from) set({ actions, isLoading: false });
+    } catch (error) {
+      console.error('Error fetching schedule:', error);
+      set({ error: (error as Error).message, isLoading: false });
+    }
+  },
+
+  cancelAction: async (id, reason) => {
+    const cancelled = await request<ScheduledAction>(`/api/schedule/${encodeURIComponent(id)}/cancel`, {
+      method: 'POST',
+      body: JSON.stringify({ reason }),
+    });
+    set(state => ({ actions: state.actions.map(action => (action.id === id ? cancelled : action)) }));
+    return cancelled;
+  },
+
+  runDueActions: async () => {
+    const summary = await request<SchedulerRunSummary>('/api/schedule/run', { method: 'POST' });
+    const range = get().range;
+    if (range) await get().fetchSchedule(range.from, range.to);
+    return summary;
+  },
+}));
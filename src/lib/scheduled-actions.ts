@@ -0,0 +1,170 @@
+/**
+ * Scheduled Actions
+ *
+ * Pure helpers for the scheduler: deriving a product's scheduled actions from
+ * its launch and end dates and the validity windows of its sale prices and
+ * campaigns, and applying the non-workflow actions to a product.
+ *
+ * Sale prices and campaigns carry an `active` flag the scheduler sets when
+ * their window opens and closes. An entry the scheduler has not touched yet
+ * is live unless its window starts in the future.
+ */
+
+import { z } from 'zod';
+import type { CampaignEntry, PriceEntry, Product } from '@/types/product';
+import type { ScheduledAction, ScheduledActionStatus, ScheduledActionType } from '@/types/schedule';
+import { SCHEDULED_ACTION_TYPES } from '@/types/schedule';
+
+/**
+ * Query schema for the schedule calendar
+ */
+export const scheduleQuerySchema = z.object({
+  from: z.string().datetime({ offset: true }).optional(),
+  to: z.string().datetime({ offset: true }).optional(),
+  type: z.enum(SCHEDULED_ACTION_TYPES as [ScheduledActionType, ...ScheduledActionType[]]).optional(),
+});
+
+/**
+ * Request schema for cancelling a scheduled action
+ */
+export const cancelScheduledActionSchema = z.object({
+  reason: z.string().max(500).optional(),
+});
+
+export type PlannedAction = Omit<ScheduledAction, 'status' | 'note' | 'recordedAt' | 'recordedBy'>;
+
+/**
+ * Build the stable ID of a scheduled action. Changing the date gives a new
+ * ID, so outcomes recorded for the old date no longer apply.
+ */
+export function getScheduledActionId(productId: string, type: ScheduledActionType, runAt: string, targetId?: string): string {
+  return [productId, type, targetId || 'product', new Date(runAt).toISOString()].join('__');
+}
+
+/**
+ * Check whether a sale price or campaign is in effect
+ */
+export function isScheduleEntryLive(entry: Pick<PriceEntry, 'active' | 'validFrom'>): boolean {
+  return entry.active ?? !entry.validFrom;
+}
+
+/**
+ * Get the first sale price in effect, for exporters
+ */
+export function getLiveSalePrice(entries: PriceEntry[] | undefined): PriceEntry | undefined {
+  return entries?.find(isScheduleEntryLive);
+}
+
+const isValidDate = (value: string | undefined): value is string => !!value && !isNaN(new Date(value).getTime());
+
+function getSalePriceEntries(product: Product): PriceEntry[] {
+  return [
+    ...(product.pricingAndStock?.salePrice || []),
+    ...(product.variants || []).flatMap(variant => variant.salePrice || []),
+  ];
+}
+
+/**
+ * Derive every scheduled action of a product, in run order
+ */
+export function getPlannedActions(product: Product): PlannedAction[] {
+  const actions: PlannedAction[] = [];
+  const add = (type: ScheduledActionType, runAt: string | undefined, target?: { id: string; label: string }) => {
+    if (!isValidDate(runAt)) return;
+    actions.push({
+      id: getScheduledActionId(product.id, type, runAt, target?.id),
+      productId: product.id,
+      productName: product.basicInfo.name,
+      sku: product.basicInfo.sku,
+      type,
+      runAt: new Date(runAt).toISOString(),
+      ...(target && { targetId: target.id, targetLabel: target.label }),
+    });
+  };
+
+  add('publish', product.basicInfo.launchDate);
+  add('discontinue', product.basicInfo.endDate);
+
+  getSalePriceEntries(product).forEach(entry => {
+    const target = { id: entry.id, label: `${entry.currency} ${entry.amount}` };
+    add('activate_sale_price', entry.validFrom, target);
+    add('expire_sale_price', entry.validTo, target);
+  });
+
+  (product.marketingSEO.campaignCodes || []).forEach(campaign => {
+    const target = { id: campaign.id, label: campaign.code };
+    add('activate_campaign', campaign.validFrom, target);
+    add('expire_campaign', campaign.validTo, target);
+  });
+
+  return actions.sort((a, b) => a.runAt.localeCompare(b.runAt));
+}
+
+export type ScheduledActionOutcome =
+  | { status: Extract<ScheduledActionStatus, 'completed'>; product: Product }
+  | { status: Extract<ScheduledActionStatus, 'skipped'>; note: string };
+
+function setEntryActive<T extends { id: string; active?: boolean }>(
+  entries: T[] | undefined,
+  id: string,
+  active: boolean
+): T[] | undefined {
+  return entries?.map(entry => (entry.id === id ? { ...entry, active } : entry));
+}
+
+function applyEntryAction(
+  product: Product,
+  action: PlannedAction,
+  kind: 'sale price' | 'campaign',
+  active: boolean
+): ScheduledActionOutcome {
+  const entries: Array<PriceEntry | CampaignEntry> = kind === 'sale price'
+    ? getSalePriceEntries(product)
+    : product.marketingSEO.campaignCodes || [];
+  const entry = entries.find(e => e.id === action.targetId);
+  if (!entry) return { status: 'skipped', note: `The ${kind} no longer exists` };
+  if (entry.active === active) return { status: 'skipped', note: `The ${kind} is already ${active ? 'active' : 'inactive'}` };
+
+  if (kind === 'campaign') {
+    return {
+      status: 'completed',
+      product: {
+        ...product,
+        marketingSEO: { ...product.marketingSEO, campaignCodes: setEntryActive(product.marketingSEO.campaignCodes, entry.id, active) },
+      },
+    };
+  }
+  return {
+    status: 'completed',
+    product: {
+      ...product,
+      pricingAndStock: product.pricingAndStock && {
+        ...product.pricingAndStock,
+        salePrice: setEntryActive(product.pricingAndStock.salePrice, entry.id, active),
+      },
+      variants: product.variants?.map(variant => ({ ...variant, salePrice: setEntryActive(variant.salePrice, entry.id, active) })),
+    },
+  };
+}
+
+/**
+ * Apply a scheduled action that only changes product data. Publishing goes
+ * through the workflow and is handled by the scheduler service.
+ */
+export function applyScheduledAction(product: Product, action: PlannedAction): ScheduledActionOutcome {
+  switch (action.type) {
+    case 'discontinue':
+      if (product.basicInfo.status === 'discontinued') return { status: 'skipped', note: 'Product is already discontinued' };
+      return { status: 'completed', product: { ...product, basicInfo: { ...product.basicInfo, status: 'discontinued' } } };
+    case 'activate_sale_price':
+      return applyEntryAction(product, action, 'sale price', true);
+    case 'expire_sale_price':
+      return applyEntryAction(product, action, 'sale price', false);
+    case 'activate_campaign':
+      return applyEntryAction(product, action, 'campaign', true);
+    case 'expire_campaign':
+      return applyEntryAction(product, action, 'campaign', false);
+    default:
+      return { status: 'skipped', note: `"${action.type}" is not a data action` };
+  }
+}
@@ -0,0 +1,298 @@
+/**
+ * Scheduler Service
+ *
+ * Runs the actions products schedule through their dates: publishing
+ * approved products at their launch date, discontinuing them at their end
+ * date, and starting and ending sale prices and campaigns. Actions are
+ * derived from the products on every run; only outcomes are stored.
+ *
+ * Call runDueActions from a cron job every few minutes (POST
+ * /api/schedule/run). A launch that is due before the product is approved
+ * waits and runs once the product is approved.
+ */
+
+import type { Product } from '@/types/product';
+import type { ScheduledAction, ScheduledActionRecord, ScheduledActionType, SchedulerRunSummary } from '@/types/schedule';
+import { SCHEDULED_ACTION_LABELS } from '@/types/schedule';
+import { ProductWorkflow, UserRole, WorkflowState } from '@/types/workflow';
+import { AuditTrailIntegration } from './audit-trail-integration';
+import { firestoreScheduledActionRepository, FirestoreScheduledActionRepository } from './firestore-scheduled-action-repository';
+import { localeService, LocaleService } from './locale-service';
+import { productService, ProductService } from './product-service';
+import { RolePermissions } from './role-permissions';
+import { applyScheduledAction, getPlannedActions, type PlannedAction } from './scheduled-actions';
+import { WorkflowStateManager } from './workflow-state-manager';
+
+/**
+ * Scheduler Service Result
+ */
+export interface SchedulerServiceResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  code?: string;
+  details?: string[];
+}
+
+export interface SchedulerUser {
+  userId: string;
+  userName?: string;
+  userRole: UserRole;
+  email?: string;
+}
+
+// Scheduled actions run as this user in the audit trail
+export const SCHEDULER_USER: SchedulerUser = {
+  userId: 'system-scheduler',
+  userName: 'Scheduler',
+  userRole: UserRole.ADMIN,
+};
+
+const WAITING_FOR_APPROVAL = 'Waiting for the product to be approved';
+
+// What running one action did; 'waiting' actions are retried on the next run
+interface RunOutcome {
+  status: 'completed' | 'skipped' | 'failed' | 'waiting';
+  note?: string;
+  product?: Product;
+}
+
+export interface ScheduleFilter {
+  from?: string;
+  to?: string;
+  type?: ScheduledActionType;
+}
+
+export class SchedulerService {
+  private audit: AuditTrailIntegration;
+
+  constructor(
+    private products: ProductService = productService,
+    private records: FirestoreScheduledActionRepository = firestoreScheduledActionRepository,
+    private locales: LocaleService = localeService,
+    private stateManager: WorkflowStateManager = new WorkflowStateManager(),
+    audit?: AuditTrailIntegration
+  ) {
+    // A separate state manager, so transitions are audited once, after they are saved
+    this.audit = audit || new AuditTrailIntegration(new WorkflowStateManager(), new RolePermissions());
+  }
+
+  /**
+   * List scheduled actions for the calendar: every action the products
+   * currently schedule, plus recorded outcomes of actions whose dates have
+   * since moved
+   */
+  async getSchedule(filter: ScheduleFilter = {}, now: Date = new Date()): Promise<ScheduledAction[]> {
+    const [products, records] = await Promise.all([this.products.getAllProducts(), this.records.getAll()]);
+    const recordsById = new Map(records.map(record => [record.id, record]));
+
+    const planned: ScheduledAction[] = products.flatMap(product => getPlannedActions(product).map(action => {
+      const record = recordsById.get(action.id);
+      if (record) return record;
+      const waiting = action.type === 'publish' && new Date(action.runAt) <= now &&
+        product.workflowState !== WorkflowState.APPROVED && product.workflowState !== WorkflowState.PUBLISHED;
+      return { ...action, status: 'pending' as const, ...(waiting && { note: WAITING_FOR_APPROVAL }) };
+    }));
+    const plannedIds = new Set(planned.map(action => action.id));
+    const history = records.filter(record => !plannedIds.has(record.id));
+
+    return [...planned, ...history]
+      .filter(action => (!filter.from || action.runAt >= filter.from) && (!filter.to || action.runAt < filter.to))
+      .filter(action => !filter.type || action.type === filter.type)
+      .sort((a, b) => a.runAt.localeCompare(b.runAt));
+  }
+
+  /**
+   * Cancel a pending action so the scheduler never runs it
+   */
+  async cancelAction(id: string, user: SchedulerUser, reason?: string): Promise<SchedulerServiceResult<ScheduledAction>> {
+    const action = await this.findPlannedAction(id);
+    if (!action) {
+      return { success: false, error: 'Scheduled action not found', code: 'NOT_FOUND' };
+    }
+    const existing = await this.records.getById(id);
+    if (existing) {
+      return { success: false, error: `Scheduled action is already ${existing.status}`, code: 'NOT_PENDING' };
+    }
+
+    const record = await this.record(action, 'cancelled', user, reason);
+    this.audit.createProductUpdateAuditEntry(
+      user.userId,
+      user.userRole,
+      user.email || '',
+      action.productId,
+      { scheduledActions: { [id]: 'pending' } },
+      { scheduledActions: { [id]: 'cancelled' } },
+      reason || `Cancelled scheduled action: ${this.describe(action)}`,
+      { userName: user.userName, source: 'scheduler' }
+    );
+    return { success: true, data: record };
+  }
+
+  /**
+   * Run every pending action that is due, oldest first
+   */
+  async runDueActions(tenantId: string, now: Date = new Date()): Promise<SchedulerServiceResult<SchedulerRunSummary>> {
+    const [products, records] = await Promise.all([this.products.getAllProducts(), this.records.getAll()]);
+    const recordedIds = new Set(records.map(record => record.id));
+    const translationRequirement = await this.locales.getPublishRequirement(tenantId);
+
+    const summary: SchedulerRunSummary = { runAt: now.toISOString(), completed: 0, skipped: 0, failed: 0, waiting: 0, actions: [] };
+
+    for (const initial of products) {
+      let product = initial;
+      const due = getPlannedActions(product).filter(action => !recordedIds.has(action.id) && new Date(action.runAt) <= now);
+
+      for (const action of due) {
+        let outcome: RunOutcome;
+        try {
+          outcome = action.type === 'publish'
+            ? await this.publish(product, action, tenantId, translationRequirement)
+            : await this.applyDataAction(product, action, tenantId);
+          if (outcome.product) product = outcome.product;
+        } catch (error) {
+          console.error(`Scheduled action ${action.id} failed:`, error);
+          outcome = { status: 'failed', note: error instanceof Error ? error.message : 'Unknown error' };
+        }
+
+        const { status, note } = outcome;
+        if (status !== 'waiting') {
+          await this.record(action, status, SCHEDULER_USER, note, now);
+        }
+        summary[status]++;
+        summary.actions.push({ id: action.id, productId: action.productId, sku: action.sku, type: action.type, status: status === 'waiting' ? 'pending' : status, note });
+      }
+    }
+
+    return { success: true, data: summary };
+  }
+
+  private async applyDataAction(product: Product, action: PlannedAction, tenantId: string): Promise<RunOutcome> {
+    const outcome = applyScheduledAction(product, action);
+    if (outcome.status === 'skipped') return { status: outcome.status, note: outcome.note };
+
+    const updated = await this.save({ ...outcome.product, updatedAt: new Date().toISOString() }, action, tenantId);
+    this.audit.createProductUpdateAuditEntry(
+      SCHEDULER_USER.userId,
+      SCHEDULER_USER.userRole,
+      '',
+      product.id,
+      product,
+      updated,
+      this.describe(action),
+      { userName: SCHEDULER_USER.userName, source: 'scheduler', automatic: true, scheduledActionId: action.id }
+    );
+    return { status: 'completed', product: updated };
+  }
+
+  /**
+   * Publish an approved product. Launches of products that are not approved
+   * yet, or whose required translations are incomplete, wait.
+   */
+  private async publish(
+    product: Product,
+    action: PlannedAction,
+    tenantId: string,
+    translationRequirement: Awaited<ReturnType<LocaleService['getPublishRequirement']>>
+  ): Promise<RunOutcome> {
+    if (product.workflowState === WorkflowState.PUBLISHED) {
+      return { status: 'skipped', note: 'Product is already published' };
+    }
+    if (product.workflowState !== WorkflowState.APPROVED) {
+      return { status: 'waiting', note: WAITING_FOR_APPROVAL };
+    }
+
+    const reason = this.describe(action);
+    const result = await this.stateManager.executeStateTransition(
+      {
+        productId: product.id,
+        fromState: WorkflowState.APPROVED,
+        toState: WorkflowState.PUBLISHED,
+        userId: SCHEDULER_USER.userId,
+        userRole: SCHEDULER_USER.userRole,
+        reason,
+        translationRequirement,
+      },
+      { ...product, workflowHistory: product.workflowHistory || [] } as unknown as ProductWorkflow
+    );
+    if (!result.success) {
+      return { status: 'waiting', note: result.error };
+    }
+
+    const now = new Date().toISOString();
+    const updated = await this.save({
+      ...product,
+      workflowState: WorkflowState.PUBLISHED,
+      workflowHistory: [
+        ...(product.workflowHistory || []),
+        {
+          id: `history_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+          action: 'PUBLISH',
+          fromState: WorkflowState.APPROVED,
+          toState: WorkflowState.PUBLISHED,
+          userId: SCHEDULER_USER.userId,
+          userName: SCHEDULER_USER.userName!,
+          timestamp: now,
+          reason,
+        },
+      ],
+      updatedAt: now,
+    }, action, tenantId);
+    this.audit.createStateTransitionAuditEntry(
+      SCHEDULER_USER.userId,
+      SCHEDULER_USER.userRole,
+      '',
+      product.id,
+      WorkflowState.APPROVED,
+      WorkflowState.PUBLISHED,
+      reason,
+      { source: 'scheduler', scheduledActionId: action.id }
+    );
+    return { status: 'completed', product: updated };
+  }
+
+  /**
+   * Save a product the scheduler changed. With a tenant, its webhooks are
+   * told about the update or, for publishing, the transition.
+   */
+  private async save(product: Product, action: PlannedAction, tenantId?: string): Promise<Product> {
+    await this.products.updateProduct(product.id, product, {
+      userId: SCHEDULER_USER.userId,
+      userName: SCHEDULER_USER.userName,
+      reason: this.describe(action),
+      tenantId,
+    });
+    return product;
+  }
+
+  private async findPlannedAction(id: string): Promise<PlannedAction | undefined> {
+    const productId = id.split('__')[0];
+    const product = await this.products.getProductById(productId);
+    return product ? getPlannedActions(product).find(action => action.id === id) : undefined;
+  }
+
+  private async record(
+    action: PlannedAction,
+    status: ScheduledActionRecord['status'],
+    user: SchedulerUser,
+    note?: string,
+    at: Date = new Date()
+  ): Promise<ScheduledActionRecord> {
+    const record: ScheduledActionRecord = {
+      ...action,
+      status,
+      ...(note && { note }),
+      recordedAt: at.toISOString(),
+      recordedBy: { userId: user.userId, ...(user.userName && { userName: user.userName }) },
+    };
+    await this.records.save(record);
+    return record;
+  }
+
+  private describe(action: PlannedAction): string {
+    const target = action.targetLabel ? ` ${action.targetLabel}` : '';
+    return `Scheduled: ${SCHEDULED_ACTION_LABELS[action.type]}${target} (${action.sku})`;
+  }
+}
+
+export const schedulerService = new SchedulerService();
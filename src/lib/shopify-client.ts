@@ -0,0 +1,275 @@
+/**
+ * Shopify Admin REST client
+ *
+ * The product endpoints the import, export and sync use. Requests that
+ * Shopify throttles (429) are retried after the delay it asks for.
+ */
+
+export const SHOPIFY_API_VERSION = '2024-04';
+
+// Products per page when listing; the most Shopify allows
+const PAGE_LIMIT = 250;
+
+// Attempts of a throttled request before giving up
+const MAX_THROTTLED_ATTEMPTS = 4;
+
+// Used when a 429 response has no Retry-After header
+const DEFAULT_RETRY_AFTER_MS = 2000;
+
+// Characters of an error response kept in the error message
+const MAX_ERROR_LENGTH = 500;
+
+// Shopify API types (simplified)
+export interface ShopifyImage {
+  id: number;
+  product_id: number;
+  position?: number;
+  src: string;
+  alt: string | null;
+  width: number;
+  height: number;
+}
+
+export interface ShopifyOption {
+  id: number;
+  name: string;
+  position: number;
+  values: string[];
+}
+
+export interface ShopifyVariant {
+  id: number;
+  product_id: number;
+  title: string; // e.g., "Red / S"
+  price: string;
+  compare_at_price: string | null;
+  sku: string | null;
+  barcode: string | null; // GTIN
+  inventory_quantity: number;
+  option1: string | null;
+  option2: string | null;
+  option3: string | null;
+  weight?: number;
+  weight_unit?: 'g' | 'kg' | 'oz' | 'lb';
+}
+
+export interface ShopifyProduct {
+  id: number;
+  title: string;
+  body_html: string | null;
+  vendor: string;
+  product_type: string;
+  created_at: string;
+  updated_at: string;
+  published_at: string | null;
+  status: 'active' | 'archived' | 'draft';
+  tags: string;
+  options: ShopifyOption[];
+  variants: ShopifyVariant[];
+  images: ShopifyImage[];
+}
+
+export interface ShopifyOptionPayload {
+  name: string;
+  values: string[];
+}
+
+export interface ShopifyProductVariantPayload {
+  id?: number; // Set to update an existing variant
+  sku?: string;
+  price: string;
+  compare_at_price?: string | null;
+  barcode?: string; // GTIN
+  option1?: string | null;
+  option2?: string | null;
+  option3?: string | null;
+  weight?: number;
+  weight_unit?: 'g' | 'kg' | 'oz' | 'lb';
+}
+
+export interface ShopifyMetafieldPayload {
+  namespace: string;
+  key: string;
+  type: string;
+  value: string;
+}
+
+export interface ShopifyMetafield extends ShopifyMetafieldPayload {
+  id: number;
+}
+
+export interface ShopifyImagePayload {
+  id?: number; // Set to keep an existing image
+  src?: string;
+  alt?: string;
+}
+
+export interface ShopifyProductPayload {
+  title: string;
+  body_html?: string;
+  vendor?: string;
+  product_type?: string;
+  status?: 'active' | 'draft' | 'archived';
+  tags?: string;
+  options?: ShopifyOptionPayload[];
+  variants?: ShopifyProductVariantPayload[];
+  images?: ShopifyImagePayload[];
+  metafields?: ShopifyMetafieldPayload[];
+}
+
+export interface ShopifyShop {
+  id: number;
+  name: string;
+  domain: string;
+  myshopify_domain: string;
+}
+
+export interface ShopifyProductPage {
+  products: ShopifyProduct[];
+  nextPageInfo: string | null;
+}
+
+/**
+ * A Shopify request that failed; status is 0 when Shopify could not be reached
+ */
+export class ShopifyApiError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'ShopifyApiError';
+  }
+}
+
+/**
+ * The shop's domain without protocol or trailing slash, e.g. "acme.myshopify.com"
+ */
+export function normalizeShopDomain(storeUrl: string): string {
+  return storeUrl.trim().replace(/^https?:\/\//i, '').replace(/\/+$/, '').toLowerCase();
+}
+
+/**
+ * page_info of the rel="next" link of a Link header
+ */
+export function parseNextPageInfo(linkHeader: string | null): string | null {
+  if (!linkHeader) return null;
+  const nextLink = linkHeader.split(',').find(link => link.includes('rel="next"'));
+  const match = nextLink?.match(/<([^>]+)>/);
+  if (!match) return null;
+  try {
+    return new URL(match[1]).searchParams.get('page_info');
+  } catch (error) {
+    console.error('Error parsing next link URL for page_info:', error);
+    return null;
+  }
+}
+
+export class ShopifyClient {
+  private baseUrl: string;
+
+  constructor(
+    storeUrl: string,
+    private accessToken: string,
+    private fetchFn: typeof fetch = (input, init) => fetch(input, init),
+    private sleep: (ms: number) => Promise<void> = ms => new Promise(resolve => setTimeout(resolve, ms))
+  ) {
+    this.baseUrl = `https://${normalizeShopDomain(storeUrl)}/admin/api/${SHOPIFY_API_VERSION}`;
+  }
+
+  /**
+   * The shop the token belongs to; used to check a connection
+   */
+  async getShop(): Promise<ShopifyShop> {
+    const response = await this.request('GET', '/shop.json');
+    return (await response.json()).shop;
+  }
+
+  /**
+   * One page of products, oldest first
+   */
+  async listProductsPage(pageInfo?: string | null, limit = PAGE_LIMIT): Promise<ShopifyProductPage> {
+    const query = new URLSearchParams({ limit: String(limit) });
+    if (pageInfo) query.set('page_info', pageInfo);
+    const response = await this.request('GET', `/products.json?${query}`);
+    const data = await response.json();
+    if (!Array.isArray(data?.products)) {
+      throw new ShopifyApiError('Invalid product data received from Shopify.', 502);
+    }
+    return { products: data.products, nextPageInfo: parseNextPageInfo(response.headers.get('Link')) };
+  }
+
+  /**
+   * Every product of the shop
+   */
+  async listAllProducts(): Promise<ShopifyProduct[]> {
+    const products: ShopifyProduct[] = [];
+    let pageInfo: string | null = null;
+    do {
+      const page = await this.listProductsPage(pageInfo);
+      products.push(...page.products);
+      pageInfo = page.nextPageInfo;
+    } while (pageInfo);
+    return products;
+  }
+
+  /**
+   * A product's metafields; product listings do not include them
+   */
+  async listProductMetafields(productId: number): Promise<ShopifyMetafield[]> {
+    const response = await this.request('GET', `/products/${productId}/metafields.json?limit=${PAGE_LIMIT}`);
+    return (await response.json()).metafields || [];
+  }
+
+  async createProduct(product: ShopifyProductPayload): Promise<ShopifyProduct> {
+    const response = await this.request('POST', '/products.json', { product });
+    return (await response.json()).product;
+  }
+
+  /**
+   * Replace a product's fields. Variants and images left out of the payload
+   * are deleted; include their IDs to keep them.
+   */
+  async updateProduct(id: number, product: Partial<ShopifyProductPayload>): Promise<ShopifyProduct> {
+    const response = await this.request('PUT', `/products/${id}.json`, { product: { ...product, id } });
+    return (await response.json()).product;
+  }
+
+  private async request(method: string, path: string, body?: unknown): Promise<Response> {
+    for (let attempt = 1; ; attempt++) {
+      let response: Response;
+      try {
+        response = await this.fetchFn(`${this.baseUrl}${path}`, {
+          method,
+          headers: {
+            'X-Shopify-Access-Token': this.accessToken,
+            'Content-Type': 'application/json',
+          },
+          body: body === undefined ? undefined : JSON.stringify(body),
+        });
+      } catch (error) {
+        throw new ShopifyApiError(`Could not reach Shopify: ${(error as Error).message}`, 0);
+      }
+
+      if (response.status === 429 && attempt < MAX_THROTTLED_ATTEMPTS) {
+        const retryAfter = Number(response.headers.get('Retry-After'));
+        await this.sleep(retryAfter > 0 ? retryAfter * 1000 : DEFAULT_RETRY_AFTER_MS);
+        continue;
+      }
+      if (!response.ok) {
+        throw new ShopifyApiError(await readErrorDetail(response), response.status);
+      }
+      return response;
+    }
+  }
+}
+
+async function readErrorDetail(response: Response): Promise<string> {
+  const fallback = `Shopify API request failed (${response.status}): ${response.statusText}`;
+  const text = await response.text().catch(() => '');
+  if (!text) return fallback;
+  try {
+    const data = JSON.parse(text);
+    const detail = data.errors || data.error || data;
+    return typeof detail === 'string' ? detail : JSON.stringify(detail);
+  } catch {
+    return text.substring(0, MAX_ERROR_LENGTH);
+  }
+}
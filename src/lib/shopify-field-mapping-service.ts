@@ -0,0 +1,80 @@
+/**
+ * Shopify Field Mapping Service
+ *
+ * Reads and updates each tenant's mapping of Pimify fields to Shopify
+ * metafields, tags and product type. Tenants that have not configured one
+ * get the first category as product type and nothing else.
+ */
+
+import type { ShopifyFieldMappingSettings, UpdateShopifyFieldMappingInput } from '@/types/shopify-field-mapping';
+import { DEFAULT_SHOPIFY_FIELD_MAPPING } from '@/types/shopify-field-mapping';
+import { attributeFamilyService, AttributeFamilyService } from './attribute-family-service';
+import {
+  firestoreShopifyFieldMappingRepository,
+  FirestoreShopifyFieldMappingRepository,
+} from './firestore-shopify-field-mapping-repository';
+import {
+  collectShopifyMappingAttributes,
+  validateShopifyFieldMapping,
+  type ShopifyFieldMapper,
+} from './shopify-field-mapping';
+
+/**
+ * Shopify Field Mapping Service Result
+ */
+export interface ShopifyFieldMappingServiceResult<T = ShopifyFieldMappingSettings> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  code?: string;
+  details?: string[];
+}
+
+export class ShopifyFieldMappingService {
+  constructor(
+    private settingsRepo: FirestoreShopifyFieldMappingRepository = firestoreShopifyFieldMappingRepository,
+    private families: AttributeFamilyService = attributeFamilyService
+  ) { }
+
+  async getSettings(tenantId: string): Promise<ShopifyFieldMappingSettings> {
+    try {
+      return (await this.settingsRepo.getByTenant(tenantId)) || DEFAULT_SHOPIFY_FIELD_MAPPING;
+    } catch (error) {
+      console.warn('Failed to load the Shopify field mapping, using defaults:', error);
+      return DEFAULT_SHOPIFY_FIELD_MAPPING;
+    }
+  }
+
+  async updateSettings(
+    tenantId: string,
+    input: UpdateShopifyFieldMappingInput,
+    userId?: string
+  ): Promise<ShopifyFieldMappingServiceResult> {
+    const attributes = collectShopifyMappingAttributes(await this.families.listFamilies());
+    const errors = validateShopifyFieldMapping(input, attributes);
+    if (errors.length > 0) {
+      return { success: false, error: 'Invalid Shopify field mapping', code: 'VALIDATION_ERROR', details: errors };
+    }
+
+    const settings: ShopifyFieldMappingSettings = {
+      metafields: input.metafields.map(({ id, source, namespace, key, type }) => ({ id, source, namespace, key, type })),
+      tags: input.tags.map(({ id, source, prefix }) => ({ id, source, ...(prefix && { prefix }) })),
+      productTypeSource: input.productTypeSource,
+      updatedAt: new Date().toISOString(),
+      ...(userId && { updatedBy: userId }),
+    };
+
+    await this.settingsRepo.save(tenantId, settings);
+    return { success: true, data: settings };
+  }
+
+  /**
+   * The mapping and the attributes it names, for a sync
+   */
+  async getMapper(tenantId: string): Promise<ShopifyFieldMapper> {
+    const [settings, families] = await Promise.all([this.getSettings(tenantId), this.families.listFamilies()]);
+    return { settings, attributes: collectShopifyMappingAttributes(families) };
+  }
+}
+
+export const shopifyFieldMappingService = new ShopifyFieldMappingService();
@@ -0,0 +1,58 @@
+import { create } from 'zustand';
+import type { ShopifyFieldMappingSettings, UpdateShopifyFieldMappingInput } from '@/types/shopify-field-mapping';
+import { DEFAULT_SHOPIFY_FIELD_MAPPING } from '@/types/shopify-field-mapping';
+
+interface ShopifyFieldMappingState {
+  settings: ShopifyFieldMappingSettings; // Defaults until the tenant's mapping is loaded
+  isLoaded: boolean;
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  fetchSettings: () => Promise<void>;
+  updateSettings: (input: UpdateShopifyFieldMappingInput) => Promise<ShopifyFieldMappingSettings>;
+}
+
+function buildHeaders(): Record<string, string> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  const token = typeof window !== 'undefined' ? localStorage.getItem('accessToken') : null;
+  if (token) headers['Authorization'] = `Bearer ${token}`;
+  return headers;
+}
+
+async function request<T>(url: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(url, { ...init, headers: buildHeaders() });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok || !data.success) {
+    const details = Array.isArray(data.details) && data.details.length > 0 ? `: ${data.details.join('; ')}` : '';
+    throw new Error((data.error || `Request failed: ${response.status} ${response.statusText}`) + details);
+  }
+  return data.data as T;
+}
+
+export const useShopifyFieldMappingStore = create<ShopifyFieldMappingState>((set) => ({
+  settings: DEFAULT_SHOPIFY_FIELD_MAPPING,
+  isLoaded: false,
+  isLoading: false,
+  error: null,
+
+  fetchSettings: async () => {
+    set({ isLoading: true, error: null });
+    try {
+      const settings = await request<ShopifyFieldMappingSettings>('/api/settings/shopify-mapping');
+      set({ settings, isLoaded: true, isLoading: false });
+    } catch (error) {
+      console.error('Error fetching Shopify field mapping:', error);
+      set({ error: (error as Error).message, isLoading: false });
+    }
+  },
+
+  updateSettings: async (input) => {
+    const settings = await request<ShopifyFieldMappingSettings>('/api/settings/shopify-mapping', {
+      method: 'PUT',
+      body: JSON.stringify(input),
+    });
+    set({ settings, isLoaded: true });
+    return settings;
+  },
+}));
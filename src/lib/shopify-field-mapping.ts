@@ -0,0 +1,588 @@
+/**
+ * Shopify field mapping
+ *
+ * Reads the Pimify fields a tenant maps to Shopify metafields, tags and the
+ * product type, converts them to Shopify's metafield value types on export,
+ * and writes the values Shopify has back into the product on import.
+ * Mappings are checked against the metafield types when they are saved;
+ * values that still do not fit, e.g. a spec that is not a number, fail the
+ * product's export with a message naming the metafield.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { z } from 'zod';
+import type { AttributeDefinition, AttributeValue, QuantityValue } from '@/types/attribute';
+import type { KeyValueEntry, MediaEntry, MultilingualString, Product } from '@/types/product';
+import type {
+  ShopifyFieldMappingSettings,
+  ShopifyMappingField,
+  ShopifyMetafieldType,
+  UpdateShopifyFieldMappingInput,
+} from '@/types/shopify-field-mapping';
+import {
+  SHOPIFY_MAPPING_FIELD_LABELS,
+  SHOPIFY_METAFIELD_TYPE_LABELS,
+  SHOPIFY_METAFIELD_TYPES,
+} from '@/types/shopify-field-mapping';
+import type { CategoryNameResolver } from './category-tree';
+import type { ShopifyMetafield, ShopifyMetafieldPayload, ShopifyProduct, ShopifyProductPayload } from './shopify-client';
+import { convertQuantity, normalizeQuantity } from './units-of-measure';
+
+// Limits per tenant; each metafield is sent with every product
+const MAX_METAFIELD_MAPPINGS = 50;
+const MAX_TAG_MAPPINGS = 20;
+
+// Shopify's limits on metafield namespaces and keys
+const NAMESPACE_PATTERN = /^[A-Za-z0-9_-]{3,255}$/;
+const KEY_PATTERN = /^[A-Za-z0-9_-]{2,64}$/;
+
+// Written by bundle exports (see shopify-mapping.ts)
+const RESERVED_METAFIELDS = ['pim.bundle_components'];
+
+const metafieldTypeSchema = z.enum(SHOPIFY_METAFIELD_TYPES as [ShopifyMetafieldType, ...ShopifyMetafieldType[]]);
+
+/**
+ * Request schema for the Shopify mapping settings; validateShopifyFieldMapping
+ * checks the fields and types
+ */
+export const shopifyFieldMappingSchema = z.object({
+  metafields: z.array(z.object({
+    id: z.string().min(1),
+    source: z.string().trim().min(1, 'Choose a field for every metafield'),
+    namespace: z.string().trim(),
+    key: z.string().trim(),
+    type: metafieldTypeSchema,
+  })).max(MAX_METAFIELD_MAPPINGS, `At most ${MAX_METAFIELD_MAPPINGS} metafields can be mapped`),
+  tags: z.array(z.object({
+    id: z.string().min(1),
+    source: z.string().trim().min(1, 'Choose a field for every tag'),
+    prefix: z.string().trim().optional(),
+  })).max(MAX_TAG_MAPPINGS, `At most ${MAX_TAG_MAPPINGS} tag mappings are allowed`),
+  productTypeSource: z.string().trim().min(1),
+});
+
+/**
+ * Thrown when a product's value does not fit the metafield's type
+ */
+export class ShopifyFieldMappingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ShopifyFieldMappingError';
+  }
+}
+
+// What a source holds, which decides the metafield types it can be written to
+type SourceKind = 'text' | 'multilingual' | 'list' | 'urls' | 'keyValues' | 'number' | 'boolean' | 'date' | 'enum' | 'enumList';
+
+const FIELD_KINDS: Record<ShopifyMappingField, SourceKind> = {
+  categories: 'list',
+  brand: 'text',
+  gtin: 'text',
+  countryOfOrigin: 'text',
+  warrantyInfo: 'multilingual',
+  maintenanceInstructions: 'multilingual',
+  technicalSpecs: 'keyValues',
+  properties: 'keyValues',
+  manuals: 'urls',
+  certificates: 'urls',
+};
+
+// Text is checked value by value on export, so it may go to any scalar type
+const COMPATIBLE_TYPES: Record<SourceKind, ShopifyMetafieldType[]> = {
+  text: ['single_line_text_field', 'multi_line_text_field', 'number_integer', 'number_decimal', 'boolean', 'date', 'url', 'json'],
+  multilingual: ['single_line_text_field', 'multi_line_text_field', 'url', 'json'],
+  list: ['list.single_line_text_field', 'single_line_text_field', 'multi_line_text_field', 'json'],
+  urls: ['list.url', 'url', 'multi_line_text_field', 'json'],
+  keyValues: ['json', 'multi_line_text_field'],
+  number: ['number_integer', 'number_decimal', 'single_line_text_field', 'json'],
+  boolean: ['boolean', 'single_line_text_field', 'json'],
+  date: ['date', 'single_line_text_field', 'json'],
+  enum: ['single_line_text_field', 'json'],
+  enumList: ['list.single_line_text_field', 'single_line_text_field', 'json'],
+};
+
+// Kinds that make one product type or one tag per value
+const PRODUCT_TYPE_KINDS: SourceKind[] = ['text', 'multilingual', 'list', 'enum', 'enumList'];
+const TAG_KINDS: SourceKind[] = ['text', 'list', 'number', 'enum', 'enumList'];
+
+const ATTRIBUTE_KINDS: Record<AttributeDefinition['type'], SourceKind> = {
+  text: 'text',
+  multilingual: 'multilingual',
+  number: 'number',
+  boolean: 'boolean',
+  date: 'date',
+  enum: 'enum',
+};
+
+type ParsedSource =
+  | { field: ShopifyMappingField }
+  | { entry: 'spec' | 'property'; name: string }
+  | { attribute: AttributeDefinition };
+
+// Attribute definitions by code, from all attribute families
+export type ShopifyMappingAttributes = Record<string, AttributeDefinition>;
+
+/**
+ * What a sync needs to apply the mapping: the settings and the attributes
+ * their sources can name
+ */
+export interface ShopifyFieldMapper {
+  settings: ShopifyFieldMappingSettings;
+  attributes: ShopifyMappingAttributes;
+}
+
+type MappedValue = string | number | boolean | string[] | Record<string, string> | null;
+
+function parseSource(source: string, attributes: ShopifyMappingAttributes): ParsedSource | null {
+  if (source in FIELD_KINDS) return { field: source as ShopifyMappingField };
+  const [prefix, ...rest] = source.split(':');
+  const name = rest.join(':').trim();
+  if (!name) return null;
+  if (prefix === 'spec' || prefix === 'property') return { entry: prefix, name };
+  if (prefix === 'attribute' && attributes[name]) return { attribute: attributes[name] };
+  return null;
+}
+
+function getSourceKind(parsed: ParsedSource): SourceKind {
+  if ('field' in parsed) return FIELD_KINDS[parsed.field];
+  if ('entry' in parsed) return 'text';
+  const { type, constraints } = parsed.attribute;
+  return type === 'enum' && constraints?.multiple ? 'enumList' : ATTRIBUTE_KINDS[type];
+}
+
+/**
+ * A source as shown in settings, e.g. "Technical spec: Material"
+ */
+export function getShopifyMappingSourceLabel(source: string, attributes: ShopifyMappingAttributes = {}): string {
+  const parsed = parseSource(source, attributes);
+  if (!parsed) return source;
+  if ('field' in parsed) return SHOPIFY_MAPPING_FIELD_LABELS[parsed.field];
+  if ('entry' in parsed) return `${parsed.entry === 'spec' ? 'Technical spec' : 'Property'}: ${parsed.name}`;
+  return `Attribute: ${parsed.attribute.label.en || parsed.attribute.code}`;
+}
+
+/**
+ * Metafield types a source can be written to; empty for unknown sources
+ */
+export function getCompatibleMetafieldTypes(source: string, attributes: ShopifyMappingAttributes): ShopifyMetafieldType[] {
+  const parsed = parseSource(source, attributes);
+  return parsed ? COMPATIBLE_TYPES[getSourceKind(parsed)] : [];
+}
+
+/**
+ * Whether imports can write Shopify values into a source; category names
+ * cannot be turned back into category IDs
+ */
+export function isWritableShopifyMappingSource(source: string, attributes: ShopifyMappingAttributes): boolean {
+  const parsed = parseSource(source, attributes);
+  return !!parsed && !('field' in parsed && parsed.field === 'categories');
+}
+
+/**
+ * Whether a source can be exported as the product type, one value at most
+ */
+export function canMapToShopifyProductType(source: string, attributes: ShopifyMappingAttributes): boolean {
+  const parsed = parseSource(source, attributes);
+  return !!parsed && PRODUCT_TYPE_KINDS.includes(getSourceKind(parsed));
+}
+
+/**
+ * Whether a source can be exported as tags, one per value
+ */
+export function canMapToShopifyTags(source: string, attributes: ShopifyMappingAttributes): boolean {
+  const parsed = parseSource(source, attributes);
+  return !!parsed && TAG_KINDS.includes(getSourceKind(parsed));
+}
+
+/**
+ * Check mapping settings against the attributes and Shopify's metafield
+ * rules. Returns readable errors; empty when the settings are valid.
+ */
+export function validateShopifyFieldMapping(input: UpdateShopifyFieldMappingInput, attributes: ShopifyMappingAttributes): string[] {
+  const errors: string[] = [];
+  const unknown = (source: string) => (source.trim() ? `Unknown field "${source}"` : 'choose a field');
+
+  const productType = parseSource(input.productTypeSource, attributes);
+  if (!productType) errors.push(`Product type: ${unknown(input.productTypeSource)}`);
+  else if (!PRODUCT_TYPE_KINDS.includes(getSourceKind(productType))) {
+    errors.push(`Product type: ${getShopifyMappingSourceLabel(input.productTypeSource, attributes)} cannot be used as the product type`);
+  }
+
+  const seen = new Set<string>();
+  for (const mapping of input.metafields) {
+    const name = `${mapping.namespace}.${mapping.key}`;
+    if (!NAMESPACE_PATTERN.test(mapping.namespace)) {
+      errors.push(`Metafield ${name}: the namespace must be 3 to 255 letters, digits, "-" or "_"`);
+    }
+    if (!KEY_PATTERN.test(mapping.key)) {
+      errors.push(`Metafield ${name}: the key must be 2 to 64 letters, digits, "-" or "_"`);
+    }
+    if (RESERVED_METAFIELDS.includes(name)) errors.push(`Metafield ${name} is used for bundles`);
+    if (seen.has(name)) errors.push(`Metafield ${name} is mapped more than once`);
+    seen.add(name);
+
+    const parsed = parseSource(mapping.source, attributes);
+    if (!parsed) {
+      errors.push(`Metafield ${name}: ${unknown(mapping.source)}`);
+    } else if (!COMPATIBLE_TYPES[getSourceKind(parsed)].includes(mapping.type)) {
+      errors.push(`Metafield ${name}: ${getShopifyMappingSourceLabel(mapping.source, attributes)} cannot be stored as ${SHOPIFY_METAFIELD_TYPE_LABELS[mapping.type]}`);
+    }
+  }
+
+  for (const mapping of input.tags) {
+    const parsed = parseSource(mapping.source, attributes);
+    if (!parsed) errors.push(`Tags: ${unknown(mapping.source)}`);
+    else if (!TAG_KINDS.includes(getSourceKind(parsed))) {
+      errors.push(`Tags: ${getShopifyMappingSourceLabel(mapping.source, attributes)} cannot be written as tags`);
+    }
+    if (mapping.prefix?.includes(',')) errors.push(`Tags: the prefix "${mapping.prefix}" cannot contain commas`);
+  }
+
+  return errors;
+}
+
+const toText = (value: string | undefined) => value?.trim() || null;
+
+function readQuantity(quantity: QuantityValue, definition: AttributeDefinition): number {
+  // Numbers are sent in the attribute's unit, whatever unit they were entered in
+  const converted = definition.unit ? convertQuantity(quantity, definition.unit) : null;
+  return converted?.value ?? quantity.value;
+}
+
+function readAttribute(value: AttributeValue | undefined, definition: AttributeDefinition, localize: (value: MultilingualString) => string): MappedValue {
+  if (value === undefined || value === null) return null;
+  if (Array.isArray(value) || typeof value !== 'object') return value;
+  if ('value' in value && typeof value.value === 'number') return readQuantity(value as QuantityValue, definition);
+  return toText(localize(value as MultilingualString));
+}
+
+/**
+ * The value of a source on a product, in the export locale
+ */
+function readSource(
+  product: Product,
+  parsed: ParsedSource,
+  localize: (value: MultilingualString | undefined) => string,
+  resolveCategoryNames: CategoryNameResolver
+): MappedValue {
+  const specs = product.attributesAndSpecs;
+  if ('entry' in parsed) {
+    const entries = parsed.entry === 'spec' ? specs.technicalSpecs : specs.properties;
+    return toText(entries?.find(entry => entry.key === parsed.name)?.value);
+  }
+  if ('attribute' in parsed) {
+    return readAttribute(specs.attributeValues?.[parsed.attribute.code], parsed.attribute, localize);
+  }
+  switch (parsed.field) {
+    case 'categories': return resolveCategoryNames(specs.categories);
+    case 'brand': return toText(product.basicInfo.brand);
+    case 'gtin': return toText(product.basicInfo.gtin);
+    case 'countryOfOrigin': return toText(specs.countryOfOrigin);
+    case 'warrantyInfo': return toText(localize(specs.warrantyInfo));
+    case 'maintenanceInstructions': return toText(localize(specs.maintenanceInstructions));
+    case 'technicalSpecs': return Object.fromEntries((specs.technicalSpecs || []).map(entry => [entry.key, entry.value]));
+    case 'properties': return Object.fromEntries((specs.properties || []).map(entry => [entry.key, entry.value]));
+    case 'manuals': return (product.media.manuals || []).map(entry => entry.url);
+    case 'certificates': return (product.media.certificates || []).map(entry => entry.url);
+  }
+}
+
+function isEmpty(value: MappedValue): boolean {
+  if (value === null || value === '') return true;
+  if (Array.isArray(value)) return value.length === 0;
+  return typeof value === 'object' && Object.keys(value).length === 0;
+}
+
+function toLines(value: Exclude<MappedValue, null>): string[] {
+  if (Array.isArray(value)) return value.map(String);
+  if (typeof value === 'object') return Object.entries(value).map(([key, text]) => `${key}: ${text}`);
+  return [String(value)];
+}
+
+function toNumber(value: Exclude<MappedValue, null>): number {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && value.trim() !== '') return Number(value.trim().replace(',', '.'));
+  return NaN;
+}
+
+function toUrl(value: string): string {
+  if (!/^https?:\/\/\S+$/i.test(value.trim())) throw new ShopifyFieldMappingError(`"${value}" is not a URL`);
+  return value.trim();
+}
+
+/**
+ * A value as the text Shopify stores for the metafield type, or null when
+ * there is nothing to send
+ */
+export function toShopifyMetafieldValue(value: MappedValue, type: ShopifyMetafieldType): string | null {
+  if (isEmpty(value)) return null;
+  const present = value as Exclude<MappedValue, null>;
+
+  switch (type) {
+    case 'single_line_text_field':
+      return toLines(present).join(', ').replace(/\s*\n\s*/g, ' ');
+    case 'multi_line_text_field':
+      return toLines(present).join('\n');
+    case 'number_integer': {
+      const number = toNumber(present);
+      if (!Number.isSafeInteger(number)) throw new ShopifyFieldMappingError(`"${present}" is not a whole number`);
+      return String(number);
+    }
+    case 'number_decimal': {
+      const number = toNumber(present);
+      if (!Number.isFinite(number)) throw new ShopifyFieldMappingError(`"${present}" is not a number`);
+      return String(number);
+    }
+    case 'boolean': {
+      if (typeof present === 'boolean') return String(present);
+      const text = String(present).trim().toLowerCase();
+      if (['true', 'yes', '1'].includes(text)) return 'true';
+      if (['false', 'no', '0'].includes(text)) return 'false';
+      throw new ShopifyFieldMappingError(`"${present}" is not true or false`);
+    }
+    case 'date': {
+      const text = String(present).trim().substring(0, 10);
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(text) || Number.isNaN(new Date(text).getTime())) {
+        throw new ShopifyFieldMappingError(`"${present}" is not a date (YYYY-MM-DD)`);
+      }
+      return text;
+    }
+    case 'url':
+      return toUrl(toLines(present)[0]);
+    case 'json':
+      return JSON.stringify(present);
+    case 'list.single_line_text_field':
+      return JSON.stringify(toLines(present).map(line => line.replace(/\s*\n\s*/g, ' ')));
+    case 'list.url':
+      return JSON.stringify(toLines(present).map(toUrl));
+  }
+}
+
+/**
+ * A metafield value as Shopify stores it, read back for the source
+ */
+export function fromShopifyMetafieldValue(value: unknown, type: ShopifyMetafieldType): MappedValue {
+  if (value === null || value === undefined || value === '') return null;
+  const text = String(value);
+  switch (type) {
+    case 'number_integer':
+    case 'number_decimal':
+      return Number.isFinite(Number(text)) ? Number(text) : null;
+    case 'boolean':
+      return text === 'true';
+    case 'json':
+    case 'list.single_line_text_field':
+    case 'list.url':
+      try {
+        return JSON.parse(text);
+      } catch {
+        return text;
+      }
+    default:
+      return text;
+  }
+}
+
+function toKeyValues(value: Exclude<MappedValue, null>): Record<string, string> {
+  if (typeof value === 'object' && !Array.isArray(value)) return value;
+  return Object.fromEntries(toLines(value).flatMap(line => {
+    const separator = line.indexOf(':');
+    return separator > 0 ? [[line.substring(0, separator).trim(), line.substring(separator + 1).trim()]] : [];
+  }));
+}
+
+// Keep the IDs of the entries that are still there
+function replaceEntries(entries: KeyValueEntry[] | undefined, values: Record<string, string>): KeyValueEntry[] {
+  return Object.entries(values).map(([key, value]) => {
+    const current = entries?.find(entry => entry.key === key);
+    return current ? { ...current, value: String(value) } : { id: uuidv4(), key, value: String(value) };
+  });
+}
+
+function setEntry(entries: KeyValueEntry[] | undefined, key: string, value: string): KeyValueEntry[] {
+  const list = entries || [];
+  return list.some(entry => entry.key === key)
+    ? list.map(entry => (entry.key === key ? { ...entry, value } : entry))
+    : [...list, { id: uuidv4(), key, value }];
+}
+
+function replaceDocuments(entries: MediaEntry[] | undefined, urls: string[], type: 'manual' | 'certificate'): MediaEntry[] {
+  return urls.map(url => entries?.find(entry => entry.url === url) || { id: uuidv4(), url, type });
+}
+
+function writeAttribute(current: AttributeValue | undefined, value: Exclude<MappedValue, null>, definition: AttributeDefinition, locale: string): AttributeValue {
+  switch (definition.type) {
+    case 'number': {
+      const number = toNumber(Array.isArray(value) ? value[0] : value);
+      if (!Number.isFinite(number)) return current ?? null;
+      return definition.unit ? normalizeQuantity(number, definition.unit) : number;
+    }
+    case 'boolean':
+      return typeof value === 'boolean' ? value : ['true', 'yes', '1'].includes(String(value).toLowerCase());
+    case 'enum':
+      return definition.constraints?.multiple ? toLines(value) : toLines(value)[0];
+    case 'multilingual': {
+      const translations = current && typeof current === 'object' && !Array.isArray(current) && !('value' in current)
+        ? current as MultilingualString
+        : {} as MultilingualString;
+      return { ...translations, [locale]: toLines(value).join('\n') };
+    }
+    default:
+      return toLines(value).join('\n');
+  }
+}
+
+/**
+ * Write a value Shopify has into a writable source, in the import locale
+ */
+function writeSource(product: Product, parsed: ParsedSource, value: Exclude<MappedValue, null>, locale: string): Product {
+  const specs = product.attributesAndSpecs;
+  const withSpecs = (changes: Partial<Product['attributesAndSpecs']>): Product =>
+    ({ ...product, attributesAndSpecs: { ...specs, ...changes } });
+  const text = toLines(value).join('\n');
+
+  if ('entry' in parsed) {
+    return parsed.entry === 'spec'
+      ? withSpecs({ technicalSpecs: setEntry(specs.technicalSpecs, parsed.name, text) })
+      : withSpecs({ properties: setEntry(specs.properties, parsed.name, text) });
+  }
+  if ('attribute' in parsed) {
+    const { code } = parsed.attribute;
+    const attributeValues = specs.attributeValues || {};
+    return withSpecs({ attributeValues: { ...attributeValues, [code]: writeAttribute(attributeValues[code], value, parsed.attribute, locale) } });
+  }
+  switch (parsed.field) {
+    case 'categories': return product;
+    case 'brand': return { ...product, basicInfo: { ...product.basicInfo, brand: text } };
+    case 'gtin': return { ...product, basicInfo: { ...product.basicInfo, gtin: text } };
+    case 'countryOfOrigin': return withSpecs({ countryOfOrigin: text });
+    case 'warrantyInfo': return withSpecs({ warrantyInfo: { ...specs.warrantyInfo!, [locale]: text } });
+    case 'maintenanceInstructions': return withSpecs({ maintenanceInstructions: { ...specs.maintenanceInstructions!, [locale]: text } });
+    case 'technicalSpecs': return withSpecs({ technicalSpecs: replaceEntries(specs.technicalSpecs, toKeyValues(value)) });
+    case 'properties': return withSpecs({ properties: replaceEntries(specs.properties, toKeyValues(value)) });
+    case 'manuals': return { ...product, media: { ...product.media, manuals: replaceDocuments(product.media.manuals, toLines(value), 'manual') } };
+    case 'certificates': return { ...product, media: { ...product.media, certificates: replaceDocuments(product.media.certificates, toLines(value), 'certificate') } };
+  }
+}
+
+function getTags(prefix: string | undefined, value: MappedValue): string[] {
+  if (isEmpty(value)) return [];
+  return toLines(value as Exclude<MappedValue, null>)
+    .map(text => text.replace(/,/g, ' ').trim())
+    .filter(Boolean)
+    .map(text => (prefix ? `${prefix}:${text}` : text));
+}
+
+/**
+ * Add the mapped product type, tags and metafields to an export payload.
+ * Throws a ShopifyFieldMappingError naming the metafield when a value does
+ * not fit its type.
+ */
+export function applyShopifyFieldMappingToPayload(
+  payload: ShopifyProductPayload,
+  product: Product,
+  mapper: ShopifyFieldMapper,
+  localize: (value: MultilingualString | undefined) => string,
+  resolveCategoryNames: CategoryNameResolver
+): ShopifyProductPayload {
+  const { settings, attributes } = mapper;
+  const read = (source: string) => {
+    const parsed = parseSource(source, attributes);
+    return parsed ? readSource(product, parsed, localize, resolveCategoryNames) : null;
+  };
+  const result = { ...payload };
+
+  if (settings.productTypeSource !== 'categories') {
+    const value = read(settings.productTypeSource);
+    result.product_type = isEmpty(value) ? undefined : toLines(value as Exclude<MappedValue, null>)[0];
+  }
+
+  if (settings.tags.length > 0) {
+    const tags = (payload.tags || '').split(',').map(tag => tag.trim()).filter(Boolean);
+    settings.tags.forEach(mapping => tags.push(...getTags(mapping.prefix, read(mapping.source))));
+    result.tags = [...new Set(tags)].join(', ') || undefined;
+  }
+
+  const metafields: ShopifyMetafieldPayload[] = [];
+  for (const mapping of settings.metafields) {
+    try {
+      const value = toShopifyMetafieldValue(read(mapping.source), mapping.type);
+      if (value !== null) metafields.push({ namespace: mapping.namespace, key: mapping.key, type: mapping.type, value });
+    } catch (error) {
+      throw new ShopifyFieldMappingError(`Metafield ${mapping.namespace}.${mapping.key}: ${(error as Error).message}`);
+    }
+  }
+  if (metafields.length > 0) result.metafields = [...(payload.metafields || []), ...metafields];
+  return result;
+}
+
+/**
+ * Write the mapped metafields, prefixed tags and product type of a Shopify
+ * product into the Pimify product it was imported into. Tags read into a
+ * field, or exported from one, are not kept as keywords. A product type
+ * mapped to another field is not a category of new products.
+ */
+export function applyShopifyFieldMappingToProduct(
+  product: Product,
+  shopifyProduct: ShopifyProduct,
+  metafields: ShopifyMetafield[],
+  mapper: ShopifyFieldMapper,
+  options: {
+    locale: string;
+    created: boolean; // A new product, rather than one updated from Shopify
+    localize: (value: MultilingualString | undefined) => string;
+    resolveCategoryNames: CategoryNameResolver;
+  }
+): Product {
+  const { settings, attributes } = mapper;
+  const write = (current: Product, source: string, value: MappedValue): Product => {
+    const parsed = parseSource(source, attributes);
+    return parsed && !isEmpty(value) && isWritableShopifyMappingSource(source, attributes)
+      ? writeSource(current, parsed, value as Exclude<MappedValue, null>, options.locale)
+      : current;
+  };
+  let result = product;
+
+  if (settings.productTypeSource !== 'categories') {
+    result = write(result, settings.productTypeSource, shopifyProduct.product_type || null);
+    if (options.created) result = { ...result, attributesAndSpecs: { ...result.attributesAndSpecs, categories: [] } };
+  }
+
+  for (const mapping of settings.metafields) {
+    const metafield = metafields.find(m => m.namespace === mapping.namespace && m.key === mapping.key);
+    if (metafield) result = write(result, mapping.source, fromShopifyMetafieldValue(metafield.value, mapping.type));
+  }
+
+  let keywords = result.marketingSEO.keywords || [];
+  for (const mapping of settings.tags.filter(tag => tag.prefix)) {
+    const start = `${mapping.prefix!.toLowerCase()}:`;
+    const matches = keywords.filter(tag => tag.toLowerCase().startsWith(start));
+    if (matches.length === 0) continue;
+    keywords = keywords.filter(tag => !matches.includes(tag));
+    const values = matches.map(tag => tag.substring(start.length).trim());
+    result = write(result, mapping.source, values.length === 1 ? values[0] : values);
+  }
+
+  // Unprefixed tags come back as keywords; drop the ones the product exports anyway
+  const unprefixed = settings.tags.filter(tag => !tag.prefix);
+  if (unprefixed.length > 0) {
+    const exported = new Set(unprefixed.flatMap(mapping => {
+      const parsed = parseSource(mapping.source, attributes);
+      return parsed ? getTags(undefined, readSource(result, parsed, options.localize, options.resolveCategoryNames)) : [];
+    }));
+    keywords = keywords.filter(tag => !exported.has(tag));
+  }
+
+  return { ...result, marketingSEO: { ...result.marketingSEO, keywords } };
+}
+
+/**
+ * Attribute definitions by code; the first family defining a code wins
+ */
+export function collectShopifyMappingAttributes(families: Array<{ attributes: AttributeDefinition[] }>): ShopifyMappingAttributes {
+  const attributes: ShopifyMappingAttributes = {};
+  families.forEach(family => family.attributes.forEach(attribute => {
+    if (!attributes[attribute.code]) attributes[attribute.code] = attribute;
+  }));
+  return attributes;
+}
@@ -0,0 +1,394 @@
+/**
+ * Shopify product mapping
+ *
+ * Converts Shopify products to Pimify products and back. Pimify products
+ * that were exported before carry the IDs of their Shopify variants and
+ * images, so an update changes those instead of adding new ones.
+ */
+
+import type { MultilingualString, Product, ProductStatus as PimStatus, MediaEntry, PriceEntry, ProductOption as PimProductOption, ProductVariant as PimProductVariant } from '@/types/product';
+import { initialProductData, defaultMultilingualString } from '@/types/product';
+import { WorkflowState } from '@/types/workflow';
+import type { QuantityValue } from '@/types/attribute';
+import type { ShopifyIdMap } from '@/types/shopify-sync';
+import { v4 as uuidv4 } from 'uuid';
+import { CHANNEL_UNIT_PREFERENCES, DEFAULT_UNIT_PREFERENCES, convertQuantity, formatQuantity, getProductWeight, normalizeQuantity, toPreferredUnit } from './units-of-measure';
+import type { CategoryNameResolver } from './category-tree';
+import { isBundle, isBundleAvailable, type ProductLookup } from './bundles';
+import { getLiveSalePrice } from './scheduled-actions';
+import { applyShopifyFieldMappingToPayload, type ShopifyFieldMapper } from './shopify-field-mapping';
+import type {
+  ShopifyMetafieldPayload,
+  ShopifyProduct,
+  ShopifyProductPayload,
+  ShopifyProductVariantPayload,
+  ShopifyVariant,
+} from './shopify-client';
+
+// Reads a multilingual value in the export locale
+export type Localize = (value: MultilingualString | undefined) => string;
+
+// Assuming NOK as default, ideally this would come from store settings or Shopify API
+const SHOPIFY_STORE_CURRENCY = 'NOK';
+
+function mapShopifyStatusToPim(shopifyStatus: ShopifyProduct['status']): PimStatus {
+  switch (shopifyStatus) {
+    case 'active':
+      return 'active';
+    case 'archived':
+      return 'inactive';
+    case 'draft':
+      return 'development';
+    default:
+      return 'development';
+  }
+}
+
+function mapShopifyStatusToWorkflowState(shopifyStatus: ShopifyProduct['status']): WorkflowState {
+  switch (shopifyStatus) {
+    case 'active':
+      return WorkflowState.PUBLISHED;
+    case 'archived':
+      return WorkflowState.REJECTED;
+    case 'draft':
+      return WorkflowState.DRAFT;
+    default:
+      return WorkflowState.DRAFT;
+  }
+}
+
+function stripHtml(html: string | null): string {
+  if (!html) return '';
+  return html.replace(/<[^>]*>?/gm, '');
+}
+
+/**
+ * Shopify reports a weight of 0 when none is set
+ */
+function mapShopifyWeight(variant: ShopifyVariant | undefined): QuantityValue | undefined {
+  if (!variant?.weight || !variant.weight_unit) return undefined;
+  return normalizeQuantity(variant.weight, variant.weight_unit);
+}
+
+/**
+ * Standard and sale price of a Shopify variant; a compare-at price above
+ * the price makes the price a sale price
+ */
+export function mapShopifyVariantPrices(variant: ShopifyVariant): { standardPrice: PriceEntry[]; salePrice: PriceEntry[] } {
+  const currentPrice = parseFloat(variant.price);
+  const originalPrice = variant.compare_at_price ? parseFloat(variant.compare_at_price) : null;
+
+  if (originalPrice && originalPrice > currentPrice) {
+    return {
+      standardPrice: [{ id: uuidv4(), amount: originalPrice, currency: SHOPIFY_STORE_CURRENCY }],
+      salePrice: [{ id: uuidv4(), amount: currentPrice, currency: SHOPIFY_STORE_CURRENCY }],
+    };
+  }
+  return {
+    standardPrice: [{ id: uuidv4(), amount: currentPrice, currency: SHOPIFY_STORE_CURRENCY }],
+    salePrice: [],
+  };
+}
+
+/**
+ * ID of the Pimify media entry of a Shopify image
+ */
+export function getShopifyImageMediaId(imageId: number): string {
+  return `shopify-image-${imageId}`;
+}
+
+/**
+ * Map a Shopify product to a new Pimify product. Texts are set in the given
+ * locale; variants keep the Shopify variant ID as their ID.
+ */
+export function mapShopifyToPimProduct(shopifyProduct: ShopifyProduct, options: { id: string; locale?: string }): Product {
+  const locale = options.locale || 'en';
+  const inLocale = (text: string): MultilingualString => ({ ...defaultMultilingualString, [locale]: text });
+  const firstVariant = shopifyProduct.variants?.[0];
+  const baseWeight = mapShopifyWeight(firstVariant);
+
+  const longDescription = shopifyProduct.body_html || '';
+  const shortDescription = stripHtml(longDescription).substring(0, 200) + (longDescription.length > 200 ? '...' : '');
+
+  // Base pricing from the first variant (used if no variants are mapped or as a fallback)
+  const basePrices = firstVariant ? mapShopifyVariantPrices(firstVariant) : { standardPrice: [], salePrice: [] };
+
+  // Map Shopify options to PIM options
+  const pimOptions: PimProductOption[] = shopifyProduct.options ? shopifyProduct.options.map(opt => ({
+    id: String(opt.id), // Using Shopify option ID
+    name: opt.name,
+    values: opt.values,
+  })) : [];
+
+  // Map Shopify variants to PIM variants
+  const pimVariants: PimProductVariant[] = [];
+  if (shopifyProduct.variants && shopifyProduct.options && shopifyProduct.options.length > 0) {
+    shopifyProduct.variants.forEach(sv => {
+      const optionValues: Record<string, string> = {};
+      if (shopifyProduct.options[0] && sv.option1) optionValues[shopifyProduct.options[0].name] = sv.option1;
+      if (shopifyProduct.options[1] && sv.option2) optionValues[shopifyProduct.options[1].name] = sv.option2;
+      if (shopifyProduct.options[2] && sv.option3) optionValues[shopifyProduct.options[2].name] = sv.option3;
+
+      pimVariants.push({
+        id: String(sv.id), // Using Shopify variant ID
+        sku: sv.sku || `SHOPIFY-VAR-${sv.id}`,
+        gtin: sv.barcode || undefined,
+        optionValues,
+        ...mapShopifyVariantPrices(sv),
+        costPrice: [], // Shopify doesn't directly expose cost price here
+        weight: mapShopifyWeight(sv),
+      });
+    });
+  }
+
+  const workflowState = mapShopifyStatusToWorkflowState(shopifyProduct.status);
+
+  return {
+    ...initialProductData,
+    id: options.id,
+    basicInfo: {
+      name: inLocale(shopifyProduct.title),
+      sku: firstVariant?.sku || `SKU-${shopifyProduct.id}`,
+      gtin: firstVariant?.barcode || undefined,
+      descriptionShort: inLocale(shortDescription),
+      descriptionLong: inLocale(longDescription),
+      brand: shopifyProduct.vendor || 'Unknown Brand',
+      status: mapShopifyStatusToPim(shopifyProduct.status),
+      launchDate: shopifyProduct.published_at || undefined,
+      internalId: String(shopifyProduct.id),
+    },
+    attributesAndSpecs: {
+      ...initialProductData.attributesAndSpecs,
+      categories: shopifyProduct.product_type ? [shopifyProduct.product_type] : [],
+      technicalSpecs: baseWeight ? [{
+        id: uuidv4(),
+        key: 'Weight',
+        value: formatQuantity(toPreferredUnit(baseWeight, DEFAULT_UNIT_PREFERENCES)),
+        quantity: baseWeight,
+      }] : [],
+    },
+    media: {
+      images: (shopifyProduct.images || []).map((img): MediaEntry => ({
+        id: getShopifyImageMediaId(img.id),
+        url: img.src,
+        altText: inLocale(img.alt || shopifyProduct.title),
+        type: 'image',
+        dataAiHint: 'product image'
+      })),
+    },
+    marketingSEO: {
+      ...initialProductData.marketingSEO,
+      seoTitle: inLocale(shopifyProduct.title),
+      seoDescription: inLocale(shortDescription),
+      keywords: shopifyProduct.tags ? shopifyProduct.tags.split(',').map(tag => tag.trim()).filter(tag => tag) : [],
+    },
+    pricingAndStock: { // This is for the base product if no variants, or as a fallback
+      ...basePrices,
+      costPrice: [],
+    },
+    options: pimOptions,
+    variants: pimVariants,
+    aiSummary: { ...defaultMultilingualString },
+    workflowState,
+    workflowHistory: [{
+      id: uuidv4(),
+      action: 'IMPORT_FROM_SHOPIFY',
+      fromState: WorkflowState.DRAFT,
+      toState: workflowState,
+      userId: 'system',
+      userName: 'System Import',
+      timestamp: new Date().toISOString(),
+      reason: `Imported from Shopify with status: ${shopifyProduct.status}`,
+    }],
+    createdAt: shopifyProduct.created_at || new Date().toISOString(),
+    updatedAt: shopifyProduct.updated_at || new Date().toISOString(),
+  };
+}
+
+function mapPimStatusToShopify(pimStatus: PimStatus, workflowState?: WorkflowState): ShopifyProductPayload['status'] {
+  // Workflow state takes precedence over product status for Shopify export
+  if (workflowState) {
+    switch (workflowState) {
+      case WorkflowState.PUBLISHED:
+        return 'active';
+      case WorkflowState.APPROVED:
+        return 'active';
+      case WorkflowState.DRAFT:
+      case WorkflowState.REVIEW:
+      case WorkflowState.REJECTED:
+        return 'draft';
+      default:
+        return 'draft';
+    }
+  }
+
+  // Fallback to original product status mapping
+  switch (pimStatus) {
+    case 'active':
+      return 'active';
+    case 'development':
+      return 'draft';
+    case 'inactive':
+      return 'draft';
+    case 'discontinued':
+      return 'archived';
+    default:
+      return 'draft';
+  }
+}
+
+/**
+ * Convert a PIM weight to the unit Shopify expects for variants
+ */
+function mapWeightToShopify(weight: QuantityValue | null | undefined): Pick<ShopifyProductVariantPayload, 'weight' | 'weight_unit'> {
+  const unit = CHANNEL_UNIT_PREFERENCES.shopify.mass as ShopifyProductVariantPayload['weight_unit'];
+  const converted = weight && unit ? convertQuantity(weight, unit) : null;
+  return converted ? { weight: converted.value, weight_unit: unit } : {};
+}
+
+/**
+ * Describe a bundle's components in a JSON metafield, so the storefront can
+ * list what is in the kit
+ */
+function mapBundleToShopifyMetafields(product: Product, lookup: ProductLookup, localize: Localize): ShopifyMetafieldPayload[] {
+  const components = (product.bundle?.components || []).map(component => {
+    const componentProduct = lookup(component.productId);
+    const variant = component.variantId ? componentProduct?.variants?.find(v => v.id === component.variantId) : undefined;
+    return {
+      sku: variant?.sku || componentProduct?.basicInfo.sku || component.productId,
+      title: componentProduct ? localize(componentProduct.basicInfo.name) : undefined,
+      quantity: component.quantity,
+    };
+  });
+  return [{ namespace: 'pim', key: 'bundle_components', type: 'json', value: JSON.stringify(components) }];
+}
+
+/**
+ * Images Shopify can load: ones with an absolute or site-relative URL
+ */
+export function getShopifyExportImages(product: Product): MediaEntry[] {
+  return (product.media.images || [])
+    .filter(img => img.type === 'image' && img.url && (img.url.startsWith('http') || img.url.startsWith('/')));
+}
+
+/**
+ * Keys of the Shopify variants a product exports as, in payload order: the
+ * variant IDs, or the product ID for a product without variants
+ */
+export function getShopifyVariantKeys(product: Product): string[] {
+  if (product.options && product.options.length > 0 && product.variants && product.variants.length > 0) {
+    return product.variants.map(variant => variant.id);
+  }
+  return [product.id];
+}
+
+/**
+ * Map a Pimify product to a Shopify product payload. With the IDs of an
+ * earlier export, mapped variants and images are sent with their Shopify IDs.
+ * The tenant's field mapping adds metafields and tags and can take the
+ * product type from another field than the first category.
+ */
+export function mapPimToShopifyProduct(
+  product: Product,
+  resolveCategoryNames: CategoryNameResolver,
+  localize: Localize,
+  lookup: ProductLookup,
+  ids: ShopifyIdMap = { variants: {}, images: {} },
+  fields?: ShopifyFieldMapper
+): { product: ShopifyProductPayload } {
+  const productWeight = getProductWeight(product);
+  const shopifyPayload: ShopifyProductPayload = {
+    title: localize(product.basicInfo.name) || 'Untitled Product',
+    body_html: localize(product.basicInfo.descriptionLong),
+    vendor: product.basicInfo.brand,
+    product_type: resolveCategoryNames(product.attributesAndSpecs.categories)[0] || undefined,
+    status: mapPimStatusToShopify(product.basicInfo.status, product.workflowState),
+    tags: product.marketingSEO.keywords?.join(', ') || undefined,
+  };
+
+  // Bundles go out as one product; they cannot be sold while a component is unavailable
+  if (isBundle(product)) {
+    shopifyPayload.metafields = mapBundleToShopifyMetafields(product, lookup, localize);
+    if (!isBundleAvailable(product, lookup)) shopifyPayload.status = 'draft';
+  }
+
+  const images = getShopifyExportImages(product);
+  if (images.length > 0) {
+    shopifyPayload.images = images.map(img => {
+      const alt = localize(img.altText) || localize(product.basicInfo.name);
+      return ids.images[img.id] ? { id: ids.images[img.id], alt } : { src: img.url!, alt };
+    });
+  }
+
+  // Handle variants
+  if (product.options && product.options.length > 0 && product.variants && product.variants.length > 0) {
+    shopifyPayload.options = product.options.map(opt => ({
+      name: opt.name,
+      values: opt.values,
+    }));
+
+    shopifyPayload.variants = product.variants.map(v => {
+      const variantPayload: ShopifyProductVariantPayload = {
+        ...(ids.variants[v.id] ? { id: ids.variants[v.id] } : {}),
+        sku: v.sku,
+        barcode: v.gtin || undefined,
+        price: "0.00", // Default, will be overridden
+        ...mapWeightToShopify(v.weight || productWeight),
+      };
+
+      const stdPriceEntry = v.standardPrice?.[0];
+      const slPriceEntry = getLiveSalePrice(v.salePrice);
+
+      if (slPriceEntry && stdPriceEntry && slPriceEntry.amount < stdPriceEntry.amount) {
+        variantPayload.price = slPriceEntry.amount.toString();
+        variantPayload.compare_at_price = stdPriceEntry.amount.toString();
+      } else if (stdPriceEntry) {
+        variantPayload.price = stdPriceEntry.amount.toString();
+      } else {
+        // Fallback to main product pricing if variant price is missing - or set a default
+        const mainStdPrice = product.pricingAndStock?.standardPrice?.[0];
+        const mainSalePrice = getLiveSalePrice(product.pricingAndStock?.salePrice);
+        if (mainSalePrice && mainStdPrice && mainSalePrice.amount < mainStdPrice.amount) {
+          variantPayload.price = mainSalePrice.amount.toString();
+          variantPayload.compare_at_price = mainStdPrice.amount.toString();
+        } else if (mainStdPrice) {
+          variantPayload.price = mainStdPrice.amount.toString();
+        }
+      }
+
+      // Map option values to option1, option2, option3
+      // This assumes product.options (PIM) order matches shopifyPayload.options order
+      product.options?.forEach((opt, index) => {
+        if (index < 3) { // Shopify supports up to 3 options
+          (variantPayload as any)[`option${index + 1}`] = v.optionValues[opt.name] || null;
+        }
+      });
+      return variantPayload;
+    });
+  } else {
+    // Single variant logic (fallback or product without options)
+    const standardPriceEntry = product.pricingAndStock?.standardPrice?.[0];
+    const salePriceEntry = getLiveSalePrice(product.pricingAndStock?.salePrice);
+    let shopifyPrice: string = "0.00";
+    let shopifyCompareAtPrice: string | null = null;
+
+    if (salePriceEntry && standardPriceEntry && salePriceEntry.amount < standardPriceEntry.amount) {
+      shopifyPrice = salePriceEntry.amount.toString();
+      shopifyCompareAtPrice = standardPriceEntry.amount.toString();
+    } else if (standardPriceEntry) {
+      shopifyPrice = standardPriceEntry.amount.toString();
+    }
+
+    shopifyPayload.variants = [{
+      ...(ids.variants[product.id] ? { id: ids.variants[product.id] } : {}),
+      sku: product.basicInfo.sku,
+      price: shopifyPrice,
+      compare_at_price: shopifyCompareAtPrice,
+      barcode: product.basicInfo.gtin || undefined,
+      ...mapWeightToShopify(productWeight),
+    }];
+  }
+
+  if (fields) return { product: applyShopifyFieldMappingToPayload(shopifyPayload, product, fields, localize, resolveCategoryNames) };
+  return { product: shopifyPayload };
+}
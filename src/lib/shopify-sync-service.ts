@@ -0,0 +1,365 @@
+/**
+ * Shopify Sync Service
+ *
+ * Runs a sync between the tenant's products and a Shopify shop: lists both
+ * sides, plans each product with planShopifySync and carries the plan out
+ * one product at a time, keeping the links between Pimify and Shopify IDs
+ * up to date. Each run is saved with its outcome per product.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type { Channel } from '@/types/channel';
+import type { Product } from '@/types/product';
+import type {
+  ShopifyIdMap,
+  ShopifyProductMapping,
+  ShopifySyncInput,
+  ShopifySyncItem,
+  ShopifySyncRun,
+} from '@/types/shopify-sync';
+import { applyBundlePricing, createProductLookup, type ProductLookup } from './bundles';
+import type { CategoryIdResolver, CategoryNameResolver } from './category-tree';
+import { categoryService, CategoryService } from './category-service';
+import { channelService, ChannelService } from './channel-service';
+import { resolveProductForChannel } from './channel-overrides';
+import { firestoreShopifySyncRepository, FirestoreShopifySyncRepository } from './firestore-shopify-sync-repository';
+import { integrationCredentialService, IntegrationCredentialService } from './integration-credential-service';
+import { localeService, LocaleService } from './locale-service';
+import { resolveLocalizedText } from './locales';
+import { productService, ProductService } from './product-service';
+import { normalizeShopDomain, ShopifyClient, type ShopifyProduct } from './shopify-client';
+import { applyShopifyFieldMappingToProduct, type ShopifyFieldMapper } from './shopify-field-mapping';
+import { shopifyFieldMappingService, ShopifyFieldMappingService } from './shopify-field-mapping-service';
+import { mapPimToShopifyProduct, mapShopifyToPimProduct, type Localize } from './shopify-mapping';
+import {
+  applyShopifyProduct,
+  collectShopifyIds,
+  planShopifySync,
+  summarizeShopifySync,
+  type ShopifySyncStep,
+} from './shopify-sync';
+
+// Recorded as the reason of the product versions a sync saves
+const SYNC_REASON = 'Shopify sync';
+
+// Runs listed by listRuns
+const RECENT_RUNS_LIMIT = 20;
+
+/**
+ * Shopify Sync Service Result
+ */
+export interface ShopifySyncServiceResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  code?: string;
+  details?: string[];
+}
+
+/**
+ * The user starting a sync
+ */
+export interface ShopifySyncActor {
+  userId: string;
+  userName?: string;
+}
+
+/**
+ * Follows a run as it goes, e.g. to report the progress of a job
+ */
+export interface ShopifySyncObserver {
+  onPlanned?: (steps: number) => void;
+  onStep?: (item: ShopifySyncItem | null) => void; // null for steps that only unlink
+  shouldStop?: () => Promise<boolean>; // Asked before each step; true stops the run
+}
+
+export type ShopifyClientFactory = (storeUrl: string, accessToken: string) => ShopifyClient;
+
+/**
+ * How products are written to Shopify in one run: the channel's overrides
+ * and locale, category names (and IDs for products read back), bundle
+ * components and the tenant's field mapping
+ */
+interface ShopifyExportContext {
+  locale: string;
+  localize: Localize;
+  resolveCategoryNames: CategoryNameResolver;
+  resolveCategoryIds: CategoryIdResolver;
+  lookup: ProductLookup;
+  channel: Channel | null;
+  fields: ShopifyFieldMapper;
+}
+
+interface ShopifyRunContext {
+  tenantId: string;
+  shop: string;
+  client: ShopifyClient;
+  actor: ShopifySyncActor;
+  export: ShopifyExportContext;
+}
+
+export class ShopifySyncService {
+  constructor(
+    private repo: FirestoreShopifySyncRepository = firestoreShopifySyncRepository,
+    private products: ProductService = productService,
+    private channels: ChannelService = channelService,
+    private locales: LocaleService = localeService,
+    private categories: CategoryService = categoryService,
+    private credentials: IntegrationCredentialService = integrationCredentialService,
+    private createClient: ShopifyClientFactory = (storeUrl, accessToken) => new ShopifyClient(storeUrl, accessToken),
+    private fieldMappings: ShopifyFieldMappingService = shopifyFieldMappingService
+  ) { }
+
+  /**
+   * The tenant's most recent runs, newest first
+   */
+  async listRuns(tenantId: string): Promise<ShopifySyncRun[]> {
+    return this.repo.getRecentRuns(tenantId, RECENT_RUNS_LIMIT);
+  }
+
+  async sync(
+    tenantId: string,
+    input: ShopifySyncInput,
+    actor: ShopifySyncActor,
+    observer: ShopifySyncObserver = {}
+  ): Promise<ShopifySyncServiceResult<ShopifySyncRun>> {
+    // Channel overrides (title, descriptions, images, prices) replace base values where set
+    const channelResult = await this.channels.getExportChannel(input.channelId, 'shopify');
+    if (!channelResult.success) {
+      return { success: false, error: channelResult.error, code: channelResult.code };
+    }
+
+    const credentialResult = await this.credentials.resolveCredentials(tenantId, input.integrationId, 'shopify');
+    if (!credentialResult.success) {
+      return { success: false, error: credentialResult.error, code: credentialResult.code };
+    }
+    const { storeUrl, accessToken } = credentialResult.data!;
+
+    const shop = normalizeShopDomain(storeUrl);
+    const run: ShopifySyncRun = {
+      id: uuidv4(),
+      tenantId,
+      integrationId: input.integrationId,
+      shop,
+      direction: input.direction,
+      status: 'completed',
+      startedBy: { userId: actor.userId, userName: actor.userName || '' },
+      startedAt: new Date().toISOString(),
+      finishedAt: '',
+      summary: summarizeShopifySync([]),
+      items: [],
+    };
+
+    const client = this.createClient(storeUrl, accessToken);
+    let shopifyProducts: ShopifyProduct[];
+    try {
+      shopifyProducts = await client.listAllProducts();
+    } catch (error) {
+      console.error('Shopify sync: listing Shopify products failed:', error);
+      run.status = 'failed';
+      run.error = `Could not list Shopify products: ${(error as Error).message}`;
+      run.finishedAt = new Date().toISOString();
+      await this.repo.saveRun(run);
+      return { success: false, error: run.error, code: 'SHOPIFY_ERROR', data: run };
+    }
+
+    const [products, mappings] = await Promise.all([
+      this.products.getAllProducts(),
+      this.repo.getMappings(tenantId, shop),
+    ]);
+    const steps = planShopifySync({
+      direction: input.direction,
+      products,
+      shopifyProducts,
+      mappings,
+      productIds: input.productIds,
+      workflowStates: input.workflowStates,
+    });
+
+    const context: ShopifyRunContext = {
+      tenantId,
+      shop,
+      client,
+      actor,
+      export: await this.getExportContext(tenantId, channelResult.data || null, products),
+    };
+
+    // One product at a time; Shopify allows a few REST calls per second
+    observer.onPlanned?.(steps.length);
+    for (const step of steps) {
+      if (observer.shouldStop && await observer.shouldStop()) {
+        run.status = 'cancelled';
+        break;
+      }
+      const item = await this.runStep(step, context).catch((error): ShopifySyncItem => {
+        console.error(`Shopify sync error (${step.type}):`, error);
+        return { ...describeStep(step, context.export.localize), action: 'failed', message: (error as Error).message || 'Sync failed' };
+      });
+      if (item) run.items.push(item);
+      observer.onStep?.(item);
+    }
+
+    run.summary = summarizeShopifySync(run.items);
+    run.finishedAt = new Date().toISOString();
+    await this.repo.saveRun(run);
+    return { success: true, data: run };
+  }
+
+  private async runStep(step: ShopifySyncStep, context: ShopifyRunContext): Promise<ShopifySyncItem | null> {
+    switch (step.type) {
+      case 'create-in-shopify': {
+        const created = await context.client.createProduct(this.toShopifyPayload(step.product, context).product);
+        await this.saveMapping(context, step.product, created, { exported: true });
+        return { ...describeStep(step, context.export.localize), shopifyProductId: created.id, action: 'created' };
+      }
+      case 'push': {
+        // Linked by SKU: send the IDs of the variants with the same SKUs
+        const ids = step.mapping || collectShopifyIds(step.product, step.shopifyProduct, { exported: false });
+        const payload = this.toShopifyPayload(step.product, context, ids).product;
+        const updated = await context.client.updateProduct(step.shopifyProduct.id, payload);
+        await this.saveMapping(context, step.product, updated, { exported: true, previous: ids });
+        return { ...describeStep(step, context.export.localize), action: 'updated', message: step.message };
+      }
+      case 'pull': {
+        const ids = step.mapping || collectShopifyIds(step.product, step.shopifyProduct, { exported: false });
+        const applied = applyShopifyProduct(step.product, step.shopifyProduct, ids, context.export.locale);
+        const pulled = {
+          ...(await this.applyFieldMapping(applied, step.shopifyProduct, context, false)),
+          updatedAt: new Date().toISOString(),
+        };
+        await this.products.updateProduct(pulled.id, pulled, this.saveContext(context));
+        await this.saveMapping(context, pulled, step.shopifyProduct, { exported: false, previous: ids });
+        return { ...describeStep(step, context.export.localize), action: 'updated', message: step.message };
+      }
+      case 'create-in-pimify': {
+        const mapped = mapShopifyToPimProduct(step.shopifyProduct, { id: uuidv4(), locale: context.export.locale });
+        // The product type names a category; products store its ID
+        mapped.attributesAndSpecs.categories = context.export.resolveCategoryIds(mapped.attributesAndSpecs.categories);
+        const product = await this.applyFieldMapping(mapped, step.shopifyProduct, context, true);
+        product.updatedAt = new Date().toISOString();
+        await this.products.createProduct(product, this.saveContext(context));
+        await this.saveMapping(context, product, step.shopifyProduct, { exported: false });
+        return { ...describeStep(step, context.export.localize), productId: product.id, action: 'created' };
+      }
+      case 'archive-in-shopify': {
+        await context.client.updateProduct(step.shopifyProduct.id, { status: 'archived' });
+        await this.repo.deleteMapping(step.mapping.id);
+        return { ...describeStep(step, context.export.localize), action: 'deleted', message: 'Deleted in Pimify; archived in Shopify' };
+      }
+      case 'discontinue-in-pimify': {
+        const discontinued: Product = {
+          ...step.product,
+          basicInfo: { ...step.product.basicInfo, status: 'discontinued' },
+          updatedAt: new Date().toISOString(),
+        };
+        await this.products.updateProduct(discontinued.id, discontinued, this.saveContext(context));
+        await this.repo.deleteMapping(step.mapping.id);
+        return { ...describeStep(step, context.export.localize), action: 'deleted', message: 'Deleted in Shopify; marked discontinued in Pimify' };
+      }
+      case 'unlink':
+        await this.repo.deleteMapping(step.mapping.id);
+        return null;
+      case 'skip':
+        return { ...describeStep(step, context.export.localize), action: 'skipped', message: step.message };
+    }
+  }
+
+  private toShopifyPayload(product: Product, context: ShopifyRunContext, ids?: ShopifyIdMap) {
+    const { channel, lookup, localize, resolveCategoryNames, fields } = context.export;
+    const channelProduct = resolveProductForChannel(applyBundlePricing(product, lookup), channel);
+    return mapPimToShopifyProduct(channelProduct, resolveCategoryNames, localize, lookup, ids, fields);
+  }
+
+  /**
+   * Read the mapped metafields, tags and product type of an imported product.
+   * Product listings leave metafields out, so they are fetched per product,
+   * and only when some are mapped.
+   */
+  private async applyFieldMapping(
+    product: Product,
+    shopifyProduct: ShopifyProduct,
+    context: ShopifyRunContext,
+    created: boolean
+  ): Promise<Product> {
+    const { fields, locale, localize, resolveCategoryNames } = context.export;
+    const metafields = fields.settings.metafields.length > 0
+      ? await context.client.listProductMetafields(shopifyProduct.id)
+      : [];
+    return applyShopifyFieldMappingToProduct(product, shopifyProduct, metafields, fields, {
+      locale,
+      created,
+      localize,
+      resolveCategoryNames,
+    });
+  }
+
+  private async saveMapping(
+    context: ShopifyRunContext,
+    product: Product,
+    shopifyProduct: ShopifyProduct,
+    options: { exported: boolean; previous?: ShopifyIdMap }
+  ): Promise<void> {
+    const mapping: ShopifyProductMapping = {
+      // One link per product and shop; linking again replaces it
+      id: `${context.tenantId}__${context.shop}__${product.id}`,
+      tenantId: context.tenantId,
+      shop: context.shop,
+      productId: product.id,
+      shopifyProductId: shopifyProduct.id,
+      ...collectShopifyIds(product, shopifyProduct, options),
+      productUpdatedAt: product.updatedAt,
+      shopifyUpdatedAt: shopifyProduct.updated_at,
+      lastSyncedAt: new Date().toISOString(),
+    };
+    await this.repo.saveMapping(mapping);
+  }
+
+  private saveContext(context: ShopifyRunContext) {
+    return { userId: context.actor.userId, userName: context.actor.userName, reason: SYNC_REASON, tenantId: context.tenantId };
+  }
+
+  private async getExportContext(
+    tenantId: string,
+    channel: Channel | null,
+    products: Product[]
+  ): Promise<ShopifyExportContext> {
+    // Shopify stores one language: the channel's locale, else the tenant's default,
+    // with empty texts taken from the locale's fallback chain
+    const localeSettings = await this.locales.getSettings(tenantId);
+    const locale = channel?.locale || localeSettings.defaultLocale;
+    const localize: Localize = value => resolveLocalizedText(value, locale, localeSettings);
+
+    // Products store category IDs; Shopify expects the category name as product_type
+    const resolveCategoryNames = await this.categories.getNameResolver({ locale });
+    const resolveCategoryIds = await this.categories.getIdResolver();
+
+    // Bundle components are priced and described as the channel sees them
+    const lookup = createProductLookup(products.map(product => resolveProductForChannel(product, channel)));
+
+    // Fields written to metafields, tags and the product type, and read back from them
+    const fields = await this.fieldMappings.getMapper(tenantId);
+
+    return { locale, localize, resolveCategoryNames, resolveCategoryIds, lookup, channel, fields };
+  }
+}
+
+/**
+ * The item fields that identify a step's product
+ */
+function describeStep(step: ShopifySyncStep, localize: Localize): Omit<ShopifySyncItem, 'action'> {
+  const product = 'product' in step ? step.product : undefined;
+  const shopifyProduct = 'shopifyProduct' in step ? step.shopifyProduct : undefined;
+  const mapping = 'mapping' in step ? step.mapping : undefined;
+  const direction = step.type === 'skip' ? step.direction
+    : ['create-in-shopify', 'push', 'archive-in-shopify'].includes(step.type) ? 'export' : 'import';
+
+  return {
+    direction,
+    productId: product?.id || mapping?.productId,
+    shopifyProductId: shopifyProduct?.id || mapping?.shopifyProductId,
+    sku: product?.basicInfo.sku || shopifyProduct?.variants?.[0]?.sku || undefined,
+    title: (product && localize(product.basicInfo.name)) || shopifyProduct?.title,
+  };
+}
+
+export const shopifySyncService = new ShopifySyncService();
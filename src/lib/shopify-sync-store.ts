@@ -0,0 +1,42 @@
+import { create } from 'zustand';
+import type { ShopifySyncRun } from '@/types/shopify-sync';
+
+interface ShopifySyncState {
+  runs: ShopifySyncRun[];
+  error: string | null;
+
+  // Actions; syncs run as jobs, see integration-job-store.ts
+  fetchRuns: () => Promise<void>;
+}
+
+function buildHeaders(): Record<string, string> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  const token = typeof window !== 'undefined' ? localStorage.getItem('accessToken') : null;
+  if (token) headers['Authorization'] = `Bearer ${token}`;
+  return headers;
+}
+
+async function request<T>(url: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(url, { ...init, headers: buildHeaders() });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok || !data.success) {
+    const details = Array.isArray(data.details) && data.details.length > 0 ? `: ${data.details.join('; ')}` : '';
+    throw new Error((data.error || `Request failed: ${response.status} ${response.statusText}`) + details);
+  }
+  return data.data as T;
+}
+
+export const useShopifySyncStore = create<ShopifySyncState>((set) => ({
+  runs: [],
+  error: null,
+
+  fetchRuns: async () => {
+    try {
+      const runs = await request<ShopifySyncRun[]>('/api/shopify/sync/runs');
+      set({ runs, error: null });
+    } catch (error) {
+      console.error('Error fetching Shopify sync runs:', error);
+      set({ error: (error as Error).message });
+    }
+  },
+}));
@@ -0,0 +1,286 @@
+/**
+ * Shopify sync planning
+ *
+ * Decides what a sync run does with each product, from the Pimify products,
+ * the Shopify products and the links between them. Linked products are
+ * compared with their timestamps at the last sync: the side that changed is
+ * copied to the other; when both changed, Pimify wins. Unlinked products are
+ * linked by SKU before anything is created, and a linked product that is
+ * gone on one side is archived (Shopify) or discontinued (Pimify) on the
+ * other.
+ */
+
+import { z } from 'zod';
+import type { Product } from '@/types/product';
+import type {
+  ShopifyIdMap,
+  ShopifyProductMapping,
+  ShopifySyncAction,
+  ShopifySyncDirection,
+  ShopifySyncItem,
+  ShopifySyncSummary,
+} from '@/types/shopify-sync';
+import type { ShopifyProduct } from './shopify-client';
+import {
+  getShopifyExportImages,
+  getShopifyImageMediaId,
+  getShopifyVariantKeys,
+  mapShopifyToPimProduct,
+  mapShopifyVariantPrices,
+} from './shopify-mapping';
+
+export type ShopifySyncStep =
+  | { type: 'create-in-shopify'; product: Product }
+  | { type: 'create-in-pimify'; shopifyProduct: ShopifyProduct }
+  | { type: 'push'; product: Product; shopifyProduct: ShopifyProduct; mapping?: ShopifyProductMapping; message?: string }
+  | { type: 'pull'; product: Product; shopifyProduct: ShopifyProduct; mapping?: ShopifyProductMapping; message?: string }
+  | { type: 'archive-in-shopify'; mapping: ShopifyProductMapping; shopifyProduct: ShopifyProduct }
+  | { type: 'discontinue-in-pimify'; mapping: ShopifyProductMapping; product: Product }
+  | { type: 'unlink'; mapping: ShopifyProductMapping } // Gone on both sides
+  | {
+    type: 'skip';
+    direction: ShopifySyncItem['direction'];
+    product?: Product;
+    shopifyProduct?: ShopifyProduct;
+    mapping?: ShopifyProductMapping;
+    message: string;
+  };
+
+export interface ShopifySyncPlanInput {
+  direction: ShopifySyncDirection;
+  products: Product[];
+  shopifyProducts: ShopifyProduct[];
+  mappings: ShopifyProductMapping[];
+  productIds?: string[];
+  workflowStates?: string[];
+}
+
+/**
+ * Body of the sync routes. The access token is sent as apiKey, as the
+ * Shopify settings on the import/export page store it.
+ */
+export const shopifySyncSchema = z.object({
+  integrationId: z.string().trim().min(1, 'Choose a Shopify integration.'),
+  direction: z.enum(['export', 'import', 'both']).default('both'),
+  productIds: z.array(z.string()).optional(),
+  workflowStates: z.array(z.string()).optional(),
+  channelId: z.string().optional(),
+});
+
+const time = (value: string | undefined) => (value ? new Date(value).getTime() : 0);
+
+/**
+ * SKUs of a Shopify product's variants
+ */
+function getShopifySkus(shopifyProduct: ShopifyProduct): string[] {
+  return (shopifyProduct.variants || []).map(variant => variant.sku || '').filter(Boolean);
+}
+
+/**
+ * What a sync run does, in order: linked products first, then Pimify
+ * products without a link, then Shopify products without one
+ */
+export function planShopifySync(input: ShopifySyncPlanInput): ShopifySyncStep[] {
+  const exporting = input.direction !== 'import';
+  const importing = input.direction !== 'export';
+  const scope = input.productIds ? new Set(input.productIds) : null;
+  const isExported = (product: Product) =>
+    !input.workflowStates?.length || input.workflowStates.includes(product.workflowState as string);
+
+  const productsById = new Map(input.products.map(product => [product.id, product]));
+  const shopifyById = new Map(input.shopifyProducts.map(product => [product.id, product]));
+  const mappedProductIds = new Set(input.mappings.map(mapping => mapping.productId));
+  const linkedShopifyIds = new Set(input.mappings.map(mapping => mapping.shopifyProductId));
+  const steps: ShopifySyncStep[] = [];
+
+  for (const mapping of input.mappings) {
+    if (scope && !scope.has(mapping.productId)) continue;
+    const product = productsById.get(mapping.productId);
+    const shopifyProduct = shopifyById.get(mapping.shopifyProductId);
+
+    if (!product && !shopifyProduct) {
+      steps.push({ type: 'unlink', mapping });
+    } else if (!product) {
+      steps.push(exporting && !scope
+        ? { type: 'archive-in-shopify', mapping, shopifyProduct: shopifyProduct! }
+        : { type: 'skip', direction: 'export', shopifyProduct, mapping, message: 'Deleted in Pimify; export to archive it in Shopify' });
+    } else if (!shopifyProduct) {
+      steps.push(importing
+        ? { type: 'discontinue-in-pimify', mapping, product }
+        : { type: 'skip', direction: 'import', product, mapping, message: 'Deleted in Shopify; import to mark it discontinued in Pimify' });
+    } else {
+      const changedInPimify = time(product.updatedAt) > time(mapping.productUpdatedAt);
+      const changedInShopify = time(shopifyProduct.updated_at) > time(mapping.shopifyUpdatedAt);
+
+      if (exporting && changedInPimify) {
+        steps.push(isExported(product)
+          ? {
+            type: 'push', product, shopifyProduct, mapping,
+            message: importing && changedInShopify ? 'Changed on both sides; the Pimify values were kept' : undefined,
+          }
+          : { type: 'skip', direction: 'export', product, shopifyProduct, mapping, message: 'Not in the exported workflow states' });
+      } else if (importing && changedInShopify) {
+        steps.push({ type: 'pull', product, shopifyProduct, mapping });
+      } else {
+        const message = changedInShopify ? 'Only changed in Shopify'
+          : changedInPimify ? 'Only changed in Pimify'
+            : 'Unchanged since the last sync';
+        steps.push({ type: 'skip', direction: exporting ? 'export' : 'import', product, shopifyProduct, mapping, message });
+      }
+    }
+  }
+
+  // Unlinked Shopify products by SKU, for linking
+  const unlinkedShopifyBySku = new Map<string, ShopifyProduct>();
+  for (const shopifyProduct of input.shopifyProducts) {
+    if (linkedShopifyIds.has(shopifyProduct.id)) continue;
+    for (const sku of getShopifySkus(shopifyProduct)) {
+      if (!unlinkedShopifyBySku.has(sku)) unlinkedShopifyBySku.set(sku, shopifyProduct);
+    }
+  }
+
+  for (const product of input.products) {
+    if (mappedProductIds.has(product.id) || (scope && !scope.has(product.id))) continue;
+    const match = unlinkedShopifyBySku.get(product.basicInfo.sku);
+
+    if (match && !linkedShopifyIds.has(match.id)) {
+      linkedShopifyIds.add(match.id);
+      const message = `Linked by SKU ${product.basicInfo.sku}`;
+      if (exporting && !isExported(product)) {
+        steps.push({ type: 'skip', direction: 'export', product, shopifyProduct: match, message: 'Not in the exported workflow states' });
+      } else {
+        steps.push(exporting
+          ? { type: 'push', product, shopifyProduct: match, message }
+          : { type: 'pull', product, shopifyProduct: match, message });
+      }
+    } else if (exporting) {
+      if (!isExported(product)) {
+        if (scope) steps.push({ type: 'skip', direction: 'export', product, message: 'Not in the exported workflow states' });
+      } else if (product.basicInfo.status === 'discontinued') {
+        steps.push({ type: 'skip', direction: 'export', product, message: 'Discontinued products are not created in Shopify' });
+      } else {
+        steps.push({ type: 'create-in-shopify', product });
+      }
+    }
+  }
+
+  if (importing && !scope) {
+    const usedSkus = new Set(input.products.map(product => product.basicInfo.sku));
+    for (const shopifyProduct of input.shopifyProducts) {
+      if (linkedShopifyIds.has(shopifyProduct.id)) continue;
+      const sku = getShopifySkus(shopifyProduct)[0];
+      if (sku && usedSkus.has(sku)) {
+        steps.push({
+          type: 'skip', direction: 'import', shopifyProduct,
+          message: `SKU ${sku} is already used by a Pimify product linked to another Shopify product`,
+        });
+        continue;
+      }
+      if (sku) usedSkus.add(sku);
+      steps.push({ type: 'create-in-pimify', shopifyProduct });
+    }
+  }
+
+  return steps;
+}
+
+/**
+ * Copy what Shopify owns into a linked Pimify product: the texts in the sync
+ * locale, vendor, status, tags and prices of linked variants. Images removed
+ * in Shopify are removed and new ones added. SKUs, categories and the
+ * workflow stay as they are.
+ */
+export function applyShopifyProduct(product: Product, shopifyProduct: ShopifyProduct, ids: ShopifyIdMap, locale: string): Product {
+  const incoming = mapShopifyToPimProduct(shopifyProduct, { id: product.id, locale });
+  const shopifyVariants = new Map((shopifyProduct.variants || []).map(variant => [variant.id, variant]));
+  const shopifyImageIds = new Set((shopifyProduct.images || []).map(image => image.id));
+  const hasVariants = (product.variants?.length || 0) > 0 && (product.options?.length || 0) > 0;
+  const firstVariant = shopifyProduct.variants?.[0];
+
+  const keptImages = product.media.images.filter(image => {
+    const shopifyId = ids.images[image.id];
+    return shopifyId === undefined || shopifyImageIds.has(shopifyId);
+  });
+  const knownShopifyIds = new Set(keptImages.map(image => ids.images[image.id]).filter(id => id !== undefined));
+  const knownMediaIds = new Set(keptImages.map(image => image.id));
+  const newImages = incoming.media.images.filter((image, index) =>
+    !knownShopifyIds.has(shopifyProduct.images[index].id) && !knownMediaIds.has(image.id));
+
+  return {
+    ...product,
+    basicInfo: {
+      ...product.basicInfo,
+      name: { ...product.basicInfo.name, [locale]: incoming.basicInfo.name[locale] },
+      descriptionLong: { ...product.basicInfo.descriptionLong, [locale]: incoming.basicInfo.descriptionLong[locale] },
+      brand: incoming.basicInfo.brand,
+      status: incoming.basicInfo.status,
+      gtin: hasVariants ? product.basicInfo.gtin : firstVariant?.barcode || product.basicInfo.gtin,
+    },
+    marketingSEO: { ...product.marketingSEO, keywords: incoming.marketingSEO.keywords },
+    pricingAndStock: hasVariants || !firstVariant
+      ? product.pricingAndStock
+      : { costPrice: [], ...product.pricingAndStock, ...mapShopifyVariantPrices(firstVariant) },
+    variants: product.variants?.map(variant => {
+      const shopifyVariant = shopifyVariants.get(ids.variants[variant.id]);
+      return shopifyVariant
+        ? { ...variant, gtin: shopifyVariant.barcode || variant.gtin, ...mapShopifyVariantPrices(shopifyVariant) }
+        : variant;
+    }),
+    media: { ...product.media, images: [...keptImages, ...newImages] },
+  };
+}
+
+/**
+ * The Shopify IDs of a product's variants and images. Variants are found by
+ * SKU. Right after an export, images are in the order they were sent;
+ * otherwise they keep their earlier IDs or the ID they were imported with.
+ */
+export function collectShopifyIds(
+  product: Product,
+  shopifyProduct: ShopifyProduct,
+  options: { previous?: ShopifyIdMap; exported: boolean }
+): ShopifyIdMap {
+  const ids: ShopifyIdMap = { variants: {}, images: {} };
+  const shopifyVariants = shopifyProduct.variants || [];
+  const shopifyImages = shopifyProduct.images || [];
+  const shopifyImageIds = new Set(shopifyImages.map(image => image.id));
+  const keys = getShopifyVariantKeys(product);
+
+  for (const key of keys) {
+    const sku = key === product.id ? product.basicInfo.sku : product.variants?.find(variant => variant.id === key)?.sku;
+    const previousId = options.previous?.variants[key];
+    const variant = shopifyVariants.find(v => sku && v.sku === sku)
+      || shopifyVariants.find(v => v.id === previousId)
+      || (keys.length === 1 ? shopifyVariants[0] : undefined);
+    if (variant) ids.variants[key] = variant.id;
+  }
+
+  getShopifyExportImages(product).forEach((image, index) => {
+    const candidates = options.exported
+      ? [shopifyImages[index]?.id]
+      : [options.previous?.images[image.id], shopifyImages.find(i => getShopifyImageMediaId(i.id) === image.id)?.id];
+    const id = candidates.find(candidate => candidate !== undefined && shopifyImageIds.has(candidate));
+    if (id !== undefined) ids.images[image.id] = id;
+  });
+
+  return ids;
+}
+
+/**
+ * Count the items per action
+ */
+export function summarizeShopifySync(items: ShopifySyncItem[]): ShopifySyncSummary {
+  const summary: Record<ShopifySyncAction, number> = { created: 0, updated: 0, skipped: 0, deleted: 0, failed: 0 };
+  items.forEach(item => { summary[item.action]++; });
+  return summary;
+}
+
+/**
+ * One line describing a run, e.g. for a toast
+ */
+export function describeShopifySync(summary: ShopifySyncSummary): string {
+  const parts = [`${summary.created} created`, `${summary.updated} updated`, `${summary.skipped} skipped`];
+  if (summary.deleted > 0) parts.push(`${summary.deleted} deleted`);
+  parts.push(`${summary.failed} failed`);
+  return parts.join(', ');
+}
@@ -35,3 +35,30 @@ export function getCurrentTenantId(): string {
   // Fallback, could be an unrecognized subdomain or a different setup
   return 'default_unknown';
 }
+
+/**
+ * Resolves the tenant a request is for from its Host header: the subdomain
+ * of pimify.io, "localhost_dev" for local development, else "default_server".
+ * Shared by the page middleware and API routes so both agree on the tenant.
+ */
+export function resolveTenantIdFromHost(host: string | null | undefined): string {
+  const hostname = (host || '').split(':')[0].toLowerCase();
+  if (hostname === 'localhost' || hostname.endsWith('.localhost')) return 'localhost_dev';
+
+  const parts = hostname.split('.');
+  if (parts.length > 2 && parts[0] !== 'www' && parts[1] === 'pimify' && parts[2] === 'io') {
+    return parts[0];
+  }
+  return 'default_server';
+}
+
+/**
+ * The tenant of an API request, worked out on the server: the tenant of the
+ * authenticated API key when there is one, else the tenant of the Host
+ * header. An x-tenant-id header sent by the client is never trusted, and the
+ * page middleware does not run for /api routes.
+ */
+export function getRequestTenantId(request: { headers: Headers }): string {
+  const principalTenantId = (request as { user?: { tenantId?: string } }).user?.tenantId;
+  return principalTenantId || resolveTenantIdFromHost(request.headers.get('host'));
+}
@@ -0,0 +1,220 @@
+/**
+ * Translation Service
+ *
+ * Serves the translator queue and records translation edits and status
+ * changes on products. Only admins, editors and reviewers can approve.
+ * Machine translations are stored as 'machine_translated' for review.
+ */
+
+import type { Product } from '@/types/product';
+import type {
+  MachineTranslationResult,
+  TranslatableField,
+  TranslationStatus,
+  TranslationTask,
+  UpdateTranslationInput,
+} from '@/types/translation';
+import { UserRole } from '@/types/workflow';
+import { translateProductText } from '@/ai/flows/translate-product-text';
+import { localeService, LocaleService } from './locale-service';
+import { productService, ProductService } from './product-service';
+import { getLocaleName, resolveLocalizedText } from './locales';
+import { getProtectedTerms, type MachineTranslationInput } from './machine-translation';
+import { getFieldText, getTranslationTasks, setFieldText, setTranslationStatus } from './translation-workflow';
+import { TRANSLATABLE_FIELDS, TRANSLATABLE_FIELD_LABELS } from '@/types/translation';
+
+const APPROVER_ROLES: string[] = [UserRole.ADMIN, UserRole.EDITOR, UserRole.REVIEWER];
+
+/**
+ * Translation Service Result
+ */
+export interface TranslationServiceResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  code?: string;
+  details?: string[];
+}
+
+export interface TranslationUser {
+  userId: string;
+  userName?: string;
+  userRole: string;
+}
+
+export class TranslationService {
+  constructor(
+    private products: ProductService = productService,
+    private locales: LocaleService = localeService,
+    private translate: typeof translateProductText = translateProductText
+  ) { }
+
+  /**
+   * Get the open translation tasks for a target locale
+   */
+  async getQueue(
+    tenantId: string,
+    locale: string,
+    statuses: TranslationStatus[] = []
+  ): Promise<TranslationServiceResult<TranslationTask[]>> {
+    const settings = await this.locales.getSettings(tenantId);
+    if (!settings.locales.some(l => l.code === locale)) {
+      return { success: false, error: `Locale "${locale}" is not enabled`, code: 'INVALID_LOCALE' };
+    }
+    if (locale === settings.defaultLocale) {
+      return { success: false, error: `"${locale}" is the source locale and has nothing to translate`, code: 'INVALID_LOCALE' };
+    }
+
+    const products = await this.products.getAllProducts();
+    return { success: true, data: getTranslationTasks(products, locale, settings, { statuses }) };
+  }
+
+  /**
+   * Save a translation's text (when given) and record its status. Returns the
+   * product before and after, for the audit trail.
+   */
+  async updateTranslation(
+    tenantId: string,
+    productId: string,
+    input: UpdateTranslationInput,
+    user: TranslationUser
+  ): Promise<TranslationServiceResult<{ previous: Product; product: Product }>> {
+    const settings = await this.locales.getSettings(tenantId);
+    if (!settings.locales.some(l => l.code === input.locale)) {
+      return { success: false, error: `Locale "${input.locale}" is not enabled`, code: 'INVALID_LOCALE' };
+    }
+    if (input.locale === settings.defaultLocale) {
+      return { success: false, error: 'The source locale cannot be translated', code: 'INVALID_LOCALE' };
+    }
+    if (input.status === 'approved' && !APPROVER_ROLES.includes(user.userRole)) {
+      return { success: false, error: 'Only editors, reviewers and admins can approve translations', code: 'FORBIDDEN' };
+    }
+
+    const existing = await this.products.getProductById(productId);
+    if (!existing) {
+      return { success: false, error: 'Product not found', code: 'NOT_FOUND' };
+    }
+
+    const product = input.text !== undefined
+      ? setFieldText(existing, input.field, input.locale, input.text)
+      : existing;
+    const target = getFieldText(product, input.field)?.[input.locale];
+    if (!target || target.trim() === '') {
+      return {
+        success: false,
+        error: `${TRANSLATABLE_FIELD_LABELS[input.field]} has no ${getLocaleName(input.locale, settings)} text`,
+        code: 'VALIDATION_ERROR',
+      };
+    }
+
+    const translations = setTranslationStatus(product, input.field, input.locale, input.status, settings, user.userId);
+    const updated: Product = { ...product, translations, updatedAt: new Date().toISOString() };
+    await this.products.updateProduct(productId, updated, {
+      userId: user.userId,
+      userName: user.userName,
+      reason: `Translation ${input.field} (${input.locale}) marked ${input.status.replace('_', ' ')}`,
+      tenantId,
+    });
+    return { success: true, data: { previous: existing, product: updated } };
+  }
+
+  /**
+   * Machine-translate a selection of products. By default only empty target
+   * texts are filled; with overwrite every target text is replaced. Products
+   * are translated one at a time and fail independently.
+   */
+  async machineTranslate(
+    tenantId: string,
+    input: MachineTranslationInput,
+    user: TranslationUser
+  ): Promise<TranslationServiceResult<MachineTranslationResult[]>> {
+    const settings = await this.locales.getSettings(tenantId);
+    const enabled = settings.locales.map(l => l.code);
+    const targetCodes = input.targetLocales && input.targetLocales.length > 0
+      ? input.targetLocales
+      : enabled.filter(code => code !== settings.defaultLocale);
+
+    const invalid = targetCodes.filter(code => !enabled.includes(code) || code === settings.defaultLocale);
+    if (invalid.length > 0) {
+      return {
+        success: false,
+        error: 'Target locales must be enabled and differ from the source locale',
+        code: 'INVALID_LOCALE',
+        details: invalid,
+      };
+    }
+    if (targetCodes.length === 0) {
+      return { success: false, error: 'No target locales are enabled', code: 'INVALID_LOCALE' };
+    }
+
+    const fields: TranslatableField[] = input.fields && input.fields.length > 0 ? input.fields : TRANSLATABLE_FIELDS;
+    const sourceLocale = settings.locales.find(l => l.code === settings.defaultLocale)!;
+    const results: MachineTranslationResult[] = [];
+
+    for (const productId of input.productIds) {
+      const product = await this.products.getProductById(productId);
+      if (!product) {
+        results.push({ productId, translated: [], errors: ['Product not found'] });
+        continue;
+      }
+
+      // Work out which target locales each field needs
+      const texts: Record<string, string> = {};
+      const needed: Partial<Record<TranslatableField, string[]>> = {};
+      for (const field of fields) {
+        const value = getFieldText(product, field);
+        const source = value?.[settings.defaultLocale] || '';
+        if (source.trim() === '') continue;
+        const locales = targetCodes.filter(code => input.overwrite || !(value?.[code] || '').trim());
+        if (locales.length === 0) continue;
+        texts[field] = source;
+        needed[field] = locales;
+      }
+
+      const result: MachineTranslationResult = { productId, sku: product.basicInfo.sku, translated: [], errors: [] };
+      results.push(result);
+      if (Object.keys(texts).length === 0) continue;
+
+      const targetLocales = settings.locales.filter(l => Object.values(needed).some(codes => codes!.includes(l.code)));
+      try {
+        const output = await this.translate({
+          sourceLocale,
+          targetLocales,
+          texts,
+          glossary: getProtectedTerms(settings.glossary, product.basicInfo),
+          context: [resolveLocalizedText(product.basicInfo.name, settings.defaultLocale, settings), product.basicInfo.brand]
+            .filter(Boolean)
+            .join(', '),
+        });
+        result.errors.push(...output.errors);
+
+        let updated: Product = product;
+        for (const [field, locales] of Object.entries(needed) as [TranslatableField, string[]][]) {
+          for (const locale of locales) {
+            const text = output.translations[field]?.[locale];
+            if (!text) continue;
+            updated = setFieldText(updated, field, locale, text);
+            updated = { ...updated, translations: setTranslationStatus(updated, field, locale, 'machine_translated', settings, user.userId) };
+            result.translated.push(`${field}:${locale}`);
+          }
+        }
+
+        if (result.translated.length > 0) {
+          await this.products.updateProduct(productId, { ...updated, updatedAt: new Date().toISOString() }, {
+            userId: user.userId,
+            userName: user.userName,
+            reason: `Machine translation (${result.translated.join(', ')})`,
+            tenantId,
+          });
+        }
+      } catch (error) {
+        console.error(`Machine translation failed for product ${productId}:`, error);
+        result.errors.push(error instanceof Error ? error.message : 'Translation failed');
+      }
+    }
+
+    return { success: true, data: results };
+  }
+}
+
+export const translationService = new TranslationService();
@@ -0,0 +1,68 @@
+import { create } from 'zustand';
+import type { Product } from '@/types/product';
+import type { MachineTranslationResult, TranslationStatus, TranslationTask, UpdateTranslationInput } from '@/types/translation';
+import type { MachineTranslationInput } from '@/lib/machine-translation';
+
+interface TranslationState {
+  tasks: TranslationTask[];
+  locale: string | null; // Target locale the tasks were loaded for
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  fetchQueue: (locale: string, statuses?: TranslationStatus[]) => Promise<void>;
+  updateTranslation: (productId: string, input: UpdateTranslationInput) => Promise<Product>;
+  machineTranslate: (input: MachineTranslationInput) => Promise<MachineTranslationResult[]>;
+}
+
+function buildHeaders(): Record<string, string> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  const token = typeof window !== 'undefined' ? localStorage.getItem('accessToken') : null;
+  if (token) headers['Authorization'] = `Bearer ${token}`;
+  return headers;
+}
+
+async function request<T>(url: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(url, { ...init, headers: buildHeaders() });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok || !data.success) {
+    const details = Array.isArray(data.details) && data.details.length > 0 ? `: ${data.details.join('; ')}` : '';
+    throw new Error((data.error || `Request failed: ${response.status} ${response.statusText}`) + details);
+  }
+  return data.data as T;
+}
+
+export const useTranslationStore = create<TranslationState>((set, get) => ({
+  tasks: [],
+  locale: null,
+  isLoading: false,
+  error: null,
+
+  fetchQueue: async (locale, statuses = []) => {
+    set({ isLoading: true, error: null, locale });
+    try {
+      const params = new URLSearchParams({ locale });
+      if (statuses.length > 0) params.set('status', statuses.join(','));
+      const tasks = await request<TranslationTask[]>(`/api/translations?${params}`);
+      // Ignore responses for a locale the user has already switched away from
+      if (get().locale === locale) set({ tasks, isLoading: false });
+    } catch (error) {
+      console.error('Error fetching translation queue:', error);
+      set({ error: (error as Error).message, isLoading: false });
+    }
+  },
+
+  updateTranslation: async (productId, input) => {
+    return request<Product>(`/api/products/${productId}/translations`, {
+      method: 'PUT',
+      body: JSON.stringify(input),
+    });
+  },
+
+  machineTranslate: async (input) => {
+    return request<MachineTranslationResult[]>('/api/translations/machine', {
+      method: 'POST',
+      body: JSON.stringify(input),
+    });
+  },
+}));
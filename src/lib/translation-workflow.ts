@@ -0,0 +1,194 @@
+/**
+ * Translation Workflow
+ *
+ * Pure helpers for per-field, per-locale translation status: reading the
+ * effective status of a product's texts, recording status changes, building
+ * the translator queue and checking translations before publishing.
+ */
+
+import { z } from 'zod';
+import type { MultilingualString, Product } from '@/types/product';
+import type { LocaleSettings } from '@/types/locale';
+import type {
+  ProductTranslations,
+  TranslatableField,
+  TranslationEntry,
+  TranslationState,
+  TranslationStatus,
+  TranslationTask,
+} from '@/types/translation';
+import { TRANSLATABLE_FIELDS, TRANSLATABLE_FIELD_LABELS } from '@/types/translation';
+import { getLocaleName, resolveLocalizedText } from './locales';
+
+// The parts of a product (or workflow product) translations are read from
+type TranslatableProduct = Pick<Product, 'basicInfo' | 'marketingSEO' | 'translations'>;
+
+/**
+ * Request schema for updating one translation
+ */
+export const translationUpdateSchema = z.object({
+  field: z.enum(TRANSLATABLE_FIELDS as [TranslatableField, ...TranslatableField[]]),
+  locale: z.string().min(1),
+  text: z.string().optional(),
+  status: z.enum(['machine_translated', 'needs_review', 'approved']),
+});
+
+/**
+ * Fingerprint a text (FNV-1a). Whitespace at the ends is ignored so trimming
+ * does not invalidate translations.
+ */
+export function hashText(text: string | undefined): string {
+  let hash = 0x811c9dc5;
+  for (const char of (text || '').trim()) {
+    hash ^= char.codePointAt(0)!;
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash.toString(16).padStart(8, '0');
+}
+
+/**
+ * Get the multilingual value of a translatable field
+ */
+export function getFieldText(product: TranslatableProduct, field: TranslatableField): MultilingualString | undefined {
+  switch (field) {
+    case 'name': return product.basicInfo.name;
+    case 'descriptionShort': return product.basicInfo.descriptionShort;
+    case 'descriptionLong': return product.basicInfo.descriptionLong;
+    case 'seoTitle': return product.marketingSEO?.seoTitle;
+    case 'seoDescription': return product.marketingSEO?.seoDescription;
+  }
+}
+
+/**
+ * Return a copy of the product with one locale of a field replaced
+ */
+export function setFieldText<T extends TranslatableProduct>(product: T, field: TranslatableField, locale: string, text: string): T {
+  const value = { ...(getFieldText(product, field) || { en: '', no: '' }), [locale]: text };
+  if (field === 'seoTitle' || field === 'seoDescription') {
+    return { ...product, marketingSEO: { ...product.marketingSEO, [field]: value } };
+  }
+  return { ...product, basicInfo: { ...product.basicInfo, [field]: value } };
+}
+
+/**
+ * Get the effective translation state of a field in a target locale.
+ * Text without a recorded entry (or edited since the entry was recorded)
+ * needs review; an entry recorded against different source text is outdated.
+ */
+export function getTranslationState(
+  product: TranslatableProduct,
+  field: TranslatableField,
+  locale: string,
+  settings: LocaleSettings
+): TranslationState {
+  const value = getFieldText(product, field);
+  const target = value?.[locale];
+  if (!target || target.trim() === '') {
+    return { status: 'missing', outdated: false };
+  }
+
+  const entry = product.translations?.[field]?.[locale];
+  if (!entry) {
+    return { status: 'needs_review', outdated: false };
+  }
+
+  const outdated = entry.sourceHash !== hashText(value?.[entry.sourceLocale || settings.defaultLocale]);
+  const status: TranslationStatus = entry.targetHash === hashText(target) ? entry.status : 'needs_review';
+  return { status, outdated };
+}
+
+/**
+ * Check whether a translation is done: approved and made from the current source
+ */
+export function isTranslationComplete(state: TranslationState): boolean {
+  return state.status === 'approved' && !state.outdated;
+}
+
+/**
+ * Record a status for a field in a target locale, fingerprinting the current
+ * source and target texts
+ */
+export function setTranslationStatus(
+  product: TranslatableProduct,
+  field: TranslatableField,
+  locale: string,
+  status: TranslationEntry['status'],
+  settings: LocaleSettings,
+  userId?: string
+): ProductTranslations {
+  const value = getFieldText(product, field);
+  const entry: TranslationEntry = {
+    status,
+    sourceLocale: settings.defaultLocale,
+    sourceHash: hashText(value?.[settings.defaultLocale]),
+    targetHash: hashText(value?.[locale]),
+    updatedAt: new Date().toISOString(),
+    ...(userId && { updatedBy: userId }),
+  };
+  return {
+    ...product.translations,
+    [field]: { ...product.translations?.[field], [locale]: entry },
+  };
+}
+
+/**
+ * Build the translator queue for a target locale. Fields without source text
+ * have nothing to translate and are skipped; completed translations are left
+ * out unless requested.
+ */
+export function getTranslationTasks(
+  products: Product[],
+  locale: string,
+  settings: LocaleSettings,
+  options: { statuses?: TranslationStatus[]; includeComplete?: boolean } = {}
+): TranslationTask[] {
+  const tasks: TranslationTask[] = [];
+  const sourceLocale = settings.defaultLocale;
+  if (locale === sourceLocale) return tasks;
+
+  for (const product of products) {
+    for (const field of TRANSLATABLE_FIELDS) {
+      const value = getFieldText(product, field);
+      const sourceText = value?.[sourceLocale] || '';
+      if (sourceText.trim() === '') continue;
+
+      const state = getTranslationState(product, field, locale, settings);
+      if (!options.includeComplete && isTranslationComplete(state)) continue;
+      if (options.statuses && options.statuses.length > 0 && !options.statuses.includes(state.status)) continue;
+
+      tasks.push({
+        ...state,
+        productId: product.id,
+        sku: product.basicInfo.sku,
+        productName: resolveLocalizedText(product.basicInfo.name, sourceLocale, settings) || product.basicInfo.sku,
+        field,
+        locale,
+        sourceLocale,
+        sourceText,
+        targetText: value?.[locale] || '',
+        updatedAt: product.translations?.[field]?.[locale]?.updatedAt,
+      });
+    }
+  }
+  return tasks;
+}
+
+/**
+ * List the translations that block publishing a product in the given
+ * locales. Only fields with source text need translating.
+ */
+export function getIncompleteTranslations(product: TranslatableProduct, locales: string[], settings: LocaleSettings): string[] {
+  const problems: string[] = [];
+  for (const locale of locales) {
+    for (const field of TRANSLATABLE_FIELDS) {
+      const source = getFieldText(product, field)?.[settings.defaultLocale];
+      if (!source || source.trim() === '') continue;
+
+      const state = getTranslationState(product, field, locale, settings);
+      if (isTranslationComplete(state)) continue;
+      const reason = state.outdated ? 'outdated' : state.status.replace('_', ' ');
+      problems.push(`${TRANSLATABLE_FIELD_LABELS[field]} (${getLocaleName(locale, settings)}) is ${reason}`);
+    }
+  }
+  return problems;
+}
@@ -0,0 +1,218 @@
+/**
+ * Units of Measure
+ *
+ * Unit catalog and conversion helpers used by typed attributes, CSV
+ * import/export and the channel exports.
+ */
+
+import type { Dimension, UnitDefinition, UnitPreferences } from '@/types/units';
+import type { QuantityValue } from '@/types/attribute';
+import type { Product } from '@/types/product';
+
+/**
+ * Base unit of each dimension; normalized values are expressed in these
+ */
+export const BASE_UNITS: Record<Dimension, string> = {
+  length: 'm',
+  mass: 'kg',
+  volume: 'l',
+  power: 'W',
+};
+
+export const UNIT_CATALOG: UnitDefinition[] = [
+  // Length
+  { code: 'mm', dimension: 'length', name: 'Millimetre', toBase: 0.001, aliases: ['millimeter', 'millimetre', 'millimeters', 'millimetres'] },
+  { code: 'cm', dimension: 'length', name: 'Centimetre', toBase: 0.01, aliases: ['centimeter', 'centimetre', 'centimeters', 'centimetres'] },
+  { code: 'm', dimension: 'length', name: 'Metre', toBase: 1, aliases: ['meter', 'metre', 'meters', 'metres'] },
+  { code: 'km', dimension: 'length', name: 'Kilometre', toBase: 1000, aliases: ['kilometer', 'kilometre', 'kilometers', 'kilometres'] },
+  { code: 'in', dimension: 'length', name: 'Inch', toBase: 0.0254, aliases: ['inch', 'inches', '"'] },
+  { code: 'ft', dimension: 'length', name: 'Foot', toBase: 0.3048, aliases: ['foot', 'feet', "'"] },
+  { code: 'yd', dimension: 'length', name: 'Yard', toBase: 0.9144, aliases: ['yard', 'yards'] },
+  // Mass
+  { code: 'mg', dimension: 'mass', name: 'Milligram', toBase: 0.000001, aliases: ['milligram', 'milligrams'] },
+  { code: 'g', dimension: 'mass', name: 'Gram', toBase: 0.001, aliases: ['gram', 'grams', 'gr'] },
+  { code: 'kg', dimension: 'mass', name: 'Kilogram', toBase: 1, aliases: ['kilogram', 'kilograms', 'kilo', 'kilos', 'kgs'] },
+  { code: 't', dimension: 'mass', name: 'Tonne', toBase: 1000, aliases: ['tonne', 'tonnes', 'ton'] },
+  { code: 'oz', dimension: 'mass', name: 'Ounce', toBase: 0.028349523125, aliases: ['ounce', 'ounces'] },
+  { code: 'lb', dimension: 'mass', name: 'Pound', toBase: 0.45359237, aliases: ['lbs', 'pound', 'pounds'] },
+  // Volume
+  { code: 'ml', dimension: 'volume', name: 'Millilitre', toBase: 0.001, aliases: ['milliliter', 'millilitre', 'milliliters', 'millilitres', 'cm3', 'cm³', 'ccm'] },
+  { code: 'cl', dimension: 'volume', name: 'Centilitre', toBase: 0.01, aliases: ['centiliter', 'centilitre'] },
+  { code: 'dl', dimension: 'volume', name: 'Decilitre', toBase: 0.1, aliases: ['deciliter', 'decilitre'] },
+  { code: 'l', dimension: 'volume', name: 'Litre', toBase: 1, aliases: ['liter', 'litre', 'liters', 'litres', 'ltr', 'dm3', 'dm³'] },
+  { code: 'm3', dimension: 'volume', name: 'Cubic metre', toBase: 1000, aliases: ['m³', 'cubic meter', 'cubic metre'] },
+  { code: 'fl oz', dimension: 'volume', name: 'US fluid ounce', toBase: 0.0295735295625, aliases: ['floz', 'fl. oz', 'fluid ounce', 'fluid ounces'] },
+  { code: 'gal', dimension: 'volume', name: 'US gallon', toBase: 3.785411784, aliases: ['gallon', 'gallons'] },
+  // Power
+  { code: 'mW', dimension: 'power', name: 'Milliwatt', toBase: 0.001, aliases: ['milliwatt', 'milliwatts'] },
+  { code: 'W', dimension: 'power', name: 'Watt', toBase: 1, aliases: ['watt', 'watts'] },
+  { code: 'kW', dimension: 'power', name: 'Kilowatt', toBase: 1000, aliases: ['kilowatt', 'kilowatts'] },
+  { code: 'hp', dimension: 'power', name: 'Horsepower', toBase: 745.69987158227022, aliases: ['horsepower', 'bhp'] },
+];
+
+/**
+ * Units used when nothing else is configured (PIM display and CSV files)
+ */
+export const DEFAULT_UNIT_PREFERENCES: UnitPreferences = {
+  length: 'cm',
+  mass: 'kg',
+  volume: 'l',
+  power: 'W',
+};
+
+/**
+ * Units each sales channel expects on export
+ */
+export const CHANNEL_UNIT_PREFERENCES = {
+  shopify: { length: 'cm', mass: 'kg', volume: 'ml', power: 'W' } as UnitPreferences,
+  csv: DEFAULT_UNIT_PREFERENCES,
+};
+
+const unitsByCode = new Map(UNIT_CATALOG.map(unit => [unit.code, unit]));
+const unitsByAlias = new Map<string, UnitDefinition>();
+UNIT_CATALOG.forEach(unit => {
+  [unit.code, ...(unit.aliases || [])].forEach(alias => {
+    const key = alias.toLowerCase();
+    // Exact codes win over case-insensitive matches ("mW" vs "MW" is ambiguous, "m" vs "M" is not)
+    if (!unitsByAlias.has(key)) unitsByAlias.set(key, unit);
+  });
+});
+
+const QUANTITY_PATTERN = /^\s*(-?\d+(?:[.,]\d+)?)\s*([^\d\s].*?)?\s*$/;
+
+/**
+ * Round away floating point noise from conversions
+ */
+function roundConverted(value: number): number {
+  return Number(value.toPrecision(12));
+}
+
+/**
+ * Find a unit by its code or one of its aliases
+ */
+export function findUnit(codeOrAlias: string | undefined | null): UnitDefinition | undefined {
+  if (!codeOrAlias) return undefined;
+  const trimmed = codeOrAlias.trim();
+  return unitsByCode.get(trimmed) || unitsByAlias.get(trimmed.toLowerCase());
+}
+
+/**
+ * Get all units of a dimension, smallest first
+ */
+export function getUnitsForDimension(dimension: Dimension): UnitDefinition[] {
+  return UNIT_CATALOG
+    .filter(unit => unit.dimension === dimension)
+    .sort((a, b) => a.toBase - b.toBase);
+}
+
+/**
+ * Convert a value between two units of the same dimension.
+ * Returns null when a unit is unknown or the dimensions differ.
+ */
+export function convertUnit(value: number, fromUnit: string, toUnit: string): number | null {
+  const from = findUnit(fromUnit);
+  const to = findUnit(toUnit);
+  if (!from || !to || from.dimension !== to.dimension) return null;
+  if (from.code === to.code) return value;
+  return roundConverted((value * from.toBase) / to.toBase);
+}
+
+/**
+ * Build a quantity that keeps the entered value and unit and adds the value
+ * normalized to the dimension's base unit. Unknown units are kept as-is
+ * without a normalized value.
+ */
+export function normalizeQuantity(value: number, unit?: string): QuantityValue {
+  const definition = findUnit(unit);
+  if (!definition) {
+    return unit ? { value, unit } : { value };
+  }
+  return {
+    value,
+    unit: definition.code,
+    normalized: {
+      value: roundConverted(value * definition.toBase),
+      unit: BASE_UNITS[definition.dimension],
+    },
+  };
+}
+
+/**
+ * Convert a quantity to another unit of the same dimension.
+ * Returns null when the quantity has no known unit or the dimensions differ.
+ */
+export function convertQuantity(quantity: QuantityValue, toUnit: string): QuantityValue | null {
+  if (!quantity.unit) return null;
+  const converted = convertUnit(quantity.value, quantity.unit, toUnit);
+  return converted === null ? null : normalizeQuantity(converted, findUnit(toUnit)!.code);
+}
+
+/**
+ * Convert a quantity to the preferred unit of its dimension.
+ * Quantities without a known unit or preference are returned unchanged.
+ */
+export function toPreferredUnit(quantity: QuantityValue, preferences: UnitPreferences): QuantityValue {
+  const unit = findUnit(quantity.unit);
+  const preferred = unit ? preferences[unit.dimension] : undefined;
+  if (!preferred) return quantity;
+  return convertQuantity(quantity, preferred) || quantity;
+}
+
+/**
+ * Parse free text such as "2.5 kg", "250g" or "1,5 l" into a quantity.
+ * Returns null unless the text is a number followed by a known unit.
+ */
+export function parseQuantity(text: string | undefined | null): QuantityValue | null {
+  if (!text) return null;
+  const match = QUANTITY_PATTERN.exec(text);
+  if (!match || !match[2]) return null;
+
+  const unit = findUnit(match[2]);
+  if (!unit) return null;
+  return normalizeQuantity(parseFloat(match[1].replace(',', '.')), unit.code);
+}
+
+/**
+ * Format a quantity as text, e.g. "2.5 kg"
+ */
+export function formatQuantity(quantity: QuantityValue): string {
+  return quantity.unit ? `${quantity.value} ${quantity.unit}` : String(quantity.value);
+}
+
+/**
+ * Rewrite a free-text spec value in the preferred unit of its dimension
+ * (e.g. "12 in" -> "30.48 cm"). Values that are not a single quantity with a
+ * known unit are returned unchanged.
+ */
+export function convertSpecValue(text: string, preferences: UnitPreferences): string {
+  const quantity = parseQuantity(text);
+  if (!quantity) return text;
+  const converted = toPreferredUnit(quantity, preferences);
+  return converted === quantity ? text : formatQuantity(converted);
+}
+
+const WEIGHT_KEY_PATTERN = /^(net[ _]?)?(weight|vekt)$/i;
+
+/**
+ * Find the weight of a product: a mass attribute value named like "weight"
+ * first, then a technical spec with a weight key and a mass value.
+ */
+export function getProductWeight(product: Product): QuantityValue | null {
+  const isMass = (quantity: QuantityValue | null | undefined): quantity is QuantityValue =>
+    !!quantity && findUnit(quantity.unit)?.dimension === 'mass';
+
+  const values = product.attributesAndSpecs?.attributeValues || {};
+  for (const [code, value] of Object.entries(values)) {
+    if (WEIGHT_KEY_PATTERN.test(code) && typeof value === 'object' && value !== null && isMass(value as QuantityValue)) {
+      return value as QuantityValue;
+    }
+  }
+
+  for (const spec of product.attributesAndSpecs?.technicalSpecs || []) {
+    if (!WEIGHT_KEY_PATTERN.test(spec.key.trim())) continue;
+    const quantity = spec.quantity || parseQuantity(spec.value);
+    if (isMass(quantity)) return quantity;
+  }
+
+  return null;
+}
@@ -236,6 +236,7 @@ export function formatRoleName(role: UserRole): string {
     [UserRole.ADMIN]: 'Admin',
     [UserRole.EDITOR]: 'Editor',
     [UserRole.REVIEWER]: 'Reviewer',
+    [UserRole.TRANSLATOR]: 'Translator',
     [UserRole.VIEWER]: 'Viewer',
   };
 
@@ -253,6 +254,7 @@ export function getRoleBadgeColor(role: UserRole): string {
     [UserRole.ADMIN]: 'bg-red-100 text-red-800 border-red-200',
     [UserRole.REVIEWER]: 'bg-blue-100 text-blue-800 border-blue-200',
     [UserRole.EDITOR]: 'bg-green-100 text-green-800 border-green-200',
+    [UserRole.TRANSLATOR]: 'bg-purple-100 text-purple-800 border-purple-200',
     [UserRole.VIEWER]: 'bg-gray-100 text-gray-800 border-gray-200',
   };
 
@@ -271,6 +273,7 @@ export function getRoleLevel(role: UserRole): number {
     [UserRole.ADMIN]: 1,
     [UserRole.REVIEWER]: 2,
     [UserRole.EDITOR]: 3,
+    [UserRole.TRANSLATOR]: 4,
     [UserRole.VIEWER]: 4,
   };
 
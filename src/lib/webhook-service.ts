@@ -0,0 +1,384 @@
+/**
+ * Webhook Service
+ *
+ * Manages a tenant's webhook endpoints and delivers events to them. Emitting
+ * an event records one delivery per subscribed endpoint and makes the first
+ * attempt right away; failed attempts are retried by runDueDeliveries, which
+ * a cron job calls every minute (POST /api/webhooks/deliveries/run).
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type {
+  WebhookDelivery,
+  WebhookDeliveryAttempt,
+  WebhookDeliveryStatus,
+  WebhookEndpoint,
+  WebhookEndpointInput,
+  WebhookEndpointSummary,
+  WebhookEndpointWithSecret,
+  WebhookEvent,
+  WebhookEventData,
+  WebhookEventType,
+} from '@/types/webhook';
+import { firestoreWebhookRepository, FirestoreWebhookRepository } from './firestore-webhook-repository';
+import {
+  generateWebhookSecret,
+  getWebhookRetryDelay,
+  getWebhookSecretHint,
+  signWebhookPayload,
+  WEBHOOK_DELIVERY_HEADER,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+} from './webhooks';
+
+// Endpoints one tenant can have
+const MAX_ENDPOINTS_PER_TENANT = 20;
+
+// Endpoints must answer within this time
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+
+// A delivery being attempted is not picked up by runDueDeliveries for this
+// long, so a retry never overlaps a running attempt
+const ATTEMPT_LEASE_MS = 2 * 60 * 1000;
+
+// Deliveries one runDueDeliveries call attempts
+const MAX_DUE_DELIVERIES_PER_RUN = 50;
+
+// Characters of the response body kept in the delivery log
+const MAX_LOGGED_RESPONSE_LENGTH = 500;
+
+/**
+ * Webhook Service Result
+ */
+export interface WebhookServiceResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  code?: string;
+  details?: string[];
+}
+
+/**
+ * The admin creating an endpoint
+ */
+export interface WebhookCreator {
+  userId: string;
+  userName?: string;
+}
+
+export interface WebhookDeliveryFilter {
+  endpointId?: string;
+  status?: WebhookDeliveryStatus;
+  limit?: number;
+}
+
+export interface WebhookRunSummary {
+  attempted: number;
+  succeeded: number;
+  failed: number; // Out of attempts
+  retrying: number;
+}
+
+/**
+ * What product and workflow code needs to emit events
+ */
+export interface WebhookEmitter {
+  emit(tenantId: string, type: WebhookEventType, data: WebhookEventData): Promise<WebhookDelivery[]>;
+}
+
+export class WebhookService implements WebhookEmitter {
+  // First attempts started by emit that have not finished yet
+  private inFlight = new Set<Promise<unknown>>();
+
+  constructor(
+    private repo: FirestoreWebhookRepository = firestoreWebhookRepository,
+    private fetchFn: typeof fetch = (input, init) => fetch(input, init)
+  ) { }
+
+  /**
+   * The tenant's endpoints, oldest first
+   */
+  async listEndpoints(tenantId: string): Promise<WebhookEndpointSummary[]> {
+    const endpoints = await this.repo.getEndpointsByTenant(tenantId);
+    return endpoints
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      .map(endpoint => this.toSummary(endpoint));
+  }
+
+  async createEndpoint(
+    tenantId: string,
+    input: WebhookEndpointInput,
+    creator: WebhookCreator
+  ): Promise<WebhookServiceResult<WebhookEndpointWithSecret>> {
+    const endpoints = await this.repo.getEndpointsByTenant(tenantId);
+    if (endpoints.length >= MAX_ENDPOINTS_PER_TENANT) {
+      return { success: false, error: `A tenant can have up to ${MAX_ENDPOINTS_PER_TENANT} webhook endpoints`, code: 'LIMIT_REACHED' };
+    }
+
+    const now = new Date().toISOString();
+    const endpoint: WebhookEndpoint = {
+      id: uuidv4(),
+      tenantId,
+      url: input.url,
+      description: input.description || undefined,
+      eventTypes: Array.from(new Set(input.eventTypes)),
+      secret: generateWebhookSecret(),
+      active: input.active ?? true,
+      createdBy: creator.userId,
+      createdByName: creator.userName,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.repo.saveEndpoint(endpoint);
+    return { success: true, data: { endpoint: this.toSummary(endpoint), secret: endpoint.secret } };
+  }
+
+  async updateEndpoint(
+    tenantId: string,
+    id: string,
+    input: Partial<WebhookEndpointInput>
+  ): Promise<WebhookServiceResult<WebhookEndpointSummary>> {
+    const endpoint = await this.getTenantEndpoint(tenantId, id);
+    if (!endpoint) {
+      return { success: false, error: 'Webhook endpoint not found', code: 'NOT_FOUND' };
+    }
+
+    const updated: WebhookEndpoint = {
+      ...endpoint,
+      url: input.url ?? endpoint.url,
+      description: input.description !== undefined ? input.description || undefined : endpoint.description,
+      eventTypes: input.eventTypes ? Array.from(new Set(input.eventTypes)) : endpoint.eventTypes,
+      active: input.active ?? endpoint.active,
+      updatedAt: new Date().toISOString(),
+    };
+    await this.repo.saveEndpoint(updated);
+    return { success: true, data: this.toSummary(updated) };
+  }
+
+  /**
+   * Replace an endpoint's secret. Deliveries are signed with the new secret
+   * from then on, retries of earlier events included.
+   */
+  async rotateSecret(tenantId: string, id: string): Promise<WebhookServiceResult<WebhookEndpointWithSecret>> {
+    const endpoint = await this.getTenantEndpoint(tenantId, id);
+    if (!endpoint) {
+      return { success: false, error: 'Webhook endpoint not found', code: 'NOT_FOUND' };
+    }
+
+    const updated: WebhookEndpoint = { ...endpoint, secret: generateWebhookSecret(), updatedAt: new Date().toISOString() };
+    await this.repo.saveEndpoint(updated);
+    return { success: true, data: { endpoint: this.toSummary(updated), secret: updated.secret } };
+  }
+
+  /**
+   * Delete an endpoint. Its pending deliveries fail on their next attempt.
+   */
+  async deleteEndpoint(tenantId: string, id: string): Promise<WebhookServiceResult<void>> {
+    const endpoint = await this.getTenantEndpoint(tenantId, id);
+    if (!endpoint) {
+      return { success: false, error: 'Webhook endpoint not found', code: 'NOT_FOUND' };
+    }
+
+    await this.repo.deleteEndpoint(id);
+    return { success: true };
+  }
+
+  /**
+   * Record a delivery of the event for every active endpoint subscribed to
+   * it and start the first attempts. Never throws: an event that cannot be
+   * recorded is logged, so emitting cannot fail the change that caused it.
+   */
+  async emit(tenantId: string, type: WebhookEventType, data: WebhookEventData): Promise<WebhookDelivery[]> {
+    try {
+      const endpoints = (await this.repo.getEndpointsByTenant(tenantId))
+        .filter(endpoint => endpoint.active && endpoint.eventTypes.includes(type));
+      if (endpoints.length === 0) return [];
+
+      const now = new Date();
+      const event: WebhookEvent = { id: uuidv4(), type, tenantId, occurredAt: now.toISOString(), data };
+      const payload = JSON.stringify(event);
+
+      const deliveries = endpoints.map(endpoint => this.createDelivery(endpoint, event, payload, now));
+      await Promise.all(deliveries.map(delivery => this.repo.saveDelivery(delivery)));
+
+      for (const delivery of deliveries) {
+        const attempt = this.attempt(delivery)
+          .catch(error => console.error(`Webhook delivery ${delivery.id} failed:`, error))
+          .finally(() => this.inFlight.delete(attempt));
+        this.inFlight.add(attempt);
+      }
+      return deliveries;
+    } catch (error) {
+      console.error(`Failed to emit ${type} webhook event:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Wait for the first attempts emit started
+   */
+  async settle(): Promise<void> {
+    while (this.inFlight.size > 0) {
+      await Promise.all(Array.from(this.inFlight));
+    }
+  }
+
+  /**
+   * Retry every pending delivery whose next attempt is due
+   */
+  async runDueDeliveries(tenantId: string, now: Date = new Date()): Promise<WebhookServiceResult<WebhookRunSummary>> {
+    const due = await this.repo.getDueDeliveries(tenantId, now.toISOString(), MAX_DUE_DELIVERIES_PER_RUN);
+    const summary: WebhookRunSummary = { attempted: 0, succeeded: 0, failed: 0, retrying: 0 };
+
+    for (const delivery of due) {
+      // Claim the delivery before attempting it, so overlapping runs skip it
+      await this.repo.saveDelivery({ ...delivery, nextAttemptAt: new Date(now.getTime() + ATTEMPT_LEASE_MS).toISOString() });
+
+      const result = await this.attempt(delivery, now);
+      summary.attempted++;
+      if (result.status === 'succeeded') summary.succeeded++;
+      else if (result.status === 'failed') summary.failed++;
+      else summary.retrying++;
+    }
+
+    return { success: true, data: summary };
+  }
+
+  /**
+   * Deliveries newest first, optionally of one endpoint or status
+   */
+  async listDeliveries(tenantId: string, filter: WebhookDeliveryFilter = {}): Promise<WebhookDelivery[]> {
+    const limit = filter.limit || 50;
+    const deliveries = await this.repo.getRecentDeliveries(tenantId, filter.endpointId || filter.status ? limit * 4 : limit);
+    return deliveries
+      .filter(delivery => !filter.endpointId || delivery.endpointId === filter.endpointId)
+      .filter(delivery => !filter.status || delivery.status === filter.status)
+      .slice(0, limit);
+  }
+
+  async getDelivery(tenantId: string, id: string): Promise<WebhookServiceResult<WebhookDelivery>> {
+    const delivery = await this.repo.getDelivery(id);
+    if (!delivery || delivery.tenantId !== tenantId) {
+      return { success: false, error: 'Webhook delivery not found', code: 'NOT_FOUND' };
+    }
+    return { success: true, data: delivery };
+  }
+
+  /**
+   * Send a delivery's event again as a new delivery and wait for the
+   * attempt. The payload is unchanged; it is signed with the endpoint's
+   * current secret.
+   */
+  async replayDelivery(tenantId: string, id: string): Promise<WebhookServiceResult<WebhookDelivery>> {
+    const original = await this.getDelivery(tenantId, id);
+    if (!original.data) return original;
+
+    const endpoint = await this.getTenantEndpoint(tenantId, original.data.endpointId);
+    if (!endpoint) {
+      return { success: false, error: 'The webhook endpoint has been deleted', code: 'ENDPOINT_NOT_FOUND' };
+    }
+
+    const event = JSON.parse(original.data.payload) as WebhookEvent;
+    const replay = { ...this.createDelivery(endpoint, event, original.data.payload, new Date()), replayOf: original.data.id };
+    await this.repo.saveDelivery(replay);
+    return { success: true, data: await this.attempt(replay) };
+  }
+
+  private createDelivery(endpoint: WebhookEndpoint, event: WebhookEvent, payload: string, now: Date): WebhookDelivery {
+    return {
+      id: uuidv4(),
+      tenantId: endpoint.tenantId,
+      endpointId: endpoint.id,
+      url: endpoint.url,
+      eventId: event.id,
+      eventType: event.type,
+      payload,
+      status: 'pending',
+      attempts: [],
+      nextAttemptAt: new Date(now.getTime() + ATTEMPT_LEASE_MS).toISOString(),
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+    };
+  }
+
+  /**
+   * POST the delivery to its endpoint once and record the outcome
+   */
+  private async attempt(delivery: WebhookDelivery, now: Date = new Date()): Promise<WebhookDelivery> {
+    const endpoint = await this.repo.getEndpoint(delivery.endpointId);
+    const startedAt = Date.now();
+    let attempt: WebhookDeliveryAttempt;
+
+    if (!endpoint || !endpoint.active) {
+      const error = endpoint ? 'The webhook endpoint is disabled' : 'The webhook endpoint has been deleted';
+      return this.finish(delivery, { attemptedAt: now.toISOString(), durationMs: 0, error }, 'failed', now);
+    }
+
+    try {
+      const response = await this.fetchFn(endpoint.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'Pimify-Webhooks/1.0',
+          [WEBHOOK_EVENT_HEADER]: delivery.eventType,
+          [WEBHOOK_DELIVERY_HEADER]: delivery.id,
+          [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(endpoint.secret, delivery.payload, Math.floor(now.getTime() / 1000)),
+        },
+        body: delivery.payload,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+      });
+      const body = await response.text().catch(() => '');
+      attempt = {
+        attemptedAt: now.toISOString(),
+        durationMs: Date.now() - startedAt,
+        responseStatus: response.status,
+        responseBody: body.slice(0, MAX_LOGGED_RESPONSE_LENGTH) || undefined,
+      };
+      if (response.ok) {
+        return this.finish({ ...delivery, url: endpoint.url }, attempt, 'succeeded', now);
+      }
+    } catch (error) {
+      attempt = {
+        attemptedAt: now.toISOString(),
+        durationMs: Date.now() - startedAt,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+
+    return this.finish({ ...delivery, url: endpoint.url }, attempt, 'pending', now);
+  }
+
+  private async finish(
+    delivery: WebhookDelivery,
+    attempt: WebhookDeliveryAttempt,
+    status: WebhookDeliveryStatus,
+    now: Date
+  ): Promise<WebhookDelivery> {
+    const attempts = [...delivery.attempts, attempt];
+    const retryDelay = status === 'pending' ? getWebhookRetryDelay(attempts.length) : null;
+
+    const updated: WebhookDelivery = {
+      ...delivery,
+      attempts,
+      status: status === 'pending' && retryDelay === null ? 'failed' : status,
+      nextAttemptAt: retryDelay !== null ? new Date(now.getTime() + retryDelay).toISOString() : undefined,
+      updatedAt: now.toISOString(),
+    };
+    await this.repo.saveDelivery(updated);
+    return updated;
+  }
+
+  private async getTenantEndpoint(tenantId: string, id: string): Promise<WebhookEndpoint | null> {
+    const endpoint = await this.repo.getEndpoint(id);
+    return endpoint && endpoint.tenantId === tenantId ? endpoint : null;
+  }
+
+  private toSummary(endpoint: WebhookEndpoint): WebhookEndpointSummary {
+    const { secret, ...summary } = endpoint;
+    return { ...summary, secretHint: getWebhookSecretHint(secret) };
+  }
+}
+
+export const webhookService = new WebhookService();
@@ -0,0 +1,103 @@
+import { create } from 'zustand';
+import type {
+  WebhookDelivery,
+  WebhookEndpointInput,
+  WebhookEndpointSummary,
+  WebhookEndpointWithSecret,
+} from '@/types/webhook';
+
+interface WebhookState {
+  endpoints: WebhookEndpointSummary[];
+  deliveries: WebhookDelivery[];
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  fetchEndpoints: () => Promise<void>;
+  fetchDeliveries: (endpointId?: string) => Promise<void>;
+  createEndpoint: (input: WebhookEndpointInput) => Promise<WebhookEndpointWithSecret>; // The secret is only in this result
+  updateEndpoint: (id: string, input: Partial<WebhookEndpointInput>) => Promise<void>;
+  deleteEndpoint: (id: string) => Promise<void>;
+  rotateSecret: (id: string) => Promise<WebhookEndpointWithSecret>;
+  replayDelivery: (id: string) => Promise<WebhookDelivery>;
+}
+
+function buildHeaders(): Record<string, string> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  const token = typeof window !== 'undefined' ? localStorage.getItem('accessToken') : null;
+  if (token) headers['Authorization'] = `Bearer ${token}`;
+  return headers;
+}
+
+async function request<T>(url: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(url, { ...init, headers: buildHeaders() });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok || !data.success) {
+    const details = Array.isArray(data.details) && data.details.length > 0 ? `: ${data.details.join('; ')}` : '';
+    throw new Error((data.error || `Request failed: ${response.status} ${response.statusText}`) + details);
+  }
+  return data.data as T;
+}
+
+export const useWebhookStore = create<WebhookState>((set) => ({
+  endpoints: [],
+  deliveries: [],
+  isLoading: false,
+  error: null,
+
+  fetchEndpoints: async () => {
+    set({ isLoading: true, error: null });
+    try {
+      const endpoints = await request<WebhookEndpointSummary[]>('/api/settings/webhooks');
+      set({ endpoints, isLoading: false });
+    } catch (error) {
+      console.error('Error fetching webhook endpoints:', error);
+      set({ error: (error as Error).message, isLoading: false });
+    }
+  },
+
+  fetchDeliveries: async (endpointId) => {
+    try {
+      const query = endpointId ? `?endpointId=${encodeURIComponent(endpointId)}` : '';
+      const deliveries = await request<WebhookDelivery[]>(`/api/settings/webhooks/deliveries${query}`);
+      set({ deliveries });
+    } catch (error) {
+      console.error('Error fetching webhook deliveries:', error);
+      set({ error: (error as Error).message });
+    }
+  },
+
+  createEndpoint: async (input) => {
+    const created = await request<WebhookEndpointWithSecret>('/api/settings/webhooks', {
+      method: 'POST',
+      body: JSON.stringify(input),
+    });
+    set(state => ({ endpoints: [...state.endpoints, created.endpoint] }));
+    return created;
+  },
+
+  updateEndpoint: async (id, input) => {
+    const endpoint = await request<WebhookEndpointSummary>(`/api/settings/webhooks/${id}`, {
+      method: 'PATCH',
+      body: JSON.stringify(input),
+    });
+    set(state => ({ endpoints: state.endpoints.map(e => (e.id === id ? endpoint : e)) }));
+  },
+
+  deleteEndpoint: async (id) => {
+    await request<void>(`/api/settings/webhooks/${id}`, { method: 'DELETE' });
+    set(state => ({ endpoints: state.endpoints.filter(e => e.id !== id) }));
+  },
+
+  rotateSecret: async (id) => {
+    const rotated = await request<WebhookEndpointWithSecret>(`/api/settings/webhooks/${id}/rotate-secret`, { method: 'POST' });
+    set(state => ({ endpoints: state.endpoints.map(e => (e.id === id ? rotated.endpoint : e)) }));
+    return rotated;
+  },
+
+  replayDelivery: async (id) => {
+    const delivery = await request<WebhookDelivery>(`/api/settings/webhooks/deliveries/${id}/replay`, { method: 'POST' });
+    set(state => ({ deliveries: [delivery, ...state.deliveries] }));
+    return delivery;
+  },
+}));
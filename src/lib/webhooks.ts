@@ -0,0 +1,129 @@
+/**
+ * Webhooks
+ *
+ * Payload signing, the retry schedule, the request schema for endpoints and
+ * the mapping from workflow transitions to event types.
+ *
+ * Receivers verify a delivery by computing
+ * HMAC-SHA256(secret, `${t}.${body}`) over the raw request body and
+ * comparing it with the v1 value of the X-Pimify-Signature header
+ * (`t=<unix seconds>,v1=<hex>`). Rejecting old timestamps guards against
+ * replayed requests.
+ */
+
+import crypto from 'crypto';
+import { z } from 'zod';
+import type { WebhookEventType } from '@/types/webhook';
+import { WEBHOOK_EVENT_TYPES } from '@/types/webhook';
+import { WorkflowState } from '@/types/workflow';
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Pimify-Signature';
+export const WEBHOOK_EVENT_HEADER = 'X-Pimify-Event';
+export const WEBHOOK_DELIVERY_HEADER = 'X-Pimify-Delivery';
+
+const WEBHOOK_SECRET_PREFIX = 'whsec_';
+
+// Attempts per delivery, the first included
+export const MAX_WEBHOOK_ATTEMPTS = 8;
+
+// Wait before the second attempt; doubles with every further attempt
+const BASE_RETRY_DELAY_MS = 60 * 1000;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+
+// Signatures older than this are rejected by verifyWebhookSignature
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+/**
+ * Request schema for creating and updating an endpoint. Plain HTTP is only
+ * accepted for local receivers.
+ */
+export const webhookEndpointSchema = z.object({
+  url: z.string().trim().url().max(2000).refine(isAllowedWebhookUrl, {
+    message: 'Webhook URLs must use HTTPS',
+  }),
+  description: z.string().trim().max(200).optional(),
+  eventTypes: z.array(z.enum(WEBHOOK_EVENT_TYPES as [WebhookEventType, ...WebhookEventType[]])).min(1),
+  active: z.boolean().optional(),
+});
+
+export function isAllowedWebhookUrl(url: string): boolean {
+  try {
+    const { protocol, hostname } = new URL(url);
+    if (protocol === 'https:') return true;
+    return protocol === 'http:' && (hostname === 'localhost' || hostname === '127.0.0.1');
+  } catch {
+    return false;
+  }
+}
+
+export function generateWebhookSecret(): string {
+  return WEBHOOK_SECRET_PREFIX + crypto.randomBytes(24).toString('hex');
+}
+
+/**
+ * The signature header value for a payload sent at `timestamp` (unix seconds)
+ */
+export function signWebhookPayload(secret: string, payload: string, timestamp: number): string {
+  const signature = crypto.createHmac('sha256', secret).update(`${timestamp}.${payload}`).digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Check a signature header the way receivers should
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  payload: string,
+  header: string,
+  now: Date = new Date()
+): boolean {
+  const parts = new Map(header.split(',').map(part => part.trim().split('=') as [string, string]));
+  const timestamp = Number(parts.get('t'));
+  const signature = parts.get('v1');
+  if (!Number.isInteger(timestamp) || !signature) return false;
+  if (Math.abs(now.getTime() / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS) return false;
+
+  const expected = signWebhookPayload(secret, payload, timestamp).split('v1=')[1];
+  return signature.length === expected.length &&
+    crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected));
+}
+
+/**
+ * How long to wait after the given number of failed attempts, or null when
+ * the delivery has run out of attempts: 1, 2, 4, 8 ... minutes
+ */
+export function getWebhookRetryDelay(failedAttempts: number): number | null {
+  if (failedAttempts >= MAX_WEBHOOK_ATTEMPTS) return null;
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** (failedAttempts - 1), MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * The event a workflow transition emits; null for transitions that leave
+ * the state unchanged
+ */
+export function getTransitionEventType(from: WorkflowState, to: WorkflowState): WebhookEventType | null {
+  if (from === to) return null;
+  if (from === WorkflowState.PUBLISHED) return 'product.unpublished';
+
+  switch (to) {
+    case WorkflowState.REVIEW:
+      return 'product.submitted';
+    case WorkflowState.APPROVED:
+      return 'product.approved';
+    case WorkflowState.REJECTED:
+      return 'product.rejected';
+    case WorkflowState.PUBLISHED:
+      return 'product.published';
+    case WorkflowState.DRAFT:
+      return 'product.returned_to_draft';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Last characters of a secret, to tell secrets apart in settings
+ */
+export function getWebhookSecretHint(secret: string): string {
+  return `…${secret.slice(-4)}`;
+}
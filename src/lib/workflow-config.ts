@@ -150,6 +150,7 @@ export const workflowRolePermissions: Record<UserRole, string[]> = {
     'products:create',
     'products:read',
     'products:write',
+    'products:translate',
     'workflow:submit',
     'workflow:edit',
     'audit:read',
@@ -157,12 +158,19 @@ export const workflowRolePermissions: Record<UserRole, string[]> = {
   ],
   [UserRole.REVIEWER]: [
     'products:read',
+    'products:translate',
     'workflow:approve',
     'workflow:reject',
     'workflow:review',
     'audit:read',
     'notifications:read',
   ],
+  [UserRole.TRANSLATOR]: [
+    'products:read',
+    'products:translate',
+    'audit:read',
+    'notifications:read',
+  ],
   [UserRole.VIEWER]: [
     'products:read',
     'audit:read',
@@ -200,6 +208,7 @@ export const workflowActionPermissions: Record<WorkflowAction, string[]> = {
   [WorkflowAction.BULK_OPERATIONS]: ['workflow:bulk'],
   [WorkflowAction.DELETE]: ['products:delete'],
   [WorkflowAction.STATE_CHANGE]: ['workflow:edit'],
+  [WorkflowAction.TRANSLATE]: ['products:translate'],
 };
 
 /**
@@ -16,6 +16,8 @@ import {
   FieldChange,
 } from '@/types/workflow';
 import { defaultWorkflowConfig } from '@/types/workflow';
+import type { LocaleSettings } from '@/types/locale';
+import { getIncompleteTranslations } from './translation-workflow';
 
 export interface StateTransitionRequest {
   productId: string;
@@ -26,6 +28,16 @@ export interface StateTransitionRequest {
   reason?: string;
   comment?: string;
   assignedReviewer?: string;
+  translationRequirement?: TranslationRequirement;
+}
+
+/**
+ * Locales whose translations must be approved and up to date before a
+ * product can be published
+ */
+export interface TranslationRequirement {
+  locales: string[];
+  settings: LocaleSettings;
 }
 
 export interface StateTransitionResult {
@@ -125,6 +137,14 @@ export class WorkflowStateManager {
       };
     }
 
+    const translationErrors = this.validateTranslations(request, product);
+    if (translationErrors.length > 0) {
+      return {
+        success: false,
+        error: `Translations are incomplete: ${translationErrors.join('; ')}`,
+      };
+    }
+
     try {
       // Find the transition rule
       const rule = this.findTransitionRule(request.fromState, request.toState);
@@ -164,6 +184,18 @@ export class WorkflowStateManager {
     }
   }
 
+  /**
+   * Checks the translations a publish transition requires. Other transitions
+   * and requests without a requirement pass.
+   */
+  validateTranslations(request: StateTransitionRequest, product: ProductWorkflow): string[] {
+    const requirement = request.translationRequirement;
+    if (request.toState !== WorkflowState.PUBLISHED || !requirement || requirement.locales.length === 0) {
+      return [];
+    }
+    return getIncompleteTranslations(product, requirement.locales, requirement.settings);
+  }
+
   /**
    * Gets all valid next states for a given current state and user role
    */
@@ -1,28 +1,16 @@
 // src/middleware.ts
 import { type NextRequest, NextResponse } from 'next/server';
+import { resolveTenantIdFromHost } from '@/lib/tenant';
 
 export function middleware(request: NextRequest) {
-  const hostname = request.headers.get('host') || '';
-  const parts = hostname.split('.');
-  let tenantId = 'default_server'; // Default if no specific tenant identified
-
-  // Example: tenant.pimify.io (length 3)
-  // Example: localhost:3000 (length 1, after splitting by '.', then take first part by ':')
-
-  if (hostname.includes('localhost')) {
-    tenantId = 'localhost_dev';
-  } else if (parts.length > 2 && parts[0] !== 'www') {
-    // More robust check for your actual domain structure
-    if (parts[1] === 'pimify' && parts[2] === 'io') {
-      tenantId = parts[0];
-    }
-  }
+  // Resolved from the host; any x-tenant-id sent by the client is overwritten below
+  const tenantId = resolveTenantIdFromHost(request.headers.get('host'));
 
   // You can add the tenantId to request headers to be accessed by API routes or server components
   const requestHeaders = new Headers(request.headers);
   requestHeaders.set('x-tenant-id', tenantId);
 
-  // console.log(`Middleware: Identified tenantId "${tenantId}" for host "${hostname}"`);
+  // console.log(`Middleware: Identified tenantId "${tenantId}" for host "${request.headers.get('host')}"`);
 
   // Check for authentication token on protected routes
   // We skip auth check for public paths: /auth/*, /api/* (handled by api-middleware), /_next/*, etc.
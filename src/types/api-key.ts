@@ -0,0 +1,67 @@
+/**
+ * API Key Type Definitions
+ *
+ * Integrators call the public /api/v1 routes with an API key instead of a
+ * user session. Only a hash of the key is stored; the key itself is shown
+ * once, when it is created. Keys are created, listed and rate limited per
+ * tenant, but products are not stored per tenant: a key reaches the same
+ * product catalog as every user of the deployment.
+ */
+
+// read: GET routes. write: create, update and delete, and the workflow
+// transitions editors make. publish: the transitions reviewers and admins
+// make (approve, reject, publish, unpublish). storefront: the GraphQL API,
+// limited to published products unless the key also has `read`.
+export type ApiKeyScope = 'read' | 'write' | 'publish' | 'storefront';
+
+export const API_KEY_SCOPES: ApiKeyScope[] = ['read', 'write', 'publish', 'storefront'];
+
+export const API_KEY_SCOPE_LABELS: Record<ApiKeyScope, string> = {
+  read: 'Read',
+  write: 'Write',
+  publish: 'Publish',
+  storefront: 'Storefront',
+};
+
+export interface ApiKeyRateLimit {
+  maxRequests: number;
+  windowMs: number;
+}
+
+export const DEFAULT_API_KEY_RATE_LIMIT: ApiKeyRateLimit = { maxRequests: 600, windowMs: 60 * 1000 };
+
+export interface ApiKey {
+  id: string;
+  tenantId: string;
+  name: string;
+  prefix: string; // First characters of the key, to tell keys apart
+  keyHash: string; // SHA-256 of the key
+  scopes: ApiKeyScope[];
+  rateLimit: ApiKeyRateLimit;
+  createdBy: string;
+  createdByName?: string;
+  createdAt: string;
+  lastUsedAt?: string;
+  expiresAt?: string;
+  revokedAt?: string;
+}
+
+/**
+ * An API key as listed in settings, without its hash
+ */
+export type ApiKeySummary = Omit<ApiKey, 'keyHash'>;
+
+export interface CreateApiKeyInput {
+  name: string;
+  scopes: ApiKeyScope[];
+  rateLimit?: ApiKeyRateLimit;
+  expiresAt?: string;
+}
+
+/**
+ * A newly created key; `secret` is not stored and cannot be shown again
+ */
+export interface CreatedApiKey {
+  key: ApiKeySummary;
+  secret: string;
+}
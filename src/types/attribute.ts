@@ -0,0 +1,101 @@
+/**
+ * Attribute Family Type Definitions
+ *
+ * An attribute family (e.g. "Headphones", "Furniture") defines the typed
+ * attributes a product of that kind should carry. Products reference a family
+ * by ID and store their values keyed by attribute code.
+ */
+
+import type { MultilingualString } from './product';
+import type { Dimension } from './units';
+
+export type AttributeType = 'text' | 'number' | 'boolean' | 'enum' | 'date' | 'multilingual';
+
+export const ATTRIBUTE_TYPES: AttributeType[] = ['text', 'number', 'boolean', 'enum', 'date', 'multilingual'];
+
+export interface AttributeEnumOption {
+  value: string;
+  label: MultilingualString;
+}
+
+/**
+ * Validation constraints. Only the constraints relevant to the attribute's
+ * type are evaluated; the rest are ignored.
+ */
+export interface AttributeConstraints {
+  // text / multilingual
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string; // Regular expression source
+  // number
+  min?: number;
+  max?: number;
+  integer?: boolean;
+  // enum
+  multiple?: boolean;
+  // date (YYYY-MM-DD)
+  minDate?: string;
+  maxDate?: string;
+}
+
+export interface AttributeDefinition {
+  code: string; // Stable key used in product attribute values, e.g. "battery_life"
+  label: MultilingualString;
+  type: AttributeType;
+  required: boolean;
+  unit?: string; // Default unit of number attributes, e.g. "g" or "h"
+  dimension?: Dimension; // Number attributes only; lets values be entered in any unit of the dimension
+  options?: AttributeEnumOption[]; // Enum attributes only
+  constraints?: AttributeConstraints;
+  weight?: number; // Completeness weight when required (defaults to DEFAULT_ATTRIBUTE_WEIGHT)
+  helpText?: MultilingualString;
+}
+
+export interface AttributeFamily {
+  id: string;
+  code: string;
+  name: MultilingualString;
+  description?: string;
+  attributes: AttributeDefinition[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * A numeric value with the unit it was entered in. When the unit is in the
+ * unit catalog, the value normalized to the dimension's base unit is kept
+ * alongside it (see units-of-measure.ts).
+ */
+export interface QuantityValue {
+  value: number;
+  unit?: string;
+  normalized?: {
+    value: number;
+    unit: string;
+  };
+}
+
+export type AttributeValue =
+  | string
+  | number
+  | boolean
+  | string[]
+  | MultilingualString
+  | QuantityValue
+  | null;
+
+export type AttributeValues = Record<string, AttributeValue>;
+
+export interface AttributeValidationIssue {
+  code: string; // Attribute code
+  message: string;
+}
+
+export interface CreateAttributeFamilyInput {
+  code: string;
+  name: MultilingualString;
+  description?: string;
+  attributes: AttributeDefinition[];
+}
+
+export type UpdateAttributeFamilyInput = Partial<CreateAttributeFamilyInput>;
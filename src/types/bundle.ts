@@ -0,0 +1,67 @@
+/**
+ * Bundle Type Definitions
+ *
+ * A bundle (or kit) is sold as one product but made up of other products or
+ * specific variants of them, each with a quantity. Its price is either set
+ * by hand like any other product, or computed from the component prices
+ * with an optional discount.
+ */
+
+export type ProductType = 'simple' | 'bundle';
+
+export interface BundleComponent {
+  id: string; // for react list keys
+  productId: string;
+  variantId?: string; // A specific variant of the component product
+  quantity: number;
+}
+
+export type BundlePricingMode = 'fixed' | 'computed';
+
+export type BundleDiscountType = 'none' | 'percentage' | 'fixed_amount';
+
+export const BUNDLE_DISCOUNT_TYPE_LABELS: Record<BundleDiscountType, string> = {
+  none: 'No discount',
+  percentage: 'Percentage off',
+  fixed_amount: 'Amount off',
+};
+
+export interface BundleDiscount {
+  type: BundleDiscountType;
+  value: number; // Percent (0-100) or an amount in `currency`
+  currency?: string; // Required for fixed_amount; other currencies get no discount
+}
+
+export interface BundleDefinition {
+  components: BundleComponent[];
+  pricing: {
+    mode: BundlePricingMode; // fixed: the bundle's own price list; computed: sum of components less the discount
+    discount?: BundleDiscount;
+  };
+}
+
+/**
+ * Computed price of a bundle in one currency
+ */
+export interface BundlePrice {
+  currency: string;
+  componentTotal: number; // Sum of component prices times quantities
+  discount: number;
+  amount: number; // What the bundle sells for
+}
+
+export type BundleIssueType =
+  | 'bundle-empty'
+  | 'bundle-component-missing'
+  | 'bundle-component-variant-missing'
+  | 'bundle-component-discontinued'
+  | 'bundle-component-unpublished'
+  | 'bundle-component-nested'
+  | 'bundle-component-self'
+  | 'bundle-component-unpriced';
+
+export interface BundleIssue {
+  type: BundleIssueType;
+  componentId?: string;
+  message: string;
+}
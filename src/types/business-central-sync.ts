@@ -0,0 +1,77 @@
+/**
+ * Business Central Sync Type Definitions
+ *
+ * Imports and exports with Business Central are incremental: each company
+ * keeps a watermark per direction, and only the items changed in Business
+ * Central, or the products changed in Pimify, since the last successful
+ * sync are sent. Ownership rules say which system wins for the fields both
+ * of them edit.
+ */
+
+// Fields both systems have. description: the item's Description
+// (displayName), which is the product name in Pimify.
+export type BusinessCentralSyncField = 'price' | 'description' | 'inventory';
+
+export const BUSINESS_CENTRAL_SYNC_FIELDS: BusinessCentralSyncField[] = ['price', 'description', 'inventory'];
+
+export const BUSINESS_CENTRAL_SYNC_FIELD_LABELS: Record<BusinessCentralSyncField, string> = {
+  price: 'Price',
+  description: 'Description',
+  inventory: 'Inventory',
+};
+
+export type BusinessCentralFieldOwner = 'business_central' | 'pimify';
+
+export const BUSINESS_CENTRAL_FIELD_OWNER_LABELS: Record<BusinessCentralFieldOwner, string> = {
+  business_central: 'Business Central',
+  pimify: 'Pimify',
+};
+
+/**
+ * The system that wins for each field. Imports only change the fields
+ * Business Central owns on existing products; exports only change the
+ * fields Pimify owns on existing items.
+ */
+export type BusinessCentralFieldOwnership = Record<BusinessCentralSyncField, BusinessCentralFieldOwner>;
+
+export const DEFAULT_BUSINESS_CENTRAL_FIELD_OWNERSHIP: BusinessCentralFieldOwnership = {
+  price: 'business_central',
+  description: 'pimify',
+  inventory: 'business_central',
+};
+
+/**
+ * Sync state of one Business Central company, shared by every integration
+ * that connects to it
+ */
+export interface BusinessCentralSyncState {
+  id: string; // tenantId__environment__companyId
+  tenantId: string;
+  environment: string;
+  companyId: string;
+  ownership: BusinessCentralFieldOwnership;
+  importWatermark?: string; // lastModifiedDateTime of the last item imported without a gap
+  lastImportAt?: string;
+  exportWatermark?: string; // updatedAt of the last product exported without a gap
+  lastExportAt?: string;
+  updatedAt: string;
+  updatedBy?: string;
+}
+
+export interface UpdateBusinessCentralSyncInput {
+  integrationId: string;
+  ownership?: Partial<BusinessCentralFieldOwnership>;
+  reset?: 'import' | 'export' | 'both'; // Make the next sync in that direction a full one
+}
+
+/**
+ * An item as the last import or export that touched it left it, keyed by
+ * item number. Syncs use it to skip the changes they made themselves:
+ * imports skip items that still have the same hash, exports skip products
+ * not saved since lastSyncedAt.
+ */
+export interface BusinessCentralItemSync {
+  itemNumber: string;
+  hash: string; // Of the item fields syncs read and write
+  lastSyncedAt: string;
+}
@@ -0,0 +1,53 @@
+/**
+ * Category Taxonomy Type Definitions
+ *
+ * Categories form a managed tree. Products reference categories by their
+ * stable ID in `attributesAndSpecs.categories`; names are resolved at
+ * display/export time so renaming a category never touches products.
+ *
+ * Older products may still hold free-text names there, or in the legacy
+ * `category` field. Imports turn names into IDs when a category matches and
+ * keep the rest as text; filters and exports accept both.
+ */
+
+import type { MultilingualString } from './product';
+
+export interface Category {
+  id: string;
+  parentId: string | null; // null for root categories
+  name: MultilingualString;
+  slug: string;
+  order: number; // Sort position among siblings (0-based)
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CategoryTreeNode extends Category {
+  depth: number;
+  path: string[]; // IDs from the root down to (and including) this node
+  children: CategoryTreeNode[];
+}
+
+export interface CreateCategoryInput {
+  name: MultilingualString;
+  parentId?: string | null;
+  slug?: string;
+  order?: number;
+}
+
+export interface UpdateCategoryInput {
+  name?: MultilingualString;
+  slug?: string;
+}
+
+export interface MoveCategoryInput {
+  parentId: string | null;
+  order?: number; // Defaults to the end of the new sibling list
+}
+
+export interface MergeCategoriesResult {
+  targetId: string;
+  removedId: string;
+  movedChildren: number;
+  updatedProducts: number;
+}
@@ -0,0 +1,67 @@
+/**
+ * Channel Type Definitions
+ *
+ * A channel is a destination products are published to (a Shopify store, the
+ * B2B webshop, the print catalog, ...). Products can override selected
+ * content per channel; anything not overridden falls back to the base value.
+ */
+
+import type { MediaEntry, MultilingualString, PriceEntry } from './product';
+
+export type ChannelType = 'shopify' | 'business_central' | 'webshop' | 'print' | 'other';
+
+export const CHANNEL_TYPES: ChannelType[] = ['shopify', 'business_central', 'webshop', 'print', 'other'];
+
+export const CHANNEL_TYPE_LABELS: Record<ChannelType, string> = {
+  shopify: 'Shopify',
+  business_central: 'Business Central',
+  webshop: 'Webshop',
+  print: 'Print catalog',
+  other: 'Other',
+};
+
+export interface Channel {
+  id: string;
+  code: string; // Unique, e.g. "shopify_no", "b2b"
+  name: string;
+  type: ChannelType;
+  description?: string;
+  currency?: string; // Preferred price list currency (ISO 4217)
+  locale?: string; // Content locale for single-language exports; defaults to the tenant's default locale
+  active: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type CreateChannelInput = Pick<Channel, 'code' | 'name' | 'type'> &
+  Partial<Pick<Channel, 'description' | 'currency' | 'locale' | 'active'>>;
+
+export type UpdateChannelInput = Partial<CreateChannelInput>;
+
+/**
+ * Channel-specific values for a product. Every field is optional; multilingual
+ * fields fall back per language, list fields fall back when empty.
+ */
+export interface ChannelOverride {
+  name?: MultilingualString;
+  descriptionShort?: MultilingualString;
+  descriptionLong?: MultilingualString;
+  seoTitle?: MultilingualString;
+  seoDescription?: MultilingualString;
+  keywords?: string[];
+  images?: MediaEntry[];
+  standardPrice?: PriceEntry[];
+  salePrice?: PriceEntry[];
+}
+
+export type ChannelOverrideField = keyof ChannelOverride;
+
+export const CHANNEL_OVERRIDE_FIELDS: ChannelOverrideField[] = [
+  'name', 'descriptionShort', 'descriptionLong', 'seoTitle', 'seoDescription',
+  'keywords', 'images', 'standardPrice', 'salePrice',
+];
+
+/**
+ * Overrides stored on a product, keyed by channel ID
+ */
+export type ChannelOverrides = Record<string, ChannelOverride>;
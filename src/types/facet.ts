@@ -0,0 +1,65 @@
+/**
+ * Product Facet Type Definitions
+ *
+ * Facets narrow the product list by brand, category, status, workflow state,
+ * assigned reviewer, quality score and images. Values within a facet are
+ * alternatives (OR); facets combine with each other (AND).
+ */
+
+import type { Product } from './product';
+
+export type ProductFacetKey = 'brand' | 'category' | 'status' | 'workflowState' | 'reviewer' | 'qualityBand' | 'hasImages';
+
+export const PRODUCT_FACET_KEYS: ProductFacetKey[] = ['brand', 'category', 'status', 'workflowState', 'reviewer', 'qualityBand', 'hasImages'];
+
+export const PRODUCT_FACET_LABELS: Record<ProductFacetKey, string> = {
+  brand: 'Brand',
+  category: 'Category',
+  status: 'Status',
+  workflowState: 'Workflow state',
+  reviewer: 'Assigned reviewer',
+  qualityBand: 'Quality score',
+  hasImages: 'Images',
+};
+
+// Bands follow the quality badge colors: above 90 is green, 70 and up yellow
+export type QualityBand = 'high' | 'medium' | 'low';
+
+export const QUALITY_BAND_LABELS: Record<QualityBand, string> = {
+  high: 'Above 90%',
+  medium: '70–90%',
+  low: 'Below 70%',
+};
+
+// Facet value for products without a brand, category or reviewer
+export const FACET_NONE = '__none__';
+
+// Reviewer value in saved views meaning whoever opens the view
+export const FACET_CURRENT_USER = '__me__';
+
+/**
+ * Selected values per facet
+ */
+export type ProductFacetSelection = Partial<Record<ProductFacetKey, string[]>>;
+
+export interface ProductFacetValue {
+  value: string;
+  label: string;
+  count: number; // Matching products if this value were selected too
+  selected: boolean;
+}
+
+export interface ProductFacet {
+  key: ProductFacetKey;
+  label: string;
+  values: ProductFacetValue[];
+}
+
+/**
+ * Facet counts together with one page of the matching products
+ */
+export interface ProductFacetResult {
+  facets: ProductFacet[];
+  products: Product[];
+  total: number; // All matching products, not just this page
+}
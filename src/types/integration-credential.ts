@@ -0,0 +1,96 @@
+/**
+ * Integration Credential Type Definitions
+ *
+ * Credentials for the Shopify and Business Central integrations are kept on
+ * the server, per tenant. Secret fields are encrypted at rest and never sent
+ * back to the browser; import, export and sync requests name the integration
+ * by ID and the server looks its credentials up.
+ */
+
+export type IntegrationType = 'shopify' | 'business_central';
+
+export const INTEGRATION_TYPES: IntegrationType[] = ['shopify', 'business_central'];
+
+export const INTEGRATION_TYPE_LABELS: Record<IntegrationType, string> = {
+  shopify: 'Shopify',
+  business_central: 'Business Central',
+};
+
+export interface ShopifyCredentials {
+  storeUrl: string;
+  accessToken: string; // Admin API access token
+}
+
+export interface BusinessCentralCredentials {
+  tenantId: string; // Azure AD tenant
+  environment: string;
+  clientId: string;
+  clientSecret: string;
+  companyId: string;
+}
+
+export interface IntegrationCredentialsByType {
+  shopify: ShopifyCredentials;
+  business_central: BusinessCentralCredentials;
+}
+
+export interface IntegrationCredentialField {
+  key: string;
+  label: string;
+  secret?: boolean; // Encrypted at rest and only shown as a hint
+  endpoint?: boolean; // Decides where the secrets are sent; changing it needs the secrets again
+  placeholder?: string;
+}
+
+export const INTEGRATION_CREDENTIAL_FIELDS: Record<IntegrationType, IntegrationCredentialField[]> = {
+  shopify: [
+    { key: 'storeUrl', label: 'Store URL', endpoint: true, placeholder: 'your-store-name.myshopify.com' },
+    { key: 'accessToken', label: 'Admin API Access Token', secret: true, placeholder: 'shpat_...' },
+  ],
+  business_central: [
+    { key: 'tenantId', label: 'Azure Tenant ID', endpoint: true },
+    { key: 'environment', label: 'Environment', placeholder: 'production' },
+    { key: 'clientId', label: 'Client ID' },
+    { key: 'clientSecret', label: 'Client Secret', secret: true },
+    { key: 'companyId', label: 'Company ID' },
+  ],
+};
+
+export interface IntegrationConnectionTest {
+  ok: boolean;
+  message: string;
+  testedAt: string;
+}
+
+export interface IntegrationCredential {
+  id: string;
+  tenantId: string;
+  type: IntegrationType;
+  name: string;
+  settings: Record<string, string>; // The fields that are not secret
+  encryptedSecrets: string; // The secret fields, encrypted
+  secretHints: Record<string, string>; // Last characters of each secret field
+  createdBy: string;
+  createdByName?: string;
+  createdAt: string;
+  updatedAt: string;
+  rotatedAt?: string; // When the secret fields were last replaced
+  lastTest?: IntegrationConnectionTest;
+}
+
+/**
+ * A credential as listed in settings, without its secrets
+ */
+export type IntegrationCredentialSummary = Omit<IntegrationCredential, 'encryptedSecrets'>;
+
+export interface IntegrationCredentialInput {
+  type: IntegrationType;
+  name: string;
+  credentials: Record<string, string>; // Every field of the type, secret ones included
+}
+
+export interface IntegrationCredentialUpdate {
+  name?: string;
+  settings?: Record<string, string>; // Fields that are not secret; secrets change by rotation
+  secrets?: Record<string, string>; // Every secret field, required when an endpoint setting changes
+}
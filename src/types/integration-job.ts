@@ -0,0 +1,104 @@
+/**
+ * Integration Job Type Definitions
+ *
+ * Shopify syncs and Business Central imports and exports run as background
+ * jobs: starting one queues it, a worker runs it and records its progress
+ * and the items that failed, and the import/export page polls the job
+ * instead of waiting for the whole run in one request.
+ */
+
+import type { IntegrationType } from './integration-credential';
+import type { ShopifySyncDirection } from './shopify-sync';
+import type { UserRole } from './workflow';
+
+export type IntegrationJobKind = 'shopify_sync' | 'business_central_import' | 'business_central_export';
+
+export const INTEGRATION_JOB_KIND_LABELS: Record<IntegrationJobKind, string> = {
+  shopify_sync: 'Shopify sync',
+  business_central_import: 'Business Central import',
+  business_central_export: 'Business Central export',
+};
+
+/**
+ * The integration type whose credentials a job kind uses
+ */
+export const INTEGRATION_JOB_KIND_TYPES: Record<IntegrationJobKind, IntegrationType> = {
+  shopify_sync: 'shopify',
+  business_central_import: 'business_central',
+  business_central_export: 'business_central',
+};
+
+// queued: waiting for its first attempt or a retry. running: a worker has it.
+// succeeded: ran to the end, possibly with failed items. failed: out of
+// attempts, or failed in a way retrying cannot fix. cancelled: stopped by a user.
+export type IntegrationJobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export const INTEGRATION_JOB_STATUS_LABELS: Record<IntegrationJobStatus, string> = {
+  queued: 'Queued',
+  running: 'Running',
+  succeeded: 'Succeeded',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+/**
+ * What a job works on. `direction` is only used by Shopify syncs.
+ */
+export interface IntegrationJobParams {
+  integrationId: string; // The credential in the integration vault
+  direction?: ShopifySyncDirection;
+  productIds?: string[]; // Only these products; all of them when left out
+  workflowStates?: string[]; // Only export products in these workflow states
+  channelId?: string; // Channel whose overrides exports apply
+  full?: boolean; // Business Central: send everything, not only what changed since the last sync
+}
+
+export interface IntegrationJobInput {
+  kind: IntegrationJobKind;
+  params: IntegrationJobParams;
+}
+
+export interface IntegrationJobProgress {
+  total: number; // 0 until the job knows how many items there are
+  processed: number; // Including failed items
+  failed: number;
+}
+
+/**
+ * An item the job could not sync; the job carries on with the others
+ */
+export interface IntegrationJobItemError {
+  key: string; // SKU, product ID or other identifier of the item
+  message: string;
+}
+
+export interface IntegrationJobAttempt {
+  startedAt: string;
+  finishedAt?: string;
+  error?: string; // Why the attempt stopped, when it did not succeed
+}
+
+export interface IntegrationJob {
+  id: string;
+  tenantId: string;
+  kind: IntegrationJobKind;
+  params: IntegrationJobParams;
+  status: IntegrationJobStatus;
+  progress: IntegrationJobProgress;
+  itemErrors: IntegrationJobItemError[]; // The first failed items of the last attempt
+  attempts: IntegrationJobAttempt[];
+  nextAttemptAt?: string; // When a worker may pick the job up: a retry, or a running job's lease running out
+  cancelRequested?: boolean; // Set while a running job is being cancelled
+  message?: string; // Outcome, e.g. "Created 3 and updated 10 products"
+  error?: string; // Why the job failed
+  retryOf?: string; // Job this one runs again
+  startedBy: {
+    userId: string;
+    userName: string;
+    userRole: UserRole; // Imports run with the role of the user who started them
+    email?: string;
+  };
+  createdAt: string;
+  updatedAt: string;
+  finishedAt?: string;
+}
@@ -0,0 +1,55 @@
+/**
+ * Locale Type Definitions
+ *
+ * Each tenant configures the content locales products are maintained in.
+ * Multilingual values that are empty in a locale fall back along the locale's
+ * fallback chain, ending with the tenant's default locale.
+ */
+
+export interface LocaleDefinition {
+  code: string; // BCP 47 style, e.g. "en", "sv", "de-AT"
+  name: string; // Display name, e.g. "Swedish"
+}
+
+export interface LocaleSettings {
+  locales: LocaleDefinition[]; // Enabled locales, in display order
+  defaultLocale: string;
+  fallbacks: Record<string, string[]>; // Locale -> locales to try before the default, e.g. { da: ['no'] }
+  requiredForPublish?: string[]; // Locales whose translations must be approved before a product is published
+  glossary?: string[]; // Terms machine translation must leave untouched, e.g. brand names
+  updatedAt?: string;
+  updatedBy?: string;
+}
+
+export type UpdateLocaleSettingsInput = Pick<LocaleSettings, 'locales' | 'defaultLocale'> &
+  Partial<Pick<LocaleSettings, 'fallbacks' | 'requiredForPublish' | 'glossary'>>;
+
+/**
+ * Locales offered when adding a locale in settings. Any valid code can be
+ * added; these only provide display names.
+ */
+export const KNOWN_LOCALES: LocaleDefinition[] = [
+  { code: 'en', name: 'English' },
+  { code: 'no', name: 'Norwegian' },
+  { code: 'sv', name: 'Swedish' },
+  { code: 'da', name: 'Danish' },
+  { code: 'de', name: 'German' },
+  { code: 'fi', name: 'Finnish' },
+  { code: 'nl', name: 'Dutch' },
+  { code: 'fr', name: 'French' },
+  { code: 'es', name: 'Spanish' },
+  { code: 'it', name: 'Italian' },
+  { code: 'pl', name: 'Polish' },
+];
+
+/**
+ * Settings used until a tenant saves its own
+ */
+export const DEFAULT_LOCALE_SETTINGS: LocaleSettings = {
+  locales: [
+    { code: 'en', name: 'English' },
+    { code: 'no', name: 'Norwegian' },
+  ],
+  defaultLocale: 'en',
+  fallbacks: {},
+};
@@ -0,0 +1,76 @@
+/**
+ * Product Grid Type Definitions
+ *
+ * The grid editor on /products edits many products at once as text cells,
+ * like a spreadsheet. Edits are staged in the browser and saved as one batch;
+ * each row is validated and saved on its own, so one bad row does not block
+ * the others.
+ */
+
+import type { Product } from './product';
+
+export type ProductGridColumnKind =
+  | 'name'
+  | 'sku'
+  | 'gtin'
+  | 'brand'
+  | 'status'
+  | 'standardPrice'
+  | 'salePrice'
+  | 'categories'
+  | 'attribute';
+
+/**
+ * A grid column. Keys encode what the column edits: "name:en",
+ * "standardPrice:NOK", "attribute:battery_life" or, for multilingual
+ * attributes, "attribute:care_text:no".
+ */
+export interface ProductGridColumn {
+  key: string;
+  kind: ProductGridColumnKind;
+  label: string;
+  locale?: string; // name and multilingual attribute columns
+  currency?: string; // price columns
+  attributeCode?: string; // attribute columns
+}
+
+/**
+ * The cells of one product changed in the grid, as text keyed by column
+ */
+export interface ProductGridRowChange {
+  productId: string;
+  expectedUpdatedAt?: string; // updatedAt when the grid loaded the product; rows changed since are rejected
+  values: Record<string, string>;
+}
+
+export interface ProductGridSaveInput {
+  rows: ProductGridRowChange[];
+}
+
+export interface ProductGridCellError {
+  column?: string; // Omitted for errors about the whole row
+  message: string;
+}
+
+export interface ProductGridFieldChange {
+  column: string;
+  field: string; // Product field path, e.g. "pricingAndStock.standardPrice.NOK"
+  oldValue: unknown;
+  newValue: unknown;
+}
+
+export interface ProductGridSavedRow {
+  productId: string;
+  product: Product;
+  changes: ProductGridFieldChange[];
+}
+
+export interface ProductGridFailedRow {
+  productId: string;
+  errors: ProductGridCellError[];
+}
+
+export interface ProductGridSaveResult {
+  saved: ProductGridSavedRow[];
+  failed: ProductGridFailedRow[];
+}
@@ -0,0 +1,129 @@
+/**
+ * Product Import Type Definitions
+ *
+ * The import wizard reads a CSV or XLSX file, maps its columns to product
+ * fields and shows, row by row, what the import would create and update
+ * before anything is saved. Column mappings can be saved as profiles for
+ * files that arrive in the same layout every time. JSON files and products
+ * from integrations go through the same import as whole product objects.
+ */
+
+import type { Product } from './product';
+import type { ProductGridCellError, ProductGridFieldChange } from './product-grid';
+
+/**
+ * The field existing products are matched on
+ */
+export type ProductImportMatchKey = 'id' | 'sku' | 'gtin';
+
+export const PRODUCT_IMPORT_MATCH_KEY_LABELS: Record<ProductImportMatchKey, string> = {
+  id: 'Product ID',
+  sku: 'SKU',
+  gtin: 'GTIN',
+};
+
+/**
+ * What happens to products that already exist:
+ * - overwrite: imported values replace stored ones
+ * - fill-empty: only fields that are empty are filled in
+ * - skip-existing: existing products are left alone; only new ones are created
+ */
+export type ProductImportMergeStrategy = 'overwrite' | 'fill-empty' | 'skip-existing';
+
+export const PRODUCT_IMPORT_MERGE_STRATEGY_LABELS: Record<ProductImportMergeStrategy, string> = {
+  'overwrite': 'Overwrite existing values',
+  'fill-empty': 'Only fill empty fields',
+  'skip-existing': 'Skip existing products',
+};
+
+/**
+ * Where a source column goes, keyed by the column's header. Targets are
+ * grid column keys ("name:en", "standardPrice:NOK", "attribute:color"),
+ * "descriptionShort:<locale>", "descriptionLong:<locale>", "family" or "id".
+ * Columns left out are not imported.
+ */
+export type ProductImportMapping = Record<string, string>;
+
+/**
+ * A field a source column can be mapped to
+ */
+export interface ProductImportTarget {
+  key: string;
+  label: string;
+  group: 'Basic' | 'Names' | 'Descriptions' | 'Prices' | 'Attributes';
+}
+
+/**
+ * The rows of a CSV file or the first sheet of a workbook, as text
+ */
+export interface ProductImportTable {
+  headers: string[];
+  rows: string[][];
+}
+
+/**
+ * A saved column mapping
+ */
+export interface ProductImportProfile {
+  id: string;
+  name: string;
+  description?: string;
+  mapping: ProductImportMapping;
+  matchBy: ProductImportMatchKey;
+  mergeStrategy: ProductImportMergeStrategy;
+  createdBy: { userId: string; userName: string };
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ProductImportProfileInput {
+  name: string;
+  description?: string;
+  mapping: ProductImportMapping;
+  matchBy: ProductImportMatchKey;
+  mergeStrategy: ProductImportMergeStrategy;
+}
+
+/**
+ * One mapped row of the file. Empty cells are left out, so they never
+ * clear a value of an existing product.
+ */
+export interface ProductImportRecord {
+  rowNumber: number; // Row in the file, counting the header as row 1
+  values: Record<string, string>;
+}
+
+export interface ProductImportOptions {
+  matchBy: ProductImportMatchKey;
+  mergeStrategy: ProductImportMergeStrategy;
+}
+
+/**
+ * Rows to import: mapped file rows, or product objects. Products are
+ * numbered from 1 in the order given; for existing products they can hold
+ * only the fields to change.
+ */
+export type ProductImportInput = ProductImportOptions & (
+  | { records: ProductImportRecord[]; products?: undefined }
+  | { products: Partial<Product>[]; records?: undefined }
+);
+
+export type ProductImportRowAction = 'create' | 'update' | 'unchanged' | 'skipped' | 'error';
+
+/**
+ * What the import does, or would do, with one row
+ */
+export interface ProductImportRowResult {
+  rowNumber: number;
+  action: ProductImportRowAction;
+  productId?: string; // The matched product, or the one created
+  sku?: string;
+  name?: string;
+  changes: ProductGridFieldChange[]; // Fields the row sets or changes; for product objects, only changes
+  errors: ProductGridCellError[];
+}
+
+export interface ProductImportResult {
+  rows: ProductImportRowResult[];
+  summary: Record<ProductImportRowAction, number>;
+}
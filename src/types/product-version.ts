@@ -0,0 +1,54 @@
+/**
+ * Product Version Type Definitions
+ *
+ * Every save of a product stores an immutable, numbered snapshot of the
+ * whole product so earlier states can be inspected, compared and restored.
+ */
+
+import type { Product } from './product';
+
+export interface ProductVersionAuthor {
+  userId: string;
+  userName?: string;
+}
+
+export interface ProductVersion {
+  id: string; // `${productId}_v${version}`
+  productId: string;
+  version: number; // 1-based, increments with every save
+  snapshot: Product;
+  changedFields: string[]; // Top-level field paths that differ from the previous version
+  createdAt: string;
+  createdBy?: ProductVersionAuthor;
+  reason?: string;
+  restoredFromVersion?: number; // Set when this version was created by a restore
+}
+
+export type ProductVersionSummary = Omit<ProductVersion, 'snapshot'>;
+
+export type VersionChangeType = 'added' | 'removed' | 'modified';
+
+export interface VersionFieldChange {
+  field: string; // Dot path, e.g. "basicInfo.name.en" or "media.images"
+  type: VersionChangeType;
+  oldValue: unknown;
+  newValue: unknown;
+}
+
+export interface ProductVersionDiff {
+  productId: string;
+  fromVersion: number;
+  toVersion: number;
+  changes: VersionFieldChange[];
+}
+
+/**
+ * Who saved a product and why; recorded on the version snapshot
+ */
+export interface ProductSaveContext {
+  userId?: string;
+  userName?: string;
+  reason?: string;
+  restoredFromVersion?: number;
+  tenantId?: string; // Tenant whose webhooks are told about the save; none are when omitted
+}
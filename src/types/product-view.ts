@@ -0,0 +1,108 @@
+/**
+ * Saved Product View Type Definitions
+ *
+ * A view is a named product list: filters, sort order and the columns shown.
+ * Views are personal or shared with roles or a team (the owner's department),
+ * and each user can pin the views they use to the sidebar.
+ */
+
+import type { ProductFacetSelection } from './facet';
+import type { UserRole } from './workflow';
+
+export type ProductSortField = 'updatedAt' | 'createdAt' | 'name' | 'sku' | 'brand' | 'quality';
+
+export const PRODUCT_SORT_FIELDS: ProductSortField[] = ['updatedAt', 'createdAt', 'name', 'sku', 'brand', 'quality'];
+
+export const PRODUCT_SORT_LABELS: Record<ProductSortField, string> = {
+  updatedAt: 'Last updated',
+  createdAt: 'Created',
+  name: 'Name',
+  sku: 'SKU',
+  brand: 'Brand',
+  quality: 'Quality score',
+};
+
+export interface ProductSort {
+  field: ProductSortField;
+  direction: 'asc' | 'desc';
+}
+
+export type ProductViewColumn =
+  | 'name'
+  | 'sku'
+  | 'gtin'
+  | 'brand'
+  | 'status'
+  | 'workflowState'
+  | 'reviewer'
+  | 'categories'
+  | 'quality'
+  | 'updatedAt';
+
+export const PRODUCT_VIEW_COLUMNS: ProductViewColumn[] = [
+  'name', 'sku', 'gtin', 'brand', 'status', 'workflowState', 'reviewer', 'categories', 'quality', 'updatedAt',
+];
+
+export const PRODUCT_VIEW_COLUMN_LABELS: Record<ProductViewColumn, string> = {
+  name: 'Name',
+  sku: 'SKU',
+  gtin: 'GTIN',
+  brand: 'Brand',
+  status: 'Status',
+  workflowState: 'Workflow state',
+  reviewer: 'Assigned reviewer',
+  categories: 'Categories',
+  quality: 'Quality',
+  updatedAt: 'Last updated',
+};
+
+export type ProductViewVisibility = 'private' | 'roles' | 'team';
+
+/**
+ * What a view narrows the product list by
+ */
+export interface ProductViewFilters {
+  search?: string;
+  facets: ProductFacetSelection; // Includes product status
+  quality?: 'incomplete' | 'missing-images' | 'validation-errors' | 'missing-fields'; // Quality dashboard filters
+}
+
+/**
+ * Filters, sort and columns of a product list, whether saved or not
+ */
+export interface ProductViewState {
+  filters: ProductViewFilters;
+  sort: ProductSort;
+  columns: ProductViewColumn[]; // Empty shows product cards instead of a table
+}
+
+export interface ProductView extends ProductViewState {
+  id: string;
+  name: string;
+  description?: string;
+  ownerId: string;
+  ownerName: string;
+  visibility: ProductViewVisibility;
+  sharedRoles: UserRole[]; // Roles that see the view when visibility is 'roles'
+  team: string | null; // Department that sees the view when visibility is 'team'
+  pinnedBy: string[]; // Users who pinned the view to their sidebar
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * A view as seen by one user
+ */
+export interface ProductViewSummary extends Omit<ProductView, 'pinnedBy'> {
+  pinned: boolean;
+  canEdit: boolean;
+}
+
+export interface CreateProductViewInput extends ProductViewState {
+  name: string;
+  description?: string;
+  visibility: ProductViewVisibility;
+  sharedRoles?: UserRole[];
+}
+
+export type UpdateProductViewInput = Partial<CreateProductViewInput>;
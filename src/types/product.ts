@@ -1,5 +1,9 @@
 import type { QualityMetrics } from './quality';
 import type { WorkflowState, UserRole } from './workflow';
+import type { AttributeValues, QuantityValue } from './attribute';
+import type { ChannelOverrides } from './channel';
+import type { ProductTranslations } from './translation';
+import type { BundleDefinition, ProductType } from './bundle';
 
 export type MultilingualString = {
   en: string;
@@ -11,6 +15,7 @@ export type KeyValueEntry = {
   id: string; // for react list keys
   key: string;
   value: string;
+  quantity?: QuantityValue; // Parsed value when it is a number with a known unit
 };
 
 export type MediaEntry = {
@@ -29,6 +34,7 @@ export type PriceEntry = {
   amount: number;
   validFrom?: string;
   validTo?: string;
+  active?: boolean; // Set by the scheduler at validFrom/validTo (see lib/scheduled-actions.ts)
 };
 
 export type CampaignEntry = {
@@ -37,10 +43,13 @@ export type CampaignEntry = {
   validFrom: string;
   validTo: string;
   description?: MultilingualString;
+  active?: boolean; // Set by the scheduler at validFrom/validTo
 };
 
 export type ProductStatus = 'active' | 'inactive' | 'development' | 'discontinued';
 
+export const PRODUCT_STATUSES: ProductStatus[] = ['active', 'inactive', 'development', 'discontinued'];
+
 export type ProductOption = {
   id: string;
   name: string; // e.g., "Color", "Size"
@@ -56,11 +65,13 @@ export type ProductVariant = {
   salePrice?: PriceEntry[];
   costPrice?: PriceEntry[];
   imageIds?: string[]; // Array of MediaEntry IDs linked to this variant
-  // Potentially other variant-specific fields like weight, dimensions if they differ
+  weight?: QuantityValue; // Overrides the product's weight for this variant
+  // Potentially other variant-specific fields like dimensions if they differ
 };
 
 export interface Product {
   id: string; // Unique product ID, can be auto-generated or SKU
+  productType?: ProductType; // Defaults to 'simple'
 
   basicInfo: {
     name: MultilingualString;
@@ -76,12 +87,14 @@ export interface Product {
   };
 
   attributesAndSpecs: {
-    categories: string[];
+    categories: string[]; // Category IDs from the managed taxonomy (see types/category.ts)
     properties: KeyValueEntry[];
     technicalSpecs: KeyValueEntry[];
     maintenanceInstructions?: MultilingualString;
     warrantyInfo?: MultilingualString;
     countryOfOrigin?: string;
+    familyId?: string; // Attribute family (see types/attribute.ts)
+    attributeValues?: AttributeValues; // Typed values keyed by attribute code
   };
 
   media: {
@@ -104,8 +117,11 @@ export interface Product {
     standardPrice: PriceEntry[];
     salePrice?: PriceEntry[];
     costPrice?: PriceEntry[];
+    stockQuantity?: number; // Inventory on hand, imported from Business Central
   };
 
+  bundle?: BundleDefinition; // Components and pricing rule when productType is 'bundle' (see types/bundle.ts)
+
   options?: ProductOption[]; // Defines the types of options available (e.g., Color, Size)
   variants?: ProductVariant[]; // Actual product variants based on options
 
@@ -121,6 +137,10 @@ export interface Product {
 
   aiSummary?: MultilingualString;
 
+  channelOverrides?: ChannelOverrides; // Per-channel content, keyed by channel ID (see types/channel.ts)
+
+  translations?: ProductTranslations; // Per-field, per-locale translation status (see types/translation.ts)
+
   qualityMetrics?: QualityMetrics; // Quality assessment data
 
   // Workflow state management
@@ -141,10 +161,23 @@ export interface Product {
     reason?: string;
   }>;
 
+  category?: string; // Legacy single free-text category from before the taxonomy; read-only
+
   createdAt: string;
   updatedAt: string;
 }
 
+/**
+ * One page of products from GET /api/products
+ */
+export interface ProductPage {
+  products: Product[];
+  total: number;
+  totalEstimated: boolean; // The exact count was unavailable; total is a lower bound
+  hasNext: boolean;
+  nextCursor?: string; // Pass as `cursor` to get the next page
+}
+
 export const defaultMultilingualString: MultilingualString = { en: '', no: '' };
 
 export const initialProductData: Omit<Product, 'id' | 'createdAt' | 'updatedAt'> = {
@@ -0,0 +1,77 @@
+/**
+ * Schedule Type Definitions
+ *
+ * Scheduled actions are derived from dates already on the product: the
+ * launch and end dates, and the validity windows of sale prices and
+ * campaigns. Only their outcomes are stored, so moving a date reschedules
+ * the action without extra bookkeeping.
+ */
+
+import type { MultilingualString } from './product';
+
+export type ScheduledActionType =
+  | 'publish'
+  | 'discontinue'
+  | 'activate_sale_price'
+  | 'expire_sale_price'
+  | 'activate_campaign'
+  | 'expire_campaign';
+
+export const SCHEDULED_ACTION_TYPES: ScheduledActionType[] = [
+  'publish', 'discontinue', 'activate_sale_price', 'expire_sale_price', 'activate_campaign', 'expire_campaign',
+];
+
+export const SCHEDULED_ACTION_LABELS: Record<ScheduledActionType, string> = {
+  publish: 'Publish',
+  discontinue: 'Discontinue',
+  activate_sale_price: 'Start sale price',
+  expire_sale_price: 'End sale price',
+  activate_campaign: 'Start campaign',
+  expire_campaign: 'End campaign',
+};
+
+// pending: not run yet; the rest are recorded outcomes
+export type ScheduledActionStatus = 'pending' | 'completed' | 'skipped' | 'failed' | 'cancelled';
+
+export const SCHEDULED_ACTION_STATUS_LABELS: Record<ScheduledActionStatus, string> = {
+  pending: 'Pending',
+  completed: 'Completed',
+  skipped: 'Skipped',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+export interface ScheduledAction {
+  id: string; // Stable for the same product, action, target and time
+  productId: string;
+  productName: MultilingualString;
+  sku: string;
+  type: ScheduledActionType;
+  runAt: string; // ISO date string
+  targetId?: string; // Sale price or campaign entry ID
+  targetLabel?: string; // e.g. "NOK 799" or the campaign code
+  status: ScheduledActionStatus;
+  note?: string; // Why the action was skipped or failed, or what it is waiting for
+  recordedAt?: string; // When the outcome was recorded
+  recordedBy?: { userId: string; userName?: string };
+}
+
+/**
+ * Stored outcome of a scheduled action
+ */
+export type ScheduledActionRecord = Omit<ScheduledAction, 'status'> & {
+  status: Exclude<ScheduledActionStatus, 'pending'>;
+  recordedAt: string;
+};
+
+/**
+ * Result of one scheduler run
+ */
+export interface SchedulerRunSummary {
+  runAt: string;
+  completed: number;
+  skipped: number;
+  failed: number;
+  waiting: number; // Due but not possible yet, e.g. a launch before approval
+  actions: Array<Pick<ScheduledAction, 'id' | 'productId' | 'sku' | 'type' | 'status' | 'note'>>;
+}
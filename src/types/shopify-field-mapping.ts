@@ -0,0 +1,104 @@
+/**
+ * Shopify Field Mapping Type Definitions
+ *
+ * Each tenant configures which Pimify fields and attributes a Shopify sync
+ * writes to product metafields, tags and the product type, and reads back
+ * from them on import. Sources name a Pimify field, e.g. "warrantyInfo",
+ * or one entry of it: "spec:<key>" and "property:<key>" for a technical
+ * spec or property, "attribute:<code>" for an attribute family value.
+ */
+
+export type ShopifyMetafieldType =
+  | 'single_line_text_field'
+  | 'multi_line_text_field'
+  | 'number_integer'
+  | 'number_decimal'
+  | 'boolean'
+  | 'date'
+  | 'url'
+  | 'json'
+  | 'list.single_line_text_field'
+  | 'list.url';
+
+export const SHOPIFY_METAFIELD_TYPE_LABELS: Record<ShopifyMetafieldType, string> = {
+  single_line_text_field: 'Single line text',
+  multi_line_text_field: 'Multi-line text',
+  number_integer: 'Integer',
+  number_decimal: 'Decimal',
+  boolean: 'True or false',
+  date: 'Date',
+  url: 'URL',
+  json: 'JSON',
+  'list.single_line_text_field': 'List of single line texts',
+  'list.url': 'List of URLs',
+};
+
+export const SHOPIFY_METAFIELD_TYPES = Object.keys(SHOPIFY_METAFIELD_TYPE_LABELS) as ShopifyMetafieldType[];
+
+// Pimify fields a mapping can use besides "spec:", "property:" and "attribute:" entries
+export type ShopifyMappingField =
+  | 'categories'
+  | 'brand'
+  | 'gtin'
+  | 'countryOfOrigin'
+  | 'warrantyInfo'
+  | 'maintenanceInstructions'
+  | 'technicalSpecs'
+  | 'properties'
+  | 'manuals'
+  | 'certificates';
+
+export const SHOPIFY_MAPPING_FIELD_LABELS: Record<ShopifyMappingField, string> = {
+  categories: 'Categories',
+  brand: 'Brand',
+  gtin: 'GTIN',
+  countryOfOrigin: 'Country of origin',
+  warrantyInfo: 'Warranty information',
+  maintenanceInstructions: 'Maintenance instructions',
+  technicalSpecs: 'Technical specifications (all)',
+  properties: 'Properties (all)',
+  manuals: 'Manuals',
+  certificates: 'Certificates',
+};
+
+/**
+ * A Pimify field written to a product metafield
+ */
+export interface ShopifyMetafieldMapping {
+  id: string;
+  source: string;
+  namespace: string;
+  key: string;
+  type: ShopifyMetafieldType;
+}
+
+/**
+ * A Pimify field written as tags, one per value. Tags with a prefix
+ * ("Material:Oak") are read back into the field on import; tags without
+ * one cannot be told from keywords and are only exported.
+ */
+export interface ShopifyTagMapping {
+  id: string;
+  source: string;
+  prefix?: string;
+}
+
+export interface ShopifyFieldMappingSettings {
+  metafields: ShopifyMetafieldMapping[];
+  tags: ShopifyTagMapping[];
+  productTypeSource: string; // "categories" exports the first category name
+  updatedAt?: string;
+  updatedBy?: string;
+}
+
+export type UpdateShopifyFieldMappingInput = Pick<ShopifyFieldMappingSettings, 'metafields' | 'tags' | 'productTypeSource'>;
+
+/**
+ * Settings used until a tenant saves its own: the product type from the
+ * first category, as before mappings could be configured
+ */
+export const DEFAULT_SHOPIFY_FIELD_MAPPING: ShopifyFieldMappingSettings = {
+  metafields: [],
+  tags: [],
+  productTypeSource: 'categories',
+};
@@ -0,0 +1,81 @@
+/**
+ * Shopify Sync Type Definitions
+ *
+ * A sync links each Pimify product to one Shopify product and remembers the
+ * IDs of its Shopify variants and images, so running it again updates the
+ * linked items instead of creating duplicates. Every run is logged with the
+ * outcome of each product.
+ */
+
+export type ShopifySyncDirection = 'export' | 'import' | 'both';
+
+export const SHOPIFY_SYNC_DIRECTION_LABELS: Record<ShopifySyncDirection, string> = {
+  export: 'Pimify to Shopify',
+  import: 'Shopify to Pimify',
+  both: 'Both ways',
+};
+
+/**
+ * Shopify IDs of a product's parts, by Pimify ID
+ */
+export interface ShopifyIdMap {
+  variants: Record<string, number>; // Pimify variant ID, or the product ID for a product without variants
+  images: Record<string, number>; // Pimify media entry ID
+}
+
+/**
+ * The link between a Pimify product and a Shopify product
+ */
+export interface ShopifyProductMapping extends ShopifyIdMap {
+  id: string;
+  tenantId: string;
+  shop: string; // Shop domain, e.g. "acme.myshopify.com"
+  productId: string;
+  shopifyProductId: number;
+  productUpdatedAt: string; // updatedAt of the Pimify product when last synced
+  shopifyUpdatedAt: string; // updated_at of the Shopify product when last synced
+  lastSyncedAt: string;
+}
+
+export type ShopifySyncAction = 'created' | 'updated' | 'skipped' | 'deleted' | 'failed';
+
+/**
+ * What a run did with one product. "export" items changed Shopify and
+ * "import" items changed Pimify.
+ */
+export interface ShopifySyncItem {
+  direction: 'export' | 'import';
+  action: ShopifySyncAction;
+  productId?: string;
+  shopifyProductId?: number;
+  sku?: string;
+  title?: string;
+  message?: string;
+}
+
+export type ShopifySyncSummary = Record<ShopifySyncAction, number>;
+
+export interface ShopifySyncRun {
+  id: string;
+  tenantId: string;
+  integrationId: string;
+  shop: string;
+  direction: ShopifySyncDirection;
+  // "failed" when the run stopped early, e.g. Shopify could not be listed;
+  // "cancelled" when its job was cancelled part way
+  status: 'completed' | 'failed' | 'cancelled';
+  error?: string;
+  startedBy: { userId: string; userName: string };
+  startedAt: string;
+  finishedAt: string;
+  summary: ShopifySyncSummary;
+  items: ShopifySyncItem[];
+}
+
+export interface ShopifySyncInput {
+  integrationId: string; // The Shopify credential in the integration vault
+  direction: ShopifySyncDirection;
+  productIds?: string[]; // Only these Pimify products; deletions are not looked for
+  workflowStates?: string[]; // Only export products in these workflow states
+  channelId?: string; // Channel whose overrides the export applies
+}
@@ -0,0 +1,85 @@
+/**
+ * Translation Type Definitions
+ *
+ * Translations are tracked per product field and target locale. Each entry
+ * remembers fingerprints of the source and target text it was recorded for,
+ * so later edits to either are detected without extra bookkeeping: a changed
+ * source makes the translation outdated, a changed target needs review again.
+ */
+
+export type TranslationStatus = 'missing' | 'machine_translated' | 'needs_review' | 'approved';
+
+export const TRANSLATION_STATUSES: TranslationStatus[] = ['missing', 'machine_translated', 'needs_review', 'approved'];
+
+export const TRANSLATION_STATUS_LABELS: Record<TranslationStatus, string> = {
+  missing: 'Missing',
+  machine_translated: 'Machine-translated',
+  needs_review: 'Needs review',
+  approved: 'Approved',
+};
+
+export type TranslatableField = 'name' | 'descriptionShort' | 'descriptionLong' | 'seoTitle' | 'seoDescription';
+
+export const TRANSLATABLE_FIELDS: TranslatableField[] = ['name', 'descriptionShort', 'descriptionLong', 'seoTitle', 'seoDescription'];
+
+export const TRANSLATABLE_FIELD_LABELS: Record<TranslatableField, string> = {
+  name: 'Name',
+  descriptionShort: 'Short description',
+  descriptionLong: 'Long description',
+  seoTitle: 'SEO title',
+  seoDescription: 'SEO description',
+};
+
+export interface TranslationEntry {
+  status: Exclude<TranslationStatus, 'missing'>;
+  sourceLocale: string;
+  sourceHash: string; // Fingerprint of the source text the translation was made from
+  targetHash: string; // Fingerprint of the translated text when the status was set
+  updatedAt: string;
+  updatedBy?: string;
+}
+
+/**
+ * Translation entries stored on a product: field -> target locale -> entry
+ */
+export type ProductTranslations = Partial<Record<TranslatableField, Record<string, TranslationEntry>>>;
+
+/**
+ * Effective state of one field in one locale
+ */
+export interface TranslationState {
+  status: TranslationStatus;
+  outdated: boolean; // The source text changed after the translation was recorded
+}
+
+/**
+ * One row of the translator queue
+ */
+export interface TranslationTask extends TranslationState {
+  productId: string;
+  sku: string;
+  productName: string;
+  field: TranslatableField;
+  locale: string;
+  sourceLocale: string;
+  sourceText: string;
+  targetText: string;
+  updatedAt?: string;
+}
+
+export interface UpdateTranslationInput {
+  field: TranslatableField;
+  locale: string;
+  text?: string; // New target text; omitted to only change the status
+  status: Exclude<TranslationStatus, 'missing'>;
+}
+
+/**
+ * Outcome of machine-translating one product
+ */
+export interface MachineTranslationResult {
+  productId: string;
+  sku?: string;
+  translated: string[]; // "field:locale" pairs that were written
+  errors: string[];
+}
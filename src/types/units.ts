@@ -0,0 +1,25 @@
+/**
+ * Units of Measure Type Definitions
+ *
+ * Every unit belongs to a physical dimension and converts to the dimension's
+ * base unit with a fixed factor. Quantities are stored with the unit they
+ * were entered in, plus the value normalized to the base unit so they can be
+ * compared and converted regardless of source.
+ */
+
+export type Dimension = 'length' | 'mass' | 'volume' | 'power';
+
+export const DIMENSIONS: Dimension[] = ['length', 'mass', 'volume', 'power'];
+
+export interface UnitDefinition {
+  code: string; // Canonical symbol, e.g. "kg"
+  dimension: Dimension;
+  name: string;
+  toBase: number; // Multiply by this factor to convert to the dimension's base unit
+  aliases?: string[]; // Alternative spellings recognized when parsing, matched case-insensitively
+}
+
+/**
+ * Preferred unit per dimension, e.g. what a channel expects on export
+ */
+export type UnitPreferences = Partial<Record<Dimension, string>>;
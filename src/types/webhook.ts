@@ -0,0 +1,129 @@
+/**
+ * Webhook Type Definitions
+ *
+ * Tenants subscribe HTTPS endpoints to product and workflow events. Every
+ * event is delivered as a signed JSON POST, retried with exponential backoff
+ * until the endpoint answers with a 2xx, and kept in a delivery log from
+ * which it can be replayed.
+ */
+
+import type { WorkflowState } from './workflow';
+
+export type WebhookEventType =
+  | 'product.created'
+  | 'product.updated'
+  | 'product.deleted'
+  | 'product.submitted'
+  | 'product.approved'
+  | 'product.rejected'
+  | 'product.published'
+  | 'product.unpublished'
+  | 'product.returned_to_draft';
+
+export const WEBHOOK_EVENT_TYPES: WebhookEventType[] = [
+  'product.created',
+  'product.updated',
+  'product.deleted',
+  'product.submitted',
+  'product.approved',
+  'product.rejected',
+  'product.published',
+  'product.unpublished',
+  'product.returned_to_draft',
+];
+
+export const WEBHOOK_EVENT_LABELS: Record<WebhookEventType, string> = {
+  'product.created': 'Product created',
+  'product.updated': 'Product updated',
+  'product.deleted': 'Product deleted',
+  'product.submitted': 'Submitted for review',
+  'product.approved': 'Approved',
+  'product.rejected': 'Rejected',
+  'product.published': 'Published',
+  'product.unpublished': 'Unpublished',
+  'product.returned_to_draft': 'Returned to draft',
+};
+
+export interface WebhookEventData {
+  productId: string;
+  sku?: string;
+  fromState?: WorkflowState; // Workflow events only
+  toState?: WorkflowState;
+  changedFields?: string[]; // product.updated only
+  userId?: string;
+  userName?: string;
+  reason?: string;
+}
+
+/**
+ * The JSON body POSTed to endpoints
+ */
+export interface WebhookEvent {
+  id: string;
+  type: WebhookEventType;
+  tenantId: string;
+  occurredAt: string;
+  data: WebhookEventData;
+}
+
+export interface WebhookEndpoint {
+  id: string;
+  tenantId: string;
+  url: string;
+  description?: string;
+  eventTypes: WebhookEventType[];
+  secret: string; // Shared HMAC secret; only shown when created or rotated
+  active: boolean;
+  createdBy: string;
+  createdByName?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * An endpoint as listed in settings; the secret is reduced to its last characters
+ */
+export type WebhookEndpointSummary = Omit<WebhookEndpoint, 'secret'> & { secretHint: string };
+
+export interface WebhookEndpointInput {
+  url: string;
+  description?: string;
+  eventTypes: WebhookEventType[];
+  active?: boolean;
+}
+
+/**
+ * A newly created endpoint or rotated secret; `secret` is not shown again
+ */
+export interface WebhookEndpointWithSecret {
+  endpoint: WebhookEndpointSummary;
+  secret: string;
+}
+
+// pending: waiting for its next attempt. succeeded: answered with a 2xx.
+// failed: every attempt failed, or the endpoint was deleted or disabled.
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+export interface WebhookDeliveryAttempt {
+  attemptedAt: string;
+  durationMs: number;
+  responseStatus?: number;
+  responseBody?: string; // Truncated
+  error?: string; // Network errors and timeouts
+}
+
+export interface WebhookDelivery {
+  id: string;
+  tenantId: string;
+  endpointId: string;
+  url: string; // Endpoint URL when the delivery was created
+  eventId: string;
+  eventType: WebhookEventType;
+  payload: string; // The exact body that is signed and sent
+  status: WebhookDeliveryStatus;
+  attempts: WebhookDeliveryAttempt[];
+  nextAttemptAt?: string;
+  replayOf?: string; // Delivery this one replays
+  createdAt: string;
+  updatedAt: string;
+}
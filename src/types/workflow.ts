@@ -22,6 +22,7 @@ export enum UserRole {
   ADMIN = 'admin',
   EDITOR = 'editor',
   REVIEWER = 'reviewer',
+  TRANSLATOR = 'translator',
   VIEWER = 'viewer'
 }
 
@@ -53,6 +54,7 @@ export enum WorkflowAction {
   BULK_OPERATIONS = 'bulk_operations',
   DELETE = 'delete',
   STATE_CHANGE = 'state_change',
+  TRANSLATE = 'translate',
 }
 
 // Field Change Tracking